@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import { Layout } from '@/components/layout/Layout';
+import { FocusView } from '@/components/focus/FocusView';
+
+export default function FocusPage() {
+  return (
+    <Layout>
+      <FocusView />
+    </Layout>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useEffect } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Layout } from '@/components/layout/Layout';
 import { KanbanBoard } from '@/components/kanban/KanbanBoard';
 import { ListView } from '@/components/list/ListView';
@@ -10,6 +10,7 @@ import { TimelineView } from '@/components/timeline/TimelineView';
 import { DashboardView } from '@/components/dashboard/DashboardView';
 import { useApp } from '@/context/AppContext';
 import { useProjects } from '@/context/ProjectContext';
+import { api } from '@/services/api';
 import type { ViewType } from '@/types';
 
 const VALID_VIEWS: ViewType[] = ['kanban', 'list', 'calendar', 'timeline', 'dashboard'];
@@ -17,7 +18,8 @@ const VALID_VIEWS: ViewType[] = ['kanban', 'list', 'calendar', 'timeline', 'dash
 export default function ProjectViewPage() {
   const params = useParams<{ projectId: string; view: string }>();
   const router = useRouter();
-  const { setCurrentView, setCurrentProjectId } = useApp();
+  const searchParams = useSearchParams();
+  const { setCurrentView, setCurrentProjectId, openTaskModal } = useApp();
   const { projects, loading, currentProject, setCurrentProjectById } = useProjects();
 
   const projectId = params?.projectId ? parseInt(params.projectId, 10) : null;
@@ -41,6 +43,16 @@ export default function ProjectViewPage() {
     }
   }, [view, setCurrentView]);
 
+  // Open the task a link points to with ?task=<id>, as calendar feed entries do
+  const linkedTaskId = Number(searchParams?.get('task'));
+  useEffect(() => {
+    if (!linkedTaskId || !projectId) return;
+    api.tasks.getOne(linkedTaskId)
+      .then(task => openTaskModal(task))
+      .catch(err => console.error('Failed to load linked task:', err))
+      .finally(() => router.replace(`/projects/${projectId}/${view}`));
+  }, [linkedTaskId, projectId, view, openTaskModal, router]);
+
   // Redirect if projectId is invalid once projects are loaded
   useEffect(() => {
     if (!loading && projects.length > 0 && projectId && !isNaN(projectId)) {
@@ -14,15 +14,18 @@ import { CustomFieldProvider } from '@/context/CustomFieldContext';
 import { SavedViewProvider } from '@/context/SavedViewContext';
 import { TimeEntryProvider } from '@/context/TimeEntryContext';
 import { PomodoroProvider } from '@/context/PomodoroContext';
+import { StatusProvider } from '@/context/StatusContext';
 import { useProjects } from '@/context/ProjectContext';
 
-// TaskProviderWrapper provides TaskProvider scoped to the current project
+// TaskProviderWrapper provides StatusProvider and TaskProvider scoped to the current project
 function TaskProviderWrapper({ children }: { children: React.ReactNode }) {
   const { currentProject } = useProjects();
   return (
-    <TaskProvider projectId={currentProject?.id}>
-      {children}
-    </TaskProvider>
+    <StatusProvider projectId={currentProject?.id}>
+      <TaskProvider projectId={currentProject?.id}>
+        {children}
+      </TaskProvider>
+    </StatusProvider>
   );
 }
 
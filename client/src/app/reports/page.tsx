@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import { Layout } from '@/components/layout/Layout';
+import { TimeReportsView } from '@/components/reports/TimeReportsView';
+
+export default function ReportsPage() {
+  return (
+    <Layout>
+      <TimeReportsView />
+    </Layout>
+  );
+}
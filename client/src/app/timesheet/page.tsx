@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import { Layout } from '@/components/layout/Layout';
+import { TimesheetView } from '@/components/timesheet/TimesheetView';
+
+export default function TimesheetPage() {
+  return (
+    <Layout>
+      <TimesheetView />
+    </Layout>
+  );
+}
@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import { Layout } from '@/components/layout/Layout';
+import { TrashView } from '@/components/trash/TrashView';
+
+export default function TrashPage() {
+  return (
+    <Layout>
+      <TrashView />
+    </Layout>
+  );
+}
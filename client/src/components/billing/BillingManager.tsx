@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useState } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { useProjects } from '../../context/ProjectContext';
+import { BillingRates } from './BillingRates';
+import { InvoicesPanel } from './InvoicesPanel';
+
+type BillingTab = 'invoices' | 'rates';
+
+const TABS: { value: BillingTab; label: string }[] = [
+  { value: 'invoices', label: 'Invoices' },
+  { value: 'rates', label: 'Rates & Settings' },
+];
+
+/**
+ * Billing of the current project: its invoices, and the rates its time is billed at.
+ */
+export function BillingManager() {
+  const { currentProject } = useProjects();
+  const [tab, setTab] = useState<BillingTab>('invoices');
+
+  if (!currentProject) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400">Open a project to bill its time.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-1 border-b border-gray-200 dark:border-gray-700">
+        {TABS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setTab(option.value)}
+            aria-pressed={tab === option.value}
+            className={twMerge(
+              clsx(
+                'px-3 py-2 -mb-px text-sm font-medium border-b-2 transition-colors',
+                tab === option.value
+                  ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                  : 'border-transparent text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100'
+              )
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {tab === 'invoices' ? (
+        <InvoicesPanel key={currentProject.id} project={currentProject} />
+      ) : (
+        <BillingRates key={currentProject.id} project={currentProject} />
+      )}
+    </div>
+  );
+}
+
+export default BillingManager;
@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2 } from 'lucide-react';
+import { api } from '../../services/api';
+import { usePeople } from '../../context/PeopleContext';
+import { useToast } from '../../context/ToastContext';
+import type { BillingRate, Project, ProjectBilling } from '../../types';
+import { FormField, FormInput, FormTextarea } from '../common/FormFields';
+import { Button } from '../common/Button';
+import { formatCurrencyValue } from '../common/CustomFieldInput';
+
+// Longest currency code or unit the server takes
+const MAX_CURRENCY_LENGTH = 10;
+
+// Reads a typed rate: blank is null (no rate), and undefined means it can't be read
+function parseRate(input: string): number | null | undefined {
+  const value = input.trim().replace(',', '.');
+  if (value === '') return null;
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate >= 0 ? rate : undefined;
+}
+
+interface RateInputProps {
+  value: number | null;
+  placeholder?: string;
+  label: string;
+  onSave: (rate: number | null) => Promise<void>;
+}
+
+// A rate field that saves when it loses focus
+function RateInput({ value, placeholder, label, onSave }: RateInputProps) {
+  const [text, setText] = useState(value === null ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === null ? '' : String(value));
+  }, [value]);
+
+  const handleBlur = async () => {
+    const rate = parseRate(text);
+    if (rate === undefined) {
+      setText(value === null ? '' : String(value));
+      return;
+    }
+    if (rate === value) return;
+    try {
+      await onSave(rate);
+    } catch {
+      setText(value === null ? '' : String(value));
+    }
+  };
+
+  return (
+    <FormInput
+      inputMode="decimal"
+      value={text}
+      placeholder={placeholder}
+      aria-label={label}
+      onChange={e => setText(e.target.value)}
+      onBlur={handleBlur}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className="py-1 text-right tabular-nums"
+    />
+  );
+}
+
+interface BillingRatesProps {
+  project: Project;
+}
+
+/**
+ * A project's currency, hourly rate and bill-to address, and everyone's rates: their
+ * default rate and, overriding the project's, their rate on this project.
+ */
+export function BillingRates({ project }: BillingRatesProps) {
+  const { people } = usePeople();
+  const toast = useToast();
+
+  const [billing, setBilling] = useState<ProjectBilling | null>(null);
+  const [rates, setRates] = useState<BillingRate[]>([]);
+  const [form, setForm] = useState({ currency: '', hourly_rate: '', bill_to: '' });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    const [loadedBilling, loadedRates] = await Promise.all([
+      api.billing.getProject(project.id),
+      api.billing.getRates(project.id),
+    ]);
+    setBilling(loadedBilling);
+    setRates(loadedRates);
+    setForm({
+      currency: loadedBilling.currency,
+      hourly_rate: loadedBilling.hourly_rate === null ? '' : String(loadedBilling.hourly_rate),
+      bill_to: loadedBilling.bill_to ?? '',
+    });
+  }, [project.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    load()
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load billing'))
+      .finally(() => setLoading(false));
+  }, [load]);
+
+  const handleSaveProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const hourlyRate = parseRate(form.hourly_rate);
+    if (hourlyRate === undefined) {
+      toast.error('Invalid rate', 'The hourly rate must be a number of zero or more.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const saved = await api.billing.updateProject(project.id, {
+        currency: form.currency.trim(),
+        hourly_rate: hourlyRate,
+        bill_to: form.bill_to,
+      });
+      setBilling(saved);
+      toast.success('Billing saved');
+    } catch (err) {
+      toast.error('Failed to save billing', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveRate = async (personId: string, projectId: number | null, hourlyRate: number | null) => {
+    try {
+      const saved = await api.billing.setRate({ person_id: personId, project_id: projectId, hourly_rate: hourlyRate });
+      setRates(prev => {
+        const others = prev.filter(r => !(r.person_id === personId && r.project_id === projectId));
+        return saved ? [...others, saved] : others;
+      });
+    } catch (err) {
+      toast.error('Failed to save rate', err instanceof Error ? err.message : undefined);
+      throw err;
+    }
+  };
+
+  if (error) {
+    return <p className="py-6 text-center text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+  if (loading || !billing) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const rateOf = (personId: string, projectId: number | null) =>
+    rates.find(r => r.person_id === personId && r.project_id === projectId)?.hourly_rate ?? null;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSaveProject} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField label="Currency" helperText="A currency code such as EUR or USD">
+            <FormInput
+              value={form.currency}
+              maxLength={MAX_CURRENCY_LENGTH}
+              onChange={e => setForm(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+              required
+            />
+          </FormField>
+          <FormField label="Project hourly rate" helperText="For everyone without a rate on this project">
+            <FormInput
+              inputMode="decimal"
+              value={form.hourly_rate}
+              placeholder="No project rate"
+              onChange={e => setForm(prev => ({ ...prev, hourly_rate: e.target.value }))}
+            />
+          </FormField>
+        </div>
+        <FormField label="Bill to" helperText="Who invoices for this project are addressed to">
+          <FormTextarea
+            value={form.bill_to}
+            rows={3}
+            placeholder={'Client name\nAddress'}
+            onChange={e => setForm(prev => ({ ...prev, bill_to: e.target.value }))}
+          />
+        </FormField>
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" isLoading={isSaving}>
+            Save billing
+          </Button>
+        </div>
+      </form>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Hourly rates</h3>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Time is billed at the person&apos;s rate on this project, else the project rate, else their default rate.
+          Rates save when you leave the field; clear a field to remove the rate.
+        </p>
+        {people.length === 0 ? (
+          <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">Add people to set their rates.</p>
+        ) : (
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                <th className="py-2 text-left font-medium">Person</th>
+                <th className="py-2 px-2 text-right font-medium w-36">Default rate</th>
+                <th className="py-2 px-2 text-right font-medium w-36">Rate on this project</th>
+                <th className="py-2 text-right font-medium w-32">Billed at</th>
+              </tr>
+            </thead>
+            <tbody>
+              {people.map(person => {
+                const personId = String(person.id);
+                const defaultRate = rateOf(personId, null);
+                const projectRate = rateOf(personId, project.id);
+                const billedAt = projectRate ?? billing.hourly_rate ?? defaultRate;
+                return (
+                  <tr key={person.id} className="border-b border-gray-100 dark:border-gray-700/60">
+                    <td className="py-1.5 text-gray-900 dark:text-gray-100">{person.name}</td>
+                    <td className="py-1.5 px-2">
+                      <RateInput
+                        value={defaultRate}
+                        label={`Default rate of ${person.name}`}
+                        onSave={rate => handleSaveRate(personId, null, rate)}
+                      />
+                    </td>
+                    <td className="py-1.5 px-2">
+                      <RateInput
+                        value={projectRate}
+                        placeholder={billing.hourly_rate !== null ? String(billing.hourly_rate) : undefined}
+                        label={`Rate of ${person.name} on ${project.name}`}
+                        onSave={rate => handleSaveRate(personId, project.id, rate)}
+                      />
+                    </td>
+                    <td className="py-1.5 text-right tabular-nums text-gray-600 dark:text-gray-400">
+                      {billedAt === null ? 'No rate' : `${formatCurrencyValue(billedAt, billing.currency)}/h`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BillingRates;
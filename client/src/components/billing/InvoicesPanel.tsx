@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { addMonths, endOfMonth, startOfMonth } from 'date-fns';
+import { AlertTriangle, Download, Eye, Loader2, Printer, Trash2 } from 'lucide-react';
+import { api } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+import type { Invoice, InvoicePreview, Project, ProjectBillingSummary } from '../../types';
+import { FormDateInput, FormField, FormInput, FormTextarea } from '../common/FormFields';
+import { Button } from '../common/Button';
+import { formatCurrencyValue } from '../common/CustomFieldInput';
+import { toDateString } from '../../utils/schedule';
+import { formatHours, localTimeZone } from '../../utils/timesheet';
+
+// The first and last day of a month, months from this one
+function monthRange(offset: number): { from: string; to: string } {
+  const month = addMonths(new Date(), offset);
+  return { from: toDateString(startOfMonth(month)), to: toDateString(endOfMonth(month)) };
+}
+
+interface SummaryTileProps {
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+function SummaryTile({ label, value, detail }: SummaryTileProps) {
+  return (
+    <div className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+      <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+      <div className="text-lg font-semibold tabular-nums text-gray-900 dark:text-gray-100">{value}</div>
+      {detail && <div className="text-xs tabular-nums text-gray-500 dark:text-gray-400">{detail}</div>}
+    </div>
+  );
+}
+
+interface InvoicesPanelProps {
+  project: Project;
+}
+
+/**
+ * A project's billing summary, its invoices, and invoicing the uninvoiced billable time
+ * of a range of days after previewing it.
+ */
+export function InvoicesPanel({ project }: InvoicesPanelProps) {
+  const toast = useToast();
+
+  const [summary, setSummary] = useState<ProjectBillingSummary | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [range, setRange] = useState(() => monthRange(-1));
+  const [form, setForm] = useState({ number: '', due_date: '', notes: '' });
+  const [preview, setPreview] = useState<InvoicePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    const [timeSummary, loadedInvoices] = await Promise.all([
+      api.timeEntries.getProjectSummary(project.id),
+      api.billing.getInvoices(project.id),
+    ]);
+    setSummary(timeSummary.billing);
+    setInvoices(loadedInvoices);
+  }, [project.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    load()
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load invoices'))
+      .finally(() => setLoading(false));
+  }, [load]);
+
+  const changeRange = (next: { from: string; to: string }) => {
+    setRange(next);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview(await api.billing.previewInvoice(project.id, { ...range, tz: localTimeZone() }));
+    } catch (err) {
+      toast.error('Preview failed', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const created = await api.billing.createInvoice(project.id, {
+        ...range,
+        tz: localTimeZone(),
+        number: form.number.trim() || undefined,
+        due_date: form.due_date || null,
+        notes: form.notes || null,
+      });
+      toast.success('Invoice created', `${created.number} bills ${formatHours(created.total_us)}; its time entries are now locked.`);
+      setPreview(null);
+      setForm({ number: '', due_date: '', notes: '' });
+      await load();
+    } catch (err) {
+      toast.error('Failed to create invoice', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleExport = async (invoice: Invoice) => {
+    try {
+      await api.billing.exportInvoice(invoice);
+    } catch (err) {
+      toast.error('Export Failed', err instanceof Error ? err.message : 'Failed to export the invoice');
+    }
+  };
+
+  const handleVoid = async (invoice: Invoice) => {
+    if (!confirm(`Void invoice ${invoice.number}? Its time entries are unlocked so they can be changed and invoiced again.`)) {
+      return;
+    }
+    try {
+      await api.billing.voidInvoice(invoice.id);
+      toast.success('Invoice voided', `${invoice.number} was removed.`);
+      await load();
+    } catch (err) {
+      toast.error('Failed to void invoice', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  if (error) {
+    return <p className="py-6 text-center text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+  if (loading || !summary) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const money = (amount: number, currency = summary.currency) => formatCurrencyValue(amount, currency);
+  const canCreate = preview !== null && preview.lines.length > 0 && preview.missing_rates.length === 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <SummaryTile label="Billable" value={formatHours(summary.billable_us)} detail={money(summary.billable_amount)} />
+        <SummaryTile label="Not billable" value={formatHours(summary.non_billable_us)} />
+        <SummaryTile
+          label="Not yet invoiced"
+          value={money(summary.uninvoiced_amount)}
+          detail={formatHours(summary.uninvoiced_us)}
+        />
+        <SummaryTile label="Invoiced" value={money(summary.invoiced_amount)} detail={formatHours(summary.invoiced_us)} />
+      </div>
+      {summary.unrated_us > 0 && (
+        <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {formatHours(summary.unrated_us)} of billable time has no hourly rate and isn&apos;t counted in the amounts.
+        </p>
+      )}
+
+      {/* New invoice */}
+      <section className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">New invoice</h3>
+        <div className="flex flex-wrap items-end gap-2">
+          <FormField label="From">
+            <FormDateInput value={range.from} max={range.to} onChange={e => changeRange({ ...range, from: e.target.value })} />
+          </FormField>
+          <FormField label="To">
+            <FormDateInput value={range.to} min={range.from} onChange={e => changeRange({ ...range, to: e.target.value })} />
+          </FormField>
+          <Button variant="ghost" size="sm" onClick={() => changeRange(monthRange(-1))}>
+            Last month
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => changeRange(monthRange(0))}>
+            This month
+          </Button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <FormField label="Number" helperText="Left empty, the next INV-0001 style number">
+            <FormInput
+              value={form.number}
+              maxLength={50}
+              onChange={e => setForm(prev => ({ ...prev, number: e.target.value }))}
+            />
+          </FormField>
+          <FormField label="Due date">
+            <FormDateInput value={form.due_date} onChange={e => setForm(prev => ({ ...prev, due_date: e.target.value }))} />
+          </FormField>
+        </div>
+        <FormField label="Notes" helperText="Printed at the bottom of the invoice, e.g. payment details">
+          <FormTextarea
+            value={form.notes}
+            rows={2}
+            onChange={e => setForm(prev => ({ ...prev, notes: e.target.value }))}
+          />
+        </FormField>
+
+        {preview && (
+          <div className="rounded-lg border border-gray-200 dark:border-gray-700">
+            {preview.missing_rates.length > 0 && (
+              <p className="flex items-center gap-2 px-3 py-2 text-sm text-amber-600 dark:text-amber-400 border-b border-gray-200 dark:border-gray-700">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                Set an hourly rate for {preview.missing_rates.join(', ')} before invoicing this time.
+              </p>
+            )}
+            {preview.lines.length === 0 ? (
+              <p className="px-3 py-4 text-sm text-center text-gray-500 dark:text-gray-400">
+                There is no uninvoiced billable time in this range.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                    <th className="px-3 py-2 text-left font-medium">Description</th>
+                    <th className="px-3 py-2 text-left font-medium">Person</th>
+                    <th className="px-3 py-2 text-right font-medium">Hours</th>
+                    <th className="px-3 py-2 text-right font-medium">Rate</th>
+                    <th className="px-3 py-2 text-right font-medium">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.lines.map((line, index) => (
+                    <tr key={index} className="border-b border-gray-100 dark:border-gray-700/60">
+                      <td className="px-3 py-1.5 text-gray-900 dark:text-gray-100">{line.description}</td>
+                      <td className="px-3 py-1.5 text-gray-600 dark:text-gray-400">{line.person_name ?? '-'}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{formatHours(line.duration_us)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{money(line.hourly_rate, preview.currency)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{money(line.amount, preview.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-medium text-gray-900 dark:text-gray-100">
+                    <td className="px-3 py-2" colSpan={2}>
+                      Total · {preview.entry_count} entr{preview.entry_count !== 1 ? 'ies' : 'y'}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">{formatHours(preview.total_us)}</td>
+                    <td />
+                    <td className="px-3 py-2 text-right tabular-nums">{money(preview.total_amount, preview.currency)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            leftIcon={<Eye className="w-4 h-4" />}
+            onClick={handlePreview}
+            isLoading={isPreviewing}
+            disabled={!range.from || !range.to}
+          >
+            Preview
+          </Button>
+          <Button size="sm" onClick={handleCreate} isLoading={isCreating} disabled={!canCreate}>
+            Create invoice
+          </Button>
+        </div>
+      </section>
+
+      {/* Invoices */}
+      <section>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Invoices</h3>
+        {invoices.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No invoices yet.</p>
+        ) : (
+          <table className="mt-2 w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                <th className="py-2 text-left font-medium">Number</th>
+                <th className="py-2 px-2 text-left font-medium">Period</th>
+                <th className="py-2 px-2 text-left font-medium">Issued</th>
+                <th className="py-2 px-2 text-right font-medium">Hours</th>
+                <th className="py-2 px-2 text-right font-medium">Total</th>
+                <th className="py-2 text-right font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoices.map(invoice => (
+                <tr key={invoice.id} className="border-b border-gray-100 dark:border-gray-700/60">
+                  <td className="py-1.5 font-medium text-gray-900 dark:text-gray-100">{invoice.number}</td>
+                  <td className="py-1.5 px-2 text-gray-600 dark:text-gray-400">
+                    {invoice.from_date} – {invoice.to_date}
+                  </td>
+                  <td className="py-1.5 px-2 text-gray-600 dark:text-gray-400">{invoice.issue_date}</td>
+                  <td className="py-1.5 px-2 text-right tabular-nums">{formatHours(invoice.total_us)}</td>
+                  <td className="py-1.5 px-2 text-right tabular-nums">{money(invoice.total_amount, invoice.currency)}</td>
+                  <td className="py-1.5">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => api.billing.printInvoice(invoice.id)}
+                        className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400"
+                        title="Open printable invoice (print or save as PDF)"
+                      >
+                        <Printer className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleExport(invoice)}
+                        className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400"
+                        title="Download CSV"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleVoid(invoice)}
+                        className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400"
+                        title="Void invoice"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export default InvoicesPanel;
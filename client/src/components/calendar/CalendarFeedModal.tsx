@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Check, Copy } from 'lucide-react';
+import { api } from '../../services/api';
+import { usePeople } from '../../context/PeopleContext';
+import { useToast } from '../../context/ToastContext';
+import type { CalendarFeedScope, Project } from '../../types';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project | null;
+}
+
+/**
+ * Links to the iCalendar feed of the project's tasks, or of a person's, for calendar
+ * apps to subscribe to, and a download of the same as an .ics file.
+ */
+export function CalendarFeedModal({ isOpen, onClose, project }: CalendarFeedModalProps) {
+  const { people, currentPersonId } = usePeople();
+  const toast = useToast();
+  const [scope, setScope] = useState<CalendarFeedScope>('project');
+  const [personId, setPersonId] = useState<number | null>(null);
+  const [asTodos, setAsTodos] = useState(false);
+  const [withTimeEntries, setWithTimeEntries] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Offer the feed of whoever "me" is when the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setPersonId(currentPersonId ?? people[0]?.id ?? null);
+      setCopied(false);
+    }
+  }, [isOpen, currentPersonId, people]);
+
+  const id = scope === 'project' ? project?.id : personId;
+  const options = { todos: asTodos, time_entries: withTimeEntries };
+  // Built from the page's address, so only once the dialog shows
+  const feedUrl = isOpen && id != null ? api.calendar.getFeedUrl(scope, id, options) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      toast.error('Copy Failed', 'Select the address and copy it instead');
+    }
+  };
+
+  const handleDownload = () => {
+    if (id != null) api.calendar.downloadFeed(scope, id, options);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Calendar Feed"
+      description="See task dates in your calendar app. Subscribed calendars refresh as tasks change."
+      size="md"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={id == null}>
+            Download .ics
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        {/* Whose tasks */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tasks</span>
+          <div className="flex gap-2">
+            {([
+              { value: 'project', label: project ? `Of ${project.name}` : 'Of this project' },
+              { value: 'person', label: 'Assigned to a person' },
+            ] as const).map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => {
+                  setScope(option.value);
+                  setCopied(false);
+                }}
+                aria-pressed={scope === option.value}
+                className={clsx(
+                  'flex-1 px-3 py-2 rounded-md border text-sm font-medium transition-colors truncate',
+                  scope === option.value
+                    ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {scope === 'person' && (
+            <select
+              value={personId ?? ''}
+              onChange={e => {
+                setPersonId(e.target.value ? Number(e.target.value) : null);
+                setCopied(false);
+              }}
+              aria-label="Person"
+              className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              {people.length === 0 && <option value="">No people yet</option>}
+              {people.map(person => (
+                <option key={person.id} value={person.id}>{person.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {/* Options */}
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={asTodos}
+              onChange={e => {
+                setAsTodos(e.target.checked);
+                setCopied(false);
+              }}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            As to-dos, with done tasks completed
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={withTimeEntries}
+              onChange={e => {
+                setWithTimeEntries(e.target.checked);
+                setCopied(false);
+              }}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            Include logged time entries
+          </label>
+        </div>
+
+        {/* Address */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Subscription address</span>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={e => e.target.select()}
+              aria-label="Subscription address"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-mono bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+            />
+            <Button variant="outline" onClick={handleCopy} disabled={!feedUrl} aria-label="Copy address">
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+          </div>
+          {feedUrl && (
+            <a
+              href={feedUrl.replace(/^https?:/, 'webcal:')}
+              className="inline-block mt-2 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              Open in calendar app
+            </a>
+          )}
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Calendar apps must be able to reach this address, so subscribe from the machine Celestask runs on or
+            one on the same network.
+          </p>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default CalendarFeedModal;
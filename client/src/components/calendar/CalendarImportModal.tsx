@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { api } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+import type { Project, TaskImportResult } from '../../types';
+import { parseICalendar, type IcsImport } from '../../utils/icalendar';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+
+// Entries with errors or warnings listed in a dry run
+const LISTED_ISSUES = 20;
+
+interface CalendarImportModalProps {
+  file: File | null; // the .ics file to import; the dialog shows while there is one
+  project: Project | null;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Imports the events and to-dos of an .ics file as tasks of the project, after a dry
+ * run shows what would be created.
+ */
+export function CalendarImportModal({ file, project, onClose, onImported }: CalendarImportModalProps) {
+  const toast = useToast();
+  const [calendar, setCalendar] = useState<IcsImport | null>(null);
+  const [dryRun, setDryRun] = useState<TaskImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Read the file with the project's statuses, which completed to-dos are mapped onto
+  useEffect(() => {
+    setCalendar(null);
+    setDryRun(null);
+    setError(null);
+    if (!file || !project) return;
+    let cancelled = false;
+    Promise.all([file.text(), api.statuses.getByProject(project.id)])
+      .then(([text, statuses]) => {
+        if (!cancelled) setCalendar(parseICalendar(text, statuses));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read file. Please try again.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, project]);
+
+  const runImport = (isDryRun: boolean) =>
+    api.importExport.importTasks({ project_id: project!.id, dry_run: isDryRun, rows: calendar!.rows });
+
+  const handleCheck = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      setDryRun(await runImport(true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the import');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const result = await runImport(false);
+      toast.success('Import Complete', `${result.created} task${result.created !== 1 ? 's' : ''} added to ${project!.name}`);
+      onImported();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const entryCount = calendar?.rows.length ?? 0;
+  const issues = dryRun?.rows.filter(r => r.errors?.length || r.warnings?.length) ?? [];
+
+  return (
+    <Modal
+      isOpen={file !== null}
+      onClose={onClose}
+      title="Import Calendar"
+      description={project ? `Events and to-dos become tasks of ${project.name}.` : undefined}
+      size="md"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isWorking}>
+            Cancel
+          </Button>
+          {dryRun ? (
+            <Button onClick={handleImport} isLoading={isWorking} disabled={dryRun.created === 0}>
+              Import {dryRun.created} Task{dryRun.created !== 1 ? 's' : ''}
+            </Button>
+          ) : (
+            <Button onClick={handleCheck} isLoading={isWorking} disabled={entryCount === 0}>
+              Check Import
+            </Button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 text-sm">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-medium text-gray-900 dark:text-gray-100 truncate">{calendar?.name ?? file?.name}</span>
+            {calendar && (
+              <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {entryCount} {entryCount === 1 ? 'entry' : 'entries'}
+              </span>
+            )}
+          </div>
+          {!calendar && !error && <p className="mt-1 text-gray-500 dark:text-gray-400">Reading {file?.name}...</p>}
+          {calendar && entryCount === 0 && (
+            <p className="mt-1 text-gray-500 dark:text-gray-400">The file has no events or to-dos.</p>
+          )}
+          {calendar && calendar.recurring > 0 && (
+            <p className="mt-1 text-gray-500 dark:text-gray-400">
+              {calendar.recurring} repeating {calendar.recurring === 1 ? 'entry is' : 'entries are'} imported once, on
+              the first date.
+            </p>
+          )}
+        </div>
+
+        {dryRun && (
+          <div className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+            <p>
+              Nothing has been imported yet. Importing would create{' '}
+              <span className="font-medium">{dryRun.created}</span> task{dryRun.created !== 1 ? 's' : ''}
+              {dryRun.skipped > 0 && <>, skipping {dryRun.skipped}</>}.
+            </p>
+            {dryRun.new_tags.length > 0 && <p>New tags: {dryRun.new_tags.join(', ')}</p>}
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+            <ul className="text-xs text-yellow-700 dark:text-yellow-300 space-y-1 max-h-48 overflow-y-auto">
+              {issues.slice(0, LISTED_ISSUES).map(row => (
+                <li key={row.row}>
+                  <span className="font-medium">
+                    {row.title || `Entry ${row.row}`}{row.skipped ? ', skipped' : ''}:
+                  </span>{' '}
+                  {[...(row.errors ?? []), ...(row.warnings ?? [])].join('; ')}
+                </li>
+              ))}
+              {issues.length > LISTED_ISSUES && <li>...and {issues.length - LISTED_ISSUES} more entries</li>}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg text-sm" role="alert">
+            {error}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export default CalendarImportModal;
@@ -1,11 +1,11 @@
 'use client';
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { Calendar, momentLocalizer, Views, type View } from 'react-big-calendar';
 import moment from 'moment';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Plus, Rss, Upload } from 'lucide-react';
 import { useTasks } from '../../context/TaskContext';
 import { useProjects } from '../../context/ProjectContext';
 import { useApp } from '../../context/AppContext';
@@ -15,6 +15,10 @@ import { Modal } from '../common/Modal';
 import { TaskForm } from '../common/TaskForm';
 import type { CreateTaskDTO, UpdateTaskDTO } from '../../types';
 import TaskEvent from './TaskEvent';
+import { getProjectedOccurrences } from '../../utils/recurrence';
+import { useStatuses } from '../../context/StatusContext';
+import { CalendarFeedModal } from './CalendarFeedModal';
+import { CalendarImportModal } from './CalendarImportModal';
 
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 
@@ -31,19 +35,23 @@ const priorityColors: Record<TaskPriority, string> = {
 };
 
 export function CalendarView() {
-  const { tasks, createTask, updateTask, deleteTask } = useTasks();
+  const { tasks, createTask, updateTask, deleteTask, fetchTasksByProject } = useTasks();
   const { currentProject } = useProjects();
   const { openSubTaskModal } = useApp();
+  const { isDoneStatus } = useStatuses();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [view, setView] = useState<View>(Views.MONTH);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isFeedOpen, setIsFeedOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Convert tasks to calendar events
   const events: CalendarEvent[] = useMemo(() => {
-    return tasks
+    const taskEvents: CalendarEvent[] = tasks
       .filter((task) => task.due_date)
       .map((task) => ({
         id: task.id,
@@ -52,7 +60,23 @@ export function CalendarView() {
         end: new Date(task.due_date!),
         resource: task,
       }));
-  }, [tasks]);
+
+    // Project recurring tasks a little past the visible period
+    const until = new Date(currentDate.getFullYear(), currentDate.getMonth() + 2, 0);
+    const projectedEvents: CalendarEvent[] = tasks
+      .filter((task) => task.recurrence && !isDoneStatus(task.status))
+      .flatMap((task) => getProjectedOccurrences(task, until))
+      .map(({ task, date }) => ({
+        id: `${task.id}-${date.toISOString()}`,
+        title: task.title,
+        start: date,
+        end: date,
+        resource: task,
+        projected: true,
+      }));
+
+    return [...taskEvents, ...projectedEvents];
+  }, [tasks, currentDate]);
 
   // Navigate to today
   const handleToday = useCallback(() => {
@@ -135,7 +159,7 @@ export function CalendarView() {
   }, [openSubTaskModal]);
 
   const handleDeleteTask = useCallback(async (task: Task) => {
-    const shouldDelete = window.confirm(`Delete task "${task.title}"? This cannot be undone.`);
+    const shouldDelete = window.confirm(`Delete task "${task.title}" and its subtasks?`);
     if (!shouldDelete) {
       return;
     }
@@ -147,11 +171,23 @@ export function CalendarView() {
     }
   }, [deleteTask]);
 
+  // Pick an .ics file to import; the same file can be picked again after cancelling
+  const handleImportFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setImportFile(file);
+  }, []);
+
+  const handleImported = useCallback(() => {
+    if (currentProject) fetchTasksByProject(currentProject.id);
+  }, [currentProject, fetchTasksByProject]);
+
   // Custom event component
   const EventComponent = useCallback(
     ({ event }: { event: CalendarEvent }) => (
       <TaskEvent
         task={event.resource}
+        projected={event.projected}
         onClick={() => handleSelectEvent(event)}
         onCreateSubTask={handleCreateSubTask}
         onDelete={handleDeleteTask}
@@ -170,6 +206,7 @@ export function CalendarView() {
         color: 'white',
         fontSize: '12px',
         padding: '2px 4px',
+        ...(event.projected && { opacity: 0.6, outline: '1px dashed currentColor' }),
       },
     }),
     []
@@ -220,6 +257,28 @@ export function CalendarView() {
 
         {/* View toggle */}
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsFeedOpen(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200"
+          >
+            <Rss className="w-4 h-4" />
+            Subscribe
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!currentProject}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Import .ics
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImportFileChange}
+            className="hidden"
+          />
           <div className="flex rounded-md shadow-sm">
             {[
               { key: Views.MONTH, label: 'Month' },
@@ -286,6 +345,10 @@ export function CalendarView() {
             </span>
           </div>
         ))}
+        <div className="flex items-center gap-2 ml-4">
+          <span className="w-3 h-3 rounded-full border border-dashed border-gray-400 opacity-60" />
+          <span className="text-sm text-gray-600 dark:text-gray-400">Upcoming occurrence</span>
+        </div>
       </div>
 
       {/* Task Modal */}
@@ -304,6 +367,14 @@ export function CalendarView() {
           isLoading={isSubmitting}
         />
       </Modal>
+
+      <CalendarFeedModal isOpen={isFeedOpen} onClose={() => setIsFeedOpen(false)} project={currentProject} />
+      <CalendarImportModal
+        file={importFile}
+        project={currentProject}
+        onClose={() => setImportFile(null)}
+        onImported={handleImported}
+      />
     </div>
   );
 }
@@ -3,12 +3,15 @@
 import React, { useMemo, useState } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { Repeat } from 'lucide-react';
 import type { Task, TaskPriority } from '../../types';
 import { PRIORITY_CONFIG } from '../../types';
+import { describeRecurrence } from '../../utils/recurrence';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
 
 interface TaskEventProps {
   task: Task;
+  projected?: boolean;
   onClick?: (task: Task) => void;
   onCreateSubTask?: (parentTaskId: number) => void;
   onDelete?: (task: Task) => void;
@@ -36,7 +39,7 @@ const getPriorityDotColor = (priority: TaskPriority): string => {
   return colorMap[priority];
 };
 
-export function TaskEvent({ task, onClick, onCreateSubTask, onDelete }: TaskEventProps) {
+export function TaskEvent({ task, projected = false, onClick, onCreateSubTask, onDelete }: TaskEventProps) {
   const [contextMenuPosition, setContextMenuPosition] = useState<{ x: number; y: number } | null>(null);
 
   const handleClick = (e: React.MouseEvent) => {
@@ -101,10 +104,16 @@ export function TaskEvent({ task, onClick, onCreateSubTask, onDelete }: TaskEven
           clsx(
             'w-full h-full px-1.5 py-0.5 rounded cursor-pointer',
             'transition-colors duration-150',
-            getPriorityColorClass(task.priority)
+            getPriorityColorClass(task.priority),
+            projected && 'opacity-60'
           )
         )}
-        title={`${task.title}\nPriority: ${PRIORITY_CONFIG[task.priority].label}`}
+        title={[
+          task.title,
+          `Priority: ${PRIORITY_CONFIG[task.priority].label}`,
+          task.recurrence && describeRecurrence(task.recurrence),
+          projected && 'Upcoming occurrence',
+        ].filter(Boolean).join('\n')}
       >
         <div className="flex items-center gap-1.5 min-w-0">
           {/* Priority indicator dot */}
@@ -120,6 +129,9 @@ export function TaskEvent({ task, onClick, onCreateSubTask, onDelete }: TaskEven
           <span className="text-xs font-medium text-white truncate">
             {task.title}
           </span>
+          {task.recurrence && (
+            <Repeat className="flex-shrink-0 w-3 h-3 text-white/80" aria-label="Recurring task" />
+          )}
         </div>
       </div>
       <AppContextMenu
@@ -0,0 +1,276 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { formatDistanceToNow } from 'date-fns';
+import { Activity, Edit2, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { getActivity, getProjectActivity, getTaskActivity } from '../../services/api';
+import type { ActivityAction, ActivityEntry, ActivityPage, TaskPriority, TaskRecurrence, TaskStatus } from '../../types';
+import { ACTIVITY_FIELD_LABELS, PRIORITY_CONFIG } from '../../types';
+import { useStatuses } from '../../context/StatusContext';
+import { describeRecurrence } from '../../utils/recurrence';
+import { formatDurationUsCompact } from '../../utils/timeFormat';
+
+const CUSTOM_FIELD_PREFIX = 'custom_field:';
+
+// Fields whose values are too long to quote in a one-line summary
+const UNQUOTED_FIELDS = new Set(['description']);
+
+// Fields that record membership (a tag or co-assignee added or removed)
+const MEMBERSHIP_FIELDS = new Set(['tags', 'co_assignees']);
+
+const ACTION_ICONS: Record<ActivityAction, React.ElementType> = {
+  created: Plus,
+  updated: Edit2,
+  deleted: Trash2,
+  restored: RotateCcw,
+};
+
+const ACTION_COLORS: Record<ActivityAction, string> = {
+  created: 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/30',
+  updated: 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30',
+  deleted: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30',
+  restored: 'text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/30',
+};
+
+interface ActivityFeedProps {
+  taskId?: number;
+  projectId?: number;
+  pageSize?: number;
+  compact?: boolean;
+  emptyMessage?: string;
+  refreshKey?: unknown; // the first page is refetched whenever this changes
+  onEntryClick?: (entry: ActivityEntry) => void;
+  onEntryContextMenu?: (entry: ActivityEntry, position: { x: number; y: number }) => void;
+}
+
+// Label for a logged field, using the custom field name for custom fields
+function fieldLabel(field: string): string {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return field.slice(CUSTOM_FIELD_PREFIX.length);
+  }
+  return ACTIVITY_FIELD_LABELS[field] ?? field.replace(/_/g, ' ');
+}
+
+// Display form of a logged value; statuses are logged by key and shown by name
+function formatValue(field: string, value: string, statusName: (key: TaskStatus) => string): string {
+  switch (field) {
+    case 'status':
+      return statusName(value);
+    case 'priority':
+      return PRIORITY_CONFIG[value as TaskPriority]?.label ?? value;
+    case 'progress_percent':
+      return `${value}%`;
+    case 'estimated_duration_minutes':
+    case 'actual_duration_minutes': {
+      const minutes = Number(value);
+      return Number.isFinite(minutes) ? formatDurationUsCompact(minutes * 60_000_000) : value;
+    }
+    case 'recurrence':
+      try {
+        return describeRecurrence(JSON.parse(value) as TaskRecurrence).toLowerCase();
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * One-line summary of an activity entry, e.g. "changed status from To Do to Done".
+ */
+export function describeActivity(
+  entry: ActivityEntry,
+  statusName: (key: TaskStatus) => string = key => key.replace(/_/g, ' ')
+): string {
+  if (entry.action === 'created') return `created this ${entry.entity_type}`;
+  if (entry.action === 'deleted') return `deleted this ${entry.entity_type}`;
+  if (entry.action === 'restored') return `restored this ${entry.entity_type}`;
+  if (!entry.field) return `updated this ${entry.entity_type}`;
+
+  const label = fieldLabel(entry.field);
+  const { field, old_value: oldValue, new_value: newValue } = entry;
+
+  if (MEMBERSHIP_FIELDS.has(field)) {
+    return newValue ? `added ${label} "${newValue}"` : `removed ${label} "${oldValue ?? ''}"`;
+  }
+  if (UNQUOTED_FIELDS.has(field)) {
+    return newValue ? `updated the ${label}` : `cleared the ${label}`;
+  }
+  if (oldValue && newValue) {
+    return `changed ${label} from ${formatValue(field, oldValue, statusName)} to ${formatValue(field, newValue, statusName)}`;
+  }
+  if (newValue) return `set ${label} to ${formatValue(field, newValue, statusName)}`;
+  return `cleared ${label}`;
+}
+
+export function ActivityFeed({
+  taskId,
+  projectId,
+  pageSize = 20,
+  compact = false,
+  emptyMessage = 'No activity yet',
+  refreshKey,
+  onEntryClick,
+  onEntryContextMenu,
+}: ActivityFeedProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { getStatus } = useStatuses();
+
+  // The entity name is redundant when the feed belongs to a single task
+  const showEntityName = taskId === undefined;
+
+  const fetchPage = useCallback(
+    (offset: number): Promise<ActivityPage> => {
+      const params = { limit: pageSize, offset };
+      if (taskId !== undefined) return getTaskActivity(taskId, params);
+      if (projectId !== undefined) return getProjectActivity(projectId, params);
+      return getActivity(params);
+    },
+    [taskId, projectId, pageSize]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchEntries = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const page = await fetchPage(0);
+        if (cancelled) return;
+        setEntries(page.entries);
+        setHasMore(page.has_more);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to fetch activity:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load activity');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage, refreshKey]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(entries.length);
+      setEntries(prev => [...prev, ...page.entries]);
+      setHasMore(page.has_more);
+    } catch (err) {
+      console.error('Failed to fetch activity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load activity');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error && entries.length === 0) {
+    return <p className="py-4 text-sm text-center text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-gray-500 dark:text-gray-400">
+        <Activity className="w-8 h-8 mb-2 opacity-50" />
+        <p className="text-sm">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <ul className={compact ? 'space-y-1' : 'space-y-3'}>
+        {entries.map(entry => {
+          const Icon = ACTION_ICONS[entry.action];
+          const content = (
+            <>
+              <span
+                className={twMerge(
+                  clsx(
+                    'flex items-center justify-center flex-shrink-0 rounded-full',
+                    compact ? 'w-6 h-6' : 'w-7 h-7',
+                    ACTION_COLORS[entry.action]
+                  )
+                )}
+              >
+                <Icon className="w-3.5 h-3.5" />
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  {showEntityName && (
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {entry.entity_name || `Untitled ${entry.entity_type}`}
+                    </span>
+                  )}
+                  {showEntityName && ' · '}
+                  {describeActivity(entry, key => getStatus(key).name)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400" title={new Date(entry.created_at).toLocaleString()}>
+                  {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                </p>
+              </div>
+            </>
+          );
+
+          return (
+            <li key={entry.id}>
+              {onEntryClick ? (
+                <button
+                  type="button"
+                  onClick={() => onEntryClick(entry)}
+                  onContextMenu={onEntryContextMenu ? (event) => {
+                    event.preventDefault();
+                    onEntryContextMenu(entry, { x: event.clientX, y: event.clientY });
+                  } : undefined}
+                  onKeyDown={onEntryContextMenu ? (event) => {
+                    if (event.key === 'ContextMenu' || (event.shiftKey && event.key === 'F10')) {
+                      event.preventDefault();
+                      const rect = event.currentTarget.getBoundingClientRect();
+                      onEntryContextMenu(entry, { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+                    }
+                  } : undefined}
+                  className="w-full flex items-start gap-3 p-2 rounded-lg text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                >
+                  {content}
+                </button>
+              ) : (
+                <div className="flex items-start gap-3 p-2">{content}</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {hasMore && (
+        <button
+          type="button"
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="mt-2 w-full py-2 text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading…' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default ActivityFeed;
@@ -9,6 +9,7 @@ import {
   Minus,
   ArrowDown,
 } from 'lucide-react';
+import { useStatuses } from '../../context/StatusContext';
 import type { TaskStatus, TaskPriority, Tag } from '../../types';
 
 type BadgeVariant = 'default' | 'primary' | 'success' | 'warning' | 'danger' | 'info';
@@ -105,33 +106,24 @@ export const Badge = forwardRef<HTMLSpanElement, BadgeProps>(
 
 Badge.displayName = 'Badge';
 
-// Status Badge Component
-interface StatusBadgeProps extends Omit<BadgeProps, 'variant' | 'children'> {
+// Status Badge Component (label and dot color come from the project's workflow)
+interface StatusBadgeProps extends Omit<BadgeProps, 'variant' | 'children' | 'dot'> {
   status: TaskStatus;
   children?: ReactNode;
 }
 
-const statusVariants: Record<TaskStatus, BadgeVariant> = {
-  backlog: 'default',
-  todo: 'primary',
-  in_progress: 'warning',
-  review: 'info',
-  done: 'success',
-};
-
-const statusLabels: Record<TaskStatus, string> = {
-  backlog: 'Backlog',
-  todo: 'To Do',
-  in_progress: 'In Progress',
-  review: 'Review',
-  done: 'Done',
-};
-
 export const StatusBadge = forwardRef<HTMLSpanElement, StatusBadgeProps>(
   ({ status, children, ...props }, ref) => {
+    const { getStatus } = useStatuses();
+    const config = getStatus(status);
     return (
-      <Badge ref={ref} variant={statusVariants[status]} dot {...props}>
-        {children || statusLabels[status]}
+      <Badge ref={ref} variant="default" {...props}>
+        <span
+          className="mr-1.5 h-1.5 w-1.5 rounded-full"
+          style={{ backgroundColor: config.color }}
+          aria-hidden="true"
+        />
+        {children || config.name}
       </Badge>
     );
   }
@@ -8,6 +8,7 @@ import type { TaskStatus, TaskPriority } from '../../types';
 import { StatusBadge, PriorityBadge } from './Badge';
 import { usePeople } from '../../context/PeopleContext';
 import { useToast } from '../../context/ToastContext';
+import { useStatuses } from '../../context/StatusContext';
 
 interface BulkActionBarProps {
   selectedCount: number;
@@ -18,14 +19,6 @@ interface BulkActionBarProps {
   onClearSelection: () => void;
 }
 
-const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
-  { value: 'backlog', label: 'Backlog' },
-  { value: 'todo', label: 'To Do' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'review', label: 'Review' },
-  { value: 'done', label: 'Done' },
-];
-
 const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
   { value: 'urgent', label: 'Urgent' },
   { value: 'high', label: 'High' },
@@ -42,7 +35,8 @@ export function BulkActionBar({
   onClearSelection,
 }: BulkActionBarProps) {
   const { people } = usePeople();
-  const { success: toastSuccess, error: toastError } = useToast();
+  const { error: toastError } = useToast();
+  const { statuses } = useStatuses();
   const [showStatusDropdown, setShowStatusDropdown] = useState(false);
   const [showPriorityDropdown, setShowPriorityDropdown] = useState(false);
   const [showAssigneeDropdown, setShowAssigneeDropdown] = useState(false);
@@ -78,7 +72,6 @@ export function BulkActionBar({
     setLoadingAction('status');
     try {
       await onStatusChange(status);
-      toastSuccess(`Updated status to "${status}" for ${selectedCount} task${selectedCount !== 1 ? 's' : ''}`);
     } catch (error) {
       toastError('Failed to update status');
     } finally {
@@ -93,7 +86,6 @@ export function BulkActionBar({
     setLoadingAction('priority');
     try {
       await onPriorityChange(priority);
-      toastSuccess(`Updated priority to "${priority}" for ${selectedCount} task${selectedCount !== 1 ? 's' : ''}`);
     } catch (error) {
       toastError('Failed to update priority');
     } finally {
@@ -108,10 +100,6 @@ export function BulkActionBar({
     setLoadingAction('assignee');
     try {
       await onAssigneeChange(assigneeId);
-      const assigneeName = assigneeId 
-        ? people.find(p => p.id === assigneeId)?.name || 'Unknown'
-        : 'Unassigned';
-      toastSuccess(`Assigned ${selectedCount} task${selectedCount !== 1 ? 's' : ''} to "${assigneeName}"`);
     } catch (error) {
       toastError('Failed to update assignee');
     } finally {
@@ -126,7 +114,6 @@ export function BulkActionBar({
     setLoadingAction('delete');
     try {
       await onDelete();
-      toastSuccess(`Deleted ${selectedCount} task${selectedCount !== 1 ? 's' : ''}`);
     } catch (error) {
       toastError('Failed to delete tasks');
     } finally {
@@ -188,14 +175,14 @@ export function BulkActionBar({
             
             {showStatusDropdown && (
               <div className="absolute bottom-full mb-1 left-0 w-48 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 py-1 max-h-64 overflow-auto">
-                {STATUS_OPTIONS.map((option) => (
+                {statuses.map((status) => (
                   <button
-                    key={option.value}
-                    onClick={() => handleStatusChange(option.value)}
+                    key={status.key}
+                    onClick={() => handleStatusChange(status.key)}
                     className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
                   >
-                    <StatusBadge status={option.value} size="sm" />
-                    <span className="text-gray-700 dark:text-gray-300">{option.label}</span>
+                    <StatusBadge status={status.key} size="sm" />
+                    <span className="text-gray-700 dark:text-gray-300">{status.name}</span>
                   </button>
                 ))}
               </div>
@@ -349,7 +336,7 @@ export function BulkActionBar({
             {showDeleteConfirm && (
               <div className="absolute bottom-full mb-2 right-0 w-72 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 p-4">
                 <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
-                  Are you sure you want to delete {selectedCount} task{selectedCount !== 1 ? 's' : ''}? This action cannot be undone.
+                  Are you sure you want to delete {selectedCount} task{selectedCount !== 1 ? 's' : ''}? You can undo this with Ctrl+Z.
                 </p>
                 <div className="flex items-center justify-end gap-2">
                   <button
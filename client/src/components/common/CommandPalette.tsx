@@ -6,12 +6,16 @@ import { useApp } from '../../context/AppContext';
 import { useProjectSelection } from '../../context/ProjectContext';
 import { useTasks } from '../../context/TaskContext';
 import { usePeople } from '../../context/PeopleContext';
+import { useTags } from '../../context/TagContext';
+import { parseQuickAdd } from '../../utils/quickAddParser';
+import { isTaskQuery } from '../../utils/taskQuery';
+import { useTaskQuery } from '../../hooks/useTaskQuery';
 import type { ViewType } from '../../types';
 
 // Command types
 interface Command {
   id: string;
-  type: 'navigation' | 'task' | 'project' | 'person' | 'action';
+  type: 'navigation' | 'task' | 'project' | 'person' | 'action' | 'create' | 'query';
   label: string;
   sublabel?: string;
   icon?: React.ReactNode;
@@ -131,8 +135,9 @@ export function CommandPalette() {
   const { isOpen, closePalette } = useCommandPalette();
   const { setCurrentView, openTaskModal, openProjectModal, openSubProjectModal, openPersonModal, openImportExportModal } = useApp();
   const { projects, selectProject, currentProject } = useProjectSelection();
-  const { tasks } = useTasks();
+  const { tasks, filters, setFilters, createTask, addTagToTask } = useTasks();
   const { people } = usePeople();
+  const { tags } = useTags();
   
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -306,11 +311,101 @@ export function CommandPalette() {
     return commands;
   }, [tasks, projects, people, currentProject, setCurrentView, selectProject, closePalette, openTaskModal, openProjectModal, openSubProjectModal, openPersonModal, openImportExportModal]);
   
+  // Quick add: the query itself, parsed like the header's quick add input
+  const quickAdd = useMemo(
+    () => (query.trim() ? parseQuickAdd(query, { projects, tags, people }) : null),
+    [query, projects, tags, people]
+  );
+
+  const createCommand = useMemo<Command | null>(() => {
+    if (!quickAdd) return null;
+
+    const projectId = quickAdd.projectId || currentProject?.id;
+    if (!quickAdd.title || !projectId) return null;
+
+    const project = projects.find(p => p.id === projectId);
+    const details = quickAdd.tokens
+      .filter(token => token.type !== 'project')
+      .map(token => token.label);
+
+    return {
+      id: 'create-task',
+      type: 'create',
+      label: `Create task "${quickAdd.title}"`,
+      sublabel: [project ? `In ${project.name}` : null, ...details].filter(Boolean).join(' · '),
+      icon: <ActionIcon />,
+      action: async () => {
+        closePalette();
+        try {
+          const task = await createTask({
+            title: quickAdd.title,
+            project_id: projectId,
+            priority: quickAdd.priority,
+            due_date: quickAdd.dueDate,
+            assignee_id: quickAdd.assigneeId,
+            estimated_duration_minutes: quickAdd.estimatedMinutes,
+          });
+          for (const tagId of quickAdd.tagIds) {
+            await addTagToTask(task.id, tagId);
+          }
+        } catch (error) {
+          console.error('Failed to create task:', error);
+        }
+      },
+    };
+  }, [quickAdd, projects, currentProject, closePalette, createTask, addTagToTask]);
+
+  // Task queries (status:todo due<+7d ...) list the matching tasks instead of commands
+  const isQuery = isTaskQuery(query);
+  const { matchingIds, error: queryError } = useTaskQuery(isQuery ? query : undefined, {
+    projectId: currentProject?.id,
+  });
+
+  const queryCommands = useMemo<Command[]>(() => {
+    if (!isQuery) return [];
+
+    const commands: Command[] = [{
+      id: 'query-apply',
+      type: 'query',
+      label: 'Filter the board by this query',
+      sublabel: queryError ?? `${matchingIds?.size ?? 0} matching tasks`,
+      icon: <SearchIcon />,
+      action: () => {
+        setFilters({ ...filters, query: query.trim() });
+        setCurrentView('kanban');
+        closePalette();
+      },
+    }];
+
+    tasks
+      .filter(task => matchingIds?.has(task.id))
+      .slice(0, 10)
+      .forEach(task => {
+        const project = projects.find(p => p.id === task.project_id);
+        commands.push({
+          id: `query-task-${task.id}`,
+          type: 'query',
+          label: task.title,
+          sublabel: project ? `In ${project.name}` : undefined,
+          icon: <TaskIcon />,
+          action: () => {
+            selectProject(String(task.project_id));
+            setCurrentView('kanban');
+            closePalette();
+          },
+        });
+      });
+    return commands;
+  }, [isQuery, query, queryError, matchingIds, tasks, projects, filters, setFilters, selectProject, setCurrentView, closePalette]);
+
   // Filter commands based on query
   const filteredCommands = useMemo(() => {
     if (!query.trim()) {
       return allCommands;
     }
+    if (isQuery) {
+      return queryCommands;
+    }
     
     const results = allCommands.map(command => {
       const { score } = fuzzyMatch(command.label, query);
@@ -320,8 +415,12 @@ export function CommandPalette() {
     }).filter(({ score }) => score > 0);
     
     results.sort((a, b) => b.score - a.score);
-    return results.map(({ command }) => command);
-  }, [allCommands, query]);
+    const matched = results.map(({ command }) => command);
+    if (!createCommand) return matched;
+
+    // Lead with quick add when the query has quick add tokens, otherwise offer it last
+    return quickAdd && quickAdd.tokens.length > 0 ? [createCommand, ...matched] : [...matched, createCommand];
+  }, [allCommands, query, isQuery, queryCommands, createCommand, quickAdd]);
   
   // Group commands by type
   const groupedCommands = useMemo(() => {
@@ -332,6 +431,8 @@ export function CommandPalette() {
       project: 'Projects',
       person: 'People',
       action: 'Actions',
+      create: 'Quick Add',
+      query: 'Task Query',
     };
     
     const seenTypes = new Set<string>();
@@ -420,7 +521,7 @@ export function CommandPalette() {
               setSelectedIndex(0);
             }}
             onKeyDown={handleKeyDown}
-            placeholder="Search tasks, projects, people..."
+            placeholder="Search tasks, projects, people, or filter with status:todo..."
             className="flex-1 text-lg outline-none placeholder-gray-400"
           />
           <span className="text-xs text-gray-400 bg-gray-100 px-2 py-1 rounded">
@@ -0,0 +1,355 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { api } from '../../services/api';
+import { useProjects } from '../../context/ProjectContext';
+import type { CustomField, TaskImportResult, TaskImportRowResult } from '../../types';
+import {
+  CSV_TASK_TARGETS,
+  buildTaskImportRows,
+  guessColumnTarget,
+  parseCsv,
+  type CsvColumnTarget,
+} from '../../utils/csvImport';
+
+// Rows shown in the preview of the file
+const PREVIEW_ROWS = 5;
+
+// Rows with errors or warnings listed in a result
+const LISTED_ISSUES = 50;
+
+interface CsvImportWizardProps {
+  file: File;
+  onCancel: () => void;
+  onComplete?: () => void;
+  onClose?: () => void;
+}
+
+type WizardStep = 'map' | 'review' | 'importing' | 'result';
+
+export function CsvImportWizard({ file, onCancel, onComplete, onClose }: CsvImportWizardProps) {
+  const { projects, currentProject } = useProjects();
+
+  const [step, setStep] = useState<WizardStep>('map');
+  const [cells, setCells] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [projectId, setProjectId] = useState<number | null>(currentProject?.id ?? projects[0]?.id ?? null);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [targets, setTargets] = useState<CsvColumnTarget[]>([]);
+  const [dryRun, setDryRun] = useState<TaskImportResult | null>(null);
+  const [result, setResult] = useState<TaskImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Read the file
+  useEffect(() => {
+    let cancelled = false;
+    file.text().then(text => {
+      if (!cancelled) setCells(parseCsv(text));
+    }).catch(() => {
+      if (!cancelled) setError('Failed to read file. Please try again.');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Custom fields of the chosen project, which columns can be mapped to
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    api.customFields.getAll(String(projectId))
+      .then(fields => {
+        if (!cancelled) setCustomFields(fields.filter(f => f.field_type !== 'formula'));
+      })
+      .catch(err => console.error('Failed to load custom fields:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const columnCount = useMemo(() => Math.max(0, ...cells.map(row => row.length)), [cells]);
+  const headers = useMemo(() => {
+    return Array.from({ length: columnCount }, (_, i) =>
+      hasHeader && cells[0]?.[i]?.trim() ? cells[0][i].trim() : `Column ${i + 1}`);
+  }, [cells, columnCount, hasHeader]);
+  const dataRows = useMemo(() => (hasHeader ? cells.slice(1) : cells), [cells, hasHeader]);
+
+  // Guess the mapping from the headers whenever they or the fields change
+  useEffect(() => {
+    setTargets(headers.map(header => (hasHeader ? guessColumnTarget(header, customFields) : '')));
+  }, [headers, hasHeader, customFields]);
+
+  const handleTargetChange = (column: number, target: CsvColumnTarget) => {
+    setTargets(prev => prev.map((t, i) => (i === column ? target : t)));
+    setError(null);
+  };
+
+  const runImport = async (isDryRun: boolean) => {
+    if (!projectId) return;
+    const request = { project_id: projectId, dry_run: isDryRun, rows: buildTaskImportRows(dataRows, targets) };
+    return api.importExport.importTasks(request);
+  };
+
+  const handleCheck = async () => {
+    if (!targets.includes('title')) {
+      setError('Choose the column that holds the task titles');
+      return;
+    }
+    if (dataRows.length === 0) {
+      setError('The file has no rows to import');
+      return;
+    }
+    setError(null);
+    setIsChecking(true);
+    try {
+      const checked = await runImport(true);
+      if (checked) {
+        setDryRun(checked);
+        setStep('review');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the import');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setError(null);
+    try {
+      const imported = await runImport(false);
+      if (imported) {
+        setResult(imported);
+        setStep('result');
+        onComplete?.();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+      setStep('review');
+    }
+  };
+
+  const renderIssues = (rows: TaskImportRowResult[]) => {
+    const issues = rows.filter(r => r.errors?.length || r.warnings?.length);
+    if (issues.length === 0) return null;
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+        <h4 className="text-sm font-medium text-yellow-800 mb-2">Rows to look at</h4>
+        <ul className="text-xs text-yellow-700 space-y-1 max-h-48 overflow-y-auto">
+          {issues.slice(0, LISTED_ISSUES).map(row => (
+            <li key={row.row}>
+              <span className="font-medium">
+                Row {row.row}{row.title ? ` (${row.title})` : ''}{row.skipped ? ', skipped' : ''}:
+              </span>{' '}
+              {[...(row.errors ?? []), ...(row.warnings ?? [])].join('; ')}
+            </li>
+          ))}
+          {issues.length > LISTED_ISSUES && (
+            <li>...and {issues.length - LISTED_ISSUES} more rows</li>
+          )}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderCounts = (counts: TaskImportResult, verb: { created: string; skipped: string }) => (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-600">Tasks</span>
+        <div className="flex gap-3">
+          <span className="text-green-600">{counts.created} {verb.created}</span>
+          {counts.skipped > 0 && <span className="text-red-600">{counts.skipped} {verb.skipped}</span>}
+        </div>
+      </div>
+      {counts.new_tags.length > 0 && (
+        <div className="flex items-start justify-between gap-3">
+          <span className="text-gray-600">New tags</span>
+          <span className="text-right text-gray-900">{counts.new_tags.join(', ')}</span>
+        </div>
+      )}
+    </div>
+  );
+
+  const errorMessage = error && (
+    <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm" role="alert">
+      {error}
+    </div>
+  );
+
+  switch (step) {
+    case 'map':
+      return (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Import CSV</h3>
+
+          <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-900">{file.name}</p>
+              <span className="text-xs text-gray-500">{dataRows.length} rows</span>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={e => setHasHeader(e.target.checked)}
+              />
+              First row holds the column names
+            </label>
+            <div>
+              <label htmlFor="csv-import-project" className="block text-sm font-medium text-gray-700 mb-1">
+                Import into
+              </label>
+              <select
+                id="csv-import-project"
+                value={projectId ?? ''}
+                onChange={e => setProjectId(e.target.value ? Number(e.target.value) : null)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Mapping, with the first rows of the file under each column */}
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50">
+                <tr>
+                  {headers.map((header, column) => (
+                    <th key={column} className="px-2 py-2 text-left font-medium text-gray-700 align-top min-w-[9rem]">
+                      <div className="mb-1 truncate" title={header}>{header}</div>
+                      <select
+                        value={targets[column] ?? ''}
+                        onChange={e => handleTargetChange(column, e.target.value as CsvColumnTarget)}
+                        aria-label={`Import ${header} as`}
+                        className="w-full px-1 py-1 border border-gray-300 rounded text-xs font-normal"
+                      >
+                        <option value="">Don&apos;t import</option>
+                        <optgroup label="Task">
+                          {CSV_TASK_TARGETS.map(target => (
+                            <option key={target.value} value={target.value}>{target.label}</option>
+                          ))}
+                        </optgroup>
+                        {customFields.length > 0 && (
+                          <optgroup label="Custom fields">
+                            {customFields.map(field => (
+                              <option key={field.id} value={`custom_field:${field.id}`}>{field.name}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {dataRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <tr key={index} className="border-t">
+                    {headers.map((_, column) => (
+                      <td
+                        key={column}
+                        className={`px-2 py-1 max-w-[12rem] truncate ${targets[column] ? 'text-gray-900' : 'text-gray-400'}`}
+                        title={row[column]}
+                      >
+                        {row[column]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            Assignees are matched by name or email, and several can be listed in one cell separated by commas.
+            Missing tags are created. A parent task is the title of another row or task in the project, or #id.
+          </p>
+
+          {errorMessage}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCheck}
+              disabled={isChecking || !projectId}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isChecking ? 'Checking...' : 'Check Import'}
+            </button>
+          </div>
+        </div>
+      );
+
+    case 'review':
+      return (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Dry Run</h3>
+          <p className="text-sm text-gray-600">
+            Nothing has been imported yet. This is what importing {file.name} would do:
+          </p>
+          {dryRun && renderCounts(dryRun, { created: 'to create', skipped: 'to skip' })}
+          {dryRun && renderIssues(dryRun.rows)}
+          {errorMessage}
+          <div className="flex gap-3">
+            <button
+              onClick={() => setStep('map')}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!dryRun || dryRun.created === 0}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Import {dryRun?.created ?? 0} Tasks
+            </button>
+          </div>
+        </div>
+      );
+
+    case 'importing':
+      return (
+        <div className="text-center py-8">
+          <svg className="animate-spin h-12 w-12 mx-auto text-blue-600" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+          <p className="mt-4 text-lg font-medium text-gray-900">Importing tasks...</p>
+        </div>
+      );
+
+    case 'result':
+      return (
+        <div className="space-y-4">
+          <div className="bg-green-50 text-green-700 px-4 py-4 rounded-lg flex items-start gap-3">
+            <svg className="w-6 h-6 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <div>
+              <p className="font-medium">Import Complete</p>
+              <p className="text-sm mt-1">{file.name}</p>
+            </div>
+          </div>
+          {result && renderCounts(result, { created: 'imported', skipped: 'skipped' })}
+          {result && renderIssues(result.rows)}
+          <button
+            onClick={onClose || onCancel}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      );
+  }
+}
+
+export default CsvImportWizard;
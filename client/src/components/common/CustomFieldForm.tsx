@@ -1,8 +1,10 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import type { CustomField, CustomFieldType, CreateCustomFieldDTO, UpdateCustomFieldDTO, Project } from '../../types';
+import type { CustomField, CustomFieldType, CustomFieldValidation, CreateCustomFieldDTO, UpdateCustomFieldDTO, Project } from '../../types';
 import { useProjects } from '../../context/ProjectContext';
+import { useStatuses } from '../../context/StatusContext';
+import { compactCustomFieldValidation } from '../../utils/customFieldValidation';
 import Button from './Button';
 import Modal from './Modal';
 
@@ -22,8 +24,42 @@ const FIELD_TYPES: { value: CustomFieldType; label: string; description: string
   { value: 'multiselect', label: 'Multi-Select', description: 'Multiple selection dropdown' },
   { value: 'checkbox', label: 'Checkbox', description: 'Boolean checkbox' },
   { value: 'url', label: 'URL', description: 'URL/link input' },
+  { value: 'person', label: 'Person', description: 'Someone from the People page' },
+  { value: 'relation', label: 'Task Relation', description: 'Links to other tasks' },
+  { value: 'currency', label: 'Currency', description: 'Amount in a currency or unit' },
+  { value: 'rating', label: 'Rating', description: 'One to five stars' },
+  { value: 'formula', label: 'Formula', description: 'Read-only value calculated from the task' },
 ];
 
+// Types whose setting - the unit of a currency field, the expression of a formula
+// field - is kept as the field's only option
+const SETTING_TYPES: CustomFieldType[] = ['currency', 'formula'];
+
+const MAX_CURRENCY_UNIT_LENGTH = 10;
+
+// The rules that apply to each field type, besides required_statuses
+const TYPE_RULES: Partial<Record<CustomFieldType, (keyof CustomFieldValidation)[]>> = {
+  number: ['min', 'max'],
+  currency: ['min', 'max'],
+  date: ['min_date', 'max_date'],
+  text: ['pattern', 'max_length'],
+  url: ['url_schemes'],
+};
+
+// Keeps the rules of the field type, so rules entered before the type was changed aren't sent
+function rulesForType(fieldType: CustomFieldType, rules: CustomFieldValidation): CustomFieldValidation | null {
+  if (fieldType === 'formula') return null;
+  const kept: CustomFieldValidation = { required_statuses: rules.required_statuses };
+  for (const key of TYPE_RULES[fieldType] ?? []) {
+    (kept as Record<string, unknown>)[key] = rules[key];
+  }
+  return compactCustomFieldValidation(kept);
+}
+
+function parseRuleNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
 export default function CustomFieldForm({
   isOpen,
   onClose,
@@ -32,6 +68,7 @@ export default function CustomFieldForm({
   loading = false,
 }: CustomFieldFormProps) {
   const { projects } = useProjects();
+  const { workflow, getStatus } = useStatuses();
   const isEditing = !!field;
 
   const [formData, setFormData] = useState<CreateCustomFieldDTO>({
@@ -44,6 +81,9 @@ export default function CustomFieldForm({
   });
 
   const [newOption, setNewOption] = useState('');
+  const [setting, setSetting] = useState('');
+  const [rules, setRules] = useState<CustomFieldValidation>({});
+  const [schemes, setSchemes] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Initialize form when editing
@@ -69,6 +109,9 @@ export default function CustomFieldForm({
     }
     setErrors({});
     setNewOption('');
+    setSetting(field && SETTING_TYPES.includes(field.field_type) ? field.options?.[0] ?? '' : '');
+    setRules(field?.validation ?? {});
+    setSchemes(field?.validation?.url_schemes?.join(', ') ?? '');
   }, [field, isOpen]);
 
   const handleChange = (
@@ -105,6 +148,21 @@ export default function CustomFieldForm({
     }));
   };
 
+  const handleRuleChange = <K extends keyof CustomFieldValidation>(key: K, value: CustomFieldValidation[K]) => {
+    setRules(prev => ({ ...prev, [key]: value }));
+    if (errors.rules || errors.submit) {
+      setErrors(prev => ({ ...prev, rules: '', submit: '' }));
+    }
+  };
+
+  const handleRequiredStatusToggle = (key: string) => {
+    const current = rules.required_statuses ?? [];
+    handleRuleChange(
+      'required_statuses',
+      current.includes(key) ? current.filter(s => s !== key) : [...current, key],
+    );
+  };
+
   const handleOptionKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -125,6 +183,33 @@ export default function CustomFieldForm({
       }
     }
 
+    if (formData.field_type === 'currency') {
+      if (!setting.trim()) {
+        newErrors.setting = 'A currency code or unit is required';
+      } else if (setting.trim().length > MAX_CURRENCY_UNIT_LENGTH) {
+        newErrors.setting = `Use at most ${MAX_CURRENCY_UNIT_LENGTH} characters`;
+      }
+    }
+
+    if (formData.field_type === 'formula' && !setting.trim()) {
+      newErrors.setting = 'A formula is required';
+    }
+
+    const typeRules = TYPE_RULES[formData.field_type] ?? [];
+    if (typeRules.includes('min')) {
+      if ([rules.min, rules.max].some(n => n !== undefined && Number.isNaN(n))) {
+        newErrors.rules = 'Minimum and maximum must be numbers';
+      } else if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+        newErrors.rules = 'The minimum must not be greater than the maximum';
+      }
+    }
+    if (typeRules.includes('min_date') && rules.min_date && rules.max_date && rules.min_date > rules.max_date) {
+      newErrors.rules = 'The earliest date must not be after the latest date';
+    }
+    if (typeRules.includes('max_length') && rules.max_length !== undefined && !(rules.max_length >= 1)) {
+      newErrors.rules = 'The maximum length must be at least 1';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -134,15 +219,46 @@ export default function CustomFieldForm({
 
     if (!validate()) return;
 
+    const needsSetting = SETTING_TYPES.includes(formData.field_type);
+    const urlSchemes = schemes.split(',').map(s => s.trim()).filter(Boolean);
+    const validation = rulesForType(formData.field_type, { ...rules, url_schemes: urlSchemes });
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        ...(needsSetting ? { options: [setting.trim()] } : {}),
+        validation,
+      });
       onClose();
     } catch (error) {
       console.error('Failed to save custom field:', error);
+      // The server checks formulas and rule patterns, so show why it refused one
+      setErrors(prev => ({
+        ...prev,
+        submit: error instanceof Error ? error.message : 'Failed to save custom field',
+      }));
     }
   };
 
   const needsOptions = ['select', 'multiselect'].includes(formData.field_type);
+  const typeRules = TYPE_RULES[formData.field_type] ?? [];
+  const ruleInputClasses = `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white ${
+    errors.rules ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+  }`;
+  // Statuses of the current workflow, and any the rules name that it doesn't have
+  const requiredStatusKeys = [
+    ...workflow.map(s => s.key),
+    ...(rules.required_statuses ?? []).filter(key => !workflow.some(s => s.key === key)),
+  ];
+  const settingInputClasses = `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white ${
+    errors.setting ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+  }`;
+
+  const handleSettingChange = (value: string) => {
+    setSetting(value);
+    if (errors.setting || errors.submit) {
+      setErrors(prev => ({ ...prev, setting: '', submit: '' }));
+    }
+  };
 
   return (
     <Modal
@@ -259,6 +375,64 @@ export default function CustomFieldForm({
           </div>
         )}
 
+        {/* Unit of a Currency field */}
+        {formData.field_type === 'currency' && (
+          <div>
+            <label
+              htmlFor="currency_unit"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Currency <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              id="currency_unit"
+              value={setting}
+              onChange={e => handleSettingChange(e.target.value)}
+              maxLength={MAX_CURRENCY_UNIT_LENGTH}
+              className={settingInputClasses}
+              placeholder="e.g., EUR, USD, pts"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              A three-letter currency code is shown with its symbol; anything else is shown after the amount
+            </p>
+            {errors.setting && (
+              <p className="mt-1 text-sm text-red-500">{errors.setting}</p>
+            )}
+          </div>
+        )}
+
+        {/* Expression of a Formula field */}
+        {formData.field_type === 'formula' && (
+          <div>
+            <label
+              htmlFor="formula"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Formula <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              id="formula"
+              value={setting}
+              onChange={e => handleSettingChange(e.target.value)}
+              rows={2}
+              className={`${settingInputClasses} font-mono text-sm`}
+              placeholder="e.g., estimate * hourly_rate"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Use + - * / and parentheses with numbers, the task values{' '}
+              <code>estimate</code>, <code>actual</code>, <code>tracked</code> (hours),{' '}
+              <code>progress</code>, <code>days_until_due</code>, <code>days_since_created</code>,
+              and number, currency, rating or checkbox fields by name, e.g. <code>hourly_rate</code> or{' '}
+              <code>&quot;Hourly rate&quot;</code>. Functions: <code>round(x, digits)</code>,{' '}
+              <code>abs</code>, <code>min</code>, <code>max</code>.
+            </p>
+            {errors.setting && (
+              <p className="mt-1 text-sm text-red-500">{errors.setting}</p>
+            )}
+          </div>
+        )}
+
         {/* Project Scope */}
         <div>
           <label
@@ -303,6 +477,135 @@ export default function CustomFieldForm({
             Required field
           </label>
         </div>
+        <p className="-mt-3 text-xs text-gray-500 dark:text-gray-400">
+          Tasks can&apos;t move to a done status while a required field is empty
+        </p>
+
+        {/* Validation Rules */}
+        {formData.field_type !== 'formula' && (
+          <fieldset className="space-y-3">
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Validation
+            </legend>
+
+            {typeRules.includes('min') && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="rule_min" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Minimum</label>
+                  <input
+                    type="number"
+                    id="rule_min"
+                    step="any"
+                    value={rules.min ?? ''}
+                    onChange={e => handleRuleChange('min', parseRuleNumber(e.target.value))}
+                    className={ruleInputClasses}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="rule_max" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Maximum</label>
+                  <input
+                    type="number"
+                    id="rule_max"
+                    step="any"
+                    value={rules.max ?? ''}
+                    onChange={e => handleRuleChange('max', parseRuleNumber(e.target.value))}
+                    className={ruleInputClasses}
+                  />
+                </div>
+              </div>
+            )}
+
+            {typeRules.includes('min_date') && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="rule_min_date" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Earliest date</label>
+                  <input
+                    type="date"
+                    id="rule_min_date"
+                    value={rules.min_date ?? ''}
+                    onChange={e => handleRuleChange('min_date', e.target.value || undefined)}
+                    className={ruleInputClasses}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="rule_max_date" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Latest date</label>
+                  <input
+                    type="date"
+                    id="rule_max_date"
+                    value={rules.max_date ?? ''}
+                    onChange={e => handleRuleChange('max_date', e.target.value || undefined)}
+                    className={ruleInputClasses}
+                  />
+                </div>
+              </div>
+            )}
+
+            {typeRules.includes('pattern') && (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label htmlFor="rule_pattern" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Pattern</label>
+                  <input
+                    type="text"
+                    id="rule_pattern"
+                    value={rules.pattern ?? ''}
+                    onChange={e => handleRuleChange('pattern', e.target.value || undefined)}
+                    className={`${ruleInputClasses} font-mono text-sm`}
+                    placeholder="e.g., [A-Z]{3}-\d+"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="rule_max_length" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Max length</label>
+                  <input
+                    type="number"
+                    id="rule_max_length"
+                    min="1"
+                    value={rules.max_length ?? ''}
+                    onChange={e => handleRuleChange('max_length', parseRuleNumber(e.target.value))}
+                    className={ruleInputClasses}
+                  />
+                </div>
+              </div>
+            )}
+
+            {typeRules.includes('url_schemes') && (
+              <div>
+                <label htmlFor="rule_url_schemes" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Allowed schemes</label>
+                <input
+                  type="text"
+                  id="rule_url_schemes"
+                  value={schemes}
+                  onChange={e => {
+                    setSchemes(e.target.value);
+                    if (errors.submit) setErrors(prev => ({ ...prev, submit: '' }));
+                  }}
+                  className={ruleInputClasses}
+                  placeholder="e.g., https, mailto"
+                />
+              </div>
+            )}
+
+            <div>
+              <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Required when the status is</span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {requiredStatusKeys.map(key => (
+                  <label key={key} className="inline-flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={rules.required_statuses?.includes(key) ?? false}
+                      onChange={() => handleRequiredStatusToggle(key)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    {getStatus(key).name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {errors.rules && (
+              <p className="text-sm text-red-500">{errors.rules}</p>
+            )}
+          </fieldset>
+        )}
 
         {/* Sort Order */}
         <div>
@@ -326,6 +629,10 @@ export default function CustomFieldForm({
           </p>
         </div>
 
+        {errors.submit && (
+          <p className="text-sm text-red-500" role="alert">{errors.submit}</p>
+        )}
+
         {/* Actions */}
         <div className="flex justify-end gap-3 pt-4 border-t dark:border-gray-700">
           <Button type="button" variant="secondary" onClick={onClose}>
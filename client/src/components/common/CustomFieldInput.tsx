@@ -1,7 +1,11 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
+import { Star } from 'lucide-react';
 import type { CustomField, CustomFieldValue } from '../../types';
+import { usePeople } from '../../context/PeopleContext';
+import { useTasks } from '../../context/TaskContext';
+import type { CustomFieldLookups } from '../../utils/customFieldColumns';
 
 interface CustomFieldInputProps {
   field: CustomField;
@@ -9,16 +13,24 @@ interface CustomFieldInputProps {
   onChange: (fieldId: string, value: CustomFieldValue['value']) => void;
   disabled?: boolean;
   error?: string;
+  required?: boolean; // whether the task needs a value, e.g. in the status it's moving to; defaults to field.required
+  taskId?: number; // task being edited, left out of relation choices
 }
 
+export const MAX_RATING = 5;
+
 export default function CustomFieldInput({
   field,
   value,
   onChange,
   disabled = false,
   error,
+  required,
+  taskId,
 }: CustomFieldInputProps) {
   const inputId = `custom-field-${field.id}`;
+  const isRequired = required ?? field.required;
+  const rules = field.validation ?? {};
   const baseInputClasses = `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white ${
     error ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
   } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`;
@@ -37,7 +49,7 @@ export default function CustomFieldInput({
             className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
           >
             {field.name}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
           </label>
           <input
             type="text"
@@ -47,7 +59,7 @@ export default function CustomFieldInput({
             disabled={disabled}
             className={baseInputClasses}
             placeholder={`Enter ${field.name.toLowerCase()}`}
-            required={field.required}
+            maxLength={rules.max_length}
           />
           {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
         </div>
@@ -61,7 +73,7 @@ export default function CustomFieldInput({
             className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
           >
             {field.name}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
           </label>
           <input
             type="number"
@@ -74,7 +86,8 @@ export default function CustomFieldInput({
             disabled={disabled}
             className={baseInputClasses}
             placeholder={`Enter ${field.name.toLowerCase()}`}
-            required={field.required}
+            min={rules.min}
+            max={rules.max}
             step="any"
           />
           {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
@@ -89,7 +102,7 @@ export default function CustomFieldInput({
             className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
           >
             {field.name}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
           </label>
           <input
             type="date"
@@ -98,7 +111,8 @@ export default function CustomFieldInput({
             onChange={e => handleChange(e.target.value || null)}
             disabled={disabled}
             className={baseInputClasses}
-            required={field.required}
+            min={rules.min_date}
+            max={rules.max_date}
           />
           {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
         </div>
@@ -112,7 +126,7 @@ export default function CustomFieldInput({
             className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
           >
             {field.name}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
           </label>
           <select
             id={inputId}
@@ -120,7 +134,6 @@ export default function CustomFieldInput({
             onChange={e => handleChange(e.target.value || null)}
             disabled={disabled}
             className={baseInputClasses}
-            required={field.required}
           >
             <option value="">Select {field.name.toLowerCase()}...</option>
             {field.options?.map((option, index) => (
@@ -141,6 +154,7 @@ export default function CustomFieldInput({
           onChange={handleChange}
           disabled={disabled}
           error={error}
+          required={isRequired}
           inputId={inputId}
         />
       );
@@ -155,14 +169,13 @@ export default function CustomFieldInput({
             onChange={e => handleChange(e.target.checked)}
             disabled={disabled}
             className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-            required={field.required}
           />
           <label
             htmlFor={inputId}
             className="text-sm font-medium text-gray-700 dark:text-gray-300"
           >
             {field.name}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
           </label>
           {error && <p className="text-sm text-red-500">{error}</p>}
         </div>
@@ -176,7 +189,7 @@ export default function CustomFieldInput({
             className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
           >
             {field.name}
-            {field.required && <span className="text-red-500 ml-1">*</span>}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
           </label>
           <input
             type="url"
@@ -185,13 +198,121 @@ export default function CustomFieldInput({
             onChange={e => handleChange(e.target.value || null)}
             disabled={disabled}
             className={baseInputClasses}
-            placeholder="https://example.com"
-            required={field.required}
+            placeholder={`${rules.url_schemes?.[0] ?? 'https'}://example.com`}
           />
           {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
         </div>
       );
 
+    case 'person':
+      return (
+        <PersonInput
+          field={field}
+          value={typeof value === 'string' ? value : null}
+          onChange={handleChange}
+          disabled={disabled}
+          error={error}
+          required={isRequired}
+          inputId={inputId}
+          className={baseInputClasses}
+        />
+      );
+
+    case 'relation':
+      return (
+        <RelationInput
+          field={field}
+          value={Array.isArray(value) ? value.map(Number) : []}
+          onChange={handleChange}
+          disabled={disabled}
+          error={error}
+          required={isRequired}
+          inputId={inputId}
+          className={baseInputClasses}
+          taskId={taskId}
+        />
+      );
+
+    case 'currency':
+      return (
+        <div>
+          <label
+            htmlFor={inputId}
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            {field.name}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              id={inputId}
+              value={(value as number) ?? ''}
+              onChange={e => {
+                const val = e.target.value;
+                handleChange(val ? parseFloat(val) : null);
+              }}
+              disabled={disabled}
+              className={baseInputClasses}
+              placeholder="0.00"
+              min={rules.min}
+              max={rules.max}
+              step="any"
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400">{field.options?.[0]}</span>
+          </div>
+          {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+        </div>
+      );
+
+    case 'rating': {
+      const rating = typeof value === 'number' ? value : 0;
+      return (
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {field.name}
+            {isRequired && <span className="text-red-500 ml-1">*</span>}
+          </span>
+          <div className="flex items-center gap-0.5" role="radiogroup" aria-label={field.name}>
+            {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(star => (
+              <button
+                key={star}
+                type="button"
+                // Choosing the current rating again clears it
+                onClick={() => handleChange(star === rating ? null : star)}
+                disabled={disabled}
+                className="p-0.5 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                role="radio"
+                aria-checked={star === rating}
+                aria-label={`${star} of ${MAX_RATING}`}
+              >
+                <Star
+                  className={`w-5 h-5 ${star <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300 dark:text-gray-600'}`}
+                  aria-hidden="true"
+                />
+              </button>
+            ))}
+          </div>
+          {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+        </div>
+      );
+    }
+
+    case 'formula':
+      return (
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {field.name}
+          </span>
+          <p className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 rounded-md">
+            {formatCustomFieldValue(field, value ?? null)}
+          </p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 font-mono">
+            = {field.options?.[0]}
+          </p>
+        </div>
+      );
+
     default:
       return (
         <div className="text-sm text-gray-500">
@@ -201,6 +322,122 @@ export default function CustomFieldInput({
   }
 }
 
+interface PersonInputProps {
+  field: CustomField;
+  value: string | null;
+  onChange: (value: string | null) => void;
+  disabled: boolean;
+  error?: string;
+  required: boolean;
+  inputId: string;
+  className: string;
+}
+
+function PersonInput({ field, value, onChange, disabled, error, required, inputId, className }: PersonInputProps) {
+  const { people } = usePeople();
+
+  return (
+    <div>
+      <label
+        htmlFor={inputId}
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+      >
+        {field.name}
+        {required && <span className="text-red-500 ml-1">*</span>}
+      </label>
+      <select
+        id={inputId}
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value || null)}
+        disabled={disabled}
+        className={className}
+      >
+        <option value="">Select a person...</option>
+        {people.map(person => (
+          <option key={person.id} value={String(person.id)}>
+            {person.name}
+          </option>
+        ))}
+      </select>
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+interface RelationInputProps {
+  field: CustomField;
+  value: number[];
+  onChange: (value: number[] | null) => void;
+  disabled: boolean;
+  error?: string;
+  required: boolean;
+  inputId: string;
+  className: string;
+  taskId?: number;
+}
+
+function RelationInput({ field, value, onChange, disabled, error, required, inputId, className, taskId }: RelationInputProps) {
+  const { tasks } = useTasks();
+  const candidates = tasks
+    .filter(t => t.id !== taskId && !value.includes(t.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const remove = (id: number) => {
+    const next = value.filter(v => v !== id);
+    onChange(next.length > 0 ? next : null);
+  };
+
+  return (
+    <div>
+      <label
+        htmlFor={inputId}
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+      >
+        {field.name}
+        {required && <span className="text-red-500 ml-1">*</span>}
+      </label>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {value.map(id => (
+            <span
+              key={id}
+              className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-100 text-sm rounded-md"
+            >
+              {tasks.find(t => t.id === id)?.title ?? `#${id}`}
+              <button
+                type="button"
+                onClick={() => remove(id)}
+                disabled={disabled}
+                className="text-blue-600 dark:text-blue-300 hover:text-blue-800 dark:hover:text-blue-100 focus:outline-none"
+                aria-label={`Remove #${id}`}
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <select
+        id={inputId}
+        value=""
+        onChange={e => e.target.value && onChange([...value, Number(e.target.value)])}
+        disabled={disabled || candidates.length === 0}
+        className={className}
+      >
+        <option value="">{candidates.length === 0 ? 'No other tasks available' : 'Add a related task...'}</option>
+        {candidates.map(task => (
+          <option key={task.id} value={task.id}>
+            {task.title}
+          </option>
+        ))}
+      </select>
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
+
 // Multi-select component with dropdown
 interface MultiSelectInputProps {
   field: CustomField;
@@ -208,6 +445,7 @@ interface MultiSelectInputProps {
   onChange: (value: string[] | null) => void;
   disabled: boolean;
   error?: string;
+  required: boolean;
   inputId: string;
 }
 
@@ -217,6 +455,7 @@ function MultiSelectInput({
   onChange,
   disabled,
   error,
+  required,
   inputId,
 }: MultiSelectInputProps) {
   const [isOpen, setIsOpen] = useState(false);
@@ -257,7 +496,7 @@ function MultiSelectInput({
         className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
       >
         {field.name}
-        {field.required && <span className="text-red-500 ml-1">*</span>}
+        {required && <span className="text-red-500 ml-1">*</span>}
       </label>
 
       <div ref={dropdownRef} className="relative">
@@ -338,10 +577,25 @@ function MultiSelectInput({
   );
 }
 
+// Formats an amount with the unit of a currency field. A three-letter unit is
+// taken as an ISO currency code, anything else is written after the amount.
+export function formatCurrencyValue(amount: number, unit: string | undefined): string {
+  if (unit && /^[A-Za-z]{3}$/.test(unit)) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: unit.toUpperCase() }).format(amount);
+    } catch {
+      // Not a currency the browser knows
+    }
+  }
+  const formatted = amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return unit ? `${formatted} ${unit}` : formatted;
+}
+
 // Helper function to format custom field value for display
 export function formatCustomFieldValue(
   field: CustomField,
-  value: CustomFieldValue['value']
+  value: CustomFieldValue['value'],
+  lookups: CustomFieldLookups = {}
 ): string {
   if (value === null || value === undefined) return '-';
 
@@ -358,6 +612,18 @@ export function formatCustomFieldValue(
       return String(value);
     case 'multiselect':
       return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'person':
+      return lookups.people?.find(p => String(p.id) === String(value))?.name ?? String(value);
+    case 'relation':
+      return Array.isArray(value)
+        ? value.map(id => lookups.tasks?.find(t => t.id === Number(id))?.title ?? `#${id}`).join(', ')
+        : String(value);
+    case 'currency':
+      return typeof value === 'number' ? formatCurrencyValue(value, field.options?.[0]) : String(value);
+    case 'rating': {
+      const rating = Math.max(0, Math.min(MAX_RATING, Number(value)));
+      return '★'.repeat(rating) + '☆'.repeat(MAX_RATING - rating);
+    }
     default:
       return String(value);
   }
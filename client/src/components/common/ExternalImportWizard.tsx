@@ -0,0 +1,398 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { api } from '../../services/api';
+import { useProjects } from '../../context/ProjectContext';
+import type { ProjectStatus, TaskImportResult } from '../../types';
+import {
+  EXTERNAL_IMPORT_SOURCES,
+  applyStatusMapping,
+  guessStatusMapping,
+  parseExternalImport,
+  type ExternalImport,
+  type ExternalImportSource,
+} from '../../utils/externalImport';
+
+// Records with errors or warnings listed in a result
+const LISTED_ISSUES = 50;
+
+const TABLE_NAMES: Record<string, string> = {
+  tasks: 'Tasks',
+  tags: 'Tags',
+  people: 'People',
+  notes: 'Notes',
+  custom_field_values: 'Custom Field Values',
+};
+
+interface ExternalImportWizardProps {
+  source: ExternalImportSource;
+  file: File;
+  onCancel: () => void;
+  onComplete?: () => void;
+  onClose?: () => void;
+}
+
+type WizardStep = 'map' | 'review' | 'importing' | 'result';
+
+export function ExternalImportWizard({ source, file, onCancel, onComplete, onClose }: ExternalImportWizardProps) {
+  const { projects, currentProject } = useProjects();
+  const sourceLabel = EXTERNAL_IMPORT_SOURCES.find(s => s.value === source)?.label ?? source;
+
+  const [step, setStep] = useState<WizardStep>('map');
+  const [imports, setImports] = useState<ExternalImport[]>([]);
+  const [importIndex, setImportIndex] = useState(0);
+  const [projectId, setProjectId] = useState<number | null>(currentProject?.id ?? projects[0]?.id ?? null);
+  const [workflow, setWorkflow] = useState<ProjectStatus[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [createPeople, setCreatePeople] = useState(true);
+  const [dryRun, setDryRun] = useState<TaskImportResult | null>(null);
+  const [result, setResult] = useState<TaskImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const current = imports[importIndex];
+
+  // Read the export
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    parseExternalImport(source, file)
+      .then(parsed => {
+        if (!cancelled) setImports(parsed);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read file. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, file]);
+
+  // Workflow of the chosen project, which the source statuses are mapped onto
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    api.statuses.getByProject(projectId)
+      .then(statuses => {
+        if (!cancelled) setWorkflow(statuses);
+      })
+      .catch(err => console.error('Failed to load statuses:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Guess the mapping whenever the statuses on either side change
+  useEffect(() => {
+    setMapping(current ? guessStatusMapping(current.statuses, workflow) : {});
+  }, [current, workflow]);
+
+  const counts = useMemo(() => {
+    const byStatus: Record<string, number> = {};
+    for (const row of current?.rows ?? []) {
+      byStatus[row.source_status] = (byStatus[row.source_status] ?? 0) + 1;
+    }
+    return byStatus;
+  }, [current]);
+
+  const runImport = async (isDryRun: boolean) => {
+    if (!projectId || !current) return;
+    return api.importExport.importTasks({
+      project_id: projectId,
+      dry_run: isDryRun,
+      create_people: createPeople,
+      rows: applyStatusMapping(current.rows, mapping),
+    });
+  };
+
+  const handleCheck = async () => {
+    if (!current || current.rows.length === 0) {
+      setError('The export has no tasks to import');
+      return;
+    }
+    setError(null);
+    setIsChecking(true);
+    try {
+      const checked = await runImport(true);
+      if (checked) {
+        setDryRun(checked);
+        setStep('review');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the import');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setError(null);
+    try {
+      const imported = await runImport(false);
+      if (imported) {
+        setResult(imported);
+        setStep('result');
+        onComplete?.();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+      setStep('review');
+    }
+  };
+
+  const renderSummary = (counts: TaskImportResult, verb: string) => (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h4 className="text-sm font-medium text-gray-700 mb-3">Import Summary</h4>
+      <div className="space-y-3">
+        {Object.entries(counts.summary).map(([table, stats]) => (
+          <div key={table} className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">{TABLE_NAMES[table] || table}</span>
+            <div className="flex gap-3">
+              <span className={stats.imported > 0 ? 'text-green-600' : 'text-gray-400'}>{stats.imported} {verb}</span>
+              {stats.skipped > 0 && <span className="text-yellow-600">{stats.skipped} skipped</span>}
+              {stats.errors > 0 && <span className="text-red-600">{stats.errors} errors</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+      {(counts.new_tags.length > 0 || counts.new_people.length > 0) && (
+        <div className="mt-4 pt-4 border-t border-gray-200 space-y-2 text-sm">
+          {counts.new_tags.length > 0 && (
+            <div className="flex items-start justify-between gap-3">
+              <span className="text-gray-600">New tags</span>
+              <span className="text-right text-gray-900">{counts.new_tags.join(', ')}</span>
+            </div>
+          )}
+          {counts.new_people.length > 0 && (
+            <div className="flex items-start justify-between gap-3">
+              <span className="text-gray-600">New people</span>
+              <span className="text-right text-gray-900">{counts.new_people.join(', ')}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderIssues = (counts: TaskImportResult) => {
+    const issues = counts.rows.filter(r => r.errors?.length || r.warnings?.length);
+    if (issues.length === 0) return null;
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+        <h4 className="text-sm font-medium text-yellow-800 mb-2">Some records had errors</h4>
+        <ul className="text-xs text-yellow-700 space-y-1 max-h-48 overflow-y-auto">
+          {issues.slice(0, LISTED_ISSUES).map(row => (
+            <li key={row.row}>
+              <span className="font-medium">
+                {row.title || `Record ${row.row}`}{row.ref ? ` (${row.ref})` : ''}{row.skipped ? ', skipped' : ''}:
+              </span>{' '}
+              {[...(row.errors ?? []), ...(row.warnings ?? [])].join('; ')}
+            </li>
+          ))}
+          {issues.length > LISTED_ISSUES && (
+            <li>...and {issues.length - LISTED_ISSUES} more records</li>
+          )}
+        </ul>
+      </div>
+    );
+  };
+
+  const errorMessage = error && (
+    <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm" role="alert">
+      {error}
+    </div>
+  );
+
+  switch (step) {
+    case 'map':
+      return (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Import from {sourceLabel}</h3>
+
+          <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-900">{file.name}</p>
+              {current && <span className="text-xs text-gray-500">{current.rows.length} tasks</span>}
+            </div>
+            {imports.length > 1 && (
+              <div>
+                <label htmlFor="external-import-source-project" className="block text-sm font-medium text-gray-700 mb-1">
+                  Todoist project
+                </label>
+                <select
+                  id="external-import-source-project"
+                  value={importIndex}
+                  onChange={e => setImportIndex(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {imports.map((item, index) => (
+                    <option key={index} value={index}>{item.name} ({item.rows.length} tasks)</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label htmlFor="external-import-project" className="block text-sm font-medium text-gray-700 mb-1">
+                Import into
+              </label>
+              <select
+                id="external-import-project"
+                value={projectId ?? ''}
+                onChange={e => setProjectId(e.target.value ? Number(e.target.value) : null)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={createPeople}
+                onChange={e => setCreatePeople(e.target.checked)}
+              />
+              Add members who aren&apos;t in Celestask yet as people
+            </label>
+          </div>
+
+          {isLoading && <p className="text-sm text-gray-500">Reading {file.name}...</p>}
+
+          {/* Status mapping */}
+          {current && current.statuses.length > 0 && (
+            <div className="border rounded-lg">
+              <div className="px-3 py-2 bg-gray-50 text-xs font-medium text-gray-700 rounded-t-lg">
+                {source === 'jira' ? 'Statuses' : source === 'trello' ? 'Lists' : 'Sections'}
+              </div>
+              <ul className="divide-y">
+                {current.statuses.map(status => (
+                  <li key={status} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <span className="text-gray-900 truncate" title={status}>
+                      {status}
+                      <span className="ml-1 text-xs text-gray-500">({counts[status] ?? 0})</span>
+                    </span>
+                    <select
+                      value={mapping[status] ?? ''}
+                      onChange={e => setMapping(prev => ({ ...prev, [status]: e.target.value }))}
+                      aria-label={`Status for ${status}`}
+                      className="w-40 px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="">Default status</option>
+                      {workflow.map(s => (
+                        <option key={s.key} value={s.key}>{s.name}</option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Labels become tags and members are matched to people by name. Checklist items and nested tasks are
+            imported as subtasks, and comments as notes of their task.
+          </p>
+
+          {errorMessage}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCheck}
+              disabled={isChecking || isLoading || !projectId || !current}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isChecking ? 'Checking...' : 'Check Import'}
+            </button>
+          </div>
+        </div>
+      );
+
+    case 'review':
+      return (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Dry Run</h3>
+          <p className="text-sm text-gray-600">
+            Nothing has been imported yet. This is what importing {current?.name ?? file.name} would do:
+          </p>
+          {dryRun && renderSummary(dryRun, 'to import')}
+          {dryRun && renderIssues(dryRun)}
+          {errorMessage}
+          <div className="flex gap-3">
+            <button
+              onClick={() => setStep('map')}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!dryRun || dryRun.created === 0}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Import {dryRun?.created ?? 0} Tasks
+            </button>
+          </div>
+        </div>
+      );
+
+    case 'importing':
+      return (
+        <div className="text-center py-8">
+          <svg className="animate-spin h-12 w-12 mx-auto text-blue-600" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+          <p className="mt-4 text-lg font-medium text-gray-900">Importing tasks...</p>
+        </div>
+      );
+
+    case 'result':
+      return (
+        <div className="space-y-4">
+          <div className="bg-green-50 text-green-700 px-4 py-4 rounded-lg flex items-start gap-3">
+            <svg className="w-6 h-6 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <div>
+              <p className="font-medium">Import Complete</p>
+              <p className="text-sm mt-1">{current?.name ?? file.name}</p>
+            </div>
+          </div>
+          {result && renderSummary(result, 'imported')}
+          {result && renderIssues(result)}
+          <div className="flex gap-3">
+            {imports.length > 1 && (
+              <button
+                onClick={() => {
+                  setResult(null);
+                  setDryRun(null);
+                  setStep('map');
+                }}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Import Another Project
+              </button>
+            )}
+            <button
+              onClick={onClose || onCancel}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      );
+  }
+}
+
+export default ExternalImportWizard;
@@ -4,6 +4,9 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useToast } from '../../context/ToastContext';
 import { api } from '../../services/api';
 import type { ExportStatus, ImportPayload, ImportResult, ImportMode } from '../../types';
+import { CsvImportWizard } from './CsvImportWizard';
+import { ExternalImportWizard } from './ExternalImportWizard';
+import { EXTERNAL_IMPORT_SOURCES, type ExternalImportSource } from '../../utils/externalImport';
 
 // LocalStorage key for last export date
 const LAST_EXPORT_KEY = 'celestask-last-export';
@@ -47,7 +50,10 @@ interface ImportExportPanelProps {
   onImportComplete?: () => void;
 }
 
-type ImportStep = 'select' | 'preview' | 'importing' | 'result';
+type ImportStep = 'select' | 'preview' | 'importing' | 'result' | 'csv' | 'external';
+
+// Where the file to import comes from: a Celestask export or spreadsheet, or another tool
+type ImportSource = 'celestask' | ExternalImportSource;
 
 interface FilePreview {
   version: string;
@@ -69,6 +75,9 @@ export function ImportExportPanel({ onClose, onImportComplete }: ImportExportPan
   const [importStep, setImportStep] = useState<ImportStep>('select');
   const [importMode, setImportMode] = useState<ImportMode>('merge');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [importSource, setImportSource] = useState<ImportSource>('celestask');
+  const [externalFile, setExternalFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<FilePreview | null>(null);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
@@ -129,16 +138,31 @@ export function ImportExportPanel({ onClose, onImportComplete }: ImportExportPan
     if (file) {
       validateAndPreviewFile(file);
     }
-  }, []);
+    // The file is read as coming from the chosen source
+  }, [importSource]);
   
   const validateAndPreviewFile = async (file: File) => {
     setFileError(null);
     setFilePreview(null);
     setSelectedFile(null);
     
+    // Exports of other tools are read and mapped by their own wizard
+    if (importSource !== 'celestask') {
+      setExternalFile(file);
+      setImportStep('external');
+      return;
+    }
+
+    // Spreadsheets go through the column mapping wizard
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      setCsvFile(file);
+      setImportStep('csv');
+      return;
+    }
+
     // Check file extension
     if (!file.name.endsWith('.json')) {
-      setFileError('Please select a valid JSON file');
+      setFileError('Please select a JSON export or a CSV file');
       return;
     }
     
@@ -212,6 +236,8 @@ export function ImportExportPanel({ onClose, onImportComplete }: ImportExportPan
   const handleReset = () => {
     setImportStep('select');
     setSelectedFile(null);
+    setCsvFile(null);
+    setExternalFile(null);
     setFilePreview(null);
     setImportResult(null);
     setImportError(null);
@@ -227,7 +253,8 @@ export function ImportExportPanel({ onClose, onImportComplete }: ImportExportPan
     if (file) {
       validateAndPreviewFile(file);
     }
-  }, []);
+    // The file is read as coming from the chosen source
+  }, [importSource]);
   
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -311,12 +338,34 @@ export function ImportExportPanel({ onClose, onImportComplete }: ImportExportPan
   
   // Render import section
   const renderImportSection = () => {
+    const externalSource = EXTERNAL_IMPORT_SOURCES.find(s => s.value === importSource);
     switch (importStep) {
       case 'select':
         return (
           <div className="space-y-4">
             <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Import Data</h3>
             
+            {/* Source */}
+            <div>
+              <label htmlFor="import-source" className="block text-sm font-medium text-gray-700 mb-1">
+                Import from
+              </label>
+              <select
+                id="import-source"
+                value={importSource}
+                onChange={e => {
+                  setImportSource(e.target.value as ImportSource);
+                  setFileError(null);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="celestask">Celestask export or CSV spreadsheet</option>
+                {EXTERNAL_IMPORT_SOURCES.map(source => (
+                  <option key={source.value} value={source.value}>{source.label}</option>
+                ))}
+              </select>
+            </div>
+            
             {/* Drop Zone */}
             <div
               onDrop={handleDrop}
@@ -330,14 +379,18 @@ export function ImportExportPanel({ onClose, onImportComplete }: ImportExportPan
               <p className="mt-2 text-sm text-gray-600">
                 <span className="text-blue-600 font-medium">Click to upload</span> or drag and drop
               </p>
-              <p className="text-xs text-gray-500 mt-1">JSON export file only</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {importSource === 'celestask'
+                  ? 'JSON export file, or a CSV spreadsheet of tasks'
+                  : externalSource?.label}
+              </p>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".json"
+                accept={externalSource?.accept ?? '.json,.csv'}
                 onChange={handleFileSelect}
                 className="hidden"
-                aria-label="Select export file"
+                aria-label="Select export or CSV file"
               />
             </div>
             
@@ -453,6 +506,27 @@ export function ImportExportPanel({ onClose, onImportComplete }: ImportExportPan
           </div>
         );
         
+      case 'csv':
+        return csvFile && (
+          <CsvImportWizard
+            file={csvFile}
+            onCancel={handleReset}
+            onComplete={onImportComplete}
+            onClose={onClose}
+          />
+        );
+        
+      case 'external':
+        return externalFile && importSource !== 'celestask' && (
+          <ExternalImportWizard
+            source={importSource}
+            file={externalFile}
+            onCancel={handleReset}
+            onComplete={onImportComplete}
+            onClose={onClose}
+          />
+        );
+        
       case 'importing':
         return (
           <div className="text-center py-8">
@@ -261,7 +261,7 @@ export function NotesPanel({
       >
         <div className="space-y-4">
           <p className="text-gray-600">
-            Are you sure you want to delete this note? This action cannot be undone.
+            Are you sure you want to delete this note? You can restore it from the Trash.
           </p>
           <div className="flex justify-end gap-2">
             <button
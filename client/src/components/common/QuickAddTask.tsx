@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import {
@@ -14,9 +14,12 @@ import {
 } from 'lucide-react';
 import { useTasks } from '../../context/TaskContext';
 import { useProjects } from '../../context/ProjectContext';
+import { useTags } from '../../context/TagContext';
+import { usePeople } from '../../context/PeopleContext';
 import { useToast } from '../../context/ToastContext';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 import { TaskPriority } from '../../types';
+import { parseQuickAdd, getQuickAddSegments, type QuickAddTokenType } from '../../utils/quickAddParser';
 
 interface QuickAddTaskProps {
   className?: string;
@@ -29,6 +32,16 @@ const priorityConfig: Record<TaskPriority, { label: string; color: string }> = {
   low: { label: 'Low', color: 'text-gray-500' },
 };
 
+const tokenHighlight: Record<QuickAddTokenType, string> = {
+  project: 'bg-blue-500/20',
+  tag: 'bg-purple-500/20',
+  assignee: 'bg-green-500/20',
+  priority: 'bg-red-500/20',
+  date: 'bg-amber-500/25',
+  time: 'bg-amber-500/25',
+  estimate: 'bg-teal-500/20',
+};
+
 export function QuickAddTask({ className }: QuickAddTaskProps) {
   const [title, setTitle] = useState('');
   const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
@@ -40,15 +53,26 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
   const [showPriorityDropdown, setShowPriorityDropdown] = useState(false);
 
   const inputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
   const quickAddRef = useRef<HTMLDivElement>(null);
   const projectDropdownRef = useRef<HTMLDivElement>(null);
   const priorityDropdownRef = useRef<HTMLDivElement>(null);
 
-  const { createTask } = useTasks();
+  const { createTask, addTagToTask } = useTasks();
   const { projects, currentProject } = useProjects();
+  const { tags } = useTags();
+  const { people } = usePeople();
   const { success: toastSuccess, error: toastError, warning: toastWarning } = useToast();
 
-  const effectiveProjectId = selectedProjectId || currentProject?.id;
+  const parsed = useMemo(
+    () => parseQuickAdd(title, { projects, tags, people }),
+    [title, projects, tags, people]
+  );
+  const segments = useMemo(() => getQuickAddSegments(title, parsed.tokens), [title, parsed.tokens]);
+
+  // Values typed inline win over the dropdowns
+  const effectiveProjectId = parsed.projectId || selectedProjectId || currentProject?.id;
+  const effectivePriority = parsed.priority ?? priority;
   const selectedProject = projects.find((p) => p.id === effectiveProjectId);
 
   useKeyboardShortcuts({
@@ -84,10 +108,21 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Keep the highlight layer scrolled with the input text
+  const syncHighlightScroll = useCallback(() => {
+    if (highlightRef.current && inputRef.current) {
+      highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+    }
+  }, []);
+
+  useEffect(() => {
+    syncHighlightScroll();
+  }, [title, syncHighlightScroll]);
+
   const handleSubmit = useCallback(async (e?: React.FormEvent) => {
     e?.preventDefault();
 
-    if (!title.trim()) {
+    if (!parsed.title) {
       toastWarning('Please enter a task title');
       return;
     }
@@ -99,15 +134,23 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
 
     setIsLoading(true);
     try {
-      await createTask({
-        title: title.trim(),
+      const task = await createTask({
+        title: parsed.title,
         project_id: effectiveProjectId,
-        status: 'todo',
-        priority,
-        due_date: dueDate || undefined,
+        priority: effectivePriority,
+        due_date: parsed.dueDate || dueDate || undefined,
+        assignee_id: parsed.assigneeId,
+        estimated_duration_minutes: parsed.estimatedMinutes,
       });
 
-      toastSuccess('Task created successfully');
+      try {
+        for (const tagId of parsed.tagIds) {
+          await addTagToTask(task.id, tagId);
+        }
+        toastSuccess('Task created successfully');
+      } catch {
+        toastWarning('Task created, but some tags could not be added');
+      }
       setTitle('');
       setDueDate('');
       setPriority('medium');
@@ -118,7 +161,7 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [title, effectiveProjectId, priority, dueDate, createTask, toastSuccess, toastError, toastWarning]);
+  }, [parsed, effectiveProjectId, effectivePriority, dueDate, createTask, addTagToTask, toastSuccess, toastError, toastWarning]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -143,7 +186,8 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
               value={title}
               onChange={(e) => setTitle(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Quick add task... (Press Enter)"
+              onScroll={syncHighlightScroll}
+              placeholder="Quick add task... e.g. Write report #project @person !high tomorrow 3pm ~2h"
               disabled={isLoading}
               className={twMerge(
                 clsx(
@@ -159,6 +203,26 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
               )}
               aria-label="Quick add task"
             />
+            {parsed.tokens.length > 0 && (
+              <div
+                ref={highlightRef}
+                aria-hidden="true"
+                className="absolute inset-0 px-3 py-2 text-sm border border-transparent whitespace-pre overflow-hidden pointer-events-none text-transparent"
+              >
+                {segments.map((segment, index) =>
+                  segment.token ? (
+                    <mark
+                      key={index}
+                      className={twMerge('rounded-sm text-transparent', tokenHighlight[segment.token.type])}
+                    >
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{segment.text}</span>
+                  )
+                )}
+              </div>
+            )}
           </div>
 
           <div className="relative" ref={projectDropdownRef}>
@@ -267,7 +331,7 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
 
           <button
             type="submit"
-            disabled={isLoading || !title.trim()}
+            disabled={isLoading || !parsed.title}
             className={twMerge(
               clsx(
                 'flex items-center justify-center p-2 text-sm rounded-lg',
@@ -315,8 +379,8 @@ export function QuickAddTask({ className }: QuickAddTaskProps) {
               aria-expanded={showPriorityDropdown}
               aria-haspopup="listbox"
             >
-              <Flag className={twMerge('w-3.5 h-3.5', priorityConfig[priority].color)} />
-              <span>{priorityConfig[priority].label}</span>
+              <Flag className={twMerge('w-3.5 h-3.5', priorityConfig[effectivePriority].color)} />
+              <span>{priorityConfig[effectivePriority].label}</span>
               <ChevronDown className={twMerge(clsx('w-3 h-3 transition-transform', showPriorityDropdown && 'rotate-180'))} />
             </button>
 
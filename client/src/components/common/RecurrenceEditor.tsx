@@ -0,0 +1,184 @@
+'use client';
+
+import React from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { Repeat } from 'lucide-react';
+import type { RecurrenceFrequency, TaskRecurrence } from '../../types';
+import { RECURRENCE_FREQUENCY_CONFIG } from '../../types';
+import { describeRecurrence } from '../../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  disabled?: boolean;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'M', title: 'Monday' },
+  { value: 2, label: 'T', title: 'Tuesday' },
+  { value: 3, label: 'W', title: 'Wednesday' },
+  { value: 4, label: 'T', title: 'Thursday' },
+  { value: 5, label: 'F', title: 'Friday' },
+  { value: 6, label: 'S', title: 'Saturday' },
+  { value: 0, label: 'S', title: 'Sunday' },
+];
+
+const inputClassName = twMerge(
+  clsx(
+    'px-3 py-1.5 rounded-md border shadow-sm text-sm',
+    'bg-white dark:bg-gray-900',
+    'text-gray-900 dark:text-gray-100',
+    'focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500',
+    'border-gray-300 dark:border-gray-600'
+  )
+);
+
+export function RecurrenceEditor({ value, onChange, disabled = false }: RecurrenceEditorProps) {
+  const update = (changes: Partial<TaskRecurrence>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+    if (frequency === '') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency,
+      interval: value?.interval || 1,
+      end_date: value?.end_date,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays ?? [];
+    update({
+      weekdays: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label
+        htmlFor="recurrence_frequency"
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <Repeat className="w-4 h-4 inline-block mr-1" />
+        Repeat
+      </label>
+      <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-md space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            id="recurrence_frequency"
+            value={value?.frequency ?? ''}
+            onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="">Does not repeat</option>
+            {Object.entries(RECURRENCE_FREQUENCY_CONFIG).map(([frequency, config]) => (
+              <option key={frequency} value={frequency}>
+                {config.label}
+              </option>
+            ))}
+          </select>
+
+          {value && (
+            <>
+              <span className="text-sm text-gray-600 dark:text-gray-400">every</span>
+              <input
+                type="number"
+                min="1"
+                max="365"
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className={twMerge(inputClassName, 'w-20')}
+                aria-label="Repeat interval"
+                disabled={disabled}
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {RECURRENCE_FREQUENCY_CONFIG[value.frequency].unit}
+                {value.interval !== 1 && 's'}
+                {value.frequency === 'after_completion' && ' after done'}
+              </span>
+            </>
+          )}
+        </div>
+
+        {value?.frequency === 'weekly' && (
+          <div className="flex items-center gap-1" role="group" aria-label="Repeat on weekdays">
+            {WEEKDAYS.map(day => {
+              const selected = value.weekdays?.includes(day.value) ?? false;
+              return (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleWeekday(day.value)}
+                  title={day.title}
+                  aria-pressed={selected}
+                  className={twMerge(
+                    clsx(
+                      'w-8 h-8 rounded-full text-xs font-medium border',
+                      selected
+                        ? 'bg-primary-500 text-white border-primary-500'
+                        : 'bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    )
+                  )}
+                  disabled={disabled}
+                >
+                  {day.label}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {value?.frequency === 'monthly' && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="recurrence_month_day" className="text-sm text-gray-600 dark:text-gray-400">
+              On day
+            </label>
+            <input
+              type="number"
+              id="recurrence_month_day"
+              min="1"
+              max="31"
+              value={value.month_day ?? ''}
+              onChange={(e) => update({ month_day: parseInt(e.target.value, 10) || undefined })}
+              placeholder="Same day"
+              className={twMerge(inputClassName, 'w-28')}
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        {value && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="recurrence_end_date" className="text-sm text-gray-600 dark:text-gray-400">
+              Until
+            </label>
+            <input
+              type="date"
+              id="recurrence_end_date"
+              value={value.end_date ?? ''}
+              onChange={(e) => update({ end_date: e.target.value || undefined })}
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        {value && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {describeRecurrence(value)}. The next occurrence is created when this task is marked done.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RecurrenceEditor;
@@ -1,7 +1,10 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import type { TaskFilters, CreateSavedViewDTO, SavedView } from '../../types';
+import type { TaskFilters, CreateSavedViewDTO, SavedView, SavedViewSettings } from '../../types';
+import { SWIMLANE_GROUP_CONFIG } from '../../types';
+import { useCustomFields } from '../../context/CustomFieldContext';
+import { getSortKeyFieldId } from '../../utils/customFieldColumns';
 import Button from './Button';
 import Modal from './Modal';
 
@@ -10,10 +13,11 @@ interface SaveViewModalProps {
   onClose: () => void;
   onSave: (data: CreateSavedViewDTO) => Promise<SavedView>;
   currentFilters: TaskFilters;
+  currentSettings?: SavedViewSettings;
   currentSortBy?: string;
   currentSortOrder: 'asc' | 'desc';
   viewType: 'list' | 'kanban' | 'calendar' | 'timeline';
-  projectId?: string | null;
+  projectId?: number | null;
   existingView?: SavedView | null;
   loading?: boolean;
 }
@@ -23,6 +27,7 @@ export default function SaveViewModal({
   onClose,
   onSave,
   currentFilters,
+  currentSettings,
   currentSortBy,
   currentSortOrder,
   viewType,
@@ -33,8 +38,10 @@ export default function SaveViewModal({
   const [name, setName] = useState('');
   const [setAsDefault, setSetAsDefault] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { customFields } = useCustomFields();
 
   const isEditing = !!existingView;
+  const fieldName = (fieldId: string) => customFields.find(f => f.id === fieldId)?.name ?? 'Unknown field';
 
   // Initialize form when modal opens
   useEffect(() => {
@@ -65,6 +72,7 @@ export default function SaveViewModal({
         view_type: viewType,
         project_id: projectId || null,
         filters: currentFilters,
+        settings: currentSettings,
         sort_by: currentSortBy,
         sort_order: currentSortOrder,
         is_default: setAsDefault,
@@ -83,6 +91,10 @@ export default function SaveViewModal({
     (Array.isArray(value) ? value.length > 0 : true)
   ).length;
 
+  const wipLimitCount = Object.values(currentSettings?.wip_limits ?? {}).filter(limit => limit > 0).length;
+  const columnNames = (currentSettings?.columns ?? []).map(fieldName);
+  const sortFieldId = currentSortBy ? getSortKeyFieldId(currentSortBy) : null;
+
   return (
     <Modal
       isOpen={isOpen}
@@ -139,18 +151,30 @@ export default function SaveViewModal({
           </div>
           {activeFilterCount > 0 && (
             <div className="mt-2 flex flex-wrap gap-1">
-              {currentFilters.status && (
-                <FilterBadge label={`Status: ${currentFilters.status}`} />
-              )}
-              {currentFilters.priority && (
-                <FilterBadge label={`Priority: ${currentFilters.priority}`} />
-              )}
-              {currentFilters.assignee_id && (
-                <FilterBadge label="Assignee set" />
-              )}
-              {currentFilters.tag_id && (
-                <FilterBadge label="Tag set" />
-              )}
+              {currentFilters.status?.length ? (
+                <FilterBadge label={`Status: ${currentFilters.status.join(', ')}`} />
+              ) : null}
+              {currentFilters.not_status?.length ? (
+                <FilterBadge label={`Not status: ${currentFilters.not_status.join(', ')}`} />
+              ) : null}
+              {currentFilters.priority?.length ? (
+                <FilterBadge label={`Priority: ${currentFilters.priority.join(', ')}`} />
+              ) : null}
+              {currentFilters.not_priority?.length ? (
+                <FilterBadge label={`Not priority: ${currentFilters.not_priority.join(', ')}`} />
+              ) : null}
+              {currentFilters.assignee_id?.length ? (
+                <FilterBadge label={countLabel(currentFilters.assignee_id.length, 'Assignee')} />
+              ) : null}
+              {currentFilters.not_assignee_id?.length ? (
+                <FilterBadge label={`Not ${countLabel(currentFilters.not_assignee_id.length, 'assignee')}`} />
+              ) : null}
+              {currentFilters.tag_id?.length ? (
+                <FilterBadge label={countLabel(currentFilters.tag_id.length, 'Tag')} />
+              ) : null}
+              {currentFilters.not_tag_id?.length ? (
+                <FilterBadge label={`Not ${countLabel(currentFilters.not_tag_id.length, 'tag')}`} />
+              ) : null}
               {currentFilters.due_date_from && (
                 <FilterBadge label={`From: ${currentFilters.due_date_from}`} />
               )}
@@ -160,10 +184,44 @@ export default function SaveViewModal({
               {currentFilters.search && (
                 <FilterBadge label={`Search: "${currentFilters.search}"`} />
               )}
+              {currentFilters.query && (
+                <FilterBadge label={`Query: ${currentFilters.query}`} />
+              )}
             </div>
           )}
         </div>
 
+        {/* List Layout Summary */}
+        {currentSettings && viewType === 'list' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              List Layout
+            </label>
+            <div className="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md text-sm">
+              {columnNames.length === 0 ? 'No custom field columns' : `Columns: ${columnNames.join(', ')}`}
+              {currentSettings.group_by_field_id && ` · Grouped by ${fieldName(currentSettings.group_by_field_id)}`}
+            </div>
+          </div>
+        )}
+
+        {/* Board Layout Summary */}
+        {currentSettings && viewType === 'kanban' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Board Layout
+            </label>
+            <div className="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md text-sm">
+              {!currentSettings.swimlane_by || currentSettings.swimlane_by === 'none'
+                ? SWIMLANE_GROUP_CONFIG.none.label
+                : `Swimlanes by ${SWIMLANE_GROUP_CONFIG[currentSettings.swimlane_by].label.toLowerCase()}`}
+              {' · '}
+              {wipLimitCount === 0
+                ? 'No WIP limits'
+                : `${wipLimitCount} WIP limit${wipLimitCount !== 1 ? 's' : ''}`}
+            </div>
+          </div>
+        )}
+
         {/* Sort Settings */}
         {(currentSortBy || currentSortOrder) && (
           <div>
@@ -171,7 +229,11 @@ export default function SaveViewModal({
               Sort
             </label>
             <div className="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md text-sm">
-              {currentSortBy ? (
+              {sortFieldId ? (
+                <span>
+                  {fieldName(sortFieldId)} ({currentSortOrder}ending)
+                </span>
+              ) : currentSortBy ? (
                 <span className="capitalize">
                   {currentSortBy.replace(/_/g, ' ')} ({currentSortOrder}ending)
                 </span>
@@ -220,6 +282,11 @@ export default function SaveViewModal({
   );
 }
 
+// "2 Tags", "1 Tag"
+function countLabel(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`;
+}
+
 // Helper component for filter badges
 function FilterBadge({ label }: { label: string }) {
   return (
@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { ChevronUp, ChevronDown, Trash2, Plus } from 'lucide-react';
+import { useStatuses } from '../../context/StatusContext';
+import { useTasks } from '../../context/TaskContext';
+import { useProjects } from '../../context/ProjectContext';
+import { useToast } from '../../context/ToastContext';
+import type { ProjectStatus, StatusCategory, TaskStatus } from '../../types';
+import { STATUS_CATEGORY_CONFIG, PROJECT_COLORS } from '../../types';
+import { FormInput, FormSelect } from './FormFields';
+import { Button } from './Button';
+
+interface StatusManagerProps {
+  onClose?: () => void;
+}
+
+const CATEGORY_OPTIONS = (Object.keys(STATUS_CATEGORY_CONFIG) as StatusCategory[]).map(category => ({
+  value: category,
+  label: STATUS_CATEGORY_CONFIG[category].label,
+}));
+
+/**
+ * Edit the current project's workflow: rename, recolor, recategorize, reorder, add and remove statuses.
+ */
+export function StatusManager({ onClose }: StatusManagerProps) {
+  const { statuses, createStatus, updateStatus, reorderStatuses, deleteStatus } = useStatuses();
+  const { tasks, fetchTasksByProject } = useTasks();
+  const { currentProject } = useProjects();
+  const toast = useToast();
+
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(PROJECT_COLORS[0]);
+  const [newCategory, setNewCategory] = useState<StatusCategory>('active');
+  const [isAdding, setIsAdding] = useState(false);
+  const [deletingStatus, setDeletingStatus] = useState<ProjectStatus | null>(null);
+  const [moveTo, setMoveTo] = useState<TaskStatus>('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Tasks per status key, so deleting a status in use can ask where its tasks go
+  const taskCounts = useMemo(() => {
+    const counts = new Map<TaskStatus, number>();
+    tasks.forEach(task => counts.set(task.status, (counts.get(task.status) ?? 0) + 1));
+    return counts;
+  }, [tasks]);
+
+  const doneCount = statuses.filter(s => s.category === 'done').length;
+
+  const handleUpdate = async (status: ProjectStatus, data: Partial<Pick<ProjectStatus, 'name' | 'color' | 'category'>>) => {
+    if (data.name !== undefined) {
+      const name = data.name.trim();
+      if (!name || name === status.name) return;
+      data = { ...data, name };
+    }
+    try {
+      await updateStatus(status.id, data);
+    } catch (err) {
+      toast.error('Failed to update status', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ids = statuses.map(s => s.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    try {
+      await reorderStatuses(ids);
+    } catch (err) {
+      toast.error('Failed to reorder statuses', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    setIsAdding(true);
+    try {
+      await createStatus({ name, color: newColor, category: newCategory });
+      setNewName('');
+    } catch (err) {
+      toast.error('Failed to add status', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const startDelete = (status: ProjectStatus) => {
+    setDeletingStatus(status);
+    setMoveTo(statuses.find(s => s.id !== status.id)?.key ?? '');
+  };
+
+  const handleDelete = async () => {
+    if (!deletingStatus) return;
+    const inUse = (taskCounts.get(deletingStatus.key) ?? 0) > 0;
+    setIsDeleting(true);
+    try {
+      // Trashed tasks aren't counted locally, so always say where tasks should go
+      const moved = await deleteStatus(deletingStatus.id, moveTo || undefined);
+      if (moved > 0 && currentProject) {
+        await fetchTasksByProject(currentProject.id);
+      }
+      toast.success(
+        'Status deleted',
+        inUse ? `"${deletingStatus.name}" was removed and its tasks were moved.` : `"${deletingStatus.name}" was removed.`
+      );
+      setDeletingStatus(null);
+    } catch (err) {
+      toast.error('Failed to delete status', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Statuses become the columns of the Kanban board, in this order. Statuses in the{' '}
+        <span className="font-medium">Done</span> category count as complete in dashboards and progress.
+      </p>
+
+      {/* Status list */}
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+        {statuses.map((status, index) => {
+          const count = taskCounts.get(status.key) ?? 0;
+          const isLastDone = status.category === 'done' && doneCount <= 1;
+          const isDeletingThis = deletingStatus?.id === status.id;
+
+          return (
+            <li key={status.id} className="p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  key={`${status.id}:${status.color}`}
+                  type="color"
+                  defaultValue={status.color}
+                  onBlur={(e) => {
+                    if (e.target.value !== status.color) handleUpdate(status, { color: e.target.value });
+                  }}
+                  className="w-8 h-8 flex-shrink-0 rounded cursor-pointer border border-gray-200 dark:border-gray-600 bg-transparent"
+                  aria-label={`Color of ${status.name}`}
+                />
+                <FormInput
+                  key={`${status.id}:${status.name}`}
+                  defaultValue={status.name}
+                  onBlur={(e) => handleUpdate(status, { name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  aria-label="Status name"
+                  className="flex-1"
+                />
+                <FormSelect
+                  value={status.category}
+                  options={CATEGORY_OPTIONS}
+                  onChange={(e) => handleUpdate(status, { category: e.target.value as StatusCategory })}
+                  disabled={isLastDone}
+                  title={isLastDone ? 'A project needs at least one Done status' : STATUS_CATEGORY_CONFIG[status.category].description}
+                  aria-label={`Category of ${status.name}`}
+                  className="w-36 flex-shrink-0"
+                />
+                <span className="w-16 flex-shrink-0 text-xs text-right text-gray-500 dark:text-gray-400">
+                  {count} task{count !== 1 ? 's' : ''}
+                </span>
+                <div className="flex flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label={`Move ${status.name} up`}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === statuses.length - 1}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label={`Move ${status.name} down`}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startDelete(status)}
+                    disabled={statuses.length <= 1 || isLastDone}
+                    className="p-1 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label={`Delete ${status.name}`}
+                    title={isLastDone ? 'A project needs at least one Done status' : undefined}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {/* Delete confirmation */}
+              {isDeletingThis && (
+                <div className="flex flex-wrap items-center gap-2 p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm">
+                  <span className="text-red-700 dark:text-red-300">
+                    Delete &quot;{status.name}&quot; and move its tasks to
+                  </span>
+                  <FormSelect
+                    value={moveTo}
+                    options={statuses.filter(s => s.id !== status.id).map(s => ({ value: s.key, label: s.name }))}
+                    onChange={(e) => setMoveTo(e.target.value)}
+                    aria-label="Move tasks to"
+                    className="w-40"
+                  />
+                  <div className="flex gap-2 ml-auto">
+                    <Button variant="ghost" size="sm" onClick={() => setDeletingStatus(null)} disabled={isDeleting}>
+                      Cancel
+                    </Button>
+                    <Button variant="danger" size="sm" onClick={handleDelete} isLoading={isDeleting}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Add status */}
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          type="color"
+          value={newColor}
+          onChange={(e) => setNewColor(e.target.value)}
+          className="w-8 h-8 flex-shrink-0 rounded cursor-pointer border border-gray-200 dark:border-gray-600 bg-transparent"
+          aria-label="Color of new status"
+        />
+        <FormInput
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New status, e.g. QA"
+          aria-label="New status name"
+          className="flex-1"
+        />
+        <FormSelect
+          value={newCategory}
+          options={CATEGORY_OPTIONS}
+          onChange={(e) => setNewCategory(e.target.value as StatusCategory)}
+          aria-label="Category of new status"
+          className="w-36 flex-shrink-0"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          leftIcon={<Plus className="w-4 h-4" />}
+          isLoading={isAdding}
+          disabled={!newName.trim()}
+          className="flex-shrink-0"
+        >
+          Add
+        </Button>
+      </form>
+
+      {onClose && (
+        <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="secondary" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StatusManager;
@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { Link2, Plus, X, AlertTriangle } from 'lucide-react';
+import type { Task, TaskDependency } from '../../types';
+import { useTasks } from '../../context/TaskContext';
+import { useStatuses } from '../../context/StatusContext';
+
+interface TaskDependencyEditorProps {
+  task: Task;
+  disabled?: boolean;
+}
+
+type DependencyDirection = 'blocked_by' | 'blocks';
+
+interface DependencyListProps {
+  label: string;
+  direction: DependencyDirection;
+  links: Array<{ dependency: TaskDependency; task: Task }>;
+  candidates: Task[];
+  disabled: boolean;
+  onAdd: (direction: DependencyDirection, otherTaskId: number) => void;
+  onRemove: (dependencyId: string) => void;
+}
+
+function DependencyList({ label, direction, links, candidates, disabled, onAdd, onRemove }: DependencyListProps) {
+  const [showSelect, setShowSelect] = useState(false);
+  const { getStatus, isDoneStatus } = useStatuses();
+
+  return (
+    <div>
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-1">
+        {label}
+      </div>
+
+      {links.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {links.map(({ dependency, task }) => (
+            <div
+              key={dependency.id}
+              className="flex items-center gap-1 px-2 py-1 bg-white dark:bg-gray-900 rounded-md border border-gray-200 dark:border-gray-700"
+            >
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: getStatus(task.status).color }}
+                title={getStatus(task.status).name}
+              />
+              <span
+                className={twMerge(clsx(
+                  'text-sm text-gray-700 dark:text-gray-300 truncate max-w-[180px]',
+                  isDoneStatus(task.status) && 'line-through text-gray-400 dark:text-gray-500'
+                ))}
+              >
+                {task.title}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRemove(dependency.id)}
+                className="ml-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                disabled={disabled}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setShowSelect(!showSelect)}
+            className={twMerge(
+              clsx(
+                'flex items-center gap-1 px-3 py-1 text-sm rounded-md border border-dashed',
+                'text-gray-500 dark:text-gray-400',
+                'hover:border-gray-400 dark:hover:border-gray-500',
+                'hover:text-gray-700 dark:hover:text-gray-300',
+                'border-gray-300 dark:border-gray-600'
+              )
+            )}
+            disabled={disabled}
+          >
+            <Plus className="w-4 h-4" />
+            {direction === 'blocked_by' ? 'Add blocking task' : 'Add blocked task'}
+          </button>
+
+          {showSelect && (
+            <>
+              <div
+                className="fixed inset-0 z-10"
+                onClick={() => setShowSelect(false)}
+              />
+              <div className="absolute left-0 top-full mt-1 w-72 max-h-48 overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-20">
+                {candidates.map(candidate => (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    onClick={() => {
+                      onAdd(direction, candidate.id);
+                      setShowSelect(false);
+                    }}
+                    className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                  >
+                    <span
+                      className="w-2 h-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: getStatus(candidate.status).color }}
+                    />
+                    <span className="text-gray-900 dark:text-gray-100 truncate">{candidate.title}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {links.length === 0 && candidates.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No other tasks available</p>
+      )}
+    </div>
+  );
+}
+
+export function TaskDependencyEditor({ task, disabled = false }: TaskDependencyEditorProps) {
+  const { tasks, dependencies, addDependency, removeDependency, isTaskBlocked } = useTasks();
+  const [saving, setSaving] = useState(false);
+
+  const { blockedBy, blocks } = useMemo(() => {
+    const resolve = (dependency: TaskDependency, otherId: number) => {
+      const other = tasks.find(t => t.id === otherId);
+      return other ? { dependency, task: other } : null;
+    };
+    const notNull = <T,>(v: T | null): v is T => v !== null;
+
+    return {
+      blockedBy: dependencies
+        .filter(d => d.blocked_task_id === task.id)
+        .map(d => resolve(d, d.blocking_task_id))
+        .filter(notNull),
+      blocks: dependencies
+        .filter(d => d.blocking_task_id === task.id)
+        .map(d => resolve(d, d.blocked_task_id))
+        .filter(notNull),
+    };
+  }, [tasks, dependencies, task.id]);
+
+  // Candidates exclude the task itself and anything already linked in either direction
+  const candidates = useMemo(() => {
+    const linkedIds = new Set([...blockedBy, ...blocks].map(l => l.task.id));
+    return tasks
+      .filter(t => t.id !== task.id && !linkedIds.has(t.id))
+      .sort((a, b) => {
+        // Same-project tasks first
+        const aSame = a.project_id === task.project_id ? 0 : 1;
+        const bSame = b.project_id === task.project_id ? 0 : 1;
+        return aSame - bSame || a.title.localeCompare(b.title);
+      });
+  }, [tasks, task.id, task.project_id, blockedBy, blocks]);
+
+  const handleAdd = async (direction: DependencyDirection, otherTaskId: number) => {
+    setSaving(true);
+    try {
+      await addDependency(
+        task.id,
+        direction === 'blocked_by' ? { blocking_task_id: otherTaskId } : { blocked_task_id: otherTaskId }
+      );
+    } catch (err) {
+      console.error('Failed to add dependency:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    setSaving(true);
+    try {
+      await removeDependency(task.id, dependencyId);
+    } catch (err) {
+      console.error('Failed to remove dependency:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          <Link2 className="w-4 h-4 inline-block mr-1" />
+          Dependencies
+        </label>
+        {isTaskBlocked(task.id) && (
+          <span className="flex items-center gap-1 text-xs font-medium text-red-600 dark:text-red-400">
+            <AlertTriangle className="w-3 h-3" />
+            Blocked
+          </span>
+        )}
+      </div>
+      <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-md space-y-3">
+        <DependencyList
+          label="Blocked by"
+          direction="blocked_by"
+          links={blockedBy}
+          candidates={candidates}
+          disabled={disabled || saving}
+          onAdd={handleAdd}
+          onRemove={handleRemove}
+        />
+        <DependencyList
+          label="Blocks"
+          direction="blocks"
+          links={blocks}
+          candidates={candidates}
+          disabled={disabled || saving}
+          onAdd={handleAdd}
+          onRemove={handleRemove}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default TaskDependencyEditor;
@@ -1,21 +1,28 @@
 'use client';
 
-import React, { useState, useEffect, useMemo, type FormEvent } from 'react';
+import React, { useState, useEffect, useMemo, useRef, type FormEvent } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { ClipboardList, Calendar, Flag, Loader2, User, Tag, X, Plus, Clock, GitBranch, Users, FormInput, Play, Square, Edit2, Trash2 } from 'lucide-react';
-import type { Task, Project, CreateTaskDTO, UpdateTaskDTO, TaskStatus, TaskPriority, Person, Tag as TagType, CustomFieldValue, CustomField, TimeEntry, UpdateTimeEntryDTO } from '../../types';
-import { STATUS_CONFIG, PRIORITY_CONFIG } from '../../types';
+import { ClipboardList, Calendar, Flag, Loader2, User, Tag, X, Plus, Clock, GitBranch, Users, FormInput, Play, Square, Edit2, Trash2, StickyNote, History } from 'lucide-react';
+import type { Task, Project, CreateTaskDTO, UpdateTaskDTO, TaskStatus, TaskPriority, Person, Tag as TagType, CustomFieldValue, CustomField, TimeEntry, UpdateTimeEntryDTO, TaskRecurrence } from '../../types';
+import { PRIORITY_CONFIG } from '../../types';
 import { Button } from './Button';
 import { TagBadge } from './Badge';
 import { MiniProgressBar } from './ProgressBar';
 import CustomFieldInput from './CustomFieldInput';
+import TaskDependencyEditor from './TaskDependencyEditor';
+import RecurrenceEditor from './RecurrenceEditor';
+import NotesPanel from './NotesPanel';
+import ActivityFeed from './ActivityFeed';
 import { usePeople } from '../../context/PeopleContext';
 import { useTags } from '../../context/TagContext';
 import { useTasks } from '../../context/TaskContext';
+import { useStatuses } from '../../context/StatusContext';
 import { useCustomFields } from '../../context/CustomFieldContext';
 import { useTimeEntries } from '../../context/TimeEntryContext';
 import { formatDurationUs, formatDurationUsCompact, formatTimerDisplayUs, parseDurationStringToUs, TIME_UNITS } from '@/utils/timeFormat';
+import { parseCustomFieldValue } from '@/utils/customFieldColumns';
+import { isCustomFieldRequiredAt, isEmptyCustomFieldValue, validateCustomFieldValue } from '@/utils/customFieldValidation';
 
 interface TaskFormProps {
   task?: Task | null;
@@ -27,6 +34,14 @@ interface TaskFormProps {
   isLoading?: boolean;
 }
 
+type TaskFormTab = 'details' | 'notes' | 'activity';
+
+const TASK_FORM_TABS: { id: TaskFormTab; label: string; icon: React.ElementType }[] = [
+  { id: 'details', label: 'Details', icon: ClipboardList },
+  { id: 'notes', label: 'Notes', icon: StickyNote },
+  { id: 'activity', label: 'Activity', icon: History },
+];
+
 interface FormData {
   title: string;
   description: string;
@@ -40,6 +55,7 @@ interface FormData {
   progress_percent: number;
   estimated_duration_minutes: number;
   actual_duration_minutes: number;
+  recurrence: TaskRecurrence | null;
 }
 
 interface FormErrors {
@@ -82,11 +98,13 @@ export function TaskForm({
   isLoading = false,
 }: TaskFormProps) {
   const isEditing = Boolean(task);
+  const [activeTab, setActiveTab] = useState<TaskFormTab>('details');
   const currentProjectId = task?.project_id || propProjectId || project?.id;
   
   const { projectPeople, people } = usePeople();
   const { availableTags } = useTags();
   const { tasks } = useTasks();
+  const { workflow, defaultStatus, getStatus, isDoneStatus } = useStatuses();
   const { availableFields, fetchCustomFields, fetchTaskCustomFields, setTaskCustomField, getTaskFieldValue } = useCustomFields();
   const {
     timerTick,
@@ -95,6 +113,7 @@ export function TaskForm({
     isTaskTimerRunning,
     getRunningTimerForTask,
     fetchTaskTimeSummary,
+    addManualTaskTimeEntry,
     updateTimeEntry,
     deleteTimeEntry,
   } = useTimeEntries();
@@ -119,6 +138,9 @@ export function TaskForm({
   
   // Custom field values state (fieldId -> value)
   const [customFieldValues, setCustomFieldValues] = useState<Map<string, any>>(new Map());
+  // Values as loaded, so only changed ones are saved
+  const loadedCustomFieldValues = useRef<Map<string, any>>(new Map());
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
   
   // Get available parent tasks (tasks from same project, excluding self and descendants)
   const availableParentTasks = useMemo(() => {
@@ -148,9 +170,10 @@ export function TaskForm({
   const [formData, setFormData] = useState<FormData>({
     title: task?.title || '',
     description: task?.description || '',
-    status: task?.status || 'todo',
+    status: task?.status || defaultStatus,
     priority: task?.priority || 'medium',
-    due_date: task?.due_date || '',
+    // The date input only holds the day; a due time (e.g. from quick add) is kept on submit
+    due_date: task?.due_date?.slice(0, 10) || '',
     start_date: task?.start_date || '',
     end_date: task?.end_date || '',
     assignee_id: task?.assignee_id || null,
@@ -158,6 +181,7 @@ export function TaskForm({
     progress_percent: task?.progress_percent || 0,
     estimated_duration_minutes: task?.estimated_duration_minutes || 0,
     actual_duration_minutes: task?.actual_duration_minutes || 0,
+    recurrence: task?.recurrence || null,
   });
   
   const [errors, setErrors] = useState<FormErrors>({});
@@ -180,16 +204,22 @@ export function TaskForm({
   useEffect(() => {
     if (task) {
       fetchTaskCustomFields(task.id);
-      
-      // Load existing custom field values
+    }
+  }, [task, fetchTaskCustomFields]);
+  
+  useEffect(() => {
+    if (task) {
+      // Load existing custom field values, stored as strings
       const loadCustomFieldValues = async () => {
         const values = new Map<string, any>();
         for (const field of availableFields) {
-          const value = getTaskFieldValue(task.id, field.id);
-          if (value !== undefined && value !== null) {
+          const stored = getTaskFieldValue(task.id, field.id)?.value;
+          const value = parseCustomFieldValue(field, stored === null || stored === undefined ? null : String(stored));
+          if (value !== null) {
             values.set(field.id, value);
           }
         }
+        loadedCustomFieldValues.current = values;
         setCustomFieldValues(values);
       };
       loadCustomFieldValues();
@@ -206,7 +236,7 @@ export function TaskForm({
         setSelectedTags(tagsForProject.filter(t => tagIds.includes(t.id)));
       }
     }
-  }, [task, availableFields, people, tagsForProject, fetchTaskCustomFields, getTaskFieldValue]);
+  }, [task, availableFields, people, tagsForProject, getTaskFieldValue]);
   
   // Fetch time tracking data when editing
   useEffect(() => {
@@ -268,6 +298,43 @@ export function TaskForm({
   
   const handleCustomFieldChange = (fieldId: string, value: any) => {
     setCustomFieldValues(prev => new Map(prev).set(fieldId, value));
+
+    // Rule errors show while typing; a missing value is only reported on save
+    const field = availableFields.find(f => f.id === fieldId);
+    const error = field ? validateCustomFieldValue(field, value) : null;
+    setCustomFieldErrors(prev => {
+      const next = { ...prev };
+      if (error) next[fieldId] = error;
+      else delete next[fieldId];
+      return next;
+    });
+  };
+
+  const isCustomFieldChanged = (fieldId: string): boolean => {
+    const loaded = loadedCustomFieldValues.current.get(fieldId) ?? null;
+    const current = customFieldValues.get(fieldId) ?? null;
+    return JSON.stringify(loaded) !== JSON.stringify(current);
+  };
+
+  // A field needs a value when the task moves to a status that requires it, or when
+  // its value is cleared in such a status. The server checks the same on save.
+  const isCustomFieldRequired = (field: CustomField): boolean => {
+    if (!task || !isCustomFieldRequiredAt(field, formData.status, isDoneStatus)) return false;
+    return formData.status !== task.status || !isEmptyCustomFieldValue(loadedCustomFieldValues.current.get(field.id));
+  };
+
+  const validateCustomFields = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    for (const field of availableFields) {
+      if (field.field_type === 'formula') continue;
+      const value = customFieldValues.get(field.id);
+      const error = isEmptyCustomFieldValue(value) && isCustomFieldRequired(field)
+        ? `${field.name} is required while the task is ${getStatus(formData.status).name}`
+        : validateCustomFieldValue(field, value);
+      if (error) newErrors[field.id] = error;
+    }
+    setCustomFieldErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
   };
   
   const handleAddCoAssignee = (personId: number) => {
@@ -430,9 +497,32 @@ export function TaskForm({
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
-    if (!validateForm()) {
+    const isFormValid = validateForm();
+    if (!validateCustomFields() || !isFormValid) {
       return;
     }
+
+    // Save changed custom field values first, so a status that requires them
+    // finds them set. Errors from the server are shown next to their field.
+    if (task) {
+      const saveErrors: Record<string, string> = {};
+      for (const field of availableFields) {
+        // Formula values are calculated by the server
+        if (field.field_type === 'formula' || !isCustomFieldChanged(field.id)) continue;
+        const value = customFieldValues.get(field.id) ?? null;
+        try {
+          await setTaskCustomField(task.id, field.id, value);
+          loadedCustomFieldValues.current.set(field.id, value);
+        } catch (err) {
+          console.error('Failed to save custom field:', err);
+          saveErrors[field.id] = err instanceof Error ? err.message : 'Failed to save';
+        }
+      }
+      if (Object.keys(saveErrors).length > 0) {
+        setCustomFieldErrors(saveErrors);
+        return;
+      }
+    }
     
     // Build base data
     const data: CreateTaskDTO | UpdateTaskDTO = {
@@ -440,7 +530,9 @@ export function TaskForm({
       description: formData.description.trim() || undefined,
       status: formData.status,
       priority: formData.priority,
-      due_date: formData.due_date || null,
+      due_date: formData.due_date && task?.due_date?.startsWith(formData.due_date)
+        ? task.due_date
+        : formData.due_date || null,
       start_date: formData.start_date || null,
       end_date: formData.end_date || null,
       assignee_id: formData.assignee_id || undefined,
@@ -448,6 +540,7 @@ export function TaskForm({
       progress_percent: formData.progress_percent,
       estimated_duration_minutes: formData.estimated_duration_minutes || undefined,
       actual_duration_minutes: formData.actual_duration_minutes || undefined,
+      recurrence: formData.recurrence,
     };
     
     // Add project_id for new tasks
@@ -457,17 +550,8 @@ export function TaskForm({
     
     await onSubmit(data);
     
-    // Handle custom fields, co-assignees, and tags after submit if editing
+    // Handle co-assignees and tags after submit if editing
     if (task) {
-      // Save custom field values
-      for (const [fieldId, value] of customFieldValues) {
-        try {
-          await setTaskCustomField(task.id, fieldId, value);
-        } catch (err) {
-          console.error('Failed to save custom field:', err);
-        }
-      }
-      
       // Handle co-assignees
       const currentCoAssigneeIds = task.coAssignees?.map(ca => ca.person_id) || [];
       const newCoAssigneeIds = selectedCoAssignees.map(p => p.id);
@@ -483,7 +567,7 @@ export function TaskForm({
     }
   };
   
-  return (
+  const form = (
     <form onSubmit={handleSubmit} className="space-y-4">
       {/* Title */}
       <div>
@@ -611,11 +695,14 @@ export function TaskForm({
             )}
             disabled={isLoading}
           >
-            {Object.entries(STATUS_CONFIG).map(([value, config]) => (
-              <option key={value} value={value}>
-                {config.label}
+            {workflow.map(status => (
+              <option key={status.key} value={status.key}>
+                {status.name}
               </option>
             ))}
+            {!workflow.some(status => status.key === formData.status) && (
+              <option value={formData.status}>{getStatus(formData.status).name}</option>
+            )}
           </select>
         </div>
         
@@ -871,7 +958,6 @@ export function TaskForm({
                     const now = new Date();
                     const startTime = new Date(now.getTime() - (durationUs / TIME_UNITS.MILLISECOND));
                     
-                    const { addManualTaskTimeEntry } = useTimeEntries();
                     try {
                       await addManualTaskTimeEntry(task.id, {
                         start_time: startTime.toISOString(),
@@ -1260,6 +1346,11 @@ export function TaskForm({
         )}
       </div>
       
+      {/* Dependencies - Only show for existing tasks */}
+      {isEditing && task && (
+        <TaskDependencyEditor task={task} disabled={isLoading} />
+      )}
+      
       {/* Custom Fields */}
       {availableFields.length > 0 && (
         <div className="space-y-3">
@@ -1273,8 +1364,11 @@ export function TaskForm({
                 key={field.id}
                 field={field}
                 value={customFieldValues.get(field.id)}
-                onChange={(value) => handleCustomFieldChange(field.id, value)}
+                onChange={handleCustomFieldChange}
                 disabled={isLoading}
+                error={customFieldErrors[field.id]}
+                required={isCustomFieldRequiredAt(field, formData.status, isDoneStatus)}
+                taskId={task?.id}
               />
             ))}
           </div>
@@ -1383,6 +1477,13 @@ export function TaskForm({
         </div>
       </div>
       
+      {/* Recurrence */}
+      <RecurrenceEditor
+        value={formData.recurrence}
+        onChange={(recurrence) => setFormData(prev => ({ ...prev, recurrence }))}
+        disabled={isLoading}
+      />
+      
       {/* Actions */}
       <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
         <Button
@@ -1404,6 +1505,45 @@ export function TaskForm({
       </div>
     </form>
   );
+
+  // Notes and activity only exist once the task has been created
+  if (!task) return form;
+
+  return (
+    <div className="space-y-4">
+      <div role="tablist" className="flex gap-1 border-b border-gray-200 dark:border-gray-700">
+        {TASK_FORM_TABS.map(tab => {
+          const Icon = tab.icon;
+          return (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={twMerge(
+                clsx(
+                  'flex items-center gap-1.5 px-3 py-2 -mb-px text-sm font-medium border-b-2 transition-colors',
+                  activeTab === tab.id
+                    ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                )
+              )}
+            >
+              <Icon className="w-4 h-4" />
+              {tab.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {activeTab === 'details' && form}
+      {activeTab === 'notes' && (
+        <NotesPanel entityType="task" entityId={String(task.id)} collapsible={false} />
+      )}
+      {activeTab === 'activity' && <ActivityFeed taskId={task.id} />}
+    </div>
+  );
 }
 
 export default TaskForm;
@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useState, useRef, useMemo } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { Search, X, AlertCircle } from 'lucide-react';
+import { useStatuses } from '../../context/StatusContext';
+import { usePeople } from '../../context/PeopleContext';
+import { useTags } from '../../context/TagContext';
+import { useProjects } from '../../context/ProjectContext';
+import { useCustomFields } from '../../context/CustomFieldContext';
+import {
+  getTaskQuerySuggestions,
+  applyTaskQuerySuggestion,
+  type TaskQueryContext,
+  type TaskQuerySuggestions,
+} from '../../utils/taskQuery';
+
+interface TaskQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  error?: string | null;
+  className?: string;
+  'aria-label'?: string;
+}
+
+/**
+ * Search box that also takes task queries (status:todo due<+7d ...), completing
+ * field names and values as they are typed. Tab or Enter accepts a suggestion.
+ */
+export function TaskQueryInput({
+  value,
+  onChange,
+  placeholder = 'Search, or filter with status:todo priority>=high due<+7d...',
+  error,
+  className,
+  'aria-label': ariaLabel = 'Search tasks',
+}: TaskQueryInputProps) {
+  const { workflow } = useStatuses();
+  const { people } = usePeople();
+  const { tags } = useTags();
+  const { projects } = useProjects();
+  const { customFields } = useCustomFields();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const context = useMemo<TaskQueryContext>(
+    () => ({ statuses: workflow, people, tags, projects, customFields }),
+    [workflow, people, tags, projects, customFields]
+  );
+
+  const suggestions: TaskQuerySuggestions | null = useMemo(
+    () => (cursor === null || dismissed ? null : getTaskQuerySuggestions(value, cursor, context)),
+    [value, cursor, dismissed, context]
+  );
+
+  const updateCursor = () => setCursor(inputRef.current?.selectionStart ?? null);
+
+  const accept = (index: number) => {
+    if (!suggestions) return;
+    const next = applyTaskQuerySuggestion(value, suggestions, suggestions.items[index]);
+    onChange(next.query);
+    setCursor(next.cursor);
+    setHighlighted(0);
+    // Put the caret after the inserted text once React has rendered the new value
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions) return;
+    const count = suggestions.items.length;
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlighted(prev => (prev + 1) % count);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted(prev => (prev - 1 + count) % count);
+        break;
+      case 'Tab':
+      case 'Enter':
+        e.preventDefault();
+        accept(Math.min(highlighted, count - 1));
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setDismissed(true);
+        break;
+    }
+  };
+
+  return (
+    <div className={twMerge(clsx('relative', className))}>
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none h-10">
+        <Search className="h-4 w-4 text-gray-400 dark:text-gray-500" aria-hidden="true" />
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart);
+          setHighlighted(0);
+          setDismissed(false);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') updateCursor();
+        }}
+        onClick={updateCursor}
+        onBlur={() => setCursor(null)}
+        placeholder={placeholder}
+        className={twMerge(
+          clsx(
+            'w-full pl-10 pr-8 py-2 rounded-md',
+            'border border-gray-300 dark:border-gray-600',
+            'bg-white dark:bg-gray-800',
+            'text-gray-900 dark:text-gray-100',
+            'placeholder-gray-400 dark:placeholder-gray-500',
+            'focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500',
+            'transition-colors duration-150',
+            error && 'border-red-400 dark:border-red-600 focus:ring-red-500 focus:border-red-500'
+          )
+        )}
+        aria-label={ariaLabel}
+        aria-invalid={error ? true : undefined}
+        aria-autocomplete="list"
+        aria-expanded={suggestions !== null}
+        role="combobox"
+        spellCheck={false}
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="absolute top-0 right-0 h-10 pr-3 flex items-center"
+          aria-label="Clear search"
+        >
+          <X className="h-4 w-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" />
+        </button>
+      )}
+
+      {error && (
+        <p className="mt-1 flex items-center gap-1 text-xs text-red-600 dark:text-red-400" role="alert">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+
+      {/* Suggestions */}
+      {suggestions && (
+        <ul
+          className="absolute z-30 left-0 right-0 top-10 mt-1 max-h-64 overflow-y-auto rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 py-1"
+          role="listbox"
+        >
+          {suggestions.items.map((item, index) => (
+            <li key={`${item.insert}-${index}`} role="option" aria-selected={index === highlighted}>
+              <button
+                type="button"
+                // Keep focus in the input so the caret position survives
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(index);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={clsx(
+                  'w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left text-sm',
+                  index === highlighted
+                    ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                    : 'text-gray-700 dark:text-gray-300'
+                )}
+              >
+                <span className="font-mono truncate">{item.label}</span>
+                {item.description && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{item.description}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TaskQueryInput;
@@ -3,9 +3,9 @@
 import React, { useMemo, useState } from 'react';
 import type { TreeNode } from '../../types';
 import type { Task } from '../../types';
-import { STATUS_CONFIG } from '../../types';
 import { TreeNodeRenderer } from './TreeView';
 import { AppContextMenu, type AppContextMenuItem } from './AppContextMenu';
+import { useStatuses } from '../../context/StatusContext';
 
 interface TaskTreeNodeProps {
   node: TreeNode<Task>;
@@ -35,7 +35,8 @@ export function TaskTreeNode({
   const [contextMenuPosition, setContextMenuPosition] = useState<{ x: number; y: number } | null>(null);
   
   // Get status info
-  const statusConfig = STATUS_CONFIG[task.status];
+  const { getStatus } = useStatuses();
+  const status = getStatus(task.status);
   const assignee = task.assignee;
   const assigneeInitial = assignee?.name?.charAt(0)?.toUpperCase() || '?';
 
@@ -148,8 +149,8 @@ export function TaskTreeNode({
     <div className="flex items-center gap-2">
       <div 
         className="w-2 h-2 rounded-full flex-shrink-0"
-        style={{ backgroundColor: statusConfig.color }}
-        title={statusConfig.label}
+        style={{ backgroundColor: status.color }}
+        title={status.name}
       />
       <span className="truncate">{task.title}</span>
       {assignee && (
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { Clock, Trash2, Edit2, X, Check, Calendar, User } from 'lucide-react';
+import { Clock, Trash2, Edit2, X, Check, Calendar, User, DollarSign, Lock, Timer } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { useTimeEntries } from '@/context/TimeEntryContext';
@@ -123,6 +123,15 @@ export function TimeEntryList({ entityType, entityId, maxHeight = '300px' }: Tim
     }
   };
   
+  const handleToggleBillable = async (entry: TimeEntry) => {
+    try {
+      await updateTimeEntry(entry.id, { billable: !entry.billable });
+      setEntries(prev => prev.map(e => (e.id === entry.id ? { ...e, billable: !entry.billable } : e)));
+    } catch (err) {
+      console.error('Failed to update time entry:', err);
+    }
+  };
+  
   const handleDelete = async (entryId: string) => {
     if (!confirm('Are you sure you want to delete this time entry?')) {
       return;
@@ -243,7 +252,12 @@ export function TimeEntryList({ entityType, entityId, maxHeight = '300px' }: Tim
                   </span>
                 </div>
                 <div className="col-span-5">
-                  <div className="text-xs text-gray-600 dark:text-gray-300 truncate">
+                  <div className="text-xs text-gray-600 dark:text-gray-300 truncate flex items-center gap-1">
+                    {entry.pomodoro_session_id && (
+                      <span title="Logged by a pomodoro session; edit or delete the session to change it" className="text-red-500 dark:text-red-400">
+                        <Timer className="w-3 h-3" />
+                      </span>
+                    )}
                     {entry.description || '-'}
                   </div>
                   {entry.person_name && (
@@ -254,7 +268,27 @@ export function TimeEntryList({ entityType, entityId, maxHeight = '300px' }: Tim
                   )}
                 </div>
                 <div className="col-span-2 flex justify-end gap-1">
-                  {!isRunning && (
+                  {entry.invoice_id ? (
+                    <span
+                      className="p-1 text-gray-400 dark:text-gray-500"
+                      title="Invoiced; void the invoice to change this entry"
+                    >
+                      <Lock className="w-3.5 h-3.5" />
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleToggleBillable(entry)}
+                      className={twMerge(clsx(
+                        'p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700',
+                        entry.billable ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-gray-500'
+                      ))}
+                      title={entry.billable ? 'Billable (click to mark not billable)' : 'Not billable (click to mark billable)'}
+                      aria-pressed={entry.billable}
+                    >
+                      <DollarSign className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {!isRunning && !entry.invoice_id && !entry.pomodoro_session_id && (
                     <>
                       <button
                         onClick={() => handleEdit(entry)}
@@ -285,6 +319,11 @@ export function TimeEntryList({ entityType, entityId, maxHeight = '300px' }: Tim
         <div className="col-span-2 text-sm font-semibold text-gray-900 dark:text-gray-100">
           {formatDurationUsCompact(entries.reduce((sum, e) => sum + (e.duration_us || 0), 0))}
         </div>
+        <div className="col-span-7 text-xs text-gray-500 dark:text-gray-400 self-center">
+          {formatDurationUsCompact(entries.filter(e => e.billable).reduce((sum, e) => sum + (e.duration_us || 0), 0))} billable
+          {entries.some(e => e.pomodoro_session_id) &&
+            `, ${formatDurationUsCompact(entries.filter(e => e.pomodoro_session_id).reduce((sum, e) => sum + (e.duration_us || 0), 0))} from pomodoros`}
+        </div>
       </div>
     </div>
   );
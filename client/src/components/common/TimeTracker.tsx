@@ -1,11 +1,14 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Play, Pause, Square, Clock, Plus, Edit2 } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { format } from 'date-fns';
 import { useTimeEntries } from '@/context/TimeEntryContext';
-import type { TimeEntry, CreateTimeEntryDTO, UpdateTimeEntryDTO } from '@/types';
+import type { TimeEntry, CreateTimeEntryDTO, UpdateTimeEntryDTO, IdleTimeAction } from '@/types';
+import { Modal } from './Modal';
+import { Button } from './Button';
 import { formatDurationUs, formatDurationUsCompact, formatTimerDisplayUs, parseDurationStringToUs, TIME_UNITS } from '@/utils/timeFormat';
 
 function formatDateTimeLocal(date: Date): string {
@@ -46,6 +49,8 @@ export function TimeTracker({
     getRunningTimerForProject,
     fetchTaskTimeSummary,
     fetchProjectTimeSummary,
+    addManualTaskTimeEntry,
+    addManualProjectTimeEntry,
   } = useTimeEntries();
   
   const [summary, setSummary] = useState<{ total_time_us: number; direct_time_us: number; children_time_us?: number } | null>(null);
@@ -158,7 +163,6 @@ export function TimeTracker({
     };
     
     try {
-      const { addManualTaskTimeEntry, addManualProjectTimeEntry } = useTimeEntries();
       if (entityType === 'task') {
         await addManualTaskTimeEntry(entityId, data);
       } else {
@@ -500,4 +504,160 @@ export function TimeDisplay({ entityType, entityId, className }: TimeDisplayProp
   );
 }
 
+// Input that counts as being at the computer
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Notices when the app went untouched for the idle setting's minutes while timers ran,
+ * and on return asks whether to keep, discard or split off the idle time. Time spent in
+ * other tabs and apps counts as work.
+ */
+export function IdleTimePrompt() {
+  const { runningTimers, settings, resolveIdleTime } = useTimeEntries();
+  const [idle, setIdle] = useState<{ since: Date; until: Date } | null>(null);
+  const [resolving, setResolving] = useState<IdleTimeAction | null>(null);
+  const lastActivityRef = useRef(Date.now());
+
+  const idleMs = (settings?.idle_minutes ?? 0) * TIME_UNITS.MINUTE / TIME_UNITS.MILLISECOND;
+  const watching = idleMs > 0 && runningTimers.length > 0;
+
+  useEffect(() => {
+    if (!watching) return;
+    lastActivityRef.current = Date.now();
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivityRef.current >= idleMs) {
+        const since = new Date(lastActivityRef.current);
+        setIdle(prev => prev ?? { since, until: new Date(now) });
+      }
+      lastActivityRef.current = now;
+    };
+    // Coming back from another tab or app starts the count afresh
+    const handleReturn = () => {
+      if (document.visibilityState === 'visible') lastActivityRef.current = Date.now();
+    };
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    window.addEventListener('focus', handleReturn);
+    document.addEventListener('visibilitychange', handleReturn);
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      window.removeEventListener('focus', handleReturn);
+      document.removeEventListener('visibilitychange', handleReturn);
+    };
+  }, [watching, idleMs]);
+
+  // Timers that were already running when the idle time began
+  const idleTimers = idle ? runningTimers.filter(t => new Date(t.start_time) < idle.since) : [];
+
+  const handleResolve = async (action: IdleTimeAction) => {
+    if (!idle) return;
+    if (action !== 'keep') {
+      setResolving(action);
+      const results = await Promise.allSettled(idleTimers.map(timer => resolveIdleTime(timer, idle.since, action)));
+      setResolving(null);
+      // resolveIdleTime has shown the error; stay open so the timers that failed
+      // (the others now start after the idle time) can be tried again
+      if (results.some(result => result.status === 'rejected')) return;
+    }
+    setIdle(null);
+  };
+
+  if (!idle || idleTimers.length === 0) {
+    return null;
+  }
+
+  const idleUs = (idle.until.getTime() - idle.since.getTime()) * TIME_UNITS.MILLISECOND;
+
+  return (
+    <Modal
+      isOpen
+      onClose={() => handleResolve('keep')}
+      title="Welcome back"
+      size="md"
+      closeOnOverlayClick={false}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          You were idle from {format(idle.since, 'HH:mm')} to {format(idle.until, 'HH:mm')} ({formatDurationUsCompact(idleUs)})
+          {idleTimers.length === 1 ? ' while a timer ran.' : ` while ${idleTimers.length} timers ran.`} What should happen to that time?
+        </p>
+        <ul className="text-sm text-gray-600 dark:text-gray-400 list-disc pl-5 space-y-1">
+          <li><strong>Keep</strong> leaves it on the timer.</li>
+          <li><strong>Discard</strong> ends the timer when you went idle and carries on from now.</li>
+          <li><strong>Split</strong> does the same, and logs the idle time as an entry of its own to edit later.</li>
+        </ul>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => handleResolve('keep')} disabled={resolving !== null}>
+            Keep
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve('split')} isLoading={resolving === 'split'} disabled={resolving !== null}>
+            Split
+          </Button>
+          <Button onClick={() => handleResolve('discard')} isLoading={resolving === 'discard'} disabled={resolving !== null}>
+            Discard
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+/**
+ * Under the 'warn' overlap setting, asks what to do when new time overlaps a person's
+ * other time: log around it, keep both, or leave the new time out.
+ */
+export function OverlapPrompt() {
+  const { overlapPrompt, resolveOverlapPrompt } = useTimeEntries();
+
+  if (!overlapPrompt) {
+    return null;
+  }
+
+  const names = overlapPrompt.overlaps.map(o => `"${o.entity_name ?? 'another entry'}"`).join(', ');
+
+  return (
+    <Modal
+      isOpen
+      onClose={() => resolveOverlapPrompt('cancel')}
+      title="Overlapping time"
+      size="md"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          {overlapPrompt.timer
+            ? `A timer is still running on ${names}.`
+            : `This time overlaps time logged on ${names}.`}
+        </p>
+        <ul className="text-sm text-gray-600 dark:text-gray-400 list-disc pl-5 space-y-1">
+          {overlapPrompt.timer ? (
+            <>
+              <li><strong>Stop other</strong> stops it as this timer starts.</li>
+              <li><strong>Keep both</strong> leaves both running.</li>
+            </>
+          ) : (
+            <>
+              <li><strong>Split</strong> logs this time around the time already logged.</li>
+              <li><strong>Keep both</strong> logs it as it is.</li>
+            </>
+          )}
+          <li><strong>Cancel</strong> leaves everything as it was.</li>
+        </ul>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => resolveOverlapPrompt('cancel')}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => resolveOverlapPrompt('allow')}>
+            Keep both
+          </Button>
+          <Button onClick={() => resolveOverlapPrompt('split')}>
+            {overlapPrompt.timer ? 'Stop other' : 'Split'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
 export default TimeTracker;
@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useTimeEntries } from '../../context/TimeEntryContext';
+import { usePomodoro } from '../../context/PomodoroContext';
+import { useToast } from '../../context/ToastContext';
+import { api } from '../../services/api';
+import type { OverlapMode, RoundingMode } from '../../types';
+import { FormField, FormSelect } from './FormFields';
+import { Button } from './Button';
+
+const ROUNDING_OPTIONS = [
+  { value: '0', label: 'Off' },
+  { value: '1', label: '1 minute' },
+  { value: '5', label: '5 minutes' },
+  { value: '6', label: '6 minutes (tenth of an hour)' },
+  { value: '10', label: '10 minutes' },
+  { value: '15', label: '15 minutes' },
+  { value: '30', label: '30 minutes' },
+  { value: '60', label: '1 hour' },
+];
+
+const ROUNDING_MODE_OPTIONS: { value: RoundingMode; label: string }[] = [
+  { value: 'nearest', label: 'To the nearest step' },
+  { value: 'up', label: 'Up' },
+  { value: 'down', label: 'Down' },
+];
+
+const OVERLAP_OPTIONS: { value: OverlapMode; label: string }[] = [
+  { value: 'warn', label: 'Ask first' },
+  { value: 'split', label: 'Split automatically' },
+  { value: 'allow', label: 'Allow overlaps' },
+];
+
+const IDLE_OPTIONS = [
+  { value: '0', label: 'Off' },
+  { value: '5', label: 'After 5 minutes' },
+  { value: '10', label: 'After 10 minutes' },
+  { value: '15', label: 'After 15 minutes' },
+  { value: '30', label: 'After 30 minutes' },
+  { value: '60', label: 'After 1 hour' },
+];
+
+interface TimeTrackingSettingsFormProps {
+  onClose?: () => void;
+}
+
+/**
+ * How timers are rounded when they stop, what happens when new time overlaps a person's
+ * other time, when to ask about idle time, and which pomodoro sessions are logged as time.
+ */
+export function TimeTrackingSettingsForm({ onClose }: TimeTrackingSettingsFormProps) {
+  const { settings, updateSettings } = useTimeEntries();
+  const { settings: pomodoroSettings, fetchSettings: fetchPomodoroSettings } = usePomodoro();
+  const toast = useToast();
+
+  const [form, setForm] = useState(() => ({
+    rounding_minutes: String(settings?.rounding_minutes ?? 0),
+    rounding_mode: settings?.rounding_mode ?? 'nearest',
+    overlap_mode: settings?.overlap_mode ?? 'warn',
+    idle_minutes: String(settings?.idle_minutes ?? 0),
+    log_time_entries: pomodoroSettings?.log_time_entries ?? false,
+    log_interrupted: pomodoroSettings?.log_interrupted ?? false,
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+      </div>
+    );
+  }
+
+  // Custom steps set through the API stay selectable
+  const roundingOptions = ROUNDING_OPTIONS.some(o => o.value === String(settings.rounding_minutes))
+    ? ROUNDING_OPTIONS
+    : [...ROUNDING_OPTIONS, { value: String(settings.rounding_minutes), label: `${settings.rounding_minutes} minutes` }];
+  const idleOptions = IDLE_OPTIONS.some(o => o.value === String(settings.idle_minutes))
+    ? IDLE_OPTIONS
+    : [...IDLE_OPTIONS, { value: String(settings.idle_minutes), label: `After ${settings.idle_minutes} minutes` }];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await updateSettings({
+        rounding_minutes: Number(form.rounding_minutes),
+        rounding_mode: form.rounding_mode,
+        overlap_mode: form.overlap_mode,
+        idle_minutes: Number(form.idle_minutes),
+      });
+      if (
+        pomodoroSettings &&
+        (form.log_time_entries !== pomodoroSettings.log_time_entries ||
+          form.log_interrupted !== pomodoroSettings.log_interrupted)
+      ) {
+        await api.pomodoro.updateSettings({
+          log_time_entries: form.log_time_entries,
+          log_interrupted: form.log_interrupted,
+        });
+        await fetchPomodoroSettings();
+      }
+      toast.success('Time tracking settings saved');
+      onClose?.();
+    } catch (err) {
+      toast.error('Failed to save settings', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <FormField label="Round timers" helperText="When a timer stops; manual entries are kept as typed">
+          <FormSelect
+            options={roundingOptions}
+            value={form.rounding_minutes}
+            onChange={e => setForm(prev => ({ ...prev, rounding_minutes: e.target.value }))}
+          />
+        </FormField>
+        <FormField label="Rounding">
+          <FormSelect
+            options={ROUNDING_MODE_OPTIONS}
+            value={form.rounding_mode}
+            disabled={form.rounding_minutes === '0'}
+            onChange={e => setForm(prev => ({ ...prev, rounding_mode: e.target.value as RoundingMode }))}
+          />
+        </FormField>
+      </div>
+      <FormField
+        label="Overlapping time"
+        helperText="When a person's new time overlaps their other time. Split stops their other timers, and logs manual entries around the time already logged."
+      >
+        <FormSelect
+          options={OVERLAP_OPTIONS}
+          value={form.overlap_mode}
+          onChange={e => setForm(prev => ({ ...prev, overlap_mode: e.target.value as OverlapMode }))}
+        />
+      </FormField>
+      <FormField
+        label="Idle detection"
+        helperText="Asks what to do with the time a timer ran while this app went untouched"
+      >
+        <FormSelect
+          options={idleOptions}
+          value={form.idle_minutes}
+          onChange={e => setForm(prev => ({ ...prev, idle_minutes: e.target.value }))}
+        />
+      </FormField>
+      {pomodoroSettings && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">Pomodoro sessions</legend>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="log-pomodoro-time"
+              checked={form.log_time_entries}
+              onChange={e => setForm(prev => ({ ...prev, log_time_entries: e.target.checked }))}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="log-pomodoro-time" className="text-sm text-gray-700 dark:text-gray-300">
+              Log completed work sessions as time on their task
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="log-interrupted-pomodoros"
+              checked={form.log_interrupted}
+              disabled={!form.log_time_entries}
+              onChange={e => setForm(prev => ({ ...prev, log_interrupted: e.target.checked }))}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="log-interrupted-pomodoros" className="text-sm text-gray-700 dark:text-gray-300">
+              Log stopped work sessions too
+            </label>
+          </div>
+        </fieldset>
+      )}
+      <div className="flex justify-end gap-2">
+        {onClose && (
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" isLoading={isSaving}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default TimeTrackingSettingsForm;
@@ -1,15 +1,12 @@
 'use client';
 
 import React, { useMemo, useState, useCallback } from 'react';
-import { clsx } from 'clsx';
-import { twMerge } from 'tailwind-merge';
 import { format, subWeeks, startOfWeek, endOfWeek, eachWeekOfInterval, isWithinInterval } from 'date-fns';
 import {
   CheckCircle2,
   Clock,
   ListTodo,
   AlertTriangle,
-  ClipboardList,
   Activity,
   Timer,
   Play,
@@ -34,11 +31,13 @@ import { useTasks } from '../../context/TaskContext';
 import { useProjects } from '../../context/ProjectContext';
 import { useApp } from '../../context/AppContext';
 import { usePomodoro } from '../../context/PomodoroContext';
-import type { Task, TaskStatus, TaskPriority, CreateTaskDTO, UpdateTaskDTO } from '../../types';
-import { STATUS_CONFIG, PRIORITY_CONFIG } from '../../types';
+import { useStatuses } from '../../context/StatusContext';
+import type { Task, TaskStatus, TaskPriority, CreateTaskDTO, UpdateTaskDTO, ActivityEntry } from '../../types';
+import { PRIORITY_CONFIG } from '../../types';
 import { Modal } from '../common/Modal';
 import { TaskForm } from '../common/TaskForm';
 import { Card } from '../common/Card';
+import ActivityFeed from '../common/ActivityFeed';
 import StatCard from './StatCard';
 import UpcomingDeadlines from './UpcomingDeadlines';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
@@ -61,6 +60,7 @@ export function DashboardView() {
   const { tasks, createTask, updateTask, deleteTask } = useTasks();
   const { currentProject } = useProjects();
   const { openSubTaskModal } = useApp();
+  const { workflow, getStatus, isDoneStatus } = useStatuses();
   const {
     dailyStats,
     isRunning: isPomodoroRunning,
@@ -79,10 +79,10 @@ export function DashboardView() {
     today.setHours(0, 0, 0, 0);
 
     const totalTasks = tasks.length;
-    const completedTasks = tasks.filter((t) => t.status === 'done').length;
-    const inProgressTasks = tasks.filter((t) => t.status === 'in_progress').length;
+    const completedTasks = tasks.filter((t) => isDoneStatus(t.status)).length;
+    const inProgressTasks = tasks.filter((t) => getStatus(t.status).category === 'active').length;
     const overdueTasks = tasks.filter(
-      (t) => t.due_date && new Date(t.due_date) < today && t.status !== 'done'
+      (t) => t.due_date && new Date(t.due_date) < today && !isDoneStatus(t.status)
     ).length;
 
     return {
@@ -91,29 +91,23 @@ export function DashboardView() {
       inProgressTasks,
       overdueTasks,
     };
-  }, [tasks]);
+  }, [tasks, getStatus, isDoneStatus]);
 
-  // Status distribution data for pie chart
+  // Status distribution data for pie chart, in workflow order
   const statusDistribution = useMemo(() => {
-    const distribution: Record<TaskStatus, number> = {
-      backlog: 0,
-      todo: 0,
-      in_progress: 0,
-      review: 0,
-      done: 0,
-    };
+    const distribution = new Map<TaskStatus, number>(workflow.map((status) => [status.key, 0]));
 
     tasks.forEach((task) => {
-      distribution[task.status]++;
+      distribution.set(task.status, (distribution.get(task.status) ?? 0) + 1);
     });
 
-    return Object.entries(distribution).map(([status, count]) => ({
-      name: STATUS_CONFIG[status as TaskStatus].label,
+    return Array.from(distribution, ([status, count]) => ({
+      name: getStatus(status).name,
       value: count,
-      color: STATUS_CONFIG[status as TaskStatus].color,
-      status: status as TaskStatus,
+      color: getStatus(status).color,
+      status,
     }));
-  }, [tasks]);
+  }, [tasks, workflow, getStatus]);
 
   // Priority distribution data for bar chart
   const priorityDistribution = useMemo(() => {
@@ -152,7 +146,7 @@ export function DashboardView() {
       }).length;
 
       const completed = tasks.filter((task) => {
-        if (task.status !== 'done') return false;
+        if (!isDoneStatus(task.status)) return false;
         const updatedDate = new Date(task.updated_at);
         return isWithinInterval(updatedDate, { start: weekStart, end: weekEnd });
       }).length;
@@ -163,14 +157,7 @@ export function DashboardView() {
         completed,
       };
     });
-  }, [tasks]);
-
-  // Recent activity (last 5 updated tasks)
-  const recentActivity = useMemo(() => {
-    return [...tasks]
-      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
-      .slice(0, 5);
-  }, [tasks]);
+  }, [tasks, isDoneStatus]);
 
   // Handle task click
   const handleTaskClick = useCallback((task: Task) => {
@@ -178,12 +165,32 @@ export function DashboardView() {
     setIsModalOpen(true);
   }, []);
 
+  // Activity entries for tasks that still exist open the task
+  const findActivityTask = useCallback((entry: ActivityEntry) => {
+    if (entry.entity_type !== 'task') return undefined;
+    return tasks.find((t) => String(t.id) === entry.entity_id);
+  }, [tasks]);
+
+  const handleActivityClick = useCallback((entry: ActivityEntry) => {
+    const task = findActivityTask(entry);
+    if (task) {
+      handleTaskClick(task);
+    }
+  }, [findActivityTask, handleTaskClick]);
+
+  const handleActivityContextMenu = useCallback((entry: ActivityEntry, position: { x: number; y: number }) => {
+    const task = findActivityTask(entry);
+    if (task) {
+      setContextMenuState({ ...position, task });
+    }
+  }, [findActivityTask]);
+
   const handleCreateSubTask = useCallback((parentTaskId: number) => {
     openSubTaskModal(parentTaskId);
   }, [openSubTaskModal]);
 
   const handleDeleteTask = useCallback(async (task: Task) => {
-    const shouldDelete = window.confirm(`Delete task "${task.title}"? This cannot be undone.`);
+    const shouldDelete = window.confirm(`Delete task "${task.title}" and its subtasks?`);
     if (!shouldDelete) {
       return;
     }
@@ -547,63 +554,15 @@ export function DashboardView() {
             </h3>
             <Activity className="w-5 h-5 text-gray-400" />
           </div>
-          {recentActivity.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-8 text-center">
-              <ClipboardList className="w-12 h-12 text-gray-400 mb-3" />
-              <p className="text-gray-600 dark:text-gray-400">
-                No recent activity
-              </p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {recentActivity.map((task) => (
-                <button
-                  key={task.id}
-                  onClick={() => handleTaskClick(task)}
-                  onContextMenu={(event) => {
-                    event.preventDefault();
-                    setContextMenuState({ x: event.clientX, y: event.clientY, task });
-                  }}
-                  onKeyDown={(event) => {
-                    if (event.key === 'ContextMenu' || (event.shiftKey && event.key === 'F10')) {
-                      event.preventDefault();
-                      const rect = (event.currentTarget as HTMLButtonElement).getBoundingClientRect();
-                      setContextMenuState({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2, task });
-                    }
-                  }}
-                  className={twMerge(
-                    clsx(
-                      'w-full text-left p-3 rounded-lg',
-                      'bg-gray-50 dark:bg-gray-900/50',
-                      'hover:bg-gray-100 dark:hover:bg-gray-900',
-                      'transition-colors duration-150',
-                      'focus:outline-none focus:ring-2 focus:ring-primary-500'
-                    )
-                  )}
-                >
-                  <div className="flex items-start justify-between gap-3">
-                    <div className="flex-1 min-w-0">
-                      <h4 className="font-medium text-gray-900 dark:text-gray-100 truncate">
-                        {task.title}
-                      </h4>
-                      <div className="flex items-center gap-2 mt-1">
-                        <span
-                          className="w-2 h-2 rounded-full flex-shrink-0"
-                          style={{ backgroundColor: STATUS_CONFIG[task.status].color }}
-                        />
-                        <span className="text-xs text-gray-500 dark:text-gray-400">
-                          {STATUS_CONFIG[task.status].label}
-                        </span>
-                      </div>
-                    </div>
-                    <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">
-                      {format(new Date(task.updated_at), 'MMM d, h:mm a')}
-                    </span>
-                  </div>
-                </button>
-              ))}
-            </div>
-          )}
+          <ActivityFeed
+            projectId={currentProject?.id}
+            pageSize={8}
+            compact
+            emptyMessage="No recent activity"
+            refreshKey={tasks}
+            onEntryClick={handleActivityClick}
+            onEntryContextMenu={handleActivityContextMenu}
+          />
         </Card>
       </div>
 
@@ -6,8 +6,9 @@ import { twMerge } from 'tailwind-merge';
 import { format, differenceInDays, isPast, isToday, isTomorrow } from 'date-fns';
 import { Calendar, AlertCircle, CheckCircle } from 'lucide-react';
 import type { Task } from '../../types';
-import { PRIORITY_CONFIG, STATUS_CONFIG } from '../../types';
+import { PRIORITY_CONFIG } from '../../types';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
+import { useStatuses } from '../../context/StatusContext';
 
 interface UpcomingDeadlinesProps {
   tasks: Task[];
@@ -65,6 +66,7 @@ const getUrgencyInfo = (dueDate: Date): { label: string; color: string; icon: Re
 
 export function UpcomingDeadlines({ tasks, onTaskClick, onCreateSubTask, onDeleteTask, maxItems = 5 }: UpcomingDeadlinesProps) {
   const [contextMenuState, setContextMenuState] = React.useState<{ x: number; y: number; task: Task } | null>(null);
+  const { getStatus, isDoneStatus } = useStatuses();
 
   // Sort tasks by due date and filter for upcoming ones
   const sortedTasks = React.useMemo(() => {
@@ -72,14 +74,14 @@ export function UpcomingDeadlines({ tasks, onTaskClick, onCreateSubTask, onDelet
     today.setHours(0, 0, 0, 0);
     
     return tasks
-      .filter((task) => task.due_date && task.status !== 'done')
+      .filter((task) => task.due_date && !isDoneStatus(task.status))
       .sort((a, b) => {
         if (!a.due_date) return 1;
         if (!b.due_date) return -1;
         return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
       })
       .slice(0, maxItems);
-  }, [tasks, maxItems]);
+  }, [tasks, maxItems, isDoneStatus]);
 
   const closeContextMenu = React.useCallback(() => {
     setContextMenuState(null);
@@ -181,10 +183,10 @@ export function UpcomingDeadlines({ tasks, onTaskClick, onCreateSubTask, onDelet
                   </span>
                   <span
                     className="w-2 h-2 rounded-full flex-shrink-0 ml-2"
-                    style={{ backgroundColor: STATUS_CONFIG[task.status].color }}
+                    style={{ backgroundColor: getStatus(task.status).color }}
                   />
                   <span className="text-xs text-gray-500 dark:text-gray-400">
-                    {STATUS_CONFIG[task.status].label}
+                    {getStatus(task.status).name}
                   </span>
                 </div>
               </div>
@@ -0,0 +1,357 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { addDays, addYears, endOfYear, format, parseISO, startOfWeek, startOfYear } from 'date-fns';
+import { Flame, Loader2, Target, Trophy, Clock, ZapOff } from 'lucide-react';
+import { api } from '../../services/api';
+import type { PomodoroDayStats, PomodoroFocusTotal, PomodoroRangeStats, PomodoroStreaks } from '../../types';
+import { toDateString } from '../../utils/schedule';
+import { formatHours, localTimeZone } from '../../utils/timesheet';
+
+type FocusPreset = 'past_year' | 'this_year' | 'last_year';
+
+const PRESETS: { value: FocusPreset; label: string }[] = [
+  { value: 'past_year', label: 'Past year' },
+  { value: 'this_year', label: 'This year' },
+  { value: 'last_year', label: 'Last year' },
+];
+
+// Focus totals listed per task and per project
+const MAX_TOTALS = 10;
+
+function presetRange(preset: FocusPreset): { from: string; to: string } {
+  const today = new Date();
+  switch (preset) {
+    case 'past_year':
+      return { from: toDateString(addDays(addYears(today, -1), 1)), to: toDateString(today) };
+    case 'this_year':
+      return { from: toDateString(startOfYear(today)), to: toDateString(endOfYear(today)) };
+    case 'last_year': {
+      const year = addYears(today, -1);
+      return { from: toDateString(startOfYear(year)), to: toDateString(endOfYear(year)) };
+    }
+  }
+}
+
+// Shade of a heatmap day: by its completed sessions against the daily goal, or against
+// the busiest day without a goal
+function heatLevel(day: PomodoroDayStats, scale: number): number {
+  if (day.work_sessions_completed === 0 || scale <= 0) return 0;
+  return Math.min(4, Math.ceil((day.work_sessions_completed / scale) * 4));
+}
+
+const HEAT_CLASSES = [
+  'bg-gray-100 dark:bg-gray-700',
+  'bg-primary-200 dark:bg-primary-900',
+  'bg-primary-400 dark:bg-primary-700',
+  'bg-primary-600 dark:bg-primary-500',
+  'bg-primary-800 dark:bg-primary-300',
+];
+
+interface FocusHeatmapProps {
+  stats: PomodoroRangeStats;
+}
+
+// A column per week, Monday on top, with the completed sessions of each day
+function FocusHeatmap({ stats }: FocusHeatmapProps) {
+  const scale = stats.daily_goal > 0 ? stats.daily_goal : Math.max(0, ...stats.days.map(d => d.work_sessions_completed));
+  const byDate = new Map(stats.days.map(day => [day.date, day]));
+
+  const weeks: { monday: string; days: (PomodoroDayStats | null)[] }[] = [];
+  const last = parseISO(stats.to);
+  for (let monday = startOfWeek(parseISO(stats.from), { weekStartsOn: 1 }); monday <= last; monday = addDays(monday, 7)) {
+    weeks.push({
+      monday: toDateString(monday),
+      days: Array.from({ length: 7 }, (_, i) => byDate.get(toDateString(addDays(monday, i))) ?? null),
+    });
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-[3px]">
+        {weeks.map(week => (
+          <div key={week.monday} className="flex flex-col gap-[3px]">
+            {week.days.map((day, i) =>
+              day ? (
+                <div
+                  key={day.date}
+                  className={twMerge(
+                    clsx(
+                      'w-3 h-3 rounded-sm',
+                      HEAT_CLASSES[heatLevel(day, scale)],
+                      day.goal_met && 'ring-1 ring-amber-400'
+                    )
+                  )}
+                  title={`${format(parseISO(day.date), 'EEE, MMM d, yyyy')}: ${day.work_sessions_completed} completed` +
+                    (day.work_sessions_interrupted > 0 ? `, ${day.work_sessions_interrupted} stopped` : '') +
+                    (day.work_time_us > 0 ? `, ${formatHours(day.work_time_us)}` : '')}
+                />
+              ) : (
+                <div key={i} className="w-3 h-3" />
+              )
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+        Less
+        {HEAT_CLASSES.map(heat => (
+          <span key={heat} className={clsx('w-3 h-3 rounded-sm', heat)} />
+        ))}
+        More
+        {stats.daily_goal > 0 && (
+          <span className="ml-3 flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm ring-1 ring-amber-400" />
+            Daily goal of {stats.daily_goal} met
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface StatCardProps {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+function StatCard({ icon, label, value, detail }: StatCardProps) {
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        {icon}
+        {label}
+      </div>
+      <div className="mt-1 text-2xl font-semibold tabular-nums text-gray-900 dark:text-gray-100">{value}</div>
+      {detail && <div className="text-xs text-gray-500 dark:text-gray-400">{detail}</div>}
+    </div>
+  );
+}
+
+interface FocusTotalsProps {
+  title: string;
+  totals: PomodoroFocusTotal[];
+}
+
+// The tasks or projects with the most focus, with their share of the first
+function FocusTotals({ title, totals }: FocusTotalsProps) {
+  const largest = totals[0]?.work_time_us ?? 0;
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <h2 className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-gray-100 border-b border-gray-200 dark:border-gray-700">
+        {title}
+      </h2>
+      {totals.length === 0 ? (
+        <p className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">No focus in this range.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {totals.slice(0, MAX_TOTALS).map(total => (
+              <tr key={total.id ?? 'none'} className="border-b last:border-b-0 border-gray-100 dark:border-gray-700/60">
+                <td className="px-3 py-2">
+                  <div className="text-gray-900 dark:text-gray-100">{total.name}</div>
+                  {total.project_name && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{total.project_name}</div>
+                  )}
+                </td>
+                <td className="px-3 py-2 w-1/3">
+                  <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700">
+                    <div
+                      className="h-2 rounded-full bg-primary-500"
+                      style={{ width: `${largest > 0 ? (total.work_time_us / largest) * 100 : 0}%` }}
+                    />
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums text-gray-900 dark:text-gray-100">
+                  {formatHours(total.work_time_us)}
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums text-gray-600 dark:text-gray-400">
+                  {total.work_sessions_completed}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Pomodoro history over a year: a heatmap of completed work sessions, streaks of days
+ * the daily goal was met, how often sessions were stopped, the hours of day with the
+ * most focus, and focus per task and project.
+ */
+export function FocusView() {
+  const [preset, setPreset] = useState<FocusPreset>('past_year');
+  const [stats, setStats] = useState<PomodoroRangeStats | null>(null);
+  const [streaks, setStreaks] = useState<PomodoroStreaks | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const tz = localTimeZone();
+    setLoading(true);
+    setError(null);
+    Promise.all([api.pomodoro.getRangeStats({ ...presetRange(preset), tz }), api.pomodoro.getStreaks(tz)])
+      .then(([loadedStats, loadedStreaks]) => {
+        if (cancelled) return;
+        setStats(loadedStats);
+        setStreaks(loadedStreaks);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load focus stats');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [preset]);
+
+  const finished = stats ? stats.work_sessions_completed + stats.work_sessions_interrupted : 0;
+  const busiestHour = stats?.hours.reduce((best, hour) => (hour.work_time_us > best.work_time_us ? hour : best), stats.hours[0]);
+  const bestHours = stats
+    ? [...stats.hours]
+        .filter(hour => hour.work_sessions_completed > 0)
+        .sort((a, b) => b.work_sessions_completed - a.work_sessions_completed || b.work_time_us - a.work_time_us)
+        .slice(0, 3)
+    : [];
+  const hourLabel = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex-shrink-0 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-100 dark:bg-primary-900/30 flex items-center justify-center">
+              <Target className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">Focus</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {stats
+                  ? `${stats.work_sessions_completed} pomodoro${stats.work_sessions_completed !== 1 ? 's' : ''} completed, ${formatHours(stats.work_time_us)} of focus`
+                  : 'Your pomodoro history'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {PRESETS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setPreset(option.value)}
+                aria-pressed={preset === option.value}
+                className={twMerge(
+                  clsx(
+                    'px-3 py-1.5 rounded-full text-sm font-medium transition-colors',
+                    preset === option.value
+                      ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
+                      : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
+                  )
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="flex-1 overflow-auto p-4">
+        {loading && !stats ? (
+          <div className="flex items-center justify-center h-full min-h-[400px]">
+            <Loader2 className="w-8 h-8 text-primary-500 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="max-w-md mx-auto mt-12 p-6 bg-red-50 dark:bg-red-900/20 rounded-lg text-center">
+            <p className="text-red-600 dark:text-red-400 mb-2">Error loading focus stats</p>
+            <p className="text-sm text-red-500 dark:text-red-300">{error}</p>
+          </div>
+        ) : stats && streaks && (
+          <div className={clsx('space-y-4 transition-opacity', loading && 'opacity-60')}>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard
+                icon={<Flame className="w-4 h-4 text-orange-500" />}
+                label="Current streak"
+                value={`${streaks.current_streak} day${streaks.current_streak !== 1 ? 's' : ''}`}
+                detail={streaks.daily_goal > 0 ? `Days with ${streaks.daily_goal} or more pomodoros` : 'Set a daily goal to keep streaks'}
+              />
+              <StatCard
+                icon={<Trophy className="w-4 h-4 text-amber-500" />}
+                label="Longest streak"
+                value={`${streaks.longest_streak} day${streaks.longest_streak !== 1 ? 's' : ''}`}
+                detail={streaks.longest_streak_end ? `Until ${format(parseISO(streaks.longest_streak_end), 'MMM d, yyyy')}` : undefined}
+              />
+              <StatCard
+                icon={<Clock className="w-4 h-4 text-primary-500" />}
+                label="Focus time"
+                value={formatHours(stats.work_time_us)}
+                detail={stats.daily_goal > 0 ? `Goal met on ${stats.days_goal_met} day${stats.days_goal_met !== 1 ? 's' : ''}` : undefined}
+              />
+              <StatCard
+                icon={<ZapOff className="w-4 h-4 text-red-500" />}
+                label="Interruption rate"
+                value={finished > 0 ? `${Math.round(stats.interruption_rate * 100)}%` : '-'}
+                detail={`${stats.work_sessions_interrupted} of ${finished} session${finished !== 1 ? 's' : ''} stopped`}
+              />
+            </div>
+
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h2 className="mb-3 text-sm font-medium text-gray-900 dark:text-gray-100">Completed pomodoros</h2>
+              <FocusHeatmap stats={stats} />
+            </div>
+
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Best hours</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {bestHours.length > 0
+                  ? `Most pomodoros were completed when started at ${bestHours.map(h => hourLabel(h.hour)).join(', ')}`
+                  : 'No pomodoros completed in this range'}
+              </p>
+              <div className="mt-3 flex items-end gap-1 h-32">
+                {stats.hours.map(hour => (
+                  <div key={hour.hour} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+                    <div
+                      className={clsx(
+                        'w-full rounded-t',
+                        bestHours.some(h => h.hour === hour.hour) ? 'bg-primary-600' : 'bg-primary-300 dark:bg-primary-800'
+                      )}
+                      style={{
+                        height: `${busiestHour && busiestHour.work_time_us > 0 ? (hour.work_time_us / busiestHour.work_time_us) * 100 : 0}%`,
+                      }}
+                      title={`${hourLabel(hour.hour)}: ${hour.work_sessions_completed} completed, ${hour.work_sessions_interrupted} stopped, ${formatHours(hour.work_time_us)}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-1 flex gap-1 text-[10px] text-gray-500 dark:text-gray-400">
+                {stats.hours.map(hour => (
+                  <div key={hour.hour} className="flex-1 text-center">
+                    {hour.hour % 3 === 0 ? hour.hour : ''}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <FocusTotals title="Tasks" totals={stats.tasks} />
+              <FocusTotals title="Projects" totals={stats.projects} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default FocusView;
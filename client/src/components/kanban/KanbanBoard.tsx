@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import {
   DndContext,
   DragOverlay,
@@ -15,27 +15,100 @@ import {
 } from '@dnd-kit/core';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { Settings2 } from 'lucide-react';
 import { useTasks } from '../../context/TaskContext';
 import { useApp } from '../../context/AppContext';
-import type { Task, TaskStatus } from '../../types';
-import { STATUS_CONFIG } from '../../types';
-import KanbanColumn from './KanbanColumn';
+import { useStatuses } from '../../context/StatusContext';
+import { useSavedViews } from '../../context/SavedViewContext';
+import { useCustomFields } from '../../context/CustomFieldContext';
+import { usePeople } from '../../context/PeopleContext';
+import { useTags } from '../../context/TagContext';
+import { useToast } from '../../context/ToastContext';
+import { getCustomFieldValues } from '../../services/api';
+import type { Task, TaskStatus, SavedView, SavedViewSettings } from '../../types';
+import { groupTasksIntoSwimlanes } from '../../utils/swimlanes';
+import { compareByRank, getRankNeighbours } from '../../utils/taskRank';
+import KanbanColumn, { KanbanColumnHeader, isOverWipLimit } from './KanbanColumn';
+import KanbanToolbar from './KanbanToolbar';
 import TaskCard from './TaskCard';
 
-// Column configuration
-const columns: Array<{ id: TaskStatus; title: string; color: string }> = [
-  { id: 'backlog', title: 'Backlog', color: '#6b7280' },
-  { id: 'todo', title: 'To Do', color: '#3b82f6' },
-  { id: 'in_progress', title: 'In Progress', color: '#f59e0b' },
-  { id: 'review', title: 'Review', color: '#8b5cf6' },
-  { id: 'done', title: 'Done', color: '#10b981' },
-];
+// Column width when the board is split into swimlanes, so cells line up with the header row
+const LANE_COLUMN_CLASS = 'w-[300px] min-w-[300px] max-w-[300px] flex-shrink-0';
 
 export const KanbanBoard: React.FC = () => {
-  const { filteredTasks, updateTaskStatus, deleteTask } = useTasks();
-  const { openTaskModal, openSubTaskModal } = useApp();
+  const { tasks, filteredTasks, updateTaskStatus, reorderTask, deleteTask, setFilters } = useTasks();
+  const { currentProjectId, openTaskModal, openSubTaskModal, openStatusesModal } = useApp();
+  const { statuses, getStatus } = useStatuses();
+  const { savedViews, fetchSavedViews } = useSavedViews();
+  const { availableFields } = useCustomFields();
+  const { people } = usePeople();
+  const { tags } = useTags();
+  const toast = useToast();
   const [activeTask, setActiveTask] = useState<Task | null>(null);
   const [overColumnId, setOverColumnId] = useState<TaskStatus | null>(null);
+  const [settings, setSettings] = useState<SavedViewSettings>({});
+  const [activeView, setActiveView] = useState<SavedView | null>(null);
+  const [fieldValues, setFieldValues] = useState<Map<number, string | null>>(new Map());
+  const appliedDefaultFor = useRef<number | null | undefined>(undefined);
+
+  const projectId = currentProjectId ?? undefined;
+  const swimlaneBy = settings.swimlane_by ?? 'none';
+  const selectFields = useMemo(
+    () => availableFields.filter((field) => field.field_type === 'select'),
+    [availableFields]
+  );
+  const laneField = swimlaneBy === 'custom_field'
+    ? selectFields.find((field) => field.id === settings.swimlane_field_id)
+    : undefined;
+
+  // Load the board's saved views whenever the project changes
+  useEffect(() => {
+    fetchSavedViews(projectId, 'kanban');
+  }, [projectId, fetchSavedViews]);
+
+  const applyView = useCallback((view: SavedView) => {
+    setActiveView(view);
+    setSettings(view.settings ?? {});
+    setFilters(view.filters);
+  }, [setFilters]);
+
+  // Board layout belongs to the project; start clean when switching
+  useEffect(() => {
+    setSettings({});
+    setActiveView(null);
+  }, [currentProjectId]);
+
+  // Apply the default Kanban view once per project
+  useEffect(() => {
+    if (appliedDefaultFor.current === currentProjectId) return;
+    const defaultView = savedViews.find(
+      (view) => view.view_type === 'kanban' && view.is_default &&
+        (!view.project_id || view.project_id === currentProjectId)
+    );
+    if (defaultView) {
+      appliedDefaultFor.current = currentProjectId;
+      applyView(defaultView);
+    }
+  }, [savedViews, currentProjectId, applyView]);
+
+  // Custom field lanes need every task's value for the chosen field
+  useEffect(() => {
+    if (!laneField) {
+      setFieldValues(new Map());
+      return;
+    }
+    let cancelled = false;
+    getCustomFieldValues(laneField.id, projectId)
+      .then((values) => {
+        if (!cancelled) {
+          setFieldValues(new Map(values.map((v) => [v.task_id, v.value])));
+        }
+      })
+      .catch((error) => console.error('Failed to load custom field values:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [laneField, projectId, tasks]);
 
   // Configure sensors for drag interactions
   const sensors = useSensors(
@@ -47,22 +120,81 @@ export const KanbanBoard: React.FC = () => {
     useSensor(KeyboardSensor)
   );
 
+  // One column per status of the project's workflow, plus any status a task still
+  // uses that the workflow doesn't define so those tasks stay visible
+  const columns = useMemo(() => {
+    const result: Array<{ id: TaskStatus; title: string; color: string }> = statuses.map((status) => ({
+      id: status.key,
+      title: status.name,
+      color: status.color,
+    }));
+    filteredTasks.forEach((task) => {
+      if (!result.some((col) => col.id === task.status)) {
+        const status = getStatus(task.status);
+        result.push({ id: status.key, title: status.name, color: status.color });
+      }
+    });
+    return result;
+  }, [statuses, filteredTasks, getStatus]);
+
+  // Cards follow their manual order within each column
+  const rankedTasks = useMemo(() => [...filteredTasks].sort(compareByRank), [filteredTasks]);
+
   // Group tasks by status
   const tasksByStatus = useMemo(() => {
-    const grouped: Record<TaskStatus, Task[]> = {
-      backlog: [],
-      todo: [],
-      in_progress: [],
-      review: [],
-      done: [],
-    };
+    const grouped: Record<TaskStatus, Task[]> = {};
+    columns.forEach((col) => {
+      grouped[col.id] = [];
+    });
 
-    filteredTasks.forEach((task) => {
+    rankedTasks.forEach((task) => {
       grouped[task.status].push(task);
     });
 
     return grouped;
-  }, [filteredTasks]);
+  }, [columns, rankedTasks]);
+
+  // WIP limits count every task in a status, including ones hidden by filters
+  const wipCounts = useMemo(() => {
+    const counts: Record<TaskStatus, number> = {};
+    tasks.forEach((task) => {
+      counts[task.status] = (counts[task.status] ?? 0) + 1;
+    });
+    return counts;
+  }, [tasks]);
+
+  const swimlanes = useMemo(() => {
+    if (swimlaneBy === 'none' || (swimlaneBy === 'custom_field' && !laneField)) {
+      return null;
+    }
+    return groupTasksIntoSwimlanes(rankedTasks, swimlaneBy, {
+      people,
+      tags,
+      allTasks: tasks,
+      field: laneField,
+      fieldValues,
+    });
+  }, [swimlaneBy, laneField, rankedTasks, people, tags, tasks, fieldValues]);
+
+  // Status a drop target stands for: a column (or lane cell) or the task under the pointer
+  const getDropStatus = (over: DragOverEvent['over']): TaskStatus | null => {
+    if (!over) return null;
+    if (over.data.current?.type === 'column') {
+      return over.data.current.status as TaskStatus;
+    }
+    const overTask = filteredTasks.find((t) => t.id === over.id);
+    return overTask ? overTask.status : null;
+  };
+
+  // Cards of the column (or lane cell) a drop lands in, in rank order
+  const getDropColumnTasks = (over: NonNullable<DragOverEvent['over']>, status: TaskStatus): Task[] => {
+    if (!swimlanes) return tasksByStatus[status] ?? [];
+    const laneKey = over.data.current?.type === 'column' ? over.data.current.lane : undefined;
+    const lane = swimlanes.find((l) =>
+      laneKey !== undefined ? l.key === laneKey : l.tasks.some((t) => t.id === over.id)
+    );
+    return (lane?.tasks ?? []).filter((t) => t.status === status);
+  };
 
   // Handle drag start - store the active task
   const handleDragStart = (event: DragStartEvent) => {
@@ -75,24 +207,10 @@ export const KanbanBoard: React.FC = () => {
 
   // Handle drag over - update visual indicator for drop target
   const handleDragOver = (event: DragOverEvent) => {
-    const { over } = event;
-    if (over) {
-      const overId = over.id as TaskStatus;
-      if (columns.some((col) => col.id === overId)) {
-        setOverColumnId(overId);
-      } else {
-        // If over a task, find its parent column
-        const overTask = filteredTasks.find((t) => t.id === over.id);
-        if (overTask) {
-          setOverColumnId(overTask.status);
-        }
-      }
-    } else {
-      setOverColumnId(null);
-    }
+    setOverColumnId(getDropStatus(event.over));
   };
 
-  // Handle drag end - update task status
+  // Handle drag end - update task status and position
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
 
@@ -102,29 +220,45 @@ export const KanbanBoard: React.FC = () => {
     if (!over) return;
 
     const taskId = active.id as number;
-    let newStatus: TaskStatus | null = null;
-
-    // Check if dropped on a column
-    const targetColumn = columns.find((col) => col.id === over.id);
-    if (targetColumn) {
-      newStatus = targetColumn.id;
-    } else {
-      // Check if dropped on a task
-      const targetTask = filteredTasks.find((t) => t.id === over.id);
-      if (targetTask) {
-        newStatus = targetTask.status;
-      }
+    const newStatus = getDropStatus(over);
+    const currentTask = filteredTasks.find((t) => t.id === taskId);
+    if (!newStatus || !currentTask) return;
+
+    // Dropped on a card: take its place. Dropped on empty column space: go last.
+    const column = getDropColumnTasks(over, newStatus);
+    const overIndex = column.findIndex((t) => t.id === over.id);
+    const { previous, next } = getRankNeighbours(column, taskId, overIndex >= 0 ? overIndex : column.length);
+    const currentIndex = column.findIndex((t) => t.id === taskId);
+    if (currentIndex >= 0) {
+      const current = getRankNeighbours(column, taskId, currentIndex);
+      if (current.previous?.id === previous?.id && current.next?.id === next?.id) return;
     }
 
-    // Update status if changed
-    const currentTask = filteredTasks.find((t) => t.id === taskId);
-    if (newStatus && currentTask && currentTask.status !== newStatus) {
+    // Update status if changed. Moving across lanes only changes the status; the
+    // lane follows from the task's own assignee, priority, tags, ...
+    if (currentTask.status !== newStatus) {
+      const wipLimit = settings.wip_limits?.[newStatus];
+      const newCount = (wipCounts[newStatus] ?? 0) + 1;
+      if (isOverWipLimit(newCount, wipLimit)) {
+        const column = columns.find((col) => col.id === newStatus);
+        toast.warning(
+          `${column?.title ?? newStatus} is over its WIP limit`,
+          `${newCount} tasks, limit ${wipLimit}.`
+        );
+      }
       try {
         await updateTaskStatus(taskId, newStatus);
       } catch (error) {
         console.error('Failed to update task status:', error);
+        return;
       }
     }
+
+    try {
+      await reorderTask(taskId, previous?.id ?? null, next?.id ?? null);
+    } catch (error) {
+      console.error('Failed to reorder task:', error);
+    }
   };
 
   // Handle task click to open edit modal
@@ -137,7 +271,7 @@ export const KanbanBoard: React.FC = () => {
   };
 
   const handleDeleteTask = async (task: Task) => {
-    const shouldDelete = window.confirm(`Delete task "${task.title}"? This cannot be undone.`);
+    const shouldDelete = window.confirm(`Delete task "${task.title}" and its subtasks?`);
     if (!shouldDelete) {
       return;
     }
@@ -149,8 +283,35 @@ export const KanbanBoard: React.FC = () => {
     }
   };
 
+  const workflowButton = (
+    <button
+      type="button"
+      onClick={openStatusesModal}
+      className={clsx(
+        'flex flex-col items-center justify-center gap-2 min-w-[160px] rounded-xl',
+        'border-2 border-dashed border-gray-200 dark:border-gray-700',
+        'text-sm text-gray-500 dark:text-gray-400',
+        'hover:border-primary-300 hover:text-primary-600 dark:hover:border-primary-700 dark:hover:text-primary-400',
+        'transition-colors duration-200'
+      )}
+    >
+      <Settings2 className="w-5 h-5" />
+      Edit workflow
+    </button>
+  );
+
   return (
-    <div className="h-full w-full overflow-hidden">
+    <div className="h-full w-full flex flex-col overflow-hidden">
+      <KanbanToolbar
+        settings={settings}
+        onSettingsChange={setSettings}
+        columns={columns}
+        selectFields={selectFields}
+        projectId={projectId}
+        activeView={activeView}
+        onApplyView={applyView}
+      />
+
       <DndContext
         sensors={sensors}
         collisionDetection={closestCorners}
@@ -158,32 +319,110 @@ export const KanbanBoard: React.FC = () => {
         onDragOver={handleDragOver}
         onDragEnd={handleDragEnd}
       >
-        <div
-          className={twMerge(
-            clsx(
-              'flex gap-4 h-full p-4',
-              'overflow-x-auto overflow-y-hidden',
-              // Scrollbar styling
-              'scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600',
-              'scrollbar-track-transparent'
-            )
-          )}
-          role="grid"
-          aria-label="Kanban board"
-        >
-          {columns.map((column) => (
-            <KanbanColumn
-              key={column.id}
-              id={column.id}
-              title={column.title}
-              tasks={tasksByStatus[column.id]}
-              projectColor={column.color}
-              onTaskClick={handleTaskClick}
-              onCreateSubTask={handleCreateSubTask}
-              onDeleteTask={handleDeleteTask}
-            />
-          ))}
-        </div>
+        {swimlanes ? (
+          <div
+            className={twMerge(
+              clsx(
+                'flex-1 min-h-0 p-4 overflow-auto',
+                // Scrollbar styling
+                'scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600',
+                'scrollbar-track-transparent'
+              )
+            )}
+            role="grid"
+            aria-label="Kanban board with swimlanes"
+          >
+            <div className="inline-flex flex-col gap-4 min-w-full">
+              {/* Column headers, shared by all lanes */}
+              <div className="flex gap-4 sticky top-0 z-10">
+                {columns.map((column) => (
+                  <KanbanColumnHeader
+                    key={column.id}
+                    title={column.title}
+                    count={wipCounts[column.id] ?? 0}
+                    wipLimit={settings.wip_limits?.[column.id]}
+                    projectColor={column.color}
+                    className={clsx(LANE_COLUMN_CLASS, 'rounded-xl border')}
+                  />
+                ))}
+                {workflowButton}
+              </div>
+
+              {swimlanes.map((lane) => (
+                <section key={lane.key} aria-label={`${lane.label} swimlane`}>
+                  {/* Lane header */}
+                  <div className="flex items-center gap-2 mb-2 px-1">
+                    {lane.color && (
+                      <span
+                        className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: lane.color }}
+                        aria-hidden="true"
+                      />
+                    )}
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      {lane.label}
+                    </h3>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {lane.tasks.length}
+                    </span>
+                  </div>
+                  <div className="flex gap-4">
+                    {columns.map((column) => (
+                      <KanbanColumn
+                        key={column.id}
+                        id={column.id}
+                        title={`${lane.label} / ${column.title}`}
+                        tasks={lane.tasks.filter((task) => task.status === column.id)}
+                        projectColor={column.color}
+                        droppableId={`${lane.key}::${column.id}`}
+                        laneKey={lane.key}
+                        showHeader={false}
+                        wipLimit={settings.wip_limits?.[column.id]}
+                        wipCount={wipCounts[column.id] ?? 0}
+                        className={LANE_COLUMN_CLASS}
+                        onTaskClick={handleTaskClick}
+                        onCreateSubTask={handleCreateSubTask}
+                        onDeleteTask={handleDeleteTask}
+                      />
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div
+            className={twMerge(
+              clsx(
+                'flex gap-4 flex-1 min-h-0 p-4',
+                'overflow-x-auto overflow-y-hidden',
+                // Scrollbar styling
+                'scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600',
+                'scrollbar-track-transparent'
+              )
+            )}
+            role="grid"
+            aria-label="Kanban board"
+          >
+            {columns.map((column) => (
+              <KanbanColumn
+                key={column.id}
+                id={column.id}
+                title={column.title}
+                tasks={tasksByStatus[column.id]}
+                projectColor={column.color}
+                wipLimit={settings.wip_limits?.[column.id]}
+                wipCount={wipCounts[column.id] ?? 0}
+                onTaskClick={handleTaskClick}
+                onCreateSubTask={handleCreateSubTask}
+                onDeleteTask={handleDeleteTask}
+              />
+            ))}
+
+            {/* Workflow settings */}
+            {workflowButton}
+          </div>
+        )}
 
         {/* Drag Overlay - Shows preview of dragged item */}
         <DragOverlay>
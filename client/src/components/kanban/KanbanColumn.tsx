@@ -6,37 +6,122 @@ import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import type { Task, TaskStatus } from '../../types';
-import { STATUS_CONFIG } from '../../types';
 import TaskCard from './TaskCard';
 
+interface KanbanColumnHeaderProps {
+  title: string;
+  count: number;
+  wipLimit?: number;
+  projectColor?: string;
+  className?: string;
+}
+
 interface KanbanColumnProps {
   id: TaskStatus;
   title: string;
   tasks: Task[];
   projectColor?: string;
+  droppableId?: string; // unique per swimlane cell; defaults to the status
+  laneKey?: string;
+  showHeader?: boolean;
+  wipLimit?: number;
+  wipCount?: number; // tasks counted against the limit, across all swimlanes
+  className?: string;
   onTaskClick?: (task: Task) => void;
   onCreateSubTask?: (parentTaskId: number) => void;
   onDeleteTask?: (task: Task) => void;
 }
 
+// A column is over its WIP limit when it holds more tasks than the limit allows
+export const isOverWipLimit = (count: number, wipLimit?: number): boolean =>
+  wipLimit !== undefined && wipLimit > 0 && count > wipLimit;
+
+export const KanbanColumnHeader: React.FC<KanbanColumnHeaderProps> = ({
+  title,
+  count,
+  wipLimit,
+  projectColor,
+  className,
+}) => {
+  const hasLimit = wipLimit !== undefined && wipLimit > 0;
+  const overLimit = isOverWipLimit(count, wipLimit);
+
+  return (
+    <div
+      className={twMerge(
+        clsx(
+          'px-4 py-3',
+          'bg-gray-50/95 dark:bg-gray-800/95 backdrop-blur-sm',
+          'border-b border-gray-200 dark:border-gray-700',
+          overLimit && 'bg-red-50/95 dark:bg-red-900/30 border-red-300 dark:border-red-700',
+          className
+        )
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {/* Status indicator dot */}
+          <span
+            className="w-3 h-3 rounded-full flex-shrink-0"
+            style={{ backgroundColor: projectColor }}
+            aria-hidden="true"
+          />
+          <h2
+            className={clsx(
+              'text-sm font-semibold',
+              overLimit ? 'text-red-700 dark:text-red-300' : 'text-gray-900 dark:text-gray-100'
+            )}
+          >
+            {title}
+          </h2>
+        </div>
+        {/* Task count badge, with the WIP limit when one is set */}
+        <span
+          className={clsx(
+            'inline-flex items-center justify-center',
+            'min-w-[24px] h-6 px-2',
+            'text-xs font-medium rounded-full',
+            overLimit
+              ? 'bg-red-500 text-white'
+              : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          )}
+          title={hasLimit ? `WIP limit: ${wipLimit}` : undefined}
+        >
+          {hasLimit ? `${count} / ${wipLimit}` : count}
+        </span>
+      </div>
+    </div>
+  );
+};
+
 export const KanbanColumn: React.FC<KanbanColumnProps> = ({
   id,
   title,
   tasks,
   projectColor,
+  droppableId,
+  laneKey,
+  showHeader = true,
+  wipLimit,
+  wipCount,
+  className,
   onTaskClick,
   onCreateSubTask,
   onDeleteTask,
 }) => {
   const { setNodeRef, isOver } = useDroppable({
-    id,
+    id: droppableId ?? id,
     data: {
       type: 'column',
       status: id,
+      lane: laneKey,
     },
   });
 
-  const statusConfig = STATUS_CONFIG[id];
+  // Dropping here would add one more task to a column already at its limit
+  const count = wipCount ?? tasks.length;
+  const dropExceedsLimit = isOver && isOverWipLimit(count + 1, wipLimit);
+
   const taskIds = tasks.map((task) => task.id);
 
   // Create a subtle background color based on project color
@@ -57,7 +142,9 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
           'bg-gray-50 dark:bg-gray-800/50',
           'border border-gray-200 dark:border-gray-700',
           'transition-colors duration-200',
-          isOver && 'bg-primary-50 dark:bg-primary-900/20 border-primary-300 dark:border-primary-700'
+          isOver && 'bg-primary-50 dark:bg-primary-900/20 border-primary-300 dark:border-primary-700',
+          dropExceedsLimit && 'bg-red-50 dark:bg-red-900/20 border-red-400 dark:border-red-700',
+          className
         )
       )}
       style={getColumnStyle()}
@@ -65,45 +152,22 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
       aria-label={`${title} column with ${tasks.length} tasks`}
     >
       {/* Column Header - Sticky */}
-      <div
-        className={clsx(
-          'sticky top-0 z-10 px-4 py-3 rounded-t-xl',
-          'bg-gray-50/95 dark:bg-gray-800/95 backdrop-blur-sm',
-          'border-b border-gray-200 dark:border-gray-700'
-        )}
-      >
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            {/* Status indicator dot */}
-            <span
-              className="w-3 h-3 rounded-full flex-shrink-0"
-              style={{ backgroundColor: statusConfig.color }}
-              aria-hidden="true"
-            />
-            <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-              {title}
-            </h2>
-          </div>
-          {/* Task count badge */}
-          <span
-            className={clsx(
-              'inline-flex items-center justify-center',
-              'min-w-[24px] h-6 px-2',
-              'text-xs font-medium rounded-full',
-              'bg-gray-200 dark:bg-gray-700',
-              'text-gray-700 dark:text-gray-300'
-            )}
-          >
-            {tasks.length}
-          </span>
-        </div>
-      </div>
+      {showHeader && (
+        <KanbanColumnHeader
+          title={title}
+          count={count}
+          wipLimit={wipLimit}
+          projectColor={projectColor}
+          className="sticky top-0 z-10 rounded-t-xl"
+        />
+      )}
 
       {/* Tasks Container - Droppable area */}
       <div
         ref={setNodeRef}
         className={clsx(
-          'flex-1 p-2 min-h-[200px]',
+          'flex-1 p-2',
+          showHeader ? 'min-h-[200px]' : 'min-h-[96px]',
           'overflow-y-auto',
           // Scrollbar styling
           'scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600',
@@ -133,9 +197,11 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
             )}
           >
             <p className="text-sm">No tasks</p>
-            <p className="text-xs mt-1 opacity-75">
-              Drag tasks here to add them
-            </p>
+            {showHeader && (
+              <p className="text-xs mt-1 opacity-75">
+                Drag tasks here to add them
+              </p>
+            )}
           </div>
         )}
       </div>
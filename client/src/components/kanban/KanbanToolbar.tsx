@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Rows3, Gauge, Save, Search, X } from 'lucide-react';
+import type { CustomField, SavedView, SavedViewSettings, SwimlaneGroupBy, TaskStatus } from '../../types';
+import { SWIMLANE_GROUP_CONFIG } from '../../types';
+import { useSavedViews } from '../../context/SavedViewContext';
+import { useTasks } from '../../context/TaskContext';
+import { useToast } from '../../context/ToastContext';
+import { FormSelect } from '../common/FormFields';
+import { Button } from '../common/Button';
+import SavedViewsDropdown from '../common/SavedViewsDropdown';
+import SaveViewModal from '../common/SaveViewModal';
+
+interface KanbanToolbarProps {
+  settings: SavedViewSettings;
+  onSettingsChange: (settings: SavedViewSettings) => void;
+  columns: Array<{ id: TaskStatus; title: string; color: string }>;
+  selectFields: CustomField[];
+  projectId?: number;
+  activeView: SavedView | null;
+  onApplyView: (view: SavedView) => void;
+}
+
+const FIELD_PREFIX = 'custom_field:';
+
+// Custom fields get one option each, so "custom_field" itself isn't offered
+const GROUP_OPTIONS = (Object.keys(SWIMLANE_GROUP_CONFIG) as SwimlaneGroupBy[])
+  .filter(groupBy => groupBy !== 'custom_field')
+  .map(groupBy => ({ value: groupBy, label: SWIMLANE_GROUP_CONFIG[groupBy].label }));
+
+// Settings compare equal when they'd lay out the board the same way
+function sameSettings(a: SavedViewSettings, b: SavedViewSettings): boolean {
+  const limits = (s: SavedViewSettings) =>
+    JSON.stringify(Object.entries(s.wip_limits ?? {}).filter(([, limit]) => limit > 0).sort());
+  const lanes = (s: SavedViewSettings) =>
+    `${s.swimlane_by ?? 'none'}:${s.swimlane_by === 'custom_field' ? s.swimlane_field_id ?? '' : ''}`;
+  return limits(a) === limits(b) && lanes(a) === lanes(b);
+}
+
+/**
+ * Board controls: swimlane grouping, per-column WIP limits and saved views.
+ */
+export function KanbanToolbar({
+  settings,
+  onSettingsChange,
+  columns,
+  selectFields,
+  projectId,
+  activeView,
+  onApplyView,
+}: KanbanToolbarProps) {
+  const { savedViews, createSavedView, updateSavedView, deleteSavedView, setDefaultView } = useSavedViews();
+  const { filters, setFilters } = useTasks();
+  const toast = useToast();
+  const [showLimits, setShowLimits] = useState(false);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const limitsRef = useRef<HTMLDivElement>(null);
+
+  // Close the limits panel when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (limitsRef.current && !limitsRef.current.contains(event.target as Node)) {
+        setShowLimits(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const groupOptions = [
+    ...GROUP_OPTIONS,
+    ...selectFields.map(field => ({ value: `${FIELD_PREFIX}${field.id}`, label: field.name })),
+  ];
+  const groupValue = settings.swimlane_by === 'custom_field' && settings.swimlane_field_id
+    ? `${FIELD_PREFIX}${settings.swimlane_field_id}`
+    : settings.swimlane_by ?? 'none';
+
+  const handleGroupChange = (value: string) => {
+    if (value.startsWith(FIELD_PREFIX)) {
+      onSettingsChange({ ...settings, swimlane_by: 'custom_field', swimlane_field_id: value.slice(FIELD_PREFIX.length) });
+    } else {
+      onSettingsChange({ ...settings, swimlane_by: value as SwimlaneGroupBy, swimlane_field_id: null });
+    }
+  };
+
+  const handleLimitChange = (status: TaskStatus, value: string) => {
+    const limits = { ...settings.wip_limits };
+    const limit = parseInt(value, 10);
+    if (Number.isFinite(limit) && limit > 0) {
+      limits[status] = limit;
+    } else {
+      delete limits[status];
+    }
+    onSettingsChange({ ...settings, wip_limits: limits });
+  };
+
+  const limitCount = columns.filter(col => (settings.wip_limits?.[col.id] ?? 0) > 0).length;
+  const hasChanges = activeView !== null && !sameSettings(activeView.settings ?? {}, settings);
+
+  // Store the current layout in the view that was applied last
+  const handleUpdateView = async () => {
+    if (!activeView) return;
+    setIsUpdating(true);
+    try {
+      const updated = await updateSavedView(activeView.id, { settings, filters });
+      onApplyView(updated);
+      toast.success('View updated', `"${updated.name}" now uses this board layout.`);
+    } catch (err) {
+      toast.error('Failed to update view', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleSaveView = async (data: Parameters<typeof createSavedView>[0]) => {
+    const view = await createSavedView(data);
+    onApplyView(view);
+    return view;
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 pt-4">
+      {/* Swimlanes */}
+      <div className="flex items-center gap-2">
+        <Rows3 className="w-4 h-4 text-gray-500 dark:text-gray-400" aria-hidden="true" />
+        <FormSelect
+          value={groupValue}
+          options={groupOptions}
+          onChange={(e) => handleGroupChange(e.target.value)}
+          aria-label="Group swimlanes by"
+          className="w-48 py-1.5 text-sm"
+        />
+      </div>
+
+      {/* WIP limits */}
+      <div className="relative" ref={limitsRef}>
+        <Button
+          variant="secondary"
+          size="sm"
+          leftIcon={<Gauge className="w-4 h-4" />}
+          onClick={() => setShowLimits(open => !open)}
+          aria-expanded={showLimits}
+        >
+          WIP limits{limitCount > 0 ? ` (${limitCount})` : ''}
+        </Button>
+        {showLimits && (
+          <div className="absolute left-0 top-full mt-1 w-72 p-3 space-y-2 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-20">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Most tasks each column should hold. Leave empty for no limit.
+            </p>
+            {columns.map(column => (
+              <label key={column.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: column.color }} />
+                <span className="flex-1 truncate">{column.title}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.wip_limits?.[column.id] ?? ''}
+                  onChange={(e) => handleLimitChange(column.id, e.target.value)}
+                  placeholder="None"
+                  className="w-20 px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Task query applied from a saved view or the command palette */}
+      {filters.query && (
+        <span className="inline-flex items-center gap-1.5 max-w-xs px-2 py-1 rounded-md text-xs font-mono bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+          <Search className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+          <span className="truncate" title={filters.query}>{filters.query}</span>
+          <button
+            type="button"
+            onClick={() => setFilters({ ...filters, query: undefined })}
+            className="hover:text-primary-900 dark:hover:text-primary-100"
+            aria-label="Clear query"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      )}
+
+      {/* Saved views */}
+      <div className="flex items-center gap-2 ml-auto">
+        <SavedViewsDropdown
+          views={savedViews}
+          currentViewId={activeView?.id}
+          onSelect={onApplyView}
+          onDelete={(view) => deleteSavedView(view.id)}
+          onSetDefault={(view) => setDefaultView(view.id)}
+        />
+        {activeView && hasChanges && (
+          <Button variant="outline" size="sm" onClick={handleUpdateView} isLoading={isUpdating}>
+            Update &quot;{activeView.name}&quot;
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          size="sm"
+          leftIcon={<Save className="w-4 h-4" />}
+          onClick={() => setShowSaveModal(true)}
+        >
+          Save view
+        </Button>
+      </div>
+
+      {showSaveModal && (
+        <SaveViewModal
+          isOpen={showSaveModal}
+          onClose={() => setShowSaveModal(false)}
+          onSave={handleSaveView}
+          currentFilters={filters}
+          currentSettings={settings}
+          currentSortOrder="asc"
+          viewType="kanban"
+          projectId={projectId}
+        />
+      )}
+    </div>
+  );
+}
+
+export default KanbanToolbar;
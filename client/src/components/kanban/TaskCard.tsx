@@ -6,14 +6,17 @@ import { CSS } from '@dnd-kit/utilities';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { format } from 'date-fns';
-import { Calendar, Users, GitBranch, Plus, Clock, Play, Square, Timer } from 'lucide-react';
+import { Calendar, Users, GitBranch, Plus, Clock, Play, Square, Timer, Ban, Repeat } from 'lucide-react';
 import type { Task, TaskPriority } from '../../types';
 import { PriorityBadge, TagBadge } from '../common/Badge';
 import { MiniProgressBar } from '../common/ProgressBar';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
+import { useTasks } from '@/context/TaskContext';
+import { useStatuses } from '@/context/StatusContext';
 import { useTimeEntries } from '@/context/TimeEntryContext';
 import { usePomodoro } from '@/context/PomodoroContext';
 import { formatDurationUsCompact, formatTimerDisplayUs } from '@/utils/timeFormat';
+import { describeRecurrence } from '@/utils/recurrence';
 
 interface TaskCardProps {
   task: Task;
@@ -50,6 +53,9 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick, onCreateSubTa
     startSession,
   } = usePomodoro();
   
+  const { isTaskBlocked, getBlockingTasks } = useTasks();
+  const { isDoneStatus } = useStatuses();
+  
   const isRunning = isTaskTimerRunning(task.id);
   const runningTimer = getRunningTimerForTask(task.id);
   
@@ -202,6 +208,12 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick, onCreateSubTa
   
   // Check if task has parent (is a subtask)
   const isSubtask = task.parent_task_id !== undefined && task.parent_task_id !== null;
+  
+  // Check if task is waiting on unfinished dependencies
+  const isBlocked = !isDoneStatus(task.status) && isTaskBlocked(task.id);
+  const openBlockers = isBlocked
+    ? getBlockingTasks(task.id).filter(t => !isDoneStatus(t.status)).map(t => t.title)
+    : [];
 
   return (
     <>
@@ -260,11 +272,33 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick, onCreateSubTa
       {/* Card content */}
       <div className="pl-2">
 
-        {/* Subtask indicator */}
-        {isSubtask && (
-          <div className="flex items-center gap-1 mb-1 text-xs text-gray-400 dark:text-gray-500">
-            <GitBranch className="w-3 h-3" aria-hidden="true" />
-            <span>Subtask</span>
+        {/* Subtask, recurring and blocked indicators */}
+        {(isSubtask || isBlocked || task.recurrence) && (
+          <div className="flex items-center gap-2 mb-1">
+            {isSubtask && (
+              <div className="flex items-center gap-1 text-xs text-gray-400 dark:text-gray-500">
+                <GitBranch className="w-3 h-3" aria-hidden="true" />
+                <span>Subtask</span>
+              </div>
+            )}
+            {task.recurrence && (
+              <div
+                className="flex items-center gap-1 text-xs text-primary-600 dark:text-primary-400"
+                title={describeRecurrence(task.recurrence)}
+              >
+                <Repeat className="w-3 h-3" aria-hidden="true" />
+                <span>Recurring</span>
+              </div>
+            )}
+            {isBlocked && (
+              <div
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400"
+                title={`Blocked by ${openBlockers.join(', ')}`}
+              >
+                <Ban className="w-3 h-3" aria-hidden="true" />
+                <span>Blocked</span>
+              </div>
+            )}
           </div>
         )}
         
@@ -15,6 +15,9 @@ import {
   PanelLeft,
   Database,
   Palette,
+  Settings2,
+  Receipt,
+  Timer,
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
 import { useProjects } from '../../context/ProjectContext';
@@ -50,6 +53,9 @@ export function Header() {
     openSubProjectModal,
     openPersonModal,
     openImportExportModal,
+    openStatusesModal,
+    openBillingModal,
+    openTimeTrackingModal,
   } = useApp();
   const { currentProject } = useProjects();
   
@@ -172,6 +178,18 @@ export function Header() {
               <UserPlus className="w-4 h-4 mr-2" />
               New Person
             </DropdownMenuItem>
+            {currentProject && (
+              <DropdownMenuItem onSelect={() => openStatusesModal()}>
+                <Settings2 className="w-4 h-4 mr-2" />
+                Workflow Statuses
+              </DropdownMenuItem>
+            )}
+            {currentProject && (
+              <DropdownMenuItem onSelect={() => openBillingModal()}>
+                <Receipt className="w-4 h-4 mr-2" />
+                Billing & Invoices
+              </DropdownMenuItem>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem onSelect={toggleSidebar}>
               <PanelLeft className="w-4 h-4 mr-2" />
@@ -194,6 +212,10 @@ export function Header() {
                 </DropdownMenuRadioGroup>
               </DropdownMenuSubContent>
             </DropdownMenuSub>
+            <DropdownMenuItem onSelect={() => openTimeTrackingModal()}>
+              <Timer className="w-4 h-4 mr-2" />
+              Time Tracking
+            </DropdownMenuItem>
             <DropdownMenuItem onSelect={() => openImportExportModal()}>
               <Database className="w-4 h-4 mr-2" />
               Data Management
@@ -10,6 +10,10 @@ import { ProjectForm } from '../common/ProjectForm';
 import { TaskForm } from '../common/TaskForm';
 import { PersonForm } from '../common/PersonForm';
 import { ImportExportPanel } from '../common/ImportExportPanel';
+import { StatusManager } from '../common/StatusManager';
+import { BillingManager } from '../billing/BillingManager';
+import { TimeTrackingSettingsForm } from '../common/TimeTrackingSettingsForm';
+import { IdleTimePrompt, OverlapPrompt } from '../common/TimeTracker';
 import { useApp } from '../../context/AppContext';
 import { useProjects } from '../../context/ProjectContext';
 import { useTasks } from '../../context/TaskContext';
@@ -159,6 +163,39 @@ export function Layout({ children }: LayoutProps) {
       >
         <ImportExportPanel onClose={closeModal} />
       </Modal>
+
+      {/* Workflow Statuses Modal */}
+      <Modal
+        isOpen={modal.isOpen && modal.type === 'statuses'}
+        onClose={closeModal}
+        title={currentProject ? `Workflow Statuses · ${currentProject.name}` : 'Workflow Statuses'}
+        size="lg"
+      >
+        <StatusManager onClose={closeModal} />
+      </Modal>
+
+      {/* Billing Modal */}
+      <Modal
+        isOpen={modal.isOpen && modal.type === 'billing'}
+        onClose={closeModal}
+        title={currentProject ? `Billing · ${currentProject.name}` : 'Billing'}
+        size="full"
+      >
+        <BillingManager />
+      </Modal>
+
+      {/* Time Tracking Settings Modal */}
+      <Modal
+        isOpen={modal.isOpen && modal.type === 'timeTracking'}
+        onClose={closeModal}
+        title="Time Tracking"
+        size="md"
+      >
+        <TimeTrackingSettingsForm onClose={closeModal} />
+      </Modal>
+
+      <IdleTimePrompt />
+      <OverlapPrompt />
     </div>
   );
 }
@@ -14,6 +14,10 @@ import {
   ChevronRight,
   X,
   Users,
+  Trash2,
+  Clock,
+  BarChart3,
+  Target,
   Timer,
   Play,
   Pause,
@@ -94,7 +98,7 @@ export function Sidebar({ onAddProject }: SidebarProps) {
   };
 
   const handleDeleteProject = async (project: Project) => {
-    const shouldDelete = window.confirm(`Delete project "${project.name}"? This cannot be undone.`);
+    const shouldDelete = window.confirm(`Move project "${project.name}" with its subprojects and tasks to the Trash?`);
     if (!shouldDelete) {
       return;
     }
@@ -156,6 +160,42 @@ export function Sidebar({ onAddProject }: SidebarProps) {
     }
   };
 
+  // Handle timesheet view click
+  const handleTimesheetClick = () => {
+    router.push('/timesheet');
+    // Close sidebar on mobile
+    if (window.innerWidth < 1024) {
+      setSidebarOpen(false);
+    }
+  };
+
+  // Handle time reports view click
+  const handleReportsClick = () => {
+    router.push('/reports');
+    // Close sidebar on mobile
+    if (window.innerWidth < 1024) {
+      setSidebarOpen(false);
+    }
+  };
+
+  // Handle focus view click
+  const handleFocusClick = () => {
+    router.push('/focus');
+    // Close sidebar on mobile
+    if (window.innerWidth < 1024) {
+      setSidebarOpen(false);
+    }
+  };
+
+  // Handle trash view click
+  const handleTrashClick = () => {
+    router.push('/trash');
+    // Close sidebar on mobile
+    if (window.innerWidth < 1024) {
+      setSidebarOpen(false);
+    }
+  };
+
   // Close sidebar when clicking outside on mobile
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -175,6 +215,11 @@ export function Sidebar({ onAddProject }: SidebarProps) {
 
   // Check if we're on the people page
   const isPeoplePage = pathname?.startsWith('/people') ?? false;
+  const isTrashPage = pathname?.startsWith('/trash') ?? false;
+  const isTimesheetPage = pathname?.startsWith('/timesheet') ?? false;
+  const isReportsPage = pathname?.startsWith('/reports') ?? false;
+  const isFocusPage = pathname?.startsWith('/focus') ?? false;
+  const isProjectPage = !isPeoplePage && !isTrashPage && !isTimesheetPage && !isReportsPage && !isFocusPage;
 
   // Format remaining time for display
   const formatPomodoroTime = (us: number): string => {
@@ -228,7 +273,7 @@ export function Sidebar({ onAddProject }: SidebarProps) {
                 clsx(
                   'w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm font-medium',
                   'transition-colors duration-200',
-                  currentView === item.id && !isPeoplePage
+                  currentView === item.id && isProjectPage
                     ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
                     : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
                 )
@@ -262,6 +307,66 @@ export function Sidebar({ onAddProject }: SidebarProps) {
             <Users className="w-4 h-4" />
             People
           </button>
+          <button
+            onClick={handleTimesheetClick}
+            className={twMerge(
+              clsx(
+                'w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm font-medium',
+                'transition-colors duration-200',
+                isTimesheetPage
+                  ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
+                  : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+              )
+            )}
+          >
+            <Clock className="w-4 h-4" />
+            Timesheet
+          </button>
+          <button
+            onClick={handleReportsClick}
+            className={twMerge(
+              clsx(
+                'w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm font-medium',
+                'transition-colors duration-200',
+                isReportsPage
+                  ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
+                  : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+              )
+            )}
+          >
+            <BarChart3 className="w-4 h-4" />
+            Reports
+          </button>
+          <button
+            onClick={handleFocusClick}
+            className={twMerge(
+              clsx(
+                'w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm font-medium',
+                'transition-colors duration-200',
+                isFocusPage
+                  ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
+                  : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+              )
+            )}
+          >
+            <Target className="w-4 h-4" />
+            Focus
+          </button>
+          <button
+            onClick={handleTrashClick}
+            className={twMerge(
+              clsx(
+                'w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm font-medium',
+                'transition-colors duration-200',
+                isTrashPage
+                  ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
+                  : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+              )
+            )}
+          >
+            <Trash2 className="w-4 h-4" />
+            Trash
+          </button>
         </nav>
       </div>
 
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { Columns3, ChevronUp, ChevronDown, Check } from 'lucide-react';
+import type { CustomField } from '../../types';
+
+interface ColumnPickerProps {
+  fields: CustomField[]; // custom fields of the project
+  columns: string[]; // IDs of the fields shown as columns, in column order
+  onColumnsChange: (columns: string[]) => void;
+  groupBy: string | null; // field the rows are grouped by
+  onGroupByChange: (fieldId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Picks which custom fields the list shows as columns, their order, and the field rows are grouped by.
+ */
+export function ColumnPicker({
+  fields,
+  columns,
+  onColumnsChange,
+  groupBy,
+  onGroupByChange,
+  className,
+}: ColumnPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Shown columns first in column order, then the rest in field order
+  const ordered = [
+    ...columns.map(id => fields.find(f => f.id === id)).filter((f): f is CustomField => f !== undefined),
+    ...fields.filter(f => !columns.includes(f.id)),
+  ];
+
+  const toggleColumn = (fieldId: string) => {
+    onColumnsChange(columns.includes(fieldId) ? columns.filter(id => id !== fieldId) : [...columns, fieldId]);
+  };
+
+  const moveColumn = (fieldId: string, offset: -1 | 1) => {
+    const index = columns.indexOf(fieldId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    onColumnsChange(next);
+  };
+
+  return (
+    <div className={twMerge(clsx('relative', className))} ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className={clsx(
+          'flex items-center gap-1.5 px-2 py-1 rounded-md text-sm',
+          'text-gray-600 dark:text-gray-400',
+          'hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-800 dark:hover:text-gray-200',
+          (columns.length > 0 || groupBy) && 'text-primary-600 dark:text-primary-400'
+        )}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <Columns3 className="w-4 h-4" aria-hidden="true" />
+        Columns
+        {columns.length > 0 && (
+          <span className="px-1.5 rounded-full text-xs bg-primary-100 dark:bg-primary-900/40">{columns.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-30 right-0 top-full mt-1 w-64 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 py-2">
+          <p className="px-3 pb-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+            Custom field columns
+          </p>
+          {fields.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+              This project has no custom fields yet.
+            </p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto">
+              {ordered.map(field => {
+                const index = columns.indexOf(field.id);
+                const isShown = index !== -1;
+                return (
+                  <li key={field.id} className="flex items-center gap-1 px-3 py-1 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                    <button
+                      type="button"
+                      onClick={() => toggleColumn(field.id)}
+                      className="flex-1 flex items-center gap-2 min-w-0 text-left text-sm text-gray-700 dark:text-gray-300"
+                      role="menuitemcheckbox"
+                      aria-checked={isShown}
+                    >
+                      <span className={clsx(
+                        'w-4 h-4 flex-shrink-0 rounded border flex items-center justify-center',
+                        isShown ? 'bg-blue-600 border-blue-600' : 'border-gray-300 dark:border-gray-600'
+                      )}>
+                        {isShown && <Check className="w-3 h-3 text-white" aria-hidden="true" />}
+                      </span>
+                      <span className="truncate">{field.name}</span>
+                      <span className="text-xs text-gray-400 dark:text-gray-500">{field.field_type}</span>
+                    </button>
+                    {isShown && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => moveColumn(field.id, -1)}
+                          disabled={index === 0}
+                          className="p-0.5 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                          aria-label={`Move ${field.name} left`}
+                        >
+                          <ChevronUp className="w-4 h-4" aria-hidden="true" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveColumn(field.id, 1)}
+                          disabled={index === columns.length - 1}
+                          className="p-0.5 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                          aria-label={`Move ${field.name} right`}
+                        >
+                          <ChevronDown className="w-4 h-4" aria-hidden="true" />
+                        </button>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {fields.length > 0 && (
+            <div className="px-3 pt-2 mt-1 border-t border-gray-200 dark:border-gray-700">
+              <label htmlFor="list-group-by" className="block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">
+                Group rows by
+              </label>
+              <select
+                id="list-group-by"
+                value={groupBy ?? ''}
+                onChange={e => onGroupByChange(e.target.value || null)}
+                className={clsx(
+                  'w-full px-2 py-1 rounded-md text-sm',
+                  'border border-gray-300 dark:border-gray-600',
+                  'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100',
+                  'focus:outline-none focus:ring-2 focus:ring-primary-500'
+                )}
+              >
+                <option value="">No grouping</option>
+                {fields.map(field => (
+                  <option key={field.id} value={field.id}>{field.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ColumnPicker;
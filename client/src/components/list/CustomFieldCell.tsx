@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { clsx } from 'clsx';
+import { Check, ExternalLink, Loader2, Star } from 'lucide-react';
+import type { CustomField, CustomFieldValue } from '../../types';
+import { usePeople } from '../../context/PeopleContext';
+import { useTasks } from '../../context/TaskContext';
+import { formatCustomFieldValue, MAX_RATING } from '../common/CustomFieldInput';
+import { parseCustomFieldValue } from '../../utils/customFieldColumns';
+
+interface CustomFieldCellProps {
+  taskId: number;
+  field: CustomField;
+  value: string | null | undefined; // stored value, undefined when the task has none
+  onChange: (field: CustomField, value: CustomFieldValue['value']) => Promise<void>;
+}
+
+const inputClasses = clsx(
+  'w-full px-2 py-1 text-sm rounded border border-blue-500',
+  'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100',
+  'focus:outline-none focus:ring-2 focus:ring-blue-500'
+);
+
+// Types edited in a list below the cell rather than in place
+const POPOVER_TYPES = ['multiselect', 'relation'];
+
+/**
+ * Table cell showing a task's value of a custom field. Clicking it edits the value in
+ * place with a control that fits the field type; checkboxes and ratings change straight
+ * away, and formula values are read-only.
+ */
+export function CustomFieldCell({ taskId, field, value, onChange }: CustomFieldCellProps) {
+  const { people } = usePeople();
+  const { tasks } = useTasks();
+  const lookups = useMemo(() => ({ people, tasks }), [people, tasks]);
+  const parsed = parseCustomFieldValue(field, value);
+  const selectedOptions = Array.isArray(parsed) ? parsed.map(String) : [];
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const cellRef = useRef<HTMLDivElement>(null);
+  const isPopover = POPOVER_TYPES.includes(field.field_type);
+
+  // Close the multiselect or relation list when clicking outside
+  useEffect(() => {
+    if (!isEditing || !isPopover) return;
+    function handleClickOutside(event: MouseEvent) {
+      if (cellRef.current && !cellRef.current.contains(event.target as Node)) {
+        setIsEditing(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isEditing, isPopover]);
+
+  const save = async (next: CustomFieldValue['value']) => {
+    setIsSaving(true);
+    try {
+      await onChange(field, next);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(parsed === null || Array.isArray(parsed) ? '' : String(parsed));
+    setIsEditing(true);
+  };
+
+  // Save what was typed; an emptied input clears the value
+  const commitDraft = async () => {
+    setIsEditing(false);
+    const trimmed = draft.trim();
+    let next: CustomFieldValue['value'] = trimmed || null;
+    if ((field.field_type === 'number' || field.field_type === 'currency') && trimmed) {
+      next = Number(trimmed);
+      if (Number.isNaN(next)) return;
+    }
+    if (next !== parsed) await save(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitDraft();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsEditing(false);
+    }
+  };
+
+  const toggleOption = (option: string) => {
+    const next = selectedOptions.includes(option)
+      ? selectedOptions.filter(o => o !== option)
+      : (field.options ?? []).filter(o => o === option || selectedOptions.includes(o));
+    save(next.length > 0 ? next : null);
+  };
+
+  const toggleRelatedTask = (id: number) => {
+    const related = Array.isArray(parsed) ? parsed.map(Number) : [];
+    const next = related.includes(id) ? related.filter(r => r !== id) : [...related, id];
+    save(next.length > 0 ? next : null);
+  };
+
+  const renderEditor = () => {
+    switch (field.field_type) {
+      case 'select':
+        return (
+          <select
+            autoFocus
+            value={typeof parsed === 'string' ? parsed : ''}
+            onChange={e => {
+              setIsEditing(false);
+              save(e.target.value || null);
+            }}
+            onBlur={() => setIsEditing(false)}
+            onKeyDown={e => e.key === 'Escape' && setIsEditing(false)}
+            className={inputClasses}
+            aria-label={field.name}
+          >
+            <option value="">-</option>
+            {(field.options ?? []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'person':
+        return (
+          <select
+            autoFocus
+            value={typeof parsed === 'string' ? parsed : ''}
+            onChange={e => {
+              setIsEditing(false);
+              save(e.target.value || null);
+            }}
+            onBlur={() => setIsEditing(false)}
+            onKeyDown={e => e.key === 'Escape' && setIsEditing(false)}
+            className={inputClasses}
+            aria-label={field.name}
+          >
+            <option value="">-</option>
+            {people.map(person => (
+              <option key={person.id} value={String(person.id)}>{person.name}</option>
+            ))}
+          </select>
+        );
+      case 'relation': {
+        const related = Array.isArray(parsed) ? parsed.map(Number) : [];
+        const candidates = tasks.filter(t => t.id !== taskId);
+        return (
+          <div className="absolute z-20 top-full left-0 mt-1 w-64 max-h-60 overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 py-1">
+            {candidates.length === 0 && (
+              <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No other tasks available</p>
+            )}
+            {candidates.map(task => {
+              const checked = related.includes(task.id);
+              return (
+                <button
+                  key={task.id}
+                  type="button"
+                  onClick={() => toggleRelatedTask(task.id)}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                  role="menuitemcheckbox"
+                  aria-checked={checked}
+                >
+                  <span className={clsx(
+                    'w-4 h-4 flex-shrink-0 rounded border flex items-center justify-center',
+                    checked ? 'bg-blue-600 border-blue-600' : 'border-gray-300 dark:border-gray-600'
+                  )}>
+                    {checked && <Check className="w-3 h-3 text-white" aria-hidden="true" />}
+                  </span>
+                  <span className="truncate text-gray-700 dark:text-gray-300">{task.title}</span>
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+      case 'multiselect':
+        return (
+          <div className="absolute z-20 top-full left-0 mt-1 w-48 max-h-60 overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 py-1">
+            {(field.options ?? []).map(option => {
+              const checked = selectedOptions.includes(option);
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => toggleOption(option)}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                  role="menuitemcheckbox"
+                  aria-checked={checked}
+                >
+                  <span className={clsx(
+                    'w-4 h-4 rounded border flex items-center justify-center',
+                    checked ? 'bg-blue-600 border-blue-600' : 'border-gray-300 dark:border-gray-600'
+                  )}>
+                    {checked && <Check className="w-3 h-3 text-white" aria-hidden="true" />}
+                  </span>
+                  <span className="text-gray-700 dark:text-gray-300">{option}</span>
+                </button>
+              );
+            })}
+          </div>
+        );
+      default:
+        return (
+          <input
+            autoFocus
+            type={field.field_type === 'number' || field.field_type === 'currency' ? 'number' : field.field_type === 'date' ? 'date' : field.field_type === 'url' ? 'url' : 'text'}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commitDraft}
+            onKeyDown={handleKeyDown}
+            className={inputClasses}
+            aria-label={field.name}
+          />
+        );
+    }
+  };
+
+  if (field.field_type === 'checkbox') {
+    return (
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => save(!parsed)}
+          disabled={isSaving}
+          className={clsx(
+            'w-5 h-5 rounded border-2 flex items-center justify-center transition-colors',
+            'focus:outline-none focus:ring-2 focus:ring-blue-500',
+            parsed ? 'bg-blue-600 border-blue-600' : 'border-gray-300 dark:border-gray-600 hover:border-blue-400'
+          )}
+          role="checkbox"
+          aria-checked={parsed === true}
+          aria-label={field.name}
+        >
+          {parsed && <Check className="w-3 h-3 text-white" aria-hidden="true" />}
+        </button>
+        {isSaving && <Loader2 className="w-3 h-3 animate-spin text-blue-500" aria-hidden="true" />}
+      </div>
+    );
+  }
+
+  if (field.field_type === 'rating') {
+    const rating = typeof parsed === 'number' ? parsed : 0;
+    return (
+      <div className="flex items-center gap-0.5" role="radiogroup" aria-label={field.name}>
+        {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(star => (
+          <button
+            key={star}
+            type="button"
+            // Choosing the current rating again clears it
+            onClick={() => save(star === rating ? null : star)}
+            disabled={isSaving}
+            className="rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            role="radio"
+            aria-checked={star === rating}
+            aria-label={`${star} of ${MAX_RATING}`}
+          >
+            <Star
+              className={clsx('w-4 h-4', star <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300 dark:text-gray-600')}
+              aria-hidden="true"
+            />
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (field.field_type === 'formula') {
+    return (
+      <span
+        className={clsx('text-sm', parsed === null ? 'text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300')}
+        title={field.options?.[0] ? `= ${field.options[0]}` : undefined}
+      >
+        {formatCustomFieldValue(field, parsed)}
+      </span>
+    );
+  }
+
+  return (
+    <div className="relative" ref={cellRef}>
+      {isEditing && !isPopover ? (
+        renderEditor()
+      ) : (
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => (isEditing ? setIsEditing(false) : startEditing())}
+            disabled={isSaving}
+            className={clsx(
+              'max-w-[12rem] truncate rounded px-1 -mx-1 text-left text-sm transition-colors',
+              'hover:bg-gray-100 dark:hover:bg-gray-700',
+              'focus:outline-none focus:ring-2 focus:ring-blue-500',
+              parsed === null ? 'text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'
+            )}
+            title={parsed === null ? `Set ${field.name}` : formatCustomFieldValue(field, parsed, lookups)}
+            aria-label={`Change ${field.name}`}
+          >
+            {formatCustomFieldValue(field, parsed, lookups)}
+          </button>
+          {field.field_type === 'url' && typeof parsed === 'string' && (
+            <a
+              href={parsed}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+              aria-label={`Open ${field.name}`}
+            >
+              <ExternalLink className="w-3.5 h-3.5" aria-hidden="true" />
+            </a>
+          )}
+          {isSaving && <Loader2 className="w-3 h-3 animate-spin text-blue-500" aria-hidden="true" />}
+        </div>
+      )}
+      {isEditing && isPopover && renderEditor()}
+    </div>
+  );
+}
+
+export default CustomFieldCell;
@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Filter } from 'lucide-react';
+import type { CustomField } from '../../types';
+import { usePeople } from '../../context/PeopleContext';
+import {
+  customFieldQueryTerm,
+  getCustomFieldQueryTerms,
+  setCustomFieldQueryTerms,
+} from '../../utils/taskQuery';
+
+interface CustomFieldFilterMenuProps {
+  field: CustomField;
+  query: string; // text of the search box
+  onQueryChange: (query: string) => void;
+}
+
+// What the menu edits, read from and written back to cf. terms of the query
+interface FilterDraft {
+  options: string[];
+  checkbox: 'any' | 'yes' | 'no';
+  min: string;
+  max: string;
+  text: string;
+}
+
+function readDraft(field: CustomField, query: string): FilterDraft {
+  const draft: FilterDraft = { options: [], checkbox: 'any', min: '', max: '', text: '' };
+  getCustomFieldQueryTerms(query, field.name).forEach(term => {
+    const value = term.values[0] ?? '';
+    switch (term.operator) {
+      case ':':
+      case '=':
+        if (field.field_type === 'checkbox') {
+          draft.checkbox = term.negated === (value.toLowerCase() === 'true') ? 'no' : 'yes';
+        } else if (!term.negated) {
+          draft.options = term.values;
+          draft.text = value;
+        }
+        break;
+      case '>':
+      case '>=':
+        draft.min = value;
+        break;
+      case '<':
+      case '<=':
+        draft.max = value;
+        break;
+    }
+  });
+  return draft;
+}
+
+function buildTerms(field: CustomField, draft: FilterDraft): string[] {
+  switch (field.field_type) {
+    case 'select':
+    case 'multiselect':
+    case 'person':
+      return draft.options.length > 0 ? [customFieldQueryTerm(field.name, '=', draft.options)] : [];
+    case 'checkbox':
+      // "No" also matches tasks that never had the box ticked
+      return draft.checkbox === 'any' ? [] : [customFieldQueryTerm(field.name, '=', ['true'], draft.checkbox === 'no')];
+    case 'number':
+    case 'currency':
+    case 'rating':
+    case 'date':
+      return [
+        ...(draft.min.trim() ? [customFieldQueryTerm(field.name, '>=', [draft.min.trim()])] : []),
+        ...(draft.max.trim() ? [customFieldQueryTerm(field.name, '<=', [draft.max.trim()])] : []),
+      ];
+    default:
+      return draft.text.trim() ? [customFieldQueryTerm(field.name, '=', [draft.text.trim()])] : [];
+  }
+}
+
+const inputClasses = clsx(
+  'w-full px-2 py-1 text-sm rounded-md',
+  'border border-gray-300 dark:border-gray-600',
+  'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100',
+  'focus:outline-none focus:ring-2 focus:ring-primary-500'
+);
+
+/**
+ * Filter button for a custom field column. The filter is kept as cf. terms in the
+ * search box, so the server evaluates it and saved views store it with the query.
+ */
+export function CustomFieldFilterMenu({ field, query, onQueryChange }: CustomFieldFilterMenuProps) {
+  const { people } = usePeople();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterDraft>(() => readDraft(field, query));
+  const menuRef = useRef<HTMLDivElement>(null);
+  const isActive = getCustomFieldQueryTerms(query, field.name).length > 0;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const open = () => {
+    setDraft(readDraft(field, query));
+    setIsOpen(true);
+  };
+
+  const apply = (next: FilterDraft) => {
+    onQueryChange(setCustomFieldQueryTerms(query, field.name, buildTerms(field, next)));
+    setIsOpen(false);
+  };
+
+  const toggleOption = (option: string) => {
+    setDraft(prev => ({
+      ...prev,
+      options: prev.options.includes(option) ? prev.options.filter(o => o !== option) : [...prev.options, option],
+    }));
+  };
+
+  const renderOptions = (options: string[]) => (
+    <div className="max-h-48 overflow-y-auto space-y-1">
+      {options.map(option => (
+        <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.options.includes(option)}
+            onChange={() => toggleOption(option)}
+            className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          {option}
+        </label>
+      ))}
+    </div>
+  );
+
+  const renderFields = () => {
+    switch (field.field_type) {
+      case 'select':
+      case 'multiselect':
+        return renderOptions(field.options ?? []);
+      case 'person':
+        // The query matches people by name
+        return renderOptions(people.map(person => person.name));
+      case 'number':
+      case 'currency':
+      case 'rating':
+      case 'date':
+        return (
+          <div className="space-y-2">
+            <label className="block text-xs text-gray-500 dark:text-gray-400">
+              From
+              <input
+                type={field.field_type === 'date' ? 'date' : 'number'}
+                min={field.field_type === 'rating' ? 1 : undefined}
+                max={field.field_type === 'rating' ? 5 : undefined}
+                value={draft.min}
+                onChange={e => setDraft(prev => ({ ...prev, min: e.target.value }))}
+                className={clsx(inputClasses, 'mt-0.5')}
+              />
+            </label>
+            <label className="block text-xs text-gray-500 dark:text-gray-400">
+              To
+              <input
+                type={field.field_type === 'date' ? 'date' : 'number'}
+                min={field.field_type === 'rating' ? 1 : undefined}
+                max={field.field_type === 'rating' ? 5 : undefined}
+                value={draft.max}
+                onChange={e => setDraft(prev => ({ ...prev, max: e.target.value }))}
+                className={clsx(inputClasses, 'mt-0.5')}
+              />
+            </label>
+          </div>
+        );
+      case 'checkbox':
+        return (
+          <div className="space-y-1">
+            {(['any', 'yes', 'no'] as const).map(choice => (
+              <label key={choice} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer capitalize">
+                <input
+                  type="radio"
+                  name={`filter-${field.id}`}
+                  checked={draft.checkbox === choice}
+                  onChange={() => setDraft(prev => ({ ...prev, checkbox: choice }))}
+                  className="w-4 h-4 border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {choice}
+              </label>
+            ))}
+          </div>
+        );
+      default:
+        return (
+          <label className="block text-xs text-gray-500 dark:text-gray-400">
+            Equals
+            <input
+              type="text"
+              value={draft.text}
+              onChange={e => setDraft(prev => ({ ...prev, text: e.target.value }))}
+              onKeyDown={e => e.key === 'Enter' && apply(draft)}
+              className={clsx(inputClasses, 'mt-0.5')}
+            />
+          </label>
+        );
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        className={clsx(
+          'p-0.5 rounded transition-colors',
+          'hover:bg-gray-200 dark:hover:bg-gray-600',
+          isActive ? 'text-primary-600 dark:text-primary-400' : 'text-gray-400 dark:text-gray-500'
+        )}
+        aria-label={`Filter by ${field.name}`}
+        aria-expanded={isOpen}
+        title={`Filter by ${field.name}`}
+      >
+        <Filter className="w-3.5 h-3.5" aria-hidden="true" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-30 right-0 top-full mt-1 w-56 p-3 font-normal normal-case bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 space-y-3">
+          {renderFields()}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => apply({ options: [], checkbox: 'any', min: '', max: '', text: '' })}
+              className="px-2 py-1 text-xs rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Clear
+            </button>
+            <button
+              type="button"
+              onClick={() => apply(draft)}
+              className="px-2 py-1 text-xs rounded-md bg-primary-600 text-white hover:bg-primary-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CustomFieldFilterMenu;
@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { api } from '../../services/api';
+import { usePeople } from '../../context/PeopleContext';
+import { useToast } from '../../context/ToastContext';
+import type { CustomField, TaskExportColumn, TaskExportFormat, TaskFilters } from '../../types';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+
+// Task values an export can hold, in the order they are offered and exported
+export const TASK_EXPORT_COLUMNS: { value: TaskExportColumn; label: string }[] = [
+  { value: 'id', label: 'ID' },
+  { value: 'title', label: 'Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'progress', label: 'Progress' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'co_assignees', label: 'Co-assignees' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'start_date', label: 'Start date' },
+  { value: 'end_date', label: 'End date' },
+  { value: 'estimate', label: 'Estimate (hours)' },
+  { value: 'logged_time', label: 'Logged time (hours)' },
+  { value: 'parent', label: 'Parent task' },
+  { value: 'created_at', label: 'Created' },
+  { value: 'updated_at', label: 'Updated' },
+];
+
+// The columns the list shows, chosen when the dialog opens
+const LIST_COLUMNS: TaskExportColumn[] = ['title', 'status', 'priority', 'progress', 'assignee', 'tags', 'due_date'];
+
+interface ExportTasksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: TaskFilters; // the list's filters, with its project
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  fields: CustomField[]; // custom fields of the project
+  shownFieldIds: string[]; // custom fields shown as list columns
+  taskCount: number; // tasks the list shows
+}
+
+/**
+ * Exports the tasks the list shows, in its order, with the chosen columns.
+ */
+export function ExportTasksModal({
+  isOpen,
+  onClose,
+  filters,
+  sortBy,
+  sortOrder,
+  fields,
+  shownFieldIds,
+  taskCount,
+}: ExportTasksModalProps) {
+  const { currentPersonId } = usePeople();
+  const toast = useToast();
+  const [format, setFormat] = useState<TaskExportFormat>('csv');
+  const [columns, setColumns] = useState<TaskExportColumn[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const columnOptions = [
+    ...TASK_EXPORT_COLUMNS,
+    ...fields.map(f => ({ value: `custom_field:${f.id}` as TaskExportColumn, label: f.name })),
+  ];
+
+  // Start from the columns the list shows each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setColumns([...LIST_COLUMNS, ...shownFieldIds.map(id => `custom_field:${id}` as TaskExportColumn)]);
+    }
+  }, [isOpen, shownFieldIds]);
+
+  const toggleColumn = (column: TaskExportColumn) => {
+    setColumns(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await api.importExport.exportTasks(filters, {
+        format,
+        // Exported in the order they are offered
+        columns: columnOptions.map(o => o.value).filter(c => columns.includes(c)),
+        sort_by: sortBy,
+        sort_order: sortOrder,
+        me: currentPersonId,
+      });
+      onClose();
+    } catch (err) {
+      toast.error('Export Failed', err instanceof Error ? err.message : 'Failed to export tasks');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderColumn = (option: { value: TaskExportColumn; label: string }) => (
+    <label
+      key={option.value}
+      className="flex items-center gap-2 py-1 text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+    >
+      <input
+        type="checkbox"
+        checked={columns.includes(option.value)}
+        onChange={() => toggleColumn(option.value)}
+        className="rounded border-gray-300 dark:border-gray-600"
+      />
+      <span className="truncate">{option.label}</span>
+    </label>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export Tasks"
+      description={`The ${taskCount} task${taskCount !== 1 ? 's' : ''} the list shows, in its order.`}
+      size="md"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} isLoading={isExporting} disabled={columns.length === 0}>
+            Export {format.toUpperCase()}
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        {/* Format */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Format</span>
+          <div className="flex gap-2">
+            {(['csv', 'xlsx'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setFormat(option)}
+                aria-pressed={format === option}
+                className={clsx(
+                  'flex-1 px-3 py-2 rounded-md border text-sm font-medium transition-colors',
+                  format === option
+                    ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                )}
+              >
+                {option === 'csv' ? 'CSV' : 'Excel (XLSX)'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Columns */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Columns</span>
+            <button
+              type="button"
+              onClick={() => setColumns(columns.length === columnOptions.length ? [] : columnOptions.map(o => o.value))}
+              className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              {columns.length === columnOptions.length ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-x-4">
+            {TASK_EXPORT_COLUMNS.map(renderColumn)}
+          </div>
+          {fields.length > 0 && (
+            <>
+              <p className="mt-3 mb-1 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                Custom fields
+              </p>
+              <div className="grid grid-cols-2 gap-x-4">
+                {columnOptions.slice(TASK_EXPORT_COLUMNS.length).map(renderColumn)}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+export default ExportTasksModal;
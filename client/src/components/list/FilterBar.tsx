@@ -3,42 +3,74 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { Search, X, Filter, ChevronDown, User, Tag, Bookmark, Save } from 'lucide-react';
-import type { TaskStatus, TaskPriority, Person, Tag as TagType, SavedView, CreateSavedViewDTO, TaskFilters } from '../../types';
-import { STATUS_CONFIG, PRIORITY_CONFIG } from '../../types';
+import { X, Filter, ChevronDown, User, Tag, Bookmark, Save, Minus, Download } from 'lucide-react';
+import type { TaskStatus, TaskPriority, Person, Tag as TagType, SavedView, CreateSavedViewDTO, TaskFilters, SavedViewSettings } from '../../types';
+import { PRIORITY_CONFIG } from '../../types';
 import { useSavedViews } from '../../context/SavedViewContext';
+import { useStatuses } from '../../context/StatusContext';
 import SaveViewModal from '../common/SaveViewModal';
 import SavedViewsDropdown from '../common/SavedViewsDropdown';
+import TaskQueryInput from '../common/TaskQueryInput';
+import { isTaskQuery } from '../../utils/taskQuery';
 
+// Each list holds the values to match; the not_ lists hold the values to leave out.
+// search is the text of the search box: plain words, or a task query.
 export interface ListFilters {
   search: string;
   status: TaskStatus[];
   priority: TaskPriority[];
-  assignee_id: string;
-  tag_id: string;
+  assignee_id: string[];
+  tag_id: string[];
+  not_status: TaskStatus[];
+  not_priority: TaskPriority[];
+  not_assignee_id: string[];
+  not_tag_id: string[];
 }
 
-// Helper to convert ListFilters to TaskFilters for saved views
-function listFiltersToTaskFilters(filters: ListFilters): TaskFilters {
+export const EMPTY_LIST_FILTERS: ListFilters = {
+  search: '',
+  status: [],
+  priority: [],
+  assignee_id: [],
+  tag_id: [],
+  not_status: [],
+  not_priority: [],
+  not_assignee_id: [],
+  not_tag_id: [],
+};
+
+// Empty lists are left out so saved views only store the filters in use
+const listOrUndefined = <T,>(values: T[]): T[] | undefined => (values.length > 0 ? values : undefined);
+
+// Helper to convert ListFilters to TaskFilters (saved views, matching)
+export function listFiltersToTaskFilters(filters: ListFilters): TaskFilters {
+  const isQuery = isTaskQuery(filters.search);
   return {
-    search: filters.search || undefined,
-    // Note: TaskFilters uses single status, ListFilters uses array
-    // We store the first selected status or undefined
-    status: filters.status.length > 0 ? filters.status[0] : undefined,
-    priority: filters.priority.length > 0 ? filters.priority[0] : undefined,
-    assignee_id: filters.assignee_id ? Number(filters.assignee_id) : undefined,
-    tag_id: filters.tag_id ? Number(filters.tag_id) : undefined,
+    search: !isQuery && filters.search ? filters.search : undefined,
+    query: isQuery ? filters.search : undefined,
+    status: listOrUndefined(filters.status),
+    priority: listOrUndefined(filters.priority),
+    assignee_id: listOrUndefined(filters.assignee_id.map(Number)),
+    tag_id: listOrUndefined(filters.tag_id.map(Number)),
+    not_status: listOrUndefined(filters.not_status),
+    not_priority: listOrUndefined(filters.not_priority),
+    not_assignee_id: listOrUndefined(filters.not_assignee_id.map(Number)),
+    not_tag_id: listOrUndefined(filters.not_tag_id.map(Number)),
   };
 }
 
 // Helper to convert TaskFilters back to ListFilters
 function taskFiltersToListFilters(filters: TaskFilters): ListFilters {
   return {
-    search: filters.search || '',
-    status: filters.status ? [filters.status] : [],
-    priority: filters.priority ? [filters.priority] : [],
-    assignee_id: filters.assignee_id ? String(filters.assignee_id) : '',
-    tag_id: filters.tag_id ? String(filters.tag_id) : '',
+    search: filters.query || filters.search || '',
+    status: filters.status ?? [],
+    priority: filters.priority ?? [],
+    assignee_id: (filters.assignee_id ?? []).map(String),
+    tag_id: (filters.tag_id ?? []).map(String),
+    not_status: filters.not_status ?? [],
+    not_priority: filters.not_priority ?? [],
+    not_assignee_id: (filters.not_assignee_id ?? []).map(String),
+    not_tag_id: (filters.not_tag_id ?? []).map(String),
   };
 }
 
@@ -49,10 +81,14 @@ interface FilterBarProps {
   filteredCount: number;
   people?: Person[];
   tags?: TagType[];
-  projectId?: string | null;
+  projectId?: number | null;
   viewType?: 'list' | 'kanban' | 'calendar' | 'timeline';
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  queryError?: string | null; // why the task query in the search box was rejected
+  viewSettings?: SavedViewSettings; // layout saved along with the filters
+  onSelectView?: (view: SavedView) => void; // restores the layout of a saved view
+  onExport?: () => void; // exports the tasks shown (v2.20.0)
 }
 
 // Custom debounce hook
@@ -72,15 +108,27 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
-// Dropdown component for multi-select filters
+// Dropdown component for multi-select filters.
+// With allowExclude, clicking a selected option again excludes it, and a third click clears it.
 interface MultiSelectDropdownProps {
   label: string;
-  options: { value: string; label: string; color: string }[];
+  icon?: React.ReactNode;
+  options: { value: string; label: string; color: string; subtitle?: string }[];
   selected: string[];
-  onChange: (selected: string[]) => void;
+  onChange: (selected: string[], excluded: string[]) => void;
+  excluded?: string[];
+  allowExclude?: boolean;
 }
 
-function MultiSelectDropdown({ label, options, selected, onChange }: MultiSelectDropdownProps) {
+function MultiSelectDropdown({
+  label,
+  icon = <Filter className="w-4 h-4" aria-hidden="true" />,
+  options,
+  selected,
+  onChange,
+  excluded = [],
+  allowExclude = false,
+}: MultiSelectDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -96,13 +144,17 @@ function MultiSelectDropdown({ label, options, selected, onChange }: MultiSelect
   }, []);
 
   const handleToggle = (value: string) => {
-    if (selected.includes(value)) {
-      onChange(selected.filter(v => v !== value));
+    if (excluded.includes(value)) {
+      onChange(selected, excluded.filter(v => v !== value));
+    } else if (selected.includes(value)) {
+      onChange(selected.filter(v => v !== value), allowExclude ? [...excluded, value] : excluded);
     } else {
-      onChange([...selected, value]);
+      onChange([...selected, value], excluded);
     }
   };
 
+  const activeCount = selected.length + excluded.length;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       setIsOpen(false);
@@ -126,17 +178,17 @@ function MultiSelectDropdown({ label, options, selected, onChange }: MultiSelect
             'focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2',
             'dark:focus:ring-offset-gray-900',
             'transition-colors duration-150',
-            selected.length > 0 && 'ring-2 ring-primary-500'
+            activeCount > 0 && 'ring-2 ring-primary-500'
           )
         )}
         aria-expanded={isOpen}
         aria-haspopup="listbox"
       >
-        <Filter className="w-4 h-4" aria-hidden="true" />
+        {icon}
         <span>{label}</span>
-        {selected.length > 0 && (
+        {activeCount > 0 && (
           <span className="flex items-center justify-center w-5 h-5 text-xs font-semibold rounded-full bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-400">
-            {selected.length}
+            {activeCount}
           </span>
         )}
         <ChevronDown
@@ -147,10 +199,16 @@ function MultiSelectDropdown({ label, options, selected, onChange }: MultiSelect
 
       {isOpen && (
         <div
-          className="absolute z-20 mt-2 w-56 rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 py-1"
+          className="absolute z-20 mt-2 w-56 rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 py-1 max-h-64 overflow-y-auto"
           role="listbox"
           aria-label={`${label} options`}
+          aria-multiselectable="true"
         >
+          {allowExclude && options.length > 0 && (
+            <p className="px-4 py-1.5 text-xs text-gray-500 dark:text-gray-400">
+              Click again to exclude
+            </p>
+          )}
           {options.map(option => (
             <button
               key={option.value}
@@ -166,12 +224,15 @@ function MultiSelectDropdown({ label, options, selected, onChange }: MultiSelect
               )}
               role="option"
               aria-selected={selected.includes(option.value)}
+              title={excluded.includes(option.value) ? `Excluding ${option.label}` : undefined}
             >
               <span
                 className={clsx(
-                  'w-4 h-4 rounded border flex items-center justify-center',
+                  'w-4 h-4 rounded border flex items-center justify-center flex-shrink-0',
                   selected.includes(option.value)
                     ? 'bg-primary-600 border-primary-600'
+                    : excluded.includes(option.value)
+                    ? 'bg-red-500 border-red-500'
                     : 'border-gray-300 dark:border-gray-500'
                 )}
               >
@@ -180,165 +241,35 @@ function MultiSelectDropdown({ label, options, selected, onChange }: MultiSelect
                     <path d="M10.28 2.28L4 8.56 1.72 6.28a.75.75 0 00-1.06 1.06l3 3a.75.75 0 001.06 0l7-7a.75.75 0 00-1.06-1.06z" />
                   </svg>
                 )}
+                {excluded.includes(option.value) && (
+                  <Minus className="w-3 h-3 text-white" aria-hidden="true" />
+                )}
               </span>
               <span
-                className="w-2 h-2 rounded-full"
+                className="w-2 h-2 rounded-full flex-shrink-0"
                 style={{ backgroundColor: option.color }}
                 aria-hidden="true"
               />
-              <span className="text-gray-700 dark:text-gray-300">{option.label}</span>
-            </button>
-          ))}
-        </div>
-      )}
-    </div>
-  );
-}
-
-// Single select dropdown for assignee and tag
-interface SingleSelectDropdownProps {
-  label: string;
-  icon: React.ReactNode;
-  options: { value: string; label: string; color?: string; subtitle?: string }[];
-  selected: string;
-  onChange: (selected: string) => void;
-  placeholder?: string;
-}
-
-function SingleSelectDropdown({ 
-  label, 
-  icon, 
-  options, 
-  selected, 
-  onChange, 
-  placeholder = 'All' 
-}: SingleSelectDropdownProps) {
-  const [isOpen, setIsOpen] = useState(false);
-  const dropdownRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
-      }
-    };
-
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Escape') {
-      setIsOpen(false);
-    }
-  };
-
-  const selectedOption = options.find(o => o.value === selected);
-
-  return (
-    <div ref={dropdownRef} className="relative">
-      <button
-        type="button"
-        onClick={() => setIsOpen(!isOpen)}
-        onKeyDown={handleKeyDown}
-        className={twMerge(
-          clsx(
-            'inline-flex items-center gap-2 px-3 py-2',
-            'text-sm font-medium rounded-md',
-            'border border-gray-300 dark:border-gray-600',
-            'bg-white dark:bg-gray-800',
-            'text-gray-700 dark:text-gray-300',
-            'hover:bg-gray-50 dark:hover:bg-gray-700',
-            'focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2',
-            'dark:focus:ring-offset-gray-900',
-            'transition-colors duration-150',
-            selected && 'ring-2 ring-primary-500'
-          )
-        )}
-        aria-expanded={isOpen}
-        aria-haspopup="listbox"
-      >
-        {icon}
-        <span className="max-w-[100px] truncate">
-          {selectedOption ? selectedOption.label : placeholder}
-        </span>
-        <ChevronDown
-          className={clsx('w-4 h-4 transition-transform', isOpen && 'rotate-180')}
-          aria-hidden="true"
-        />
-      </button>
-
-      {isOpen && (
-        <div
-          className="absolute z-20 mt-2 w-56 rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 py-1 max-h-64 overflow-y-auto"
-          role="listbox"
-          aria-label={`${label} options`}
-        >
-          {/* Clear option */}
-          <button
-            type="button"
-            onClick={() => {
-              onChange('');
-              setIsOpen(false);
-            }}
-            className={twMerge(
-              clsx(
-                'w-full flex items-center gap-3 px-4 py-2 text-sm text-left',
-                'hover:bg-gray-100 dark:hover:bg-gray-700',
-                'focus:outline-none focus:bg-gray-100 dark:focus:bg-gray-700',
-                'transition-colors duration-150',
-                !selected && 'bg-primary-50 dark:bg-primary-900/20'
-              )
-            )}
-            role="option"
-            aria-selected={!selected}
-          >
-            <span className="text-gray-500 dark:text-gray-400 italic">{placeholder}</span>
-          </button>
-          
-          {options.map(option => (
-            <button
-              key={option.value}
-              type="button"
-              onClick={() => {
-                onChange(option.value);
-                setIsOpen(false);
-              }}
-              className={twMerge(
-                clsx(
-                  'w-full flex items-center gap-3 px-4 py-2 text-sm text-left',
-                  'hover:bg-gray-100 dark:hover:bg-gray-700',
-                  'focus:outline-none focus:bg-gray-100 dark:focus:bg-gray-700',
-                  'transition-colors duration-150',
-                  selected === option.value && 'bg-primary-50 dark:bg-primary-900/20'
-                )
-              )}
-              role="option"
-              aria-selected={selected === option.value}
-            >
-              {option.color && (
-                <span
-                  className="w-3 h-3 rounded-full flex-shrink-0"
-                  style={{ backgroundColor: option.color }}
-                  aria-hidden="true"
-                />
-              )}
               <div className="flex-1 min-w-0">
-                <div className="text-gray-700 dark:text-gray-300 truncate">{option.label}</div>
+                <div
+                  className={clsx(
+                    'truncate',
+                    excluded.includes(option.value)
+                      ? 'text-red-600 dark:text-red-400 line-through'
+                      : 'text-gray-700 dark:text-gray-300'
+                  )}
+                >
+                  {option.label}
+                </div>
                 {option.subtitle && (
                   <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
                     {option.subtitle}
                   </div>
                 )}
               </div>
-              {selected === option.value && (
-                <svg className="w-4 h-4 text-primary-600 flex-shrink-0" fill="currentColor" viewBox="0 0 12 12">
-                  <path d="M10.28 2.28L4 8.56 1.72 6.28a.75.75 0 00-1.06 1.06l3 3a.75.75 0 001.06 0l7-7a.75.75 0 00-1.06-1.06z" />
-                </svg>
-              )}
             </button>
           ))}
-          
+
           {options.length === 0 && (
             <div className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400 italic">
               No options available
@@ -361,6 +292,10 @@ export function FilterBar({
   viewType = 'list',
   sortBy,
   sortOrder = 'asc',
+  queryError,
+  viewSettings,
+  onSelectView,
+  onExport,
 }: FilterBarProps) {
   const [searchInput, setSearchInput] = useState(filters.search);
   const [showSaveModal, setShowSaveModal] = useState(false);
@@ -373,12 +308,20 @@ export function FilterBar({
     deleteSavedView,
     setDefaultView,
   } = useSavedViews();
+  const { workflow } = useStatuses();
   
   // Fetch saved views when project or view type changes
   useEffect(() => {
     fetchSavedViews(projectId ?? undefined, viewType);
   }, [projectId, viewType, fetchSavedViews]);
 
+  // Follow changes made outside the search box, such as column filters
+  useEffect(() => {
+    if (filters.search !== debouncedSearch) {
+      setSearchInput(filters.search);
+    }
+  }, [filters.search]);
+
   // Update parent when debounced search changes
   useEffect(() => {
     if (debouncedSearch !== filters.search) {
@@ -386,53 +329,24 @@ export function FilterBar({
     }
   }, [debouncedSearch]);
 
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchInput(e.target.value);
-  };
-
-  const handleStatusChange = useCallback(
-    (status: string[]) => {
-      onFilterChange({ ...filters, status: status as TaskStatus[] });
-    },
-    [filters, onFilterChange]
-  );
-
-  const handlePriorityChange = useCallback(
-    (priority: string[]) => {
-      onFilterChange({ ...filters, priority: priority as TaskPriority[] });
-    },
-    [filters, onFilterChange]
-  );
-
-  const handleAssigneeChange = useCallback(
-    (assignee_id: string) => {
-      onFilterChange({ ...filters, assignee_id });
-    },
-    [filters, onFilterChange]
-  );
-
-  const handleTagChange = useCallback(
-    (tag_id: string) => {
-      onFilterChange({ ...filters, tag_id });
+  // Update a filter's included and excluded values together
+  const handleListChange = useCallback(
+    (key: 'status' | 'priority' | 'assignee_id' | 'tag_id') => (selected: string[], excluded: string[]) => {
+      onFilterChange({ ...filters, [key]: selected, [`not_${key}`]: excluded } as ListFilters);
     },
     [filters, onFilterChange]
   );
 
   const handleClearFilters = () => {
     setSearchInput('');
-    onFilterChange({
-      search: '',
-      status: [],
-      priority: [],
-      assignee_id: '',
-      tag_id: '',
-    });
+    onFilterChange(EMPTY_LIST_FILTERS);
   };
   
   const handleSelectSavedView = (view: SavedView) => {
     const listFilters = taskFiltersToListFilters(view.filters);
     setSearchInput(listFilters.search);
     onFilterChange(listFilters);
+    onSelectView?.(view);
   };
   
   const handleDeleteSavedView = async (view: SavedView) => {
@@ -447,24 +361,23 @@ export function FilterBar({
     return await createSavedView(data);
   };
 
-  const hasActiveFilters =
-    filters.search || 
-    filters.status.length > 0 || 
-    filters.priority.length > 0 ||
-    filters.assignee_id ||
-    filters.tag_id;
-
   const activeFilterCount =
     (filters.search ? 1 : 0) + 
     filters.status.length + 
     filters.priority.length +
-    (filters.assignee_id ? 1 : 0) +
-    (filters.tag_id ? 1 : 0);
-
-  const statusOptions = Object.entries(STATUS_CONFIG).map(([value, config]) => ({
-    value,
-    label: config.label,
-    color: config.color,
+    filters.assignee_id.length +
+    filters.tag_id.length +
+    filters.not_status.length +
+    filters.not_priority.length +
+    filters.not_assignee_id.length +
+    filters.not_tag_id.length;
+
+  const hasActiveFilters = activeFilterCount > 0;
+
+  const statusOptions = workflow.map(status => ({
+    value: status.key,
+    label: status.name,
+    color: status.color,
   }));
 
   const priorityOptions = Object.entries(PRIORITY_CONFIG).map(([value, config]) => ({
@@ -490,40 +403,13 @@ export function FilterBar({
     <div className="space-y-4">
       {/* Search and Filter Controls */}
       <div className="flex flex-col sm:flex-row gap-3">
-        {/* Search Input */}
-        <div className="relative flex-1">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <Search className="h-4 w-4 text-gray-400 dark:text-gray-500" aria-hidden="true" />
-          </div>
-          <input
-            type="text"
-            value={searchInput}
-            onChange={handleSearchChange}
-            placeholder="Search tasks by title or description..."
-            className={twMerge(
-              clsx(
-                'w-full pl-10 pr-4 py-2 rounded-md',
-                'border border-gray-300 dark:border-gray-600',
-                'bg-white dark:bg-gray-800',
-                'text-gray-900 dark:text-gray-100',
-                'placeholder-gray-400 dark:placeholder-gray-500',
-                'focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500',
-                'transition-colors duration-150'
-              )
-            )}
-            aria-label="Search tasks"
-          />
-          {searchInput && (
-            <button
-              type="button"
-              onClick={() => setSearchInput('')}
-              className="absolute inset-y-0 right-0 pr-3 flex items-center"
-              aria-label="Clear search"
-            >
-              <X className="h-4 w-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" />
-            </button>
-          )}
-        </div>
+        {/* Search Input, which also takes task queries */}
+        <TaskQueryInput
+          value={searchInput}
+          onChange={setSearchInput}
+          error={queryError}
+          className="flex-1"
+        />
 
         {/* Filter Dropdowns */}
         <div className="flex gap-2 flex-wrap sm:flex-nowrap">
@@ -541,29 +427,35 @@ export function FilterBar({
             label="Status"
             options={statusOptions}
             selected={filters.status}
-            onChange={handleStatusChange}
+            onChange={handleListChange('status')}
+            excluded={filters.not_status}
+            allowExclude
           />
           <MultiSelectDropdown
             label="Priority"
             options={priorityOptions}
             selected={filters.priority}
-            onChange={handlePriorityChange}
+            onChange={handleListChange('priority')}
+            excluded={filters.not_priority}
+            allowExclude
           />
-          <SingleSelectDropdown
+          <MultiSelectDropdown
             label="Assignee"
             icon={<User className="w-4 h-4" aria-hidden="true" />}
             options={assigneeOptions}
             selected={filters.assignee_id}
-            onChange={handleAssigneeChange}
-            placeholder="Anyone"
+            onChange={handleListChange('assignee_id')}
+            excluded={filters.not_assignee_id}
+            allowExclude
           />
-          <SingleSelectDropdown
+          <MultiSelectDropdown
             label="Tag"
             icon={<Tag className="w-4 h-4" aria-hidden="true" />}
             options={tagOptions}
             selected={filters.tag_id}
-            onChange={handleTagChange}
-            placeholder="Any tag"
+            onChange={handleListChange('tag_id')}
+            excluded={filters.not_tag_id}
+            allowExclude
           />
 
           {/* Save View Button */}
@@ -590,6 +482,32 @@ export function FilterBar({
             </button>
           )}
 
+          {/* Export Button */}
+          {onExport && (
+            <button
+              type="button"
+              onClick={onExport}
+              disabled={filteredCount === 0}
+              className={twMerge(
+                clsx(
+                  'inline-flex items-center gap-1.5 px-3 py-2',
+                  'text-sm font-medium rounded-md',
+                  'border border-gray-300 dark:border-gray-600',
+                  'bg-white dark:bg-gray-800',
+                  'text-gray-600 dark:text-gray-400',
+                  'hover:bg-gray-50 dark:hover:bg-gray-700',
+                  'hover:text-gray-900 dark:hover:text-gray-200',
+                  'disabled:opacity-50 disabled:cursor-not-allowed',
+                  'transition-colors duration-150'
+                )
+              )}
+              aria-label="Export the tasks shown"
+            >
+              <Download className="w-4 h-4" aria-hidden="true" />
+              <span className="hidden sm:inline">Export</span>
+            </button>
+          )}
+
           {/* Clear Filters Button */}
           {hasActiveFilters && (
             <button
@@ -636,6 +554,7 @@ export function FilterBar({
           onClose={() => setShowSaveModal(false)}
           onSave={handleSaveView}
           currentFilters={listFiltersToTaskFilters(filters)}
+          currentSettings={viewSettings}
           currentSortBy={sortBy}
           currentSortOrder={sortOrder}
           viewType={viewType}
@@ -1,35 +1,53 @@
 'use client';
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { Inbox, Loader2, Check } from 'lucide-react';
 import { useTasks } from '../../context/TaskContext';
 import { useApp } from '../../context/AppContext';
-import type { Task, TaskStatus, TaskPriority } from '../../types';
-import { FilterBar, type ListFilters } from './FilterBar';
+import { useStatuses } from '../../context/StatusContext';
+import { usePeople } from '../../context/PeopleContext';
+import { useTags } from '../../context/TagContext';
+import { useCustomFields } from '../../context/CustomFieldContext';
+import { useToast } from '../../context/ToastContext';
+import { getCustomFieldValues } from '../../services/api';
+import type { Task, TaskStatus, TaskPriority, CustomField, CustomFieldValue, SavedView, SavedViewSettings } from '../../types';
+import { FilterBar, EMPTY_LIST_FILTERS, listFiltersToTaskFilters, type ListFilters } from './FilterBar';
 import { TaskRow } from './TaskRow';
 import { TaskListItem } from './TaskListItem';
-import { SortHeader, type SortKey, type SortOrder } from './SortHeader';
+import { SortHeader, SortMenu, SORT_OPTIONS, type SortKey, type SortOrder } from './SortHeader';
+import { ColumnPicker } from './ColumnPicker';
+import { CustomFieldFilterMenu } from './CustomFieldFilterMenu';
+import { ExportTasksModal } from './ExportTasksModal';
+import { formatCustomFieldValue } from '../common/CustomFieldInput';
 import { Modal } from '../common/Modal';
 import { ConfirmModal } from '../common/Modal';
 import { TaskForm } from '../common/TaskForm';
 import { BulkActionBar } from '../common/BulkActionBar';
 import type { CreateTaskDTO, UpdateTaskDTO } from '../../types';
-
-const DEFAULT_FILTERS: ListFilters = {
-  search: '',
-  status: [],
-  priority: [],
-  assignee_id: '',
-  tag_id: '',
-};
+import { compareByRank } from '../../utils/taskRank';
+import { matchesTaskFilters } from '../../utils/taskFilters';
+import { useTaskQuery } from '../../hooks/useTaskQuery';
+import {
+  customFieldSortKey,
+  getSortKeyFieldId,
+  groupTasksByCustomField,
+  parseCustomFieldValue,
+  compareCustomFieldValues,
+  serializeCustomFieldValue,
+  type CustomFieldColumnValues,
+  type CustomFieldLookups,
+} from '../../utils/customFieldColumns';
 
 const DEFAULT_SORT: { sortBy: SortKey; sortOrder: SortOrder } = {
   sortBy: 'created_at',
   sortOrder: 'desc',
 };
 
+// Cells of a TaskRow besides the custom field columns, for rows spanning the table
+const ROW_CELL_COUNT = 11;
+
 // Priority weight for sorting
 const PRIORITY_WEIGHT: Record<TaskPriority, number> = {
   low: 1,
@@ -38,15 +56,6 @@ const PRIORITY_WEIGHT: Record<TaskPriority, number> = {
   urgent: 4,
 };
 
-// Status weight for sorting (done should be at bottom)
-const STATUS_WEIGHT: Record<TaskStatus, number> = {
-  backlog: 1,
-  todo: 2,
-  in_progress: 3,
-  review: 4,
-  done: 5,
-};
-
 export function ListView() {
   const { 
     tasks, 
@@ -65,55 +74,116 @@ export function ListView() {
     bulkDeleteTasks,
   } = useTasks();
   const { currentProjectId, openSubTaskModal } = useApp();
+  const { statuses, isDoneStatus } = useStatuses();
+  const { people } = usePeople();
+  const { tags } = useTags();
+  const { customFields, setTaskCustomField } = useCustomFields();
+  const toast = useToast();
+
+  // Status weight for sorting follows the workflow order
+  const statusWeight = useMemo(
+    () => new Map(statuses.map((status, index) => [status.key, index])),
+    [statuses]
+  );
 
   // Local state for filters and sorting
-  const [filters, setFilters] = useState<ListFilters>(DEFAULT_FILTERS);
+  const [filters, setFilters] = useState<ListFilters>(EMPTY_LIST_FILTERS);
   const [sort, setSort] = useState(DEFAULT_SORT);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [deletingTask, setDeletingTask] = useState<Task | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-
-  // Apply client-side filtering
-  const filteredTasks = useMemo(() => {
-    let result = [...tasks];
-
-    // Filter by search
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      result = result.filter(
-        t =>
-          t.title.toLowerCase().includes(searchLower) ||
-          t.description.toLowerCase().includes(searchLower)
-      );
-    }
-
-    // Filter by status (multiple selection)
-    if (filters.status.length > 0) {
-      result = result.filter(t => filters.status.includes(t.status));
-    }
-
-    // Filter by priority (multiple selection)
-    if (filters.priority.length > 0) {
-      result = result.filter(t => filters.priority.includes(t.priority));
+  const [settings, setSettings] = useState<SavedViewSettings>({});
+  const [columnValues, setColumnValues] = useState<Map<string, CustomFieldColumnValues>>(new Map());
+  const [valuesVersion, setValuesVersion] = useState(0);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  // Custom fields of the current project: its own fields and the global ones
+  const projectFields = useMemo(
+    () => customFields.filter(f => !currentProjectId || !f.project_id || String(f.project_id) === String(currentProjectId)),
+    [customFields, currentProjectId]
+  );
+  const findField = useCallback(
+    (fieldId: string | null | undefined) => projectFields.find(f => f.id === fieldId),
+    [projectFields]
+  );
+  const customColumns = useMemo(
+    () => (settings.columns ?? []).map(findField).filter((f): f is CustomField => f !== undefined),
+    [settings.columns, findField]
+  );
+  const groupField = findField(settings.group_by_field_id);
+  const sortField = findField(getSortKeyFieldId(sort.sortBy));
+  const lookups = useMemo<CustomFieldLookups>(() => ({ people, tasks }), [people, tasks]);
+
+  // Load the values of every field shown, grouped or sorted by
+  const loadedFieldKey = Array.from(
+    new Set([...customColumns, groupField, sortField].filter((f): f is CustomField => f !== undefined).map(f => f.id))
+  ).join(',');
+  useEffect(() => {
+    const fieldIds = loadedFieldKey ? loadedFieldKey.split(',') : [];
+    if (fieldIds.length === 0) {
+      setColumnValues(new Map());
+      return;
     }
-
-    return result;
-  }, [tasks, filters]);
+    let cancelled = false;
+    Promise.all(
+      fieldIds.map(async (fieldId) => {
+        const values = await getCustomFieldValues(fieldId, currentProjectId ?? undefined);
+        return [fieldId, new Map(values.map(v => [v.task_id, v.value]))] as const;
+      })
+    )
+      .then((entries) => {
+        if (!cancelled) setColumnValues(new Map(entries));
+      })
+      .catch((err) => console.error('Failed to load custom field values:', err));
+    return () => {
+      cancelled = true;
+    };
+    // valuesVersion reloads formula columns after an edit of a value they use
+  }, [loadedFieldKey, currentProjectId, tasks, valuesVersion]);
+
+  // Apply client-side filtering; a task query in the search box is evaluated by the server
+  const taskFilters = useMemo(() => listFiltersToTaskFilters(filters), [filters]);
+  const queryRefreshKey = useMemo(() => ({ tasks, valuesVersion }), [tasks, valuesVersion]);
+  const { matchingIds: queryMatches, error: queryError } = useTaskQuery(taskFilters.query, {
+    projectId: currentProjectId,
+    refreshKey: queryRefreshKey,
+  });
+  const filteredTasks = useMemo(
+    () => tasks.filter(t => matchesTaskFilters(t, taskFilters) && (!queryMatches || queryMatches.has(t.id))),
+    [tasks, taskFilters, queryMatches]
+  );
 
   // Apply sorting
   const sortedTasks = useMemo(() => {
     const { sortBy, sortOrder } = sort;
     const sorted = [...filteredTasks];
+    const sortValues = sortField ? columnValues.get(sortField.id) : undefined;
 
     sorted.sort((a, b) => {
       let comparison = 0;
 
+      if (sortField) {
+        // Tasks without a value go to the end in either order
+        const aValue = parseCustomFieldValue(sortField, sortValues?.get(a.id));
+        const bValue = parseCustomFieldValue(sortField, sortValues?.get(b.id));
+        if (aValue === null || bValue === null) {
+          return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+        }
+        comparison = compareCustomFieldValues(sortField, aValue, bValue, lookups);
+        return sortOrder === 'asc' ? comparison : -comparison;
+      }
+
       switch (sortBy) {
+        case 'rank':
+          // Workflow order first, then the manual order within each status
+          comparison = (statusWeight.get(a.status) ?? statuses.length) - (statusWeight.get(b.status) ?? statuses.length)
+            || compareByRank(a, b);
+          break;
         case 'title':
           comparison = a.title.localeCompare(b.title);
           break;
         case 'status':
-          comparison = STATUS_WEIGHT[a.status] - STATUS_WEIGHT[b.status];
+          comparison = (statusWeight.get(a.status) ?? statuses.length) - (statusWeight.get(b.status) ?? statuses.length);
           break;
         case 'priority':
           comparison = PRIORITY_WEIGHT[a.priority] - PRIORITY_WEIGHT[b.priority];
@@ -134,7 +204,26 @@ export function ListView() {
     });
 
     return sorted;
-  }, [filteredTasks, sort]);
+  }, [filteredTasks, sort, statusWeight, statuses.length, sortField, columnValues, lookups]);
+
+  // Rows split by the grouping field, if any
+  const taskGroups = useMemo(
+    () => (groupField
+      ? groupTasksByCustomField(
+        sortedTasks,
+        groupField,
+        columnValues.get(groupField.id) ?? new Map(),
+        lookups,
+        value => formatCustomFieldValue(groupField, value, lookups)
+      )
+      : null),
+    [sortedTasks, groupField, columnValues, lookups]
+  );
+
+  const sortOptions = useMemo(
+    () => [...SORT_OPTIONS, ...projectFields.map(f => ({ value: customFieldSortKey(f.id) as SortKey, label: f.name }))],
+    [projectFields]
+  );
 
   // Handle sort toggle
   const handleSort = useCallback((sortKey: SortKey) => {
@@ -144,15 +233,45 @@ export function ListView() {
     }));
   }, []);
 
+  // Restore the column layout and sort of a saved view; FilterBar restores its filters
+  const handleSelectView = useCallback((view: SavedView) => {
+    setSettings(view.settings ?? {});
+    if (view.sort_by && (SORT_OPTIONS.some(o => o.value === view.sort_by) || getSortKeyFieldId(view.sort_by))) {
+      setSort({ sortBy: view.sort_by as SortKey, sortOrder: view.sort_order });
+    }
+  }, []);
+
+  // Save an inline edit of a custom field cell, showing the new value right away
+  const handleCustomFieldChange = useCallback(async (taskId: number, field: CustomField, value: CustomFieldValue['value']) => {
+    const setStored = (stored: string | null) =>
+      setColumnValues(prev => {
+        const next = new Map(prev);
+        const values = new Map(next.get(field.id));
+        values.set(taskId, stored);
+        next.set(field.id, values);
+        return next;
+      });
+
+    const previous = columnValues.get(field.id)?.get(taskId) ?? null;
+    setStored(serializeCustomFieldValue(value));
+    try {
+      await setTaskCustomField(taskId, field.id, value);
+      setValuesVersion(v => v + 1);
+    } catch (err) {
+      setStored(previous);
+      toast.error(`Failed to update ${field.name}`, err instanceof Error ? err.message : undefined);
+    }
+  }, [columnValues, setTaskCustomField, toast]);
+
   // Check if task is overdue
   const isTaskOverdue = useCallback((task: Task): boolean => {
     const targetDate = task.end_date || task.due_date;
-    if (!targetDate || task.status === 'done') return false;
+    if (!targetDate || isDoneStatus(task.status)) return false;
     const dueDate = new Date(targetDate);
     const now = new Date();
     dueDate.setHours(23, 59, 59, 999);
     return dueDate < now;
-  }, []);
+  }, [isDoneStatus]);
 
   // Handle edit task
   const handleEditTask = useCallback((task: Task) => {
@@ -257,7 +376,31 @@ export function ListView() {
           onFilterChange={setFilters}
           totalTasks={tasks.length}
           filteredCount={sortedTasks.length}
+          people={people}
+          tags={tags}
+          projectId={currentProjectId}
+          sortBy={sort.sortBy}
+          sortOrder={sort.sortOrder}
+          queryError={queryError}
+          viewSettings={settings}
+          onSelectView={handleSelectView}
+          onExport={() => setIsExportOpen(true)}
         />
+        <div className="mt-3 flex items-center justify-end gap-3">
+          <ColumnPicker
+            fields={projectFields}
+            columns={customColumns.map(f => f.id)}
+            onColumnsChange={(columns) => setSettings(prev => ({ ...prev, columns }))}
+            groupBy={groupField?.id ?? null}
+            onGroupByChange={(fieldId) => setSettings(prev => ({ ...prev, group_by_field_id: fieldId }))}
+          />
+          <SortMenu
+            currentSort={sort.sortBy}
+            sortOrder={sort.sortOrder}
+            onSortChange={(sortBy, sortOrder) => setSort({ sortBy, sortOrder })}
+            options={sortOptions}
+          />
+        </div>
       </div>
 
       {/* Task List */}
@@ -276,9 +419,9 @@ export function ListView() {
                 ? 'Create your first task to get started with your project.'
                 : 'Try adjusting your search or filter criteria to find what you\'re looking for.'}
             </p>
-            {tasks.length > 0 && (filters.search || filters.status.length > 0 || filters.priority.length > 0) && (
+            {tasks.length > 0 && (
               <button
-                onClick={() => setFilters(DEFAULT_FILTERS)}
+                onClick={() => setFilters(EMPTY_LIST_FILTERS)}
                 className="mt-4 text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium"
               >
                 Clear all filters
@@ -368,6 +511,25 @@ export function ListView() {
                       onSort={handleSort}
                       className="w-36"
                     />
+                    {customColumns.map(field => (
+                      <SortHeader
+                        key={field.id}
+                        label={field.name}
+                        sortKey={customFieldSortKey(field.id)}
+                        currentSort={sort.sortBy}
+                        sortOrder={sort.sortOrder}
+                        onSort={handleSort}
+                        className="min-w-[8rem]"
+                        // Formula values are calculated on read, so the server can't filter by them
+                        actions={field.field_type !== 'formula' && (
+                          <CustomFieldFilterMenu
+                            field={field}
+                            query={filters.search}
+                            onQueryChange={(search) => setFilters(prev => ({ ...prev, search }))}
+                          />
+                        )}
+                      />
+                    ))}
                     <th
                       className="sticky top-0 z-10 px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-800/80 border-b border-gray-200 dark:border-gray-700"
                       scope="col"
@@ -377,33 +539,60 @@ export function ListView() {
                   </tr>
                 </thead>
                 <tbody>
-                  {sortedTasks.map(task => (
-                    <TaskRow
+                  {(taskGroups ?? [{ key: 'all', label: '', tasks: sortedTasks }]).map(group => (
+                    <React.Fragment key={group.key}>
+                      {taskGroups && (
+                        <tr className="bg-gray-50 dark:bg-gray-800/50 border-b border-gray-200 dark:border-gray-700">
+                          <td colSpan={ROW_CELL_COUNT + customColumns.length} className="px-4 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                            {group.label}
+                            <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{group.tasks.length}</span>
+                          </td>
+                        </tr>
+                      )}
+                      {group.tasks.map(task => (
+                        <TaskRow
+                          key={task.id}
+                          task={task}
+                          onEdit={handleEditTask}
+                          onDelete={handleDeleteTask}
+                          onCreateSubTask={handleCreateSubTask}
+                          isOverdue={isTaskOverdue(task)}
+                          isSelected={isTaskSelected(task.id)}
+                          onToggleSelection={toggleTaskSelection}
+                          customColumns={customColumns}
+                          columnValues={columnValues}
+                          onCustomFieldChange={handleCustomFieldChange}
+                        />
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Mobile Card View */}
+            <div className="md:hidden p-4 space-y-3">
+              {(taskGroups ?? [{ key: 'all', label: '', tasks: sortedTasks }]).map(group => (
+                <React.Fragment key={group.key}>
+                  {taskGroups && (
+                    <h3 className="pt-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      {group.label}
+                      <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{group.tasks.length}</span>
+                    </h3>
+                  )}
+                  {group.tasks.map(task => (
+                    <TaskListItem
                       key={task.id}
                       task={task}
                       onEdit={handleEditTask}
                       onDelete={handleDeleteTask}
                       onCreateSubTask={handleCreateSubTask}
                       isOverdue={isTaskOverdue(task)}
-                      isSelected={isTaskSelected(task.id)}
-                      onToggleSelection={toggleTaskSelection}
+                      customColumns={customColumns}
+                      columnValues={columnValues}
                     />
                   ))}
-                </tbody>
-              </table>
-            </div>
-
-            {/* Mobile Card View */}
-            <div className="md:hidden p-4 space-y-3">
-              {sortedTasks.map(task => (
-                <TaskListItem
-                  key={task.id}
-                  task={task}
-                  onEdit={handleEditTask}
-                  onDelete={handleDeleteTask}
-                  onCreateSubTask={handleCreateSubTask}
-                  isOverdue={isTaskOverdue(task)}
-                />
+                </React.Fragment>
               ))}
             </div>
           </>
@@ -428,13 +617,25 @@ export function ListView() {
         )}
       </Modal>
 
+      {/* Export Modal, sending the list's filters and sort to the server */}
+      <ExportTasksModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        filters={{ ...taskFilters, project_id: currentProjectId ?? undefined }}
+        sortBy={sort.sortBy}
+        sortOrder={sort.sortOrder}
+        fields={projectFields}
+        shownFieldIds={customColumns.map(f => f.id)}
+        taskCount={sortedTasks.length}
+      />
+
       {/* Delete Confirmation Modal */}
       <ConfirmModal
         isOpen={deletingTask !== null}
         onClose={() => setDeletingTask(null)}
         onConfirm={handleConfirmDelete}
         title="Delete Task"
-        message={`Are you sure you want to delete "${deletingTask?.title}"? This action cannot be undone.`}
+        message={`Are you sure you want to delete "${deletingTask?.title}" and its subtasks? You can undo this with Ctrl+Z.`}
         confirmText="Delete"
         cancelText="Cancel"
         variant="danger"
@@ -4,10 +4,21 @@ import React from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import type { CustomFieldSortKey } from '../../utils/customFieldColumns';
 
-export type SortKey = 'title' | 'status' | 'priority' | 'due_date' | 'created_at';
+export type SortKey = 'rank' | 'title' | 'status' | 'priority' | 'due_date' | 'created_at' | CustomFieldSortKey;
 export type SortOrder = 'asc' | 'desc';
 
+// Sort options offered by the sort menu; "Manual" is the order cards have on the Kanban board
+export const SORT_OPTIONS: Array<{ value: SortKey; label: string }> = [
+  { value: 'rank', label: 'Manual' },
+  { value: 'title', label: 'Title' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'created_at', label: 'Created' },
+];
+
 interface SortHeaderProps {
   label: string;
   sortKey: SortKey;
@@ -15,6 +26,7 @@ interface SortHeaderProps {
   sortOrder: SortOrder;
   onSort: (sortKey: SortKey) => void;
   className?: string;
+  actions?: React.ReactNode; // controls after the label, such as a filter menu
 }
 
 export function SortHeader({
@@ -24,6 +36,7 @@ export function SortHeader({
   sortOrder,
   onSort,
   className,
+  actions,
 }: SortHeaderProps) {
   const isActive = currentSort === sortKey;
 
@@ -85,9 +98,68 @@ export function SortHeader({
       <div className="flex items-center gap-2">
         <span>{label}</span>
         {renderSortIcon()}
+        {actions && (
+          // Clicks and keys inside the controls must not sort the column
+          <span className="ml-auto" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+            {actions}
+          </span>
+        )}
       </div>
     </th>
   );
 }
 
+interface SortMenuProps {
+  currentSort: SortKey;
+  sortOrder: SortOrder;
+  onSortChange: (sortKey: SortKey, sortOrder: SortOrder) => void;
+  options?: Array<{ value: SortKey; label: string }>;
+  className?: string;
+}
+
+/**
+ * Sort picker for sort keys without a column header (such as manual order) and for the mobile list.
+ */
+export function SortMenu({ currentSort, sortOrder, onSortChange, options = SORT_OPTIONS, className }: SortMenuProps) {
+  const OrderIcon = sortOrder === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <div className={twMerge(clsx('flex items-center gap-2 text-sm', className))}>
+      <label htmlFor="list-sort" className="text-gray-600 dark:text-gray-400">
+        Sort by
+      </label>
+      <select
+        id="list-sort"
+        value={currentSort}
+        onChange={(e) => onSortChange(e.target.value as SortKey, sortOrder)}
+        className={clsx(
+          'px-2 py-1 rounded-md text-sm',
+          'border border-gray-300 dark:border-gray-600',
+          'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100',
+          'focus:outline-none focus:ring-2 focus:ring-primary-500'
+        )}
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => onSortChange(currentSort, sortOrder === 'asc' ? 'desc' : 'asc')}
+        className={clsx(
+          'p-1 rounded-md',
+          'text-gray-500 dark:text-gray-400',
+          'hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-700 dark:hover:text-gray-200'
+        )}
+        aria-label={sortOrder === 'asc' ? 'Sort descending' : 'Sort ascending'}
+        title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
+      >
+        <OrderIcon className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </div>
+  );
+}
+
 export default SortHeader;
@@ -4,10 +4,15 @@ import React, { useMemo, useState } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { Calendar, AlertCircle, Pencil, Trash2, ChevronRight, Plus } from 'lucide-react';
-import type { Task } from '../../types';
+import type { Task, CustomField } from '../../types';
 import { StatusBadge, PriorityBadge } from '../common/Badge';
 import { Button } from '../common/Button';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
+import { useStatuses } from '../../context/StatusContext';
+import { usePeople } from '../../context/PeopleContext';
+import { useTasks } from '../../context/TaskContext';
+import { formatCustomFieldValue } from '../common/CustomFieldInput';
+import { parseCustomFieldValue, type CustomFieldColumnValues } from '../../utils/customFieldColumns';
 
 interface TaskListItemProps {
   task: Task;
@@ -15,10 +20,24 @@ interface TaskListItemProps {
   onDelete: (task: Task) => void;
   onCreateSubTask?: (parentTaskId: number) => void;
   isOverdue: boolean;
+  customColumns?: CustomField[];
+  columnValues?: Map<string, CustomFieldColumnValues>; // field ID -> values by task
 }
 
-export function TaskListItem({ task, onEdit, onDelete, onCreateSubTask, isOverdue }: TaskListItemProps) {
+export function TaskListItem({
+  task,
+  onEdit,
+  onDelete,
+  onCreateSubTask,
+  isOverdue,
+  customColumns = [],
+  columnValues,
+}: TaskListItemProps) {
   const [contextMenuPosition, setContextMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const { getStatus, isDoneStatus } = useStatuses();
+  const { people } = usePeople();
+  const { tasks } = useTasks();
+  const lookups = useMemo(() => ({ people, tasks }), [people, tasks]);
   const displayDate = task.end_date || task.due_date;
 
   const formatDate = (dateString: string | null) => {
@@ -126,7 +145,7 @@ export function TaskListItem({ task, onEdit, onDelete, onCreateSubTask, isOverdu
       onKeyDown={handleKeyDown}
       tabIndex={0}
       role="button"
-      aria-label={`Task: ${task.title}. Status: ${task.status}. Priority: ${task.priority}. Date: ${formatDate(displayDate)}`}
+      aria-label={`Task: ${task.title}. Status: ${getStatus(task.status).name}. Priority: ${task.priority}. Date: ${formatDate(displayDate)}`}
     >
       {/* Header */}
       <div className="flex items-start justify-between gap-3">
@@ -136,7 +155,7 @@ export function TaskListItem({ task, onEdit, onDelete, onCreateSubTask, isOverdu
               clsx(
                 'text-sm font-semibold text-gray-900 dark:text-gray-100',
                 'line-clamp-2',
-                task.status === 'done' && 'line-through text-gray-500 dark:text-gray-400'
+                isDoneStatus(task.status) && 'line-through text-gray-500 dark:text-gray-400'
               )
             )}
           >
@@ -178,6 +197,20 @@ export function TaskListItem({ task, onEdit, onDelete, onCreateSubTask, isOverdu
         )}
       </div>
 
+      {/* Custom field columns */}
+      {customColumns.length > 0 && (
+        <dl className="mt-2 grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+          {customColumns.map(field => (
+            <div key={field.id} className="flex gap-1 min-w-0">
+              <dt className="text-gray-500 dark:text-gray-400 flex-shrink-0">{field.name}:</dt>
+              <dd className="text-gray-700 dark:text-gray-300 truncate">
+                {formatCustomFieldValue(field, parseCustomFieldValue(field, columnValues?.get(field.id)?.get(task.id)), lookups)}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
       {/* Action Buttons - Visible on touch */}
       <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700 flex items-center justify-end gap-2">
         {onCreateSubTask && (
@@ -3,16 +3,20 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { Pencil, Trash2, Calendar, AlertCircle, Users, GitBranch, Check, Loader2, Plus, Play, Square, Timer } from 'lucide-react';
-import type { Task, TaskStatus, TaskPriority } from '../../types';
+import { Pencil, Trash2, Calendar, AlertCircle, Users, GitBranch, Check, Loader2, Plus, Play, Square, Timer, Repeat } from 'lucide-react';
+import type { Task, TaskStatus, TaskPriority, CustomField, CustomFieldValue } from '../../types';
 import { StatusBadge, PriorityBadge, TagBadge } from '../common/Badge';
 import { Button } from '../common/Button';
 import { MiniProgressBar } from '../common/ProgressBar';
 import { useTasks } from '../../context/TaskContext';
+import { useStatuses } from '../../context/StatusContext';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
 import { useTimeEntries } from '@/context/TimeEntryContext';
 import { usePomodoro } from '@/context/PomodoroContext';
 import { formatDurationUsCompact, formatTimerDisplayUs } from '@/utils/timeFormat';
+import { describeRecurrence } from '@/utils/recurrence';
+import type { CustomFieldColumnValues } from '@/utils/customFieldColumns';
+import { CustomFieldCell } from './CustomFieldCell';
 
 interface TaskRowProps {
   task: Task;
@@ -22,16 +26,11 @@ interface TaskRowProps {
   isOverdue: boolean;
   isSelected?: boolean;
   onToggleSelection?: (taskId: number) => void;
+  customColumns?: CustomField[];
+  columnValues?: Map<string, CustomFieldColumnValues>; // field ID -> values by task
+  onCustomFieldChange?: (taskId: number, field: CustomField, value: CustomFieldValue['value']) => Promise<void>;
 }
 
-const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
-  { value: 'backlog', label: 'Backlog' },
-  { value: 'todo', label: 'To Do' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'review', label: 'Review' },
-  { value: 'done', label: 'Done' },
-];
-
 const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
   { value: 'urgent', label: 'Urgent' },
   { value: 'high', label: 'High' },
@@ -47,6 +46,9 @@ export function TaskRow({
   isOverdue,
   isSelected = false,
   onToggleSelection,
+  customColumns = [],
+  columnValues,
+  onCustomFieldChange,
 }: TaskRowProps) {
   const displayDate = task.end_date || task.due_date;
 
@@ -62,6 +64,7 @@ export function TaskRow({
   const [isPomodoroLoading, setIsPomodoroLoading] = useState(false);
   
   const { updateTaskStatus, updateTask, updateTaskProgress } = useTasks();
+  const { statuses, isDoneStatus } = useStatuses();
   
   const {
     timerTick,
@@ -435,6 +438,11 @@ export function TaskRow({
               {isSubtask && (
                 <GitBranch className="w-3 h-3 text-gray-400 dark:text-gray-500 flex-shrink-0" aria-hidden="true" />
               )}
+              {task.recurrence && (
+                <span title={describeRecurrence(task.recurrence)} className="flex-shrink-0">
+                  <Repeat className="w-3 h-3 text-primary-500 dark:text-primary-400" aria-label="Recurring task" />
+                </span>
+              )}
               {editingField === 'title' ? (
                 <input
                   ref={titleInputRef}
@@ -452,7 +460,7 @@ export function TaskRow({
                     clsx(
                       'text-sm font-medium text-gray-900 dark:text-gray-100',
                       'truncate',
-                      task.status === 'done' && 'line-through text-gray-500 dark:text-gray-400',
+                      isDoneStatus(task.status) && 'line-through text-gray-500 dark:text-gray-400',
                       'hover:bg-blue-100 dark:hover:bg-blue-800/30 rounded px-1 -mx-1 cursor-text'
                     )
                   )}
@@ -493,19 +501,19 @@ export function TaskRow({
           
           {showStatusDropdown && (
             <div className="absolute z-20 top-full left-0 mt-1 w-40 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 py-1">
-              {STATUS_OPTIONS.map((option) => (
+              {statuses.map((status) => (
                 <button
-                  key={option.value}
+                  key={status.key}
                   type="button"
-                  onClick={() => handleStatusChange(option.value)}
+                  onClick={() => handleStatusChange(status.key)}
                   className={clsx(
                     'w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700',
                     'flex items-center gap-2',
-                    task.status === option.value && 'bg-blue-50 dark:bg-blue-900/30'
+                    task.status === status.key && 'bg-blue-50 dark:bg-blue-900/30'
                   )}
                 >
-                  <StatusBadge status={option.value} size="sm" />
-                  <span className="text-gray-700 dark:text-gray-300">{option.label}</span>
+                  <StatusBadge status={status.key} size="sm" />
+                  <span className="text-gray-700 dark:text-gray-300">{status.name}</span>
                 </button>
               ))}
             </div>
@@ -705,6 +713,25 @@ export function TaskRow({
         </div>
       </td>
 
+      {/* Custom field columns; editing a cell must not open the task */}
+      {customColumns.map((field) => (
+        <td
+          key={field.id}
+          className="px-4 py-3"
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <CustomFieldCell
+            taskId={task.id}
+            field={field}
+            value={columnValues?.get(field.id)?.get(task.id)}
+            onChange={async (changedField, value) => {
+              await onCustomFieldChange?.(task.id, changedField, value);
+            }}
+          />
+        </td>
+      ))}
+
       {/* Timer */}
       <td className="px-4 py-3">
         <button
@@ -3,7 +3,7 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { Users, Plus, Search, Loader2, Mail, Building, Briefcase, MoreVertical, Edit2, Trash2, Globe } from 'lucide-react';
+import { Users, Plus, Search, Loader2, Mail, Building, Briefcase, MoreVertical, Edit2, Trash2, Globe, UserCheck } from 'lucide-react';
 import { usePeople } from '../../context/PeopleContext';
 import { useProjects } from '../../context/ProjectContext';
 import type { Person, CreatePersonDTO, UpdatePersonDTO } from '../../types';
@@ -13,7 +13,7 @@ import { Button } from '../common/Button';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
 
 export function PeopleView() {
-  const { people, loading, error, createPerson, updatePerson, deletePerson } = usePeople();
+  const { people, loading, error, createPerson, updatePerson, deletePerson, currentPersonId, setCurrentPersonId } = usePeople();
   const { projects } = useProjects();
   
   // Local state
@@ -244,8 +244,10 @@ export function PeopleView() {
                 person={person}
                 projectName={getProjectName(person.project_id)}
                 projectColor={getProjectColor(person.project_id)}
+                isCurrentPerson={person.id === currentPersonId}
                 onEdit={() => setEditingPerson(person)}
                 onDelete={() => setDeletingPerson(person)}
+                onToggleCurrentPerson={() => setCurrentPersonId(person.id === currentPersonId ? null : person.id)}
               />
             ))}
           </div>
@@ -291,7 +293,7 @@ export function PeopleView() {
         onClose={() => setDeletingPerson(null)}
         onConfirm={handleDeletePerson}
         title="Delete Person"
-        message={`Are you sure you want to delete "${deletingPerson?.name}"? This will remove them from all assigned tasks. This action cannot be undone.`}
+        message={`Are you sure you want to delete "${deletingPerson?.name}"? They will be hidden from their assigned tasks until restored from the Trash.`}
         confirmText="Delete"
         cancelText="Cancel"
         variant="danger"
@@ -306,11 +308,13 @@ interface PersonCardProps {
   person: Person;
   projectName: string;
   projectColor: string;
+  isCurrentPerson: boolean;
   onEdit: () => void;
   onDelete: () => void;
+  onToggleCurrentPerson: () => void;
 }
 
-function PersonCard({ person, projectName, projectColor, onEdit, onDelete }: PersonCardProps) {
+function PersonCard({ person, projectName, projectColor, isCurrentPerson, onEdit, onDelete, onToggleCurrentPerson }: PersonCardProps) {
   const [showMenu, setShowMenu] = useState(false);
   const [contextMenuPosition, setContextMenuPosition] = useState<{ x: number; y: number } | null>(null);
 
@@ -324,6 +328,11 @@ function PersonCard({ person, projectName, projectColor, onEdit, onDelete }: Per
       label: 'Edit person',
       onSelect: onEdit,
     },
+    {
+      id: 'current-person',
+      label: isCurrentPerson ? 'This is not me' : 'This is me',
+      onSelect: onToggleCurrentPerson,
+    },
     {
       id: 'delete-person',
       label: 'Delete person',
@@ -364,6 +373,9 @@ function PersonCard({ person, projectName, projectColor, onEdit, onDelete }: Per
           <div className="min-w-0 flex-1">
             <h3 className="font-semibold text-gray-900 dark:text-gray-100 truncate">
               {person.name}
+              {isCurrentPerson && (
+                <span className="ml-2 text-xs font-medium text-primary-600 dark:text-primary-400">(me)</span>
+              )}
             </h3>
             {person.designation && (
               <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
@@ -400,6 +412,17 @@ function PersonCard({ person, projectName, projectColor, onEdit, onDelete }: Per
                   <Edit2 className="w-4 h-4" />
                   Edit
                 </button>
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    onToggleCurrentPerson();
+                  }}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                  title='Used by "assignee:me" in task queries'
+                >
+                  <UserCheck className="w-4 h-4" />
+                  {isCurrentPerson ? 'Not me' : 'This is me'}
+                </button>
                 <button
                   onClick={() => {
                     setShowMenu(false);
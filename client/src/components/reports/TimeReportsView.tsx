@@ -0,0 +1,332 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { addMonths, addWeeks, endOfMonth, startOfMonth } from 'date-fns';
+import { BarChart3, Download, Loader2 } from 'lucide-react';
+import { api } from '../../services/api';
+import { useProjects } from '../../context/ProjectContext';
+import { usePeople } from '../../context/PeopleContext';
+import { useTags } from '../../context/TagContext';
+import { useToast } from '../../context/ToastContext';
+import type { TimeReport, TimeReportGroupBy, TimeReportQuery, TimeSource } from '../../types';
+import { POMODORO_SESSION_CONFIG } from '../../types';
+import { Button } from '../common/Button';
+import { toDateString } from '../../utils/schedule';
+import { formatHours, localTimeZone, weekRange } from '../../utils/timesheet';
+
+const GROUPINGS: { value: TimeReportGroupBy; label: string }[] = [
+  { value: 'project', label: 'Project' },
+  { value: 'task', label: 'Task' },
+  { value: 'person', label: 'Person' },
+  { value: 'tag', label: 'Tag' },
+  { value: 'source', label: 'Source' },
+];
+
+type RangePreset = 'this_week' | 'last_week' | 'this_month' | 'last_month' | 'custom';
+
+const PRESETS: { value: Exclude<RangePreset, 'custom'>; label: string }[] = [
+  { value: 'this_week', label: 'This week' },
+  { value: 'last_week', label: 'Last week' },
+  { value: 'this_month', label: 'This month' },
+  { value: 'last_month', label: 'Last month' },
+];
+
+function presetRange(preset: Exclude<RangePreset, 'custom'>): { from: string; to: string } {
+  const today = new Date();
+  switch (preset) {
+    case 'this_week':
+      return weekRange(today);
+    case 'last_week':
+      return weekRange(addWeeks(today, -1));
+    case 'this_month':
+      return { from: toDateString(startOfMonth(today)), to: toDateString(endOfMonth(today)) };
+    case 'last_month': {
+      const month = addMonths(today, -1);
+      return { from: toDateString(startOfMonth(month)), to: toDateString(endOfMonth(month)) };
+    }
+  }
+}
+
+/**
+ * Time logged over a range of days, grouped by project, task, person, tag or source, with
+ * a CSV download of the groups or of every entry. Time logged by pomodoro sessions is
+ * shaded apart in each group's share.
+ */
+export function TimeReportsView() {
+  const { projects } = useProjects();
+  const { people } = usePeople();
+  const { tags } = useTags();
+  const toast = useToast();
+
+  const [preset, setPreset] = useState<RangePreset>('this_week');
+  const [range, setRange] = useState(() => presetRange('this_week'));
+  const [groupBy, setGroupBy] = useState<TimeReportGroupBy>('project');
+  const [projectId, setProjectId] = useState('');
+  const [personId, setPersonId] = useState('');
+  const [tagId, setTagId] = useState('');
+  const [source, setSource] = useState<TimeSource | ''>('');
+  const [report, setReport] = useState<TimeReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const buildQuery = useCallback((): TimeReportQuery => ({
+    ...range,
+    tz: localTimeZone(),
+    project_id: projectId ? [Number(projectId)] : undefined,
+    person_id: personId ? [personId] : undefined,
+    tag_id: tagId ? [Number(tagId)] : undefined,
+    source: source ? [source] : undefined,
+  }), [range, projectId, personId, tagId, source]);
+
+  useEffect(() => {
+    if (!range.from || !range.to) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    api.reports.getTime(buildQuery(), groupBy)
+      .then(loaded => {
+        if (!cancelled) setReport(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the report');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildQuery, groupBy, range]);
+
+  const handleExport = async (detail?: 'entries') => {
+    setIsExporting(true);
+    try {
+      await api.reports.exportTime(buildQuery(), groupBy, detail);
+    } catch (err) {
+      toast.error('Export Failed', err instanceof Error ? err.message : 'Failed to export the report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectClass =
+    'px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+  const largest = report?.groups[0]?.total_us ?? 0;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex-shrink-0 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-100 dark:bg-primary-900/30 flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">Time Reports</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {report
+                  ? `${formatHours(report.total_us)} in ${report.entry_count} entr${report.entry_count !== 1 ? 'ies' : 'y'}` +
+                    (report.pomodoro_us > 0 ? `, ${formatHours(report.pomodoro_us)} from pomodoros` : '')
+                  : 'Time logged over a range of days'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Download className="w-4 h-4" />}
+              onClick={() => handleExport()}
+              disabled={isExporting || !report}
+            >
+              Export CSV
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleExport('entries')}
+              disabled={isExporting || !report}
+            >
+              Export entries
+            </Button>
+          </div>
+        </div>
+
+        {/* Range */}
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          {PRESETS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => {
+                setPreset(option.value);
+                setRange(presetRange(option.value));
+              }}
+              className={twMerge(
+                clsx(
+                  'px-3 py-1.5 rounded-full text-sm font-medium transition-colors',
+                  preset === option.value
+                    ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
+                    : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
+                )
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={e => {
+              setPreset('custom');
+              setRange(prev => ({ ...prev, from: e.target.value }));
+            }}
+            aria-label="From"
+            className={selectClass}
+          />
+          <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={e => {
+              setPreset('custom');
+              setRange(prev => ({ ...prev, to: e.target.value }));
+            }}
+            aria-label="To"
+            className={selectClass}
+          />
+        </div>
+
+        {/* Grouping and filters */}
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Group by</span>
+          <div className="flex rounded-md shadow-sm">
+            {GROUPINGS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setGroupBy(option.value)}
+                aria-pressed={groupBy === option.value}
+                className={twMerge(
+                  clsx(
+                    'px-3 py-1.5 text-sm font-medium border border-gray-300 dark:border-gray-600 -ml-px first:ml-0 first:rounded-l-md last:rounded-r-md',
+                    groupBy === option.value
+                      ? 'bg-primary-500 text-white border-primary-500'
+                      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  )
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <select value={projectId} onChange={e => setProjectId(e.target.value)} aria-label="Project" className={selectClass}>
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          <select value={personId} onChange={e => setPersonId(e.target.value)} aria-label="Person" className={selectClass}>
+            <option value="">Everyone</option>
+            {people.map(person => (
+              <option key={person.id} value={person.id}>{person.name}</option>
+            ))}
+            <option value="none">No person</option>
+          </select>
+          <select value={tagId} onChange={e => setTagId(e.target.value)} aria-label="Tag" className={selectClass}>
+            <option value="">All tags</option>
+            {tags.map(tag => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+          <select
+            value={source}
+            onChange={e => setSource(e.target.value as TimeSource | '')}
+            aria-label="Source"
+            className={selectClass}
+          >
+            <option value="">All time</option>
+            <option value="pomodoro">Pomodoro sessions</option>
+            <option value="manual">Timers and manual entries</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="flex-1 overflow-auto p-4">
+        {loading && !report ? (
+          <div className="flex items-center justify-center h-full min-h-[400px]">
+            <Loader2 className="w-8 h-8 text-primary-500 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="max-w-md mx-auto mt-12 p-6 bg-red-50 dark:bg-red-900/20 rounded-lg text-center">
+            <p className="text-red-600 dark:text-red-400 mb-2">Error loading the report</p>
+            <p className="text-sm text-red-500 dark:text-red-300">{error}</p>
+          </div>
+        ) : report && report.groups.length === 0 ? (
+          <p className="mt-12 text-center text-gray-600 dark:text-gray-400">No time was logged in this range.</p>
+        ) : report && (
+          <div className={clsx('transition-opacity', loading && 'opacity-60')}>
+            <table className="w-full bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                  <th className="px-3 py-2 text-left font-medium">{GROUPINGS.find(g => g.value === report.group_by)?.label}</th>
+                  <th className="px-3 py-2 text-left font-medium w-1/3">Share</th>
+                  <th className="px-3 py-2 text-right font-medium">Hours</th>
+                  <th className="px-3 py-2 text-right font-medium">Entries</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.groups.map(group => (
+                  <tr key={group.key} className="border-b border-gray-100 dark:border-gray-700/60">
+                    <td className="px-3 py-2">
+                      <div className="text-gray-900 dark:text-gray-100">{group.label}</div>
+                      {group.project_name && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{group.project_name}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700">
+                        <div
+                          className="flex h-2 rounded-full overflow-hidden bg-primary-500"
+                          style={{ width: `${largest > 0 ? (group.total_us / largest) * 100 : 0}%` }}
+                          title={group.pomodoro_us > 0 ? `${formatHours(group.pomodoro_us)} from pomodoros` : undefined}
+                        >
+                          {group.pomodoro_us > 0 && (
+                            <div
+                              className="h-2"
+                              style={{
+                                width: `${(group.pomodoro_us / group.total_us) * 100}%`,
+                                backgroundColor: POMODORO_SESSION_CONFIG.work.color,
+                              }}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-gray-900 dark:text-gray-100">
+                      {formatHours(group.total_us)}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-gray-600 dark:text-gray-400">{group.entry_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.group_by === 'tag' && (
+              <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                Time on a task with several tags counts toward each of them, so tags can add up to more than the total.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TimeReportsView;
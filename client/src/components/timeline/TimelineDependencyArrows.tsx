@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import type { TaskDependency } from '../../types';
+
+// Bar geometry as laid out by TimelineView (horizontal in %, vertical in px)
+export interface TimelineBarLayout {
+  left: number;
+  width: number;
+  top: number;
+  height: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+interface TimelineDependencyArrowsProps {
+  dependencies: TaskDependency[];
+  layout: Map<number, TimelineBarLayout>;
+  criticalTaskIds?: Set<number>;
+}
+
+const ELBOW = 8;
+
+// Build an orthogonal connector path between two points
+function buildPath(x1: number, y1: number, x2: number, y2: number, fromStart: boolean): string {
+  if (fromStart) {
+    // Start-to-start: leave from the left edge of the blocking bar
+    const x = Math.min(x1, x2) - ELBOW;
+    return `M ${x1} ${y1} H ${x} V ${y2} H ${x2}`;
+  }
+  if (x2 - x1 >= ELBOW * 2) {
+    return `M ${x1} ${y1} H ${x1 + ELBOW} V ${y2} H ${x2}`;
+  }
+  // Successor starts before predecessor ends: route around between rows
+  const yMid = y2 > y1 ? y1 + 20 : y1 - 20;
+  return `M ${x1} ${y1} H ${x1 + ELBOW} V ${yMid} H ${x2 - ELBOW} V ${y2} H ${x2}`;
+}
+
+export function TimelineDependencyArrows({ dependencies, layout, criticalTaskIds }: TimelineDependencyArrowsProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  // Track rendered width so percentage positions can be turned into pixels
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const observer = new ResizeObserver(entries => {
+      setContainerWidth(entries[0].contentRect.width);
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute inset-0 w-full h-full pointer-events-none z-[5] overflow-visible"
+      aria-hidden="true"
+    >
+      <defs>
+        <marker id="timeline-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400 dark:fill-gray-500" />
+        </marker>
+        <marker id="timeline-arrow-critical" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-rose-600" />
+        </marker>
+        <marker id="timeline-arrow-conflict" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-red-500" />
+        </marker>
+      </defs>
+
+      {containerWidth > 0 && dependencies.map(dependency => {
+        const from = layout.get(dependency.blocking_task_id);
+        const to = layout.get(dependency.blocked_task_id);
+        if (!from || !to) return null;
+
+        const fromStart = dependency.dependency_type === 'start_to_start';
+        const x1 = ((fromStart ? from.left : from.left + from.width) / 100) * containerWidth;
+        const y1 = from.top + from.height / 2;
+        const x2 = (to.left / 100) * containerWidth;
+        const y2 = to.top + to.height / 2;
+
+        // Flag links whose dates contradict the dependency
+        const conflict = fromStart
+          ? to.startDate < from.startDate
+          : to.startDate < from.endDate;
+
+        // A link is on the critical path when both ends are critical and it has no slack
+        const critical = !conflict
+          && criticalTaskIds?.has(dependency.blocking_task_id)
+          && criticalTaskIds?.has(dependency.blocked_task_id)
+          && (fromStart ? to.startDate : from.endDate).getTime() === to.startDate.getTime();
+
+        return (
+          <path
+            key={dependency.id}
+            d={buildPath(x1, y1, x2, y2, fromStart)}
+            fill="none"
+            strokeWidth={critical ? 2 : 1.5}
+            strokeDasharray={conflict ? '4 3' : undefined}
+            className={clsx(
+              conflict && 'stroke-red-500',
+              critical && 'stroke-rose-600',
+              !conflict && !critical && 'stroke-gray-400 dark:stroke-gray-500'
+            )}
+            markerEnd={
+              conflict
+                ? 'url(#timeline-arrow-conflict)'
+                : critical
+                  ? 'url(#timeline-arrow-critical)'
+                  : 'url(#timeline-arrow)'
+            }
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+export default TimelineDependencyArrows;
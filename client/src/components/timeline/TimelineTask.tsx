@@ -3,46 +3,35 @@
 import React, { useMemo, useState } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import type { Task, TaskStatus, TaskPriority } from '../../types';
-import { STATUS_CONFIG, PRIORITY_CONFIG } from '../../types';
+import type { Task, TaskPriority } from '../../types';
+import { PRIORITY_CONFIG } from '../../types';
+import type { ScheduledTask } from '../../utils/schedule';
 import { AppContextMenu, type AppContextMenuItem } from '../common/AppContextMenu';
+import { useStatuses } from '../../context/StatusContext';
+
+// What a pointer drag on a bar changes: both dates, or one edge
+export type TimelineDragMode = 'move' | 'resize-start' | 'resize-end';
 
 interface TimelineTaskProps {
   task: Task;
   left: number;
   width: number;
+  top?: number;
+  isBlocked?: boolean;
+  blockingTasks?: Task[];
+  schedule?: ScheduledTask;
+  isDragging?: boolean;
   onClick?: (task: Task) => void;
+  onDragStart?: (task: Task, mode: TimelineDragMode, event: React.PointerEvent) => void;
   onCreateSubTask?: (parentTaskId: number) => void;
   onDelete?: (task: Task) => void;
 }
 
-// Get status color for task bar
-const getStatusColorClass = (status: TaskStatus): string => {
-  const colorMap: Record<TaskStatus, string> = {
-    backlog: 'bg-gray-400',
-    todo: 'bg-blue-500',
-    in_progress: 'bg-amber-500',
-    review: 'bg-purple-500',
-    done: 'bg-green-500',
-  };
-  return colorMap[status];
-};
-
-// Get status border color
-const getStatusBorderClass = (status: TaskStatus): string => {
-  const colorMap: Record<TaskStatus, string> = {
-    backlog: 'border-gray-500',
-    todo: 'border-blue-600',
-    in_progress: 'border-amber-600',
-    review: 'border-purple-600',
-    done: 'border-green-600',
-  };
-  return colorMap[status];
-};
-
-export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDelete }: TimelineTaskProps) {
+export function TimelineTask({ task, left, width, top, isBlocked = false, blockingTasks = [], schedule, isDragging = false, onClick, onDragStart, onCreateSubTask, onDelete }: TimelineTaskProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [contextMenuPosition, setContextMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const { getStatus } = useStatuses();
+  const status = getStatus(task.status);
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -55,6 +44,13 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
     setContextMenuPosition({ x: event.clientX, y: event.clientY });
   };
 
+  const handlePointerDown = (mode: TimelineDragMode) => (event: React.PointerEvent) => {
+    // Primary button only; right click opens the context menu
+    if (!onDragStart || event.button !== 0) return;
+    event.stopPropagation();
+    onDragStart(task, mode, event);
+  };
+
   const closeContextMenu = () => {
     setContextMenuPosition(null);
   };
@@ -88,9 +84,9 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
     return items;
   }, [onClick, onCreateSubTask, onDelete, task]);
 
-  // Calculate progress if task is in progress
+  // Calculate progress if the task's status is in the active category
   const getProgress = (): number | null => {
-    if (task.status !== 'in_progress' || !task.start_date || !task.due_date) {
+    if (status.category !== 'active' || !task.start_date || !task.due_date) {
       return null;
     }
 
@@ -111,9 +107,10 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
   return (
     <>
     <div
-      className="relative my-1"
+      className="relative"
       style={{
         position: 'absolute',
+        top,
         left: `${left}%`,
         width: `${Math.max(width, 2)}%`,
       }}
@@ -124,6 +121,7 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
       {/* Task Bar */}
       <button
         onClick={handleClick}
+        onPointerDown={handlePointerDown('move')}
         onKeyDown={(event) => {
           if (event.key === 'ContextMenu' || (event.shiftKey && event.key === 'F10')) {
             event.preventDefault();
@@ -134,12 +132,15 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
         className={twMerge(
           clsx(
             'w-full h-8 rounded-md border-l-2 transition-all duration-150',
-            'cursor-pointer',
-            getStatusColorClass(task.status),
-            getStatusBorderClass(task.status),
-            isHovered && 'ring-2 ring-offset-1 ring-gray-400 scale-y-110'
+            onDragStart ? 'cursor-grab touch-none' : 'cursor-pointer',
+            'border-black/20',
+            schedule?.isCritical && 'bg-rose-600 border-rose-800',
+            isBlocked && 'ring-2 ring-red-500 ring-offset-1',
+            isHovered && 'ring-2 ring-offset-1 ring-gray-400 scale-y-110',
+            isDragging && 'cursor-grabbing opacity-80 shadow-lg ring-2 ring-offset-1 ring-primary-500'
           )
         )}
+        style={schedule?.isCritical ? undefined : { backgroundColor: status.color }}
         aria-label={`Task: ${task.title}`}
       >
         {/* Progress indicator */}
@@ -151,8 +152,24 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
         )}
       </button>
 
+      {/* Resize handles */}
+      {onDragStart && (
+        <>
+          <div
+            className="absolute inset-y-0 left-0 w-2 cursor-ew-resize touch-none rounded-l-md hover:bg-black/20"
+            onPointerDown={handlePointerDown('resize-start')}
+            aria-hidden="true"
+          />
+          <div
+            className="absolute inset-y-0 right-0 w-2 cursor-ew-resize touch-none rounded-r-md hover:bg-black/20"
+            onPointerDown={handlePointerDown('resize-end')}
+            aria-hidden="true"
+          />
+        </>
+      )}
+
       {/* Hover tooltip */}
-      {isHovered && (
+      {isHovered && !isDragging && (
         <div
           className={twMerge(
             clsx(
@@ -171,10 +188,10 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
             <div className="flex items-center gap-2">
               <span
                 className="w-2 h-2 rounded-full"
-                style={{ backgroundColor: STATUS_CONFIG[task.status].color }}
+                style={{ backgroundColor: status.color }}
               />
               <span className="text-gray-600 dark:text-gray-400">
-                {STATUS_CONFIG[task.status].label}
+                {status.name}
               </span>
             </div>
             <div className="flex items-center gap-2">
@@ -186,6 +203,26 @@ export function TimelineTask({ task, left, width, onClick, onCreateSubTask, onDe
                 {PRIORITY_CONFIG[task.priority].label} priority
               </span>
             </div>
+            {blockingTasks.length > 0 && (
+              <div className={twMerge(clsx(
+                'text-xs',
+                isBlocked ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+              ))}>
+                {isBlocked ? 'Blocked by' : 'Depends on'}{' '}
+                {blockingTasks.map(t => t.title).join(', ')}
+              </div>
+            )}
+            {schedule && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Earliest: {schedule.start.toLocaleDateString()} -{' '}
+                {new Date(schedule.end.getTime() - 86400000).toLocaleDateString()}
+                <div className={schedule.isCritical ? 'text-rose-600 dark:text-rose-400 font-medium' : undefined}>
+                  {schedule.isCritical
+                    ? 'On the critical path'
+                    : `${schedule.slackDays} day${schedule.slackDays !== 1 ? 's' : ''} of slack`}
+                </div>
+              </div>
+            )}
             {task.start_date && task.due_date && (
               <div className="text-gray-500 dark:text-gray-500 text-xs mt-2">
                 {new Date(task.start_date).toLocaleDateString()} -{' '}
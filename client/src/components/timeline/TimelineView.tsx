@@ -1,21 +1,30 @@
 'use client';
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { format, addDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, addMonths, eachDayOfInterval, differenceInDays, differenceInMilliseconds } from 'date-fns';
-import { ZoomIn, ZoomOut, ChevronLeft, ChevronRight } from 'lucide-react';
+import { format, addDays, addWeeks, startOfWeek, endOfWeek, startOfMonth, endOfMonth, addMonths, eachDayOfInterval, differenceInDays, differenceInMilliseconds } from 'date-fns';
+import { ZoomIn, ZoomOut, ChevronLeft, ChevronRight, CalendarClock } from 'lucide-react';
 import { useTasks } from '../../context/TaskContext';
 import { useProjects } from '../../context/ProjectContext';
 import { useApp } from '../../context/AppContext';
+import { useStatuses } from '../../context/StatusContext';
 import type { Task, TaskStatus, CreateTaskDTO, UpdateTaskDTO } from '../../types';
-import { STATUS_CONFIG } from '../../types';
 import { Modal } from '../common/Modal';
 import { TaskForm } from '../common/TaskForm';
-import TimelineTask from './TimelineTask';
+import TimelineTask, { type TimelineDragMode } from './TimelineTask';
+import TimelineDependencyArrows, { type TimelineBarLayout } from './TimelineDependencyArrows';
+import { computeSchedule, getDownstreamShifts, parseTaskDate, toDateString } from '../../utils/schedule';
 
 type ZoomLevel = 'day' | 'week' | 'month';
 
+const ROW_HEIGHT = 40;
+const ROW_OFFSET = 10;
+const BAR_HEIGHT = 32;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Pointer travel (px) before a press on a bar counts as a drag rather than a click
+const DRAG_THRESHOLD = 3;
+
 // Get tasks with date range for timeline
 interface TimelineData {
   task: Task;
@@ -26,15 +35,48 @@ interface TimelineData {
   row: number;
 }
 
+// Bar being dragged, with its snapped preview dates
+interface TimelineDrag {
+  task: Task;
+  mode: TimelineDragMode;
+  originX: number;
+  containerWidth: number;
+  baseStart: Date;
+  baseDue: Date;
+  start: Date;
+  due: Date;
+  moved: boolean;
+}
+
+// Shift a date by a dragged number of days, snapped to the zoom level's grid unit
+const snapShift = (date: Date, days: number, zoomLevel: ZoomLevel): Date => {
+  switch (zoomLevel) {
+    case 'week':
+      return addWeeks(date, Math.round(days / 7));
+    case 'month':
+      return addMonths(date, Math.round(days / 30));
+    default:
+      return addDays(date, Math.round(days));
+  }
+};
+
 export function TimelineView() {
-  const { tasks, createTask, updateTask, deleteTask } = useTasks();
+  const { tasks, dependencies, isTaskBlocked, getBlockingTasks, createTask, updateTask, rescheduleTasks, deleteTask } = useTasks();
   const { currentProject } = useProjects();
   const { openSubTaskModal } = useApp();
+  const { workflow, getStatus } = useStatuses();
+  const statusCategory = useCallback((status: TaskStatus) => getStatus(status).category, [getStatus]);
   const [zoomLevel, setZoomLevel] = useState<ZoomLevel>('week');
   const [currentDate, setCurrentDate] = useState(new Date());
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [scheduleMode, setScheduleMode] = useState(false);
+  const [shiftDependents, setShiftDependents] = useState(true);
+  const [drag, setDrag] = useState<TimelineDrag | null>(null);
+  const dragRef = useRef<TimelineDrag | null>(null);
+  const suppressClickRef = useRef(false);
+  const barsContainerRef = useRef<HTMLDivElement>(null);
 
   // Calculate date range based on zoom level
   const dateRange = useMemo(() => {
@@ -70,11 +112,35 @@ export function TimelineView() {
     return { start, end, days, daysToShow };
   }, [zoomLevel, currentDate]);
 
+  // Dependency-driven schedule (only computed in Schedule mode)
+  const schedule = useMemo(
+    () => (scheduleMode ? computeSchedule(tasks, dependencies, statusCategory) : null),
+    [scheduleMode, tasks, dependencies, statusCategory]
+  );
+
+  const criticalTaskIds = useMemo(
+    () => (schedule ? new Set(schedule.criticalPath) : undefined),
+    [schedule]
+  );
+
   // Filter and calculate positions for tasks
   const timelineTasks = useMemo(() => {
-    const tasksWithDates = tasks.filter(
-      (task) => task.start_date && task.due_date
-    );
+    // In Schedule mode bars use computed earliest dates; otherwise each task's own dates
+    const tasksWithDates = schedule
+      ? tasks
+          .filter((task) => schedule.tasks.has(task.id))
+          .map((task) => ({
+            task,
+            taskStart: schedule.tasks.get(task.id)!.start,
+            taskEnd: schedule.tasks.get(task.id)!.end,
+          }))
+      : tasks
+          .filter((task) => task.start_date && task.due_date)
+          .map((task) => ({
+            task,
+            taskStart: new Date(task.start_date!),
+            taskEnd: new Date(task.due_date!),
+          }));
 
     const { start, end, daysToShow } = dateRange;
     const totalDuration = differenceInMilliseconds(end, start) || 1;
@@ -83,10 +149,7 @@ export function TimelineView() {
     const rows: Array<{ end: Date }> = [];
     const data: TimelineData[] = [];
 
-    tasksWithDates.forEach((task) => {
-      const taskStart = new Date(task.start_date!);
-      const taskEnd = new Date(task.due_date!);
-
+    tasksWithDates.forEach(({ task, taskStart, taskEnd }) => {
       // Skip tasks outside the visible range
       if (taskEnd < start || taskStart > end) return;
 
@@ -125,7 +188,49 @@ export function TimelineView() {
       tasks: data,
       rowsNeeded: rows.length,
     };
-  }, [tasks, dateRange]);
+  }, [tasks, schedule, dateRange]);
+
+  // Bars as displayed: the dragged bar follows its preview dates but keeps its row
+  const displayedTasks = useMemo(() => {
+    if (!drag?.moved) return timelineTasks.tasks;
+
+    const { start, end } = dateRange;
+    const totalDuration = differenceInMilliseconds(end, start) || 1;
+
+    return timelineTasks.tasks.map((item) => {
+      if (item.task.id !== drag.task.id) return item;
+
+      // Schedule mode bars end on the day after the due date
+      const startDate = drag.start;
+      const endDate = schedule ? addDays(drag.due, 1) : drag.due;
+      const visibleStart = Math.max(startDate.getTime(), start.getTime());
+      const visibleEnd = Math.max(visibleStart, Math.min(endDate.getTime(), end.getTime()));
+
+      return {
+        ...item,
+        startDate,
+        endDate,
+        left: Math.max(0, ((visibleStart - start.getTime()) / totalDuration) * 100),
+        width: Math.max(1, ((visibleEnd - visibleStart) / totalDuration) * 100),
+      };
+    });
+  }, [timelineTasks, drag, dateRange, schedule]);
+
+  // Bar positions keyed by task id, used to draw dependency connectors
+  const barLayout = useMemo(() => {
+    const layout = new Map<number, TimelineBarLayout>();
+    displayedTasks.forEach((item) => {
+      layout.set(item.task.id, {
+        left: item.left,
+        width: item.width,
+        top: item.row * ROW_HEIGHT + ROW_OFFSET,
+        height: BAR_HEIGHT,
+        startDate: item.startDate,
+        endDate: item.endDate,
+      });
+    });
+    return layout;
+  }, [displayedTasks]);
 
   // Navigate timeline
   const handleNavigate = useCallback(
@@ -148,6 +253,8 @@ export function TimelineView() {
 
   // Handle task click
   const handleTaskClick = useCallback((task: Task) => {
+    // The click that ends a drag should not open the form
+    if (suppressClickRef.current) return;
     setSelectedTask(task);
     setIsModalOpen(true);
   }, []);
@@ -157,7 +264,7 @@ export function TimelineView() {
   }, [openSubTaskModal]);
 
   const handleDeleteTask = useCallback(async (task: Task) => {
-    const shouldDelete = window.confirm(`Delete task "${task.title}"? This cannot be undone.`);
+    const shouldDelete = window.confirm(`Delete task "${task.title}" and its subtasks?`);
     if (!shouldDelete) {
       return;
     }
@@ -175,13 +282,139 @@ export function TimelineView() {
     setSelectedTask(null);
   }, []);
 
+  // Push dependents later so they still start after the rescheduled task
+  const applyDownstreamShifts = useCallback(
+    async (updatedTask: Task) => {
+      if (!scheduleMode || !shiftDependents || !updatedTask.start_date || !updatedTask.due_date) return;
+
+      const shifts = getDownstreamShifts(
+        tasks.map((t) => (t.id === updatedTask.id ? updatedTask : t)),
+        dependencies,
+        updatedTask.id,
+        parseTaskDate(updatedTask.start_date),
+        parseTaskDate(updatedTask.due_date),
+        statusCategory
+      );
+      if (shifts.length > 0) {
+        await rescheduleTasks(shifts);
+      }
+    },
+    [scheduleMode, shiftDependents, tasks, dependencies, rescheduleTasks, statusCategory]
+  );
+
+  const updateDrag = useCallback((next: TimelineDrag | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  }, []);
+
+  // Start dragging a bar (move) or one of its edges (resize)
+  const handleDragStart = useCallback(
+    (task: Task, mode: TimelineDragMode, event: React.PointerEvent) => {
+      const item = timelineTasks.tasks.find((t) => t.task.id === task.id);
+      const container = barsContainerRef.current;
+      if (!item || !container) return;
+
+      // Drag from the task's own dates; in Schedule mode from the computed ones
+      const baseStart = !schedule && task.start_date ? parseTaskDate(task.start_date) : item.startDate;
+      const baseDue = !schedule && task.due_date ? parseTaskDate(task.due_date) : addDays(item.endDate, -1);
+
+      updateDrag({
+        task,
+        mode,
+        originX: event.clientX,
+        containerWidth: container.getBoundingClientRect().width || 1,
+        baseStart,
+        baseDue,
+        start: baseStart,
+        due: baseDue,
+        moved: false,
+      });
+    },
+    [timelineTasks, schedule, updateDrag]
+  );
+
+  // Track the pointer while a drag is active and commit the snapped dates on release
+  const isDragging = drag !== null;
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+
+      const dx = event.clientX - current.originX;
+      const totalDays = differenceInMilliseconds(dateRange.end, dateRange.start) / DAY_MS;
+      const days = (dx / current.containerWidth) * totalDays;
+
+      let start = current.baseStart;
+      let due = current.baseDue;
+      if (current.mode === 'move') {
+        start = snapShift(current.baseStart, days, zoomLevel);
+        due = snapShift(current.baseDue, days, zoomLevel);
+      } else if (current.mode === 'resize-start') {
+        const snapped = snapShift(current.baseStart, days, zoomLevel);
+        start = snapped > current.baseDue ? current.baseDue : snapped;
+      } else {
+        const snapped = snapShift(current.baseDue, days, zoomLevel);
+        due = snapped < current.baseStart ? current.baseStart : snapped;
+      }
+
+      updateDrag({
+        ...current,
+        start,
+        due,
+        moved: current.moved || Math.abs(dx) > DRAG_THRESHOLD,
+      });
+    };
+
+    const handlePointerUp = async () => {
+      const current = dragRef.current;
+      updateDrag(null);
+      if (!current?.moved) return;
+
+      suppressClickRef.current = true;
+      setTimeout(() => {
+        suppressClickRef.current = false;
+      }, 0);
+
+      const startDate = toDateString(current.start);
+      const dueDate = toDateString(current.due);
+      if (startDate === toDateString(current.baseStart) && dueDate === toDateString(current.baseDue)) return;
+
+      try {
+        // updateTask applies the new dates optimistically and rolls back if the server rejects them
+        const updatedTask = await updateTask(current.task.id, { start_date: startDate, due_date: dueDate });
+        await applyDownstreamShifts(updatedTask);
+      } catch (error) {
+        console.error('Failed to reschedule task:', error);
+      }
+    };
+
+    const handleCancel = () => updateDrag(null);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') handleCancel();
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handleCancel);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handleCancel);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isDragging, dateRange, zoomLevel, updateTask, applyDownstreamShifts, updateDrag]);
+
   // Handle form submit
   const handleSubmit = useCallback(
     async (data: CreateTaskDTO | UpdateTaskDTO) => {
       setIsSubmitting(true);
       try {
         if (selectedTask) {
-          await updateTask(selectedTask.id, data as UpdateTaskDTO);
+          const updatedTask = await updateTask(selectedTask.id, data as UpdateTaskDTO);
+          await applyDownstreamShifts(updatedTask);
         } else {
           await createTask(data as CreateTaskDTO);
         }
@@ -192,7 +425,7 @@ export function TimelineView() {
         setIsSubmitting(false);
       }
     },
-    [selectedTask, createTask, updateTask, handleCloseModal]
+    [selectedTask, createTask, updateTask, applyDownstreamShifts, handleCloseModal]
   );
 
   // Check if day is today
@@ -272,6 +505,33 @@ export function TimelineView() {
 
         {/* Zoom controls */}
         <div className="flex items-center gap-2">
+          {scheduleMode && (
+            <label className="flex items-center gap-1.5 mr-1 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={shiftDependents}
+                onChange={(e) => setShiftDependents(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              Shift dependents
+            </label>
+          )}
+          <button
+            onClick={() => setScheduleMode((prev) => !prev)}
+            className={twMerge(
+              clsx(
+                'flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md border mr-2',
+                scheduleMode
+                  ? 'bg-rose-600 text-white border-rose-600'
+                  : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+              )
+            )}
+            title="Lay out tasks by dependencies and estimates"
+            aria-pressed={scheduleMode}
+          >
+            <CalendarClock className="w-4 h-4" />
+            Schedule
+          </button>
           <button
             onClick={() => setZoomLevel('day')}
             className={twMerge(
@@ -326,7 +586,7 @@ export function TimelineView() {
               </span>
             </div>
             {/* Task rows */}
-            <div className="relative" style={{ height: timelineTasks.rowsNeeded * 40 + 20 }}>
+            <div className="relative" style={{ height: timelineTasks.rowsNeeded * ROW_HEIGHT + ROW_OFFSET * 2 }}>
               {timelineTasks.tasks.map((item, index) => (
                 <div
                   key={item.task.id}
@@ -336,7 +596,7 @@ export function TimelineView() {
                       'overflow-hidden'
                     )
                   )}
-                  style={{ top: item.row * 40 + 10, width: '100%' }}
+                  style={{ top: item.row * ROW_HEIGHT + ROW_OFFSET, width: '100%' }}
                 >
                   <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
                     {item.task.title}
@@ -397,8 +657,9 @@ export function TimelineView() {
 
               {/* Task bars container */}
               <div
-                className="relative"
-                style={{ height: timelineTasks.rowsNeeded * 40 + 20 }}
+                ref={barsContainerRef}
+                className={twMerge(clsx('relative', drag?.moved && 'select-none'))}
+                style={{ height: timelineTasks.rowsNeeded * ROW_HEIGHT + ROW_OFFSET * 2 }}
               >
                 {/* Grid lines */}
                 <div className="absolute inset-0 flex pointer-events-none">
@@ -430,14 +691,27 @@ export function TimelineView() {
                   </div>
                 )}
 
+                {/* Dependency connectors */}
+                <TimelineDependencyArrows
+                  dependencies={dependencies}
+                  layout={barLayout}
+                  criticalTaskIds={criticalTaskIds}
+                />
+
                 {/* Task bars */}
-                {timelineTasks.tasks.map((item) => (
+                {displayedTasks.map((item) => (
                   <TimelineTask
                     key={item.task.id}
                     task={item.task}
                     left={item.left}
                     width={item.width}
+                    top={item.row * ROW_HEIGHT + ROW_OFFSET}
+                    isBlocked={isTaskBlocked(item.task.id)}
+                    schedule={schedule?.tasks.get(item.task.id)}
+                    isDragging={drag?.task.id === item.task.id && drag.moved}
+                    blockingTasks={getBlockingTasks(item.task.id)}
                     onClick={handleTaskClick}
+                    onDragStart={handleDragStart}
                     onCreateSubTask={handleCreateSubTask}
                     onDelete={handleDeleteTask}
                   />
@@ -463,14 +737,14 @@ export function TimelineView() {
       {/* Legend */}
       <div className="mt-4 flex flex-wrap items-center gap-4">
         <span className="text-sm text-gray-600 dark:text-gray-400">Status:</span>
-        {Object.entries(STATUS_CONFIG).map(([key, config]) => (
-          <div key={key} className="flex items-center gap-2">
+        {workflow.map(status => (
+          <div key={status.key} className="flex items-center gap-2">
             <span
               className="w-3 h-3 rounded"
-              style={{ backgroundColor: config.color }}
+              style={{ backgroundColor: status.color }}
             />
             <span className="text-sm text-gray-600 dark:text-gray-400">
-              {config.label}
+              {status.name}
             </span>
           </div>
         ))}
@@ -478,6 +752,27 @@ export function TimelineView() {
           <div className="w-0.5 h-4 bg-red-500" />
           <span className="text-sm text-gray-600 dark:text-gray-400">Today</span>
         </div>
+        {schedule && (
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded bg-rose-600" />
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              Critical path
+              {schedule.finish && ` (finishes ${format(schedule.finish, 'MMM d, yyyy')})`}
+            </span>
+          </div>
+        )}
+        {dependencies.length > 0 && (
+          <>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-0.5 bg-gray-400" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">Dependency</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 border-t-2 border-dashed border-red-500" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">Date conflict</span>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Task Modal */}
@@ -0,0 +1,406 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { clsx } from 'clsx';
+import { addWeeks, format, isWeekend } from 'date-fns';
+import { ChevronDown, ChevronLeft, ChevronRight, Clock, Loader2, Plus } from 'lucide-react';
+import { api } from '../../services/api';
+import { useProjects } from '../../context/ProjectContext';
+import { useToast } from '../../context/ToastContext';
+import type { Task, Timesheet, TimesheetPerson, TimesheetRow } from '../../types';
+import { Button } from '../common/Button';
+import { parseTaskDate } from '../../utils/schedule';
+import { formatClockDuration, formatHours, localTimeZone, parseClockDuration, weekRange } from '../../utils/timesheet';
+
+const personKey = (person: TimesheetPerson) => person.person_id ?? 'none';
+const rowKey = (row: Pick<TimesheetRow, 'entity_type' | 'entity_id'>) => `${row.entity_type}:${row.entity_id}`;
+
+interface TimesheetCellProps {
+  value: number; // duration_us
+  disabled?: boolean;
+  label: string;
+  onSave: (durationUs: number) => Promise<void>;
+}
+
+// A day of a row, edited in place and saved when it loses focus
+function TimesheetCell({ value, disabled, label, onSave }: TimesheetCellProps) {
+  const toast = useToast();
+  const [text, setText] = useState(formatClockDuration(value));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setText(formatClockDuration(value));
+  }, [value]);
+
+  const commit = async () => {
+    const durationUs = parseClockDuration(text);
+    if (durationUs === null) {
+      toast.error('Invalid Duration', 'Enter hours and minutes such as 1:30, or 1.5');
+      setText(formatClockDuration(value));
+      return;
+    }
+    // Compare to the minute, as the cell shows
+    if (formatClockDuration(durationUs) === formatClockDuration(value)) {
+      setText(formatClockDuration(value));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(durationUs);
+    } catch (err) {
+      toast.error('Failed to Save Time', err instanceof Error ? err.message : 'Please try again');
+      setText(formatClockDuration(value));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      disabled={disabled || isSaving}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setText(formatClockDuration(value));
+          e.currentTarget.blur();
+        }
+      }}
+      aria-label={label}
+      title={disabled ? 'A timer is running on this day' : undefined}
+      placeholder="–"
+      className={clsx(
+        'w-full px-1 py-1 text-center text-sm tabular-nums rounded border border-transparent bg-transparent',
+        'hover:border-gray-300 focus:border-primary-500 focus:outline-none focus:bg-white dark:hover:border-gray-600 dark:focus:bg-gray-900',
+        'text-gray-900 dark:text-gray-100 placeholder:text-gray-300 dark:placeholder:text-gray-600',
+        'disabled:opacity-60 disabled:hover:border-transparent',
+        isSaving && 'animate-pulse'
+      )}
+    />
+  );
+}
+
+interface AddRowFormProps {
+  onAdd: (row: TimesheetRow) => void;
+  onCancel: () => void;
+}
+
+// Picks a task, or a project itself, to log time on
+function AddRowForm({ onAdd, onCancel }: AddRowFormProps) {
+  const { projects, currentProject } = useProjects();
+  const [projectId, setProjectId] = useState<number | null>(currentProject?.id ?? projects[0]?.id ?? null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [taskId, setTaskId] = useState('');
+
+  useEffect(() => {
+    setTaskId('');
+    if (!projectId) return;
+    let cancelled = false;
+    api.tasks.getAll({ project_id: projectId })
+      .then(loaded => {
+        if (!cancelled) setTasks(loaded);
+      })
+      .catch(err => console.error('Failed to load tasks:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleAdd = () => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    const task = tasks.find(t => String(t.id) === taskId);
+    onAdd({
+      entity_type: task ? 'task' : 'project',
+      entity_id: String(task ? task.id : project.id),
+      task_id: task ? task.id : null,
+      title: task ? task.title : project.name,
+      project_id: project.id,
+      project_name: project.name,
+      days: {},
+      total_us: 0,
+      running_days: [],
+    });
+  };
+
+  const selectClass =
+    'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 py-1">
+      <select
+        value={projectId ?? ''}
+        onChange={e => setProjectId(e.target.value ? Number(e.target.value) : null)}
+        aria-label="Project"
+        className={selectClass}
+      >
+        {projects.map(project => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+      </select>
+      <select value={taskId} onChange={e => setTaskId(e.target.value)} aria-label="Task" className={clsx(selectClass, 'max-w-xs')}>
+        <option value="">The project itself</option>
+        {tasks.map(task => (
+          <option key={task.id} value={task.id}>{task.title}</option>
+        ))}
+      </select>
+      <Button size="sm" onClick={handleAdd} disabled={!projectId}>
+        Add
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Time everyone logged in a week, by day. Each person's line opens into the tasks and
+ * projects they logged time on, where a day's time can be typed in.
+ */
+export function TimesheetView() {
+  const toast = useToast();
+  const [weekOf, setWeekOf] = useState(() => new Date());
+  const [sheet, setSheet] = useState<Timesheet | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [addedRows, setAddedRows] = useState<Record<string, TimesheetRow[]>>({});
+  const [addingFor, setAddingFor] = useState<string | null>(null);
+
+  const range = useMemo(() => weekRange(weekOf), [weekOf]);
+
+  const fetchSheet = useCallback(async () => {
+    setError(null);
+    try {
+      setSheet(await api.timesheet.get({ ...range, tz: localTimeZone() }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the timesheet');
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    setLoading(true);
+    setAddedRows({});
+    fetchSheet();
+  }, [fetchSheet]);
+
+  const toggle = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const saveCell = async (person: TimesheetPerson, row: TimesheetRow, day: string, durationUs: number) => {
+    await api.timesheet.updateCell({
+      person_id: person.person_id,
+      entity_type: row.entity_type,
+      entity_id: row.entity_id,
+      date: day,
+      duration_us: durationUs,
+      tz: localTimeZone(),
+    });
+    await fetchSheet();
+  };
+
+  // Rows with time this week, then rows added to log time on
+  const rowsOf = (person: TimesheetPerson) => {
+    const logged = new Set(person.rows.map(rowKey));
+    return [...person.rows, ...(addedRows[personKey(person)] ?? []).filter(r => !logged.has(rowKey(r)))];
+  };
+
+  const handleAddRow = (person: TimesheetPerson, row: TimesheetRow) => {
+    const key = personKey(person);
+    if (rowsOf(person).some(r => rowKey(r) === rowKey(row))) {
+      toast.info('Already Listed', `${row.title} is already on ${person.person_name}'s timesheet`);
+    } else {
+      setAddedRows(prev => ({ ...prev, [key]: [...(prev[key] ?? []), row] }));
+    }
+    setAddingFor(null);
+  };
+
+  const weekLabel = `${format(parseTaskDate(range.from), 'MMM d')} – ${format(parseTaskDate(range.to), 'MMM d, yyyy')}`;
+  const days = sheet?.days ?? [];
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex-shrink-0 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-100 dark:bg-primary-900/30 flex items-center justify-center">
+              <Clock className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">Timesheet</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {sheet ? `${formatHours(sheet.total_us)} logged this week` : 'Time logged by day'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setWeekOf(prev => addWeeks(prev, -1))}
+              className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+              aria-label="Previous week"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setWeekOf(prev => addWeeks(prev, 1))}
+              className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+              aria-label="Next week"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setWeekOf(new Date())}
+              className="px-3 py-1.5 text-sm font-medium rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200"
+            >
+              This week
+            </button>
+            <span className="ml-2 text-sm font-semibold text-gray-900 dark:text-gray-100 whitespace-nowrap">{weekLabel}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="flex-1 overflow-auto p-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-full min-h-[400px]">
+            <Loader2 className="w-8 h-8 text-primary-500 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="max-w-md mx-auto mt-12 p-6 bg-red-50 dark:bg-red-900/20 rounded-lg text-center">
+            <p className="text-red-600 dark:text-red-400 mb-2">Error loading the timesheet</p>
+            <p className="text-sm text-red-500 dark:text-red-300">{error}</p>
+          </div>
+        ) : sheet && sheet.people.length === 0 ? (
+          <p className="mt-12 text-center text-gray-600 dark:text-gray-400">Add people to log their time here.</p>
+        ) : sheet && (
+          <table className="w-full min-w-[720px] bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                <th className="px-3 py-2 text-left font-medium">Person</th>
+                {days.map(day => (
+                  <th
+                    key={day}
+                    className={clsx('px-1 py-2 w-20 font-medium text-center', isWeekend(parseTaskDate(day)) && 'bg-gray-50 dark:bg-gray-900/40')}
+                  >
+                    {format(parseTaskDate(day), 'EEE d')}
+                  </th>
+                ))}
+                <th className="px-3 py-2 w-20 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.people.map(person => {
+                const key = personKey(person);
+                const isOpen = expanded.has(key);
+                return (
+                  <React.Fragment key={key}>
+                    <tr className="border-b border-gray-100 dark:border-gray-700/60 hover:bg-gray-50 dark:hover:bg-gray-700/30">
+                      <td className="px-3 py-2">
+                        <button
+                          onClick={() => toggle(key)}
+                          className="flex items-center gap-1.5 font-medium text-gray-900 dark:text-gray-100"
+                          aria-expanded={isOpen}
+                        >
+                          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          {person.person_name}
+                        </button>
+                      </td>
+                      {days.map(day => (
+                        <td
+                          key={day}
+                          className={clsx(
+                            'px-1 py-2 text-center tabular-nums text-gray-700 dark:text-gray-300',
+                            isWeekend(parseTaskDate(day)) && 'bg-gray-50 dark:bg-gray-900/40'
+                          )}
+                        >
+                          {formatClockDuration(person.days[day] ?? 0)}
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right font-medium tabular-nums text-gray-900 dark:text-gray-100">
+                        {formatClockDuration(person.total_us)}
+                      </td>
+                    </tr>
+
+                    {isOpen && rowsOf(person).map(row => (
+                      <tr key={rowKey(row)} className="border-b border-gray-100 dark:border-gray-700/60">
+                        <td className="pl-9 pr-3 py-1">
+                          <div className="truncate text-gray-800 dark:text-gray-200" title={row.title}>{row.title}</div>
+                          {row.task_id !== null && (
+                            <div className="truncate text-xs text-gray-500 dark:text-gray-400">{row.project_name}</div>
+                          )}
+                        </td>
+                        {days.map(day => (
+                          <td key={day} className={clsx('px-1 py-1', isWeekend(parseTaskDate(day)) && 'bg-gray-50 dark:bg-gray-900/40')}>
+                            <TimesheetCell
+                              value={row.days[day] ?? 0}
+                              disabled={row.running_days.includes(day)}
+                              label={`${person.person_name}, ${row.title}, ${day}`}
+                              onSave={durationUs => saveCell(person, row, day, durationUs)}
+                            />
+                          </td>
+                        ))}
+                        <td className="px-3 py-1 text-right tabular-nums text-gray-700 dark:text-gray-300">
+                          {formatClockDuration(row.total_us)}
+                        </td>
+                      </tr>
+                    ))}
+
+                    {isOpen && (
+                      <tr className="border-b border-gray-100 dark:border-gray-700/60">
+                        <td colSpan={days.length + 2} className="pl-9 pr-3 py-1">
+                          {addingFor === key ? (
+                            <AddRowForm onAdd={row => handleAddRow(person, row)} onCancel={() => setAddingFor(null)} />
+                          ) : (
+                            <button
+                              onClick={() => setAddingFor(key)}
+                              className="flex items-center gap-1 py-1 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+                            >
+                              <Plus className="w-4 h-4" />
+                              Log time on a task
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="font-medium text-gray-900 dark:text-gray-100">
+                <td className="px-3 py-2">Total</td>
+                {days.map(day => (
+                  <td key={day} className="px-1 py-2 text-center tabular-nums">
+                    {formatClockDuration(sheet.day_totals[day] ?? 0)}
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-right tabular-nums">{formatClockDuration(sheet.total_us)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          Type hours and minutes (1:30) or hours (1.5). More time is logged as a new entry; less is taken off the
+          day&apos;s latest entries. Days with a running timer can&apos;t be changed.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default TimesheetView;
@@ -0,0 +1,308 @@
+'use client';
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { addDays, differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { Trash2, RotateCcw, Loader2, Folder, CheckSquare, StickyNote, User } from 'lucide-react';
+import { useProjects } from '../../context/ProjectContext';
+import { usePeople } from '../../context/PeopleContext';
+import { useTasks } from '../../context/TaskContext';
+import { useToast } from '../../context/ToastContext';
+import { getTrash, restoreTrashItem, deleteTrashItem, emptyTrash } from '../../services/api';
+import type { TrashEntityType, TrashItem } from '../../types';
+import { TRASH_ENTITY_CONFIG } from '../../types';
+import { ConfirmModal } from '../common/Modal';
+import { Button } from '../common/Button';
+
+const ENTITY_ICONS: Record<TrashEntityType, React.ElementType> = {
+  project: Folder,
+  task: CheckSquare,
+  note: StickyNote,
+  person: User,
+};
+
+const ENTITY_TYPES = Object.keys(TRASH_ENTITY_CONFIG) as TrashEntityType[];
+
+// Server timestamps are UTC without a zone suffix
+function parseDeletedAt(deletedAt: string): Date {
+  return new Date(deletedAt.replace(' ', 'T') + 'Z');
+}
+
+export function TrashView() {
+  const { fetchProjects, currentProject } = useProjects();
+  const { fetchPeople } = usePeople();
+  const { fetchTasks, fetchTasksByProject } = useTasks();
+  const toast = useToast();
+
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<TrashEntityType | ''>('');
+  const [busyItemKey, setBusyItemKey] = useState<string | null>(null);
+  const [deletingItem, setDeletingItem] = useState<TrashItem | null>(null);
+  const [isEmptyConfirmOpen, setIsEmptyConfirmOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchTrash = useCallback(async () => {
+    setError(null);
+    try {
+      const trash = await getTrash();
+      setItems(trash.items);
+      setRetentionDays(trash.retention_days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  // Bring the rest of the app up to date with restored or removed items
+  const refreshEntities = useCallback(async (entityType: TrashEntityType | null) => {
+    const refreshes: Promise<void>[] = [];
+    if (entityType === null || entityType === 'project') refreshes.push(fetchProjects());
+    if (entityType === null || entityType === 'person') refreshes.push(fetchPeople());
+    if (entityType === null || entityType === 'project' || entityType === 'task') {
+      refreshes.push(currentProject ? fetchTasksByProject(currentProject.id) : fetchTasks());
+    }
+    await Promise.all(refreshes);
+  }, [fetchProjects, fetchPeople, fetchTasks, fetchTasksByProject, currentProject]);
+
+  const counts = useMemo(() => {
+    const result: Record<TrashEntityType, number> = { project: 0, task: 0, note: 0, person: 0 };
+    for (const item of items) {
+      result[item.entity_type] += 1;
+    }
+    return result;
+  }, [items]);
+
+  const filteredItems = useMemo(
+    () => (typeFilter ? items.filter(item => item.entity_type === typeFilter) : items),
+    [items, typeFilter]
+  );
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyItemKey(`${item.entity_type}:${item.id}`);
+    try {
+      await restoreTrashItem(item.entity_type, item.id);
+      setItems(prev => prev.filter(i => i !== item));
+      toast.success(`${TRASH_ENTITY_CONFIG[item.entity_type].label} restored`, `"${item.name}" has been restored.`);
+      await refreshEntities(item.entity_type);
+    } catch (err) {
+      toast.error('Failed to restore', err instanceof Error ? err.message : undefined);
+    } finally {
+      setBusyItemKey(null);
+    }
+  };
+
+  const handleDeleteForever = async () => {
+    if (!deletingItem) return;
+    setIsSubmitting(true);
+    try {
+      await deleteTrashItem(deletingItem.entity_type, deletingItem.id);
+      setItems(prev => prev.filter(i => i !== deletingItem));
+      toast.success('Permanently deleted', `"${deletingItem.name}" has been permanently deleted.`);
+      setDeletingItem(null);
+    } catch (err) {
+      toast.error('Failed to delete', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setIsSubmitting(true);
+    try {
+      await emptyTrash();
+      // Projects with invoices are kept, so reload rather than clearing the list
+      await fetchTrash();
+      toast.success('Trash emptied', 'Items in the trash have been permanently deleted.');
+      setIsEmptyConfirmOpen(false);
+    } catch (err) {
+      toast.error('Failed to empty trash', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Loading state
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-primary-500 animate-spin mx-auto mb-3" />
+          <p className="text-gray-600 dark:text-gray-400">Loading trash...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-full min-h-[400px]">
+        <div className="text-center max-w-md p-6 bg-red-50 dark:bg-red-900/20 rounded-lg">
+          <p className="text-red-600 dark:text-red-400 mb-2">Error loading trash</p>
+          <p className="text-sm text-red-500 dark:text-red-300">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex-shrink-0 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-100 dark:bg-primary-900/30 flex items-center justify-center">
+              <Trash2 className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">Trash</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {retentionDays > 0
+                  ? `Items are permanently deleted ${retentionDays} day${retentionDays !== 1 ? 's' : ''} after they are moved here`
+                  : 'Items stay here until you delete them permanently'}
+              </p>
+            </div>
+          </div>
+
+          <Button
+            variant="danger"
+            size="sm"
+            leftIcon={<Trash2 className="w-4 h-4" />}
+            onClick={() => setIsEmptyConfirmOpen(true)}
+            disabled={items.length === 0}
+          >
+            Empty Trash
+          </Button>
+        </div>
+
+        {/* Type Filter */}
+        <div className="mt-4 flex flex-wrap gap-2">
+          {(['', ...ENTITY_TYPES] as const).map(type => (
+            <button
+              key={type || 'all'}
+              onClick={() => setTypeFilter(type)}
+              className={twMerge(
+                clsx(
+                  'px-3 py-1.5 rounded-full text-sm font-medium transition-colors',
+                  typeFilter === type
+                    ? 'bg-primary-50 text-primary-600 dark:bg-primary-900/20 dark:text-primary-400'
+                    : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
+                )
+              )}
+            >
+              {type ? TRASH_ENTITY_CONFIG[type].pluralLabel : 'All'}
+              <span className="ml-1.5 text-xs opacity-70">{type ? counts[type] : items.length}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Trash List */}
+      <div className="flex-1 overflow-auto p-4">
+        {filteredItems.length === 0 ? (
+          // Empty state
+          <div className="flex flex-col items-center justify-center h-full min-h-[400px] text-center">
+            <div className="w-16 h-16 rounded-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center mb-4">
+              <Trash2 className="w-8 h-8 text-gray-400 dark:text-gray-500" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+              {items.length === 0 ? 'Trash is empty' : 'Nothing of this type in the trash'}
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 max-w-sm">
+              Deleted projects, tasks, notes and people show up here so they can be restored.
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            {filteredItems.map(item => {
+              const Icon = ENTITY_ICONS[item.entity_type];
+              const deletedAt = parseDeletedAt(item.deleted_at);
+              const daysLeft = retentionDays > 0
+                ? Math.max(0, differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date()))
+                : null;
+              const isBusy = busyItemKey === `${item.entity_type}:${item.id}`;
+
+              return (
+                <li key={`${item.entity_type}:${item.id}`} className="flex items-center gap-3 p-3">
+                  <span className="flex items-center justify-center w-8 h-8 flex-shrink-0 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+                    <Icon className="w-4 h-4" />
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{item.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {TRASH_ENTITY_CONFIG[item.entity_type].label}
+                      {item.parent_name && ` · ${item.parent_name}`}
+                      {' · '}
+                      <span title={deletedAt.toLocaleString()}>
+                        Deleted {formatDistanceToNow(deletedAt, { addSuffix: true })}
+                      </span>
+                      {daysLeft !== null && ` · ${daysLeft === 0 ? 'Deleted permanently today' : `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left`}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    leftIcon={<RotateCcw className="w-4 h-4" />}
+                    onClick={() => handleRestore(item)}
+                    isLoading={isBusy}
+                    disabled={busyItemKey !== null}
+                  >
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeletingItem(item)}
+                    disabled={busyItemKey !== null}
+                    aria-label={`Delete "${item.name}" permanently`}
+                    title="Delete permanently"
+                    className="text-red-600 dark:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Delete Permanently Confirmation Modal */}
+      <ConfirmModal
+        isOpen={deletingItem !== null}
+        onClose={() => setDeletingItem(null)}
+        onConfirm={handleDeleteForever}
+        title="Delete Permanently"
+        message={`Permanently delete "${deletingItem?.name}"${deletingItem?.entity_type === 'project' ? ' with its subprojects and tasks' : ''}? This action cannot be undone.`}
+        confirmText="Delete Permanently"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isSubmitting}
+      />
+
+      {/* Empty Trash Confirmation Modal */}
+      <ConfirmModal
+        isOpen={isEmptyConfirmOpen}
+        onClose={() => setIsEmptyConfirmOpen(false)}
+        onConfirm={handleEmptyTrash}
+        title="Empty Trash"
+        message={`Permanently delete all ${items.length} item${items.length !== 1 ? 's' : ''} in the trash? This action cannot be undone.`}
+        confirmText="Empty Trash"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isSubmitting}
+      />
+    </div>
+  );
+}
+
+export default TrashView;
@@ -29,6 +29,9 @@ interface AppContextType {
   openPersonModal: (person?: Person) => void;
   openConfirmModal: (data: unknown) => void;
   openImportExportModal: () => void;
+  openStatusesModal: () => void;
+  openBillingModal: () => void;
+  openTimeTrackingModal: () => void;
   closeModal: () => void;
   
   // Theme
@@ -169,6 +172,36 @@ export function AppProvider({ children }: AppProviderProps) {
     });
   }, []);
   
+  const openStatusesModal = useCallback(() => {
+    setTaskModalParentId(null);
+    setProjectModalParentId(null);
+    setModal({
+      isOpen: true,
+      type: 'statuses',
+      data: null,
+    });
+  }, []);
+  
+  const openBillingModal = useCallback(() => {
+    setTaskModalParentId(null);
+    setProjectModalParentId(null);
+    setModal({
+      isOpen: true,
+      type: 'billing',
+      data: null,
+    });
+  }, []);
+  
+  const openTimeTrackingModal = useCallback(() => {
+    setTaskModalParentId(null);
+    setProjectModalParentId(null);
+    setModal({
+      isOpen: true,
+      type: 'timeTracking',
+      data: null,
+    });
+  }, []);
+  
   const closeModal = useCallback(() => {
     setTaskModalParentId(null);
     setProjectModalParentId(null);
@@ -197,6 +230,9 @@ export function AppProvider({ children }: AppProviderProps) {
     openPersonModal,
     openConfirmModal,
     openImportExportModal,
+    openStatusesModal,
+    openBillingModal,
+    openTimeTrackingModal,
     closeModal,
     theme,
     setTheme,
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useMemo, useCallback, type ReactNode } from 'react';
+import React, { createContext, useContext, useMemo, useCallback, useState, useEffect, type ReactNode } from 'react';
 import type { Person, CreatePersonDTO, UpdatePersonDTO } from '../types';
 import * as api from '../services/api';
 import { createCrudContext } from './utils/createCrudContext';
@@ -9,6 +9,7 @@ interface PeopleContextType {
   // State
   people: Person[];
   projectPeople: Person[];
+  currentPersonId: number | null; // who "me" is in task queries
   loading: boolean;
   error: string | null;
   
@@ -18,12 +19,15 @@ interface PeopleContextType {
   createPerson: (data: CreatePersonDTO) => Promise<Person>;
   updatePerson: (id: number, data: UpdatePersonDTO) => Promise<Person>;
   deletePerson: (id: number) => Promise<void>;
+  setCurrentPersonId: (id: number | null) => void;
   clearError: () => void;
   
   // Helpers
   getPersonById: (id: number) => Person | undefined;
 }
 
+const CURRENT_PERSON_KEY = 'currentPersonId';
+
 // Utility function to filter people by project
 function filterByProject(people: Person[], projectId: number | null | undefined): Person[] {
   if (!projectId) {
@@ -107,10 +111,30 @@ function PeopleProviderInner({ children, projectId }: PeopleProviderProps) {
   const getPersonById = useCallback((id: number): Person | undefined => {
     return baseGetPersonById(id);
   }, [baseGetPersonById]);
+
+  // The person using this browser, kept in localStorage as there are no accounts
+  const [currentPersonId, setCurrentPersonIdState] = useState<number | null>(null);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(CURRENT_PERSON_KEY);
+    if (stored) {
+      setCurrentPersonIdState(Number(stored));
+    }
+  }, []);
+
+  const setCurrentPersonId = useCallback((id: number | null) => {
+    setCurrentPersonIdState(id);
+    if (id === null) {
+      localStorage.removeItem(CURRENT_PERSON_KEY);
+    } else {
+      localStorage.setItem(CURRENT_PERSON_KEY, String(id));
+    }
+  }, []);
   
   const value: PeopleContextType = useMemo(() => ({
     people,
     projectPeople,
+    currentPersonId,
     loading,
     error,
     fetchPeople,
@@ -118,11 +142,13 @@ function PeopleProviderInner({ children, projectId }: PeopleProviderProps) {
     createPerson,
     updatePerson,
     deletePerson,
+    setCurrentPersonId,
     clearError,
     getPersonById,
   }), [
     people,
     projectPeople,
+    currentPersonId,
     loading,
     error,
     fetchPeople,
@@ -130,6 +156,7 @@ function PeopleProviderInner({ children, projectId }: PeopleProviderProps) {
     createPerson,
     updatePerson,
     deletePerson,
+    setCurrentPersonId,
     clearError,
     getPersonById,
   ]);
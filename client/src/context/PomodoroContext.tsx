@@ -7,6 +7,7 @@ import type {
   PomodoroDailyStats,
   StartPomodoroDTO,
   UpdatePomodoroSettingsDTO,
+  UpdatePomodoroSessionDTO,
   PomodoroSessionType,
 } from '../types';
 import * as api from '../services/api';
@@ -54,6 +55,8 @@ interface PomodoroContextType {
   
   // Actions - History & Stats
   fetchSessions: (filters?: { task_id?: number; date?: string; limit?: number }) => Promise<void>;
+  updateSession: (id: string, data: UpdatePomodoroSessionDTO) => Promise<PomodoroSession>;
+  deleteSession: (id: string) => Promise<void>;
   fetchStats: (date?: string) => Promise<void>;
   
   // Helpers
@@ -330,6 +333,37 @@ export function PomodoroProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
   
+  // Edit a finished session; the server keeps its time entry in step
+  const updateSession = useCallback(async (id: string, data: UpdatePomodoroSessionDTO): Promise<PomodoroSession> => {
+    setError(null);
+    try {
+      const session = await api.updatePomodoroSession(id, data);
+      setSessionsToday(prev => prev.map(s => (s.id === id ? session : s)));
+      fetchStats();
+      return session;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update session';
+      setError(errorMessage);
+      toast.error('Failed to update session', errorMessage);
+      throw err;
+    }
+  }, [toast]);
+  
+  // Delete a finished session along with its time entry
+  const deleteSession = useCallback(async (id: string): Promise<void> => {
+    setError(null);
+    try {
+      await api.deletePomodoroSession(id);
+      setSessionsToday(prev => prev.filter(s => s.id !== id));
+      fetchStats();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete session';
+      setError(errorMessage);
+      toast.error('Failed to delete session', errorMessage);
+      throw err;
+    }
+  }, [toast]);
+  
   // Fetch daily stats
   const fetchStats = useCallback(async (date?: string) => {
     setStatsLoading(true);
@@ -370,6 +404,8 @@ export function PomodoroProvider({ children }: { children: React.ReactNode }) {
     completeSession,
     skipBreak,
     fetchSessions,
+    updateSession,
+    deleteSession,
     fetchStats,
     isRunning,
     isPaused,
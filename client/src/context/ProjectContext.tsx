@@ -154,15 +154,28 @@ export function ProjectProvider({ children, currentProjectId }: ProjectProviderP
     
     try {
       await api.deleteProject(id);
-      setProjects(prev => prev.filter(p => p.id !== id));
+      
+      // Subprojects go to the trash along with their parent
+      const removedIds = new Set([id]);
+      let added = true;
+      while (added) {
+        added = false;
+        for (const project of projects) {
+          if (project.parent_project_id != null && removedIds.has(project.parent_project_id) && !removedIds.has(project.id)) {
+            removedIds.add(project.id);
+            added = true;
+          }
+        }
+      }
+      setProjects(prev => prev.filter(p => !removedIds.has(p.id)));
       
       // If the deleted project was the current one, select another
-      if (currentProject?.id === id) {
-        const remainingProjects = projects.filter(p => p.id !== id);
+      if (currentProject && removedIds.has(currentProject.id)) {
+        const remainingProjects = projects.filter(p => !removedIds.has(p.id));
         setCurrentProject(remainingProjects.length > 0 ? remainingProjects[0] : null);
       }
       
-      toast.success('Project deleted', projectToDelete ? `"${projectToDelete.name}" has been deleted.` : 'Project has been deleted.');
+      toast.success('Project moved to Trash', projectToDelete ? `"${projectToDelete.name}" can be restored from the Trash.` : 'Project can be restored from the Trash.');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete project';
       setError(errorMessage);
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, type ReactNode } from 'react';
-import type { SavedView, CreateSavedViewDTO, UpdateSavedViewDTO, TaskFilters } from '../types';
+import type { SavedView, CreateSavedViewDTO, UpdateSavedViewDTO, TaskFilters, SavedViewSettings } from '../types';
 import * as api from '../services/api';
 
 // =============================================================================
@@ -10,6 +10,7 @@ import * as api from '../services/api';
 
 interface AppliedViewData {
   filters: TaskFilters;
+  settings: SavedViewSettings;
   sortBy?: string;
   sortOrder: 'asc' | 'desc';
 }
@@ -22,7 +23,7 @@ interface SavedViewContextType {
   error: string | null;
 
   // Actions
-  fetchSavedViews: (projectId?: string, viewType?: string) => Promise<void>;
+  fetchSavedViews: (projectId?: number, viewType?: string) => Promise<void>;
   createSavedView: (data: CreateSavedViewDTO) => Promise<SavedView>;
   updateSavedView: (id: string, data: Partial<UpdateSavedViewDTO>) => Promise<SavedView>;
   deleteSavedView: (id: string) => Promise<void>;
@@ -37,7 +38,7 @@ interface SavedViewContextType {
 
 interface SavedViewProviderProps {
   children: ReactNode;
-  projectId?: string | null;
+  projectId?: number | null;
   viewType?: string;
   onApplyView?: (data: AppliedViewData) => void;
 }
@@ -76,7 +77,7 @@ export function SavedViewProvider({ children, projectId, viewType, onApplyView }
   // ---------------------------------------------------------------------------
 
   /** Fetch all saved views */
-  const fetchSavedViews = useCallback(async (projId?: string, vType?: string) => {
+  const fetchSavedViews = useCallback(async (projId?: number, vType?: string) => {
     setLoading(true);
     setError(null);
     try {
@@ -185,6 +186,7 @@ export function SavedViewProvider({ children, projectId, viewType, onApplyView }
   const applySavedView = useCallback((view: SavedView): AppliedViewData => {
     const data: AppliedViewData = {
       filters: view.filters,
+      settings: view.settings ?? {},
       sortBy: view.sort_by,
       sortOrder: view.sort_order,
     };
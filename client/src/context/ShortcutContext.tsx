@@ -59,6 +59,24 @@ const DEFAULT_SHORTCUTS: ShortcutConfig[] = [
     category: 'actions',
     displayKey: 'P',
   },
+  {
+    id: 'undo',
+    key: 'z',
+    ctrlKey: true,
+    shiftKey: false,
+    description: 'Undo last task change',
+    category: 'actions',
+    displayKey: '⌘Z',
+  },
+  {
+    id: 'redo',
+    key: 'z',
+    ctrlKey: true,
+    shiftKey: true,
+    description: 'Redo last undone task change',
+    category: 'actions',
+    displayKey: '⌘⇧Z',
+  },
   
   // View shortcuts
   {
@@ -143,6 +161,13 @@ export function setCommandPaletteCallback(callback: (() => void) | null) {
   commandPaletteCallback = callback;
 }
 
+// Global undo/redo callbacks (set by TaskProvider, which sits below this provider)
+let undoRedoCallbacks: { undo: () => void; redo: () => void } | null = null;
+
+export function setUndoRedoCallbacks(callbacks: { undo: () => void; redo: () => void } | null) {
+  undoRedoCallbacks = callbacks;
+}
+
 /**
  * Provider component for keyboard shortcuts management
  */
@@ -267,6 +292,14 @@ export function ShortcutProvider({ children }: { children: React.ReactNode }) {
           };
           break;
           
+        case 'undo':
+          action = () => undoRedoCallbacks?.undo();
+          break;
+          
+        case 'redo':
+          action = () => undoRedoCallbacks?.redo();
+          break;
+          
         default:
           continue;
       }
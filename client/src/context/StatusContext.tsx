@@ -0,0 +1,206 @@
+'use client';
+
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, type ReactNode } from 'react';
+import type {
+  ProjectStatus,
+  TaskStatus,
+  CreateProjectStatusDTO,
+  UpdateProjectStatusDTO,
+} from '../types';
+import { STATUS_CONFIG } from '../types';
+import * as api from '../services/api';
+
+// What views need to render a status
+export type StatusInfo = Pick<ProjectStatus, 'key' | 'name' | 'color' | 'category'>;
+
+interface StatusContextType {
+  // State
+  statuses: ProjectStatus[]; // the current project's workflow, in order
+  workflow: StatusInfo[]; // statuses, or the default workflow when there's no project
+  defaultStatus: TaskStatus; // status new tasks start in
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchStatuses: () => Promise<void>;
+  createStatus: (data: CreateProjectStatusDTO) => Promise<ProjectStatus>;
+  updateStatus: (id: string, data: UpdateProjectStatusDTO) => Promise<ProjectStatus>;
+  reorderStatuses: (statusIds: string[]) => Promise<void>;
+  deleteStatus: (id: string, moveTo?: TaskStatus) => Promise<number>; // resolves to the number of tasks moved
+
+  // Helpers
+  getStatus: (key: TaskStatus) => StatusInfo;
+  isDoneStatus: (key: TaskStatus) => boolean;
+  clearError: () => void;
+}
+
+const StatusContext = createContext<StatusContextType | undefined>(undefined);
+
+interface StatusProviderProps {
+  children: ReactNode;
+  projectId?: number | null;
+}
+
+export function StatusProvider({ children, projectId }: StatusProviderProps) {
+  const [statuses, setStatuses] = useState<ProjectStatus[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatuses = useCallback(async () => {
+    if (!projectId) {
+      setStatuses([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await api.getProjectStatuses(projectId);
+      setStatuses(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch statuses');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  // Add a status at the end of the workflow
+  const createStatus = useCallback(async (data: CreateProjectStatusDTO): Promise<ProjectStatus> => {
+    if (!projectId) throw new Error('No project selected');
+    setError(null);
+
+    try {
+      const status = await api.createProjectStatus(projectId, data);
+      setStatuses(prev => [...prev, status]);
+      return status;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create status';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [projectId]);
+
+  // Rename, recolor or recategorize a status
+  const updateStatus = useCallback(async (id: string, data: UpdateProjectStatusDTO): Promise<ProjectStatus> => {
+    if (!projectId) throw new Error('No project selected');
+    setError(null);
+
+    try {
+      const status = await api.updateProjectStatus(projectId, id, data);
+      setStatuses(prev => prev.map(s => s.id === id ? status : s));
+      return status;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update status';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [projectId]);
+
+  // Apply the new order right away and roll back if the server rejects it
+  const reorderStatuses = useCallback(async (statusIds: string[]): Promise<void> => {
+    if (!projectId) throw new Error('No project selected');
+    setError(null);
+
+    const previous = statuses;
+    const byId = new Map(statuses.map(s => [s.id, s]));
+    setStatuses(statusIds.flatMap(id => byId.get(id) ?? []));
+
+    try {
+      const reordered = await api.reorderProjectStatuses(projectId, statusIds);
+      setStatuses(reordered);
+    } catch (err) {
+      setStatuses(previous);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reorder statuses';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [projectId, statuses]);
+
+  const deleteStatus = useCallback(async (id: string, moveTo?: TaskStatus): Promise<number> => {
+    if (!projectId) throw new Error('No project selected');
+    setError(null);
+
+    try {
+      const result = await api.deleteProjectStatus(projectId, id, moveTo);
+      setStatuses(prev => prev.filter(s => s.id !== id));
+      return result.moved_tasks;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete status';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [projectId]);
+
+  const workflow = useMemo((): StatusInfo[] => {
+    if (statuses.length > 0) return statuses;
+    return (Object.keys(STATUS_CONFIG) as TaskStatus[]).map(key => ({
+      key,
+      name: STATUS_CONFIG[key].label,
+      color: STATUS_CONFIG[key].color,
+      category: STATUS_CONFIG[key].category,
+    }));
+  }, [statuses]);
+
+  // Same rule as the server: 'todo' when the workflow has it, otherwise its first status
+  const defaultStatus = workflow.some(s => s.key === 'todo') ? 'todo' : workflow[0]?.key ?? 'todo';
+
+  const statusesByKey = useMemo(() => new Map(statuses.map(s => [s.key, s])), [statuses]);
+
+  // Look up a status of the current project, falling back to the default workflow
+  // for keys it doesn't define (e.g. tasks of other projects)
+  const getStatus = useCallback((key: TaskStatus): StatusInfo => {
+    const status = statusesByKey.get(key);
+    if (status) return status;
+    const fallback = STATUS_CONFIG[key];
+    if (fallback) {
+      return { key, name: fallback.label, color: fallback.color, category: fallback.category };
+    }
+    return { key, name: key.replace(/_/g, ' '), color: '#6b7280', category: 'active' };
+  }, [statusesByKey]);
+
+  const isDoneStatus = useCallback((key: TaskStatus): boolean => {
+    return getStatus(key).category === 'done';
+  }, [getStatus]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  // Fetch the workflow whenever the project changes
+  useEffect(() => {
+    setStatuses([]);
+    fetchStatuses();
+  }, [fetchStatuses]);
+
+  const value: StatusContextType = {
+    statuses,
+    workflow,
+    defaultStatus,
+    loading,
+    error,
+    fetchStatuses,
+    createStatus,
+    updateStatus,
+    reorderStatuses,
+    deleteStatus,
+    getStatus,
+    isDoneStatus,
+    clearError,
+  };
+
+  return (
+    <StatusContext.Provider value={value}>
+      {children}
+    </StatusContext.Provider>
+  );
+}
+
+export function useStatuses(): StatusContextType {
+  const context = useContext(StatusContext);
+  if (context === undefined) {
+    throw new Error('useStatuses must be used within a StatusProvider');
+  }
+  return context;
+}
+
+export default StatusContext;
@@ -1,9 +1,14 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, type ReactNode } from 'react';
-import type { Task, TaskFilters, CreateTaskDTO, UpdateTaskDTO, TaskStatus, TreeNode, TaskProgressRollup, UpdateTaskProgressDTO, BulkUpdateDTO, BulkUpdateResponse, TaskPriority } from '../types';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import type { Task, TaskFilters, CreateTaskDTO, UpdateTaskDTO, TaskStatus, TreeNode, TaskProgressRollup, UpdateTaskProgressDTO, BulkUpdateDTO, BulkUpdateResponse, TaskPriority, TaskDependency, CreateTaskDependencyDTO } from '../types';
 import * as api from '../services/api';
 import { useToast } from './ToastContext';
+import { useStatuses } from './StatusContext';
+import { setUndoRedoCallbacks } from './ShortcutContext';
+import { compareByRank, rankBetween } from '../utils/taskRank';
+import { matchesTaskFilters } from '../utils/taskFilters';
+import { useTaskQuery } from '../hooks/useTaskQuery';
 
 interface TaskContextType {
   // State
@@ -30,6 +35,8 @@ interface TaskContextType {
   createTask: (data: CreateTaskDTO) => Promise<Task>;
   updateTask: (id: number, data: UpdateTaskDTO) => Promise<Task>;
   updateTaskStatus: (id: number, status: TaskStatus) => Promise<Task>;
+  reorderTask: (id: number, previousId: number | null, nextId: number | null) => Promise<void>;
+  rescheduleTasks: (updates: Array<{ id: number } & Pick<UpdateTaskDTO, 'start_date' | 'due_date'>>) => Promise<Task[]>;
   deleteTask: (id: number) => Promise<void>;
   clearError: () => void;
   
@@ -60,11 +67,39 @@ interface TaskContextType {
   updateTaskProgress: (id: number, data: UpdateTaskProgressDTO) => Promise<Task>;
   getTaskProgressRollup: (id: number) => Promise<TaskProgressRollup>;
   
+  // Dependency State & Actions
+  dependencies: TaskDependency[];
+  fetchDependencies: (projectId?: number) => Promise<void>;
+  addDependency: (taskId: number, data: CreateTaskDependencyDTO) => Promise<TaskDependency>;
+  removeDependency: (taskId: number, dependencyId: string) => Promise<void>;
+  getBlockingTasks: (taskId: number) => Task[];
+  getBlockedTasks: (taskId: number) => Task[];
+  isTaskBlocked: (taskId: number) => boolean;
+  
+  // Undo/Redo
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  
   // Helpers
   getTaskById: (id: number) => Task | undefined;
   getTasksByStatus: (status: TaskStatus) => Task[];
 }
 
+// An undoable task change; undo/redo go straight to the API so they are not recorded again
+interface UndoEntry {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// A task update to apply without recording it
+interface TaskUpdate {
+  id: number;
+  data: UpdateTaskDTO;
+}
+
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
 interface TaskProviderProps {
@@ -74,65 +109,78 @@ interface TaskProviderProps {
 
 const DEFAULT_FILTERS: TaskFilters = {};
 
+// Maximum number of changes that can be undone
+const MAX_UNDO_HISTORY = 50;
+
+// Values that clear a field on update (omitted or null fields are left unchanged)
+const CLEARED_FIELD_VALUES: Partial<Record<keyof UpdateTaskDTO, unknown>> = {
+  description: '',
+  due_date: '',
+  start_date: '',
+  end_date: '',
+  parent_task_id: 0,
+  estimated_duration_minutes: 0,
+  actual_duration_minutes: 0,
+  recurrence: null,
+};
+
+// Build the update that puts back every field `data` changes on `previous`
+function buildInverseUpdate(previous: Task, data: UpdateTaskDTO): UpdateTaskDTO {
+  const inverse: Record<string, unknown> = {};
+  for (const key of Object.keys(data) as Array<keyof UpdateTaskDTO>) {
+    inverse[key] = previous[key] ?? CLEARED_FIELD_VALUES[key];
+  }
+  return inverse as UpdateTaskDTO;
+}
+
+// IDs of the given tasks and all of their loaded subtasks
+function collectSubtreeIds(tasks: Task[], rootIds: number[]): Set<number> {
+  const ids = new Set(rootIds);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const task of tasks) {
+      if (task.parent_task_id != null && ids.has(task.parent_task_id) && !ids.has(task.id)) {
+        ids.add(task.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Plural-aware task count, e.g. "3 tasks"
+function taskCount(count: number): string {
+  return `${count} task${count !== 1 ? 's' : ''}`;
+}
+
 export function TaskProvider({ children, projectId }: TaskProviderProps) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFiltersState] = useState<TaskFilters>(DEFAULT_FILTERS);
   const [selectedTaskIds, setSelectedTaskIds] = useState<number[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
   const toast = useToast();
+  const { getStatus, isDoneStatus } = useStatuses();
   
-  // Apply filters to tasks
-  const filteredTasks = useMemo(() => {
-    let result = [...tasks];
-    
-    if (filters.project_id !== undefined) {
-      result = result.filter(t => t.project_id === filters.project_id);
-    }
-    
-    if (filters.status) {
-      result = result.filter(t => t.status === filters.status);
-    }
-    
-    if (filters.priority) {
-      result = result.filter(t => t.priority === filters.priority);
-    }
-    
-    if (filters.due_date_from) {
-      result = result.filter(t => 
-        t.due_date && new Date(t.due_date) >= new Date(filters.due_date_from!)
-      );
-    }
-    
-    if (filters.due_date_to) {
-      result = result.filter(t => 
-        t.due_date && new Date(t.due_date) <= new Date(filters.due_date_to!)
-      );
-    }
-    
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      result = result.filter(t => 
-        t.title.toLowerCase().includes(searchLower) ||
-        t.description.toLowerCase().includes(searchLower)
-      );
-    }
-    
-    if (filters.assignee_id !== undefined) {
-      result = result.filter(t => 
-        t.assignee_id === filters.assignee_id ||
-        t.coAssignees?.some(ca => ca.person_id === filters.assignee_id)
-      );
-    }
-    
-    if (filters.tag_id !== undefined) {
-      result = result.filter(t => 
-        t.tags?.some(tg => tg.tag_id === filters.tag_id)
-      );
-    }
-    
-    return result;
-  }, [tasks, filters]);
+  // Undo/redo history (refs so undo/redo always see the latest stacks)
+  const tasksRef = useRef<Task[]>([]);
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const redoStackRef = useRef<UndoEntry[]>([]);
+  const historyBusyRef = useRef(false);
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+  
+  useEffect(() => {
+    tasksRef.current = tasks;
+  }, [tasks]);
+  
+  // Apply filters to tasks; a task query is evaluated by the server
+  const { matchingIds: queryMatches } = useTaskQuery(filters.query, { projectId, refreshKey: tasks });
+  const filteredTasks = useMemo(
+    () => tasks.filter(t => matchesTaskFilters(t, filters) && (!queryMatches || queryMatches.has(t.id))),
+    [tasks, filters, queryMatches]
+  );
   
   // Selection helpers
   const isTaskSelected = useCallback((id: number): boolean => {
@@ -173,8 +221,12 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     setError(null);
     
     try {
-      const data = await api.getTasks(fetchFilters);
+      const [data, deps] = await Promise.all([
+        api.getTasks(fetchFilters),
+        api.getAllTaskDependencies(fetchFilters?.project_id),
+      ]);
       setTasks(data);
+      setDependencies(deps);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch tasks');
     } finally {
@@ -188,8 +240,12 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     setError(null);
     
     try {
-      const data = await api.getTasks({ project_id: projId });
+      const [data, deps] = await Promise.all([
+        api.getTasks({ project_id: projId }),
+        api.getAllTaskDependencies(projId),
+      ]);
       setTasks(data);
+      setDependencies(deps);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch tasks');
     } finally {
@@ -215,6 +271,217 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     setFiltersState(DEFAULT_FILTERS);
   }, []);
   
+  // Get tasks that must finish before this task can start
+  const getBlockingTasks = useCallback((taskId: number): Task[] => {
+    const blockingIds = dependencies
+      .filter(d => d.blocked_task_id === taskId)
+      .map(d => d.blocking_task_id);
+    return tasks.filter(t => blockingIds.includes(t.id));
+  }, [tasks, dependencies]);
+  
+  // Get tasks waiting on this task
+  const getBlockedTasks = useCallback((taskId: number): Task[] => {
+    const blockedIds = dependencies
+      .filter(d => d.blocking_task_id === taskId)
+      .map(d => d.blocked_task_id);
+    return tasks.filter(t => blockedIds.includes(t.id));
+  }, [tasks, dependencies]);
+  
+  // A task is blocked while any finish-to-start predecessor is not done,
+  // or any start-to-start predecessor has not started yet
+  const isTaskBlocked = useCallback((taskId: number): boolean => {
+    return dependencies.some(d => {
+      if (d.blocked_task_id !== taskId) return false;
+      const blocking = tasks.find(t => t.id === d.blocking_task_id);
+      if (!blocking) return false;
+      if (d.dependency_type === 'start_to_start') {
+        return getStatus(blocking.status).category === 'not_started';
+      }
+      return !isDoneStatus(blocking.status);
+    });
+  }, [tasks, dependencies, getStatus, isDoneStatus]);
+  
+  // Warn (without blocking the change) when a blocked task is started
+  const warnIfBlocked = useCallback((id: number, status?: TaskStatus) => {
+    if (!status || getStatus(status).category !== 'active' || !isTaskBlocked(id)) return;
+    const blockers = getBlockingTasks(id)
+      .filter(t => !isDoneStatus(t.status))
+      .map(t => `"${t.title}"`);
+    toast.warning('Task is blocked', `Still waiting on ${blockers.join(', ')}.`);
+  }, [isTaskBlocked, getBlockingTasks, toast, getStatus, isDoneStatus]);
+  
+  // Add occurrences the server created when recurring tasks were completed
+  const addNextOccurrences = useCallback((created: Task[]) => {
+    if (created.length === 0) return;
+    setTasks(prev => [...prev, ...created]);
+    if (created.length === 1) {
+      const [next] = created;
+      const when = next.due_date || next.start_date;
+      toast.info('Next occurrence created', `"${next.title}"${when ? ` is scheduled for ${when.slice(0, 10)}` : ' has been added'}.`);
+    } else {
+      toast.info('Next occurrences created', `${created.length} recurring tasks were scheduled again.`);
+    }
+  }, [toast]);
+  
+  // Drop tasks and their loaded subtasks (the server deletes subtasks along with their parent)
+  const removeTasksFromState = useCallback((ids: number[]) => {
+    const removed = collectSubtreeIds(tasksRef.current, ids);
+    setTasks(prev => prev.filter(t => !removed.has(t.id)));
+    setDependencies(prev => prev.filter(d => !removed.has(d.blocking_task_id) && !removed.has(d.blocked_task_id)));
+  }, []);
+  
+  // Put restored tasks back and reload the dependency links that come back with them
+  const addRestoredTasks = useCallback(async (restored: Task[]) => {
+    const restoredIds = new Set(restored.map(t => t.id));
+    setTasks(prev => [...prev.filter(t => !restoredIds.has(t.id)), ...restored]);
+    try {
+      setDependencies(await api.getAllTaskDependencies(projectId ?? undefined));
+    } catch {
+      // Links are reloaded with the next fetch
+    }
+  }, [projectId]);
+  
+  // Apply updates without recording them; returns occurrences created by completing recurring tasks
+  const applyTaskUpdates = useCallback(async (updates: TaskUpdate[]): Promise<Task[]> => {
+    const results = await Promise.all(updates.map(({ id, data }) => api.updateTask(id, data)));
+    const created: Task[] = [];
+    const updatedTasks = results.map(({ next_occurrence, ...updatedTask }) => {
+      if (next_occurrence) created.push(next_occurrence);
+      return updatedTask;
+    });
+    setTasks(prev => 
+      prev.map(t => updatedTasks.find(ut => ut.id === t.id) || t)
+    );
+    addNextOccurrences(created);
+    return created;
+  }, [addNextOccurrences]);
+  
+  const syncHistorySize = useCallback(() => {
+    setHistorySize({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+  
+  // Record an undoable change; any new change clears the redo history
+  const recordUndo = useCallback((entry: UndoEntry): UndoEntry => {
+    undoStackRef.current = [...undoStackRef.current, entry].slice(-MAX_UNDO_HISTORY);
+    redoStackRef.current = [];
+    syncHistorySize();
+    return entry;
+  }, [syncHistorySize]);
+  
+  // History entry for tasks that exist now: undo deletes them, redo restores them
+  const recordCreated = useCallback((label: string, ids: number[]): UndoEntry => {
+    return recordUndo({
+      label,
+      undo: async () => {
+        await api.bulkDeleteTasks(ids);
+        removeTasksFromState(ids);
+      },
+      redo: async () => {
+        await addRestoredTasks(await api.bulkRestoreTasks(ids));
+      },
+    });
+  }, [recordUndo, removeTasksFromState, addRestoredTasks]);
+  
+  // History entry for tasks that were just deleted: undo restores them (with subtasks), redo deletes them again
+  const recordDeleted = useCallback((label: string, ids: number[]): UndoEntry => {
+    return recordUndo({
+      label,
+      undo: async () => {
+        await addRestoredTasks(await api.bulkRestoreTasks(ids));
+      },
+      redo: async () => {
+        await api.bulkDeleteTasks(ids);
+        removeTasksFromState(ids);
+      },
+    });
+  }, [recordUndo, removeTasksFromState, addRestoredTasks]);
+  
+  // History entry for field changes. Occurrences created by completing recurring tasks are
+  // deleted again on undo, and `reapply` returns the ones it creates on redo.
+  const recordUpdated = useCallback((
+    label: string,
+    revert: TaskUpdate[],
+    reapply: () => Promise<Task[]>,
+    createdOccurrences: Task[] = []
+  ): UndoEntry => {
+    let occurrenceIds = createdOccurrences.map(t => t.id);
+    return recordUndo({
+      label,
+      undo: async () => {
+        await applyTaskUpdates(revert);
+        if (occurrenceIds.length > 0) {
+          await api.bulkDeleteTasks(occurrenceIds);
+          removeTasksFromState(occurrenceIds);
+          occurrenceIds = [];
+        }
+      },
+      redo: async () => {
+        occurrenceIds = (await reapply()).map(t => t.id);
+      },
+    });
+  }, [recordUndo, applyTaskUpdates, removeTasksFromState]);
+  
+  // Step back one change. Toast buttons pass their own entry, which is only undone while it is the latest change.
+  const runUndo = useCallback(async (expected?: UndoEntry): Promise<void> => {
+    const stack = undoStackRef.current;
+    const entry = stack[stack.length - 1];
+    if (!entry || historyBusyRef.current) return;
+    if (expected && entry !== expected) {
+      if (stack.includes(expected)) {
+        toast.warning('Cannot undo yet', 'Newer changes were made since. Undo them first with Ctrl+Z.');
+      }
+      return;
+    }
+    
+    historyBusyRef.current = true;
+    setError(null);
+    try {
+      await entry.undo();
+      undoStackRef.current = undoStackRef.current.slice(0, -1);
+      redoStackRef.current = [...redoStackRef.current, entry];
+      toast.info('Undone', entry.label);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to undo';
+      setError(errorMessage);
+      toast.error('Undo failed', errorMessage);
+    } finally {
+      historyBusyRef.current = false;
+      syncHistorySize();
+    }
+  }, [toast, syncHistorySize]);
+  
+  const undo = useCallback(() => runUndo(), [runUndo]);
+  
+  // Re-apply the most recently undone change
+  const redo = useCallback(async (): Promise<void> => {
+    const stack = redoStackRef.current;
+    const entry = stack[stack.length - 1];
+    if (!entry || historyBusyRef.current) return;
+    
+    historyBusyRef.current = true;
+    setError(null);
+    try {
+      await entry.redo();
+      redoStackRef.current = redoStackRef.current.slice(0, -1);
+      undoStackRef.current = [...undoStackRef.current, entry];
+      toast.info('Redone', entry.label);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to redo';
+      setError(errorMessage);
+      toast.error('Redo failed', errorMessage);
+    } finally {
+      historyBusyRef.current = false;
+      syncHistorySize();
+    }
+  }, [toast, syncHistorySize]);
+  
+  // Toast options with an Undo button for a just-recorded change
+  const undoToastOptions = useCallback((entry: UndoEntry) => ({
+    undoAction: () => {
+      void runUndo(entry);
+    },
+  }), [runUndo]);
+  
   // Create a new task
   const createTask = useCallback(async (data: CreateTaskDTO): Promise<Task> => {
     setLoading(true);
@@ -223,7 +490,8 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     try {
       const newTask = await api.createTask(data);
       setTasks(prev => [...prev, newTask]);
-      toast.success('Task created', `"${newTask.title}" has been created successfully.`);
+      const entry = recordCreated(`Create "${newTask.title}"`, [newTask.id]);
+      toast.success('Task created', `"${newTask.title}" has been created successfully.`, undoToastOptions(entry));
       return newTask;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create task';
@@ -233,21 +501,46 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [toast, recordCreated, undoToastOptions]);
   
   // Update an existing task
   const updateTask = useCallback(async (id: number, data: UpdateTaskDTO): Promise<Task> => {
     setLoading(true);
     setError(null);
     
+    const previous = tasks.find(t => t.id === id);
+    if (data.status && data.status !== previous?.status) {
+      warnIfBlocked(id, data.status);
+    }
+    
+    // Optimistic update
+    setTasks(prev => 
+      prev.map(t => t.id === id ? { ...t, ...data } as Task : t)
+    );
+    
     try {
-      const updatedTask = await api.updateTask(id, data);
+      const { next_occurrence, ...updatedTask } = await api.updateTask(id, data);
       setTasks(prev => 
         prev.map(t => t.id === id ? updatedTask : t)
       );
-      toast.success('Task updated', `"${updatedTask.title}" has been updated.`);
+      const created = next_occurrence ? [next_occurrence] : [];
+      // Completing a recurring task moves its rule to the next occurrence, so undo puts the rule back too
+      const entry = previous && recordUpdated(
+        `Edit "${updatedTask.title}"`,
+        [{ id, data: buildInverseUpdate(previous, created.length > 0 ? { ...data, recurrence: null } : data) }],
+        () => applyTaskUpdates([{ id, data }]),
+        created
+      );
+      toast.success('Task updated', `"${updatedTask.title}" has been updated.`, entry ? undoToastOptions(entry) : undefined);
+      addNextOccurrences(created);
       return updatedTask;
     } catch (err) {
+      // Revert on error
+      if (previous) {
+        setTasks(prev => 
+          prev.map(t => t.id === id ? previous : t)
+        );
+      }
       const errorMessage = err instanceof Error ? err.message : 'Failed to update task';
       setError(errorMessage);
       toast.error('Failed to update task', errorMessage);
@@ -255,21 +548,35 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [tasks, toast, warnIfBlocked, addNextOccurrences, recordUpdated, applyTaskUpdates, undoToastOptions]);
   
   // Update task status (for Kanban drag-and-drop)
   const updateTaskStatus = useCallback(async (id: number, status: TaskStatus): Promise<Task> => {
+    warnIfBlocked(id, status);
+    const previous = tasks.find(t => t.id === id);
+    
     // Optimistic update
     setTasks(prev => 
       prev.map(t => t.id === id ? { ...t, status } : t)
     );
     
     try {
-      const updatedTask = await api.updateTaskStatus(id, status);
+      const { next_occurrence, ...updatedTask } = await api.updateTaskStatus(id, status);
       // Update with server response
       setTasks(prev => 
         prev.map(t => t.id === id ? updatedTask : t)
       );
+      const created = next_occurrence ? [next_occurrence] : [];
+      if (previous && previous.status !== status) {
+        const entry = recordUpdated(
+          `Move "${updatedTask.title}" to ${getStatus(status).name}`,
+          [{ id, data: buildInverseUpdate(previous, created.length > 0 ? { status, recurrence: null } : { status }) }],
+          () => applyTaskUpdates([{ id, data: { status } }]),
+          created
+        );
+        toast.success('Status updated', `"${updatedTask.title}" moved to ${getStatus(status).name}.`, undoToastOptions(entry));
+      }
+      addNextOccurrences(created);
       return updatedTask;
     } catch (err) {
       // Revert on error
@@ -287,7 +594,94 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
       toast.error('Failed to update status', errorMessage);
       throw new Error(errorMessage);
     }
-  }, [tasks, toast]);
+  }, [tasks, toast, warnIfBlocked, addNextOccurrences, recordUpdated, applyTaskUpdates, undoToastOptions, getStatus]);
+  
+  // Move a task between two neighbours of its status column (Kanban drag-and-drop)
+  const reorderTask = useCallback(async (id: number, previousId: number | null, nextId: number | null): Promise<void> => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    
+    // Store the ranks the server sent back, including any it renumbered
+    const applyReorder = async (prevId: number | null, nextTaskId: number | null): Promise<Task> => {
+      const { task: moved, renumbered = [] } = await api.reorderTask(id, { previous_task_id: prevId, next_task_id: nextTaskId });
+      const ranks = new Map(renumbered.map(r => [r.id, r.rank]));
+      ranks.set(id, moved.rank ?? 0);
+      setTasks(prev => 
+        prev.map(t => ranks.has(t.id) ? { ...t, rank: ranks.get(t.id) } : t)
+      );
+      return moved;
+    };
+    
+    // Neighbours before the move, for undo
+    const column = tasks
+      .filter(t => t.project_id === task.project_id && t.status === task.status)
+      .sort(compareByRank);
+    const index = column.findIndex(t => t.id === id);
+    const original = { previous: column[index - 1]?.id ?? null, next: column[index + 1]?.id ?? null };
+    
+    // Optimistic update
+    const previous = tasks.find(t => t.id === previousId) ?? null;
+    const next = tasks.find(t => t.id === nextId) ?? null;
+    setTasks(prev => 
+      prev.map(t => t.id === id ? { ...t, rank: rankBetween(previous, next) } : t)
+    );
+    
+    try {
+      const moved = await applyReorder(previousId, nextId);
+      // A task dropped into another column is taken back by undoing its status change
+      if (moved.status === task.status) {
+        recordUndo({
+          label: `Reorder "${task.title}"`,
+          undo: async () => {
+            await applyReorder(original.previous, original.next);
+          },
+          redo: async () => {
+            await applyReorder(previousId, nextId);
+          },
+        });
+      }
+    } catch (err) {
+      // Revert on error
+      setTasks(prev => 
+        prev.map(t => t.id === id ? { ...t, rank: task.rank } : t)
+      );
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reorder task';
+      setError(errorMessage);
+      toast.error('Failed to reorder task', errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [tasks, toast, recordUndo]);
+  
+  // Move the dates of several tasks at once (e.g. dependents shifted by the timeline scheduler)
+  const rescheduleTasks = useCallback(async (
+    updates: Array<{ id: number } & Pick<UpdateTaskDTO, 'start_date' | 'due_date'>>
+  ): Promise<Task[]> => {
+    if (updates.length === 0) return [];
+    
+    setError(null);
+    
+    try {
+      const changes: TaskUpdate[] = updates.map(({ id, start_date, due_date }) => ({ id, data: { start_date, due_date } }));
+      const updatedTasks = await Promise.all(
+        changes.map(({ id, data }) => api.updateTask(id, data))
+      );
+      setTasks(prev => 
+        prev.map(t => updatedTasks.find(ut => ut.id === t.id) || t)
+      );
+      const revert = changes.flatMap(({ id, data }) => {
+        const previous = tasks.find(t => t.id === id);
+        return previous ? [{ id, data: buildInverseUpdate(previous, data) }] : [];
+      });
+      const entry = recordUpdated(`Reschedule ${taskCount(changes.length)}`, revert, () => applyTaskUpdates(changes));
+      toast.info('Schedule updated', `${updatedTasks.length} dependent task${updatedTasks.length !== 1 ? 's' : ''} rescheduled.`, undoToastOptions(entry));
+      return updatedTasks;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reschedule tasks';
+      setError(errorMessage);
+      toast.error('Failed to reschedule tasks', errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [tasks, toast, recordUpdated, applyTaskUpdates, undoToastOptions]);
   
   // Bulk update tasks
   const bulkUpdateTasks = useCallback(async (updates: { status?: TaskStatus; priority?: TaskPriority; assignee_id?: number | null }): Promise<BulkUpdateResponse> => {
@@ -314,7 +708,23 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
         })
       );
       
-      toast.success('Tasks updated', `${result.updated} task${result.updated !== 1 ? 's' : ''} updated successfully.`);
+      const created = result.created_tasks ?? [];
+      const changedFields = { ...updates, ...(created.length > 0 ? { recurrence: null } : {}) } as UpdateTaskDTO;
+      const revert = selectedTaskIds.flatMap(id => {
+        const previous = tasks.find(t => t.id === id);
+        return previous ? [{ id, data: buildInverseUpdate(previous, changedFields) }] : [];
+      });
+      const entry = recordUpdated(`Update ${taskCount(selectedTaskIds.length)}`, revert, async () => {
+        const redone = await api.bulkUpdateTasks(bulkData);
+        setTasks(prev => 
+          prev.map(t => redone.tasks.find(ut => ut.id === t.id) || t)
+        );
+        addNextOccurrences(redone.created_tasks ?? []);
+        return redone.created_tasks ?? [];
+      }, created);
+      
+      toast.success('Tasks updated', `${result.updated} task${result.updated !== 1 ? 's' : ''} updated successfully.`, undoToastOptions(entry));
+      addNextOccurrences(created);
       clearSelection();
       return result;
     } catch (err) {
@@ -325,7 +735,7 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [selectedTaskIds, toast, clearSelection]);
+  }, [tasks, selectedTaskIds, toast, clearSelection, addNextOccurrences, recordUpdated, undoToastOptions]);
   
   // Bulk delete tasks
   const bulkDeleteTasks = useCallback(async (): Promise<void> => {
@@ -338,12 +748,14 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     setError(null);
     
     try {
-      const result = await api.bulkDeleteTasks(selectedTaskIds);
+      const deletedIds = [...selectedTaskIds];
+      const result = await api.bulkDeleteTasks(deletedIds);
       
-      // Remove deleted tasks from local state
-      setTasks(prev => prev.filter(t => !selectedTaskIds.includes(t.id)));
+      // Remove deleted tasks (and their subtasks) from local state
+      removeTasksFromState(deletedIds);
       
-      toast.success('Tasks deleted', `${result.deleted} task${result.deleted !== 1 ? 's' : ''} deleted successfully.`);
+      const entry = recordDeleted(`Delete ${taskCount(deletedIds.length)}`, deletedIds);
+      toast.success('Tasks deleted', `${result.deleted} task${result.deleted !== 1 ? 's' : ''} deleted successfully.`, undoToastOptions(entry));
       clearSelection();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete tasks';
@@ -353,7 +765,7 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [selectedTaskIds, toast, clearSelection]);
+  }, [selectedTaskIds, toast, clearSelection, removeTasksFromState, recordDeleted, undoToastOptions]);
   
   // Set primary assignee
   const setPrimaryAssignee = useCallback(async (taskId: number, personId: number): Promise<void> => {
@@ -482,8 +894,9 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     
     try {
       await api.deleteTask(id);
-      setTasks(prev => prev.filter(t => t.id !== id));
-      toast.success('Task deleted', taskToDelete ? `"${taskToDelete.title}" has been deleted.` : 'Task has been deleted.');
+      removeTasksFromState([id]);
+      const entry = recordDeleted(taskToDelete ? `Delete "${taskToDelete.title}"` : 'Delete task', [id]);
+      toast.success('Task deleted', taskToDelete ? `"${taskToDelete.title}" has been deleted.` : 'Task has been deleted.', undoToastOptions(entry));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete task';
       setError(errorMessage);
@@ -492,7 +905,7 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [tasks, toast]);
+  }, [tasks, toast, removeTasksFromState, recordDeleted, undoToastOptions]);
   
   // Clear error
   const clearError = useCallback(() => {
@@ -541,7 +954,8 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     try {
       const newTask = await api.createSubTask(parentId, data);
       setTasks(prev => [...prev, newTask]);
-      toast.success('Subtask created', `"${newTask.title}" has been created as a subtask.`);
+      const entry = recordCreated(`Create "${newTask.title}"`, [newTask.id]);
+      toast.success('Subtask created', `"${newTask.title}" has been created as a subtask.`, undoToastOptions(entry));
       return newTask;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create subtask';
@@ -551,19 +965,32 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [toast, recordCreated, undoToastOptions]);
   
   // Move a task to a new parent
   const moveTask = useCallback(async (id: number, parentId: number | null): Promise<Task> => {
     setLoading(true);
     setError(null);
     
+    const previousParentId = tasks.find(t => t.id === id)?.parent_task_id ?? null;
+    const applyMove = async (toParentId: number | null) => {
+      const movedTask = await api.moveTask(id, toParentId);
+      setTasks(prev => 
+        prev.map(t => t.id === id ? movedTask : t)
+      );
+    };
+    
     try {
       const updatedTask = await api.moveTask(id, parentId);
       setTasks(prev => 
         prev.map(t => t.id === id ? updatedTask : t)
       );
-      toast.success('Task moved', parentId ? 'Task moved to new parent.' : 'Task moved to root level.');
+      const entry = recordUndo({
+        label: `Move "${updatedTask.title}"`,
+        undo: () => applyMove(previousParentId),
+        redo: () => applyMove(parentId),
+      });
+      toast.success('Task moved', parentId ? 'Task moved to new parent.' : 'Task moved to root level.', undoToastOptions(entry));
       return updatedTask;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to move task';
@@ -573,7 +1000,7 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [tasks, toast, recordUndo, undoToastOptions]);
   
   // Fetch root tasks for a project (tasks without parents)
   const fetchRootTasks = useCallback(async (projectId: number): Promise<Task[]> => {
@@ -597,12 +1024,19 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     setLoading(true);
     setError(null);
     
+    const previous = tasks.find(t => t.id === id);
+    
     try {
       const updatedTask = await api.updateTaskProgress(id, data);
       setTasks(prev => 
         prev.map(t => t.id === id ? updatedTask : t)
       );
-      toast.success('Progress updated', `Progress set to ${data.progress_percent ?? updatedTask.progress_percent}%.`);
+      const entry = previous && recordUpdated(
+        `Progress update for "${updatedTask.title}"`,
+        [{ id, data: buildInverseUpdate(previous, data) }],
+        () => applyTaskUpdates([{ id, data }])
+      );
+      toast.success('Progress updated', `Progress set to ${data.progress_percent ?? updatedTask.progress_percent}%.`, entry ? undoToastOptions(entry) : undefined);
       return updatedTask;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update task progress';
@@ -612,7 +1046,7 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [tasks, toast, recordUpdated, applyTaskUpdates, undoToastOptions]);
   
   // Get task progress rollup (including children progress)
   const getTaskProgressRollup = useCallback(async (id: number): Promise<TaskProgressRollup> => {
@@ -631,6 +1065,48 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     }
   }, []);
   
+  // Fetch dependency links (optionally scoped to a project)
+  const fetchDependencies = useCallback(async (projId?: number): Promise<void> => {
+    try {
+      const data = await api.getAllTaskDependencies(projId);
+      setDependencies(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch dependencies';
+      setError(errorMessage);
+    }
+  }, []);
+  
+  // Add a dependency link; the server rejects self-links and cycles
+  const addDependency = useCallback(async (taskId: number, data: CreateTaskDependencyDTO): Promise<TaskDependency> => {
+    setError(null);
+    
+    try {
+      const dependency = await api.addTaskDependency(taskId, data);
+      setDependencies(prev => [...prev, dependency]);
+      return dependency;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add dependency';
+      setError(errorMessage);
+      toast.error('Failed to add dependency', errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [toast]);
+  
+  // Remove a dependency link
+  const removeDependency = useCallback(async (taskId: number, dependencyId: string): Promise<void> => {
+    setError(null);
+    
+    try {
+      await api.removeTaskDependency(taskId, dependencyId);
+      setDependencies(prev => prev.filter(d => d.id !== dependencyId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove dependency';
+      setError(errorMessage);
+      toast.error('Failed to remove dependency', errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [toast]);
+  
   // Get task by ID
   const getTaskById = useCallback((id: number): Task | undefined => {
     return tasks.find(t => t.id === id);
@@ -651,6 +1127,22 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     }
   }, [projectId, fetchTasks, fetchTasksByProject]);
   
+  // History only covers the tasks currently loaded
+  useEffect(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncHistorySize();
+  }, [projectId, syncHistorySize]);
+  
+  // Ctrl+Z / Ctrl+Shift+Z (registered by ShortcutProvider, which sits above this provider)
+  useEffect(() => {
+    setUndoRedoCallbacks({
+      undo: () => void undo(),
+      redo: () => void redo(),
+    });
+    return () => setUndoRedoCallbacks(null);
+  }, [undo, redo]);
+  
   const value: TaskContextType = {
     tasks,
     filteredTasks,
@@ -669,6 +1161,8 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     createTask,
     updateTask,
     updateTaskStatus,
+    reorderTask,
+    rescheduleTasks,
     deleteTask,
     clearError,
     toggleTaskSelection,
@@ -688,6 +1182,17 @@ export function TaskProvider({ children, projectId }: TaskProviderProps) {
     fetchRootTasks,
     updateTaskProgress,
     getTaskProgressRollup,
+    dependencies,
+    fetchDependencies,
+    addDependency,
+    removeDependency,
+    getBlockingTasks,
+    getBlockedTasks,
+    isTaskBlocked,
+    canUndo: historySize.undo > 0,
+    canRedo: historySize.redo > 0,
+    undo,
+    redo,
     getTaskById,
     getTasksByStatus,
   };
@@ -8,11 +8,24 @@ import type {
   CreateTimeEntryDTO,
   StartTimerDTO,
   UpdateTimeEntryDTO,
+  TimeTrackingSettings,
+  UpdateTimeTrackingSettingsDTO,
+  TimeEntryOverlapQuery,
+  OverlapChoice,
+  OverlapPrompt,
 } from '../types';
 import * as api from '../services/api';
 import { useToast } from './ToastContext';
 import { formatDurationUsCompact } from '@/utils/timeFormat';
 
+// Thrown when an overlap choice leaves the new time out, so callers can tell it from a failure
+export class OverlapCancelledError extends Error {
+  constructor() {
+    super('Cancelled because of overlapping time');
+    this.name = 'OverlapCancelledError';
+  }
+}
+
 // Time entry context types
 interface TimeEntryContextType {
   // Running timers state (global)
@@ -33,6 +46,14 @@ interface TimeEntryContextType {
   // Timer tick for updating current session time
   timerTick: number;
   
+  // Rounding, overlap and idle settings
+  settings: TimeTrackingSettings | null;
+  updateSettings: (data: UpdateTimeTrackingSettingsDTO) => Promise<TimeTrackingSettings>;
+  
+  // Overlapping time waiting on a choice, under the 'warn' setting
+  overlapPrompt: OverlapPrompt | null;
+  resolveOverlapPrompt: (choice: OverlapChoice) => void;
+  
   // Actions - Running timers
   fetchRunningTimers: () => Promise<void>;
   stopAllRunningTimers: () => Promise<void>;
@@ -52,6 +73,7 @@ interface TimeEntryContextType {
   // Actions - Time entry management
   updateTimeEntry: (entryId: string, data: UpdateTimeEntryDTO) => Promise<TimeEntry>;
   deleteTimeEntry: (entryId: string) => Promise<void>;
+  resolveIdleTime: (entry: TimeEntry, idleSince: Date, action: 'discard' | 'split') => Promise<TimeEntry>;
   
   // Helpers
   isTaskTimerRunning: (taskId: number | string) => boolean;
@@ -75,6 +97,9 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
   const [projectTimeLoading, setProjectTimeLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [timerTick, setTimerTick] = useState(0);
+  const [settings, setSettings] = useState<TimeTrackingSettings | null>(null);
+  const [overlapPrompt, setOverlapPrompt] = useState<OverlapPrompt | null>(null);
+  const overlapChoiceRef = useRef<((choice: OverlapChoice) => void) | null>(null);
   
   // Interval ref for timer updates
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -82,6 +107,9 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
   // Fetch running timers on mount and set up interval for timer updates
   useEffect(() => {
     fetchRunningTimers();
+    api.getTimeTrackingSettings()
+      .then(setSettings)
+      .catch(err => console.error('Error fetching time tracking settings:', err));
     
     // Set up interval to update timer tick every second
     intervalRef.current = setInterval(() => {
@@ -133,6 +161,41 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
     }
   }, [toast]);
   
+  const updateSettings = useCallback(async (data: UpdateTimeTrackingSettingsDTO): Promise<TimeTrackingSettings> => {
+    const updated = await api.updateTimeTrackingSettings(data);
+    setSettings(updated);
+    return updated;
+  }, []);
+  
+  // Under the 'warn' setting, asks what to do about the time that new time overlaps.
+  // Without an end, that is the person's timers running elsewhere. Cancelling throws
+  // OverlapCancelledError, leaving everything as it was.
+  const confirmOverlap = useCallback(async (query: TimeEntryOverlapQuery): Promise<StartTimerDTO['on_overlap']> => {
+    if (settings?.overlap_mode !== 'warn') return undefined;
+    const overlaps = await api.getTimeEntryOverlaps(query);
+    if (overlaps.length === 0) return undefined;
+    const choice = await new Promise<OverlapChoice>(resolve => {
+      overlapChoiceRef.current = resolve;
+      setOverlapPrompt({ overlaps, timer: !query.end });
+    });
+    if (choice === 'cancel') throw new OverlapCancelledError();
+    return choice;
+  }, [settings]);
+  
+  const resolveOverlapPrompt = useCallback((choice: OverlapChoice) => {
+    overlapChoiceRef.current?.(choice);
+    overlapChoiceRef.current = null;
+    setOverlapPrompt(null);
+  }, []);
+  
+  // After time was split around other time, other timers may have stopped too
+  const refreshAfterSplit = useCallback((onOverlap: StartTimerDTO['on_overlap']) => {
+    if ((onOverlap ?? settings?.overlap_mode) !== 'split') return;
+    fetchRunningTimers();
+    setTaskTimeSummaries(new Map());
+    setProjectTimeSummaries(new Map());
+  }, [settings, fetchRunningTimers]);
+  
   // Task time functions
   const fetchTaskTimeSummary = useCallback(async (taskId: number | string): Promise<TaskTimeSummary> => {
     const taskIdStr = String(taskId);
@@ -160,10 +223,17 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
   const startTaskTimer = useCallback(async (taskId: number | string, data?: StartTimerDTO): Promise<TimeEntry> => {
     setError(null);
     try {
-      const entry = await api.startTaskTimer(taskId, data);
+      const onOverlap = data?.on_overlap ?? await confirmOverlap({
+        person_id: data?.person_id,
+        start: new Date().toISOString(),
+        entity_type: 'task',
+        entity_id: taskId,
+      });
+      const entry = await api.startTaskTimer(taskId, { ...data, on_overlap: onOverlap });
       
       // Update running timers
       setRunningTimers(prev => [...prev, entry]);
+      refreshAfterSplit(onOverlap);
       
       // Clear cached summary for this task
       setTaskTimeSummaries(prev => {
@@ -175,12 +245,13 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
       toast.success('Timer started', `Timer started for task`);
       return entry;
     } catch (err) {
+      if (err instanceof OverlapCancelledError) throw err;
       const errorMessage = err instanceof Error ? err.message : 'Failed to start timer';
       setError(errorMessage);
       toast.error('Failed to start timer', errorMessage);
       throw err;
     }
-  }, [toast]);
+  }, [toast, confirmOverlap, refreshAfterSplit]);
   
   const stopTaskTimer = useCallback(async (taskId: number | string): Promise<TimeEntry> => {
     setError(null);
@@ -211,7 +282,10 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
   const addManualTaskTimeEntry = useCallback(async (taskId: number | string, data: CreateTimeEntryDTO): Promise<TimeEntry> => {
     setError(null);
     try {
-      const entry = await api.createTaskTimeEntry(taskId, data);
+      const onOverlap = data.on_overlap ?? (data.end_time
+        ? await confirmOverlap({ person_id: data.person_id, start: data.start_time, end: data.end_time })
+        : undefined);
+      const entry = await api.createTaskTimeEntry(taskId, { ...data, on_overlap: onOverlap });
       
       // Clear cached summary for this task
       setTaskTimeSummaries(prev => {
@@ -224,12 +298,13 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
       toast.success('Time entry added', `Added ${addedTime}`);
       return entry;
     } catch (err) {
+      if (err instanceof OverlapCancelledError) throw err;
       const errorMessage = err instanceof Error ? err.message : 'Failed to add time entry';
       setError(errorMessage);
       toast.error('Failed to add time entry', errorMessage);
       throw err;
     }
-  }, [toast]);
+  }, [toast, confirmOverlap]);
   
   // Project time functions
   const fetchProjectTimeSummary = useCallback(async (projectId: number | string): Promise<ProjectTimeSummary> => {
@@ -258,10 +333,17 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
   const startProjectTimer = useCallback(async (projectId: number | string, data?: StartTimerDTO): Promise<TimeEntry> => {
     setError(null);
     try {
-      const entry = await api.startProjectTimer(projectId, data);
+      const onOverlap = data?.on_overlap ?? await confirmOverlap({
+        person_id: data?.person_id,
+        start: new Date().toISOString(),
+        entity_type: 'project',
+        entity_id: projectId,
+      });
+      const entry = await api.startProjectTimer(projectId, { ...data, on_overlap: onOverlap });
       
       // Update running timers
       setRunningTimers(prev => [...prev, entry]);
+      refreshAfterSplit(onOverlap);
       
       // Clear cached summary for this project
       setProjectTimeSummaries(prev => {
@@ -273,12 +355,13 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
       toast.success('Timer started', `Timer started for project`);
       return entry;
     } catch (err) {
+      if (err instanceof OverlapCancelledError) throw err;
       const errorMessage = err instanceof Error ? err.message : 'Failed to start timer';
       setError(errorMessage);
       toast.error('Failed to start timer', errorMessage);
       throw err;
     }
-  }, [toast]);
+  }, [toast, confirmOverlap, refreshAfterSplit]);
   
   const stopProjectTimer = useCallback(async (projectId: number | string): Promise<TimeEntry> => {
     setError(null);
@@ -309,7 +392,10 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
   const addManualProjectTimeEntry = useCallback(async (projectId: number | string, data: CreateTimeEntryDTO): Promise<TimeEntry> => {
     setError(null);
     try {
-      const entry = await api.createProjectTimeEntry(projectId, data);
+      const onOverlap = data.on_overlap ?? (data.end_time
+        ? await confirmOverlap({ person_id: data.person_id, start: data.start_time, end: data.end_time })
+        : undefined);
+      const entry = await api.createProjectTimeEntry(projectId, { ...data, on_overlap: onOverlap });
       
       // Clear cached summary for this project
       setProjectTimeSummaries(prev => {
@@ -322,12 +408,13 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
       toast.success('Time entry added', `Added ${addedTime}`);
       return entry;
     } catch (err) {
+      if (err instanceof OverlapCancelledError) throw err;
       const errorMessage = err instanceof Error ? err.message : 'Failed to add time entry';
       setError(errorMessage);
       toast.error('Failed to add time entry', errorMessage);
       throw err;
     }
-  }, [toast]);
+  }, [toast, confirmOverlap]);
   
   // Time entry management
   const updateTimeEntry = useCallback(async (entryId: string, data: UpdateTimeEntryDTO): Promise<TimeEntry> => {
@@ -367,6 +454,24 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
     }
   }, [toast]);
   
+  const resolveIdleTime = useCallback(async (entry: TimeEntry, idleSince: Date, action: 'discard' | 'split'): Promise<TimeEntry> => {
+    setError(null);
+    try {
+      const running = await api.resolveIdleTime(entry.id, idleSince.toISOString(), action);
+      
+      // The timer carries on as a new entry
+      setRunningTimers(prev => prev.map(t => (t.id === entry.id ? running : t)));
+      setTaskTimeSummaries(new Map());
+      setProjectTimeSummaries(new Map());
+      return running;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve idle time';
+      setError(errorMessage);
+      toast.error('Failed to resolve idle time', errorMessage);
+      throw err;
+    }
+  }, [toast]);
+  
   // Helper functions
   const isTaskTimerRunning = useCallback((taskId: number | string): boolean => {
     return runningTimers.some(t => t.entity_type === 'task' && t.entity_id === String(taskId));
@@ -397,6 +502,10 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
     projectTimeLoading,
     error,
     timerTick,
+    settings,
+    updateSettings,
+    overlapPrompt,
+    resolveOverlapPrompt,
     fetchRunningTimers,
     stopAllRunningTimers,
     fetchTaskTimeSummary,
@@ -409,6 +518,7 @@ export function TimeEntryProvider({ children }: { children: React.ReactNode }) {
     addManualProjectTimeEntry,
     updateTimeEntry,
     deleteTimeEntry,
+    resolveIdleTime,
     isTaskTimerRunning,
     isProjectTimerRunning,
     getRunningTimerForTask,
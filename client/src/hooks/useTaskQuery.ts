@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { queryTasks } from '../services/api';
+import { usePeople } from '../context/PeopleContext';
+
+export interface UseTaskQueryOptions {
+  projectId?: number | null;
+  /** Any value that changes when tasks may have changed, to run the query again */
+  refreshKey?: unknown;
+  debounceMs?: number;
+}
+
+export interface UseTaskQueryResult {
+  /** IDs of the matching tasks, or null when there is no query */
+  matchingIds: Set<number> | null;
+  error: string | null;
+  loading: boolean;
+}
+
+/**
+ * Evaluate a task query on the server, which also sees custom field values.
+ * Keeps the last good result while a new one loads or when the query is invalid,
+ * so the list doesn't flash while typing.
+ */
+export function useTaskQuery(query: string | undefined, options: UseTaskQueryOptions = {}): UseTaskQueryResult {
+  const { projectId, refreshKey, debounceMs = 300 } = options;
+  const { currentPersonId } = usePeople();
+  const [matchingIds, setMatchingIds] = useState<Set<number> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const trimmed = query?.trim() ?? '';
+
+  useEffect(() => {
+    if (!trimmed) {
+      setMatchingIds(null);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const tasks = await queryTasks(trimmed, { projectId: projectId ?? undefined, me: currentPersonId });
+        if (cancelled) return;
+        setMatchingIds(new Set(tasks.map(task => task.id)));
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Invalid query');
+        setMatchingIds(prev => prev ?? new Set());
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed, projectId, currentPersonId, refreshKey, debounceMs]);
+
+  return { matchingIds: trimmed ? matchingIds ?? new Set() : null, error: trimmed ? error : null, loading };
+}
+
+export default useTaskQuery;
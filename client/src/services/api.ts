@@ -12,6 +12,9 @@ import type {
   UpdateProjectDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
+  TaskWithNextOccurrence,
+  ReorderTaskDTO,
+  ReorderTaskResponse,
   CreatePersonDTO,
   UpdatePersonDTO,
   CreateTagDTO,
@@ -32,6 +35,7 @@ import type {
   CreateCustomFieldDTO,
   UpdateCustomFieldDTO,
   SetCustomFieldValueDTO,
+  CustomFieldTaskValue,
   SavedView,
   CreateSavedViewDTO,
   UpdateSavedViewDTO,
@@ -39,18 +43,53 @@ import type {
   ImportPayload,
   ImportResult,
   ImportMode,
+  TaskImportRequest,
+  TaskImportResult,
+  TaskExportOptions,
+  CalendarFeedScope,
+  CalendarFeedOptions,
   TimeEntry,
+  TimeReportQuery,
+  Timesheet,
+  UpdateTimesheetCellDTO,
+  TimeReport,
+  TimeReportGroupBy,
+  ProjectBilling,
+  UpdateProjectBillingDTO,
+  BillingRate,
+  SetBillingRateDTO,
+  Invoice,
+  InvoicePreview,
+  CreateInvoiceDTO,
   TaskTimeSummary,
   ProjectTimeSummary,
   CreateTimeEntryDTO,
   StartTimerDTO,
   UpdateTimeEntryDTO,
+  TimeTrackingSettings,
+  UpdateTimeTrackingSettingsDTO,
+  TimeEntryOverlapQuery,
   PomodoroSettings,
   PomodoroSession,
   PomodoroDailyStats,
   StartPomodoroDTO,
   UpdatePomodoroSettingsDTO,
+  UpdatePomodoroSessionDTO,
+  PomodoroRangeStats,
+  PomodoroStreaks,
+  PomodoroStatsQuery,
+  TaskDependency,
+  CreateTaskDependencyDTO,
+  ActivityPage,
+  ActivityQuery,
+  TrashEntityType,
+  TrashList,
+  ProjectStatus,
+  CreateProjectStatusDTO,
+  UpdateProjectStatusDTO,
+  DeleteProjectStatusResponse,
 } from '../types';
+import { localTimeZone } from '../utils/timesheet';
 
 const API_BASE_URL = '/api';
 
@@ -110,7 +149,10 @@ const request = {
 function buildQuery(params: Record<string, unknown>): string {
   const searchParams = new URLSearchParams();
   Object.entries(params).forEach(([key, value]) => {
-    if (value !== undefined && value !== null && value !== '') {
+    if (Array.isArray(value)) {
+      // Lists repeat the key: ?status=todo&status=done
+      value.forEach(item => searchParams.append(key, String(item)));
+    } else if (value !== undefined && value !== null && value !== '') {
       searchParams.append(key, String(value));
     }
   });
@@ -118,10 +160,9 @@ function buildQuery(params: Record<string, unknown>): string {
   return qs ? `?${qs}` : '';
 }
 
-// Build query string from TaskFilters
-function buildTaskFiltersQuery(filters?: TaskFilters): string {
-  if (!filters) return '';
-  return buildQuery({
+// Query parameters of TaskFilters, as GET /tasks and GET /export/tasks take them
+function taskFiltersParams(filters: TaskFilters): Record<string, unknown> {
+  return {
     project_id: filters.project_id,
     status: filters.status,
     priority: filters.priority,
@@ -130,7 +171,19 @@ function buildTaskFiltersQuery(filters?: TaskFilters): string {
     search: filters.search,
     assignee_id: filters.assignee_id,
     tag_id: filters.tag_id,
-  });
+    not_status: filters.not_status,
+    not_priority: filters.not_priority,
+    not_assignee_id: filters.not_assignee_id,
+    not_tag_id: filters.not_tag_id,
+    q: filters.query,
+    tz: filters.query ? localTimeZone() : undefined, // for today and relative dates in q
+  };
+}
+
+// Build query string from TaskFilters
+function buildTaskFiltersQuery(filters?: TaskFilters): string {
+  if (!filters) return '';
+  return buildQuery(taskFiltersParams(filters));
 }
 
 // ============ Projects API ============
@@ -146,9 +199,13 @@ export const getProjectTasks = (projectId: number) => request.get<Task[]>(`/proj
 
 export const getTasks = (filters?: TaskFilters) => request.get<Task[]>(`/tasks${buildTaskFiltersQuery(filters)}`);
 export const getTask = (id: number) => request.get<Task>(`/tasks/${id}`);
+// Tasks matching a task query; me is the person assignee:me refers to
+export const queryTasks = (query: string, options: { projectId?: number; me?: number | null } = {}) =>
+  request.get<Task[]>(`/tasks${buildQuery({ q: query, tz: localTimeZone(), project_id: options.projectId, me: options.me })}`);
 export const createTask = (data: CreateTaskDTO) => request.post<Task>('/tasks', data);
-export const updateTask = (id: number, data: UpdateTaskDTO) => request.put<Task>(`/tasks/${id}`, data);
-export const updateTaskStatus = (id: number, status: Task['status']) => request.patch<Task>(`/tasks/${id}/status`, { status });
+export const updateTask = (id: number, data: UpdateTaskDTO) => request.put<TaskWithNextOccurrence>(`/tasks/${id}`, data);
+export const updateTaskStatus = (id: number, status: Task['status']) => request.patch<TaskWithNextOccurrence>(`/tasks/${id}/status`, { status });
+export const reorderTask = (id: number, data: ReorderTaskDTO) => request.put<ReorderTaskResponse>(`/tasks/${id}/rank`, data);
 export const deleteTask = (id: number) => request.del<void>(`/tasks/${id}`);
 
 // Task Assignees API
@@ -165,6 +222,15 @@ export const getTaskTags = (taskId: number) => request.get<TaskTag[]>(`/tasks/${
 export const addTaskTag = (taskId: number, tagId: number) => request.post<TaskTag>(`/tasks/${taskId}/tags`, { tag_id: tagId });
 export const removeTaskTag = (taskId: number, tagId: number) => request.del<void>(`/tasks/${taskId}/tags/${tagId}`);
 
+// Task Dependencies API
+export const getAllTaskDependencies = (projectId?: number) =>
+  request.get<TaskDependency[]>(`/tasks/dependencies${buildQuery({ projectId })}`);
+export const getTaskDependencies = (taskId: number) => request.get<TaskDependency[]>(`/tasks/${taskId}/dependencies`);
+export const addTaskDependency = (taskId: number, data: CreateTaskDependencyDTO) =>
+  request.post<TaskDependency>(`/tasks/${taskId}/dependencies`, data);
+export const removeTaskDependency = (taskId: number, dependencyId: string) =>
+  request.del<void>(`/tasks/${taskId}/dependencies/${dependencyId}`);
+
 // ============ People API ============
 
 export const getPeople = (projectId?: number) => request.get<Person[]>(`/people${buildQuery({ project_id: projectId })}`);
@@ -232,6 +298,8 @@ export const getTaskProgressRollup = (id: number) => request.get<TaskProgressRol
 
 export const bulkUpdateTasks = (data: BulkUpdateDTO) => request.put<BulkUpdateResponse>('/tasks/bulk', data);
 export const bulkDeleteTasks = (taskIds: number[]) => request.del<{ deleted: number }>(`/tasks/bulk?taskIds=${taskIds.join(',')}`);
+export const restoreTask = (id: number) => request.post<Task[]>(`/tasks/${id}/restore`);
+export const bulkRestoreTasks = (taskIds: number[]) => request.post<Task[]>('/tasks/bulk/restore', { taskIds });
 
 // ============ Custom Fields API ============
 
@@ -242,6 +310,8 @@ export const createCustomField = (data: CreateCustomFieldDTO) => request.post<Cu
 export const updateCustomField = (id: string, data: Partial<UpdateCustomFieldDTO>) =>
   request.put<CustomField>(`/custom-fields/${id}`, data);
 export const deleteCustomField = (id: string) => request.del<void>(`/custom-fields/${id}`);
+export const getCustomFieldValues = (id: string, projectId?: number) =>
+  request.get<CustomFieldTaskValue[]>(`/custom-fields/${id}/values${buildQuery({ project_id: projectId })}`);
 
 // Custom Field Values API
 export const getTaskCustomFields = (taskId: number) => request.get<CustomFieldValue[]>(`/tasks/${taskId}/custom-fields`);
@@ -252,7 +322,7 @@ export const deleteTaskCustomField = (taskId: number, fieldId: string) =>
 
 // ============ Saved Views API ============
 
-export const getSavedViews = (projectId?: string, viewType?: string) =>
+export const getSavedViews = (projectId?: number, viewType?: string) =>
   request.get<SavedView[]>(`/saved-views${buildQuery({ project_id: projectId, view_type: viewType })}`);
 export const getSavedView = (id: string) => request.get<SavedView>(`/saved-views/${id}`);
 export const createSavedView = (data: CreateSavedViewDTO) => request.post<SavedView>('/saved-views', data);
@@ -324,6 +394,58 @@ export async function exportSqlite(): Promise<void> {
 export const getExportStatus = () => request.get<ExportStatus>('/export/status');
 export const importData = (data: ImportPayload, mode: ImportMode) =>
   request.post<ImportResult>(`/import?mode=${mode}`, data);
+/**
+ * Export the tasks matching the filters as CSV or XLSX (triggers file download)
+ */
+export async function exportTasks(filters: TaskFilters, options: TaskExportOptions): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/export/tasks${buildQuery({ ...taskFiltersParams(filters), ...options })}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: { message: 'Task export failed' } }));
+    throw new Error(error.error?.message || `HTTP error! status: ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const contentDisposition = response.headers.get('Content-Disposition');
+  let filename = `celestask-tasks.${options.format}`;
+  if (contentDisposition) {
+    const filenameMatch = contentDisposition.match(/filename="?(.+?)"?(?:;|$)/);
+    if (filenameMatch) filename = filenameMatch[1];
+  }
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export const importTasks = (data: TaskImportRequest) =>
+  request.post<TaskImportResult>('/import/tasks', data);
+
+// ============ Calendar Feeds API ============
+
+// Full URL of an iCalendar feed, for calendar apps to subscribe to. Apps fetch it
+// without the browser, so it is made absolute with the address the app is open on.
+export function getCalendarFeedUrl(scope: CalendarFeedScope, id: number | string, options: CalendarFeedOptions = {}) {
+  const path = scope === 'project' ? `projects/${id}` : `people/${id}`;
+  const query = buildQuery({ todos: options.todos ? 1 : undefined, time_entries: options.time_entries ? 1 : undefined });
+  return `${window.location.origin}${API_BASE_URL}/calendar/${path}/tasks.ics${query}`;
+}
+
+// Download an iCalendar feed as an .ics file
+export function downloadCalendarFeed(scope: CalendarFeedScope, id: number | string, options: CalendarFeedOptions = {}) {
+  const url = new URL(getCalendarFeedUrl(scope, id, options));
+  url.searchParams.set('download', '1');
+  const a = document.createElement('a');
+  a.href = url.toString();
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
 
 // ============ Time Entries API ============
 
@@ -355,6 +477,105 @@ export const deleteTimeEntry = (entryId: string) => request.del<void>(`/time-ent
 export const getRunningTimers = () => request.get<TimeEntry[]>('/time-entries/running');
 export const stopAllTimers = () => request.post<{ stopped_count: number; stopped_ids: string[] }>('/time-entries/stop-all');
 
+export const getTimeTrackingSettings = () => request.get<TimeTrackingSettings>('/time-entries/settings');
+export const updateTimeTrackingSettings = (data: UpdateTimeTrackingSettingsDTO) =>
+  request.put<TimeTrackingSettings>('/time-entries/settings', data);
+export const getTimeEntryOverlaps = (query: TimeEntryOverlapQuery) =>
+  request.get<TimeEntry[]>(`/time-entries/overlaps${buildQuery({ ...query, person_id: query.person_id ?? 'none' })}`);
+// Ends a running timer when its person went idle and carries on with a new one from now
+export const resolveIdleTime = (entryId: string, idleSince: string, action: 'discard' | 'split') =>
+  request.post<TimeEntry>(`/time-entries/${entryId}/idle`, { idle_since: idleSince, action });
+
+// ============ Timesheet & Time Reports API ============
+
+export const getTimesheet = (query: TimeReportQuery) =>
+  request.get<Timesheet>(`/timesheet${buildQuery({ ...query })}`);
+export const updateTimesheetCell = (data: UpdateTimesheetCellDTO) =>
+  request.put<UpdateTimesheetCellDTO>('/timesheet/cell', data);
+export const getTimeReport = (query: TimeReportQuery, groupBy: TimeReportGroupBy) =>
+  request.get<TimeReport>(`/reports/time${buildQuery({ ...query, group_by: groupBy })}`);
+
+// Download a time report as CSV: its groups, or with detail 'entries' every entry
+export async function exportTimeReport(query: TimeReportQuery, groupBy: TimeReportGroupBy, detail?: 'entries') {
+  const response = await fetch(`${API_BASE_URL}/reports/time/export${buildQuery({ ...query, group_by: groupBy, detail })}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: { message: 'Time report export failed' } }));
+    throw new Error(error.error?.message || `HTTP error! status: ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const contentDisposition = response.headers.get('Content-Disposition');
+  let filename = `celestask-time-${query.from}-to-${query.to}.csv`;
+  if (contentDisposition) {
+    const filenameMatch = contentDisposition.match(/filename="?(.+?)"?(?:;|$)/);
+    if (filenameMatch) filename = filenameMatch[1];
+  }
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// ============ Billing API ============
+
+export const getProjectBilling = (projectId: number | string) =>
+  request.get<ProjectBilling>(`/projects/${projectId}/billing`);
+export const updateProjectBilling = (projectId: number | string, data: UpdateProjectBillingDTO) =>
+  request.put<ProjectBilling>(`/projects/${projectId}/billing`, data);
+// Everyone's default rates, and their rates on a project when one is given
+export const getBillingRates = (projectId?: number | string) =>
+  request.get<BillingRate[]>(`/billing/rates${buildQuery({ project_id: projectId })}`);
+export const setBillingRate = (data: SetBillingRateDTO) =>
+  request.put<BillingRate | null>('/billing/rates', data);
+
+export const getProjectInvoices = (projectId: number | string) =>
+  request.get<Invoice[]>(`/projects/${projectId}/invoices`);
+export const previewInvoice = (projectId: number | string, query: { from: string; to: string; tz?: string }) =>
+  request.get<InvoicePreview>(`/projects/${projectId}/invoices/preview${buildQuery({ ...query })}`);
+export const createInvoice = (projectId: number | string, data: CreateInvoiceDTO) =>
+  request.post<Invoice>(`/projects/${projectId}/invoices`, data);
+export const getInvoice = (invoiceId: string) => request.get<Invoice>(`/invoices/${invoiceId}`);
+// Voiding an invoice removes it and unlocks the time it billed
+export const voidInvoice = (invoiceId: string) => request.del<void>(`/invoices/${invoiceId}`);
+
+// Open the printable invoice in a new tab, from where it prints or saves as PDF
+export function printInvoice(invoiceId: string) {
+  window.open(`${API_BASE_URL}/invoices/${invoiceId}/print`, '_blank', 'noopener');
+}
+
+// Download an invoice's lines as CSV
+export async function exportInvoice(invoice: Pick<Invoice, 'id' | 'number'>) {
+  const response = await fetch(`${API_BASE_URL}/invoices/${invoice.id}/export`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: { message: 'Invoice export failed' } }));
+    throw new Error(error.error?.message || `HTTP error! status: ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const contentDisposition = response.headers.get('Content-Disposition');
+  let filename = `invoice-${invoice.number}.csv`;
+  if (contentDisposition) {
+    const filenameMatch = contentDisposition.match(/filename="?(.+?)"?(?:;|$)/);
+    if (filenameMatch) filename = filenameMatch[1];
+  }
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 // ============ Pomodoro API ============
 
 export const getPomodoroSettings = () => request.get<PomodoroSettings>('/pomodoro/settings');
@@ -370,8 +591,48 @@ export const skipPomodoro = () => request.post<PomodoroSession>('/pomodoro/skip'
 
 export const getPomodoroSessions = (params?: { task_id?: number; date?: string; limit?: number }) =>
   request.get<PomodoroSession[]>(`/pomodoro/sessions${buildQuery(params || {})}`);
+export const updatePomodoroSession = (id: string, data: UpdatePomodoroSessionDTO) =>
+  request.put<PomodoroSession>(`/pomodoro/sessions/${id}`, data);
+export const deletePomodoroSession = (id: string) => request.del<void>(`/pomodoro/sessions/${id}`);
 export const getPomodoroStats = (date?: string) =>
   request.get<PomodoroDailyStats>(`/pomodoro/stats${buildQuery({ date })}`);
+export const getPomodoroRangeStats = (query: PomodoroStatsQuery) =>
+  request.get<PomodoroRangeStats>(`/pomodoro/stats/range${buildQuery({ ...query })}`);
+export const getPomodoroStreaks = (tz?: string) =>
+  request.get<PomodoroStreaks>(`/pomodoro/stats/streaks${buildQuery({ tz })}`);
+
+// ============ Activity API ============
+
+export const getActivity = (params?: ActivityQuery) =>
+  request.get<ActivityPage>(`/activity${buildQuery({ ...params })}`);
+export const getTaskActivity = (taskId: number, params?: { limit?: number; offset?: number }) =>
+  request.get<ActivityPage>(`/tasks/${taskId}/activity${buildQuery(params || {})}`);
+export const getProjectActivity = (projectId: number, params?: { limit?: number; offset?: number }) =>
+  request.get<ActivityPage>(`/projects/${projectId}/activity${buildQuery(params || {})}`);
+
+// ============ Trash API ============
+
+export const getTrash = (entityType?: TrashEntityType) =>
+  request.get<TrashList>(`/trash${buildQuery({ entity_type: entityType })}`);
+export const restoreTrashItem = (entityType: TrashEntityType, id: string) =>
+  request.post<{ message: string }>(`/trash/${entityType}/${id}/restore`);
+export const deleteTrashItem = (entityType: TrashEntityType, id: string) =>
+  request.del<{ message: string }>(`/trash/${entityType}/${id}`);
+export const emptyTrash = () => request.del<{ deleted: number }>('/trash');
+
+// ============ Workflow Statuses API ============
+
+export const getProjectStatuses = (projectId: number) =>
+  request.get<ProjectStatus[]>(`/projects/${projectId}/statuses`);
+export const createProjectStatus = (projectId: number, data: CreateProjectStatusDTO) =>
+  request.post<ProjectStatus>(`/projects/${projectId}/statuses`, data);
+export const updateProjectStatus = (projectId: number, statusId: string, data: UpdateProjectStatusDTO) =>
+  request.put<ProjectStatus>(`/projects/${projectId}/statuses/${statusId}`, data);
+export const reorderProjectStatuses = (projectId: number, statusIds: string[]) =>
+  request.put<ProjectStatus[]>(`/projects/${projectId}/statuses/reorder`, { statusIds });
+// Tasks in the deleted status move to moveTo, which is required when the status is in use
+export const deleteProjectStatus = (projectId: number, statusId: string, moveTo?: string) =>
+  request.del<DeleteProjectStatusResponse>(`/projects/${projectId}/statuses/${statusId}${buildQuery({ move_to: moveTo })}`);
 
 // Export all functions as a unified API object
 export const api = {
@@ -396,9 +657,11 @@ export const api = {
   tasks: {
     getAll: getTasks,
     getOne: getTask,
+    query: queryTasks,
     create: createTask,
     update: updateTask,
     updateStatus: updateTaskStatus,
+    reorder: reorderTask,
     delete: deleteTask,
     getAssignees: getTaskAssignees,
     addAssignee: addTaskAssignee,
@@ -407,6 +670,10 @@ export const api = {
     getTags: getTaskTags,
     addTag: addTaskTag,
     removeTag: removeTaskTag,
+    getAllDependencies: getAllTaskDependencies,
+    getDependencies: getTaskDependencies,
+    addDependency: addTaskDependency,
+    removeDependency: removeTaskDependency,
     getChildren: getTaskChildren,
     getDescendants: getTaskDescendants,
     getTree: getTaskTree,
@@ -417,6 +684,8 @@ export const api = {
     getRoot: getRootTasks,
     bulkUpdate: bulkUpdateTasks,
     bulkDelete: bulkDeleteTasks,
+    restore: restoreTask,
+    bulkRestore: bulkRestoreTasks,
     getCustomFields: getTaskCustomFields,
     setCustomField: setTaskCustomField,
     deleteCustomField: deleteTaskCustomField,
@@ -448,6 +717,7 @@ export const api = {
     create: createCustomField,
     update: updateCustomField,
     delete: deleteCustomField,
+    getValues: getCustomFieldValues,
   },
   savedViews: {
     getAll: getSavedViews,
@@ -460,8 +730,14 @@ export const api = {
   importExport: {
     exportData,
     exportSqlite,
+    exportTasks,
     getExportStatus,
     importData,
+    importTasks,
+  },
+  calendar: {
+    getFeedUrl: getCalendarFeedUrl,
+    downloadFeed: downloadCalendarFeed,
   },
   timeEntries: {
     getTaskEntries: getTaskTimeEntries,
@@ -478,6 +754,31 @@ export const api = {
     delete: deleteTimeEntry,
     getRunning: getRunningTimers,
     stopAll: stopAllTimers,
+    getSettings: getTimeTrackingSettings,
+    updateSettings: updateTimeTrackingSettings,
+    getOverlaps: getTimeEntryOverlaps,
+    resolveIdle: resolveIdleTime,
+  },
+  timesheet: {
+    get: getTimesheet,
+    updateCell: updateTimesheetCell,
+  },
+  reports: {
+    getTime: getTimeReport,
+    exportTime: exportTimeReport,
+  },
+  billing: {
+    getProject: getProjectBilling,
+    updateProject: updateProjectBilling,
+    getRates: getBillingRates,
+    setRate: setBillingRate,
+    getInvoices: getProjectInvoices,
+    previewInvoice,
+    createInvoice,
+    getInvoice,
+    voidInvoice,
+    printInvoice,
+    exportInvoice,
   },
   pomodoro: {
     getSettings: getPomodoroSettings,
@@ -490,7 +791,29 @@ export const api = {
     complete: completePomodoro,
     skip: skipPomodoro,
     getSessions: getPomodoroSessions,
+    updateSession: updatePomodoroSession,
+    deleteSession: deletePomodoroSession,
     getStats: getPomodoroStats,
+    getRangeStats: getPomodoroRangeStats,
+    getStreaks: getPomodoroStreaks,
+  },
+  activity: {
+    getAll: getActivity,
+    getByTask: getTaskActivity,
+    getByProject: getProjectActivity,
+  },
+  trash: {
+    getAll: getTrash,
+    restore: restoreTrashItem,
+    delete: deleteTrashItem,
+    empty: emptyTrash,
+  },
+  statuses: {
+    getByProject: getProjectStatuses,
+    create: createProjectStatus,
+    update: updateProjectStatus,
+    reorder: reorderProjectStatuses,
+    delete: deleteProjectStatus,
   },
 };
 
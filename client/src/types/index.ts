@@ -1,5 +1,5 @@
-// Task Status Types
-export type TaskStatus = 'backlog' | 'todo' | 'in_progress' | 'review' | 'done';
+// Task Status Types (the key of one of the task's project statuses, see ProjectStatus)
+export type TaskStatus = string;
 
 // Task Priority Types
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
@@ -141,8 +141,11 @@ export interface Task {
   progress_percent?: number;
   estimated_duration_minutes?: number;
   actual_duration_minutes?: number;
+  recurrence?: TaskRecurrence | null;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
+  rank?: number; // manual order within the task's status (v2.12.0)
 }
 
 // Note Interface
@@ -228,6 +231,7 @@ export interface CreateTaskDTO {
   progress_percent?: number;
   estimated_duration_minutes?: number;
   actual_duration_minutes?: number;
+  recurrence?: TaskRecurrence | null;
 }
 
 export interface UpdateTaskDTO {
@@ -243,6 +247,7 @@ export interface UpdateTaskDTO {
   progress_percent?: number;
   estimated_duration_minutes?: number;
   actual_duration_minutes?: number;
+  recurrence?: TaskRecurrence | null;
 }
 
 // Note DTOs
@@ -269,15 +274,21 @@ export interface MoveEntityDTO {
 }
 
 // Task Filters
+// List filters match any of their values; not_ filters leave out tasks matching any of theirs (v2.13.0)
 export interface TaskFilters {
   project_id?: number;
-  status?: TaskStatus;
-  priority?: TaskPriority;
+  status?: TaskStatus[];
+  priority?: TaskPriority[];
   due_date_from?: string;
   due_date_to?: string;
   search?: string;
-  assignee_id?: number;
-  tag_id?: number;
+  assignee_id?: number[]; // assignee or co-assignee
+  tag_id?: number[];
+  not_status?: TaskStatus[];
+  not_priority?: TaskPriority[];
+  not_assignee_id?: number[];
+  not_tag_id?: number[];
+  query?: string; // task query, e.g. "status:todo due<+7d" (v2.14.0)
 }
 
 // API Response Types
@@ -305,11 +316,12 @@ export interface KanbanColumn {
 
 // Calendar Event (for react-big-calendar)
 export interface CalendarEvent {
-  id: number;
+  id: number | string;
   title: string;
   start: Date;
   end: Date;
   resource: Task;
+  projected?: boolean; // Future occurrence of a recurring task, not created yet
 }
 
 // Timeline Task (for Gantt view)
@@ -336,7 +348,7 @@ export interface DashboardStats {
 // Modal State
 export interface ModalState {
   isOpen: boolean;
-  type: 'task' | 'project' | 'person' | 'confirm' | 'importExport' | null;
+  type: 'task' | 'project' | 'person' | 'confirm' | 'importExport' | 'statuses' | 'billing' | 'timeTracking' | null;
   data?: Task | Project | Person | null;
 }
 
@@ -347,13 +359,13 @@ export interface AppState {
   modal: ModalState;
 }
 
-// Status Configuration
-export const STATUS_CONFIG: Record<TaskStatus, { label: string; color: string }> = {
-  backlog: { label: 'Backlog', color: '#6b7280' },
-  todo: { label: 'To Do', color: '#3b82f6' },
-  in_progress: { label: 'In Progress', color: '#f59e0b' },
-  review: { label: 'Review', color: '#8b5cf6' },
-  done: { label: 'Done', color: '#10b981' },
+// Status Configuration (the default workflow every project starts with)
+export const STATUS_CONFIG: Record<TaskStatus, { label: string; color: string; category: StatusCategory }> = {
+  backlog: { label: 'Backlog', color: '#6b7280', category: 'not_started' },
+  todo: { label: 'To Do', color: '#3b82f6', category: 'not_started' },
+  in_progress: { label: 'In Progress', color: '#f59e0b', category: 'active' },
+  review: { label: 'Review', color: '#8b5cf6', category: 'active' },
+  done: { label: 'Done', color: '#10b981', category: 'done' },
 };
 
 // Priority Configuration
@@ -397,12 +409,15 @@ export interface BulkUpdateDTO {
 export interface BulkUpdateResponse {
   updated: number;
   tasks: Task[];
+  created_tasks?: Task[];
 }
 
 // ==================== v1.6.0 Custom Fields & Saved Views ====================
 
-// Custom Field Type
-export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'checkbox' | 'url';
+// Custom Field Type (person, relation, currency, rating and formula since v2.16.0)
+export type CustomFieldType =
+  | 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'checkbox' | 'url'
+  | 'person' | 'relation' | 'currency' | 'rating' | 'formula';
 
 // Custom Field Interface
 export interface CustomField {
@@ -410,20 +425,33 @@ export interface CustomField {
   name: string;
   field_type: CustomFieldType;
   project_id?: string | null;
-  options?: string[];  // For select/multiselect
-  required: boolean;
+  options?: string[];  // For select/multiselect; the unit of a currency field or the expression of a formula field
+  validation?: CustomFieldValidation | null;
+  required: boolean;  // Required before a task moves to a done status
   sort_order: number;
   created_at: string;
   updated_at: string;
 }
 
+// Custom Field Validation Rules (v2.17.0). Each rule applies to the field types noted.
+export interface CustomFieldValidation {
+  min?: number;                  // number, currency
+  max?: number;                  // number, currency
+  min_date?: string;             // date, YYYY-MM-DD
+  max_date?: string;             // date, YYYY-MM-DD
+  pattern?: string;              // text, a regular expression the whole value must match
+  max_length?: number;           // text, in characters
+  url_schemes?: string[];        // url, e.g. ['https']
+  required_statuses?: string[];  // any but formula: status keys a task can't be in without a value
+}
+
 // Custom Field Value Interface
 export interface CustomFieldValue {
   id: string;
   task_id: string;
   custom_field_id: string;
   custom_field?: CustomField;
-  value: string | string[] | number | boolean | null;
+  value: string | string[] | number | number[] | boolean | null; // number[]: related task IDs
   created_at: string;
   updated_at: string;
 }
@@ -434,6 +462,7 @@ export interface CreateCustomFieldDTO {
   field_type: CustomFieldType;
   project_id?: string | null;
   options?: string[];
+  validation?: CustomFieldValidation | null;
   required?: boolean;
   sort_order?: number;
 }
@@ -444,13 +473,14 @@ export interface UpdateCustomFieldDTO {
   field_type?: CustomFieldType;
   project_id?: string | null;
   options?: string[];
+  validation?: CustomFieldValidation | null;  // null removes every rule
   required?: boolean;
   sort_order?: number;
 }
 
 // Set Custom Field Value DTO
 export interface SetCustomFieldValueDTO {
-  value: string | string[] | number | boolean | null;
+  value: string | string[] | number | number[] | boolean | null;
 }
 
 // Saved View Type
@@ -461,8 +491,9 @@ export interface SavedView {
   id: string;
   name: string;
   view_type: SavedViewType;
-  project_id?: string | null;
+  project_id?: number | null;
   filters: TaskFilters;
+  settings?: SavedViewSettings;
   sort_by?: string;
   sort_order: 'asc' | 'desc';
   is_default: boolean;
@@ -474,8 +505,9 @@ export interface SavedView {
 export interface CreateSavedViewDTO {
   name: string;
   view_type: SavedViewType;
-  project_id?: string | null;
+  project_id?: number | null;
   filters: TaskFilters;
+  settings?: SavedViewSettings;
   sort_by?: string;
   sort_order?: 'asc' | 'desc';
   is_default?: boolean;
@@ -485,8 +517,9 @@ export interface CreateSavedViewDTO {
 export interface UpdateSavedViewDTO {
   name?: string;
   view_type?: SavedViewType;
-  project_id?: string | null;
+  project_id?: number | null;
   filters?: TaskFilters;
+  settings?: SavedViewSettings;
   sort_by?: string;
   sort_order?: 'asc' | 'desc';
   is_default?: boolean;
@@ -537,6 +570,86 @@ export interface ImportResult {
   totalErrors?: number;
 }
 
+// Task Import Row (v2.18.0): a spreadsheet row mapped to task fields. Values are the
+// text of the cells, read into their types by the server.
+export interface TaskImportRow {
+  title: string;
+  description?: string;
+  status?: string;      // status key or name
+  priority?: string;
+  due_date?: string;
+  start_date?: string;
+  end_date?: string;
+  estimate?: string;    // minutes, or e.g. '1h30m'
+  progress?: string;
+  assignees?: string[]; // names or emails; the first is the assignee
+  tags?: string[];      // created when missing
+  parent?: string;      // title of a task in the import or the project, or '#<id>'
+  custom_fields?: Record<string, string>; // by field ID
+  ref?: string;         // the row's ID in the tool it comes from (v2.19.0)
+  parent_ref?: string;  // ref of the row it is nested under; takes precedence over parent
+  notes?: string[];     // comments, added as notes of the task
+}
+
+// Task Import Request
+export interface TaskImportRequest {
+  project_id: number;
+  dry_run: boolean;
+  rows: TaskImportRow[];
+  create_people?: boolean; // add assignees that match nobody as new people (v2.19.0)
+}
+
+// What happened to a row, or would in a dry run. Rows with errors are skipped.
+export interface TaskImportRowResult {
+  row: number; // 1-based position in rows
+  ref?: string;
+  title: string;
+  task_id?: number;
+  skipped: boolean;
+  errors?: string[];
+  warnings?: string[];
+}
+
+// Task Import Result
+export interface TaskImportResult {
+  dry_run: boolean;
+  created: number;
+  skipped: number;
+  new_tags: string[];
+  new_people: string[];
+  rows: TaskImportRowResult[];
+  summary: Record<string, ImportTableSummary>; // records per table, as in an ImportResult
+}
+
+// Task Export Column (v2.20.0): a task value, or `custom_field:<id>`
+export type TaskExportColumn =
+  | 'id' | 'title' | 'description' | 'status' | 'priority'
+  | 'assignee' | 'co_assignees' | 'tags'
+  | 'due_date' | 'start_date' | 'end_date'
+  | 'progress' | 'estimate' | 'logged_time' | 'parent'
+  | 'created_at' | 'updated_at'
+  | `custom_field:${string}`;
+
+export type TaskExportFormat = 'csv' | 'xlsx';
+
+// What to export of the tasks matching a set of TaskFilters, and in what order
+export interface TaskExportOptions {
+  format: TaskExportFormat;
+  columns: TaskExportColumn[];
+  sort_by?: string;
+  sort_order?: 'asc' | 'desc';
+  me?: number | null; // person assignee:me refers to in a task query
+}
+
+// Calendar Feed (v2.21.0): an iCalendar feed of a project's tasks, or of the tasks a
+// person is assigned to
+export type CalendarFeedScope = 'project' | 'person';
+
+export interface CalendarFeedOptions {
+  todos?: boolean;        // tasks as to-dos instead of all-day events
+  time_entries?: boolean; // add finished time entries as timed events
+}
+
 // ==================== v2.2.0 Time Tracking ====================
 
 // Time Entry Entity Type
@@ -557,6 +670,9 @@ export interface TimeEntry {
   is_running: boolean;
   created_at: string;
   updated_at: string;
+  billable: boolean;              // v2.23.0
+  invoice_id?: string | null;     // set once invoiced; invoiced entries can't be changed
+  pomodoro_session_id?: string | null; // v2.25.0: set on entries logged by a pomodoro work session
   entity_name?: string; // For running timers list
   current_session_us?: number; // For running timers
 }
@@ -565,6 +681,7 @@ export interface TimeEntry {
 export interface TaskTimeSummary {
   task_id: string;
   direct_time_us: number;
+  pomodoro_time_us: number;   // the part of the direct time logged by pomodoro sessions
   children_time_us: number;
   total_time_us: number;
   current_session_us: number;
@@ -600,6 +717,7 @@ export interface ProjectTimeSummary {
     project_name: string;
     total_us: number;
   }>;
+  billing: ProjectBillingSummary;
 }
 
 // Create Time Entry DTO (for manual entries)
@@ -609,12 +727,15 @@ export interface CreateTimeEntryDTO {
   start_time: string;
   end_time?: string | null;
   duration_us?: number | null;
+  billable?: boolean;         // true when left out
+  on_overlap?: Exclude<OverlapMode, 'warn'>; // the overlap setting when left out
 }
 
 // Start Timer DTO
 export interface StartTimerDTO {
   person_id?: string | null;
   description?: string | null;
+  on_overlap?: Exclude<OverlapMode, 'warn'>;
 }
 
 // Update Time Entry DTO
@@ -624,6 +745,232 @@ export interface UpdateTimeEntryDTO {
   start_time?: string;
   end_time?: string | null;
   duration_us?: number | null;
+  billable?: boolean;
+}
+
+// Time Report Query (v2.22.0): the days a timesheet or report covers, both included,
+// in a time zone. Filters left out match everything.
+export interface TimeReportQuery {
+  from: string;               // YYYY-MM-DD
+  to: string;
+  tz?: string;                // IANA time zone the days are in; UTC without it
+  person_id?: string[];       // 'none' for time logged without a person
+  project_id?: number[];
+  tag_id?: number[];
+  source?: TimeSource[];      // v2.25.0
+}
+
+// Time a person logged on one task, or on a project itself, by day
+export interface TimesheetRow {
+  entity_type: TimeEntityType;
+  entity_id: string;
+  task_id: number | null;
+  title: string;              // task title, or the project name for time on the project
+  project_id: number;
+  project_name: string;
+  days: Record<string, number>; // duration_us by day
+  total_us: number;
+  running_days: string[];     // days with a running timer, which can't be edited
+}
+
+// A line of the timesheet: what a person logged by day, and on what
+export interface TimesheetPerson {
+  person_id: string | null;   // null for time logged without a person
+  person_name: string;
+  days: Record<string, number>;
+  total_us: number;
+  rows: TimesheetRow[];
+}
+
+export interface Timesheet {
+  from: string;
+  to: string;
+  days: string[];
+  people: TimesheetPerson[];
+  day_totals: Record<string, number>;
+  total_us: number;
+}
+
+// Sets the time a person logged on a task or project on a day
+export interface UpdateTimesheetCellDTO {
+  person_id: string | null;
+  entity_type: TimeEntityType;
+  entity_id: string;
+  date: string;
+  duration_us: number;
+  tz?: string;
+  on_overlap?: Exclude<OverlapMode, 'warn'>;
+}
+
+export type TimeReportGroupBy = 'project' | 'task' | 'person' | 'tag' | 'source';
+
+// Where logged time came from: a pomodoro work session, or a timer or manual entry
+export type TimeSource = 'pomodoro' | 'manual';
+
+export interface TimeReportGroup {
+  key: string;
+  label: string;
+  project_id?: number;        // for tasks
+  project_name?: string;
+  total_us: number;
+  pomodoro_us: number;        // the part of the time logged by pomodoro sessions
+  entry_count: number;
+  days: Record<string, number>;
+}
+
+// Time summed over a range of days. Grouped by tag, a task's time counts toward
+// each of its tags.
+export interface TimeReport {
+  from: string;
+  to: string;
+  group_by: TimeReportGroupBy;
+  days: string[];
+  total_us: number;
+  pomodoro_us: number;
+  entry_count: number;
+  groups: TimeReportGroup[];  // most time first
+}
+
+// ==================== v2.23.0 Billing ====================
+
+// How a project's time is billed. Time is charged at the person's rate on the
+// project, else the project's hourly rate, else the person's default rate.
+export interface ProjectBilling {
+  project_id: number;
+  currency: string;             // e.g. 'EUR'
+  hourly_rate: number | null;
+  bill_to: string | null;       // who invoices are addressed to
+}
+
+export interface UpdateProjectBillingDTO {
+  currency: string;
+  hourly_rate: number | null;
+  bill_to?: string | null;
+}
+
+// A person's default hourly rate, or their rate on one project
+export interface BillingRate {
+  id: string;
+  person_id: string;
+  person_name: string;
+  project_id: number | null;    // null for the default rate
+  hourly_rate: number;
+}
+
+// Sets a rate; a null hourly_rate removes it
+export interface SetBillingRateDTO {
+  person_id: string;
+  project_id?: number | null;
+  hourly_rate: number | null;
+}
+
+// A project's finished time by what has been billed
+export interface ProjectBillingSummary {
+  currency: string;
+  billable_us: number;
+  non_billable_us: number;
+  invoiced_us: number;
+  uninvoiced_us: number;
+  unrated_us: number;           // uninvoiced billable time nobody has a rate for
+  billable_amount: number;
+  invoiced_amount: number;
+  uninvoiced_amount: number;
+}
+
+// The time one person logged on a task, or on the project itself
+export interface InvoiceLine {
+  id: string;
+  description: string;
+  person_name: string | null;
+  duration_us: number;
+  hourly_rate: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  project_id: number;
+  project_name: string;
+  number: string;
+  from_date: string;
+  to_date: string;
+  time_zone: string;
+  issue_date: string;
+  due_date: string | null;
+  currency: string;
+  bill_to: string | null;
+  notes: string | null;
+  total_us: number;
+  total_amount: number;
+  entry_count: number;
+  created_at?: string;
+  lines?: InvoiceLine[];        // left out of lists
+}
+
+// The invoice a range would make, before it is saved
+export interface InvoicePreview extends Invoice {
+  lines: InvoiceLine[];
+  missing_rates: string[];      // who logged billable time without a rate
+}
+
+// Invoices a project's uninvoiced billable time in a range of days
+export interface CreateInvoiceDTO {
+  from: string;
+  to: string;
+  tz?: string;
+  number?: string;              // the next INV-0001 style number when left out
+  issue_date?: string;          // today when left out
+  due_date?: string | null;
+  notes?: string | null;
+}
+
+// ==================== v2.24.0 Rounding, Overlaps & Idle Time ====================
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+// What happens when new time overlaps a person's other time: keep both, ask first, or
+// stop their other timers and log manual entries around the other time
+export type OverlapMode = 'allow' | 'warn' | 'split';
+
+// How timers are rounded when they stop, overlaps are handled and idle time is noticed
+export interface TimeTrackingSettings {
+  id: string;
+  rounding_minutes: number;     // 0 keeps durations as tracked
+  rounding_mode: RoundingMode;
+  overlap_mode: OverlapMode;
+  idle_minutes: number;         // 0 turns idle detection off
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpdateTimeTrackingSettingsDTO {
+  rounding_minutes?: number;
+  rounding_mode?: RoundingMode;
+  overlap_mode?: OverlapMode;
+  idle_minutes?: number;
+}
+
+// The time new time would overlap: without an end, the person's timers running on
+// other tasks and projects
+export interface TimeEntryOverlapQuery {
+  person_id?: string | null;
+  start: string;
+  end?: string;
+  entity_type?: TimeEntityType;
+  entity_id?: number | string;
+  exclude_id?: string;
+}
+
+// What to do with the time a timer ran while its person was idle
+export type IdleTimeAction = 'keep' | 'discard' | 'split';
+
+// What to do with the time new time overlaps: log around it, keep both, or leave the new time out
+export type OverlapChoice = Exclude<OverlapMode, 'warn'> | 'cancel';
+
+// New time waiting on an overlap choice; timers overlap running timers, manual entries logged time
+export interface OverlapPrompt {
+  overlaps: TimeEntry[];
+  timer: boolean;
 }
 
 // ==================== v2.4.0 Pomodoro Timer ====================
@@ -645,6 +992,8 @@ export interface PomodoroSettings {
   auto_start_work: boolean;
   notifications_enabled: boolean;
   daily_goal: number;
+  log_time_entries: boolean;  // v2.25.0: log completed work sessions on a task as time entries
+  log_interrupted: boolean;   // and stopped ones too
   created_at: string;
   updated_at: string;
 }
@@ -692,6 +1041,70 @@ export interface UpdatePomodoroSettingsDTO {
   auto_start_work?: boolean;
   notifications_enabled?: boolean;
   daily_goal?: number;
+  log_time_entries?: boolean;
+  log_interrupted?: boolean;
+}
+
+// Edits a finished session; its time entry follows (v2.25.0)
+export interface UpdatePomodoroSessionDTO {
+  task_id?: number | null;
+  elapsed_us?: number;
+}
+
+// Focus analytics (v2.26.0): finished work sessions by the day and hour they started,
+// in the time zone of the query
+export interface PomodoroDayStats {
+  date: string;               // YYYY-MM-DD
+  work_sessions_completed: number;
+  work_sessions_interrupted: number;
+  work_time_us: number;
+  goal_met: boolean;
+}
+
+export interface PomodoroHourStats {
+  hour: number;               // 0 to 23
+  work_sessions_completed: number;
+  work_sessions_interrupted: number;
+  work_time_us: number;
+}
+
+// Focus on a task, or on a project
+export interface PomodoroFocusTotal {
+  id: number | null;          // null for sessions without a task or project
+  name: string;
+  project_name?: string;      // for tasks
+  work_sessions_completed: number;
+  work_time_us: number;
+}
+
+export interface PomodoroRangeStats {
+  from: string;
+  to: string;
+  daily_goal: number;
+  days: PomodoroDayStats[];   // every day of the range
+  work_sessions_completed: number;
+  work_sessions_interrupted: number;
+  work_time_us: number;
+  interruption_rate: number;  // 0 to 1
+  days_goal_met: number;
+  hours: PomodoroHourStats[]; // all 24
+  tasks: PomodoroFocusTotal[];    // most focus first
+  projects: PomodoroFocusTotal[];
+}
+
+// Days in a row the daily goal was met
+export interface PomodoroStreaks {
+  today: string;
+  daily_goal: number;
+  current_streak: number;     // today's goal not met yet doesn't break it
+  longest_streak: number;
+  longest_streak_end: string | null;
+}
+
+export interface PomodoroStatsQuery {
+  from: string;
+  to: string;
+  tz?: string;
 }
 
 // Pomodoro Session Type Configuration
@@ -700,3 +1113,242 @@ export const POMODORO_SESSION_CONFIG: Record<PomodoroSessionType, { label: strin
   short_break: { label: 'Short Break', color: '#10b981' },
   long_break: { label: 'Long Break', color: '#3b82f6' },
 };
+
+// ==================== v2.5.0 Task Dependencies ====================
+
+// Dependency Type (finish-to-start: blocked task starts after blocking task finishes)
+export type TaskDependencyType = 'finish_to_start' | 'start_to_start';
+
+// Task Dependency Interface
+export interface TaskDependency {
+  id: string;
+  blocking_task_id: number;
+  blocked_task_id: number;
+  dependency_type: TaskDependencyType;
+  created_at: string;
+}
+
+// Create Task Dependency DTO (exactly one side is set; the other is the task in the URL)
+export interface CreateTaskDependencyDTO {
+  blocking_task_id?: number;
+  blocked_task_id?: number;
+  dependency_type?: TaskDependencyType;
+}
+
+// Dependency Type Configuration
+export const DEPENDENCY_TYPE_CONFIG: Record<TaskDependencyType, { label: string; description: string }> = {
+  finish_to_start: { label: 'Finish to Start', description: 'Starts after the blocking task is done' },
+  start_to_start: { label: 'Start to Start', description: 'Starts once the blocking task has started' },
+};
+
+// ==================== v2.6.0 Recurring Tasks ====================
+
+// Recurrence Frequency (after_completion: next occurrence is N days after the task is done)
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+
+// Task Recurrence Rule
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: number[]; // 0 = Sunday, weekly only
+  month_day?: number; // 1-31, monthly only
+  end_date?: string;
+}
+
+// Task returned from a status change; completing a recurring task creates its next occurrence
+export interface TaskWithNextOccurrence extends Task {
+  next_occurrence?: Task;
+}
+
+// Recurrence Frequency Configuration
+export const RECURRENCE_FREQUENCY_CONFIG: Record<RecurrenceFrequency, { label: string; unit: string }> = {
+  daily: { label: 'Daily', unit: 'day' },
+  weekly: { label: 'Weekly', unit: 'week' },
+  monthly: { label: 'Monthly', unit: 'month' },
+  after_completion: { label: 'After completion', unit: 'day' },
+};
+
+// ==================== v2.7.0 Activity Log ====================
+
+// Activity Entity Type
+export type ActivityEntityType = 'task' | 'project' | 'tag';
+
+// Activity Action
+export type ActivityAction = 'created' | 'updated' | 'deleted' | 'restored';
+
+// Activity Log Entry (one per created/deleted entity or changed field)
+export interface ActivityEntry {
+  id: string;
+  entity_type: ActivityEntityType;
+  entity_id: string;
+  entity_name: string | null;
+  project_id: number | null;
+  action: ActivityAction;
+  field: string | null; // custom fields are prefixed with "custom_field:"
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+}
+
+// Page of activity entries, newest first
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  has_more: boolean;
+}
+
+// Activity Query Parameters
+export interface ActivityQuery {
+  entity_type?: ActivityEntityType;
+  entity_id?: string;
+  project_id?: number;
+  action?: ActivityAction;
+  limit?: number;
+  offset?: number;
+}
+
+// Activity Field Labels
+export const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  name: 'name',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  due_date: 'due date',
+  start_date: 'start date',
+  end_date: 'end date',
+  progress_percent: 'progress',
+  estimated_duration_minutes: 'estimate',
+  actual_duration_minutes: 'actual time',
+  recurrence: 'repeat',
+  assignee: 'assignee',
+  parent_task: 'parent task',
+  parent_project: 'parent project',
+  owner: 'owner',
+  color: 'color',
+  project: 'project',
+  co_assignees: 'co-assignee',
+  tags: 'tag',
+};
+
+// ==================== v2.9.0 Trash ====================
+
+// Entity types that go to the trash when deleted
+export type TrashEntityType = 'project' | 'task' | 'note' | 'person';
+
+// Trashed item (subprojects, a project's tasks and subtasks are restored with their parent, not listed)
+export interface TrashItem {
+  entity_type: TrashEntityType;
+  id: string;
+  name: string;
+  parent_name: string | null; // project of a task or person, parent of a project, owner of a note
+  deleted_at: string;
+}
+
+// Trash contents, most recently deleted first
+export interface TrashList {
+  items: TrashItem[];
+  retention_days: number; // 0 means items are kept until deleted by hand
+}
+
+// Trash Entity Type Configuration
+export const TRASH_ENTITY_CONFIG: Record<TrashEntityType, { label: string; pluralLabel: string }> = {
+  project: { label: 'Project', pluralLabel: 'Projects' },
+  task: { label: 'Task', pluralLabel: 'Tasks' },
+  note: { label: 'Note', pluralLabel: 'Notes' },
+  person: { label: 'Person', pluralLabel: 'People' },
+};
+
+// ==================== v2.10.0 Workflow Statuses ====================
+
+// What a status means for progress: dashboards and rollups count "done" statuses as complete
+export type StatusCategory = 'not_started' | 'active' | 'done';
+
+// One step of a project's workflow; tasks store its key, which never changes after creation
+export interface ProjectStatus {
+  id: string;
+  project_id: number;
+  key: TaskStatus;
+  name: string;
+  color: string;
+  category: StatusCategory;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Create Project Status DTO
+export interface CreateProjectStatusDTO {
+  name: string;
+  color?: string;
+  category?: StatusCategory;
+}
+
+// Update Project Status DTO
+export interface UpdateProjectStatusDTO {
+  name?: string;
+  color?: string;
+  category?: StatusCategory;
+}
+
+// Delete Project Status response
+export interface DeleteProjectStatusResponse {
+  message: string;
+  moved_tasks: number;
+}
+
+// Status Category Configuration
+export const STATUS_CATEGORY_CONFIG: Record<StatusCategory, { label: string; description: string }> = {
+  not_started: { label: 'Not started', description: 'Work has not begun' },
+  active: { label: 'Active', description: 'Work is underway' },
+  done: { label: 'Done', description: 'Counts as complete' },
+};
+
+// ==================== v2.11.0 Kanban WIP Limits & Swimlanes ====================
+
+// What Kanban swimlanes group tasks by
+export type SwimlaneGroupBy = 'none' | 'assignee' | 'priority' | 'tag' | 'parent' | 'custom_field';
+
+// View-specific options stored with a saved view
+export interface SavedViewSettings {
+  wip_limits?: Record<TaskStatus, number>; // status key -> most tasks the column should hold
+  swimlane_by?: SwimlaneGroupBy;
+  swimlane_field_id?: string | null; // select-type custom field when swimlane_by is 'custom_field'
+  columns?: string[]; // list view: custom field IDs shown as columns, in order (v2.15.0)
+  group_by_field_id?: string | null; // list view: custom field the rows are grouped by (v2.15.0)
+}
+
+// A task's stored value of a custom field
+export interface CustomFieldTaskValue {
+  task_id: number;
+  value: string | null;
+}
+
+// Swimlane Grouping Configuration
+export const SWIMLANE_GROUP_CONFIG: Record<SwimlaneGroupBy, { label: string }> = {
+  none: { label: 'No swimlanes' },
+  assignee: { label: 'Assignee' },
+  priority: { label: 'Priority' },
+  tag: { label: 'Tag' },
+  parent: { label: 'Parent task' },
+  custom_field: { label: 'Custom field' },
+};
+
+// ==================== v2.12.0 Manual Task Order ====================
+
+// Where to move a task within its status column; null neighbours mean top or bottom
+export interface ReorderTaskDTO {
+  previous_task_id: number | null;
+  next_task_id: number | null;
+}
+
+// A task whose rank changed when its column was renumbered
+export interface TaskRank {
+  id: number;
+  rank: number;
+}
+
+// Response of moving a task within its column
+export interface ReorderTaskResponse {
+  task: Task;
+  renumbered?: TaskRank[];
+}
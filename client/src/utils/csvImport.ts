@@ -0,0 +1,152 @@
+/**
+ * CSV import of tasks (v2.18.0).
+ * Files are parsed in the browser and each column is mapped to a task field, a custom
+ * field, the tags, the assignees or the parent task. The mapped rows are sent to
+ * POST /import/tasks, which reads the cells into their types and matches names
+ * against the project.
+ */
+import type { CustomField, TaskImportRow } from '../types';
+
+/**
+ * What a column is imported as: a task field, or `custom_field:<id>`. '' skips it.
+ */
+export type CsvColumnTarget =
+  | ''
+  | 'title' | 'description' | 'status' | 'priority'
+  | 'due_date' | 'start_date' | 'end_date' | 'estimate' | 'progress'
+  | 'assignees' | 'tags' | 'parent'
+  | `custom_field:${string}`;
+
+export const CSV_TASK_TARGETS: { value: CsvColumnTarget; label: string }[] = [
+  { value: 'title', label: 'Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'start_date', label: 'Start date' },
+  { value: 'end_date', label: 'End date' },
+  { value: 'estimate', label: 'Estimate' },
+  { value: 'progress', label: 'Progress' },
+  { value: 'assignees', label: 'Assignees (name or email)' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'parent', label: 'Parent task' },
+];
+
+// Header names that map to a task field without being chosen
+const HEADER_ALIASES: Record<string, CsvColumnTarget> = {
+  title: 'title', name: 'title', task: 'title', 'task name': 'title', summary: 'title', subject: 'title',
+  description: 'description', notes: 'description', details: 'description', body: 'description',
+  status: 'status', state: 'status', stage: 'status', column: 'status', list: 'status',
+  priority: 'priority',
+  'due date': 'due_date', due: 'due_date', deadline: 'due_date',
+  'start date': 'start_date', start: 'start_date',
+  'end date': 'end_date', end: 'end_date',
+  estimate: 'estimate', 'estimated time': 'estimate', 'original estimate': 'estimate',
+  progress: 'progress', '% complete': 'progress', 'percent complete': 'progress',
+  assignee: 'assignees', assignees: 'assignees', owner: 'assignees', 'assigned to': 'assignees', members: 'assignees',
+  tags: 'tags', tag: 'tags', labels: 'tags', label: 'tags',
+  parent: 'parent', 'parent task': 'parent', 'parent summary': 'parent',
+};
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may hold the delimiter, line
+ * breaks and doubled quotes. The delimiter is guessed from the first line when not
+ * given: a comma, semicolon or tab.
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const sep = delimiter ?? [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === sep) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry nothing to import
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Guesses what a column is from its header: a task field by a common name, or a
+ * custom field by its own name. Columns nothing matches are skipped.
+ */
+export function guessColumnTarget(header: string, customFields: CustomField[]): CsvColumnTarget {
+  const name = header.trim().toLowerCase();
+  const field = customFields.find(f => f.field_type !== 'formula' && f.name.trim().toLowerCase() === name);
+  if (field) return `custom_field:${field.id}`;
+  return HEADER_ALIASES[name] ?? '';
+}
+
+/**
+ * Splits a cell listing several values, such as tags or assignees.
+ */
+export function splitCsvList(value: string): string[] {
+  return value.split(/[,;]/).map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Builds the rows to import from the cells and the target of each column. When two
+ * columns map to the same text field their values are joined; list fields collect
+ * the values of every column mapped to them.
+ */
+export function buildTaskImportRows(cells: string[][], targets: CsvColumnTarget[]): TaskImportRow[] {
+  return cells.map(rowCells => {
+    const row: TaskImportRow = { title: '' };
+    targets.forEach((target, column) => {
+      const value = (rowCells[column] ?? '').trim();
+      if (!target || value === '') return;
+
+      if (target.startsWith('custom_field:')) {
+        const fieldId = target.slice('custom_field:'.length);
+        row.custom_fields = { ...row.custom_fields, [fieldId]: value };
+        return;
+      }
+      switch (target) {
+        case 'assignees':
+        case 'tags':
+          row[target] = [...(row[target] ?? []), ...splitCsvList(value)];
+          break;
+        case 'title':
+        case 'description':
+          row[target] = row[target] ? `${row[target]}${target === 'title' ? ' ' : '\n\n'}${value}` : value;
+          break;
+        default:
+          (row as unknown as Record<string, string>)[target] = value;
+      }
+    });
+    return row;
+  });
+}
@@ -0,0 +1,206 @@
+/**
+ * Custom fields shown as columns of the list view.
+ * Values come as the raw strings the server stores (GET /custom-fields/:id/values):
+ * multiselect and relation values are JSON arrays, checkboxes "true" or "false", dates
+ * YYYY-MM-DD and person values the person's ID. Formula values are calculated by the server.
+ * Sorting follows the field type, so numbers sort numerically, select options keep the
+ * order they were defined in and people sort by name.
+ */
+import type { CustomField, CustomFieldValue, Person, Task } from '../types';
+
+export type CustomFieldSortKey = `custom_field:${string}`;
+
+const SORT_KEY_PREFIX = 'custom_field:';
+
+/**
+ * Stored values of one field, by task ID.
+ */
+export type CustomFieldColumnValues = Map<number, string | null>;
+
+/**
+ * People and tasks that person and relation values are shown and sorted with.
+ */
+export interface CustomFieldLookups {
+  people?: Pick<Person, 'id' | 'name'>[];
+  tasks?: Pick<Task, 'id' | 'title'>[];
+}
+
+/**
+ * Sort key of a custom field column.
+ */
+export function customFieldSortKey(fieldId: string): CustomFieldSortKey {
+  return `${SORT_KEY_PREFIX}${fieldId}`;
+}
+
+/**
+ * The field a sort key sorts by, or null for the built-in sort keys.
+ */
+export function getSortKeyFieldId(sortKey: string): string | null {
+  return sortKey.startsWith(SORT_KEY_PREFIX) ? sortKey.slice(SORT_KEY_PREFIX.length) : null;
+}
+
+/**
+ * Turn a stored value into the typed value CustomFieldInput works with. Empty values are null.
+ */
+export function parseCustomFieldValue(field: CustomField, raw: string | null | undefined): CustomFieldValue['value'] {
+  if (raw === null || raw === undefined || raw === '') return null;
+
+  switch (field.field_type) {
+    case 'number':
+    case 'currency':
+    case 'rating':
+    case 'formula': {
+      const value = Number(raw);
+      return Number.isNaN(value) ? null : value;
+    }
+    case 'checkbox':
+      return raw === 'true';
+    case 'relation': {
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        const ids = Array.isArray(parsed) ? parsed.map(Number).filter(id => !Number.isNaN(id)) : [];
+        return ids.length > 0 ? ids : null;
+      } catch {
+        return null;
+      }
+    }
+    case 'multiselect': {
+      let values: string[];
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        values = Array.isArray(parsed) ? parsed.map(String) : [raw];
+      } catch {
+        values = [raw];
+      }
+      return values.length > 0 ? values : null;
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Turn a typed value into the string the server stores for it.
+ */
+export function serializeCustomFieldValue(value: CustomFieldValue['value']): string | null {
+  if (value === null || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? JSON.stringify(value) : null;
+  return String(value);
+}
+
+// Position of a select option; unknown options sort after the defined ones
+function optionIndex(field: CustomField, option: string): number {
+  const options = field.options ?? [];
+  const index = options.indexOf(option);
+  return index === -1 ? options.length : index;
+}
+
+// Name of the person a person value refers to, or the ID when the person is unknown
+function personName(lookups: CustomFieldLookups, id: unknown): string {
+  return lookups.people?.find(p => String(p.id) === String(id))?.name ?? String(id);
+}
+
+/**
+ * Compare two values of a field that are both set.
+ */
+export function compareCustomFieldValues(
+  field: CustomField,
+  a: Exclude<CustomFieldValue['value'], null>,
+  b: Exclude<CustomFieldValue['value'], null>,
+  lookups: CustomFieldLookups = {}
+): number {
+  switch (field.field_type) {
+    case 'number':
+    case 'currency':
+    case 'rating':
+    case 'formula':
+      return Number(a) - Number(b);
+    case 'person':
+      return personName(lookups, a).localeCompare(personName(lookups, b), undefined, { sensitivity: 'base' });
+    case 'relation': {
+      // Fewer related tasks first, then by the first related task
+      const ia = Array.isArray(a) ? a.map(Number) : [Number(a)];
+      const ib = Array.isArray(b) ? b.map(Number) : [Number(b)];
+      return ia.length - ib.length || (ia[0] ?? 0) - (ib[0] ?? 0);
+    }
+    case 'checkbox':
+      return Number(a === true) - Number(b === true);
+    case 'date':
+      // YYYY-MM-DD sorts by date as a string
+      return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+    case 'select':
+      return optionIndex(field, String(a)) - optionIndex(field, String(b)) || String(a).localeCompare(String(b));
+    case 'multiselect': {
+      // Option positions compared one by one, so [A] < [A, B] < [B]
+      const positions = (value: typeof a) =>
+        (Array.isArray(value) ? value : [String(value)]).map(option => optionIndex(field, String(option))).sort((x, y) => x - y);
+      const pa = positions(a);
+      const pb = positions(b);
+      for (let i = 0; i < Math.min(pa.length, pb.length); i++) {
+        if (pa[i] !== pb[i]) return pa[i] - pb[i];
+      }
+      return pa.length - pb.length;
+    }
+    default:
+      return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+  }
+}
+
+/**
+ * Rows of the list grouped by a custom field.
+ */
+export interface CustomFieldGroup {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+// Key of the group of tasks without a value
+export const NO_VALUE_GROUP_KEY = '__none__';
+
+/**
+ * Split tasks by their value of a field, keeping their order within each group.
+ * Groups follow the field's sort order; a task with several multiselect options or
+ * related tasks goes in the group of the first one, and tasks without a value come last.
+ * formatLabel names a group after its value, e.g. with the person's name.
+ */
+export function groupTasksByCustomField(
+  tasks: Task[],
+  field: CustomField,
+  values: CustomFieldColumnValues,
+  lookups: CustomFieldLookups = {},
+  formatLabel?: (value: Exclude<CustomFieldValue['value'], null>) => string
+): CustomFieldGroup[] {
+  const groups = new Map<string, CustomFieldGroup & { value: Exclude<CustomFieldValue['value'], null> }>();
+  const ungrouped: Task[] = [];
+
+  tasks.forEach(task => {
+    let value = parseCustomFieldValue(field, values.get(task.id));
+    if (field.field_type === 'relation' && Array.isArray(value)) {
+      value = [Number(value[0])];
+    } else if (Array.isArray(value)) {
+      value = value.map(String).sort((a, b) => optionIndex(field, a) - optionIndex(field, b))[0];
+    }
+    if (value === null || value === undefined) {
+      ungrouped.push(task);
+      return;
+    }
+
+    const key = String(value);
+    const existing = groups.get(key);
+    if (existing) {
+      existing.tasks.push(task);
+    } else {
+      const label = formatLabel ? formatLabel(value) : field.field_type === 'checkbox' ? (value ? 'Yes' : 'No') : key;
+      groups.set(key, { key, label, value, tasks: [task] });
+    }
+  });
+
+  const result: CustomFieldGroup[] = Array.from(groups.values())
+    .sort((a, b) => compareCustomFieldValues(field, a.value, b.value, lookups))
+    .map(({ key, label, tasks: groupTasks }) => ({ key, label, tasks: groupTasks }));
+  if (ungrouped.length > 0) {
+    result.push({ key: NO_VALUE_GROUP_KEY, label: `No ${field.name}`, tasks: ungrouped });
+  }
+  return result;
+}
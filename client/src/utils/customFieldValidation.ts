@@ -0,0 +1,99 @@
+/**
+ * Validation rules of custom fields (v2.17.0).
+ * The server enforces the rules on PUT /tasks/:id/custom-fields/:fieldId and on status
+ * changes; these checks mirror it so the task form can show errors as the user types.
+ * A field is required in the statuses its rules list, and, when marked required, in
+ * the project's done statuses. Empty values never break the other rules.
+ */
+import type { CustomField, CustomFieldValidation, CustomFieldValue } from '../types';
+
+type FieldValue = CustomFieldValue['value'] | undefined;
+
+/**
+ * Whether a value leaves the field empty.
+ */
+export function isEmptyCustomFieldValue(value: FieldValue): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Checks a value against the field's rules and returns the error to show, or null.
+ */
+export function validateCustomFieldValue(field: CustomField, value: FieldValue): string | null {
+  const rules: CustomFieldValidation = field.validation ?? {};
+  if (isEmptyCustomFieldValue(value)) return null;
+
+  if (typeof value === 'number') {
+    if (rules.min !== undefined && value < rules.min) return `${field.name} must be at least ${rules.min}`;
+    if (rules.max !== undefined && value > rules.max) return `${field.name} must be at most ${rules.max}`;
+    return null;
+  }
+  if (typeof value !== 'string') return null;
+
+  switch (field.field_type) {
+    case 'date': {
+      const date = value.slice(0, 10);
+      if (rules.min_date && date < rules.min_date) return `${field.name} must be on or after ${rules.min_date}`;
+      if (rules.max_date && date > rules.max_date) return `${field.name} must be on or before ${rules.max_date}`;
+      return null;
+    }
+    case 'text': {
+      if (rules.max_length !== undefined && [...value].length > rules.max_length) {
+        return `${field.name} must be at most ${rules.max_length} characters`;
+      }
+      if (rules.pattern) {
+        let pattern: RegExp | null = null;
+        try {
+          pattern = new RegExp(`^(?:${rules.pattern})$`, 'u');
+        } catch {
+          // Patterns use the server's syntax; one the browser can't read is left to the server
+        }
+        if (pattern && !pattern.test(value)) return `${field.name} doesn't match the expected format`;
+      }
+      return null;
+    }
+    case 'url': {
+      const schemes = rules.url_schemes ?? [];
+      if (schemes.length === 0) return null;
+      let scheme = '';
+      try {
+        scheme = new URL(value).protocol.replace(/:$/, '').toLowerCase();
+      } catch {
+        // Not an absolute URL, so it has no scheme
+      }
+      if (!schemes.includes(scheme)) return `${field.name} must start with ${schemes.join(':// or ')}://`;
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a task in the given status needs a value of the field.
+ */
+export function isCustomFieldRequiredAt(
+  field: CustomField,
+  status: string,
+  isDoneStatus: (status: string) => boolean,
+): boolean {
+  if (field.field_type === 'formula') return false;
+  if (field.validation?.required_statuses?.includes(status)) return true;
+  return field.required && isDoneStatus(status);
+}
+
+/**
+ * Removes rules that are unset, so an empty rules form saves as no rules at all.
+ */
+export function compactCustomFieldValidation(rules: CustomFieldValidation): CustomFieldValidation | null {
+  const compacted: CustomFieldValidation = {};
+  for (const [key, value] of Object.entries(rules) as [keyof CustomFieldValidation, unknown][]) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    (compacted as Record<string, unknown>)[key] = value;
+  }
+  return Object.keys(compacted).length > 0 ? compacted : null;
+}
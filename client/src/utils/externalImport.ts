@@ -0,0 +1,386 @@
+/**
+ * Imports from other task tools (v2.19.0).
+ * A Trello board export, a Jira CSV export and a Todoist backup are read in the browser
+ * into the rows of POST /import/tasks. Lists, Jira statuses and Todoist sections become
+ * source statuses the user maps onto the project's workflow; labels become tags,
+ * members assignees, checklist items and nested tasks subtasks, and comments notes.
+ */
+import type { ProjectStatus, TaskImportRow, TaskPriority } from '../types';
+import { parseCsv } from './csvImport';
+import { isZipData, readZipTextEntries } from './zip';
+
+export type ExternalImportSource = 'trello' | 'jira' | 'todoist';
+
+// A row still holding the status it had in the tool it comes from
+export interface ExternalImportRow extends TaskImportRow {
+  source_status: string;
+}
+
+// One board, Jira export or Todoist project, ready to be mapped and imported
+export interface ExternalImport {
+  source: ExternalImportSource;
+  name: string;
+  statuses: string[]; // source statuses, in the order they first appear
+  rows: ExternalImportRow[];
+}
+
+export const EXTERNAL_IMPORT_SOURCES: { value: ExternalImportSource; label: string; accept: string }[] = [
+  { value: 'trello', label: 'Trello board (JSON)', accept: '.json' },
+  { value: 'jira', label: 'Jira issues (CSV)', accept: '.csv' },
+  { value: 'todoist', label: 'Todoist backup (ZIP or CSV)', accept: '.zip,.csv' },
+];
+
+// Source statuses of Trello checklist items, which have no list of their own
+export const CHECKED_ITEM_STATUS = 'Checked checklist items';
+export const UNCHECKED_ITEM_STATUS = 'Unchecked checklist items';
+
+// Source status of Todoist tasks above the first section
+export const NO_SECTION_STATUS = '(No section)';
+
+// Words in a source status that mean the work is finished or under way
+const DONE_WORDS = ['done', 'complete', 'completed', 'closed', 'resolved', 'finished', 'checked', 'shipped'];
+const ACTIVE_WORDS = ['progress', 'doing', 'review', 'testing', 'active', 'started', 'working'];
+
+function formatComment(author: string, date: string, text: string): string {
+  const heading = [author && `**${author}**`, date].filter(Boolean).join(' · ');
+  return heading ? `${heading}\n\n${text}` : text;
+}
+
+function distinct(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+// ==================== Trello ====================
+
+interface TrelloLabel {
+  id: string;
+  name?: string;
+  color?: string | null;
+}
+
+interface TrelloBoard {
+  name?: string;
+  lists: { id: string; name: string }[];
+  cards: {
+    id: string;
+    name: string;
+    desc?: string;
+    idList: string;
+    closed?: boolean;
+    due?: string | null;
+    start?: string | null;
+    idLabels?: string[];
+    labels?: TrelloLabel[];
+    idMembers?: string[];
+  }[];
+  labels?: TrelloLabel[];
+  members?: { id: string; fullName?: string; username?: string }[];
+  checklists?: {
+    idCard: string;
+    checkItems?: { id: string; name: string; state: string; pos?: number }[];
+  }[];
+  actions?: {
+    type: string;
+    date: string;
+    data?: { text?: string; card?: { id: string } };
+    memberCreator?: { fullName?: string; username?: string };
+  }[];
+}
+
+/**
+ * Reads a board exported from Trello as JSON. Archived cards are left out. The
+ * export holds the board's latest actions only, so older comments may be missing.
+ */
+export function parseTrelloBoard(text: string): ExternalImport {
+  let board: TrelloBoard;
+  try {
+    board = JSON.parse(text) as TrelloBoard;
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!Array.isArray(board?.lists) || !Array.isArray(board?.cards)) {
+    throw new Error('The file is not a Trello board export');
+  }
+
+  const lists = new Map(board.lists.map(list => [list.id, list.name]));
+  const labels = new Map((board.labels ?? []).map(label => [label.id, label]));
+  const members = new Map((board.members ?? []).map(m => [m.id, m.fullName || m.username || '']));
+  const labelName = (label: TrelloLabel) => label.name?.trim() || label.color || '';
+
+  // Comments come newest first; notes are added oldest first
+  const comments = new Map<string, string[]>();
+  for (const action of [...(board.actions ?? [])].reverse()) {
+    const cardId = action.data?.card?.id;
+    if (action.type !== 'commentCard' || !cardId || !action.data?.text) continue;
+    const author = action.memberCreator?.fullName || action.memberCreator?.username || '';
+    const note = formatComment(author, action.date.slice(0, 10), action.data.text);
+    comments.set(cardId, [...(comments.get(cardId) ?? []), note]);
+  }
+
+  const rows: ExternalImportRow[] = [];
+  const cards = board.cards.filter(card => !card.closed);
+  for (const card of cards) {
+    const cardLabels = card.labels ?? (card.idLabels ?? []).map(id => labels.get(id)).filter((l): l is TrelloLabel => !!l);
+    rows.push({
+      ref: card.id,
+      title: card.name,
+      description: card.desc || undefined,
+      source_status: lists.get(card.idList) ?? '',
+      due_date: card.due ? card.due.slice(0, 10) : undefined,
+      start_date: card.start ? card.start.slice(0, 10) : undefined,
+      tags: distinct(cardLabels.map(labelName)),
+      assignees: distinct((card.idMembers ?? []).map(id => members.get(id) ?? '')),
+      notes: comments.get(card.id),
+    });
+  }
+
+  // Checklist items become subtasks of their card
+  const cardIds = new Set(cards.map(card => card.id));
+  for (const checklist of board.checklists ?? []) {
+    if (!cardIds.has(checklist.idCard)) continue;
+    const items = [...(checklist.checkItems ?? [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0));
+    for (const item of items) {
+      rows.push({
+        ref: item.id,
+        parent_ref: checklist.idCard,
+        title: item.name,
+        source_status: item.state === 'complete' ? CHECKED_ITEM_STATUS : UNCHECKED_ITEM_STATUS,
+      });
+    }
+  }
+
+  return {
+    source: 'trello',
+    name: board.name || 'Trello board',
+    statuses: distinct(rows.map(row => row.source_status)),
+    rows,
+  };
+}
+
+// ==================== Jira ====================
+
+const JIRA_PRIORITIES: Record<string, TaskPriority> = {
+  highest: 'urgent', blocker: 'urgent', critical: 'urgent',
+  high: 'high', major: 'high',
+  medium: 'medium',
+  low: 'low', lowest: 'low', minor: 'low', trivial: 'low',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Reads a Jira date such as "19/Oct/26 10:15 AM" as YYYY-MM-DD. Dates in another
+ * format are returned as they are, for the server to read or report.
+ */
+export function parseJiraDate(value: string): string {
+  const match = value.trim().match(/^(\d{1,2})\/([A-Za-z]{3})\/(\d{2}|\d{4})\b/);
+  if (!match) return value.trim();
+  const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+  if (month === 0) return value.trim();
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return `${year}-${String(month).padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+/**
+ * Reads issues exported from Jira as CSV ("Export Excel CSV (all fields)"). Columns
+ * Jira repeats, such as Labels and Comment, are all read. Sub-tasks are nested under
+ * their parent when it is in the same export.
+ */
+export function parseJiraCsv(text: string): ExternalImport {
+  const cells = parseCsv(text, ',');
+  const headers = (cells[0] ?? []).map(h => h.trim().toLowerCase());
+  if (!headers.includes('summary') || !(headers.includes('issue key') || headers.includes('issue id'))) {
+    throw new Error('The file is not a Jira CSV export');
+  }
+
+  const columns = (name: string) => headers.flatMap((h, i) => (h === name ? [i] : []));
+  const valuesOf = (row: string[], name: string) =>
+    columns(name).map(i => (row[i] ?? '').trim()).filter(Boolean);
+  const valueOf = (row: string[], ...names: string[]) =>
+    names.map(name => valuesOf(row, name)[0]).find(Boolean) ?? '';
+
+  // Parents are referred to by issue ID; rows are referred to by their key
+  const data = cells.slice(1);
+  const keysById = new Map(data.map(row => [valueOf(row, 'issue id'), valueOf(row, 'issue key')]));
+
+  const rows: ExternalImportRow[] = data.map(row => {
+    const key = valueOf(row, 'issue key');
+    const id = valueOf(row, 'issue id');
+    const parentId = valueOf(row, 'parent id', 'parent');
+    const estimate = Number(valueOf(row, 'original estimate'));
+    const dueDate = valueOf(row, 'due date');
+    const priority = valueOf(row, 'priority');
+
+    // Comments read "date;author account ID;text"
+    const notes = valuesOf(row, 'comment').map(comment => {
+      const match = comment.match(/^([^;]*);([^;]*);([\s\S]*)$/);
+      return match ? formatComment('', parseJiraDate(match[1]), match[3]) : comment;
+    });
+
+    return {
+      ref: key || id,
+      parent_ref: parentId ? keysById.get(parentId) || parentId : undefined,
+      title: valueOf(row, 'summary'),
+      description: valueOf(row, 'description') || undefined,
+      source_status: valueOf(row, 'status'),
+      priority: JIRA_PRIORITIES[priority.toLowerCase()] ?? (priority || undefined),
+      due_date: dueDate ? parseJiraDate(dueDate) : undefined,
+      // Estimates are exported in seconds
+      estimate: estimate > 0 ? String(Math.round(estimate / 60)) : undefined,
+      assignees: distinct([valueOf(row, 'assignee')]),
+      tags: distinct(valuesOf(row, 'labels').flatMap(labels => labels.split(/\s+/))),
+      notes: notes.length > 0 ? notes : undefined,
+    };
+  });
+
+  return {
+    source: 'jira',
+    name: 'Jira issues',
+    statuses: distinct(rows.map(row => row.source_status)),
+    rows,
+  };
+}
+
+// ==================== Todoist ====================
+
+const TODOIST_PRIORITIES: Record<string, TaskPriority> = { '1': 'urgent', '2': 'high', '3': 'medium', '4': 'low' };
+
+// Names in a Todoist export carry the person's ID, as in "Ada Lovelace (12345)"
+function todoistName(value: string): string {
+  return value.replace(/\s*\(\d+\)\s*$/, '').trim();
+}
+
+/**
+ * Reads one project of a Todoist backup, a CSV file with a row per section, task and
+ * comment. Nesting comes from INDENT; labels are the @words in a task's content.
+ */
+export function parseTodoistCsv(text: string, name: string): ExternalImport {
+  const cells = parseCsv(text, ',');
+  const headers = (cells[0] ?? []).map(h => h.trim().toUpperCase());
+  const column = (header: string) => headers.indexOf(header);
+  if (column('TYPE') < 0 || column('CONTENT') < 0) {
+    throw new Error(`${name} is not a Todoist project export`);
+  }
+  const cell = (row: string[], header: string) => (column(header) < 0 ? '' : (row[column(header)] ?? '').trim());
+
+  const rows: ExternalImportRow[] = [];
+  const parents: string[] = []; // refs of the latest task at each indent
+  let section = NO_SECTION_STATUS;
+
+  cells.slice(1).forEach((row, index) => {
+    const type = cell(row, 'TYPE').toLowerCase();
+    const content = cell(row, 'CONTENT');
+    if (type === 'section') {
+      section = content || NO_SECTION_STATUS;
+      parents.length = 0;
+      return;
+    }
+    if (type === 'note') {
+      const task = rows[rows.length - 1];
+      if (task && content) {
+        task.notes = [...(task.notes ?? []), formatComment(todoistName(cell(row, 'AUTHOR')), '', content)];
+      }
+      return;
+    }
+    if (type !== 'task') return;
+
+    const indent = Math.max(1, Number(cell(row, 'INDENT')) || 1);
+    const ref = `${name}:${index + 1}`;
+    parents.length = indent - 1;
+    const parentRef = indent > 1 ? parents[indent - 2] : undefined;
+    parents[indent - 1] = ref;
+
+    // Recurring and spoken dates, like "every monday", can't be stored as a due date
+    const date = cell(row, 'DATE');
+    const isDate = /^\d{4}-\d{2}-\d{2}/.test(date);
+    const description = [cell(row, 'DESCRIPTION'), date && !isDate ? `Todoist date: ${date}` : '']
+      .filter(Boolean).join('\n\n');
+    const labels = [...content.matchAll(/(?:^|\s)@([^\s@]+)/g)].map(match => match[1]);
+    const duration = Number(cell(row, 'DURATION'));
+    const durationUnit = cell(row, 'DURATION_UNIT').toLowerCase();
+
+    rows.push({
+      ref,
+      parent_ref: parentRef,
+      title: content.replace(/(?:^|\s)@[^\s@]+/g, '').trim() || content,
+      description: description || undefined,
+      source_status: section,
+      priority: TODOIST_PRIORITIES[cell(row, 'PRIORITY')],
+      due_date: isDate ? date.slice(0, 10) : undefined,
+      estimate: duration > 0 ? String(durationUnit === 'day' ? duration * 8 * 60 : duration) : undefined,
+      assignees: distinct([todoistName(cell(row, 'RESPONSIBLE'))]),
+      tags: distinct(labels),
+    });
+  });
+
+  return {
+    source: 'todoist',
+    name,
+    statuses: distinct(rows.map(row => row.source_status)),
+    rows,
+  };
+}
+
+/**
+ * Reads a Todoist backup: a ZIP archive with a CSV file per project, or one
+ * project's CSV file. Each project is returned on its own.
+ */
+export async function parseTodoistBackup(file: File): Promise<ExternalImport[]> {
+  const data = await file.arrayBuffer();
+  // Backup files are named after the project and its ID, as in "Inbox [2203306141].csv"
+  const projectName = (fileName: string) =>
+    fileName.replace(/^.*\//, '').replace(/\.csv$/i, '').replace(/\s*\[\d+\]$/, '').trim();
+
+  if (!isZipData(data)) {
+    return [parseTodoistCsv(new TextDecoder('utf-8').decode(data), projectName(file.name))];
+  }
+  const entries = await readZipTextEntries(data, name => name.toLowerCase().endsWith('.csv'));
+  if (entries.length === 0) throw new Error('The backup holds no projects');
+  return entries.map(entry => parseTodoistCsv(entry.text, projectName(entry.name)));
+}
+
+/**
+ * Reads an export of the given tool. Trello and Jira exports hold a single board or
+ * issue list; Todoist backups one import per project.
+ */
+export async function parseExternalImport(source: ExternalImportSource, file: File): Promise<ExternalImport[]> {
+  switch (source) {
+    case 'trello':
+      return [parseTrelloBoard(await file.text())];
+    case 'jira':
+      return [parseJiraCsv(await file.text())];
+    case 'todoist':
+      return parseTodoistBackup(file);
+  }
+}
+
+// ==================== Status mapping ====================
+
+/**
+ * Guesses the project status for each source status: one with the same name or key,
+ * else the first done or active status when the name reads like one, else the first
+ * status of the workflow.
+ */
+export function guessStatusMapping(sourceStatuses: string[], workflow: ProjectStatus[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const firstOf = (category: ProjectStatus['category']) => workflow.find(s => s.category === category)?.key;
+
+  for (const source of sourceStatuses) {
+    const name = source.trim().toLowerCase();
+    const words = name.split(/[^a-z]+/);
+    const exact = workflow.find(s => s.name.trim().toLowerCase() === name || s.key.toLowerCase() === name);
+    const guessed = exact?.key
+      ?? (DONE_WORDS.some(w => words.includes(w)) ? firstOf('done') : undefined)
+      ?? (ACTIVE_WORDS.some(w => words.includes(w)) ? firstOf('active') : undefined)
+      ?? workflow[0]?.key;
+    if (guessed) mapping[source] = guessed;
+  }
+  return mapping;
+}
+
+/**
+ * Gives each row the project status its source status is mapped to.
+ */
+export function applyStatusMapping(rows: ExternalImportRow[], mapping: Record<string, string>): TaskImportRow[] {
+  return rows.map(({ source_status, ...row }) => ({ ...row, status: mapping[source_status] || undefined }));
+}
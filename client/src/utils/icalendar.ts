@@ -0,0 +1,206 @@
+/**
+ * Reading iCalendar (.ics) files into tasks (v2.21.0).
+ * Events and to-dos become TaskImportRows for POST /import/tasks: an event spans its
+ * days and is due on the last one, a to-do keeps its start and due dates. Completed
+ * to-dos get the project's first done status. Recurring entries are read once, as
+ * their first occurrence.
+ */
+
+import type { ProjectStatus, StatusCategory, TaskImportRow } from '../types';
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  type: 'VEVENT' | 'VTODO';
+  properties: IcsProperty[];
+}
+
+// To-do statuses that have a counterpart in a project's workflow
+const TODO_STATUS_CATEGORIES: Record<string, StatusCategory> = {
+  COMPLETED: 'done',
+  'IN-PROCESS': 'active',
+};
+
+export interface IcsImport {
+  name: string | null; // the calendar's name, when it has one
+  rows: TaskImportRow[];
+  recurring: number;   // entries that repeat, imported once
+}
+
+// Splits "NAME;PARAM=a;PARAM2="b:c":value" at the first colon outside quotes
+function parseLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// Reverses the escaping of TEXT values
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+// Splits a list value at the commas that aren't escaped
+function splitList(value: string): string[] {
+  return (value.match(/(?:\\.|[^,\\])+/g) ?? [])
+    .map(item => unescapeText(item).trim())
+    .filter(Boolean);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * The day of a DATE or DATE-TIME value as YYYY-MM-DD. UTC times are read in the
+ * local time zone; times with a TZID or none are taken as they are written.
+ */
+function parseDay(property: IcsProperty): { day: string; allDay: boolean; date: Date } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  const allDay = hh === undefined;
+  const date = utc
+    ? new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss))
+    : new Date(+y, +m - 1, +d, allDay ? 0 : +hh, allDay ? 0 : +mm, allDay ? 0 : +ss);
+  return { day: formatDay(date), allDay, date };
+}
+
+function previousDay(date: Date): string {
+  return formatDay(new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1));
+}
+
+// iCalendar priorities run from 1 (highest) to 9; 0 is none
+function mapPriority(value: string): string | undefined {
+  const priority = parseInt(value, 10);
+  if (!priority) return undefined;
+  if (priority === 1) return 'urgent';
+  if (priority <= 4) return 'high';
+  if (priority === 5) return 'medium';
+  return 'low';
+}
+
+function toRow(component: IcsComponent, statuses: ProjectStatus[]): TaskImportRow {
+  const get = (name: string) => component.properties.find(p => p.name === name);
+  const text = (name: string) => {
+    const property = get(name);
+    return property ? unescapeText(property.value).trim() : '';
+  };
+
+  const row: TaskImportRow = { title: text('SUMMARY') || '(No title)' };
+  const description = [text('DESCRIPTION'), text('URL')].filter(Boolean).join('\n\n');
+  if (description) row.description = description;
+  if (text('UID')) row.ref = text('UID');
+
+  // A parent is named by RELATED-TO without a RELTYPE, or with RELTYPE=PARENT
+  const parent = component.properties.find(p => p.name === 'RELATED-TO' && (p.params.RELTYPE ?? 'PARENT') === 'PARENT');
+  if (parent) row.parent_ref = parent.value.trim();
+
+  const tags = component.properties.filter(p => p.name === 'CATEGORIES').flatMap(p => splitList(p.value));
+  if (tags.length > 0) row.tags = tags;
+  const priority = mapPriority(text('PRIORITY'));
+  if (priority) row.priority = priority;
+
+  const startProperty = get('DTSTART');
+  const start = startProperty && parseDay(startProperty);
+
+  if (component.type === 'VEVENT') {
+    const endProperty = get('DTEND');
+    const end = endProperty && parseDay(endProperty);
+    let last = start?.day;
+    if (start && end) {
+      // All-day events end the day after their last day, as do timed ones ending at midnight
+      const endsAtMidnight = end.allDay || (end.date.getHours() === 0 && end.date.getMinutes() === 0);
+      last = endsAtMidnight && end.date > start.date ? previousDay(end.date) : end.day;
+    }
+    if (start && last) {
+      row.due_date = last;
+      if (last > start.day) {
+        row.start_date = start.day;
+        row.end_date = last;
+      }
+    }
+  } else {
+    const dueProperty = get('DUE');
+    const due = dueProperty && parseDay(dueProperty);
+    if (start) row.start_date = start.day;
+    if (due) row.due_date = due.day;
+
+    const percent = parseInt(text('PERCENT-COMPLETE'), 10);
+    if (!isNaN(percent)) row.progress = String(Math.min(100, Math.max(0, percent)));
+
+    const category = TODO_STATUS_CATEGORIES[text('STATUS').toUpperCase()];
+    const status = category && statuses.find(s => s.category === category);
+    if (status) row.status = status.key;
+    if (category === 'done') row.progress = '100';
+  }
+  return row;
+}
+
+/**
+ * Reads the events and to-dos of an .ics file into task rows, with the statuses of the
+ * project they are imported into.
+ */
+export function parseICalendar(text: string, statuses: ProjectStatus[]): IcsImport {
+  // Long lines are folded onto lines starting with a space or tab
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('The file is not an iCalendar (.ics) file');
+  }
+
+  let name: string | null = null;
+  const components: IcsComponent[] = [];
+  let current: IcsComponent | null = null;
+  let depth = 0; // components nested in the current one, such as alarms
+
+  for (const line of lines) {
+    const property = parseLine(line.trimEnd());
+    if (!property) continue;
+    const value = property.value.trim().toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (current) depth++;
+      else if (value === 'VEVENT' || value === 'VTODO') current = { type: value, properties: [] };
+    } else if (property.name === 'END') {
+      if (current && depth > 0) depth--;
+      else if (current && value === current.type) {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && depth === 0) {
+      current.properties.push(property);
+    } else if (!current && property.name === 'X-WR-CALNAME') {
+      name = unescapeText(property.value).trim() || null;
+    }
+  }
+
+  // A changed occurrence of a recurring entry repeats its UID with a RECURRENCE-ID
+  const entries = components.filter(c => !c.properties.some(p => p.name === 'RECURRENCE-ID'));
+  return {
+    name,
+    rows: entries.map(c => toRow(c, statuses)),
+    recurring: entries.filter(c => c.properties.some(p => p.name === 'RRULE')).length,
+  };
+}
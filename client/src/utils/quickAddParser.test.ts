@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuickAdd, type QuickAddContext } from './quickAddParser';
+
+// Wednesday, January 15 2025, 10:00
+const context: QuickAddContext = {
+  projects: [{ id: 1, name: 'Home' }],
+  tags: [],
+  people: [],
+  now: new Date(2025, 0, 15, 10, 0),
+};
+
+const cases: { input: string; title: string; dueDate?: string; projectId?: number }[] = [
+  // Abbreviations and "tod" inside the text are title words
+  { input: 'Fix sat solver', title: 'Fix sat solver' },
+  { input: 'Check sun sensor', title: 'Check sun sensor' },
+  { input: 'tod parser', title: 'tod parser' },
+  { input: 'Read the wedding notes', title: 'Read the wedding notes' },
+  // After a date keyword or at the end they are due dates
+  { input: 'Call mom on sat', title: 'Call mom', dueDate: '2025-01-18' },
+  { input: 'Pay rent due mon', title: 'Pay rent', dueDate: '2025-01-20' },
+  { input: 'Review next thurs', title: 'Review', dueDate: '2025-01-16' },
+  { input: 'Call mom sat', title: 'Call mom', dueDate: '2025-01-18' },
+  { input: 'Call mom sat #home', title: 'Call mom', dueDate: '2025-01-18', projectId: 1 },
+  { input: 'Call mom mon 9am', title: 'Call mom', dueDate: '2025-01-20T09:00' },
+  { input: 'Call mom mon at 9am #home', title: 'Call mom', dueDate: '2025-01-20T09:00', projectId: 1 },
+  { input: 'Fix sat solver 9am', title: 'Fix sat solver', dueDate: '2025-01-16T09:00' },
+  // Full names and other dates are read anywhere
+  { input: 'Standup friday 3pm', title: 'Standup', dueDate: '2025-01-17T15:00' },
+  { input: 'Ship today', title: 'Ship', dueDate: '2025-01-15' },
+  { input: 'Renew in 2 weeks', title: 'Renew', dueDate: '2025-01-29' },
+];
+
+for (const { input, title, dueDate, projectId } of cases) {
+  test(`parses "${input}"`, () => {
+    const parsed = parseQuickAdd(input, context);
+    assert.equal(parsed.title, title);
+    assert.equal(parsed.dueDate, dueDate);
+    assert.equal(parsed.projectId, projectId);
+  });
+}
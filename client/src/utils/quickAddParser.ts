@@ -0,0 +1,414 @@
+/**
+ * Natural-language quick add parser.
+ * Turns input like "Fix login bug #backend @alice !urgent tomorrow 3pm ~2h"
+ * into task fields plus the positions of the recognised tokens, so callers can
+ * highlight them inline. Pure and framework free; `now` can be injected for tests.
+ *
+ * Syntax:
+ *   #name           project (or tag when no project matches)
+ *   +name           tag
+ *   @name           assignee (name, first name or email prefix)
+ *   !urgent / !1    priority (urgent, high, medium, low or 1-4)
+ *   ~2h / ~1h30m    estimate (d = one workday, h, m)
+ *   today, tomorrow, friday, next week, in 3 days, 2024-05-01   due date
+ *   mon, tue(s), wed, thu(r/rs), fri, sat, sun   due date after on, by, due or next,
+ *                   or at the end or before a time, so "Fix sat solver" keeps its title
+ *   3pm, 15:30, noon (optionally "at 3pm")                      due time
+ */
+import { addDays, addMonths, addWeeks, format } from 'date-fns';
+import type { Person, Project, Tag, TaskPriority } from '../types';
+import { WORKDAY_MINUTES } from './schedule';
+
+export type QuickAddTokenType = 'project' | 'tag' | 'assignee' | 'priority' | 'date' | 'time' | 'estimate';
+
+/**
+ * A recognised token and its [start, end) position in the input.
+ */
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  text: string;
+  start: number;
+  end: number;
+  label: string;
+}
+
+/**
+ * Entities the parser can resolve names against.
+ */
+export interface QuickAddContext {
+  projects: Pick<Project, 'id' | 'name'>[];
+  tags: Pick<Tag, 'id' | 'name'>[];
+  people: Pick<Person, 'id' | 'name' | 'email'>[];
+  now?: Date;
+}
+
+export interface ParsedQuickAdd {
+  title: string;
+  projectId?: number;
+  tagIds: number[];
+  assigneeId?: number;
+  priority?: TaskPriority;
+  /** yyyy-MM-dd, or yyyy-MM-ddTHH:mm when a time was given */
+  dueDate?: string;
+  estimatedMinutes?: number;
+  tokens: QuickAddToken[];
+}
+
+/**
+ * A run of input text, either plain or belonging to a token.
+ */
+export interface QuickAddSegment {
+  text: string;
+  token?: QuickAddToken;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  urgent: 'urgent',
+  '1': 'urgent',
+  high: 'high',
+  '2': 'high',
+  medium: 'medium',
+  med: 'medium',
+  '3': 'medium',
+  low: 'low',
+  '4': 'low',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  tues: 2,
+  wed: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  fri: 5,
+  sat: 6,
+};
+const SIGILS = ['#', '+', '@', '!', '~'];
+const DATE_PREFIXES = ['on', 'by', 'due'];
+
+const ESTIMATE_PATTERN = /^~(?:(\d+(?:\.\d+)?)d)?(?:(\d+(?:\.\d+)?)h)?(?:(\d+)m(?:in)?)?$/i;
+const TIME_PATTERN = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Lowercase and strip everything but letters and digits, so "#web-app" matches "Web App".
+ */
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function findByName<T extends { name: string }>(items: T[], name: string): T | undefined {
+  const key = normalize(name);
+  if (!key) return undefined;
+  return items.find(item => normalize(item.name) === key);
+}
+
+/**
+ * Match a person by full name, then first name or email prefix, then a unique name prefix.
+ */
+function findPerson(people: QuickAddContext['people'], name: string): QuickAddContext['people'][number] | undefined {
+  const key = normalize(name);
+  if (!key) return undefined;
+
+  const exact = findByName(people, name);
+  if (exact) return exact;
+
+  const byFirstName = people.find(p =>
+    normalize(p.name.split(/\s+/)[0]) === key ||
+    (p.email && normalize(p.email.split('@')[0]) === key)
+  );
+  if (byFirstName) return byFirstName;
+
+  const byPrefix = people.filter(p => normalize(p.name).startsWith(key));
+  return byPrefix.length === 1 ? byPrefix[0] : undefined;
+}
+
+/**
+ * Day of the week of a full name, or of an abbreviation ("sat", "thurs") where one is
+ * allowed; -1 for other words.
+ */
+function weekdayIndex(word: string, abbreviated: boolean): number {
+  const lower = word.toLowerCase();
+  const day = WEEKDAYS.indexOf(lower);
+  if (day >= 0 || !abbreviated) return day;
+  return WEEKDAY_ABBREVIATIONS[lower] ?? -1;
+}
+
+/**
+ * Whether only tokens (#project, @person, ..., or a time) follow words[i], so an
+ * abbreviated weekday there ends the text, as in "Call mom mon 9am #home".
+ */
+function endsText(words: Word[], i: number): boolean {
+  for (let j = i + 1; j < words.length; j++) {
+    if (SIGILS.includes(words[j].text[0])) continue;
+    const time = matchTime(words, j);
+    if (!time) return false;
+    j += time.count - 1;
+  }
+  return true;
+}
+
+/**
+ * Try to read a date phrase starting at words[i]. Returns the date and the number of words used.
+ * Abbreviated weekdays are read after a date keyword, or at the end of the text.
+ */
+function matchDate(words: Word[], i: number, today: Date, afterKeyword = false): { date: Date; count: number; label: string } | null {
+  const word = words[i].text.toLowerCase();
+  const next = words[i + 1]?.text.toLowerCase();
+
+  if (DATE_PREFIXES.includes(word) && next) {
+    const match = matchDate(words, i + 1, today, true);
+    return match ? { ...match, count: match.count + 1 } : null;
+  }
+
+  if (word === 'today') return { date: today, count: 1, label: 'Today' };
+  if (word === 'tomorrow' || word === 'tmr' || word === 'tmrw') {
+    return { date: addDays(today, 1), count: 1, label: 'Tomorrow' };
+  }
+
+  if (ISO_DATE_PATTERN.test(word)) {
+    const [year, month, day] = word.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() !== month - 1) return null;
+    return { date, count: 1, label: format(date, 'MMM d, yyyy') };
+  }
+
+  if (word === 'next' && next) {
+    if (next === 'week') {
+      // Monday of next week
+      const date = addDays(today, ((8 - today.getDay()) % 7) || 7);
+      return { date, count: 2, label: format(date, 'EEE, MMM d') };
+    }
+    if (next === 'month') {
+      const date = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+      return { date, count: 2, label: format(date, 'MMM d') };
+    }
+    const day = weekdayIndex(next, true);
+    if (day >= 0) {
+      const date = addDays(today, ((day - today.getDay() + 7) % 7) || 7);
+      return { date, count: 2, label: format(date, 'EEE, MMM d') };
+    }
+    return null;
+  }
+
+  if (word === 'in' && next && /^\d+$/.test(next)) {
+    const amount = parseInt(next, 10);
+    const unit = words[i + 2]?.text.toLowerCase().replace(/s$/, '');
+    let date: Date | null = null;
+    if (unit === 'day') date = addDays(today, amount);
+    if (unit === 'week') date = addWeeks(today, amount);
+    if (unit === 'month') date = addMonths(today, amount);
+    return date ? { date, count: 3, label: format(date, 'EEE, MMM d') } : null;
+  }
+
+  const day = weekdayIndex(word, afterKeyword || endsText(words, i));
+  if (day >= 0) {
+    const date = addDays(today, (day - today.getDay() + 7) % 7);
+    return { date, count: 1, label: format(date, 'EEE, MMM d') };
+  }
+
+  return null;
+}
+
+/**
+ * Try to read a time ("3pm", "3 pm", "15:30", "noon", optionally after "at") starting at words[i].
+ * Bare numbers are not times, so "3 bugs" stays in the title.
+ */
+function matchTime(words: Word[], i: number): { hours: number; minutes: number; count: number } | null {
+  const word = words[i].text.toLowerCase();
+
+  if (word === 'at' && words[i + 1]) {
+    const match = matchTime(words, i + 1);
+    return match ? { ...match, count: match.count + 1 } : null;
+  }
+  if (word === 'noon') return { hours: 12, minutes: 0, count: 1 };
+  if (word === 'midnight') return { hours: 0, minutes: 0, count: 1 };
+
+  let text = word;
+  let count = 1;
+  const next = words[i + 1]?.text.toLowerCase();
+  if (/^\d{1,2}(:\d{2})?$/.test(word) && (next === 'am' || next === 'pm')) {
+    text = word + next;
+    count = 2;
+  }
+
+  const match = TIME_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return { hours, minutes, count };
+}
+
+function parseEstimate(text: string): number | null {
+  const match = ESTIMATE_PATTERN.exec(text);
+  if (!match || (!match[1] && !match[2] && !match[3])) return null;
+  const days = match[1] ? parseFloat(match[1]) : 0;
+  const hours = match[2] ? parseFloat(match[2]) : 0;
+  const minutes = match[3] ? parseInt(match[3], 10) : 0;
+  const total = Math.round(days * WORKDAY_MINUTES + hours * 60 + minutes);
+  return total > 0 ? total : null;
+}
+
+function formatMinutes(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+/**
+ * Parse quick add input into task fields.
+ * Each field is taken from its first occurrence; repeats and unknown names stay in the title.
+ */
+export function parseQuickAdd(input: string, context: QuickAddContext): ParsedQuickAdd {
+  const now = context.now ?? new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const words: Word[] = Array.from(input.matchAll(/\S+/g), m => ({
+    text: m[0],
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }));
+
+  const result: ParsedQuickAdd = { title: '', tagIds: [], tokens: [] };
+  let dueDay: Date | null = null;
+  let dueTime: { hours: number; minutes: number } | null = null;
+
+  const addToken = (type: QuickAddTokenType, from: number, count: number, label: string) => {
+    const start = words[from].start;
+    const end = words[from + count - 1].end;
+    result.tokens.push({ type, text: input.slice(start, end), start, end, label });
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const { text } = words[i];
+    const sigil = text[0];
+    const name = text.slice(1);
+
+    if (sigil === '#' && name) {
+      const project = result.projectId === undefined ? findByName(context.projects, name) : undefined;
+      if (project) {
+        result.projectId = project.id;
+        addToken('project', i, 1, project.name);
+        continue;
+      }
+    }
+
+    if ((sigil === '#' || sigil === '+') && name) {
+      const tag = findByName(context.tags, name);
+      if (tag && !result.tagIds.includes(tag.id)) {
+        result.tagIds.push(tag.id);
+        addToken('tag', i, 1, tag.name);
+        continue;
+      }
+    }
+
+    if (sigil === '@' && name && result.assigneeId === undefined) {
+      const person = findPerson(context.people, name);
+      if (person) {
+        result.assigneeId = person.id;
+        addToken('assignee', i, 1, person.name);
+        continue;
+      }
+    }
+
+    if (sigil === '!' && result.priority === undefined) {
+      const priority = PRIORITY_ALIASES[name.toLowerCase()];
+      if (priority) {
+        result.priority = priority;
+        addToken('priority', i, 1, priority.charAt(0).toUpperCase() + priority.slice(1));
+        continue;
+      }
+    }
+
+    if (sigil === '~' && result.estimatedMinutes === undefined) {
+      const minutes = parseEstimate(text);
+      if (minutes) {
+        result.estimatedMinutes = minutes;
+        addToken('estimate', i, 1, formatMinutes(minutes));
+        continue;
+      }
+    }
+
+    if (!dueDay) {
+      const date = matchDate(words, i, today);
+      if (date) {
+        dueDay = date.date;
+        addToken('date', i, date.count, date.label);
+        i += date.count - 1;
+        continue;
+      }
+    }
+
+    if (!dueTime) {
+      const time = matchTime(words, i);
+      if (time) {
+        dueTime = { hours: time.hours, minutes: time.minutes };
+        addToken('time', i, time.count, format(new Date(2000, 0, 1, time.hours, time.minutes), 'h:mm a'));
+        i += time.count - 1;
+        continue;
+      }
+    }
+  }
+
+  if (dueTime && !dueDay) {
+    // A time on its own means the next time that clock time comes round
+    const passed = dueTime.hours * 60 + dueTime.minutes <= now.getHours() * 60 + now.getMinutes();
+    dueDay = passed ? addDays(today, 1) : today;
+  }
+  if (dueDay) {
+    result.dueDate = format(dueDay, 'yyyy-MM-dd');
+    if (dueTime) {
+      result.dueDate += `T${String(dueTime.hours).padStart(2, '0')}:${String(dueTime.minutes).padStart(2, '0')}`;
+    }
+  }
+
+  result.tokens.sort((a, b) => a.start - b.start);
+  let title = '';
+  let cursor = 0;
+  for (const token of result.tokens) {
+    title += input.slice(cursor, token.start);
+    cursor = token.end;
+  }
+  title += input.slice(cursor);
+  result.title = title.replace(/\s+/g, ' ').trim();
+
+  return result;
+}
+
+/**
+ * Split input into plain and token segments, in order, for inline highlighting.
+ */
+export function getQuickAddSegments(input: string, tokens: QuickAddToken[]): QuickAddSegment[] {
+  const segments: QuickAddSegment[] = [];
+  let cursor = 0;
+  for (const token of tokens) {
+    if (token.start > cursor) {
+      segments.push({ text: input.slice(cursor, token.start) });
+    }
+    segments.push({ text: input.slice(token.start, token.end), token });
+    cursor = token.end;
+  }
+  if (cursor < input.length) {
+    segments.push({ text: input.slice(cursor) });
+  }
+  return segments;
+}
@@ -0,0 +1,98 @@
+/**
+ * Recurring task helpers.
+ * Mirrors the server's next-occurrence rules so upcoming occurrences can be
+ * projected (e.g. in the calendar) before they are actually created.
+ */
+import { addDays, addMonths, differenceInCalendarDays, getDaysInMonth, setDate, startOfWeek } from 'date-fns';
+import type { Task, TaskRecurrence } from '../types';
+import { RECURRENCE_FREQUENCY_CONFIG } from '../types';
+import { parseTaskDate } from './schedule';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * A future occurrence of a recurring task that has not been created yet.
+ */
+export interface ProjectedOccurrence {
+  task: Task;
+  date: Date;
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Thu".
+ */
+export function describeRecurrence(rule: TaskRecurrence): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = RECURRENCE_FREQUENCY_CONFIG[rule.frequency].unit;
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length > 0) {
+    text += ` on ${[...rule.weekdays].sort().map(d => WEEKDAY_NAMES[d]).join(', ')}`;
+  } else if (rule.frequency === 'monthly' && rule.month_day) {
+    text += ` on day ${rule.month_day}`;
+  } else if (rule.frequency === 'after_completion') {
+    text += ' after completion';
+  }
+
+  if (rule.end_date) {
+    text += ` until ${rule.end_date}`;
+  }
+  return text;
+}
+
+/**
+ * Date of the occurrence after `from`.
+ * `completed` is when the current occurrence is finished (only used by after_completion).
+ */
+export function getNextRecurrenceDate(rule: TaskRecurrence, from: Date, completed: Date = from): Date {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, interval);
+    case 'weekly': {
+      if (!rule.weekdays || rule.weekdays.length === 0) {
+        return addDays(from, 7 * interval);
+      }
+      // Only weeks that are a multiple of the interval after `from`'s week count
+      const weekStart = startOfWeek(from);
+      for (let i = 1; i <= 7 * interval + 7; i++) {
+        const candidate = addDays(from, i);
+        const weeks = Math.floor(differenceInCalendarDays(candidate, weekStart) / 7);
+        if (rule.weekdays.includes(candidate.getDay()) && weeks % interval === 0) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * interval);
+    }
+    case 'monthly': {
+      const target = addMonths(setDate(from, 1), interval);
+      const day = rule.month_day || from.getDate();
+      return setDate(target, Math.min(day, getDaysInMonth(target)));
+    }
+    case 'after_completion':
+      return addDays(completed, interval);
+  }
+}
+
+/**
+ * Project upcoming occurrences of a recurring task up to `until`.
+ * after_completion rules assume each occurrence is completed on its due date.
+ * Completed tasks have already spawned their next occurrence, so callers skip them.
+ */
+export function getProjectedOccurrences(task: Task, until: Date, limit = 60): ProjectedOccurrence[] {
+  const rule = task.recurrence;
+  const anchorValue = task.due_date || task.start_date;
+  if (!rule || !anchorValue) return [];
+
+  const endDate = rule.end_date ? parseTaskDate(rule.end_date) : null;
+  const occurrences: ProjectedOccurrence[] = [];
+  let current = parseTaskDate(anchorValue);
+
+  while (occurrences.length < limit) {
+    current = getNextRecurrenceDate(rule, current);
+    if (current > until || (endDate && current > endDate)) break;
+    occurrences.push({ task, date: current });
+  }
+  return occurrences;
+}
@@ -0,0 +1,273 @@
+/**
+ * Dependency-driven scheduling utilities for the Timeline view.
+ * Uses the critical path method over whole days: a forward pass computes the
+ * earliest start of every task, a backward pass computes how much each task can
+ * slip (slack) without delaying the overall finish. Zero-slack tasks form the
+ * critical path.
+ */
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import type { Task, TaskDependency, TaskStatus, StatusCategory } from '../types';
+import { STATUS_CONFIG } from '../types';
+
+/**
+ * Category of a status in the default workflow. Views pass the project's own lookup instead.
+ */
+export function defaultStatusCategory(status: TaskStatus): StatusCategory {
+  return STATUS_CONFIG[status]?.category ?? 'active';
+}
+
+/**
+ * Minutes of estimated work that make up one scheduled day.
+ */
+export const WORKDAY_MINUTES = 8 * 60;
+
+/**
+ * Computed schedule for a single task.
+ * `start` is inclusive and `end` is exclusive (the day after the last working day).
+ */
+export interface ScheduledTask {
+  taskId: number;
+  start: Date;
+  end: Date;
+  durationDays: number;
+  slackDays: number;
+  isCritical: boolean;
+}
+
+/**
+ * Full schedule result.
+ */
+export interface ScheduleResult {
+  tasks: Map<number, ScheduledTask>;
+  criticalPath: number[];
+  start: Date | null;
+  finish: Date | null;
+}
+
+/**
+ * Date changes produced when shifting dependents of a rescheduled task.
+ */
+export interface ScheduleShift {
+  id: number;
+  start_date: string;
+  due_date: string;
+}
+
+/**
+ * Format a date the way task date fields are stored.
+ */
+export function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Parse a stored task date as a local calendar day.
+ */
+export function parseTaskDate(value: string): Date {
+  // Date-only strings are parsed as UTC by the Date constructor; pin them to local midnight
+  const [datePart] = value.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  if (!year || !month || !day) {
+    return startOfDay(new Date(value));
+  }
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Number of whole days a task occupies.
+ * Prefers the estimate; falls back to the planned start/due span, then one day.
+ */
+export function getTaskDurationDays(task: Task): number {
+  if (task.estimated_duration_minutes && task.estimated_duration_minutes > 0) {
+    return Math.max(1, Math.ceil(task.estimated_duration_minutes / WORKDAY_MINUTES));
+  }
+  if (task.start_date && task.due_date) {
+    const span = differenceInCalendarDays(parseTaskDate(task.due_date), parseTaskDate(task.start_date)) + 1;
+    return Math.max(1, span);
+  }
+  return 1;
+}
+
+/**
+ * Whether a task takes part in scheduling: it needs dates, an estimate, or a dependency.
+ */
+export function isSchedulable(task: Task, dependencies: TaskDependency[]): boolean {
+  if ((task.start_date && task.due_date) || (task.estimated_duration_minutes ?? 0) > 0) {
+    return true;
+  }
+  return dependencies.some(d => d.blocking_task_id === task.id || d.blocked_task_id === task.id);
+}
+
+/**
+ * Order task ids so every task comes after the tasks blocking it.
+ * Ids caught in a cycle (which the server prevents) are dropped.
+ */
+function topologicalOrder(ids: number[], dependencies: TaskDependency[]): number[] {
+  const idSet = new Set(ids);
+  const inDegree = new Map<number, number>(ids.map(id => [id, 0]));
+  const successors = new Map<number, number[]>();
+
+  dependencies.forEach(d => {
+    if (!idSet.has(d.blocking_task_id) || !idSet.has(d.blocked_task_id)) return;
+    inDegree.set(d.blocked_task_id, (inDegree.get(d.blocked_task_id) ?? 0) + 1);
+    successors.set(d.blocking_task_id, [...(successors.get(d.blocking_task_id) ?? []), d.blocked_task_id]);
+  });
+
+  const queue = ids.filter(id => inDegree.get(id) === 0);
+  const order: number[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    (successors.get(id) ?? []).forEach(next => {
+      const remaining = (inDegree.get(next) ?? 0) - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    });
+  }
+  return order;
+}
+
+/**
+ * Compute earliest starts, slack and the critical path.
+ * Tasks already underway (an active or done status) stay pinned to their start date;
+ * tasks without predecessors start at their own start date, or `today` if they have none.
+ */
+export function computeSchedule(
+  tasks: Task[],
+  dependencies: TaskDependency[],
+  statusCategory: (status: TaskStatus) => StatusCategory = defaultStatusCategory,
+  today: Date = new Date()
+): ScheduleResult {
+  const scheduled = tasks.filter(t => isSchedulable(t, dependencies));
+  const byId = new Map(scheduled.map(t => [t.id, t]));
+  const links = dependencies.filter(d => byId.has(d.blocking_task_id) && byId.has(d.blocked_task_id));
+  const order = topologicalOrder(scheduled.map(t => t.id), links);
+  const anchor = startOfDay(today);
+
+  const duration = new Map<number, number>();
+  const earliestStart = new Map<number, number>();
+  const earliestFinish = new Map<number, number>();
+
+  // Forward pass (day offsets relative to `anchor`)
+  order.forEach(id => {
+    const task = byId.get(id)!;
+    const days = getTaskDurationDays(task);
+    const predecessors = links.filter(d => d.blocked_task_id === id);
+    const ownStart = task.start_date
+      ? differenceInCalendarDays(parseTaskDate(task.start_date), anchor)
+      : null;
+    const underway = statusCategory(task.status) !== 'not_started';
+
+    let start: number;
+    if (underway && ownStart !== null) {
+      start = ownStart;
+    } else if (predecessors.length === 0) {
+      start = ownStart ?? 0;
+    } else {
+      start = Math.max(...predecessors.map(d =>
+        d.dependency_type === 'start_to_start'
+          ? earliestStart.get(d.blocking_task_id)!
+          : earliestFinish.get(d.blocking_task_id)!
+      ));
+    }
+
+    duration.set(id, days);
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + days);
+  });
+
+  if (order.length === 0) {
+    return { tasks: new Map(), criticalPath: [], start: null, finish: null };
+  }
+
+  const projectStart = Math.min(...order.map(id => earliestStart.get(id)!));
+  const projectFinish = Math.max(...order.map(id => earliestFinish.get(id)!));
+
+  // Backward pass
+  const latestStart = new Map<number, number>();
+  [...order].reverse().forEach(id => {
+    const successors = links.filter(d => d.blocking_task_id === id);
+    const days = duration.get(id)!;
+    const latestFinish = successors.length === 0
+      ? projectFinish
+      : Math.min(...successors.map(d =>
+        d.dependency_type === 'start_to_start'
+          ? latestStart.get(d.blocked_task_id)! + days
+          : latestStart.get(d.blocked_task_id)!
+      ));
+    latestStart.set(id, latestFinish - days);
+  });
+
+  const result = new Map<number, ScheduledTask>();
+  order.forEach(id => {
+    const slack = latestStart.get(id)! - earliestStart.get(id)!;
+    result.set(id, {
+      taskId: id,
+      start: addDays(anchor, earliestStart.get(id)!),
+      end: addDays(anchor, earliestFinish.get(id)!),
+      durationDays: duration.get(id)!,
+      slackDays: Math.max(0, slack),
+      isCritical: slack <= 0,
+    });
+  });
+
+  const criticalPath = order.filter(id => result.get(id)!.isCritical);
+
+  return {
+    tasks: result,
+    criticalPath,
+    start: addDays(anchor, projectStart),
+    finish: addDays(anchor, projectFinish),
+  };
+}
+
+/**
+ * Work out how dependents must move after a task gets new dates.
+ * Each dependent keeps its length and is only pushed later, never pulled earlier; completed dependents stay put.
+ */
+export function getDownstreamShifts(
+  tasks: Task[],
+  dependencies: TaskDependency[],
+  taskId: number,
+  newStart: Date,
+  newDue: Date,
+  statusCategory: (status: TaskStatus) => StatusCategory = defaultStatusCategory
+): ScheduleShift[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const dates = new Map<number, { start: Date; due: Date }>([[taskId, { start: newStart, due: newDue }]]);
+  const shifted = new Map<number, ScheduleShift>();
+
+  // Visit dependents breadth-first; a task is revisited if a later predecessor pushes it further
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    const current = dates.get(currentId)!;
+
+    dependencies
+      .filter(d => d.blocking_task_id === currentId)
+      .forEach(d => {
+        const dependent = byId.get(d.blocked_task_id);
+        if (!dependent || statusCategory(dependent.status) === 'done') return;
+
+        const known = dates.get(dependent.id);
+        const start = known?.start ?? (dependent.start_date ? parseTaskDate(dependent.start_date) : null);
+        const due = known?.due ?? (dependent.due_date ? parseTaskDate(dependent.due_date) : null);
+        if (!start) return;
+
+        const required = d.dependency_type === 'start_to_start' ? current.start : addDays(current.due, 1);
+        if (start >= required) return;
+
+        const length = due ? differenceInCalendarDays(due, start) : getTaskDurationDays(dependent) - 1;
+        const nextDue = addDays(required, Math.max(0, length));
+        dates.set(dependent.id, { start: required, due: nextDue });
+        shifted.set(dependent.id, {
+          id: dependent.id,
+          start_date: toDateString(required),
+          due_date: toDateString(nextDue),
+        });
+        queue.push(dependent.id);
+      });
+  }
+
+  return Array.from(shifted.values());
+}
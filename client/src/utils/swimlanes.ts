@@ -0,0 +1,130 @@
+/**
+ * Swimlane grouping for the Kanban board.
+ * Every task lands in exactly one lane so drag-and-drop ids stay unique; a task
+ * with several tags goes in the lane of its first tag by name. Tasks without a
+ * value (no assignee, no parent, ...) share a catch-all lane listed last.
+ */
+import type { Task, Person, Tag, CustomField, SwimlaneGroupBy, TaskPriority } from '../types';
+import { PRIORITY_CONFIG } from '../types';
+
+/**
+ * One horizontal lane of the board.
+ */
+export interface Swimlane {
+  key: string;
+  label: string;
+  color?: string;
+  tasks: Task[];
+}
+
+/**
+ * Lookups used to name lanes.
+ * `allTasks` holds every task of the project so parent lanes are named even when
+ * the parent itself is filtered out.
+ */
+export interface SwimlaneSources {
+  people: Person[];
+  tags: Tag[];
+  allTasks: Task[];
+  field?: CustomField;
+  fieldValues?: Map<number, string | null>;
+}
+
+// Key of the catch-all lane
+export const NO_LANE_KEY = '__none__';
+
+const PRIORITY_ORDER: TaskPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+const NO_LANE_LABELS: Record<SwimlaneGroupBy, string> = {
+  none: 'All tasks',
+  assignee: 'Unassigned',
+  priority: 'No priority',
+  tag: 'No tag',
+  parent: 'No parent task',
+  custom_field: 'No value',
+};
+
+type LaneInfo = Omit<Swimlane, 'tasks'>;
+
+// The lane a task belongs to, or null for the catch-all lane
+function getTaskLane(task: Task, groupBy: SwimlaneGroupBy, sources: SwimlaneSources): LaneInfo | null {
+  switch (groupBy) {
+    case 'assignee': {
+      if (!task.assignee_id) return null;
+      const name = task.assignee?.name ?? sources.people.find(p => p.id === task.assignee_id)?.name;
+      return { key: String(task.assignee_id), label: name ?? 'Unknown person' };
+    }
+    case 'priority':
+      return {
+        key: task.priority,
+        label: PRIORITY_CONFIG[task.priority].label,
+        color: PRIORITY_CONFIG[task.priority].color,
+      };
+    case 'tag': {
+      const taskTags = (task.tags ?? [])
+        .map(tt => tt.tag ?? sources.tags.find(t => t.id === tt.tag_id))
+        .filter((tag): tag is Tag => tag !== undefined)
+        .sort((a, b) => a.name.localeCompare(b.name));
+      const first = taskTags[0];
+      return first ? { key: String(first.id), label: first.name, color: first.color } : null;
+    }
+    case 'parent': {
+      if (!task.parent_task_id) return null;
+      const parent = sources.allTasks.find(t => t.id === task.parent_task_id);
+      return { key: String(task.parent_task_id), label: parent?.title ?? `Task #${task.parent_task_id}` };
+    }
+    case 'custom_field': {
+      const value = sources.fieldValues?.get(task.id);
+      return value ? { key: value, label: value } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Sort position of a lane: priority and select options keep their own order, the rest sort by name
+function compareLanes(a: LaneInfo, b: LaneInfo, groupBy: SwimlaneGroupBy, sources: SwimlaneSources): number {
+  if (groupBy === 'priority') {
+    return PRIORITY_ORDER.indexOf(a.key as TaskPriority) - PRIORITY_ORDER.indexOf(b.key as TaskPriority);
+  }
+  if (groupBy === 'custom_field') {
+    const options = sources.field?.options ?? [];
+    const rank = (key: string) => (options.includes(key) ? options.indexOf(key) : options.length);
+    const diff = rank(a.key) - rank(b.key);
+    if (diff !== 0) return diff;
+  }
+  return a.label.localeCompare(b.label);
+}
+
+/**
+ * Split tasks into lanes. Only lanes holding tasks are returned, except that an
+ * empty board still gets the catch-all lane so there is somewhere to drop.
+ */
+export function groupTasksIntoSwimlanes(
+  tasks: Task[],
+  groupBy: SwimlaneGroupBy,
+  sources: SwimlaneSources
+): Swimlane[] {
+  const lanes = new Map<string, Swimlane>();
+  const unlaned: Task[] = [];
+
+  tasks.forEach(task => {
+    const lane = getTaskLane(task, groupBy, sources);
+    if (!lane) {
+      unlaned.push(task);
+      return;
+    }
+    const existing = lanes.get(lane.key);
+    if (existing) {
+      existing.tasks.push(task);
+    } else {
+      lanes.set(lane.key, { ...lane, tasks: [task] });
+    }
+  });
+
+  const result = Array.from(lanes.values()).sort((a, b) => compareLanes(a, b, groupBy, sources));
+  if (unlaned.length > 0 || result.length === 0) {
+    result.push({ key: NO_LANE_KEY, label: NO_LANE_LABELS[groupBy], tasks: unlaned });
+  }
+  return result;
+}
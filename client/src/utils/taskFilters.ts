@@ -0,0 +1,57 @@
+/**
+ * Client-side matching of TaskFilters, mirroring GET /api/tasks.
+ * A list filter matches when the task has any of its values; a not_ filter leaves
+ * the task out when it has any of its values. Different filters all have to match.
+ * The query filter needs custom field values, so it is left to the server (useTaskQuery).
+ */
+import type { Task, TaskFilters } from '../types';
+
+// True when the list is set and holds at least one value
+const hasValues = <T>(values?: T[]): values is T[] => values !== undefined && values.length > 0;
+
+// People the task belongs to: its assignee and co-assignees
+function taskPeople(task: Task): number[] {
+  const people = (task.coAssignees ?? []).map(ca => ca.person_id);
+  return task.assignee_id !== undefined ? [task.assignee_id, ...people] : people;
+}
+
+/**
+ * Whether a task passes every filter.
+ */
+export function matchesTaskFilters(task: Task, filters: TaskFilters): boolean {
+  if (filters.project_id !== undefined && task.project_id !== filters.project_id) return false;
+
+  if (hasValues(filters.status) && !filters.status.includes(task.status)) return false;
+  if (hasValues(filters.not_status) && filters.not_status.includes(task.status)) return false;
+
+  if (hasValues(filters.priority) && !filters.priority.includes(task.priority)) return false;
+  if (hasValues(filters.not_priority) && filters.not_priority.includes(task.priority)) return false;
+
+  if (filters.due_date_from && !(task.due_date && new Date(task.due_date) >= new Date(filters.due_date_from))) {
+    return false;
+  }
+  if (filters.due_date_to && !(task.due_date && new Date(task.due_date) <= new Date(filters.due_date_to))) {
+    return false;
+  }
+
+  if (filters.search) {
+    const searchLower = filters.search.toLowerCase();
+    if (!task.title.toLowerCase().includes(searchLower) && !task.description.toLowerCase().includes(searchLower)) {
+      return false;
+    }
+  }
+
+  if (hasValues(filters.assignee_id) || hasValues(filters.not_assignee_id)) {
+    const people = taskPeople(task);
+    if (hasValues(filters.assignee_id) && !people.some(id => filters.assignee_id!.includes(id))) return false;
+    if (hasValues(filters.not_assignee_id) && people.some(id => filters.not_assignee_id!.includes(id))) return false;
+  }
+
+  if (hasValues(filters.tag_id) || hasValues(filters.not_tag_id)) {
+    const tagIds = (task.tags ?? []).map(tt => tt.tag_id);
+    if (hasValues(filters.tag_id) && !tagIds.some(id => filters.tag_id!.includes(id))) return false;
+    if (hasValues(filters.not_tag_id) && tagIds.some(id => filters.not_tag_id!.includes(id))) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isTaskQuery, parseTaskQuery } from './taskQuery';
+
+const cases: { input: string; query: boolean; fields: string[] }[] = [
+  // Names that aren't fields are text, operators and all
+  { input: 'Bug: login', query: false, fields: ['', ''] },
+  { input: 'fix 10:30 standup', query: false, fields: ['', '', ''] },
+  { input: 'http://example.com', query: false, fields: [''] },
+  { input: 'a<b x=y', query: false, fields: ['', ''] },
+  // Fields and custom fields are terms
+  { input: 'status:todo login', query: true, fields: ['status', ''] },
+  { input: 'Priority>=high', query: true, fields: ['priority'] },
+  { input: '-due<today', query: true, fields: ['due'] },
+  { input: 'cf."Customer"=Acme', query: true, fields: ['cf.Customer'] },
+];
+
+for (const { input, query, fields } of cases) {
+  test(`parses "${input}"`, () => {
+    assert.equal(isTaskQuery(input), query);
+    assert.deepEqual(parseTaskQuery(input).map(term => term.field), fields);
+  });
+}
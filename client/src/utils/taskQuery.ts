@@ -0,0 +1,337 @@
+/**
+ * Task query language, as understood by GET /api/tasks?q=.
+ * The server evaluates queries (including custom field values); this module splits
+ * them into terms the same way so inputs can detect queries and offer autocomplete.
+ *
+ * Syntax:
+ *   status:in_progress            field, operator (: = != < <= > >=) and value
+ *   status:todo,in_progress       several values, any of which may match
+ *   -tag:wontfix                  a leading "-" negates a term
+ *   priority>=high  estimate<=2h  ordering on priority, dates, estimate and progress
+ *   due<+7d  created>-2w          dates: YYYY-MM-DD, today, tomorrow, yesterday, +7d, -2w, +1m
+ *   assignee:me  assignee:none    "me" is the person marked as you on the People page
+ *   cf."Customer"="Acme"          custom fields by name
+ *   has:subtasks  has:cf.Budget   whether a task has something
+ *   login "sign up"               other words search titles and descriptions, as do
+ *   Bug: 10:30                    words whose name isn't a field ("Bug: login")
+ */
+import type { CustomField, Person, Project, Tag, TaskPriority } from '../types';
+
+export type TaskQueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * One term of a query and its [start, end) position. field is empty for a text search.
+ */
+export interface TaskQueryTerm {
+  negated: boolean;
+  field: string;
+  operator?: TaskQueryOperator;
+  values: string[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Names the autocomplete can offer.
+ */
+export interface TaskQueryContext {
+  statuses: { key: string; name: string }[];
+  people: Pick<Person, 'name' | 'email'>[];
+  tags: Pick<Tag, 'name'>[];
+  projects: Pick<Project, 'name'>[];
+  customFields: Pick<CustomField, 'name' | 'field_type' | 'options'>[];
+}
+
+export interface TaskQuerySuggestion {
+  /** Text that replaces [start, end) of the query */
+  insert: string;
+  label: string;
+  description?: string;
+}
+
+export interface TaskQuerySuggestions {
+  start: number;
+  end: number;
+  items: TaskQuerySuggestion[];
+}
+
+// Operators in the order they are matched, so "<=" wins over "<"
+const OPERATORS: TaskQueryOperator[] = ['!=', '<=', '>=', ':', '=', '<', '>'];
+
+const FIELDS: { name: string; description: string }[] = [
+  { name: 'status', description: 'Workflow status' },
+  { name: 'priority', description: 'low, medium, high, urgent' },
+  { name: 'assignee', description: 'Assignee or co-assignee, me or none' },
+  { name: 'tag', description: 'Tag name' },
+  { name: 'project', description: 'Project name' },
+  { name: 'title', description: 'Words in the title' },
+  { name: 'due', description: 'Due date' },
+  { name: 'start', description: 'Start date' },
+  { name: 'created', description: 'Creation date' },
+  { name: 'updated', description: 'Last change' },
+  { name: 'estimate', description: 'Estimate, e.g. 2h or 1h30m' },
+  { name: 'progress', description: 'Progress in percent' },
+  { name: 'has', description: 'subtasks, tags, due, ...' },
+];
+
+const HAS_VALUES = ['subtasks', 'parent', 'tags', 'assignee', 'due', 'start', 'estimate', 'recurrence', 'notes'];
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+const DATE_VALUES = ['today', 'tomorrow', 'yesterday', '+7d', '-7d', '+1m'];
+const DATE_FIELDS = ['due', 'start', 'created', 'updated'];
+
+const isSpace = (ch: string) => /\s/.test(ch);
+
+// Whether a name before an operator is a field, so "Bug: login" and "10:30" stay text
+const isQueryField = (name: string) =>
+  name.toLowerCase().startsWith('cf.') || FIELDS.some(field => field.name === name.toLowerCase());
+
+/**
+ * Quote a value when it holds characters that would end it.
+ */
+export function quoteQueryValue(value: string): string {
+  return /[\s,"':=!<>]/.test(value) ? `"${value.replace(/(["\\])/g, '\\$1')}"` : value;
+}
+
+/**
+ * Split a query into terms. Unbalanced quotes run to the end of the input rather than
+ * failing, so half-typed queries can still be completed; the server reports them.
+ */
+export function parseTaskQuery(query: string): TaskQueryTerm[] {
+  const terms: TaskQueryTerm[] = [];
+  let i = 0;
+
+  // A quoted string, or text up to a space, a comma or one of stop
+  const readValue = (stop: string): string => {
+    if (query[i] === '"') {
+      i++;
+      let value = '';
+      while (i < query.length && query[i] !== '"') {
+        if (query[i] === '\\' && i + 1 < query.length) i++;
+        value += query[i++];
+      }
+      i++;
+      return value;
+    }
+    const start = i;
+    let inQuote = false;
+    while (i < query.length && (inQuote || (!isSpace(query[i]) && query[i] !== ',' && !stop.includes(query[i])))) {
+      if (query[i] === '"') inQuote = !inQuote;
+      i++;
+    }
+    return query.slice(start, i);
+  };
+
+  while (i < query.length) {
+    if (isSpace(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+    if (query[i] === '-' && i + 1 < query.length && !isSpace(query[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    const fieldStart = i;
+    let field = readValue(':=!<>"');
+    if (field.toLowerCase() === 'cf.' && query[i] === '"') {
+      field = `cf.${readValue(':=!<>')}`;
+    }
+
+    const operator = OPERATORS.find(op => query.startsWith(op, i));
+    if (!operator || !isQueryField(field)) {
+      // Not a term: a word or quoted phrase to search for
+      i = fieldStart;
+      const phrase = query[i] === '"' ? readValue('') : '';
+      while (i < query.length && !isSpace(query[i])) i++;
+      terms.push({ negated, field: '', values: [phrase || query.slice(fieldStart, i)], start, end: Math.min(i, query.length) });
+      continue;
+    }
+    i += operator.length;
+
+    const values: string[] = [];
+    for (;;) {
+      const value = readValue('');
+      if (value) values.push(value);
+      if (query[i] !== ',') break;
+      i++;
+    }
+    while (i < query.length && !isSpace(query[i])) i++;
+
+    terms.push({
+      negated,
+      field: field.toLowerCase().startsWith('cf.') ? `cf.${field.slice(3)}` : field.toLowerCase(),
+      operator,
+      values,
+      start,
+      end: Math.min(i, query.length),
+    });
+  }
+  return terms;
+}
+
+/**
+ * Whether the text uses query terms rather than being a plain search.
+ */
+export function isTaskQuery(text: string): boolean {
+  return parseTaskQuery(text).some(term => term.field !== '');
+}
+
+function startsWithIgnoreCase(value: string, prefix: string): boolean {
+  return value.toLowerCase().startsWith(prefix.toLowerCase());
+}
+
+// Values offered for a field, before narrowing to what has been typed
+function fieldValues(field: string, context: TaskQueryContext): TaskQuerySuggestion[] {
+  const plain = (values: string[]) => values.map(value => ({ insert: quoteQueryValue(value), label: value }));
+
+  if (field.startsWith('cf.')) {
+    const name = field.slice(3).replace(/^"|"$/g, '').toLowerCase();
+    const customField = context.customFields.find(f => f.name.toLowerCase() === name);
+    switch (customField?.field_type) {
+      case 'select':
+      case 'multiselect':
+        return plain(customField.options ?? []);
+      case 'checkbox':
+        return plain(['true', 'false']);
+      case 'date':
+        return plain(DATE_VALUES);
+      case 'person':
+        return context.people.map(person => ({ insert: quoteQueryValue(person.name), label: person.name, description: person.email }));
+      case 'rating':
+        return plain(['1', '2', '3', '4', '5']);
+      default:
+        return [];
+    }
+  }
+
+  switch (field) {
+    case 'status':
+      return context.statuses.map(status => ({ insert: status.key, label: status.key, description: status.name }));
+    case 'priority':
+      return plain(PRIORITIES);
+    case 'assignee':
+      return [
+        { insert: 'me', label: 'me', description: 'The person marked as you' },
+        { insert: 'none', label: 'none', description: 'Nobody assigned' },
+        ...context.people.map(person => ({ insert: quoteQueryValue(person.name), label: person.name, description: person.email })),
+      ];
+    case 'tag':
+      return plain(context.tags.map(tag => tag.name));
+    case 'project':
+      return plain(context.projects.map(project => project.name));
+    case 'has':
+      return [
+        ...plain(HAS_VALUES),
+        ...context.customFields.map(f => ({ insert: `cf.${quoteQueryValue(f.name)}`, label: `cf.${f.name}`, description: 'Custom field is set' })),
+      ];
+    default:
+      return DATE_FIELDS.includes(field) ? plain(DATE_VALUES) : [];
+  }
+}
+
+/**
+ * Completions for the word at the cursor: field names while typing a field, values
+ * after an operator. Returns null when there is nothing to offer.
+ */
+export function getTaskQuerySuggestions(
+  query: string,
+  cursor: number,
+  context: TaskQueryContext,
+  limit = 8
+): TaskQuerySuggestions | null {
+  const term = parseTaskQuery(query.slice(0, cursor)).pop();
+  if (!term || term.end < cursor) return null;
+
+  const prefixStart = term.start + (term.negated ? 1 : 0);
+
+  if (!term.operator) {
+    const typed = query.slice(prefixStart, cursor);
+    if (!typed) return null;
+    const items: TaskQuerySuggestion[] = [
+      ...FIELDS.map(field => ({ insert: `${field.name}:`, label: `${field.name}:`, description: field.description })),
+      // Formula values are calculated on read, so the server can't filter by them
+      ...context.customFields.filter(f => f.field_type !== 'formula').map(f => ({
+        insert: `cf.${quoteQueryValue(f.name)}=`,
+        label: `cf.${f.name}`,
+        description: `Custom field (${f.field_type})`,
+      })),
+    ].filter(item => startsWithIgnoreCase(item.insert, typed) || startsWithIgnoreCase(item.label, typed));
+    return items.length > 0 ? { start: prefixStart, end: cursor, items: items.slice(0, limit) } : null;
+  }
+
+  // Complete the value after the last comma
+  const text = query.slice(prefixStart, cursor);
+  const operatorIndex = text.indexOf(term.operator, term.field.startsWith('cf.') ? 3 : 0);
+  const valuesStart = prefixStart + operatorIndex + term.operator.length;
+  const lastComma = query.lastIndexOf(',', cursor - 1);
+  const start = lastComma >= valuesStart ? lastComma + 1 : valuesStart;
+  const typed = query.slice(start, cursor).replace(/^"/, '');
+
+  const items = fieldValues(term.field, context).filter(
+    item => startsWithIgnoreCase(item.label, typed) || startsWithIgnoreCase(item.insert, typed)
+  );
+  if (items.length === 0 || (items.length === 1 && items[0].insert === query.slice(start, cursor))) return null;
+  return { start, end: cursor, items: items.slice(0, limit) };
+}
+
+/**
+ * Put a suggestion into the query. Returns the new query and where the cursor goes.
+ */
+export function applyTaskQuerySuggestion(
+  query: string,
+  suggestions: Pick<TaskQuerySuggestions, 'start' | 'end'>,
+  suggestion: TaskQuerySuggestion
+): { query: string; cursor: number } {
+  let rest = query.slice(suggestions.end);
+  // Drop the remainder of the word being replaced
+  const wordEnd = rest.search(/[\s,]/);
+  rest = wordEnd === -1 ? '' : rest.slice(wordEnd);
+
+  // Values end the term, so a space follows them; fields are followed by their value
+  const endsTerm = !/[:=<>]$/.test(suggestion.insert);
+  const spacer = endsTerm && !rest.startsWith(' ') ? ' ' : '';
+  const head = query.slice(0, suggestions.start) + suggestion.insert + spacer;
+  return { query: head + rest, cursor: head.length };
+}
+
+// Whether a term is about the named custom field: cf.Name or has:cf.Name
+function isCustomFieldTerm(term: TaskQueryTerm, fieldName: string): boolean {
+  const name = fieldName.toLowerCase();
+  if (term.field === 'has') {
+    return term.values.some(value => value.toLowerCase().startsWith('cf.') && value.slice(3).replace(/^"|"$/g, '').toLowerCase() === name);
+  }
+  return term.field.startsWith('cf.') && term.field.slice(3).toLowerCase() === name;
+}
+
+/**
+ * The terms of a query that filter on a custom field.
+ */
+export function getCustomFieldQueryTerms(query: string, fieldName: string): TaskQueryTerm[] {
+  return parseTaskQuery(query).filter(term => isCustomFieldTerm(term, fieldName));
+}
+
+/**
+ * Replace the terms about a custom field with new ones, leaving the rest of the query
+ * as typed. Column filters of the list view edit the search box this way.
+ */
+export function setCustomFieldQueryTerms(query: string, fieldName: string, terms: string[]): string {
+  const kept = parseTaskQuery(query)
+    .filter(term => !isCustomFieldTerm(term, fieldName))
+    .map(term => query.slice(term.start, term.end));
+  return [...kept, ...terms].join(' ');
+}
+
+/**
+ * Build a custom field term, e.g. cf."Due by">=2024-01-01.
+ */
+export function customFieldQueryTerm(
+  fieldName: string,
+  operator: TaskQueryOperator,
+  values: string[],
+  negated = false
+): string {
+  return `${negated ? '-' : ''}cf.${quoteQueryValue(fieldName)}${operator}${values.map(quoteQueryValue).join(',')}`;
+}
@@ -0,0 +1,47 @@
+/**
+ * Manual task order.
+ * Tasks of a project that share a status are ordered by a fractional rank; subtasks
+ * use the same ranks, so siblings keep their order too. Moving a task only gives it a
+ * rank between its new neighbours, which the server renumbers once gaps run out.
+ */
+import type { Task } from '../types';
+
+/**
+ * Gap the server leaves between neighbouring ranks.
+ */
+export const RANK_STEP = 1024;
+
+/**
+ * Order tasks by rank, oldest first when ranks tie.
+ */
+export function compareByRank(a: Task, b: Task): number {
+  return (a.rank ?? 0) - (b.rank ?? 0) || a.id - b.id;
+}
+
+/**
+ * Neighbours a task gets when it is placed at `index` of an ordered column.
+ * The column may still contain the task at its old position.
+ */
+export function getRankNeighbours(
+  column: Task[],
+  taskId: number,
+  index: number
+): { previous: Task | null; next: Task | null } {
+  const others = column.filter(task => task.id !== taskId);
+  const position = Math.max(0, Math.min(index, others.length));
+  return {
+    previous: others[position - 1] ?? null,
+    next: others[position] ?? null,
+  };
+}
+
+/**
+ * Rank halfway between two neighbours (or a step past the only one), used until
+ * the server answers with the stored rank.
+ */
+export function rankBetween(previous: Task | null, next: Task | null): number {
+  if (previous && next) return ((previous.rank ?? 0) + (next.rank ?? 0)) / 2;
+  if (previous) return (previous.rank ?? 0) + RANK_STEP;
+  if (next) return (next.rank ?? 0) - RANK_STEP;
+  return RANK_STEP;
+}
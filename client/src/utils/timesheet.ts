@@ -0,0 +1,52 @@
+/**
+ * Timesheet and time report helpers (v2.22.0).
+ * Days are local calendar days as YYYY-MM-DD, and durations in the grid are written
+ * as hours and minutes ("1:30").
+ */
+
+import { addDays, startOfWeek } from 'date-fns';
+import { TIME_UNITS, parseDurationStringToUs } from './timeFormat';
+import { toDateString } from './schedule';
+
+// The time zone days are counted in, as the server takes it
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// The Monday-to-Sunday week around a date, as the first and last day
+export function weekRange(date: Date): { from: string; to: string } {
+  const monday = startOfWeek(date, { weekStartsOn: 1 });
+  return { from: toDateString(monday), to: toDateString(addDays(monday, 6)) };
+}
+
+/**
+ * Formats a duration as hours and minutes, rounded to the minute: 5400000000 is
+ * "1:30". Zero is an empty string, so empty cells stay empty.
+ */
+export function formatClockDuration(microseconds: number): string {
+  const minutes = Math.round(microseconds / TIME_UNITS.MINUTE);
+  if (minutes === 0) return '';
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Reads a duration typed into the grid: "1:30", hours as a number ("1.5"), or any
+ * duration parseDurationStringToUs takes ("1h 30m", "90m"). Empty is zero; null
+ * means it can't be read.
+ */
+export function parseClockDuration(input: string): number | null {
+  const value = input.trim();
+  if (value === '') return 0;
+
+  const clock = value.match(/^(\d+):([0-5]?\d)$/);
+  if (clock) return (Number(clock[1]) * 60 + Number(clock[2])) * TIME_UNITS.MINUTE;
+  if (/^\d+(?:[.,]\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value.replace(',', '.')) * TIME_UNITS.HOUR);
+  }
+  return parseDurationStringToUs(value);
+}
+
+// Hours with up to two decimals, for totals
+export function formatHours(microseconds: number): string {
+  return `${Number((microseconds / TIME_UNITS.HOUR).toFixed(2))}h`;
+}
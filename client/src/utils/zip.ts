@@ -0,0 +1,79 @@
+/**
+ * Reading ZIP archives in the browser (v2.19.0).
+ * Enough of the format to open backups made by other tools, such as Todoist's: the
+ * entries are listed from the central directory, and stored or deflated ones are read,
+ * inflating through the browser's DecompressionStream.
+ */
+
+export interface ZipTextEntry {
+  name: string;
+  text: string;
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+// Whether the bytes start like a ZIP archive, whatever the file is called
+export function isZipData(data: ArrayBuffer): boolean {
+  return data.byteLength >= 4 && new DataView(data).getUint32(0, true) === LOCAL_HEADER;
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<ArrayBuffer> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * Reads the files of an archive as UTF-8 text, in the order they are stored.
+ * Folders are left out; `accept` picks the files to read by name.
+ */
+export async function readZipTextEntries(
+  data: ArrayBuffer,
+  accept: (name: string) => boolean = () => true,
+): Promise<ZipTextEntry[]> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+
+  // The end record sits at the end, after a comment of up to 64 KB
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a ZIP archive');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipTextEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error('The ZIP archive is damaged');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !accept(name)) continue;
+    if (view.getUint32(headerOffset, true) !== LOCAL_HEADER) throw new Error('The ZIP archive is damaged');
+
+    // The local header repeats the name, and its extra field may differ in length
+    const start = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+    const content = bytes.subarray(start, start + compressedSize);
+    if (method === 0) {
+      entries.push({ name, text: decoder.decode(content) });
+    } else if (method === 8) {
+      entries.push({ name, text: decoder.decode(await inflateRaw(content)) });
+    } else {
+      throw new Error(`${name} is compressed in a way that can't be read here`);
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,95 @@
+package db
+
+import (
+	"context"
+	"fmt"
+	"strings"
+)
+
+// CustomFieldTypes are the types a custom field can have
+var CustomFieldTypes = []string{
+	"text", "number", "date", "select", "multiselect", "checkbox", "url",
+	"person", "relation", "currency", "rating", "formula",
+}
+
+// customFieldsTableSQL creates the custom_fields table under the given name.
+// The CHECK constraint is built from CustomFieldTypes.
+func customFieldsTableSQL(table string) string {
+	return fmt.Sprintf(`
+		CREATE TABLE IF NOT EXISTS %s (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL,
+			field_type TEXT NOT NULL CHECK (field_type IN ('%s')),
+			project_id INTEGER,
+			options TEXT,
+			required INTEGER DEFAULT 0,
+			sort_order INTEGER DEFAULT 0,
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			validation TEXT,
+			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+		)
+	`, table, strings.Join(CustomFieldTypes, "', '"))
+}
+
+// MigrateCustomFieldTypes rebuilds the custom_fields table when its CHECK constraint
+// lacks a field type, as in databases created before the type was added. SQLite can't
+// change a constraint in place, so the rows are copied into a new table.
+func MigrateCustomFieldTypes(db *Database) error {
+	var tableSQL string
+	if err := db.QueryRow("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'custom_fields'").Scan(&tableSQL); err != nil {
+		return err
+	}
+	upToDate := true
+	for _, fieldType := range CustomFieldTypes {
+		if !strings.Contains(tableSQL, "'"+fieldType+"'") {
+			upToDate = false
+			break
+		}
+	}
+	if upToDate {
+		return nil
+	}
+
+	// Dropping the old table would otherwise delete every stored value through
+	// ON DELETE CASCADE. The pragma is per connection and can't change inside a
+	// transaction, so it is set on a dedicated connection around the transaction.
+	ctx := context.Background()
+	conn, err := db.Conn(ctx)
+	if err != nil {
+		return err
+	}
+	defer conn.Close()
+	if _, err := conn.ExecContext(ctx, "PRAGMA foreign_keys = OFF"); err != nil {
+		return err
+	}
+	defer conn.ExecContext(ctx, "PRAGMA foreign_keys = ON")
+
+	tx, err := conn.BeginTx(ctx, nil)
+	if err != nil {
+		return err
+	}
+	defer tx.Rollback()
+
+	// Tables from before validation rules have no validation column yet; it is added
+	// by the column migrations that run after this one
+	columns := "id, name, field_type, project_id, options, required, sort_order, created_at, updated_at"
+	if strings.Contains(tableSQL, "validation") {
+		columns += ", validation"
+	}
+
+	statements := []string{
+		"DROP TABLE IF EXISTS custom_fields_new",
+		customFieldsTableSQL("custom_fields_new"),
+		fmt.Sprintf("INSERT INTO custom_fields_new (%s) SELECT %s FROM custom_fields", columns, columns),
+		"DROP TABLE custom_fields",
+		"ALTER TABLE custom_fields_new RENAME TO custom_fields",
+		"CREATE INDEX IF NOT EXISTS idx_custom_fields_project ON custom_fields(project_id)",
+	}
+	for _, statement := range statements {
+		if _, err := tx.ExecContext(ctx, statement); err != nil {
+			return err
+		}
+	}
+	return tx.Commit()
+}
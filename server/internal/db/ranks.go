@@ -0,0 +1,12 @@
+package db
+
+// RankStep is the gap left between neighbouring task ranks, so a task can be moved
+// between two others many times before the column has to be renumbered
+const RankStep = 1024.0
+
+// BackfillTaskRanks ranks tasks that have none (created before manual ordering, or
+// imported from an older export) after each other in creation order
+func BackfillTaskRanks(db *Database) error {
+	_, err := db.Exec("UPDATE tasks SET rank = id * ? WHERE rank IS NULL", RankStep)
+	return err
+}
@@ -0,0 +1,87 @@
+package db
+
+import "encoding/json"
+
+// listFilterKeys are the saved view filters that hold a list of values.
+// Views saved before filters were multi-valued stored a single value for some of them.
+var listFilterKeys = []string{
+	"status", "priority", "assignee_id", "tag_id",
+	"not_status", "not_priority", "not_assignee_id", "not_tag_id",
+}
+
+// NormalizeViewFilters turns single filter values into one-element lists and drops
+// empty ones. It reports whether anything changed.
+func NormalizeViewFilters(filters map[string]interface{}) bool {
+	changed := false
+	for _, key := range listFilterKeys {
+		value, ok := filters[key]
+		if !ok {
+			continue
+		}
+		switch v := value.(type) {
+		case []interface{}:
+			continue
+		case nil:
+			delete(filters, key)
+		case string:
+			if v == "" {
+				delete(filters, key)
+			} else {
+				filters[key] = []interface{}{v}
+			}
+		default:
+			filters[key] = []interface{}{v}
+		}
+		changed = true
+	}
+	return changed
+}
+
+// MigrateSavedViewFilters rewrites the filters of views saved with single values.
+// Filters that aren't valid JSON are left alone.
+func MigrateSavedViewFilters(db *Database) error {
+	rows, err := db.Query("SELECT id, filters FROM saved_views WHERE filters IS NOT NULL AND filters != ''")
+	if err != nil {
+		return err
+	}
+	updates := make(map[string]string)
+	for rows.Next() {
+		var id, raw string
+		if err := rows.Scan(&id, &raw); err != nil {
+			rows.Close()
+			return err
+		}
+		var filters map[string]interface{}
+		if err := json.Unmarshal([]byte(raw), &filters); err != nil || filters == nil {
+			continue
+		}
+		if NormalizeViewFilters(filters) {
+			migrated, err := json.Marshal(filters)
+			if err != nil {
+				rows.Close()
+				return err
+			}
+			updates[id] = string(migrated)
+		}
+	}
+	rows.Close()
+	if err := rows.Err(); err != nil {
+		return err
+	}
+	if len(updates) == 0 {
+		return nil
+	}
+
+	tx, err := db.Begin()
+	if err != nil {
+		return err
+	}
+	defer tx.Rollback()
+
+	for id, filters := range updates {
+		if _, err := tx.Exec("UPDATE saved_views SET filters = ? WHERE id = ?", filters, id); err != nil {
+			return err
+		}
+	}
+	return tx.Commit()
+}
@@ -1,6 +1,7 @@
 package db
 
 import (
+	"database/sql"
 	"fmt"
 	"log"
 )
@@ -22,7 +23,8 @@ func CreateSchema(db *Database) error {
 			parent_project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
 			owner_id TEXT REFERENCES people(id) ON DELETE SET NULL,
 			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			deleted_at DATETIME
 		)
 	`); err != nil {
 		return fmt.Errorf("failed to create projects table: %w", err)
@@ -47,6 +49,9 @@ func CreateSchema(db *Database) error {
 			actual_duration_minutes INTEGER,
 			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
 			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			recurrence TEXT,
+			deleted_at DATETIME,
+			rank REAL,
 			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
 		)
 	`); err != nil {
@@ -64,6 +69,7 @@ func CreateSchema(db *Database) error {
 			project_id INTEGER,
 			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
 			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			deleted_at DATETIME,
 			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL
 		)
 	`); err != nil {
@@ -124,7 +130,8 @@ func CreateSchema(db *Database) error {
 			entity_type TEXT NOT NULL,
 			entity_id TEXT NOT NULL,
 			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			deleted_at DATETIME
 		)
 	`); err != nil {
 		return fmt.Errorf("failed to create notes table: %w", err)
@@ -147,22 +154,13 @@ func CreateSchema(db *Database) error {
 	}
 
 	// Custom fields table (UUID primary key)
-	if _, err := db.Exec(`
-		CREATE TABLE IF NOT EXISTS custom_fields (
-			id TEXT PRIMARY KEY,
-			name TEXT NOT NULL,
-			field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'multiselect', 'checkbox', 'url')),
-			project_id INTEGER,
-			options TEXT,
-			required INTEGER DEFAULT 0,
-			sort_order INTEGER DEFAULT 0,
-			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
-		)
-	`); err != nil {
+	if _, err := db.Exec(customFieldsTableSQL("custom_fields")); err != nil {
 		return fmt.Errorf("failed to create custom_fields table: %w", err)
 	}
+	// Databases from before the person, relation, currency, rating and formula types
+	if err := MigrateCustomFieldTypes(db); err != nil {
+		return fmt.Errorf("failed to migrate custom_fields table: %w", err)
+	}
 
 	// Custom field values table
 	if _, err := db.Exec(`
@@ -194,6 +192,7 @@ func CreateSchema(db *Database) error {
 			is_default INTEGER DEFAULT 0,
 			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
 			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			settings TEXT,
 			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
 		)
 	`); err != nil {
@@ -214,6 +213,9 @@ func CreateSchema(db *Database) error {
 			is_running INTEGER DEFAULT 0,
 			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
 			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			billable INTEGER NOT NULL DEFAULT 1,
+			invoice_id TEXT,
+			pomodoro_session_id TEXT,
 			FOREIGN KEY (person_id) REFERENCES people(id) ON DELETE SET NULL
 		)
 	`); err != nil {
@@ -233,7 +235,9 @@ func CreateSchema(db *Database) error {
 			notifications_enabled INTEGER NOT NULL DEFAULT 1,
 			daily_goal INTEGER DEFAULT 8,
 			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			log_time_entries INTEGER NOT NULL DEFAULT 0,
+			log_interrupted INTEGER NOT NULL DEFAULT 0
 		)
 	`); err != nil {
 		return fmt.Errorf("failed to create pomodoro_settings table: %w", err)
@@ -244,6 +248,26 @@ func CreateSchema(db *Database) error {
 		return fmt.Errorf("failed to insert default pomodoro settings: %w", err)
 	}
 
+	// Time tracking settings table (rounding of stopped timers, overlaps, idle detection)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS time_tracking_settings (
+			id TEXT PRIMARY KEY,
+			rounding_minutes INTEGER NOT NULL DEFAULT 0,
+			rounding_mode TEXT NOT NULL DEFAULT 'nearest',
+			overlap_mode TEXT NOT NULL DEFAULT 'warn',
+			idle_minutes INTEGER NOT NULL DEFAULT 0,
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create time_tracking_settings table: %w", err)
+	}
+
+	// Insert default time tracking settings if not exists
+	if _, err := db.Exec(`INSERT OR IGNORE INTO time_tracking_settings (id) VALUES ('default')`); err != nil {
+		return fmt.Errorf("failed to insert default time tracking settings: %w", err)
+	}
+
 	// Pomodoro sessions table (UUID primary key)
 	if _, err := db.Exec(`
 		CREATE TABLE IF NOT EXISTS pomodoro_sessions (
@@ -265,11 +289,179 @@ func CreateSchema(db *Database) error {
 		return fmt.Errorf("failed to create pomodoro_sessions table: %w", err)
 	}
 
+	// Task dependencies table (blocking task must finish before blocked task starts)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS task_dependencies (
+			id TEXT PRIMARY KEY,
+			blocking_task_id INTEGER NOT NULL,
+			blocked_task_id INTEGER NOT NULL,
+			dependency_type TEXT NOT NULL DEFAULT 'finish_to_start' CHECK (dependency_type IN ('finish_to_start', 'start_to_start')),
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			FOREIGN KEY (blocking_task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+			FOREIGN KEY (blocked_task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+			UNIQUE(blocking_task_id, blocked_task_id)
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create task_dependencies table: %w", err)
+	}
+
+	// Activity log table (no foreign keys so history outlives the entities it describes)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS activity_log (
+			id TEXT PRIMARY KEY,
+			entity_type TEXT NOT NULL CHECK (entity_type IN ('task', 'project', 'tag')),
+			entity_id TEXT NOT NULL,
+			entity_name TEXT,
+			project_id INTEGER,
+			action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'restored')),
+			field TEXT,
+			old_value TEXT,
+			new_value TEXT,
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create activity_log table: %w", err)
+	}
+
+	// Project statuses table (each project's workflow; tasks.status holds the status key)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS project_statuses (
+			id TEXT PRIMARY KEY,
+			project_id INTEGER NOT NULL,
+			key TEXT NOT NULL,
+			name TEXT NOT NULL,
+			color TEXT NOT NULL DEFAULT '#6b7280',
+			category TEXT NOT NULL DEFAULT 'active' CHECK (category IN ('not_started', 'active', 'done')),
+			position INTEGER NOT NULL DEFAULT 0,
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+			UNIQUE(project_id, key)
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create project_statuses table: %w", err)
+	}
+
+	// Project billing settings (currency, project hourly rate and who invoices are addressed to)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS project_billing (
+			project_id INTEGER PRIMARY KEY,
+			currency TEXT NOT NULL DEFAULT 'USD',
+			hourly_rate REAL,
+			bill_to TEXT,
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create project_billing table: %w", err)
+	}
+
+	// Billing rates table (a person's default hourly rate when project_id is NULL,
+	// otherwise their rate on that project)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS billing_rates (
+			id TEXT PRIMARY KEY,
+			person_id TEXT NOT NULL,
+			project_id INTEGER,
+			hourly_rate REAL NOT NULL,
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			FOREIGN KEY (person_id) REFERENCES people(id) ON DELETE CASCADE,
+			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create billing_rates table: %w", err)
+	}
+
+	// Invoices table (time_entries.invoice_id locks the entries an invoice bills)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS invoices (
+			id TEXT PRIMARY KEY,
+			project_id INTEGER NOT NULL,
+			number TEXT NOT NULL UNIQUE,
+			from_date TEXT NOT NULL,
+			to_date TEXT NOT NULL,
+			time_zone TEXT NOT NULL DEFAULT 'UTC',
+			issue_date TEXT NOT NULL,
+			due_date TEXT,
+			currency TEXT NOT NULL,
+			bill_to TEXT,
+			notes TEXT,
+			total_us INTEGER NOT NULL DEFAULT 0,
+			total_amount REAL NOT NULL DEFAULT 0,
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+			FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create invoices table: %w", err)
+	}
+
+	// Invoice lines table (what was billed, kept as it was when the invoice was made)
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS invoice_lines (
+			id TEXT PRIMARY KEY,
+			invoice_id TEXT NOT NULL,
+			position INTEGER NOT NULL DEFAULT 0,
+			description TEXT NOT NULL,
+			person_name TEXT,
+			duration_us INTEGER NOT NULL,
+			hourly_rate REAL NOT NULL,
+			amount REAL NOT NULL,
+			FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create invoice_lines table: %w", err)
+	}
+
+	// App instance table (one row; instance_id tells this install's calendar feed UIDs apart from other installs')
+	if _, err := db.Exec(`
+		CREATE TABLE IF NOT EXISTS app_instance (
+			id TEXT PRIMARY KEY,
+			instance_id TEXT NOT NULL,
+			created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+		)
+	`); err != nil {
+		return fmt.Errorf("failed to create app_instance table: %w", err)
+	}
+
+	if _, err := db.Exec(`INSERT OR IGNORE INTO app_instance (id, instance_id) VALUES ('default', lower(hex(randomblob(16))))`); err != nil {
+		return fmt.Errorf("failed to insert app instance: %w", err)
+	}
+
+	// Columns added after a table was first released; existing databases get them via ALTER TABLE.
+	// New columns must also be appended (in the same order) to the CREATE TABLE statement above.
+	columnMigrations := []struct {
+		table      string
+		column     string
+		definition string
+	}{
+		{"tasks", "recurrence", "TEXT"},
+		{"tasks", "deleted_at", "DATETIME"},
+		{"projects", "deleted_at", "DATETIME"},
+		{"people", "deleted_at", "DATETIME"},
+		{"notes", "deleted_at", "DATETIME"},
+		{"saved_views", "settings", "TEXT"},
+		{"tasks", "rank", "REAL"},
+		{"custom_fields", "validation", "TEXT"},
+		{"time_entries", "billable", "INTEGER NOT NULL DEFAULT 1"},
+		{"time_entries", "invoice_id", "TEXT"},
+		{"pomodoro_settings", "log_time_entries", "INTEGER NOT NULL DEFAULT 0"},
+		{"pomodoro_settings", "log_interrupted", "INTEGER NOT NULL DEFAULT 0"},
+		{"time_entries", "pomodoro_session_id", "TEXT"},
+	}
+
+	for _, m := range columnMigrations {
+		if err := addColumnIfMissing(db, m.table, m.column, m.definition); err != nil {
+			return fmt.Errorf("failed to add %s.%s column: %w", m.table, m.column, err)
+		}
+	}
+
 	// Create indexes for performance
 	indexes := []string{
 		// Projects indexes
 		"CREATE INDEX IF NOT EXISTS idx_projects_parent_id ON projects(parent_project_id)",
 		"CREATE INDEX IF NOT EXISTS idx_projects_owner_id ON projects(owner_id)",
+		"CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at)",
 
 		// Tasks indexes
 		"CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id)",
@@ -278,9 +470,12 @@ func CreateSchema(db *Database) error {
 		"CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date)",
 		"CREATE INDEX IF NOT EXISTS idx_tasks_assignee_id ON tasks(assignee_id)",
 		"CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON tasks(parent_task_id)",
+		"CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at)",
+		"CREATE INDEX IF NOT EXISTS idx_tasks_rank ON tasks(project_id, status, rank)",
 
 		// People indexes
 		"CREATE INDEX IF NOT EXISTS idx_people_project_id ON people(project_id)",
+		"CREATE INDEX IF NOT EXISTS idx_people_deleted_at ON people(deleted_at)",
 
 		// Tags indexes
 		"CREATE INDEX IF NOT EXISTS idx_tags_project_id ON tags(project_id)",
@@ -295,6 +490,7 @@ func CreateSchema(db *Database) error {
 
 		// Notes index
 		"CREATE INDEX IF NOT EXISTS idx_notes_entity ON notes(entity_type, entity_id)",
+		"CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at)",
 
 		// Project assignees indexes
 		"CREATE INDEX IF NOT EXISTS idx_project_assignees_project_id ON project_assignees(project_id)",
@@ -315,10 +511,29 @@ func CreateSchema(db *Database) error {
 		"CREATE INDEX IF NOT EXISTS idx_time_entries_entity ON time_entries(entity_type, entity_id)",
 		"CREATE INDEX IF NOT EXISTS idx_time_entries_person ON time_entries(person_id)",
 		"CREATE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries(is_running)",
+		"CREATE INDEX IF NOT EXISTS idx_time_entries_invoice ON time_entries(invoice_id)",
+		"CREATE INDEX IF NOT EXISTS idx_time_entries_pomodoro ON time_entries(pomodoro_session_id)",
+
+		// Task dependencies indexes
+		"CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocking ON task_dependencies(blocking_task_id)",
+		"CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked ON task_dependencies(blocked_task_id)",
 
 		// Pomodoro sessions indexes
 		"CREATE INDEX IF NOT EXISTS idx_pomodoro_sessions_task ON pomodoro_sessions(task_id)",
 		"CREATE INDEX IF NOT EXISTS idx_pomodoro_sessions_started ON pomodoro_sessions(started_at)",
+
+		// Activity log indexes
+		"CREATE INDEX IF NOT EXISTS idx_activity_log_entity ON activity_log(entity_type, entity_id)",
+		"CREATE INDEX IF NOT EXISTS idx_activity_log_project ON activity_log(project_id)",
+		"CREATE INDEX IF NOT EXISTS idx_activity_log_created ON activity_log(created_at)",
+
+		// Project statuses index
+		"CREATE INDEX IF NOT EXISTS idx_project_statuses_project ON project_statuses(project_id, position)",
+
+		// Billing indexes; a person has one default rate and one rate per project
+		"CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_rates_scope ON billing_rates(person_id, IFNULL(project_id, 0))",
+		"CREATE INDEX IF NOT EXISTS idx_invoices_project ON invoices(project_id, created_at)",
+		"CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice ON invoice_lines(invoice_id, position)",
 	}
 
 	for _, idx := range indexes {
@@ -327,10 +542,52 @@ func CreateSchema(db *Database) error {
 		}
 	}
 
+	// Projects from before per-project statuses get the default workflow
+	if err := SeedDefaultStatuses(db); err != nil {
+		return fmt.Errorf("failed to seed project statuses: %w", err)
+	}
+
+	// Tasks from before manual ordering keep their creation order
+	if err := BackfillTaskRanks(db); err != nil {
+		return fmt.Errorf("failed to rank tasks: %w", err)
+	}
+
+	// Saved views from before multi-valued filters store single values
+	if err := MigrateSavedViewFilters(db); err != nil {
+		return fmt.Errorf("failed to migrate saved view filters: %w", err)
+	}
+
 	log.Println("Database schema created successfully")
 	return nil
 }
 
+// addColumnIfMissing adds a column to an existing table unless it is already there
+func addColumnIfMissing(db *Database, table, column, definition string) error {
+	rows, err := db.Query(fmt.Sprintf("PRAGMA table_info(%s)", table))
+	if err != nil {
+		return err
+	}
+	defer rows.Close()
+
+	for rows.Next() {
+		var cid, notNull, pk int
+		var name, columnType string
+		var defaultValue sql.NullString
+		if err := rows.Scan(&cid, &name, &columnType, &notNull, &defaultValue, &pk); err != nil {
+			return err
+		}
+		if name == column {
+			return nil
+		}
+	}
+	if err := rows.Err(); err != nil {
+		return err
+	}
+
+	_, err = db.Exec(fmt.Sprintf("ALTER TABLE %s ADD COLUMN %s %s", table, column, definition))
+	return err
+}
+
 // SchemaExists checks if the database schema has been initialized
 func SchemaExists(db *Database) (bool, error) {
 	var count int
@@ -0,0 +1,84 @@
+package db
+
+import (
+	"fmt"
+	"strings"
+
+	"github.com/google/uuid"
+)
+
+// DefaultStatus describes one status of the workflow new projects start with
+type DefaultStatus struct {
+	Key      string
+	Name     string
+	Color    string
+	Category string
+}
+
+// DefaultStatuses is the workflow every project starts with.
+// The keys match the fixed statuses tasks used before workflows were configurable.
+var DefaultStatuses = []DefaultStatus{
+	{"backlog", "Backlog", "#6b7280", "not_started"},
+	{"todo", "To Do", "#3b82f6", "not_started"},
+	{"in_progress", "In Progress", "#f59e0b", "active"},
+	{"review", "Review", "#8b5cf6", "active"},
+	{"done", "Done", "#10b981", "done"},
+}
+
+// SeedDefaultStatuses gives every project without statuses the default workflow.
+// Tasks in those projects whose status isn't one of the defaults are moved to "todo".
+func SeedDefaultStatuses(db *Database) error {
+	rows, err := db.Query(`
+		SELECT id FROM projects p
+		WHERE NOT EXISTS (SELECT 1 FROM project_statuses ps WHERE ps.project_id = p.id)
+	`)
+	if err != nil {
+		return err
+	}
+	var projectIDs []int64
+	for rows.Next() {
+		var id int64
+		if err := rows.Scan(&id); err != nil {
+			rows.Close()
+			return err
+		}
+		projectIDs = append(projectIDs, id)
+	}
+	rows.Close()
+	if err := rows.Err(); err != nil {
+		return err
+	}
+	if len(projectIDs) == 0 {
+		return nil
+	}
+
+	tx, err := db.Begin()
+	if err != nil {
+		return err
+	}
+	defer tx.Rollback()
+
+	keys := make([]string, len(DefaultStatuses))
+	keyParams := make([]interface{}, len(DefaultStatuses))
+	for i, s := range DefaultStatuses {
+		keys[i] = "?"
+		keyParams[i] = s.Key
+	}
+	remapQuery := fmt.Sprintf("UPDATE tasks SET status = 'todo' WHERE project_id = ? AND (status IS NULL OR status NOT IN (%s))", strings.Join(keys, ", "))
+
+	for _, projectID := range projectIDs {
+		for position, s := range DefaultStatuses {
+			if _, err := tx.Exec(`
+				INSERT INTO project_statuses (id, project_id, key, name, color, category, position)
+				VALUES (?, ?, ?, ?, ?, ?, ?)
+			`, uuid.New().String(), projectID, s.Key, s.Name, s.Color, s.Category, position); err != nil {
+				return err
+			}
+		}
+		if _, err := tx.Exec(remapQuery, append([]interface{}{projectID}, keyParams...)...); err != nil {
+			return err
+		}
+	}
+
+	return tx.Commit()
+}
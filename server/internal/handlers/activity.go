@@ -0,0 +1,433 @@
+package handlers
+
+import (
+	"database/sql"
+	"encoding/json"
+	"fmt"
+	"log"
+	"net/http"
+	"strconv"
+	"strings"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Valid activity entity types and actions
+var (
+	ValidActivityEntityTypes = []string{"task", "project", "tag"}
+	ValidActivityActions     = []string{"created", "updated", "deleted", "restored"}
+)
+
+// Paging limits for activity feeds
+const (
+	defaultActivityLimit = 50
+	maxActivityLimit     = 200
+)
+
+// customFieldActivityPrefix prefixes the field name of custom field value changes, e.g. "custom_field:Severity"
+const customFieldActivityPrefix = "custom_field:"
+
+// ActivityEntry is one recorded change. Updates are stored as one entry per changed field;
+// values are stored as display text (names rather than IDs) so history survives deletes.
+type ActivityEntry struct {
+	ID         string  `json:"id"`
+	EntityType string  `json:"entity_type"`
+	EntityID   string  `json:"entity_id"`
+	EntityName *string `json:"entity_name"`
+	ProjectID  *int    `json:"project_id"`
+	Action     string  `json:"action"`
+	Field      *string `json:"field"`
+	OldValue   *string `json:"old_value"`
+	NewValue   *string `json:"new_value"`
+	CreatedAt  string  `json:"created_at"`
+}
+
+// ActivityPage is a page of activity entries, newest first
+type ActivityPage struct {
+	Entries []ActivityEntry `json:"entries"`
+	HasMore bool            `json:"has_more"`
+}
+
+// activityChange is a single field change; nil means the field was empty
+type activityChange struct {
+	Field    string
+	OldValue *string
+	NewValue *string
+}
+
+// changed reports whether the old and new values differ
+func (c activityChange) changed() bool {
+	if c.OldValue == nil || c.NewValue == nil {
+		return c.OldValue != c.NewValue
+	}
+	return *c.OldValue != *c.NewValue
+}
+
+// isValidActivityEntityType checks if the activity entity type is valid
+func isValidActivityEntityType(entityType string) bool {
+	for _, t := range ValidActivityEntityTypes {
+		if t == entityType {
+			return true
+		}
+	}
+	return false
+}
+
+// isValidActivityAction checks if the activity action is valid
+func isValidActivityAction(action string) bool {
+	for _, a := range ValidActivityActions {
+		if a == action {
+			return true
+		}
+	}
+	return false
+}
+
+// logActivity records an activity entry. Failures are logged rather than returned:
+// the change itself has already been saved and should not be reported as failed.
+func logActivity(database *db.Database, entityType string, entityID interface{}, entityName string, projectID interface{}, action string, change *activityChange) {
+	var field sql.NullString
+	var oldValue, newValue *string
+	if change != nil {
+		field = nullString(change.Field)
+		oldValue = change.OldValue
+		newValue = change.NewValue
+	}
+
+	_, err := database.Exec(`
+		INSERT INTO activity_log (id, entity_type, entity_id, entity_name, project_id, action, field, old_value, new_value)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		uuid.New().String(), entityType, fmt.Sprint(entityID), nullString(entityName), projectID, action, field, oldValue, newValue,
+	)
+	if err != nil {
+		log.Printf("Failed to record %s activity for %s %v: %v", action, entityType, entityID, err)
+	}
+}
+
+// logChanges records an "updated" entry for each changed field
+func logChanges(database *db.Database, entityType string, entityID interface{}, entityName string, projectID interface{}, changes []activityChange) {
+	for i := range changes {
+		logActivity(database, entityType, entityID, entityName, projectID, "updated", &changes[i])
+	}
+}
+
+// activityValue converts a string to an activity value (nil when empty)
+func activityValue(s string) *string {
+	if s == "" {
+		return nil
+	}
+	return &s
+}
+
+// nullStringValue converts a nullable string column to an activity value
+func nullStringValue(v sql.NullString) *string {
+	if !v.Valid {
+		return nil
+	}
+	return activityValue(v.String)
+}
+
+// nullInt64Value converts a nullable integer column to an activity value
+func nullInt64Value(v sql.NullInt64) *string {
+	if !v.Valid {
+		return nil
+	}
+	return activityValue(strconv.FormatInt(v.Int64, 10))
+}
+
+// lookupName returns the display name selected by query for id, falling back to the ID itself
+func lookupName(database *db.Database, query string, id *string) *string {
+	if id == nil {
+		return nil
+	}
+	var name string
+	if err := database.QueryRow(query, *id).Scan(&name); err != nil {
+		return id
+	}
+	return &name
+}
+
+// appendChange adds a change when the old and new values differ
+func appendChange(changes []activityChange, field string, oldValue, newValue *string) []activityChange {
+	change := activityChange{Field: field, OldValue: oldValue, NewValue: newValue}
+	if !change.changed() {
+		return changes
+	}
+	return append(changes, change)
+}
+
+// recurrenceValue converts a recurrence rule to an activity value
+func recurrenceValue(r *TaskRecurrence) *string {
+	if r == nil {
+		return nil
+	}
+	data, err := json.Marshal(r)
+	if err != nil {
+		return nil
+	}
+	return activityValue(string(data))
+}
+
+// taskChanges lists the fields that differ between two versions of a task
+func taskChanges(database *db.Database, before, after Task) []activityChange {
+	const personQuery = "SELECT name FROM people WHERE id = ?"
+	const taskQuery = "SELECT title FROM tasks WHERE id = ?"
+
+	var changes []activityChange
+	changes = appendChange(changes, "title", activityValue(before.Title), activityValue(after.Title))
+	changes = appendChange(changes, "description", nullStringValue(before.Description), nullStringValue(after.Description))
+	changes = appendChange(changes, "status", activityValue(before.Status), activityValue(after.Status))
+	changes = appendChange(changes, "priority", activityValue(before.Priority), activityValue(after.Priority))
+	changes = appendChange(changes, "due_date", nullStringValue(before.DueDate), nullStringValue(after.DueDate))
+	changes = appendChange(changes, "start_date", nullStringValue(before.StartDate), nullStringValue(after.StartDate))
+	changes = appendChange(changes, "end_date", nullStringValue(before.EndDate), nullStringValue(after.EndDate))
+	changes = appendChange(changes, "progress_percent", activityValue(strconv.Itoa(before.ProgressPercent)), activityValue(strconv.Itoa(after.ProgressPercent)))
+	changes = appendChange(changes, "estimated_duration_minutes", nullInt64Value(before.EstimatedDurationMinutes), nullInt64Value(after.EstimatedDurationMinutes))
+	changes = appendChange(changes, "actual_duration_minutes", nullInt64Value(before.ActualDurationMinutes), nullInt64Value(after.ActualDurationMinutes))
+	changes = appendChange(changes, "recurrence", recurrenceValue(before.Recurrence), recurrenceValue(after.Recurrence))
+
+	if before.AssigneeID != after.AssigneeID {
+		changes = appendChange(changes, "assignee",
+			lookupName(database, personQuery, nullStringValue(before.AssigneeID)),
+			lookupName(database, personQuery, nullStringValue(after.AssigneeID)))
+	}
+	if before.ParentTaskID != after.ParentTaskID {
+		changes = appendChange(changes, "parent_task",
+			lookupName(database, taskQuery, nullInt64Value(before.ParentTaskID)),
+			lookupName(database, taskQuery, nullInt64Value(after.ParentTaskID)))
+	}
+	return changes
+}
+
+// projectChanges lists the fields that differ between two versions of a project
+func projectChanges(database *db.Database, before, after Project) []activityChange {
+	const personQuery = "SELECT name FROM people WHERE id = ?"
+	const projectQuery = "SELECT name FROM projects WHERE id = ?"
+
+	var changes []activityChange
+	changes = appendChange(changes, "name", activityValue(before.Name), activityValue(after.Name))
+	changes = appendChange(changes, "description", nullStringValue(before.Description), nullStringValue(after.Description))
+	changes = appendChange(changes, "color", activityValue(before.Color), activityValue(after.Color))
+
+	if before.ParentProjectID != after.ParentProjectID {
+		changes = appendChange(changes, "parent_project",
+			lookupName(database, projectQuery, nullInt64Value(before.ParentProjectID)),
+			lookupName(database, projectQuery, nullInt64Value(after.ParentProjectID)))
+	}
+	if before.OwnerID != after.OwnerID {
+		changes = appendChange(changes, "owner",
+			lookupName(database, personQuery, nullStringValue(before.OwnerID)),
+			lookupName(database, personQuery, nullStringValue(after.OwnerID)))
+	}
+	return changes
+}
+
+// tagChanges lists the fields that differ between two versions of a tag
+func tagChanges(database *db.Database, before, after Tag) []activityChange {
+	const projectQuery = "SELECT name FROM projects WHERE id = ?"
+
+	var changes []activityChange
+	changes = appendChange(changes, "name", activityValue(before.Name), activityValue(after.Name))
+	changes = appendChange(changes, "color", activityValue(before.Color), activityValue(after.Color))
+	if before.ProjectID != after.ProjectID {
+		changes = appendChange(changes, "project",
+			lookupName(database, projectQuery, nullInt64Value(before.ProjectID)),
+			lookupName(database, projectQuery, nullInt64Value(after.ProjectID)))
+	}
+	return changes
+}
+
+// logTaskChanges records the differences between `before` and the task as it is now stored
+func logTaskChanges(database *db.Database, before Task) {
+	after, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ?", before.ID))
+	if err != nil {
+		log.Printf("Failed to record activity for task %d: %v", before.ID, err)
+		return
+	}
+	logChanges(database, "task", after.ID, after.Title, after.ProjectID, taskChanges(database, before, after))
+}
+
+// logTaskChange records a change to a task's related data (tags, co-assignees, custom field values)
+func logTaskChange(database *db.Database, taskID string, change activityChange) {
+	if !change.changed() {
+		return
+	}
+	var title string
+	var projectID int
+	if err := database.QueryRow("SELECT title, project_id FROM tasks WHERE id = ?", taskID).Scan(&title, &projectID); err != nil {
+		log.Printf("Failed to record activity for task %s: %v", taskID, err)
+		return
+	}
+	logActivity(database, "task", taskID, title, projectID, "updated", &change)
+}
+
+// loadTasksByID fetches tasks keyed by ID; missing IDs are left out
+func loadTasksByID(database *db.Database, ids []int) (map[int]Task, error) {
+	placeholders := make([]string, len(ids))
+	for i := range ids {
+		placeholders[i] = "?"
+	}
+	rows, err := database.Query("SELECT * FROM tasks WHERE id IN ("+strings.Join(placeholders, ",")+")", intSliceToInterfaceSlice(ids)...)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	tasks := make(map[int]Task, len(ids))
+	for rows.Next() {
+		task, err := scanTask(rows)
+		if err != nil {
+			return nil, err
+		}
+		tasks[task.ID] = task
+	}
+	return tasks, rows.Err()
+}
+
+// scanProjectRow reads a full projects row
+func scanProjectRow(row *sql.Row) (Project, error) {
+	var p Project
+	err := row.Scan(
+		&p.ID, &p.Name, &p.Description, &p.Color,
+		&p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt, &p.DeletedAt,
+	)
+	return p, err
+}
+
+// scanTagRow reads a tag selected as id, name, color, project_id, created_at, updated_at
+func scanTagRow(row *sql.Row) (Tag, error) {
+	var t Tag
+	err := row.Scan(&t.ID, &t.Name, &t.Color, &t.ProjectID, &t.CreatedAt, &t.UpdatedAt)
+	return t, err
+}
+
+// queryActivity responds with a page of activity entries matching the given conditions.
+// Paging uses ?limit= (default 50, max 200) and ?offset=.
+func queryActivity(c *gin.Context, database *db.Database, conditions []string, args []interface{}) {
+	limit := defaultActivityLimit
+	if value := c.Query("limit"); value != "" {
+		parsed, err := strconv.Atoi(value)
+		if err != nil || parsed < 1 {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("limit must be a positive number"))
+			return
+		}
+		limit = parsed
+		if limit > maxActivityLimit {
+			limit = maxActivityLimit
+		}
+	}
+
+	offset := 0
+	if value := c.Query("offset"); value != "" {
+		parsed, err := strconv.Atoi(value)
+		if err != nil || parsed < 0 {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("offset must be zero or a positive number"))
+			return
+		}
+		offset = parsed
+	}
+
+	if action := c.Query("action"); action != "" {
+		if !isValidActivityAction(action) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid action. Must be one of: %s", strings.Join(ValidActivityActions, ", "))))
+			return
+		}
+		conditions = append(conditions, "action = ?")
+		args = append(args, action)
+	}
+
+	query := `
+		SELECT id, entity_type, entity_id, entity_name, project_id, action, field, old_value, new_value, created_at
+		FROM activity_log`
+	if len(conditions) > 0 {
+		query += " WHERE " + strings.Join(conditions, " AND ")
+	}
+	// rowid breaks ties between entries recorded in the same second
+	query += " ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?"
+	args = append(args, limit+1, offset)
+
+	rows, err := database.Query(query, args...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("activity"))
+		return
+	}
+	defer rows.Close()
+
+	entries := []ActivityEntry{}
+	for rows.Next() {
+		var e ActivityEntry
+		if err := rows.Scan(
+			&e.ID, &e.EntityType, &e.EntityID, &e.EntityName, &e.ProjectID,
+			&e.Action, &e.Field, &e.OldValue, &e.NewValue, &e.CreatedAt,
+		); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("activity"))
+			return
+		}
+		entries = append(entries, e)
+	}
+
+	// One extra row was fetched to tell whether another page exists
+	hasMore := len(entries) > limit
+	if hasMore {
+		entries = entries[:limit]
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(ActivityPage{Entries: entries, HasMore: hasMore}))
+}
+
+// GetActivity handles GET /api/activity - Global activity feed
+// Optional filters: ?entity_type=&entity_id=, ?project_id=, ?action=
+func GetActivity(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	entityType := c.Query("entity_type")
+	entityID := c.Query("entity_id")
+	projectID := c.Query("project_id")
+
+	var conditions []string
+	var args []interface{}
+
+	if entityType != "" {
+		if !isValidActivityEntityType(entityType) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid entity_type. Must be one of: %s", strings.Join(ValidActivityEntityTypes, ", "))))
+			return
+		}
+		conditions = append(conditions, "entity_type = ?")
+		args = append(args, entityType)
+	}
+
+	if entityID != "" {
+		if entityType == "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("entity_id requires entity_type"))
+			return
+		}
+		conditions = append(conditions, "entity_id = ?")
+		args = append(args, entityID)
+	}
+
+	if projectID != "" {
+		conditions = append(conditions, "project_id = ?")
+		args = append(args, projectID)
+	}
+
+	queryActivity(c, database, conditions, args)
+}
+
+// GetTaskActivity handles GET /api/tasks/:id/activity - Activity for a task
+func GetTaskActivity(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	taskID := c.Param("id")
+
+	queryActivity(c, database, []string{"entity_type = 'task'", "entity_id = ?"}, []interface{}{taskID})
+}
+
+// GetProjectActivity handles GET /api/projects/:id/activity - Activity for a project and everything in it
+func GetProjectActivity(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	queryActivity(c, database, []string{"project_id = ?"}, []interface{}{projectID})
+}
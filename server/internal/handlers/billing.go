@@ -0,0 +1,992 @@
+package handlers
+
+import (
+	"bytes"
+	"database/sql"
+	"fmt"
+	"html/template"
+	"math"
+	"net/http"
+	"sort"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Time entries are billable unless marked otherwise. Billable time is charged at the
+// rate of the person who logged it on that project, else the project's hourly rate,
+// else the person's default rate. An invoice bills a project's billable time over a
+// range of days and locks the entries it bills until it is voided.
+
+// Currency of projects that haven't set one
+const defaultBillingCurrency = "USD"
+
+// ProjectBilling is how a project's time is billed
+type ProjectBilling struct {
+	ProjectID  int      `json:"project_id"`
+	Currency   string   `json:"currency"`
+	HourlyRate *float64 `json:"hourly_rate"` // for everyone without a rate of their own on the project
+	BillTo     *string  `json:"bill_to"`     // who invoices are addressed to, one line per row
+}
+
+// UpdateProjectBillingRequest replaces a project's billing settings
+type UpdateProjectBillingRequest struct {
+	Currency   string   `json:"currency" binding:"required"`
+	HourlyRate *float64 `json:"hourly_rate"`
+	BillTo     *string  `json:"bill_to"`
+}
+
+// BillingRate is a person's default hourly rate, or their rate on one project
+type BillingRate struct {
+	ID         string  `json:"id"`
+	PersonID   string  `json:"person_id"`
+	PersonName string  `json:"person_name"`
+	ProjectID  *int64  `json:"project_id"` // nil for the person's default rate
+	HourlyRate float64 `json:"hourly_rate"`
+}
+
+// SetBillingRateRequest sets or, with a null hourly_rate, removes a rate
+type SetBillingRateRequest struct {
+	PersonID   string   `json:"person_id" binding:"required"`
+	ProjectID  *int64   `json:"project_id"`
+	HourlyRate *float64 `json:"hourly_rate"`
+}
+
+// ProjectBillingSummary sums a project's finished time, on the project itself and on
+// its tasks, by what has been billed
+type ProjectBillingSummary struct {
+	Currency         string  `json:"currency"`
+	BillableUs       int64   `json:"billable_us"`
+	NonBillableUs    int64   `json:"non_billable_us"`
+	InvoicedUs       int64   `json:"invoiced_us"`
+	UninvoicedUs     int64   `json:"uninvoiced_us"` // billable time not on an invoice yet
+	UnratedUs        int64   `json:"unrated_us"`    // uninvoiced billable time without a rate
+	BillableAmount   float64 `json:"billable_amount"`
+	InvoicedAmount   float64 `json:"invoiced_amount"` // as invoiced, whatever the rates are now
+	UninvoicedAmount float64 `json:"uninvoiced_amount"`
+}
+
+// InvoiceLine is the time one person logged on a task, or on the project itself
+type InvoiceLine struct {
+	ID          string  `json:"id"`
+	Description string  `json:"description"`
+	PersonName  *string `json:"person_name"`
+	DurationUs  int64   `json:"duration_us"`
+	HourlyRate  float64 `json:"hourly_rate"`
+	Amount      float64 `json:"amount"`
+}
+
+// Invoice bills a project's time over a range of days
+type Invoice struct {
+	ID          string        `json:"id"`
+	ProjectID   int64         `json:"project_id"`
+	ProjectName string        `json:"project_name"`
+	Number      string        `json:"number"`
+	FromDate    string        `json:"from_date"`
+	ToDate      string        `json:"to_date"`
+	TimeZone    string        `json:"time_zone"`
+	IssueDate   string        `json:"issue_date"`
+	DueDate     *string       `json:"due_date"`
+	Currency    string        `json:"currency"`
+	BillTo      *string       `json:"bill_to"`
+	Notes       *string       `json:"notes"`
+	TotalUs     int64         `json:"total_us"`
+	TotalAmount float64       `json:"total_amount"`
+	EntryCount  int           `json:"entry_count"`
+	CreatedAt   *time.Time    `json:"created_at,omitempty"` // left out of a preview
+	Lines       []InvoiceLine `json:"lines,omitempty"`      // left out of lists
+}
+
+// InvoicePreview is the invoice a range would make, before it is saved
+type InvoicePreview struct {
+	Invoice
+	MissingRates []string `json:"missing_rates"` // who logged billable time nobody set a rate for
+}
+
+// CreateInvoiceRequest bills a project's uninvoiced billable time in a range of days
+type CreateInvoiceRequest struct {
+	From      string  `json:"from" binding:"required"`
+	To        string  `json:"to" binding:"required"`
+	TZ        string  `json:"tz"`
+	Number    string  `json:"number"`     // the next INV-0001 style number when left out
+	IssueDate string  `json:"issue_date"` // today when left out
+	DueDate   *string `json:"due_date"`
+	Notes     *string `json:"notes"`
+}
+
+const maxInvoiceNumberLength = 50
+
+const invoiceColumns = `
+	i.id, i.project_id, p.name, i.number, i.from_date, i.to_date, i.time_zone, i.issue_date, i.due_date,
+	i.currency, i.bill_to, i.notes, i.total_us, i.total_amount,
+	(SELECT COUNT(*) FROM time_entries te WHERE te.invoice_id = i.id), i.created_at`
+
+// rejectInvoicedEntry answers 409 for a time entry that is on an invoice and reports
+// whether it did
+func rejectInvoicedEntry(c *gin.Context, database *db.Database, entry *TimeEntry) bool {
+	if entry.InvoiceID == nil {
+		return false
+	}
+	number := *entry.InvoiceID
+	database.QueryRow("SELECT number FROM invoices WHERE id = ?", *entry.InvoiceID).Scan(&number)
+	c.JSON(http.StatusConflict, middleware.NewErrorResponse("ENTRY_INVOICED",
+		fmt.Sprintf("This time entry is on invoice %s; void the invoice to change it", number)))
+	return true
+}
+
+// amountFor is what a duration costs at an hourly rate
+func amountFor(durationUs int64, rate float64) float64 {
+	return float64(durationUs) / float64(time.Hour/time.Microsecond) * rate
+}
+
+// roundMoney rounds an amount to cents
+func roundMoney(amount float64) float64 {
+	return math.Round(amount*100) / 100
+}
+
+// formatMoney writes an amount after its currency, with two decimals and thousands
+// separators: "EUR 1,234.50"
+func formatMoney(amount float64, currency string) string {
+	s := strconv.FormatFloat(amount, 'f', 2, 64)
+	whole, cents := s[:len(s)-3], s[len(s)-2:]
+	var b strings.Builder
+	for i, d := range whole {
+		if i > 0 && (len(whole)-i)%3 == 0 {
+			b.WriteByte(',')
+		}
+		b.WriteRune(d)
+	}
+	return currency + " " + b.String() + "." + cents
+}
+
+func loadProjectBilling(database *db.Database, projectID string) (ProjectBilling, error) {
+	billing := ProjectBilling{Currency: defaultBillingCurrency}
+	billing.ProjectID, _ = strconv.Atoi(projectID)
+	err := database.QueryRow("SELECT currency, hourly_rate, bill_to FROM project_billing WHERE project_id = ?", projectID).
+		Scan(&billing.Currency, &billing.HourlyRate, &billing.BillTo)
+	if err == sql.ErrNoRows {
+		return billing, nil
+	}
+	return billing, err
+}
+
+// projectRates are the hourly rates that apply to time on a project
+type projectRates struct {
+	project  *float64
+	people   map[string]float64 // each person's rate on the project
+	defaults map[string]float64 // each person's default rate
+}
+
+func loadProjectRates(database *db.Database, billing ProjectBilling) (projectRates, error) {
+	rates := projectRates{project: billing.HourlyRate, people: map[string]float64{}, defaults: map[string]float64{}}
+	rows, err := database.Query(`
+		SELECT person_id, project_id, hourly_rate FROM billing_rates
+		WHERE project_id IS NULL OR project_id = ?`, billing.ProjectID)
+	if err != nil {
+		return rates, err
+	}
+	defer rows.Close()
+	for rows.Next() {
+		var personID string
+		var projectID sql.NullInt64
+		var rate float64
+		if err := rows.Scan(&personID, &projectID, &rate); err != nil {
+			return rates, err
+		}
+		if projectID.Valid {
+			rates.people[personID] = rate
+		} else {
+			rates.defaults[personID] = rate
+		}
+	}
+	return rates, rows.Err()
+}
+
+// rateFor is the hourly rate of time a person logged on the project, if one is set
+func (r projectRates) rateFor(personID sql.NullString) (float64, bool) {
+	if personID.Valid {
+		if rate, ok := r.people[personID.String]; ok {
+			return rate, true
+		}
+	}
+	if r.project != nil {
+		return *r.project, true
+	}
+	if personID.Valid {
+		if rate, ok := r.defaults[personID.String]; ok {
+			return rate, true
+		}
+	}
+	return 0, false
+}
+
+// loadProjectBillingSummary sums the billing of a project's finished time
+func loadProjectBillingSummary(database *db.Database, projectID string) (ProjectBillingSummary, error) {
+	billing, err := loadProjectBilling(database, projectID)
+	if err != nil {
+		return ProjectBillingSummary{}, err
+	}
+	summary := ProjectBillingSummary{Currency: billing.Currency}
+	rates, err := loadProjectRates(database, billing)
+	if err != nil {
+		return summary, err
+	}
+
+	rows, err := database.Query(`
+		SELECT te.person_id, te.start_time, te.end_time, te.duration_us, te.billable, te.invoice_id
+		FROM time_entries te
+		WHERE te.is_running = 0 AND (
+			(te.entity_type = 'project' AND te.entity_id = ?) OR
+			(te.entity_type = 'task' AND te.entity_id IN (SELECT CAST(id AS TEXT) FROM tasks WHERE project_id = ? AND deleted_at IS NULL)))`,
+		projectID, projectID)
+	if err != nil {
+		return summary, err
+	}
+	defer rows.Close()
+
+	now := time.Now()
+	for rows.Next() {
+		var personID, invoiceID sql.NullString
+		var start time.Time
+		var end sql.NullTime
+		var duration sql.NullInt64
+		var billable bool
+		if err := rows.Scan(&personID, &start, &end, &duration, &billable, &invoiceID); err != nil {
+			return summary, err
+		}
+		us := entryDurationUs(duration, start, end, false, now)
+		switch {
+		case invoiceID.Valid:
+			summary.InvoicedUs += us
+			summary.BillableUs += us
+		case billable:
+			summary.UninvoicedUs += us
+			summary.BillableUs += us
+			if rate, ok := rates.rateFor(personID); ok {
+				summary.UninvoicedAmount += amountFor(us, rate)
+			} else {
+				summary.UnratedUs += us
+			}
+		default:
+			summary.NonBillableUs += us
+		}
+	}
+	if err := rows.Err(); err != nil {
+		return summary, err
+	}
+
+	if err := database.QueryRow("SELECT COALESCE(SUM(total_amount), 0) FROM invoices WHERE project_id = ?", projectID).
+		Scan(&summary.InvoicedAmount); err != nil {
+		return summary, err
+	}
+	summary.UninvoicedAmount = roundMoney(summary.UninvoicedAmount)
+	summary.BillableAmount = roundMoney(summary.InvoicedAmount + summary.UninvoicedAmount)
+	return summary, nil
+}
+
+// draftInvoice bills the project's uninvoiced billable time in the range with a line
+// per task (or the project itself) and person. It returns the invoice, the entries it
+// bills and who logged billable time without a rate.
+func draftInvoice(database *db.Database, projectID string, r reportRange) (Invoice, []string, []string, error) {
+	invoice := Invoice{FromDate: r.From, ToDate: r.To, TimeZone: r.Location.String(), Lines: []InvoiceLine{}}
+	if err := database.QueryRow("SELECT id, name FROM projects WHERE id = ?", projectID).
+		Scan(&invoice.ProjectID, &invoice.ProjectName); err != nil {
+		return invoice, nil, nil, err
+	}
+	billing, err := loadProjectBilling(database, projectID)
+	if err != nil {
+		return invoice, nil, nil, err
+	}
+	invoice.Currency = billing.Currency
+	invoice.BillTo = billing.BillTo
+	rates, err := loadProjectRates(database, billing)
+	if err != nil {
+		return invoice, nil, nil, err
+	}
+
+	entries, err := loadReportEntries(database, r, reportFilters{ProjectIDs: []string{projectID}})
+	if err != nil {
+		return invoice, nil, nil, err
+	}
+
+	type lineKey struct{ entity, person string }
+	index := map[lineKey]int{}
+	missing := map[string]bool{}
+	var entryIDs []string
+	for _, e := range entries {
+		if !e.Billable || e.InvoiceID.Valid || e.IsRunning {
+			continue
+		}
+		key := lineKey{e.EntityType + ":" + e.EntityID, e.PersonID.String}
+		i, ok := index[key]
+		if !ok {
+			line := InvoiceLine{Description: e.TaskTitle.String}
+			if !e.TaskID.Valid {
+				line.Description = e.ProjectName.String + " (general)"
+			}
+			if e.PersonID.Valid {
+				name := e.PersonName.String
+				line.PersonName = &name
+			}
+			rate, rated := rates.rateFor(e.PersonID)
+			if !rated {
+				if line.PersonName != nil {
+					missing[*line.PersonName] = true
+				} else {
+					missing["No person"] = true
+				}
+			}
+			line.HourlyRate = rate
+			invoice.Lines = append(invoice.Lines, line)
+			i = len(invoice.Lines) - 1
+			index[key] = i
+		}
+		invoice.Lines[i].DurationUs += e.DurationUs
+		invoice.EntryCount++
+		entryIDs = append(entryIDs, e.ID)
+	}
+
+	sort.SliceStable(invoice.Lines, func(i, j int) bool {
+		a, b := invoice.Lines[i], invoice.Lines[j]
+		if a.Description != b.Description {
+			return strings.ToLower(a.Description) < strings.ToLower(b.Description)
+		}
+		return a.PersonName != nil && (b.PersonName == nil || *a.PersonName < *b.PersonName)
+	})
+	for i := range invoice.Lines {
+		line := &invoice.Lines[i]
+		line.Amount = roundMoney(amountFor(line.DurationUs, line.HourlyRate))
+		invoice.TotalUs += line.DurationUs
+		invoice.TotalAmount += line.Amount
+	}
+	invoice.TotalAmount = roundMoney(invoice.TotalAmount)
+
+	missingRates := []string{}
+	for name := range missing {
+		missingRates = append(missingRates, name)
+	}
+	sort.Strings(missingRates)
+	return invoice, entryIDs, missingRates, nil
+}
+
+// nextInvoiceNumber is the first unused INV-0001 style number
+func nextInvoiceNumber(tx *sql.Tx) (string, error) {
+	var count int
+	if err := tx.QueryRow("SELECT COUNT(*) FROM invoices").Scan(&count); err != nil {
+		return "", err
+	}
+	for n := count + 1; ; n++ {
+		number := fmt.Sprintf("INV-%04d", n)
+		var exists bool
+		err := tx.QueryRow("SELECT 1 FROM invoices WHERE number = ?", number).Scan(&exists)
+		if err == sql.ErrNoRows {
+			return number, nil
+		}
+		if err != nil {
+			return "", err
+		}
+	}
+}
+
+func scanInvoice(scan func(dest ...interface{}) error) (Invoice, error) {
+	var invoice Invoice
+	err := scan(&invoice.ID, &invoice.ProjectID, &invoice.ProjectName, &invoice.Number, &invoice.FromDate, &invoice.ToDate,
+		&invoice.TimeZone, &invoice.IssueDate, &invoice.DueDate, &invoice.Currency, &invoice.BillTo, &invoice.Notes,
+		&invoice.TotalUs, &invoice.TotalAmount, &invoice.EntryCount, &invoice.CreatedAt)
+	return invoice, err
+}
+
+// loadInvoice reads an invoice with its lines
+func loadInvoice(database *db.Database, id string) (Invoice, error) {
+	invoice, err := scanInvoice(database.QueryRow(`
+		SELECT `+invoiceColumns+` FROM invoices i JOIN projects p ON p.id = i.project_id
+		WHERE i.id = ?`, id).Scan)
+	if err != nil {
+		return invoice, err
+	}
+
+	rows, err := database.Query(`
+		SELECT id, description, person_name, duration_us, hourly_rate, amount
+		FROM invoice_lines WHERE invoice_id = ? ORDER BY position`, id)
+	if err != nil {
+		return invoice, err
+	}
+	defer rows.Close()
+	invoice.Lines = []InvoiceLine{}
+	for rows.Next() {
+		var line InvoiceLine
+		if err := rows.Scan(&line.ID, &line.Description, &line.PersonName, &line.DurationUs, &line.HourlyRate, &line.Amount); err != nil {
+			return invoice, err
+		}
+		invoice.Lines = append(invoice.Lines, line)
+	}
+	return invoice, rows.Err()
+}
+
+// findInvoice loads the invoice of the :id parameter, answering 404 when there is none
+func findInvoice(c *gin.Context, database *db.Database) (Invoice, bool) {
+	invoice, err := loadInvoice(database, c.Param("id"))
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Invoice"))
+		return invoice, false
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("invoice"))
+		return invoice, false
+	}
+	return invoice, true
+}
+
+// optionalText trims a text field, taking blank as not set
+func optionalText(s *string) *string {
+	if s == nil {
+		return nil
+	}
+	trimmed := strings.TrimSpace(*s)
+	if trimmed == "" {
+		return nil
+	}
+	return &trimmed
+}
+
+// ==================== RATES ====================
+
+// GetProjectBilling handles GET /api/projects/:id/billing
+func GetProjectBilling(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	billing, err := loadProjectBilling(database, projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("billing settings"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(billing))
+}
+
+// UpdateProjectBilling handles PUT /api/projects/:id/billing - Set the currency, project rate and bill-to address
+func UpdateProjectBilling(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	var req UpdateProjectBillingRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	currency := strings.ToUpper(strings.TrimSpace(req.Currency))
+	if currency == "" || len(currency) > maxCurrencyUnitLength {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("currency must be 1 to %d characters, e.g. EUR", maxCurrencyUnitLength)))
+		return
+	}
+	if req.HourlyRate != nil && (*req.HourlyRate < 0 || math.IsInf(*req.HourlyRate, 0)) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("hourly_rate must not be negative"))
+		return
+	}
+
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	_, err := database.Exec(`
+		INSERT INTO project_billing (project_id, currency, hourly_rate, bill_to, updated_at)
+		VALUES (?, ?, ?, ?, ?)
+		ON CONFLICT(project_id) DO UPDATE SET
+			currency = excluded.currency, hourly_rate = excluded.hourly_rate,
+			bill_to = excluded.bill_to, updated_at = excluded.updated_at
+	`, projectID, currency, req.HourlyRate, optionalText(req.BillTo), time.Now().Format(time.RFC3339Nano))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("billing settings"))
+		return
+	}
+
+	billing, err := loadProjectBilling(database, projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("billing settings"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(billing))
+}
+
+// GetBillingRates handles GET /api/billing/rates - Everyone's default rates, and their
+// rates on the project of ?project_id= when given
+func GetBillingRates(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	query := `
+		SELECT br.id, br.person_id, p.name, br.project_id, br.hourly_rate
+		FROM billing_rates br
+		JOIN people p ON p.id = br.person_id AND p.deleted_at IS NULL
+		WHERE br.project_id IS NULL`
+	var params []interface{}
+	if projectID := c.Query("project_id"); projectID != "" {
+		query += " OR br.project_id = ?"
+		params = append(params, projectID)
+	}
+
+	rows, err := database.Query(query+" ORDER BY p.name, br.project_id", params...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("billing rates"))
+		return
+	}
+	defer rows.Close()
+
+	rates := []BillingRate{}
+	for rows.Next() {
+		var rate BillingRate
+		if err := rows.Scan(&rate.ID, &rate.PersonID, &rate.PersonName, &rate.ProjectID, &rate.HourlyRate); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("billing rates"))
+			return
+		}
+		rates = append(rates, rate)
+	}
+	if err := rows.Err(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("billing rates"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(rates))
+}
+
+// SetBillingRate handles PUT /api/billing/rates - Set a person's default rate, or their
+// rate on a project with project_id. A null hourly_rate removes the rate.
+func SetBillingRate(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var req SetBillingRateRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+	if req.HourlyRate != nil && (*req.HourlyRate < 0 || math.IsInf(*req.HourlyRate, 0)) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("hourly_rate must not be negative"))
+		return
+	}
+
+	var personName string
+	err := database.QueryRow("SELECT name FROM people WHERE id = ? AND deleted_at IS NULL", req.PersonID).Scan(&personName)
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Person"))
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("person"))
+		return
+	}
+	if req.ProjectID != nil && !projectExists(database, strconv.FormatInt(*req.ProjectID, 10)) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	if req.HourlyRate == nil {
+		if _, err := database.Exec("DELETE FROM billing_rates WHERE person_id = ? AND project_id IS ?", req.PersonID, req.ProjectID); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("billing rate"))
+			return
+		}
+		c.JSON(http.StatusOK, middleware.NewSuccessResponse[*BillingRate](nil))
+		return
+	}
+
+	now := time.Now().Format(time.RFC3339Nano)
+	rate := BillingRate{PersonID: req.PersonID, PersonName: personName, ProjectID: req.ProjectID, HourlyRate: *req.HourlyRate}
+	err = database.QueryRow("SELECT id FROM billing_rates WHERE person_id = ? AND project_id IS ?", req.PersonID, req.ProjectID).Scan(&rate.ID)
+	switch {
+	case err == sql.ErrNoRows:
+		rate.ID = uuid.New().String()
+		_, err = database.Exec(`
+			INSERT INTO billing_rates (id, person_id, project_id, hourly_rate, created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`, rate.ID, req.PersonID, req.ProjectID, rate.HourlyRate, now, now)
+	case err == nil:
+		_, err = database.Exec("UPDATE billing_rates SET hourly_rate = ?, updated_at = ? WHERE id = ?", rate.HourlyRate, now, rate.ID)
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("billing rate"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(&rate))
+}
+
+// ==================== INVOICES ====================
+
+// GetProjectInvoices handles GET /api/projects/:id/invoices - A project's invoices, newest first
+func GetProjectInvoices(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	rows, err := database.Query(`
+		SELECT `+invoiceColumns+` FROM invoices i JOIN projects p ON p.id = i.project_id
+		WHERE i.project_id = ? ORDER BY i.created_at DESC, i.number DESC`, projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("invoices"))
+		return
+	}
+	defer rows.Close()
+
+	invoices := []Invoice{}
+	for rows.Next() {
+		invoice, err := scanInvoice(rows.Scan)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("invoices"))
+			return
+		}
+		invoices = append(invoices, invoice)
+	}
+	if err := rows.Err(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("invoices"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(invoices))
+}
+
+// PreviewProjectInvoice handles GET /api/projects/:id/invoices/preview - The invoice
+// ?from=, ?to= and ?tz= would make, without saving it
+func PreviewProjectInvoice(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	r, msg := parseReportRange(c)
+	if msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	invoice, _, missingRates, err := draftInvoice(database, projectID, r)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("invoice preview"))
+		return
+	}
+	invoice.IssueDate = time.Now().In(r.Location).Format(dateLayout)
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(InvoicePreview{Invoice: invoice, MissingRates: missingRates}))
+}
+
+// CreateProjectInvoice handles POST /api/projects/:id/invoices - Invoice a range of
+// days and lock the entries it bills
+func CreateProjectInvoice(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	var req CreateInvoiceRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+	r, msg := newReportRange(req.From, req.To, req.TZ)
+	if msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+	issueDate := time.Now().In(r.Location).Format(dateLayout)
+	if req.IssueDate != "" {
+		if _, err := time.Parse(dateLayout, req.IssueDate); err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("issue_date must be a date (YYYY-MM-DD)"))
+			return
+		}
+		issueDate = req.IssueDate
+	}
+	dueDate := optionalText(req.DueDate)
+	if dueDate != nil {
+		if _, err := time.Parse(dateLayout, *dueDate); err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("due_date must be a date (YYYY-MM-DD)"))
+			return
+		}
+		if *dueDate < issueDate {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("due_date must not be before issue_date"))
+			return
+		}
+	}
+	number := strings.TrimSpace(req.Number)
+	if len(number) > maxInvoiceNumberLength {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("number must be at most %d characters", maxInvoiceNumberLength)))
+		return
+	}
+
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	invoice, entryIDs, missingRates, err := draftInvoice(database, projectID, r)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+		return
+	}
+	if len(entryIDs) == 0 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("There is no uninvoiced billable time in this range"))
+		return
+	}
+	if len(missingRates) > 0 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(
+			"Set an hourly rate for "+strings.Join(missingRates, ", ")+" before invoicing this time"))
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+		return
+	}
+	defer tx.Rollback()
+
+	if number == "" {
+		if number, err = nextInvoiceNumber(tx); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+			return
+		}
+	} else {
+		var exists bool
+		err := tx.QueryRow("SELECT 1 FROM invoices WHERE number = ?", number).Scan(&exists)
+		if err == nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invoice number %s is already used", number)))
+			return
+		}
+		if err != sql.ErrNoRows {
+			c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+			return
+		}
+	}
+
+	invoice.ID = uuid.New().String()
+	now := time.Now().Format(time.RFC3339Nano)
+	if _, err := tx.Exec(`
+		INSERT INTO invoices (id, project_id, number, from_date, to_date, time_zone, issue_date, due_date,
+		                      currency, bill_to, notes, total_us, total_amount, created_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+	`, invoice.ID, invoice.ProjectID, number, invoice.FromDate, invoice.ToDate, invoice.TimeZone, issueDate, dueDate,
+		invoice.Currency, invoice.BillTo, optionalText(req.Notes), invoice.TotalUs, invoice.TotalAmount, now); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+		return
+	}
+	for i, line := range invoice.Lines {
+		if _, err := tx.Exec(`
+			INSERT INTO invoice_lines (id, invoice_id, position, description, person_name, duration_us, hourly_rate, amount)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+		`, uuid.New().String(), invoice.ID, i, line.Description, line.PersonName, line.DurationUs, line.HourlyRate, line.Amount); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+			return
+		}
+	}
+
+	// An entry invoiced or changed since the draft was read leaves fewer rows to lock
+	in, inParams := sqlInList(entryIDs)
+	res, err := tx.Exec("UPDATE time_entries SET invoice_id = ?, updated_at = ? WHERE invoice_id IS NULL AND billable = 1 AND id IN "+in,
+		append([]interface{}{invoice.ID, now}, inParams...)...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+		return
+	}
+	if locked, err := res.RowsAffected(); err != nil || locked != int64(len(entryIDs)) {
+		c.JSON(http.StatusConflict, middleware.NewErrorResponse("CONFLICT_ERROR", "Time in this range changed while the invoice was made; try again"))
+		return
+	}
+
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("invoice"))
+		return
+	}
+
+	created, err := loadInvoice(database, invoice.ID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("invoice"))
+		return
+	}
+	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(created))
+}
+
+// GetInvoice handles GET /api/invoices/:id
+func GetInvoice(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	invoice, ok := findInvoice(c, database)
+	if !ok {
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(invoice))
+}
+
+// VoidInvoice handles DELETE /api/invoices/:id - Remove an invoice and unlock its entries
+func VoidInvoice(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	invoice, ok := findInvoice(c, database)
+	if !ok {
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("invoice"))
+		return
+	}
+	defer tx.Rollback()
+
+	if _, err := tx.Exec("UPDATE time_entries SET invoice_id = NULL, updated_at = ? WHERE invoice_id = ?",
+		time.Now().Format(time.RFC3339Nano), invoice.ID); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("invoice"))
+		return
+	}
+	if _, err := tx.Exec("DELETE FROM invoices WHERE id = ?", invoice.ID); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("invoice"))
+		return
+	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("invoice"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Invoice voided"}))
+}
+
+// invoiceFilename makes an invoice number safe to download as
+func invoiceFilename(number, ext string) string {
+	safe := strings.Map(func(r rune) rune {
+		if r >= 'a' && r <= 'z' || r >= 'A' && r <= 'Z' || r >= '0' && r <= '9' || r == '-' || r == '_' {
+			return r
+		}
+		return '-'
+	}, number)
+	return "invoice-" + safe + "." + ext
+}
+
+// ExportInvoice handles GET /api/invoices/:id/export - The invoice's lines as CSV
+func ExportInvoice(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	invoice, ok := findInvoice(c, database)
+	if !ok {
+		return
+	}
+
+	money := func(amount float64) string { return strconv.FormatFloat(amount, 'f', 2, 64) }
+	table := [][]interface{}{{"Description", "Person", "Hours", "Rate (" + invoice.Currency + ")", "Amount (" + invoice.Currency + ")"}}
+	for _, line := range invoice.Lines {
+		person := ""
+		if line.PersonName != nil {
+			person = *line.PersonName
+		}
+		table = append(table, []interface{}{line.Description, person, hoursCell(line.DurationUs), money(line.HourlyRate), money(line.Amount)})
+	}
+	table = append(table, []interface{}{"Total", "", hoursCell(invoice.TotalUs), "", money(invoice.TotalAmount)})
+
+	var buf bytes.Buffer
+	if err := writeExportCSV(&buf, table); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewInternalError("Failed to write the export"))
+		return
+	}
+	c.Header("Content-Disposition", fmt.Sprintf("attachment; filename=\"%s\"", invoiceFilename(invoice.Number, "csv")))
+	c.Data(http.StatusOK, "text/csv; charset=utf-8", buf.Bytes())
+}
+
+// invoicePage is the printable invoice; browsers save it as PDF from the print dialog
+var invoicePage = template.Must(template.New("invoice").Funcs(template.FuncMap{
+	"hours": hoursCell,
+	"money": formatMoney,
+}).Parse(`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Invoice {{.Number}}</title>
+<style>
+  @page { size: A4; margin: 18mm; }
+  body { margin: 0; background: #f3f4f6; color: #111827; font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; }
+  .toolbar { max-width: 800px; margin: 24px auto 0; text-align: right; }
+  .toolbar button { padding: 8px 16px; border: 0; border-radius: 6px; background: #3b82f6; color: #fff; font: inherit; cursor: pointer; }
+  .page { max-width: 800px; margin: 16px auto 48px; padding: 48px; background: #fff; box-shadow: 0 1px 3px rgba(0, 0, 0, .1); box-sizing: border-box; }
+  header { display: flex; justify-content: space-between; gap: 32px; margin-bottom: 40px; }
+  h1 { margin: 0; font-size: 28px; }
+  h2 { margin: 0 0 4px; font-size: 12px; text-transform: uppercase; letter-spacing: .05em; color: #6b7280; }
+  dl { display: grid; grid-template-columns: auto auto; gap: 2px 16px; margin: 0; }
+  dt { color: #6b7280; }
+  dd { margin: 0; text-align: right; }
+  .muted { color: #6b7280; margin: 0; }
+  .parties { display: flex; gap: 48px; margin-bottom: 32px; }
+  .pre { white-space: pre-line; margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 12px; color: #6b7280; border-bottom: 2px solid #e5e7eb; padding: 8px 6px; }
+  td { border-bottom: 1px solid #f3f4f6; padding: 8px 6px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+  tfoot td { border-bottom: 0; border-top: 2px solid #e5e7eb; font-weight: 600; }
+  .notes { margin-top: 32px; }
+  @media print {
+    body { background: #fff; }
+    .toolbar { display: none; }
+    .page { max-width: none; margin: 0; padding: 0; box-shadow: none; }
+  }
+</style>
+</head>
+<body>
+<div class="toolbar"><button type="button" onclick="window.print()">Print or save as PDF</button></div>
+<div class="page">
+  <header>
+    <div>
+      <h1>Invoice</h1>
+      <p class="muted">{{.Number}}</p>
+    </div>
+    <dl>
+      <dt>Issued</dt><dd>{{.IssueDate}}</dd>
+      {{with .DueDate}}<dt>Due</dt><dd>{{.}}</dd>{{end}}
+      <dt>Period</dt><dd>{{.FromDate}} to {{.ToDate}}</dd>
+    </dl>
+  </header>
+  <div class="parties">
+    {{with .BillTo}}<div><h2>Bill to</h2><p class="pre">{{.}}</p></div>{{end}}
+    <div><h2>Project</h2><p class="pre">{{.ProjectName}}</p></div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Description</th><th>Person</th><th class="num">Hours</th><th class="num">Rate</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>
+      {{range .Lines}}<tr>
+        <td>{{.Description}}</td>
+        <td>{{with .PersonName}}{{.}}{{end}}</td>
+        <td class="num">{{hours .DurationUs}}</td>
+        <td class="num">{{money .HourlyRate $.Currency}}</td>
+        <td class="num">{{money .Amount $.Currency}}</td>
+      </tr>{{end}}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="2">Total</td><td class="num">{{hours .TotalUs}}</td><td></td><td class="num">{{money .TotalAmount .Currency}}</td></tr>
+    </tfoot>
+  </table>
+  {{with .Notes}}<div class="notes"><h2>Notes</h2><p class="pre">{{.}}</p></div>{{end}}
+</div>
+</body>
+</html>
+`))
+
+// PrintInvoice handles GET /api/invoices/:id/print - The invoice as a printable HTML page
+func PrintInvoice(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	invoice, ok := findInvoice(c, database)
+	if !ok {
+		return
+	}
+
+	var buf bytes.Buffer
+	if err := invoicePage.Execute(&buf, invoice); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewInternalError("Failed to write the invoice"))
+		return
+	}
+	c.Data(http.StatusOK, "text/html; charset=utf-8", buf.Bytes())
+}
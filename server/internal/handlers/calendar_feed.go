@@ -0,0 +1,443 @@
+package handlers
+
+import (
+	"bytes"
+	"database/sql"
+	"fmt"
+	"net/http"
+	"os"
+	"strconv"
+	"strings"
+	"time"
+	"unicode/utf8"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+)
+
+// iCalendar (RFC 5545) feeds of a project's or a person's tasks, for calendar apps to
+// subscribe to or to download as an .ics file. Tasks are all-day events over their
+// dates, or to-dos with ?todos=1. With ?time_entries=1 finished time entries are added
+// as timed events. UIDs come from the IDs and this install's instance ID, so apps
+// update entries instead of adding them again on each refresh, and feeds of two
+// installs never share one.
+
+const (
+	icsDateLayout = "20060102"
+	icsTimeLayout = "20060102T150405Z"
+)
+
+// Task priorities as iCalendar priorities: 1 is the highest, 9 the lowest
+var icsPriorities = map[string]int{"urgent": 1, "high": 3, "medium": 5, "low": 9}
+
+// icsWriter builds an iCalendar document: lines end with CRLF and are folded at 75 octets
+type icsWriter struct {
+	buf bytes.Buffer
+}
+
+func (w *icsWriter) line(name, value string) {
+	content := name + ":" + value
+	limit := 75
+	for len(content) > limit {
+		// Fold between characters, never inside one
+		cut := limit
+		for cut > 0 && !utf8.RuneStart(content[cut]) {
+			cut--
+		}
+		w.buf.WriteString(content[:cut] + "\r\n ")
+		content = content[cut:]
+		limit = 74 // the leading space counts
+	}
+	w.buf.WriteString(content + "\r\n")
+}
+
+// icsText escapes a value of a TEXT property
+func icsText(value string) string {
+	value = strings.ReplaceAll(value, "\r\n", "\n")
+	value = strings.NewReplacer(`\`, `\\`, ";", `\;`, ",", `\,`, "\n", `\n`, "\r", "").Replace(value)
+	return value
+}
+
+// icsStamp formats a stored timestamp in UTC, or now when it can't be read
+func icsStamp(value string) string {
+	for _, layout := range []string{time.RFC3339Nano, "2006-01-02 15:04:05", "2006-01-02T15:04:05"} {
+		if t, err := time.Parse(layout, value); err == nil {
+			return t.UTC().Format(icsTimeLayout)
+		}
+	}
+	return time.Now().UTC().Format(icsTimeLayout)
+}
+
+// taskDay reads the day of a task date, stored as a date or a full timestamp
+func taskDay(value sql.NullString) (time.Time, bool) {
+	if !value.Valid || len(value.String) < len(dateLayout) {
+		return time.Time{}, false
+	}
+	day, err := time.Parse(dateLayout, value.String[:len(dateLayout)])
+	return day, err == nil
+}
+
+// appBaseURL is where the app is reached, for feed entries to link back to their tasks:
+// APP_URL, else the first of ALLOWED_ORIGINS, else the client's local address. Request
+// headers such as X-Forwarded-Host are set by whoever sends the request, so they're not used.
+func appBaseURL() string {
+	if url := strings.TrimSpace(os.Getenv("APP_URL")); url != "" {
+		return strings.TrimRight(url, "/")
+	}
+	for _, origin := range strings.Split(os.Getenv("ALLOWED_ORIGINS"), ",") {
+		if origin = strings.TrimSpace(origin); origin != "" {
+			return strings.TrimRight(origin, "/")
+		}
+	}
+	return "http://localhost:12096"
+}
+
+// loadInstanceID reads the ID made for this install when its database was created
+func loadInstanceID(database *db.Database) (string, error) {
+	var id string
+	err := database.QueryRow("SELECT instance_id FROM app_instance WHERE id = 'default'").Scan(&id)
+	return id, err
+}
+
+// calendarTimeEntry is a finished time entry with what it was logged on
+type calendarTimeEntry struct {
+	ID          string
+	Description sql.NullString
+	StartTime   time.Time
+	EndTime     time.Time
+	UpdatedAt   time.Time
+	TaskID      sql.NullInt64
+	ProjectID   sql.NullInt64
+	Title       sql.NullString // task title or project name
+	PersonName  sql.NullString
+}
+
+// calendarTimeEntryQuery selects finished time entries; callers add the conditions
+const calendarTimeEntryQuery = `
+	SELECT te.id, te.description, te.start_time, te.end_time, te.updated_at,
+	       t.id, COALESCE(t.project_id, pr.id), COALESCE(t.title, pr.name), p.name
+	FROM time_entries te
+	LEFT JOIN tasks t ON te.entity_type = 'task' AND CAST(t.id AS TEXT) = te.entity_id AND t.deleted_at IS NULL
+	LEFT JOIN projects pr ON te.entity_type = 'project' AND CAST(pr.id AS TEXT) = te.entity_id AND pr.deleted_at IS NULL
+	LEFT JOIN people p ON p.id = te.person_id
+	WHERE te.is_running = 0 AND te.end_time IS NOT NULL AND (t.id IS NOT NULL OR pr.id IS NOT NULL)`
+
+func loadCalendarTimeEntries(database *db.Database, condition string, params ...interface{}) ([]calendarTimeEntry, error) {
+	rows, err := database.Query(calendarTimeEntryQuery+" AND "+condition+" ORDER BY te.start_time", params...)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	var entries []calendarTimeEntry
+	for rows.Next() {
+		var e calendarTimeEntry
+		if err := rows.Scan(&e.ID, &e.Description, &e.StartTime, &e.EndTime, &e.UpdatedAt,
+			&e.TaskID, &e.ProjectID, &e.Title, &e.PersonName); err != nil {
+			return nil, err
+		}
+		entries = append(entries, e)
+	}
+	return entries, rows.Err()
+}
+
+func loadCalendarTasks(database *db.Database, condition string, params ...interface{}) ([]Task, error) {
+	rows, err := database.Query(`
+		SELECT t.* FROM tasks t
+		JOIN projects pr ON pr.id = t.project_id AND pr.deleted_at IS NULL
+		WHERE t.deleted_at IS NULL AND `+condition+`
+		ORDER BY t.id`, params...)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	var tasks []Task
+	for rows.Next() {
+		task, err := scanTask(rows)
+		if err != nil {
+			return nil, err
+		}
+		tasks = append(tasks, task)
+	}
+	return tasks, rows.Err()
+}
+
+// calendarFeed is what a feed lists, written by writeCalendarFeed
+type calendarFeed struct {
+	name     string // calendar name shown by apps, and the file name of a download
+	tasks    []Task
+	entries  []calendarTimeEntry
+	asTodos  bool
+	baseURL  string
+	instance string                           // ID of this install, in every UID
+	statuses map[int]map[string]ProjectStatus // by project, then key
+	tags     map[int][]string
+}
+
+func newCalendarFeed(c *gin.Context, database *db.Database, name string, tasks []Task) (*calendarFeed, error) {
+	feed := &calendarFeed{
+		name:     name,
+		tasks:    tasks,
+		asTodos:  c.Query("todos") == "1" || c.Query("todos") == "true",
+		baseURL:  appBaseURL(),
+		statuses: map[int]map[string]ProjectStatus{},
+		tags:     map[int][]string{},
+	}
+	instance, err := loadInstanceID(database)
+	if err != nil {
+		return nil, err
+	}
+	feed.instance = instance
+	for _, task := range tasks {
+		if _, loaded := feed.statuses[task.ProjectID]; loaded {
+			continue
+		}
+		statuses, err := loadProjectStatuses(database, task.ProjectID)
+		if err != nil {
+			return nil, err
+		}
+		byKey := make(map[string]ProjectStatus, len(statuses))
+		for _, s := range statuses {
+			byKey[s.Key] = s
+		}
+		feed.statuses[task.ProjectID] = byKey
+	}
+
+	rows, err := database.Query(`
+		SELECT tt.task_id, tg.name FROM task_tags tt
+		JOIN tags tg ON tg.id = tt.tag_id ORDER BY tg.name`)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+	for rows.Next() {
+		var taskID int
+		var tag string
+		if err := rows.Scan(&taskID, &tag); err != nil {
+			return nil, err
+		}
+		feed.tags[taskID] = append(feed.tags[taskID], tag)
+	}
+	return feed, rows.Err()
+}
+
+func (f *calendarFeed) taskURL(task Task) string {
+	return fmt.Sprintf("%s/projects/%d/calendar?task=%d", f.baseURL, task.ProjectID, task.ID)
+}
+
+// writeTask adds a task as a to-do, or as an event when it has a date
+func (f *calendarFeed) writeTask(w *icsWriter, task Task) {
+	status, known := f.statuses[task.ProjectID][task.Status]
+	statusName := task.Status
+	if known {
+		statusName = status.Name
+	}
+	start, hasStart := taskDay(task.StartDate)
+	due, hasDue := taskDay(task.DueDate)
+	if !hasDue {
+		due, hasDue = taskDay(task.EndDate)
+	}
+	if !f.asTodos && !hasStart && !hasDue {
+		return
+	}
+
+	description := ""
+	if task.Description.Valid && strings.TrimSpace(task.Description.String) != "" {
+		description = strings.TrimSpace(task.Description.String) + "\n\n"
+	}
+	description += fmt.Sprintf("Status: %s\nPriority: %s\n%s", statusName, task.Priority, f.taskURL(task))
+
+	component := "VEVENT"
+	if f.asTodos {
+		component = "VTODO"
+	}
+	w.line("BEGIN", component)
+	w.line("UID", fmt.Sprintf("task-%d@%s.celestask", task.ID, f.instance))
+	w.line("DTSTAMP", icsStamp(task.UpdatedAt))
+	w.line("CREATED", icsStamp(task.CreatedAt))
+	w.line("LAST-MODIFIED", icsStamp(task.UpdatedAt))
+	w.line("SUMMARY", icsText(task.Title))
+	w.line("DESCRIPTION", icsText(description))
+	w.line("URL", f.taskURL(task))
+	if priority, ok := icsPriorities[task.Priority]; ok {
+		w.line("PRIORITY", strconv.Itoa(priority))
+	}
+	if tags := f.tags[task.ID]; len(tags) > 0 {
+		escaped := make([]string, len(tags))
+		for i, tag := range tags {
+			escaped[i] = icsText(tag)
+		}
+		w.line("CATEGORIES", strings.Join(escaped, ","))
+	}
+
+	if f.asTodos {
+		// A to-do is due after it starts, so a start on the due day is left out
+		if hasStart && (!hasDue || start.Before(due)) {
+			w.line("DTSTART;VALUE=DATE", start.Format(icsDateLayout))
+		}
+		if hasDue {
+			w.line("DUE;VALUE=DATE", due.Format(icsDateLayout))
+		}
+		switch {
+		case known && status.Category == "done":
+			w.line("STATUS", "COMPLETED")
+			w.line("COMPLETED", icsStamp(task.UpdatedAt))
+		case known && status.Category == "active":
+			w.line("STATUS", "IN-PROCESS")
+		default:
+			w.line("STATUS", "NEEDS-ACTION")
+		}
+		w.line("PERCENT-COMPLETE", strconv.Itoa(task.ProgressPercent))
+	} else {
+		first, last := start, due
+		if !hasStart {
+			first = due
+		}
+		if !hasDue || last.Before(first) {
+			last = first
+		}
+		// All-day events end the day after their last day
+		w.line("DTSTART;VALUE=DATE", first.Format(icsDateLayout))
+		w.line("DTEND;VALUE=DATE", last.AddDate(0, 0, 1).Format(icsDateLayout))
+		w.line("TRANSP", "TRANSPARENT")
+	}
+	w.line("END", component)
+}
+
+func (f *calendarFeed) writeTimeEntry(w *icsWriter, entry calendarTimeEntry) {
+	description := ""
+	if entry.Description.Valid && strings.TrimSpace(entry.Description.String) != "" {
+		description = strings.TrimSpace(entry.Description.String)
+	}
+	if entry.PersonName.Valid {
+		if description != "" {
+			description += "\n\n"
+		}
+		description += "Logged by " + entry.PersonName.String
+	}
+
+	w.line("BEGIN", "VEVENT")
+	w.line("UID", "time-entry-"+entry.ID+"@"+f.instance+".celestask")
+	w.line("DTSTAMP", entry.UpdatedAt.UTC().Format(icsTimeLayout))
+	w.line("DTSTART", entry.StartTime.UTC().Format(icsTimeLayout))
+	w.line("DTEND", entry.EndTime.UTC().Format(icsTimeLayout))
+	w.line("SUMMARY", icsText(entry.Title.String))
+	if description != "" {
+		w.line("DESCRIPTION", icsText(description))
+	}
+	if entry.TaskID.Valid {
+		w.line("URL", f.taskURL(Task{ID: int(entry.TaskID.Int64), ProjectID: int(entry.ProjectID.Int64)}))
+	}
+	w.line("CATEGORIES", "Time entry")
+	w.line("END", "VEVENT")
+}
+
+// write sends the feed, as a download with ?download=1
+func (f *calendarFeed) write(c *gin.Context) {
+	var w icsWriter
+	w.line("BEGIN", "VCALENDAR")
+	w.line("VERSION", "2.0")
+	w.line("PRODID", "-//Celestask//Celestask//EN")
+	w.line("CALSCALE", "GREGORIAN")
+	w.line("METHOD", "PUBLISH")
+	w.line("X-WR-CALNAME", icsText(f.name))
+	// How often subscribed apps should check for changes
+	w.line("REFRESH-INTERVAL;VALUE=DURATION", "PT15M")
+	w.line("X-PUBLISHED-TTL", "PT15M")
+	for _, task := range f.tasks {
+		f.writeTask(&w, task)
+	}
+	for _, entry := range f.entries {
+		f.writeTimeEntry(&w, entry)
+	}
+	w.line("END", "VCALENDAR")
+
+	if c.Query("download") == "1" || c.Query("download") == "true" {
+		filename := strings.Trim(statusKeyInvalidChars.ReplaceAllString(strings.ToLower(f.name), "-"), "-")
+		if filename == "" {
+			filename = "tasks"
+		}
+		c.Header("Content-Disposition", fmt.Sprintf("attachment; filename=\"%s.ics\"", filename))
+	}
+	c.Data(http.StatusOK, "text/calendar; charset=utf-8", w.buf.Bytes())
+}
+
+func wantsTimeEntries(c *gin.Context) bool {
+	return c.Query("time_entries") == "1" || c.Query("time_entries") == "true"
+}
+
+// GetProjectCalendarFeed handles GET /api/calendar/projects/:id/tasks.ics
+func GetProjectCalendarFeed(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	var name string
+	err := database.QueryRow("SELECT name FROM projects WHERE id = ? AND deleted_at IS NULL", projectID).Scan(&name)
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("project"))
+		return
+	}
+
+	tasks, err := loadCalendarTasks(database, "t.project_id = ?", projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+	feed, err := newCalendarFeed(c, database, name+" (Celestask)", tasks)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+	if wantsTimeEntries(c) {
+		feed.entries, err = loadCalendarTimeEntries(database, "COALESCE(t.project_id, pr.id) = ?", projectID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+			return
+		}
+	}
+	feed.write(c)
+}
+
+// GetPersonCalendarFeed handles GET /api/calendar/people/:id/tasks.ics. It lists the
+// tasks the person is assigned or co-assigned to, across projects.
+func GetPersonCalendarFeed(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	personID := c.Param("id")
+
+	var name string
+	err := database.QueryRow("SELECT name FROM people WHERE id = ? AND deleted_at IS NULL", personID).Scan(&name)
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Person"))
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("person"))
+		return
+	}
+
+	tasks, err := loadCalendarTasks(database,
+		"(t.assignee_id = ? OR t.id IN (SELECT task_id FROM task_assignees WHERE person_id = ?))", personID, personID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+	feed, err := newCalendarFeed(c, database, name+" (Celestask)", tasks)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+	if wantsTimeEntries(c) {
+		feed.entries, err = loadCalendarTimeEntries(database, "te.person_id = ?", personID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+			return
+		}
+	}
+	feed.write(c)
+}
@@ -0,0 +1,554 @@
+package handlers
+
+import (
+	"database/sql"
+	"encoding/json"
+	"fmt"
+	"math"
+	"strconv"
+	"strings"
+	"time"
+	"unicode"
+)
+
+// Formula fields compute a number from a task and its other custom fields, e.g.
+// `estimate * hourly_rate` or `round(days_until_due / 7, 1)`. The expression is kept
+// as the field's only option. Values are calculated when read and never stored.
+//
+// Names refer to the task variables below or, failing that, to a number, currency,
+// rating or checkbox field of the task, case-insensitively with spaces written as
+// underscores. A quoted name ("Hourly rate") always refers to a custom field.
+// A formula has no value when something it uses is empty, or when it divides by zero.
+
+// formulaTaskVariables are the task values a formula can use: estimated, actual and
+// tracked hours, progress in percent, days until the due date (negative when overdue)
+// and days since the task was created
+var formulaTaskVariables = []string{"estimate", "actual", "tracked", "progress", "days_until_due", "days_since_created"}
+
+func isFormulaTaskVariable(name string) bool {
+	for _, variable := range formulaTaskVariables {
+		if variable == name {
+			return true
+		}
+	}
+	return false
+}
+
+// formulaFieldTypes are the custom field types a formula can use
+var formulaFieldTypes = map[string]bool{"number": true, "currency": true, "rating": true, "checkbox": true}
+
+// formulaVars holds the values a formula is evaluated with. A missing name has no value.
+type formulaVars map[string]float64
+
+// formulaExpr evaluates a parsed formula; it reports false when the result has no value
+type formulaExpr func(vars formulaVars) (float64, bool)
+
+// formulaFieldKey is the variable name of a custom field
+func formulaFieldKey(name string) string {
+	return "cf." + strings.ReplaceAll(strings.ToLower(strings.TrimSpace(name)), " ", "_")
+}
+
+// formulaParser is a recursive descent parser for formula expressions
+type formulaParser struct {
+	input string
+	pos   int
+	// refs are the variable names used, to check them against the fields in scope
+	refs []string
+}
+
+// parseFormula parses an expression, returning it and the variable names it uses
+func parseFormula(input string) (formulaExpr, []string, error) {
+	p := &formulaParser{input: input}
+	if strings.TrimSpace(input) == "" {
+		return nil, nil, fmt.Errorf("formula is empty")
+	}
+	expr, err := p.parseSum()
+	if err != nil {
+		return nil, nil, err
+	}
+	p.skipSpace()
+	if p.pos < len(p.input) {
+		return nil, nil, fmt.Errorf("unexpected %q at position %d", p.input[p.pos], p.pos+1)
+	}
+	return expr, p.refs, nil
+}
+
+func (p *formulaParser) skipSpace() {
+	for p.pos < len(p.input) && unicode.IsSpace(rune(p.input[p.pos])) {
+		p.pos++
+	}
+}
+
+// accept consumes ch if it is the next non-space character
+func (p *formulaParser) accept(ch byte) bool {
+	p.skipSpace()
+	if p.pos < len(p.input) && p.input[p.pos] == ch {
+		p.pos++
+		return true
+	}
+	return false
+}
+
+// sum := product (("+" | "-") product)*
+func (p *formulaParser) parseSum() (formulaExpr, error) {
+	left, err := p.parseProduct()
+	if err != nil {
+		return nil, err
+	}
+	for {
+		var op byte
+		switch {
+		case p.accept('+'):
+			op = '+'
+		case p.accept('-'):
+			op = '-'
+		default:
+			return left, nil
+		}
+		right, err := p.parseProduct()
+		if err != nil {
+			return nil, err
+		}
+		left = binaryFormula(left, right, op)
+	}
+}
+
+// product := unary (("*" | "/") unary)*
+func (p *formulaParser) parseProduct() (formulaExpr, error) {
+	left, err := p.parseUnary()
+	if err != nil {
+		return nil, err
+	}
+	for {
+		var op byte
+		switch {
+		case p.accept('*'):
+			op = '*'
+		case p.accept('/'):
+			op = '/'
+		default:
+			return left, nil
+		}
+		right, err := p.parseUnary()
+		if err != nil {
+			return nil, err
+		}
+		left = binaryFormula(left, right, op)
+	}
+}
+
+// unary := "-" unary | primary
+func (p *formulaParser) parseUnary() (formulaExpr, error) {
+	if p.accept('-') {
+		operand, err := p.parseUnary()
+		if err != nil {
+			return nil, err
+		}
+		return func(vars formulaVars) (float64, bool) {
+			v, ok := operand(vars)
+			return -v, ok
+		}, nil
+	}
+	return p.parsePrimary()
+}
+
+// primary := number | name | name "(" arguments ")" | quoted name | "(" sum ")"
+func (p *formulaParser) parsePrimary() (formulaExpr, error) {
+	p.skipSpace()
+	if p.pos >= len(p.input) {
+		return nil, fmt.Errorf("formula ends too early")
+	}
+	start := p.pos
+	ch := p.input[p.pos]
+
+	switch {
+	case ch == '(':
+		p.pos++
+		inner, err := p.parseSum()
+		if err != nil {
+			return nil, err
+		}
+		if !p.accept(')') {
+			return nil, fmt.Errorf("missing ) for the ( at position %d", start+1)
+		}
+		return inner, nil
+
+	case ch == '"':
+		end := strings.IndexByte(p.input[p.pos+1:], '"')
+		if end == -1 {
+			return nil, fmt.Errorf("unclosed quote at position %d", start+1)
+		}
+		name := p.input[p.pos+1 : p.pos+1+end]
+		p.pos += end + 2
+		return p.variable(formulaFieldKey(name)), nil
+
+	case ch == '.' || (ch >= '0' && ch <= '9'):
+		for p.pos < len(p.input) && (p.input[p.pos] == '.' || (p.input[p.pos] >= '0' && p.input[p.pos] <= '9')) {
+			p.pos++
+		}
+		value, err := strconv.ParseFloat(p.input[start:p.pos], 64)
+		if err != nil {
+			return nil, fmt.Errorf("invalid number %q", p.input[start:p.pos])
+		}
+		return func(formulaVars) (float64, bool) { return value, true }, nil
+
+	case ch == '_' || unicode.IsLetter(rune(ch)):
+		for p.pos < len(p.input) && (p.input[p.pos] == '_' || unicode.IsLetter(rune(p.input[p.pos])) || unicode.IsDigit(rune(p.input[p.pos]))) {
+			p.pos++
+		}
+		name := strings.ToLower(p.input[start:p.pos])
+		if p.accept('(') {
+			return p.parseCall(name, start)
+		}
+		if isFormulaTaskVariable(name) {
+			return p.variable(name), nil
+		}
+		return p.variable(formulaFieldKey(name)), nil
+	}
+
+	return nil, fmt.Errorf("unexpected %q at position %d", ch, start+1)
+}
+
+// parseCall parses the arguments of round, min, max or abs after the opening parenthesis
+func (p *formulaParser) parseCall(name string, start int) (formulaExpr, error) {
+	var args []formulaExpr
+	if !p.accept(')') {
+		for {
+			arg, err := p.parseSum()
+			if err != nil {
+				return nil, err
+			}
+			args = append(args, arg)
+			if p.accept(')') {
+				break
+			}
+			if !p.accept(',') {
+				return nil, fmt.Errorf("missing ) for %s( at position %d", name, start+1)
+			}
+		}
+	}
+
+	// Every argument needs a value
+	eval := func(vars formulaVars) ([]float64, bool) {
+		values := make([]float64, len(args))
+		for i, arg := range args {
+			v, ok := arg(vars)
+			if !ok {
+				return nil, false
+			}
+			values[i] = v
+		}
+		return values, true
+	}
+
+	switch name {
+	case "round":
+		if len(args) != 1 && len(args) != 2 {
+			return nil, fmt.Errorf("round takes a number and optionally the digits to keep")
+		}
+		return func(vars formulaVars) (float64, bool) {
+			values, ok := eval(vars)
+			if !ok {
+				return 0, false
+			}
+			scale := 1.0
+			if len(values) == 2 {
+				scale = math.Pow(10, math.Round(values[1]))
+			}
+			return math.Round(values[0]*scale) / scale, true
+		}, nil
+	case "abs":
+		if len(args) != 1 {
+			return nil, fmt.Errorf("abs takes one number")
+		}
+		return func(vars formulaVars) (float64, bool) {
+			values, ok := eval(vars)
+			if !ok {
+				return 0, false
+			}
+			return math.Abs(values[0]), true
+		}, nil
+	case "min", "max":
+		if len(args) == 0 {
+			return nil, fmt.Errorf("%s takes at least one number", name)
+		}
+		pick := math.Min
+		if name == "max" {
+			pick = math.Max
+		}
+		return func(vars formulaVars) (float64, bool) {
+			values, ok := eval(vars)
+			if !ok {
+				return 0, false
+			}
+			result := values[0]
+			for _, v := range values[1:] {
+				result = pick(result, v)
+			}
+			return result, true
+		}, nil
+	}
+	return nil, fmt.Errorf("unknown function %s; use round, min, max or abs", name)
+}
+
+// variable reads a name from the formula's variables
+func (p *formulaParser) variable(key string) formulaExpr {
+	p.refs = append(p.refs, key)
+	return func(vars formulaVars) (float64, bool) {
+		v, ok := vars[key]
+		return v, ok
+	}
+}
+
+func binaryFormula(left, right formulaExpr, op byte) formulaExpr {
+	return func(vars formulaVars) (float64, bool) {
+		a, ok := left(vars)
+		if !ok {
+			return 0, false
+		}
+		b, ok := right(vars)
+		if !ok {
+			return 0, false
+		}
+		switch op {
+		case '+':
+			return a + b, true
+		case '-':
+			return a - b, true
+		case '*':
+			return a * b, true
+		}
+		if b == 0 {
+			return 0, false
+		}
+		return a / b, true
+	}
+}
+
+// formatFormulaValue stores a result like other numbers, without float noise
+func formatFormulaValue(v float64) string {
+	return strconv.FormatFloat(math.Round(v*1e6)/1e6, 'f', -1, 64)
+}
+
+// checkFormulaRefs reports the first name that is neither a task variable nor a
+// formula-compatible custom field visible to a field in projectID (nil for global)
+func checkFormulaRefs(database *sql.DB, refs []string, projectID *int) error {
+	query := "SELECT name, field_type FROM custom_fields WHERE project_id IS NULL"
+	args := []interface{}{}
+	if projectID != nil && *projectID != 0 {
+		query += " OR project_id = ?"
+		args = append(args, *projectID)
+	}
+	rows, err := database.Query(query, args...)
+	if err != nil {
+		return err
+	}
+	defer rows.Close()
+
+	fieldTypes := make(map[string]string)
+	for rows.Next() {
+		var name, fieldType string
+		if err := rows.Scan(&name, &fieldType); err != nil {
+			return err
+		}
+		fieldTypes[formulaFieldKey(name)] = fieldType
+	}
+
+	for _, ref := range refs {
+		if isFormulaTaskVariable(ref) {
+			continue
+		}
+		fieldType, ok := fieldTypes[ref]
+		name := strings.TrimPrefix(ref, "cf.")
+		if !ok {
+			return fmt.Errorf("unknown name %q; use a task value (%s) or a custom field", name, strings.Join(formulaTaskVariables, ", "))
+		}
+		if !formulaFieldTypes[fieldType] {
+			return fmt.Errorf("%q is a %s field; formulas can use number, currency, rating and checkbox fields", name, fieldType)
+		}
+	}
+	return nil
+}
+
+// loadFormulaVars collects the formula variables of tasks. It loads one task when taskID
+// is set, otherwise the tasks of projectID, or every task when projectID is empty.
+func loadFormulaVars(database *sql.DB, taskID int, projectID string) (map[int]formulaVars, error) {
+	where := "t.deleted_at IS NULL"
+	var args []interface{}
+	if taskID != 0 {
+		where += " AND t.id = ?"
+		args = append(args, taskID)
+	} else if projectID != "" {
+		where += " AND t.project_id = ?"
+		args = append(args, projectID)
+	}
+
+	// Today's local date, at midnight UTC like the parsed due dates
+	today, _ := time.Parse(dateLayout, time.Now().Format(dateLayout))
+	result := make(map[int]formulaVars)
+
+	rows, err := database.Query(`
+		SELECT t.id, t.estimated_duration_minutes, t.actual_duration_minutes, t.progress_percent, t.due_date, t.created_at,
+			(SELECT SUM(te.duration_us) FROM time_entries te WHERE te.entity_type = 'task' AND te.entity_id = CAST(t.id AS TEXT) AND te.is_running = 0)
+		FROM tasks t WHERE `+where, args...)
+	if err != nil {
+		return nil, err
+	}
+	for rows.Next() {
+		var id int
+		var estimate, actual, progress, trackedUs sql.NullInt64
+		var dueDate, createdAt sql.NullString
+		if err := rows.Scan(&id, &estimate, &actual, &progress, &dueDate, &createdAt, &trackedUs); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		vars := formulaVars{}
+		if estimate.Valid {
+			vars["estimate"] = float64(estimate.Int64) / 60
+		}
+		if actual.Valid {
+			vars["actual"] = float64(actual.Int64) / 60
+		}
+		vars["tracked"] = float64(trackedUs.Int64) / float64(time.Hour/time.Microsecond)
+		if progress.Valid {
+			vars["progress"] = float64(progress.Int64)
+		}
+		if due, ok := parseFormulaDate(dueDate); ok {
+			vars["days_until_due"] = math.Round(due.Sub(today).Hours() / 24)
+		}
+		if created, ok := parseFormulaDate(createdAt); ok {
+			vars["days_since_created"] = math.Round(today.Sub(created).Hours() / 24)
+		}
+		result[id] = vars
+	}
+	rows.Close()
+	if err := rows.Err(); err != nil {
+		return nil, err
+	}
+
+	// Custom field values the formulas can use
+	rows, err = database.Query(`
+		SELECT v.task_id, f.name, f.field_type, v.value
+		FROM custom_field_values v
+		JOIN custom_fields f ON f.id = v.custom_field_id
+		JOIN tasks t ON t.id = v.task_id
+		WHERE v.value IS NOT NULL AND f.field_type IN ('number', 'currency', 'rating', 'checkbox') AND `+where, args...)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+	for rows.Next() {
+		var id int
+		var name, fieldType, value string
+		if err := rows.Scan(&id, &name, &fieldType, &value); err != nil {
+			return nil, err
+		}
+		vars, ok := result[id]
+		if !ok {
+			continue
+		}
+		if fieldType == "checkbox" {
+			vars[formulaFieldKey(name)] = 0
+			if value == "true" {
+				vars[formulaFieldKey(name)] = 1
+			}
+		} else if v, err := strconv.ParseFloat(value, 64); err == nil {
+			vars[formulaFieldKey(name)] = v
+		}
+	}
+	return result, rows.Err()
+}
+
+// parseFormulaDate reads the date part of a stored date or timestamp
+func parseFormulaDate(value sql.NullString) (time.Time, bool) {
+	if !value.Valid || len(value.String) < len(dateLayout) {
+		return time.Time{}, false
+	}
+	date, err := time.Parse(dateLayout, value.String[:len(dateLayout)])
+	return date, err == nil
+}
+
+// formulaExpression returns a formula field's expression, kept as its only option
+func formulaExpression(options []byte) string {
+	var values []string
+	if err := json.Unmarshal(options, &values); err != nil || len(values) == 0 {
+		return ""
+	}
+	return values[0]
+}
+
+// evaluateFormulaField calculates a formula field for the given tasks, by task ID.
+// Tasks for which the formula has no value are left out.
+func evaluateFormulaField(database *sql.DB, options []byte, taskID int, projectID string) (map[int]string, error) {
+	expr, _, err := parseFormula(formulaExpression(options))
+	if err != nil {
+		// A formula that no longer parses has no values
+		return map[int]string{}, nil
+	}
+	vars, err := loadFormulaVars(database, taskID, projectID)
+	if err != nil {
+		return nil, err
+	}
+	values := make(map[int]string, len(vars))
+	for id, taskVars := range vars {
+		if v, ok := expr(taskVars); ok && !math.IsInf(v, 0) && !math.IsNaN(v) {
+			values[id] = formatFormulaValue(v)
+		}
+	}
+	return values, nil
+}
+
+// taskFormulaValues calculates the formula fields that apply to a task, global ones
+// and those of its project, as values of the task
+func taskFormulaValues(database *sql.DB, taskID string) ([]TaskCustomFieldValue, error) {
+	id, err := strconv.Atoi(taskID)
+	if err != nil {
+		return nil, nil
+	}
+	rows, err := database.Query(`
+		SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.validation, cf.required, cf.sort_order, cf.created_at, cf.updated_at
+		FROM custom_fields cf
+		JOIN tasks t ON t.id = ?
+		WHERE cf.field_type = 'formula' AND (cf.project_id IS NULL OR cf.project_id = t.project_id)
+		ORDER BY cf.sort_order ASC`, id)
+	if err != nil {
+		return nil, err
+	}
+	var fields []CustomField
+	for rows.Next() {
+		var field CustomField
+		var options, validation []byte
+		if err := rows.Scan(&field.ID, &field.Name, &field.FieldType, &field.ProjectID, &options, &validation, &field.Required, &field.SortOrder, &field.CreatedAt, &field.UpdatedAt); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		field.Options = options
+		field.Validation = validation
+		fields = append(fields, field)
+	}
+	rows.Close()
+	if err := rows.Err(); err != nil {
+		return nil, err
+	}
+
+	var values []TaskCustomFieldValue
+	for _, field := range fields {
+		computed, err := evaluateFormulaField(database, field.Options, id, "")
+		if err != nil {
+			return nil, err
+		}
+		value, ok := computed[id]
+		if !ok {
+			continue
+		}
+		values = append(values, TaskCustomFieldValue{
+			TaskID:        id,
+			CustomFieldID: field.ID,
+			Value:         &value,
+			CreatedAt:     field.CreatedAt,
+			UpdatedAt:     field.UpdatedAt,
+			CustomField:   field,
+		})
+	}
+	return values, nil
+}
@@ -0,0 +1,279 @@
+package handlers
+
+import (
+	"database/sql"
+	"encoding/json"
+	"fmt"
+	"net/url"
+	"regexp"
+	"strings"
+	"time"
+	"unicode/utf8"
+
+	"github.com/celestask/server/internal/db"
+)
+
+// CustomFieldRules are the validation rules of a custom field, stored as JSON in
+// custom_fields.validation. Each rule applies to the field types noted beside it.
+type CustomFieldRules struct {
+	Min              *float64 `json:"min,omitempty"`               // number, currency
+	Max              *float64 `json:"max,omitempty"`               // number, currency
+	MinDate          string   `json:"min_date,omitempty"`          // date, YYYY-MM-DD
+	MaxDate          string   `json:"max_date,omitempty"`          // date, YYYY-MM-DD
+	Pattern          string   `json:"pattern,omitempty"`           // text, a regular expression the whole value must match
+	MaxLength        *int     `json:"max_length,omitempty"`        // text, in characters
+	URLSchemes       []string `json:"url_schemes,omitempty"`       // url, e.g. ["https"]
+	RequiredStatuses []string `json:"required_statuses,omitempty"` // any but formula: status keys a task can't be in without a value
+}
+
+var urlSchemePattern = regexp.MustCompile(`^[a-z][a-z0-9+.-]*$`)
+
+// normalizeFieldRules checks the rules sent for a field and returns them as stored,
+// or nil when there are none. Rules that don't apply to the field type are rejected,
+// so a mistake doesn't go unnoticed.
+func normalizeFieldRules(fieldType string, raw json.RawMessage) ([]byte, error) {
+	if len(raw) == 0 || string(raw) == "null" {
+		return nil, nil
+	}
+	var rules CustomFieldRules
+	if err := json.Unmarshal(raw, &rules); err != nil {
+		return nil, fmt.Errorf("Invalid validation rules")
+	}
+
+	isNumeric := fieldType == "number" || fieldType == "currency"
+	if (rules.Min != nil || rules.Max != nil) && !isNumeric {
+		return nil, fmt.Errorf("min and max only apply to number and currency fields")
+	}
+	if rules.Min != nil && rules.Max != nil && *rules.Min > *rules.Max {
+		return nil, fmt.Errorf("min must not be greater than max")
+	}
+
+	if (rules.MinDate != "" || rules.MaxDate != "") && fieldType != "date" {
+		return nil, fmt.Errorf("min_date and max_date only apply to date fields")
+	}
+	for _, date := range []string{rules.MinDate, rules.MaxDate} {
+		if _, err := time.Parse(dateLayout, date); date != "" && err != nil {
+			return nil, fmt.Errorf("min_date and max_date must be dates (YYYY-MM-DD)")
+		}
+	}
+	if rules.MinDate != "" && rules.MaxDate != "" && rules.MinDate > rules.MaxDate {
+		return nil, fmt.Errorf("min_date must not be after max_date")
+	}
+
+	if (rules.Pattern != "" || rules.MaxLength != nil) && fieldType != "text" {
+		return nil, fmt.Errorf("pattern and max_length only apply to text fields")
+	}
+	if rules.Pattern != "" {
+		if _, err := regexp.Compile(rules.Pattern); err != nil {
+			return nil, fmt.Errorf("Invalid pattern: %s", err.Error())
+		}
+	}
+	if rules.MaxLength != nil && *rules.MaxLength < 1 {
+		return nil, fmt.Errorf("max_length must be at least 1")
+	}
+
+	if len(rules.URLSchemes) > 0 && fieldType != "url" {
+		return nil, fmt.Errorf("url_schemes only apply to url fields")
+	}
+	for i, scheme := range rules.URLSchemes {
+		rules.URLSchemes[i] = strings.ToLower(strings.TrimSuffix(strings.TrimSpace(scheme), ":"))
+		if !urlSchemePattern.MatchString(rules.URLSchemes[i]) {
+			return nil, fmt.Errorf("Invalid URL scheme %q", scheme)
+		}
+	}
+
+	if len(rules.RequiredStatuses) > 0 && fieldType == "formula" {
+		return nil, fmt.Errorf("Formula fields are calculated and can't be required")
+	}
+	for _, status := range rules.RequiredStatuses {
+		if strings.TrimSpace(status) == "" {
+			return nil, fmt.Errorf("required_statuses must be status keys")
+		}
+	}
+
+	normalized, err := json.Marshal(rules)
+	if err != nil || string(normalized) == "{}" {
+		return nil, err
+	}
+	return normalized, nil
+}
+
+// parseFieldRules reads stored rules; a field without rules has the zero value
+func parseFieldRules(raw []byte) CustomFieldRules {
+	var rules CustomFieldRules
+	if len(raw) > 0 {
+		json.Unmarshal(raw, &rules)
+	}
+	return rules
+}
+
+// checkFieldValueRules checks a value against the field's rules, after its type has
+// been checked. It returns the message shown next to the field.
+func checkFieldValueRules(field CustomField, value interface{}) error {
+	rules := parseFieldRules(field.Validation)
+
+	switch v := value.(type) {
+	case float64:
+		if rules.Min != nil && v < *rules.Min {
+			return fmt.Errorf("%s must be at least %v", field.Name, *rules.Min)
+		}
+		if rules.Max != nil && v > *rules.Max {
+			return fmt.Errorf("%s must be at most %v", field.Name, *rules.Max)
+		}
+	case string:
+		if v == "" {
+			return nil
+		}
+		switch field.FieldType {
+		case "date":
+			date := v
+			if len(date) > len(dateLayout) {
+				date = date[:len(dateLayout)]
+			}
+			if rules.MinDate != "" && date < rules.MinDate {
+				return fmt.Errorf("%s must be on or after %s", field.Name, rules.MinDate)
+			}
+			if rules.MaxDate != "" && date > rules.MaxDate {
+				return fmt.Errorf("%s must be on or before %s", field.Name, rules.MaxDate)
+			}
+		case "text":
+			if rules.MaxLength != nil && utf8.RuneCountInString(v) > *rules.MaxLength {
+				return fmt.Errorf("%s must be at most %d characters", field.Name, *rules.MaxLength)
+			}
+			if rules.Pattern != "" {
+				// The whole value has to match, not just part of it
+				pattern, err := regexp.Compile(`^(?:` + rules.Pattern + `)$`)
+				if err == nil && !pattern.MatchString(v) {
+					return fmt.Errorf("%s doesn't match the expected format", field.Name)
+				}
+			}
+		case "url":
+			if len(rules.URLSchemes) > 0 {
+				parsed, err := url.Parse(v)
+				scheme := ""
+				if err == nil {
+					scheme = strings.ToLower(parsed.Scheme)
+				}
+				allowed := false
+				for _, s := range rules.URLSchemes {
+					if s == scheme {
+						allowed = true
+						break
+					}
+				}
+				if !allowed {
+					return fmt.Errorf("%s must start with %s://", field.Name, strings.Join(rules.URLSchemes, ":// or "))
+				}
+			}
+		}
+	}
+	return nil
+}
+
+// isEmptyFieldValue reports whether a value sent for a field leaves it empty
+func isEmptyFieldValue(value interface{}) bool {
+	switch v := value.(type) {
+	case nil:
+		return true
+	case string:
+		return strings.TrimSpace(v) == ""
+	case []interface{}:
+		return len(v) == 0
+	}
+	return false
+}
+
+// isEmptyStoredValue is isEmptyFieldValue for a value as stored
+func isEmptyStoredValue(value string) bool {
+	return value == "" || value == "[]"
+}
+
+// isFieldRequiredAt reports whether a task in the given status needs a value of the
+// field: required fields need one in "done" statuses, and any field in the statuses
+// its rules list
+func isFieldRequiredAt(database *db.Database, field CustomField, projectID interface{}, status string) bool {
+	if field.FieldType == "formula" {
+		return false
+	}
+	for _, key := range parseFieldRules(field.Validation).RequiredStatuses {
+		if key == status {
+			return true
+		}
+	}
+	return field.Required && isDoneStatus(database, projectID, status)
+}
+
+// missingRequiredFields lists the names of the fields a task has no value for but
+// needs in the given status
+func missingRequiredFields(database *db.Database, taskID interface{}, projectID interface{}, status string) ([]string, error) {
+	rows, err := database.Query(`
+		SELECT cf.id, cf.name, cf.field_type, cf.validation, cf.required,
+			EXISTS (SELECT 1 FROM custom_field_values v WHERE v.custom_field_id = cf.id AND v.task_id = ? AND COALESCE(v.value, '') NOT IN ('', '[]'))
+		FROM custom_fields cf
+		WHERE cf.project_id IS NULL OR cf.project_id = ?
+		ORDER BY cf.sort_order ASC, cf.created_at ASC`, taskID, projectID)
+	if err != nil {
+		return nil, err
+	}
+	var fields []CustomField
+	for rows.Next() {
+		var field CustomField
+		var validation []byte
+		var hasValue bool
+		if err := rows.Scan(&field.ID, &field.Name, &field.FieldType, &validation, &field.Required, &hasValue); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		if !hasValue {
+			field.Validation = validation
+			fields = append(fields, field)
+		}
+	}
+	rows.Close()
+	if err := rows.Err(); err != nil {
+		return nil, err
+	}
+
+	// Checked after the rows are closed, as isDoneStatus runs its own query
+	var missing []string
+	for _, field := range fields {
+		if isFieldRequiredAt(database, field, projectID, status) {
+			missing = append(missing, field.Name)
+		}
+	}
+	return missing, nil
+}
+
+// checkRequiredFields returns the message for a status change that leaves required
+// fields empty, or "" when the task has every value its new status needs
+func checkRequiredFields(database *db.Database, taskID interface{}, projectID interface{}, status string) (string, error) {
+	missing, err := missingRequiredFields(database, taskID, projectID, status)
+	if err != nil || len(missing) == 0 {
+		return "", err
+	}
+	return fmt.Sprintf("Fill in %s before moving the task to %s", strings.Join(missing, ", "), status), nil
+}
+
+// checkRequiredFieldsForTasks checks a status change of several tasks, as made by a
+// bulk update. Tasks already in the status are skipped.
+func checkRequiredFieldsForTasks(database *db.Database, taskIDs []int, status string) (string, error) {
+	for _, taskID := range taskIDs {
+		var projectID int
+		var current string
+		err := database.QueryRow("SELECT project_id, status FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&projectID, &current)
+		if err == sql.ErrNoRows || (err == nil && current == status) {
+			continue
+		}
+		if err != nil {
+			return "", err
+		}
+		msg, err := checkRequiredFields(database, taskID, projectID, status)
+		if err != nil || msg != "" {
+			if msg != "" {
+				msg = fmt.Sprintf("Task #%d: %s", taskID, msg)
+			}
+			return msg, err
+		}
+	}
+	return "", nil
+}
@@ -3,7 +3,10 @@ package handlers
 import (
 	"database/sql"
 	"encoding/json"
+	"fmt"
+	"math"
 	"net/http"
+	"strings"
 
 	"github.com/celestask/server/internal/db"
 	"github.com/celestask/server/internal/middleware"
@@ -12,7 +15,10 @@ import (
 )
 
 // Valid field types
-var validFieldTypes = []string{"text", "number", "date", "select", "multiselect", "checkbox", "url"}
+var validFieldTypes = db.CustomFieldTypes
+
+// maxCurrencyUnitLength limits the unit of a currency field, e.g. "EUR" or "pts"
+const maxCurrencyUnitLength = 10
 
 // CustomField represents a custom field entity
 type CustomField struct {
@@ -22,6 +28,7 @@ type CustomField struct {
 	ProjectID   *int            `json:"project_id"`
 	ProjectName *string         `json:"project_name"`
 	Options     json.RawMessage `json:"options"`
+	Validation  json.RawMessage `json:"validation"`
 	Required    bool            `json:"required"`
 	SortOrder   int             `json:"sort_order"`
 	CreatedAt   string          `json:"created_at"`
@@ -30,22 +37,30 @@ type CustomField struct {
 
 // CreateCustomFieldRequest represents the request body for creating a custom field
 type CreateCustomFieldRequest struct {
-	Name      string          `json:"name" binding:"required"`
-	FieldType string          `json:"field_type" binding:"required"`
-	ProjectID *int            `json:"project_id"`
-	Options   json.RawMessage `json:"options"`
-	Required  bool            `json:"required"`
-	SortOrder int             `json:"sort_order"`
+	Name       string          `json:"name" binding:"required"`
+	FieldType  string          `json:"field_type" binding:"required"`
+	ProjectID  *int            `json:"project_id"`
+	Options    json.RawMessage `json:"options"`
+	Validation json.RawMessage `json:"validation"`
+	Required   bool            `json:"required"`
+	SortOrder  int             `json:"sort_order"`
 }
 
 // UpdateCustomFieldRequest represents the request body for updating a custom field
 type UpdateCustomFieldRequest struct {
-	Name      *string         `json:"name"`
-	FieldType *string         `json:"field_type"`
-	ProjectID *int            `json:"project_id"`
-	Options   json.RawMessage `json:"options"`
-	Required  *bool           `json:"required"`
-	SortOrder *int            `json:"sort_order"`
+	Name       *string         `json:"name"`
+	FieldType  *string         `json:"field_type"`
+	ProjectID  *int            `json:"project_id"`
+	Options    json.RawMessage `json:"options"`
+	Validation json.RawMessage `json:"validation"` // null removes every rule
+	Required   *bool           `json:"required"`
+	SortOrder  *int            `json:"sort_order"`
+}
+
+// CustomFieldTaskValue is the stored value of a custom field on one task
+type CustomFieldTaskValue struct {
+	TaskID int     `json:"task_id"`
+	Value  *string `json:"value"`
 }
 
 // isValidFieldType checks if the field type is valid
@@ -58,6 +73,93 @@ func isValidFieldType(fieldType string) bool {
 	return false
 }
 
+// invalidFieldTypeMessage lists the valid field types for validation errors
+func invalidFieldTypeMessage() string {
+	return "field_type must be one of: " + strings.Join(validFieldTypes, ", ")
+}
+
+// validateFieldOptions checks the options of field types that keep their settings
+// there: the unit of a currency field and the expression of a formula field, each
+// stored as the only option
+func validateFieldOptions(database *sql.DB, fieldType string, options []byte, projectID *int) error {
+	if fieldType != "currency" && fieldType != "formula" {
+		return nil
+	}
+	var values []string
+	if len(options) > 0 {
+		if err := json.Unmarshal(options, &values); err != nil {
+			return fmt.Errorf("Options must be a list of strings")
+		}
+	}
+	setting := ""
+	if len(values) > 0 {
+		setting = strings.TrimSpace(values[0])
+	}
+
+	if fieldType == "currency" {
+		if setting == "" || len(setting) > maxCurrencyUnitLength {
+			return fmt.Errorf("Currency fields need a unit of at most %d characters as their option", maxCurrencyUnitLength)
+		}
+		return nil
+	}
+
+	if setting == "" {
+		return fmt.Errorf("Formula fields need an expression as their option")
+	}
+	_, refs, err := parseFormula(setting)
+	if err == nil {
+		err = checkFormulaRefs(database, refs, projectID)
+	}
+	if err != nil {
+		return fmt.Errorf("Invalid formula: %s", err.Error())
+	}
+	return nil
+}
+
+// validateTypedFieldValue checks a value of a person, relation, currency or rating
+// field before it is stored. Other types are checked by SetTaskCustomField.
+func validateTypedFieldValue(database *sql.DB, fieldType string, taskID string, value interface{}) error {
+	switch fieldType {
+	case "person":
+		personID, ok := value.(string)
+		if !ok || personID == "" {
+			return fmt.Errorf("Value must be a person ID for person field type")
+		}
+		var exists bool
+		if err := database.QueryRow("SELECT 1 FROM people WHERE id = ? AND deleted_at IS NULL", personID).Scan(&exists); err != nil {
+			return fmt.Errorf("Person not found")
+		}
+	case "relation":
+		ids, ok := value.([]interface{})
+		if !ok {
+			return fmt.Errorf("Value must be an array of task IDs for relation field type")
+		}
+		for _, v := range ids {
+			id, ok := v.(float64)
+			if !ok || id != math.Trunc(id) {
+				return fmt.Errorf("Value must be an array of task IDs for relation field type")
+			}
+			if fmt.Sprintf("%v", id) == taskID {
+				return fmt.Errorf("A task can't be related to itself")
+			}
+			var exists bool
+			if err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", int(id)).Scan(&exists); err != nil {
+				return fmt.Errorf("Related task %v not found", id)
+			}
+		}
+	case "currency":
+		if _, ok := value.(float64); !ok {
+			return fmt.Errorf("Value must be a number for currency field type")
+		}
+	case "rating":
+		rating, ok := value.(float64)
+		if !ok || rating != math.Trunc(rating) || rating < 1 || rating > 5 {
+			return fmt.Errorf("Value must be a whole number from 1 to 5 for rating field type")
+		}
+	}
+	return nil
+}
+
 // GetCustomFields handles GET /api/custom-fields
 // Lists custom fields, optionally filtered by project_id
 func GetCustomFields(c *gin.Context) {
@@ -75,7 +177,7 @@ func GetCustomFields(c *gin.Context) {
 	if projectID != "" {
 		// Get project-specific fields AND global fields (project_id IS NULL)
 		rows, err = database.Query(`
-			SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
+			SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.validation, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
 			FROM custom_fields cf
 			LEFT JOIN projects p ON cf.project_id = p.id
 			WHERE cf.project_id = ? OR cf.project_id IS NULL
@@ -83,7 +185,7 @@ func GetCustomFields(c *gin.Context) {
 		`, projectID)
 	} else {
 		rows, err = database.Query(`
-			SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
+			SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.validation, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
 			FROM custom_fields cf
 			LEFT JOIN projects p ON cf.project_id = p.id
 			ORDER BY cf.sort_order ASC, cf.created_at ASC
@@ -102,6 +204,7 @@ func GetCustomFields(c *gin.Context) {
 		var projectID sql.NullInt64
 		var projectName sql.NullString
 		var options []byte
+		var validation []byte
 		var required int
 
 		err := rows.Scan(
@@ -110,6 +213,7 @@ func GetCustomFields(c *gin.Context) {
 			&field.FieldType,
 			&projectID,
 			&options,
+			&validation,
 			&required,
 			&field.SortOrder,
 			&field.CreatedAt,
@@ -131,6 +235,7 @@ func GetCustomFields(c *gin.Context) {
 		if options != nil {
 			field.Options = options
 		}
+		field.Validation = validation
 		field.Required = required == 1
 
 		fields = append(fields, field)
@@ -159,10 +264,11 @@ func GetCustomField(c *gin.Context) {
 	var projectID sql.NullInt64
 	var projectName sql.NullString
 	var options []byte
+	var validation []byte
 	var required int
 
 	err := database.QueryRow(`
-		SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
+		SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.validation, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
 		FROM custom_fields cf
 		LEFT JOIN projects p ON cf.project_id = p.id
 		WHERE cf.id = ?
@@ -172,6 +278,7 @@ func GetCustomField(c *gin.Context) {
 		&field.FieldType,
 		&projectID,
 		&options,
+		&validation,
 		&required,
 		&field.SortOrder,
 		&field.CreatedAt,
@@ -198,11 +305,93 @@ func GetCustomField(c *gin.Context) {
 	if options != nil {
 		field.Options = options
 	}
+	field.Validation = validation
 	field.Required = required == 1
 
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(field))
 }
 
+// GetCustomFieldValues handles GET /api/custom-fields/:id/values
+// Lists the field's value on every task that has one, optionally filtered by project_id
+func GetCustomFieldValues(c *gin.Context) {
+	database, ok := c.MustGet("database").(*db.Database)
+	if !ok {
+		c.JSON(http.StatusInternalServerError, middleware.NewInternalError("Database not available"))
+		return
+	}
+
+	id := c.Param("id")
+
+	var fieldType string
+	var fieldProjectID sql.NullInt64
+	var fieldOptions []byte
+	err := database.QueryRow("SELECT field_type, project_id, options FROM custom_fields WHERE id = ?", id).Scan(&fieldType, &fieldProjectID, &fieldOptions)
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Custom field"))
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field"))
+		return
+	}
+
+	// Formula values are calculated rather than stored
+	if fieldType == "formula" {
+		projectID := c.Query("project_id")
+		if fieldProjectID.Valid {
+			if projectID != "" && projectID != fmt.Sprintf("%d", fieldProjectID.Int64) {
+				c.JSON(http.StatusOK, middleware.NewSuccessResponse([]CustomFieldTaskValue{}))
+				return
+			}
+			projectID = fmt.Sprintf("%d", fieldProjectID.Int64)
+		}
+		computed, err := evaluateFormulaField(database.DB, fieldOptions, 0, projectID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field values"))
+			return
+		}
+		values := make([]CustomFieldTaskValue, 0, len(computed))
+		for taskID, value := range computed {
+			value := value
+			values = append(values, CustomFieldTaskValue{TaskID: taskID, Value: &value})
+		}
+		c.JSON(http.StatusOK, middleware.NewSuccessResponse(values))
+		return
+	}
+
+	query := `
+		SELECT cfv.task_id, cfv.value
+		FROM custom_field_values cfv
+		JOIN tasks t ON cfv.task_id = t.id
+		WHERE cfv.custom_field_id = ? AND t.deleted_at IS NULL
+	`
+	args := []interface{}{id}
+
+	if projectID := c.Query("project_id"); projectID != "" {
+		query += " AND t.project_id = ?"
+		args = append(args, projectID)
+	}
+
+	rows, err := database.Query(query, args...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field values"))
+		return
+	}
+	defer rows.Close()
+
+	values := []CustomFieldTaskValue{}
+	for rows.Next() {
+		var value CustomFieldTaskValue
+		if err := rows.Scan(&value.TaskID, &value.Value); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field values"))
+			return
+		}
+		values = append(values, value)
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(values))
+}
+
 // CreateCustomField handles POST /api/custom-fields
 // Creates a new custom field
 func CreateCustomField(c *gin.Context) {
@@ -220,7 +409,7 @@ func CreateCustomField(c *gin.Context) {
 
 	// Validate field type
 	if !isValidFieldType(req.FieldType) {
-		c.JSON(http.StatusBadRequest, middleware.NewValidationError("field_type must be one of: text, number, date, select, multiselect, checkbox, url"))
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(invalidFieldTypeMessage()))
 		return
 	}
 
@@ -233,12 +422,24 @@ func CreateCustomField(c *gin.Context) {
 	// Validate project_id if provided
 	if req.ProjectID != nil && *req.ProjectID != 0 {
 		var projExists bool
-		if err := database.QueryRow("SELECT 1 FROM projects WHERE id = ?", *req.ProjectID).Scan(&projExists); err != nil {
+		if err := database.QueryRow("SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL", *req.ProjectID).Scan(&projExists); err != nil {
 			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Project not found"))
 			return
 		}
 	}
 
+	// Validate the unit of currency fields and the expression of formula fields
+	if err := validateFieldOptions(database.DB, req.FieldType, req.Options, req.ProjectID); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	validation, err := normalizeFieldRules(req.FieldType, req.Validation)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
 	id := uuid.New().String()
 	sortOrder := req.SortOrder
 	if sortOrder == 0 {
@@ -250,15 +451,16 @@ func CreateCustomField(c *gin.Context) {
 		options = req.Options
 	}
 
-	_, err := database.Exec(`
-		INSERT INTO custom_fields (id, name, field_type, project_id, options, required, sort_order, created_at, updated_at)
-		VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+	_, err = database.Exec(`
+		INSERT INTO custom_fields (id, name, field_type, project_id, options, validation, required, sort_order, created_at, updated_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
 	`,
 		id,
 		req.Name,
 		req.FieldType,
 		req.ProjectID,
 		options,
+		validation,
 		req.Required,
 		sortOrder,
 	)
@@ -274,7 +476,7 @@ func CreateCustomField(c *gin.Context) {
 	var required int
 
 	err = database.QueryRow(`
-		SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
+		SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.validation, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
 		FROM custom_fields cf
 		LEFT JOIN projects p ON cf.project_id = p.id
 		WHERE cf.id = ?
@@ -284,6 +486,7 @@ func CreateCustomField(c *gin.Context) {
 		&field.FieldType,
 		&projectID,
 		&options,
+		&validation,
 		&required,
 		&field.SortOrder,
 		&field.CreatedAt,
@@ -305,6 +508,7 @@ func CreateCustomField(c *gin.Context) {
 	if options != nil {
 		field.Options = options
 	}
+	field.Validation = validation
 	field.Required = required == 1
 
 	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(field))
@@ -325,10 +529,11 @@ func UpdateCustomField(c *gin.Context) {
 	var existingField CustomField
 	var existingProjectID sql.NullInt64
 	var existingOptions []byte
+	var existingValidation []byte
 	var existingRequired int
 
 	err := database.QueryRow(`
-		SELECT id, name, field_type, project_id, options, required, sort_order
+		SELECT id, name, field_type, project_id, options, validation, required, sort_order
 		FROM custom_fields WHERE id = ?
 	`, id).Scan(
 		&existingField.ID,
@@ -336,6 +541,7 @@ func UpdateCustomField(c *gin.Context) {
 		&existingField.FieldType,
 		&existingProjectID,
 		&existingOptions,
+		&existingValidation,
 		&existingRequired,
 		&existingField.SortOrder,
 	)
@@ -356,7 +562,7 @@ func UpdateCustomField(c *gin.Context) {
 
 	// Validate field_type if provided
 	if req.FieldType != nil && !isValidFieldType(*req.FieldType) {
-		c.JSON(http.StatusBadRequest, middleware.NewValidationError("field_type must be one of: text, number, date, select, multiselect, checkbox, url"))
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(invalidFieldTypeMessage()))
 		return
 	}
 
@@ -378,7 +584,7 @@ func UpdateCustomField(c *gin.Context) {
 		} else {
 			// Validate project exists
 			var projExists bool
-			if err := database.QueryRow("SELECT 1 FROM projects WHERE id = ?", *req.ProjectID).Scan(&projExists); err != nil {
+			if err := database.QueryRow("SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL", *req.ProjectID).Scan(&projExists); err != nil {
 				c.JSON(http.StatusBadRequest, middleware.NewValidationError("Project not found"))
 				return
 			}
@@ -397,6 +603,26 @@ func UpdateCustomField(c *gin.Context) {
 		return
 	}
 
+	var scopeProjectID *int
+	if projectID.Valid {
+		id := int(projectID.Int64)
+		scopeProjectID = &id
+	}
+	if err := validateFieldOptions(database.DB, fieldType, options, scopeProjectID); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	validation := existingValidation
+	if req.Validation != nil {
+		validation = req.Validation
+	}
+	validation, err = normalizeFieldRules(fieldType, validation)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
 	required := existingRequired
 	if req.Required != nil {
 		if *req.Required {
@@ -413,13 +639,14 @@ func UpdateCustomField(c *gin.Context) {
 
 	_, err = database.Exec(`
 		UPDATE custom_fields 
-		SET name = ?, field_type = ?, project_id = ?, options = ?, required = ?, sort_order = ?, updated_at = datetime('now')
+		SET name = ?, field_type = ?, project_id = ?, options = ?, validation = ?, required = ?, sort_order = ?, updated_at = datetime('now')
 		WHERE id = ?
 	`,
 		name,
 		fieldType,
 		projectID,
 		options,
+		validation,
 		required,
 		sortOrder,
 		id,
@@ -434,10 +661,11 @@ func UpdateCustomField(c *gin.Context) {
 	var newProjectID sql.NullInt64
 	var projectName sql.NullString
 	var newOptions []byte
+	var newValidation []byte
 	var newRequired int
 
 	err = database.QueryRow(`
-		SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
+		SELECT cf.id, cf.name, cf.field_type, cf.project_id, cf.options, cf.validation, cf.required, cf.sort_order, cf.created_at, cf.updated_at, p.name as project_name
 		FROM custom_fields cf
 		LEFT JOIN projects p ON cf.project_id = p.id
 		WHERE cf.id = ?
@@ -447,6 +675,7 @@ func UpdateCustomField(c *gin.Context) {
 		&field.FieldType,
 		&newProjectID,
 		&newOptions,
+		&newValidation,
 		&newRequired,
 		&field.SortOrder,
 		&field.CreatedAt,
@@ -468,6 +697,7 @@ func UpdateCustomField(c *gin.Context) {
 	if newOptions != nil {
 		field.Options = newOptions
 	}
+	field.Validation = newValidation
 	field.Required = newRequired == 1
 
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(field))
@@ -0,0 +1,596 @@
+package handlers
+
+import (
+	"bytes"
+	"database/sql"
+	"encoding/csv"
+	"encoding/json"
+	"fmt"
+	"math"
+	"net/http"
+	"sort"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+)
+
+// Headers of the task columns an export can hold; custom fields are added as
+// custom_field:<id> and headed by the field's name
+var taskExportHeaders = map[string]string{
+	"id":           "ID",
+	"title":        "Title",
+	"description":  "Description",
+	"status":       "Status",
+	"priority":     "Priority",
+	"assignee":     "Assignee",
+	"co_assignees": "Co-assignees",
+	"tags":         "Tags",
+	"due_date":     "Due Date",
+	"start_date":   "Start Date",
+	"end_date":     "End Date",
+	"progress":     "Progress (%)",
+	"estimate":     "Estimate (h)",
+	"logged_time":  "Logged Time (h)",
+	"parent":       "Parent Task",
+	"created_at":   "Created",
+	"updated_at":   "Updated",
+}
+
+// Columns exported when none are chosen: those of the list view
+var defaultTaskExportColumns = []string{"title", "status", "priority", "progress", "assignee", "tags", "due_date"}
+
+const customFieldColumnPrefix = "custom_field:"
+
+var priorityWeight = map[string]int{"low": 1, "medium": 2, "high": 3, "urgent": 4}
+
+// taskExportColumn is a column of an export; field is set for custom field columns
+type taskExportColumn struct {
+	key    string
+	header string
+	field  *CustomField
+}
+
+// taskExportData holds what the cells of an export need besides the tasks themselves
+type taskExportData struct {
+	people      map[string]string         // person ID -> name
+	coAssignees map[int][]string          // task ID -> names
+	tags        map[int][]string          // task ID -> tag names
+	loggedUs    map[int]int64             // task ID -> logged microseconds
+	titles      map[int]string            // task ID -> title, of every task
+	fieldValues map[string]map[int]string // custom field ID -> task ID -> stored value
+	options     map[string]map[string]int // custom field ID -> option -> position
+	statusOrder map[int]map[string]int    // project ID -> status key -> position
+	statusNames map[int]map[string]string // project ID -> status key -> name
+}
+
+// ExportTasks handles GET /api/export/tasks - Download the tasks matching the filters
+// of GET /api/tasks as CSV or XLSX. columns picks the columns in order, sort_by and
+// sort_order take the list view's sort keys (see SortHeader.tsx), and format is csv
+// (the default) or xlsx.
+func ExportTasks(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	format := c.DefaultQuery("format", "csv")
+	if format != "csv" && format != "xlsx" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("format must be csv or xlsx"))
+		return
+	}
+
+	query, params, err := taskListQuery(c)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	keys := queryList(c, "columns")
+	if len(keys) == 0 {
+		keys = defaultTaskExportColumns
+	}
+	columns, msg, err := resolveTaskExportColumns(database, keys)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom fields"))
+		return
+	}
+	if msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+
+	rows, err := database.Query(query+" ORDER BY t.created_at DESC", params...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+	var tasks []Task
+	for rows.Next() {
+		task, err := scanTask(rows)
+		if err != nil {
+			rows.Close()
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+			return
+		}
+		tasks = append(tasks, task)
+	}
+	rows.Close()
+
+	var fields []*CustomField
+	for _, column := range columns {
+		if column.field != nil {
+			fields = append(fields, column.field)
+		}
+	}
+	// Sorting by a field that isn't exported needs its values all the same
+	sortBy := c.Query("sort_by")
+	var sortField *CustomField
+	if strings.HasPrefix(sortBy, customFieldColumnPrefix) {
+		sortColumns, msg, err := resolveTaskExportColumns(database, []string{sortBy})
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom fields"))
+			return
+		}
+		if msg != "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+			return
+		}
+		sortField = sortColumns[0].field
+		fields = append(fields, sortField)
+	}
+
+	data, err := loadTaskExportData(database, tasks, fields)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+	sortExportedTasks(tasks, data, sortBy, sortField, c.Query("sort_order") == "desc")
+
+	table := make([][]interface{}, 0, len(tasks)+1)
+	header := make([]interface{}, len(columns))
+	for i, column := range columns {
+		header[i] = column.header
+	}
+	table = append(table, header)
+	for _, task := range tasks {
+		row := make([]interface{}, len(columns))
+		for i, column := range columns {
+			row[i] = data.cell(task, column)
+		}
+		table = append(table, row)
+	}
+
+	var buf bytes.Buffer
+	contentType := "text/csv; charset=utf-8"
+	if format == "xlsx" {
+		contentType = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+		err = writeXLSX(&buf, "Tasks", table)
+	} else {
+		err = writeExportCSV(&buf, table)
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewInternalError("Failed to write the export"))
+		return
+	}
+
+	filename := fmt.Sprintf("celestask-tasks-%s.%s", time.Now().Format(dateLayout), format)
+	c.Header("Content-Disposition", fmt.Sprintf("attachment; filename=\"%s\"", filename))
+	c.Data(http.StatusOK, contentType, buf.Bytes())
+}
+
+// resolveTaskExportColumns checks the chosen columns and looks up their custom fields.
+// It returns the message for a column that doesn't exist, or "" when all of them do.
+func resolveTaskExportColumns(database *db.Database, keys []string) ([]taskExportColumn, string, error) {
+	columns := make([]taskExportColumn, 0, len(keys))
+	for _, key := range keys {
+		fieldID := strings.TrimPrefix(key, customFieldColumnPrefix)
+		if fieldID == key {
+			header, ok := taskExportHeaders[key]
+			if !ok {
+				return nil, fmt.Sprintf("Unknown column %q", key), nil
+			}
+			columns = append(columns, taskExportColumn{key: key, header: header})
+			continue
+		}
+
+		var field CustomField
+		var options []byte
+		var projectID sql.NullInt64
+		err := database.QueryRow("SELECT id, name, field_type, options, project_id FROM custom_fields WHERE id = ?", fieldID).
+			Scan(&field.ID, &field.Name, &field.FieldType, &options, &projectID)
+		if err == sql.ErrNoRows {
+			return nil, fmt.Sprintf("Unknown custom field %q", fieldID), nil
+		}
+		if err != nil {
+			return nil, "", err
+		}
+		field.Options = options
+		if projectID.Valid {
+			id := int(projectID.Int64)
+			field.ProjectID = &id
+		}
+		columns = append(columns, taskExportColumn{key: key, header: field.Name, field: &field})
+	}
+	return columns, "", nil
+}
+
+// loadTaskExportData loads the names, tags, logged time, statuses and values of the
+// given custom fields, with one query per kind rather than per task
+func loadTaskExportData(database *db.Database, tasks []Task, fields []*CustomField) (*taskExportData, error) {
+	data := &taskExportData{
+		people:      map[string]string{},
+		coAssignees: map[int][]string{},
+		tags:        map[int][]string{},
+		loggedUs:    map[int]int64{},
+		titles:      map[int]string{},
+		fieldValues: map[string]map[int]string{},
+		options:     map[string]map[string]int{},
+		statusOrder: map[int]map[string]int{},
+		statusNames: map[int]map[string]string{},
+	}
+
+	scanPairs := func(query string, args []interface{}, each func(key, value string) error) error {
+		rows, err := database.Query(query, args...)
+		if err != nil {
+			return err
+		}
+		defer rows.Close()
+		for rows.Next() {
+			var key string
+			var value sql.NullString
+			if err := rows.Scan(&key, &value); err != nil {
+				return err
+			}
+			if err := each(key, value.String); err != nil {
+				return err
+			}
+		}
+		return rows.Err()
+	}
+	taskKey := func(each func(taskID int, value string)) func(key, value string) error {
+		return func(key, value string) error {
+			taskID, err := strconv.Atoi(key)
+			if err == nil {
+				each(taskID, value)
+			}
+			return nil
+		}
+	}
+
+	if err := scanPairs("SELECT id, name FROM people", nil, func(id, name string) error {
+		data.people[id] = name
+		return nil
+	}); err != nil {
+		return nil, err
+	}
+	if err := scanPairs("SELECT id, title FROM tasks WHERE deleted_at IS NULL", nil, taskKey(func(id int, title string) {
+		data.titles[id] = title
+	})); err != nil {
+		return nil, err
+	}
+	if err := scanPairs(`
+		SELECT ta.task_id, p.name FROM task_assignees ta
+		JOIN people p ON p.id = ta.person_id
+		WHERE p.deleted_at IS NULL ORDER BY p.name`, nil, taskKey(func(id int, name string) {
+		data.coAssignees[id] = append(data.coAssignees[id], name)
+	})); err != nil {
+		return nil, err
+	}
+	if err := scanPairs(`
+		SELECT tt.task_id, tg.name FROM task_tags tt
+		JOIN tags tg ON tg.id = tt.tag_id ORDER BY tg.name`, nil, taskKey(func(id int, name string) {
+		data.tags[id] = append(data.tags[id], name)
+	})); err != nil {
+		return nil, err
+	}
+	// Running timers have no duration yet and count once they stop
+	if err := scanPairs(`
+		SELECT entity_id, SUM(duration_us) FROM time_entries
+		WHERE entity_type = 'task' AND duration_us IS NOT NULL GROUP BY entity_id`, nil, taskKey(func(id int, total string) {
+		data.loggedUs[id], _ = strconv.ParseInt(total, 10, 64)
+	})); err != nil {
+		return nil, err
+	}
+
+	for _, task := range tasks {
+		if _, loaded := data.statusOrder[task.ProjectID]; loaded {
+			continue
+		}
+		statuses, err := loadProjectStatuses(database, task.ProjectID)
+		if err != nil {
+			return nil, err
+		}
+		data.statusOrder[task.ProjectID] = map[string]int{}
+		data.statusNames[task.ProjectID] = map[string]string{}
+		for i, status := range statuses {
+			data.statusOrder[task.ProjectID][status.Key] = i
+			data.statusNames[task.ProjectID][status.Key] = status.Name
+		}
+	}
+
+	for _, field := range fields {
+		if data.fieldValues[field.ID] != nil {
+			continue
+		}
+		var options []string
+		json.Unmarshal(field.Options, &options)
+		data.options[field.ID] = map[string]int{}
+		for i, option := range options {
+			data.options[field.ID][option] = i
+		}
+
+		// Formula values are calculated rather than stored
+		if field.FieldType == "formula" {
+			projectID := ""
+			if field.ProjectID != nil {
+				projectID = strconv.Itoa(*field.ProjectID)
+			}
+			computed, err := evaluateFormulaField(database.DB, field.Options, 0, projectID)
+			if err != nil {
+				return nil, err
+			}
+			data.fieldValues[field.ID] = computed
+			continue
+		}
+		values := map[int]string{}
+		if err := scanPairs("SELECT task_id, value FROM custom_field_values WHERE custom_field_id = ?", []interface{}{field.ID}, taskKey(func(id int, value string) {
+			values[id] = value
+		})); err != nil {
+			return nil, err
+		}
+		data.fieldValues[field.ID] = values
+	}
+	return data, nil
+}
+
+// cell is the value of a task's cell: a string, a float64 for numbers or nil when empty
+func (d *taskExportData) cell(task Task, column taskExportColumn) interface{} {
+	nullText := func(value sql.NullString) interface{} {
+		if !value.Valid || value.String == "" {
+			return nil
+		}
+		return value.String
+	}
+	hours := func(minutes float64) float64 {
+		return math.Round(minutes/60*100) / 100
+	}
+
+	switch column.key {
+	case "id":
+		return task.ID
+	case "title":
+		return task.Title
+	case "description":
+		return nullText(task.Description)
+	case "status":
+		if name, ok := d.statusNames[task.ProjectID][task.Status]; ok {
+			return name
+		}
+		return task.Status
+	case "priority":
+		return task.Priority
+	case "assignee":
+		if !task.AssigneeID.Valid {
+			return nil
+		}
+		return d.people[task.AssigneeID.String]
+	case "co_assignees":
+		return strings.Join(d.coAssignees[task.ID], ", ")
+	case "tags":
+		return strings.Join(d.tags[task.ID], ", ")
+	case "due_date":
+		return nullText(task.DueDate)
+	case "start_date":
+		return nullText(task.StartDate)
+	case "end_date":
+		return nullText(task.EndDate)
+	case "progress":
+		return task.ProgressPercent
+	case "estimate":
+		if !task.EstimatedDurationMinutes.Valid {
+			return nil
+		}
+		return hours(float64(task.EstimatedDurationMinutes.Int64))
+	case "logged_time":
+		if d.loggedUs[task.ID] == 0 {
+			return nil
+		}
+		return hours(float64(d.loggedUs[task.ID]) / float64(time.Minute/time.Microsecond))
+	case "parent":
+		if !task.ParentTaskID.Valid {
+			return nil
+		}
+		return d.titles[int(task.ParentTaskID.Int64)]
+	case "created_at":
+		return task.CreatedAt
+	case "updated_at":
+		return task.UpdatedAt
+	}
+	if column.field != nil {
+		return d.fieldCell(column.field, d.fieldValues[column.field.ID][task.ID])
+	}
+	return nil
+}
+
+// fieldCell shows a stored custom field value as people read it: names rather than
+// IDs, Yes or No for checkboxes, and numbers as numbers
+func (d *taskExportData) fieldCell(field *CustomField, value string) interface{} {
+	if isEmptyStoredValue(value) {
+		return nil
+	}
+	var list []interface{}
+	switch field.FieldType {
+	case "number", "currency", "rating", "formula":
+		if n, err := strconv.ParseFloat(value, 64); err == nil {
+			return n
+		}
+	case "checkbox":
+		if value == "true" {
+			return "Yes"
+		}
+		return "No"
+	case "person":
+		if name, ok := d.people[value]; ok {
+			return name
+		}
+	case "multiselect", "relation":
+		if json.Unmarshal([]byte(value), &list) != nil {
+			return value
+		}
+		names := make([]string, 0, len(list))
+		for _, item := range list {
+			name := fmt.Sprint(item)
+			if field.FieldType == "relation" {
+				id, _ := strconv.Atoi(name)
+				if title, ok := d.titles[id]; ok {
+					name = title
+				} else {
+					name = "#" + name
+				}
+			}
+			names = append(names, name)
+		}
+		return strings.Join(names, ", ")
+	}
+	return value
+}
+
+// sortExportedTasks orders the tasks as the list view does for the same sort key.
+// Unknown keys keep the newest tasks first; tasks without a value of the sort field
+// go last in either order.
+func sortExportedTasks(tasks []Task, d *taskExportData, sortBy string, sortField *CustomField, desc bool) {
+	statusWeight := func(t Task) int {
+		if weight, ok := d.statusOrder[t.ProjectID][t.Status]; ok {
+			return weight
+		}
+		return len(d.statusOrder[t.ProjectID])
+	}
+	compare := func(a, b Task) int {
+		switch sortBy {
+		case "rank":
+			if diff := statusWeight(a) - statusWeight(b); diff != 0 {
+				return diff
+			}
+			if a.Rank != b.Rank {
+				return compareFloats(a.Rank, b.Rank)
+			}
+			return a.ID - b.ID
+		case "title":
+			return strings.Compare(strings.ToLower(a.Title), strings.ToLower(b.Title))
+		case "status":
+			return statusWeight(a) - statusWeight(b)
+		case "priority":
+			return priorityWeight[a.Priority] - priorityWeight[b.Priority]
+		case "due_date":
+			// Tasks without a due date go to the end
+			switch {
+			case !a.DueDate.Valid && !b.DueDate.Valid:
+				return 0
+			case !a.DueDate.Valid:
+				return 1
+			case !b.DueDate.Valid:
+				return -1
+			}
+			return strings.Compare(a.DueDate.String, b.DueDate.String)
+		case "created_at":
+			return strings.Compare(a.CreatedAt, b.CreatedAt)
+		}
+		return 0
+	}
+	if sortBy != "rank" && sortBy != "title" && sortBy != "status" && sortBy != "priority" &&
+		sortBy != "due_date" && sortBy != "created_at" && sortField == nil {
+		return
+	}
+
+	sort.SliceStable(tasks, func(i, j int) bool {
+		a, b := tasks[i], tasks[j]
+		if sortField != nil {
+			av := d.fieldValues[sortField.ID][a.ID]
+			bv := d.fieldValues[sortField.ID][b.ID]
+			if isEmptyStoredValue(av) || isEmptyStoredValue(bv) {
+				return !isEmptyStoredValue(av) && isEmptyStoredValue(bv)
+			}
+			diff := d.compareFieldValues(sortField, av, bv)
+			if desc {
+				return diff > 0
+			}
+			return diff < 0
+		}
+		diff := compare(a, b)
+		if desc {
+			return diff > 0
+		}
+		return diff < 0
+	})
+}
+
+// compareFieldValues compares two stored values of a field: numbers by value, options
+// by their position, people by name and anything else as text
+func (d *taskExportData) compareFieldValues(field *CustomField, a, b string) int {
+	switch field.FieldType {
+	case "number", "currency", "rating", "formula":
+		an, _ := strconv.ParseFloat(a, 64)
+		bn, _ := strconv.ParseFloat(b, 64)
+		return compareFloats(an, bn)
+	case "select":
+		if diff := d.optionPosition(field, a) - d.optionPosition(field, b); diff != 0 {
+			return diff
+		}
+	case "person":
+		return strings.Compare(strings.ToLower(d.people[a]), strings.ToLower(d.people[b]))
+	}
+	return strings.Compare(strings.ToLower(a), strings.ToLower(b))
+}
+
+func (d *taskExportData) optionPosition(field *CustomField, option string) int {
+	if position, ok := d.options[field.ID][option]; ok {
+		return position
+	}
+	return len(d.options[field.ID])
+}
+
+func compareFloats(a, b float64) int {
+	switch {
+	case a < b:
+		return -1
+	case a > b:
+		return 1
+	}
+	return 0
+}
+
+// csvText quotes text that a spreadsheet app would run as a formula
+// (starting with =, +, -, @, tab or carriage return) with a leading '
+func csvText(s string) string {
+	if s != "" && strings.ContainsRune("=+-@\t\r", rune(s[0])) {
+		return "'" + s
+	}
+	return s
+}
+
+// writeExportCSV writes the cells as CSV, starting with a byte order mark so
+// spreadsheet apps read the file as UTF-8
+func writeExportCSV(buf *bytes.Buffer, table [][]interface{}) error {
+	buf.WriteString("\uFEFF")
+	w := csv.NewWriter(buf)
+	for _, row := range table {
+		record := make([]string, len(row))
+		for i, value := range row {
+			switch v := value.(type) {
+			case nil:
+			case float64:
+				record[i] = strconv.FormatFloat(v, 'f', -1, 64)
+			case string:
+				record[i] = csvText(v)
+			default:
+				record[i] = fmt.Sprint(v)
+			}
+		}
+		if err := w.Write(record); err != nil {
+			return err
+		}
+	}
+	w.Flush()
+	return w.Error()
+}
@@ -0,0 +1,23 @@
+package handlers
+
+import (
+	"bytes"
+	"testing"
+)
+
+func TestWriteExportCSVQuotesFormulas(t *testing.T) {
+	table := [][]interface{}{
+		{"=HYPERLINK(\"http://x\")", "+1", "-2", "@SUM(A1)", "\tx", "\rx"},
+		{"Fix login", "", nil, -2.5, 3, "a=b"},
+	}
+	var buf bytes.Buffer
+	if err := writeExportCSV(&buf, table); err != nil {
+		t.Fatal(err)
+	}
+	want := "\uFEFF" +
+		"\"'=HYPERLINK(\"\"http://x\"\")\",'+1,'-2,'@SUM(A1),'\tx,\"'\rx\"\n" +
+		"Fix login,,,-2.5,3,a=b\n"
+	if got := buf.String(); got != want {
+		t.Errorf("writeExportCSV() = %q, want %q", got, want)
+	}
+}
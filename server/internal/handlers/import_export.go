@@ -29,6 +29,7 @@ var tableNames = []string{
 	"notes",
 	"task_assignees",
 	"task_tags",
+	"task_dependencies",
 	"project_assignees",
 	"custom_fields",
 	"custom_field_values",
@@ -36,25 +37,40 @@ var tableNames = []string{
 	"time_entries",
 	"pomodoro_settings",
 	"pomodoro_sessions",
+	"time_tracking_settings",
+	"activity_log",
+	"project_statuses",
+	"project_billing",
+	"billing_rates",
+	"invoices",
+	"invoice_lines",
 }
 
 // tableColumns defines the allowed columns for each table to prevent SQL injection.
 // Only columns listed here can be used in import INSERT statements.
 var tableColumns = map[string]map[string]struct{}{
-	"projects": {"id": {}, "name": {}, "description": {}, "color": {}, "parent_project_id": {}, "owner_id": {}, "created_at": {}, "updated_at": {}},
-	"tasks":    {"id": {}, "project_id": {}, "parent_task_id": {}, "title": {}, "description": {}, "status": {}, "priority": {}, "assignee_id": {}, "due_date": {}, "start_date": {}, "end_date": {}, "progress_percent": {}, "estimated_duration_minutes": {}, "actual_duration_minutes": {}, "created_at": {}, "updated_at": {}},
-	"people":   {"id": {}, "name": {}, "email": {}, "company": {}, "designation": {}, "project_id": {}, "created_at": {}, "updated_at": {}},
+	"projects": {"id": {}, "name": {}, "description": {}, "color": {}, "parent_project_id": {}, "owner_id": {}, "created_at": {}, "updated_at": {}, "deleted_at": {}},
+	"tasks":    {"id": {}, "project_id": {}, "parent_task_id": {}, "title": {}, "description": {}, "status": {}, "priority": {}, "assignee_id": {}, "due_date": {}, "start_date": {}, "end_date": {}, "progress_percent": {}, "estimated_duration_minutes": {}, "actual_duration_minutes": {}, "created_at": {}, "updated_at": {}, "recurrence": {}, "deleted_at": {}, "rank": {}},
+	"people":   {"id": {}, "name": {}, "email": {}, "company": {}, "designation": {}, "project_id": {}, "created_at": {}, "updated_at": {}, "deleted_at": {}},
 	"tags":     {"id": {}, "name": {}, "color": {}, "project_id": {}, "created_at": {}, "updated_at": {}},
-	"notes":    {"id": {}, "content": {}, "entity_type": {}, "entity_id": {}, "created_at": {}, "updated_at": {}},
+	"notes":    {"id": {}, "content": {}, "entity_type": {}, "entity_id": {}, "created_at": {}, "updated_at": {}, "deleted_at": {}},
 	"task_assignees":     {"id": {}, "task_id": {}, "person_id": {}, "role": {}, "created_at": {}},
 	"task_tags":          {"id": {}, "task_id": {}, "tag_id": {}, "created_at": {}},
+	"task_dependencies":  {"id": {}, "blocking_task_id": {}, "blocked_task_id": {}, "dependency_type": {}, "created_at": {}},
 	"project_assignees":  {"id": {}, "project_id": {}, "person_id": {}, "role": {}, "created_at": {}},
-	"custom_fields":      {"id": {}, "name": {}, "field_type": {}, "project_id": {}, "options": {}, "required": {}, "sort_order": {}, "created_at": {}, "updated_at": {}},
+	"custom_fields":      {"id": {}, "name": {}, "field_type": {}, "project_id": {}, "options": {}, "required": {}, "sort_order": {}, "created_at": {}, "updated_at": {}, "validation": {}},
 	"custom_field_values": {"id": {}, "task_id": {}, "custom_field_id": {}, "value": {}, "created_at": {}, "updated_at": {}},
-	"saved_views":    {"id": {}, "name": {}, "view_type": {}, "project_id": {}, "filters": {}, "sort_by": {}, "sort_order": {}, "is_default": {}, "created_at": {}, "updated_at": {}},
-	"time_entries":   {"id": {}, "entity_type": {}, "entity_id": {}, "person_id": {}, "description": {}, "start_time": {}, "end_time": {}, "duration_us": {}, "is_running": {}, "created_at": {}, "updated_at": {}},
-	"pomodoro_settings": {"id": {}, "work_duration": {}, "short_break_duration": {}, "long_break_duration": {}, "sessions_until_long_break": {}, "daily_goal": {}, "auto_start_breaks": {}, "auto_start_work": {}, "created_at": {}, "updated_at": {}},
+	"saved_views":    {"id": {}, "name": {}, "view_type": {}, "project_id": {}, "filters": {}, "sort_by": {}, "sort_order": {}, "is_default": {}, "created_at": {}, "updated_at": {}, "settings": {}},
+	"time_entries":   {"id": {}, "entity_type": {}, "entity_id": {}, "person_id": {}, "description": {}, "start_time": {}, "end_time": {}, "duration_us": {}, "is_running": {}, "created_at": {}, "updated_at": {}, "billable": {}, "invoice_id": {}, "pomodoro_session_id": {}},
+	"pomodoro_settings": {"id": {}, "work_duration": {}, "short_break_duration": {}, "long_break_duration": {}, "sessions_until_long_break": {}, "daily_goal": {}, "auto_start_breaks": {}, "auto_start_work": {}, "created_at": {}, "updated_at": {}, "log_time_entries": {}, "log_interrupted": {}},
 	"pomodoro_sessions":  {"id": {}, "session_type": {}, "started_at": {}, "ended_at": {}, "elapsed_us": {}, "completed": {}, "task_id": {}, "created_at": {}},
+	"time_tracking_settings": {"id": {}, "rounding_minutes": {}, "rounding_mode": {}, "overlap_mode": {}, "idle_minutes": {}, "created_at": {}, "updated_at": {}},
+	"activity_log":       {"id": {}, "entity_type": {}, "entity_id": {}, "entity_name": {}, "project_id": {}, "action": {}, "field": {}, "old_value": {}, "new_value": {}, "created_at": {}},
+	"project_statuses":   {"id": {}, "project_id": {}, "key": {}, "name": {}, "color": {}, "category": {}, "position": {}, "created_at": {}, "updated_at": {}},
+	"project_billing":    {"project_id": {}, "currency": {}, "hourly_rate": {}, "bill_to": {}, "updated_at": {}},
+	"billing_rates":      {"id": {}, "person_id": {}, "project_id": {}, "hourly_rate": {}, "created_at": {}, "updated_at": {}},
+	"invoices":           {"id": {}, "project_id": {}, "number": {}, "from_date": {}, "to_date": {}, "time_zone": {}, "issue_date": {}, "due_date": {}, "currency": {}, "bill_to": {}, "notes": {}, "total_us": {}, "total_amount": {}, "created_at": {}},
+	"invoice_lines":      {"id": {}, "invoice_id": {}, "position": {}, "description": {}, "person_name": {}, "duration_us": {}, "hourly_rate": {}, "amount": {}},
 }
 
 // ExportPayload is the JSON shape the client expects for export/import.
@@ -307,9 +323,10 @@ func performSyncImport(database *db.Database, payload ExportPayload, mode string
 	if mode == "replace" {
 		// Clear all tables in reverse dependency order
 		clearOrder := []string{
-			"pomodoro_sessions", "pomodoro_settings", "time_entries",
+			"invoice_lines", "invoices", "billing_rates", "project_billing",
+			"project_statuses", "activity_log", "pomodoro_sessions", "pomodoro_settings", "time_tracking_settings", "time_entries",
 			"saved_views", "custom_field_values", "custom_fields",
-			"project_assignees", "task_tags", "task_assignees",
+			"project_assignees", "task_dependencies", "task_tags", "task_assignees",
 			"notes", "tags", "people", "tasks", "projects",
 		}
 		for _, t := range clearOrder {
@@ -322,11 +339,12 @@ func performSyncImport(database *db.Database, payload ExportPayload, mode string
 
 	// Import in dependency order
 	importOrder := []string{
-		"projects", "people", "tags", "tasks", "notes",
-		"task_assignees", "task_tags", "project_assignees",
+		"projects", "project_statuses", "people", "tags", "tasks", "notes",
+		"task_assignees", "task_tags", "task_dependencies", "project_assignees",
 		"custom_fields", "custom_field_values",
 		"saved_views", "time_entries",
-		"pomodoro_settings", "pomodoro_sessions",
+		"pomodoro_settings", "pomodoro_sessions", "time_tracking_settings", "activity_log",
+		"project_billing", "billing_rates", "invoices", "invoice_lines",
 	}
 
 	var errorDetails []ImportErrorDetail
@@ -347,6 +365,19 @@ func performSyncImport(database *db.Database, payload ExportPayload, mode string
 		return nil, fmt.Errorf("failed to commit transaction: %v", err)
 	}
 
+	// Exports from before per-project statuses carry none; give those projects the defaults
+	if err := db.SeedDefaultStatuses(database); err != nil {
+		return nil, fmt.Errorf("failed to seed project statuses: %v", err)
+	}
+
+	// Same for task ranks, which older exports don't have
+	if err := db.BackfillTaskRanks(database); err != nil {
+		return nil, fmt.Errorf("failed to rank tasks: %v", err)
+	}
+	if err := db.MigrateSavedViewFilters(database); err != nil {
+		return nil, fmt.Errorf("failed to migrate saved view filters: %v", err)
+	}
+
 	// Aggregate totals
 	for _, s := range result.Summary {
 		result.Totals.Imported += s.Imported
@@ -0,0 +1,682 @@
+package handlers
+
+import (
+	"database/sql"
+	"encoding/json"
+	"fmt"
+	"net/http"
+	"regexp"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// maxImportTaskRows limits the rows of a single task import
+const maxImportTaskRows = 5000
+
+// TaskImportRow is one task of a spreadsheet import, with its cells mapped to task
+// fields. Values are the text of the cells; the server reads them into their types.
+type TaskImportRow struct {
+	Title        string            `json:"title"`
+	Description  string            `json:"description"`
+	Status       string            `json:"status"`   // status key or name
+	Priority     string            `json:"priority"` // low, medium, high or urgent
+	DueDate      string            `json:"due_date"`
+	StartDate    string            `json:"start_date"`
+	EndDate      string            `json:"end_date"`
+	Estimate     string            `json:"estimate"` // minutes, or e.g. "1h30m"
+	Progress     string            `json:"progress"` // percent
+	Assignees    []string          `json:"assignees"`
+	Tags         []string          `json:"tags"`
+	Parent       string            `json:"parent"`        // title of a task in the import or the project, or "#<id>"
+	CustomFields map[string]string `json:"custom_fields"` // by field ID
+	Ref          string            `json:"ref"`           // the row's ID in the tool it comes from
+	ParentRef    string            `json:"parent_ref"`    // ref of the row it is nested under; takes precedence over parent
+	Notes        []string          `json:"notes"`         // comments, added as notes of the task
+}
+
+// TaskImportRequest represents the request body for importing tasks into a project
+type TaskImportRequest struct {
+	ProjectID int             `json:"project_id"`
+	DryRun    bool            `json:"dry_run"`
+	Rows      []TaskImportRow `json:"rows"`
+	// CreatePeople adds assignees that match nobody as new people, instead of
+	// leaving them out
+	CreatePeople bool `json:"create_people"`
+}
+
+// TaskImportRowResult reports what happened to a row, or would happen in a dry run.
+// Rows with errors are skipped; warnings name the parts of a row that were left out.
+type TaskImportRowResult struct {
+	Row      int      `json:"row"` // 1-based position in rows
+	Ref      string   `json:"ref,omitempty"`
+	Title    string   `json:"title"`
+	TaskID   int64    `json:"task_id,omitempty"`
+	Skipped  bool     `json:"skipped"`
+	Errors   []string `json:"errors,omitempty"`
+	Warnings []string `json:"warnings,omitempty"`
+}
+
+// TaskImportResult is returned by a task import
+type TaskImportResult struct {
+	DryRun    bool                  `json:"dry_run"`
+	Created   int                   `json:"created"`
+	Skipped   int                   `json:"skipped"`
+	NewTags   []string              `json:"new_tags"`
+	NewPeople []string              `json:"new_people"`
+	Rows      []TaskImportRowResult `json:"rows"`
+	// Summary counts the records of each table, in the shape of a JSON import's
+	Summary map[string]ImportTableSummary `json:"summary"`
+}
+
+var importDateLayouts = []string{dateLayout, "2006/01/02", time.RFC3339, "2006-01-02 15:04:05", "2006-01-02T15:04:05"}
+
+var importTaskRefPattern = regexp.MustCompile(`^#(\d+)$`)
+
+// parseImportDate reads a date cell into YYYY-MM-DD
+func parseImportDate(value string) (string, error) {
+	for _, layout := range importDateLayouts {
+		if date, err := time.Parse(layout, value); err == nil {
+			return date.Format(dateLayout), nil
+		}
+	}
+	return "", fmt.Errorf("%q is not a date (YYYY-MM-DD)", value)
+}
+
+// parseImportNumber reads a number cell, ignoring thousands separators and a unit
+// such as "$" or "EUR" before or after the amount
+func parseImportNumber(value string) (float64, error) {
+	cleaned := strings.ReplaceAll(value, ",", "")
+	cleaned = strings.TrimFunc(cleaned, func(r rune) bool {
+		return !(r >= '0' && r <= '9') && r != '-' && r != '.'
+	})
+	n, err := strconv.ParseFloat(cleaned, 64)
+	if err != nil {
+		return 0, fmt.Errorf("%q is not a number", value)
+	}
+	return n, nil
+}
+
+// taskImporter resolves the names used in an import against the project
+type taskImporter struct {
+	database  *db.Database
+	projectID int
+	statuses  []ProjectStatus
+	people    map[string]string // lowercase name and email → person ID
+	tags      map[string]string // lowercase name → tag ID
+	fields    map[string]CustomField
+
+	createPeople bool
+	newTags      []string
+	newPeople    []string
+	notes        int
+	values       int
+	valueErrors  int
+}
+
+func newTaskImporter(database *db.Database, projectID int) (*taskImporter, error) {
+	imp := &taskImporter{
+		database:  database,
+		projectID: projectID,
+		people:    make(map[string]string),
+		tags:      make(map[string]string),
+		fields:    make(map[string]CustomField),
+	}
+
+	statuses, err := loadProjectStatuses(database, projectID)
+	if err != nil {
+		return nil, err
+	}
+	imp.statuses = statuses
+
+	rows, err := database.Query("SELECT id, name, COALESCE(email, '') FROM people WHERE deleted_at IS NULL")
+	if err != nil {
+		return nil, err
+	}
+	for rows.Next() {
+		var id, name, email string
+		if err := rows.Scan(&id, &name, &email); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		imp.people[strings.ToLower(strings.TrimSpace(name))] = id
+		if email != "" {
+			imp.people[strings.ToLower(strings.TrimSpace(email))] = id
+		}
+	}
+	rows.Close()
+
+	rows, err = database.Query("SELECT id, name FROM tags WHERE project_id IS NULL OR project_id = ?", projectID)
+	if err != nil {
+		return nil, err
+	}
+	for rows.Next() {
+		var id, name string
+		if err := rows.Scan(&id, &name); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		imp.tags[strings.ToLower(strings.TrimSpace(name))] = id
+	}
+	rows.Close()
+
+	rows, err = database.Query(`
+		SELECT id, name, field_type, options, validation, required
+		FROM custom_fields WHERE project_id IS NULL OR project_id = ?`, projectID)
+	if err != nil {
+		return nil, err
+	}
+	for rows.Next() {
+		var field CustomField
+		var options, validation []byte
+		if err := rows.Scan(&field.ID, &field.Name, &field.FieldType, &options, &validation, &field.Required); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		field.Options = options
+		field.Validation = validation
+		imp.fields[field.ID] = field
+	}
+	rows.Close()
+	return imp, rows.Err()
+}
+
+// status finds a status of the project by key or name
+func (imp *taskImporter) status(value string) (string, error) {
+	if value == "" {
+		return defaultTaskStatus(imp.database, imp.projectID)
+	}
+	keys := make([]string, len(imp.statuses))
+	for i, s := range imp.statuses {
+		if strings.EqualFold(s.Key, value) || strings.EqualFold(s.Name, value) {
+			return s.Key, nil
+		}
+		keys[i] = s.Key
+	}
+	return "", fmt.Errorf("Unknown status %q. Must be one of: %s", value, strings.Join(keys, ", "))
+}
+
+// fieldValue reads a cell into the value a custom field stores, in the shape
+// SetTaskCustomField accepts
+func (imp *taskImporter) fieldValue(field CustomField, raw string) (interface{}, error) {
+	var options []string
+	json.Unmarshal(field.Options, &options)
+	matchOption := func(value string) (string, error) {
+		for _, opt := range options {
+			if strings.EqualFold(opt, value) {
+				return opt, nil
+			}
+		}
+		return "", fmt.Errorf("%q is not an option of %s", value, field.Name)
+	}
+
+	switch field.FieldType {
+	case "number", "currency", "rating":
+		return parseImportNumber(raw)
+	case "checkbox":
+		switch strings.ToLower(raw) {
+		case "true", "yes", "y", "1", "x", "checked":
+			return true, nil
+		case "false", "no", "n", "0", "unchecked":
+			return false, nil
+		}
+		return nil, fmt.Errorf("%q is not yes or no", raw)
+	case "date":
+		return parseImportDate(raw)
+	case "select":
+		return matchOption(raw)
+	case "multiselect":
+		values := []interface{}{}
+		for _, part := range splitImportList(raw) {
+			opt, err := matchOption(part)
+			if err != nil {
+				return nil, err
+			}
+			values = append(values, opt)
+		}
+		return values, nil
+	case "person":
+		personID, ok := imp.people[strings.ToLower(raw)]
+		if !ok {
+			return nil, fmt.Errorf("No person named %q", raw)
+		}
+		return personID, nil
+	case "relation":
+		ids := []interface{}{}
+		for _, part := range splitImportList(raw) {
+			id, err := strconv.Atoi(strings.TrimPrefix(part, "#"))
+			if err != nil {
+				return nil, fmt.Errorf("%q is not a task ID", part)
+			}
+			ids = append(ids, float64(id))
+		}
+		return ids, nil
+	}
+	return raw, nil
+}
+
+// splitImportList splits a cell listing several values, separated by commas or semicolons
+func splitImportList(value string) []string {
+	var parts []string
+	for _, part := range strings.FieldsFunc(value, func(r rune) bool { return r == ',' || r == ';' }) {
+		if part = strings.TrimSpace(part); part != "" {
+			parts = append(parts, part)
+		}
+	}
+	return parts
+}
+
+// storedFieldValue serializes a custom field value as SetTaskCustomField stores it
+func storedFieldValue(value interface{}) string {
+	switch v := value.(type) {
+	case bool:
+		return strconv.FormatBool(v)
+	case float64:
+		return fmt.Sprintf("%v", v)
+	case string:
+		return v
+	case []interface{}:
+		b, _ := json.Marshal(v)
+		return string(b)
+	}
+	return fmt.Sprintf("%v", value)
+}
+
+// PostImportTasks handles POST /api/import/tasks - Create tasks from spreadsheet rows.
+// With dry_run the import runs in a transaction that is rolled back, so the result
+// shows exactly what would be created.
+func PostImportTasks(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var req TaskImportRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+	if req.ProjectID == 0 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Project ID is required"))
+		return
+	}
+	if len(req.Rows) == 0 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("There are no rows to import"))
+		return
+	}
+	if len(req.Rows) > maxImportTaskRows {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("At most %d rows can be imported at once", maxImportTaskRows)))
+		return
+	}
+
+	var projectExists bool
+	if err := database.QueryRow("SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL", req.ProjectID).Scan(&projectExists); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Project not found"))
+		return
+	}
+
+	// Reject a second concurrent import
+	if !importMu.TryLock() {
+		c.JSON(http.StatusConflict, middleware.NewErrorResponse("IMPORT_IN_PROGRESS", "Another import is already running"))
+		return
+	}
+	defer importMu.Unlock()
+
+	imp, err := newTaskImporter(database, req.ProjectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("project data"))
+		return
+	}
+	imp.createPeople = req.CreatePeople
+
+	result, created, err := imp.run(req.Rows, req.DryRun)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewErrorResponse(
+			middleware.CodeInternalError,
+			fmt.Sprintf("Import failed: %v", err),
+		))
+		return
+	}
+
+	// Logged once the transaction is committed, as the log is written outside it
+	for _, row := range created {
+		logActivity(database, "task", row.TaskID, row.Title, req.ProjectID, "created", nil)
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(result))
+}
+
+// run imports the rows in one transaction, committed unless dryRun is set, and
+// returns the result along with the rows that created tasks
+func (imp *taskImporter) run(rows []TaskImportRow, dryRun bool) (*TaskImportResult, []TaskImportRowResult, error) {
+	result := &TaskImportResult{DryRun: dryRun, NewTags: []string{}, NewPeople: []string{}, Rows: make([]TaskImportRowResult, len(rows))}
+
+	tx, err := imp.database.Begin()
+	if err != nil {
+		return nil, nil, err
+	}
+	defer tx.Rollback()
+
+	// Tasks are created first and nested afterwards, so a row may name a parent
+	// that comes later in the file
+	titles := make(map[string]int64)
+	refs := make(map[string]int64)
+	for i, row := range rows {
+		res := &result.Rows[i]
+		res.Row = i + 1
+		res.Ref = strings.TrimSpace(row.Ref)
+		res.Title = strings.TrimSpace(row.Title)
+
+		taskID, err := imp.createTask(tx, row, res)
+		if err != nil {
+			return nil, nil, err
+		}
+		if res.Skipped {
+			result.Skipped++
+			continue
+		}
+		res.TaskID = taskID
+		result.Created++
+		if _, seen := titles[strings.ToLower(res.Title)]; !seen {
+			titles[strings.ToLower(res.Title)] = taskID
+		}
+		if res.Ref != "" {
+			refs[res.Ref] = taskID
+		}
+	}
+
+	parentOf := make(map[int64]int64)
+	for i, row := range rows {
+		res := &result.Rows[i]
+		parent := strings.TrimSpace(row.Parent)
+		parentRef := strings.TrimSpace(row.ParentRef)
+		if res.Skipped || (parent == "" && parentRef == "") {
+			continue
+		}
+		var parentID int64
+		if parentRef != "" {
+			parentID = refs[parentRef]
+			parent = parentRef
+		} else if parentID, err = imp.resolveParent(tx, parent, titles); err != nil {
+			return nil, nil, err
+		}
+		if parentID == 0 {
+			res.Warnings = append(res.Warnings, fmt.Sprintf("No task %q to nest it under", parent))
+			continue
+		}
+		if createsCycle(parentOf, res.TaskID, parentID) {
+			res.Warnings = append(res.Warnings, fmt.Sprintf("Not nested under %q, which is nested under it", parent))
+			continue
+		}
+		parentOf[res.TaskID] = parentID
+		if _, err := tx.Exec("UPDATE tasks SET parent_task_id = ? WHERE id = ?", parentID, res.TaskID); err != nil {
+			return nil, nil, err
+		}
+	}
+
+	result.NewTags = append(result.NewTags, imp.newTags...)
+	result.NewPeople = append(result.NewPeople, imp.newPeople...)
+	result.Summary = map[string]ImportTableSummary{
+		"tasks":               {Imported: result.Created, Errors: result.Skipped},
+		"tags":                {Imported: len(imp.newTags)},
+		"people":              {Imported: len(imp.newPeople)},
+		"notes":               {Imported: imp.notes},
+		"custom_field_values": {Imported: imp.values, Errors: imp.valueErrors},
+	}
+
+	var created []TaskImportRowResult
+	for _, res := range result.Rows {
+		if !res.Skipped {
+			created = append(created, res)
+		}
+	}
+	if dryRun {
+		return result, nil, nil
+	}
+	if err := tx.Commit(); err != nil {
+		return nil, nil, err
+	}
+	return result, created, nil
+}
+
+// createTask validates a row and creates its task. Problems that make the row
+// unusable mark it skipped; anything else is left out with a warning.
+func (imp *taskImporter) createTask(tx *sql.Tx, row TaskImportRow, res *TaskImportRowResult) (int64, error) {
+	if res.Title == "" {
+		res.Errors = append(res.Errors, "Task title is required")
+	}
+
+	status, err := imp.status(strings.TrimSpace(row.Status))
+	if err != nil {
+		res.Errors = append(res.Errors, err.Error())
+	}
+
+	priority := "medium"
+	if p := strings.ToLower(strings.TrimSpace(row.Priority)); p != "" {
+		if isValidPriority(p) {
+			priority = p
+		} else {
+			res.Errors = append(res.Errors, fmt.Sprintf("Invalid priority %q. Must be one of: %s", row.Priority, strings.Join(ValidPriorities, ", ")))
+		}
+	}
+
+	dates := make([]string, 3)
+	for i, value := range []string{row.DueDate, row.StartDate, row.EndDate} {
+		if value = strings.TrimSpace(value); value == "" {
+			continue
+		}
+		date, err := parseImportDate(value)
+		if err != nil {
+			res.Errors = append(res.Errors, err.Error())
+		}
+		dates[i] = date
+	}
+
+	estimate := 0
+	if value := strings.TrimSpace(row.Estimate); value != "" {
+		if n, err := strconv.Atoi(value); err == nil && n >= 0 {
+			estimate = n
+		} else if minutes, ok := parseQueryMinutes(strings.ReplaceAll(value, " ", "")); ok {
+			estimate = minutes
+		} else {
+			res.Errors = append(res.Errors, fmt.Sprintf("%q is not an estimate (minutes, or e.g. 1h30m)", value))
+		}
+	}
+
+	progress := 0
+	if value := strings.TrimSpace(strings.TrimSuffix(strings.TrimSpace(row.Progress), "%")); value != "" {
+		n, err := strconv.ParseFloat(value, 64)
+		if err != nil || n < 0 || n > 100 {
+			res.Errors = append(res.Errors, fmt.Sprintf("%q is not a progress from 0 to 100", row.Progress))
+		}
+		progress = int(n)
+	}
+
+	if len(res.Errors) > 0 {
+		res.Skipped = true
+		return 0, nil
+	}
+
+	// Assignees are matched by name or email; the first is the task's assignee
+	var personIDs []string
+	for _, name := range row.Assignees {
+		if name = strings.TrimSpace(name); name == "" {
+			continue
+		}
+		id, ok := imp.people[strings.ToLower(name)]
+		if !ok && imp.createPeople {
+			var err error
+			if id, err = imp.createPerson(tx, name); err != nil {
+				return 0, err
+			}
+			ok = true
+		}
+		if ok {
+			personIDs = append(personIDs, id)
+		} else {
+			res.Warnings = append(res.Warnings, fmt.Sprintf("No person named %q to assign", name))
+		}
+	}
+	var assigneeID string
+	if len(personIDs) > 0 {
+		assigneeID = personIDs[0]
+	}
+
+	result, err := tx.Exec(`
+		INSERT INTO tasks (
+			project_id, title, description, status, priority,
+			due_date, start_date, end_date, assignee_id,
+			progress_percent, estimated_duration_minutes, rank
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, `+nextRankSQL+`)`,
+		imp.projectID,
+		res.Title,
+		nullString(strings.TrimSpace(row.Description)),
+		status,
+		priority,
+		nullString(dates[0]),
+		nullString(dates[1]),
+		nullString(dates[2]),
+		nullString(assigneeID),
+		progress,
+		nullInt(estimate),
+		imp.projectID,
+		status,
+	)
+	if err != nil {
+		return 0, err
+	}
+	taskID, _ := result.LastInsertId()
+
+	seenPeople := map[string]bool{assigneeID: true}
+	for _, personID := range personIDs {
+		if seenPeople[personID] {
+			continue
+		}
+		seenPeople[personID] = true
+		if _, err := tx.Exec("INSERT INTO task_assignees (id, task_id, person_id, role) VALUES (?, ?, ?, ?)", uuid.New().String(), taskID, personID, "collaborator"); err != nil {
+			return 0, err
+		}
+	}
+
+	// Tags are matched by name, and created in the project when there is none
+	seenTags := make(map[string]bool)
+	for _, name := range row.Tags {
+		name = strings.TrimSpace(name)
+		key := strings.ToLower(name)
+		if name == "" || seenTags[key] {
+			continue
+		}
+		seenTags[key] = true
+		tagID, ok := imp.tags[key]
+		if !ok {
+			tagID = uuid.New().String()
+			if _, err := tx.Exec("INSERT INTO tags (id, name, project_id) VALUES (?, ?, ?)", tagID, name, imp.projectID); err != nil {
+				return 0, err
+			}
+			imp.tags[key] = tagID
+			imp.newTags = append(imp.newTags, name)
+		}
+		if _, err := tx.Exec("INSERT INTO task_tags (id, task_id, tag_id) VALUES (?, ?, ?)", uuid.New().String(), taskID, tagID); err != nil {
+			return 0, err
+		}
+	}
+
+	filled := make(map[string]bool)
+	for fieldID, raw := range row.CustomFields {
+		if raw = strings.TrimSpace(raw); raw == "" {
+			continue
+		}
+		field, ok := imp.fields[fieldID]
+		if !ok || field.FieldType == "formula" {
+			res.Warnings = append(res.Warnings, fmt.Sprintf("Custom field %s can't be set in this project", fieldID))
+			continue
+		}
+		value, err := imp.fieldValue(field, raw)
+		if err == nil {
+			err = validateTypedFieldValue(imp.database.DB, field.FieldType, fmt.Sprint(taskID), value)
+		}
+		if err == nil {
+			err = checkFieldValueRules(field, value)
+		}
+		if err != nil {
+			res.Warnings = append(res.Warnings, fmt.Sprintf("%s left empty: %s", field.Name, err.Error()))
+			imp.valueErrors++
+			continue
+		}
+		if _, err := tx.Exec("INSERT INTO custom_field_values (id, task_id, custom_field_id, value) VALUES (?, ?, ?, ?)",
+			uuid.New().String(), taskID, fieldID, storedFieldValue(value)); err != nil {
+			return 0, err
+		}
+		filled[fieldID] = true
+		imp.values++
+	}
+
+	for _, field := range imp.fields {
+		if !filled[field.ID] && isFieldRequiredAt(imp.database, field, imp.projectID, status) {
+			res.Warnings = append(res.Warnings, fmt.Sprintf("%s is empty, though the task's status requires it", field.Name))
+		}
+	}
+
+	for _, note := range row.Notes {
+		if note = strings.TrimSpace(note); note == "" {
+			continue
+		}
+		if _, err := tx.Exec("INSERT INTO notes (id, content, entity_type, entity_id) VALUES (?, ?, ?, ?)",
+			uuid.New().String(), note, "task", fmt.Sprint(taskID)); err != nil {
+			return 0, err
+		}
+		imp.notes++
+	}
+
+	return taskID, nil
+}
+
+// createPerson adds someone an import assigns but nobody matches. An email address
+// is kept as the email, with the part before the @ as the name.
+func (imp *taskImporter) createPerson(tx *sql.Tx, value string) (string, error) {
+	name, email := value, ""
+	if at := strings.Index(value, "@"); at > 0 && !strings.ContainsAny(value, " \t") {
+		name, email = value[:at], value
+	}
+	id := uuid.New().String()
+	if _, err := tx.Exec("INSERT INTO people (id, name, email) VALUES (?, ?, ?)", id, name, nullString(email)); err != nil {
+		return "", err
+	}
+	imp.people[strings.ToLower(value)] = id
+	imp.people[strings.ToLower(name)] = id
+	imp.newPeople = append(imp.newPeople, name)
+	return id, nil
+}
+
+// resolveParent finds the task a row is nested under: "#<id>" names a task of the
+// project, anything else the title of a task in the import or, failing that, the project.
+// It returns 0 when there is no such task.
+func (imp *taskImporter) resolveParent(tx *sql.Tx, parent string, titles map[string]int64) (int64, error) {
+	query := "SELECT id FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND title = ? COLLATE NOCASE ORDER BY id LIMIT 1"
+	arg := interface{}(parent)
+	if m := importTaskRefPattern.FindStringSubmatch(parent); m != nil {
+		query = "SELECT id FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND id = ?"
+		arg = m[1]
+	} else if id, ok := titles[strings.ToLower(parent)]; ok {
+		return id, nil
+	}
+	var id int64
+	err := tx.QueryRow(query, imp.projectID, arg).Scan(&id)
+	if err == sql.ErrNoRows {
+		return 0, nil
+	}
+	return id, err
+}
+
+// createsCycle reports whether nesting task under parent would make it its own ancestor
+func createsCycle(parentOf map[int64]int64, task, parent int64) bool {
+	for id, steps := parent, 0; id != 0 && steps <= len(parentOf); steps++ {
+		if id == task {
+			return true
+		}
+		id = parentOf[id]
+	}
+	return false
+}
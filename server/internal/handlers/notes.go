@@ -74,7 +74,7 @@ func GetNotes(c *gin.Context) {
 		rows, err = database.Query(`
 			SELECT id, content, entity_type, entity_id, created_at, updated_at 
 			FROM notes 
-			WHERE entity_type = ? AND entity_id = ? 
+			WHERE entity_type = ? AND entity_id = ? AND deleted_at IS NULL
 			ORDER BY created_at DESC
 		`, entityType, entityID)
 	} else if entityType != "" || entityID != "" {
@@ -86,6 +86,7 @@ func GetNotes(c *gin.Context) {
 		rows, err = database.Query(`
 			SELECT id, content, entity_type, entity_id, created_at, updated_at 
 			FROM notes 
+			WHERE deleted_at IS NULL
 			ORDER BY created_at DESC
 		`)
 	}
@@ -135,7 +136,7 @@ func GetNote(c *gin.Context) {
 	err := database.QueryRow(`
 		SELECT id, content, entity_type, entity_id, created_at, updated_at 
 		FROM notes 
-		WHERE id = ?
+		WHERE id = ? AND deleted_at IS NULL
 	`, id).Scan(&note.ID, &note.Content, &note.EntityType, &note.EntityID, &note.CreatedAt, &note.UpdatedAt)
 
 	if err == sql.ErrNoRows {
@@ -201,7 +202,7 @@ func CreateNote(c *gin.Context) {
 	// Validate that the referenced entity exists
 	table := entityTables[req.EntityType]
 	var count int
-	err := database.QueryRow(fmt.Sprintf("SELECT 1 FROM %s WHERE id = ?", table), req.EntityID).Scan(&count)
+	err := database.QueryRow(fmt.Sprintf("SELECT 1 FROM %s WHERE id = ? AND deleted_at IS NULL", table), req.EntityID).Scan(&count)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusBadRequest, middleware.NewValidationError(
 			fmt.Sprintf("%s with id %s not found", req.EntityType, req.EntityID)))
@@ -231,7 +232,7 @@ func CreateNote(c *gin.Context) {
 	err = database.QueryRow(`
 		SELECT id, content, entity_type, entity_id, created_at, updated_at 
 		FROM notes 
-		WHERE id = ?
+		WHERE id = ? AND deleted_at IS NULL
 	`, noteID).Scan(&note.ID, &note.Content, &note.EntityType, &note.EntityID, &note.CreatedAt, &note.UpdatedAt)
 
 	if err != nil {
@@ -270,7 +271,7 @@ func UpdateNote(c *gin.Context) {
 
 	// Check if note exists
 	var count int
-	err := database.QueryRow("SELECT 1 FROM notes WHERE id = ?", id).Scan(&count)
+	err := database.QueryRow("SELECT 1 FROM notes WHERE id = ? AND deleted_at IS NULL", id).Scan(&count)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Note"))
 		return
@@ -317,7 +318,7 @@ func UpdateNote(c *gin.Context) {
 	err = database.QueryRow(`
 		SELECT id, content, entity_type, entity_id, created_at, updated_at 
 		FROM notes 
-		WHERE id = ?
+		WHERE id = ? AND deleted_at IS NULL
 	`, id).Scan(&note.ID, &note.Content, &note.EntityType, &note.EntityID, &note.CreatedAt, &note.UpdatedAt)
 
 	if err != nil {
@@ -328,7 +329,7 @@ func UpdateNote(c *gin.Context) {
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(note))
 }
 
-// DeleteNote deletes a note
+// DeleteNote moves a note to the trash
 // DELETE /api/notes/:id
 func DeleteNote(c *gin.Context) {
 	databaseIface, exists := c.Get("database")
@@ -351,7 +352,7 @@ func DeleteNote(c *gin.Context) {
 
 	// Check if note exists
 	var count int
-	err := database.QueryRow("SELECT 1 FROM notes WHERE id = ?", id).Scan(&count)
+	err := database.QueryRow("SELECT 1 FROM notes WHERE id = ? AND deleted_at IS NULL", id).Scan(&count)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Note"))
 		return
@@ -361,12 +362,12 @@ func DeleteNote(c *gin.Context) {
 		return
 	}
 
-	// Delete the note
-	_, err = database.Exec("DELETE FROM notes WHERE id = ?", id)
+	// Move the note to the trash
+	_, err = database.Exec("UPDATE notes SET deleted_at = ? WHERE id = ?", trashTimestamp(), id)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("note"))
 		return
 	}
 
-	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Note deleted successfully"}))
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Note moved to trash"}))
 }
@@ -61,10 +61,10 @@ func GetPeople(c *gin.Context) {
 	var args []interface{}
 
 	if projectID != "" {
-		query = "SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE project_id = ? ORDER BY created_at DESC"
+		query = "SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE project_id = ? AND deleted_at IS NULL ORDER BY created_at DESC"
 		args = append(args, projectID)
 	} else {
-		query = "SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people ORDER BY created_at DESC"
+		query = "SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE deleted_at IS NULL ORDER BY created_at DESC"
 	}
 
 	rows, err := database.Query(query, args...)
@@ -109,7 +109,7 @@ func GetPerson(c *gin.Context) {
 
 	var p Person
 	err := database.QueryRow(
-		"SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE id = ?",
+		"SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE id = ? AND deleted_at IS NULL",
 		id,
 	).Scan(&p.ID, &p.Name, &p.Email, &p.Company, &p.Designation, &p.ProjectID, &p.CreatedAt, &p.UpdatedAt)
 
@@ -155,7 +155,7 @@ func CreatePerson(c *gin.Context) {
 	// Validate project_id if provided
 	if req.ProjectID != nil {
 		var count int
-		err := database.QueryRow("SELECT COUNT(*) FROM projects WHERE id = ?", *req.ProjectID).Scan(&count)
+		err := database.QueryRow("SELECT COUNT(*) FROM projects WHERE id = ? AND deleted_at IS NULL", *req.ProjectID).Scan(&count)
 		if err != nil || count == 0 {
 			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Project not found"))
 			return
@@ -200,7 +200,7 @@ func CreatePerson(c *gin.Context) {
 
 	var p Person
 	err = database.QueryRow(
-		"SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE id = ?",
+		"SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE id = ? AND deleted_at IS NULL",
 		id,
 	).Scan(&p.ID, &p.Name, &p.Email, &p.Company, &p.Designation, &p.ProjectID, &p.CreatedAt, &p.UpdatedAt)
 
@@ -230,7 +230,7 @@ func UpdatePerson(c *gin.Context) {
 
 	// Check if person exists
 	var existsCheck int
-	err := database.QueryRow("SELECT COUNT(*) FROM people WHERE id = ?", id).Scan(&existsCheck)
+	err := database.QueryRow("SELECT COUNT(*) FROM people WHERE id = ? AND deleted_at IS NULL", id).Scan(&existsCheck)
 	if err != nil || existsCheck == 0 {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Person"))
 		return
@@ -245,7 +245,7 @@ func UpdatePerson(c *gin.Context) {
 	// Validate project_id if provided
 	if req.ProjectID != nil {
 		var count int
-		err := database.QueryRow("SELECT COUNT(*) FROM projects WHERE id = ?", *req.ProjectID).Scan(&count)
+		err := database.QueryRow("SELECT COUNT(*) FROM projects WHERE id = ? AND deleted_at IS NULL", *req.ProjectID).Scan(&count)
 		if err != nil || count == 0 {
 			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Project not found"))
 			return
@@ -328,7 +328,7 @@ func UpdatePerson(c *gin.Context) {
 
 	var p Person
 	err = database.QueryRow(
-		"SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE id = ?",
+		"SELECT id, name, email, company, designation, project_id, created_at, updated_at FROM people WHERE id = ? AND deleted_at IS NULL",
 		id,
 	).Scan(&p.ID, &p.Name, &p.Email, &p.Company, &p.Designation, &p.ProjectID, &p.CreatedAt, &p.UpdatedAt)
 
@@ -340,7 +340,7 @@ func UpdatePerson(c *gin.Context) {
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(p))
 }
 
-// DeletePerson handles DELETE /api/people/:id - Delete person
+// DeletePerson handles DELETE /api/people/:id - Move person to the trash (task assignments are kept for restore)
 func DeletePerson(c *gin.Context) {
 	databaseIface, exists := c.Get("database")
 	if !exists {
@@ -358,17 +358,17 @@ func DeletePerson(c *gin.Context) {
 
 	// Check if person exists
 	var existsCheck int
-	err := database.QueryRow("SELECT COUNT(*) FROM people WHERE id = ?", id).Scan(&existsCheck)
+	err := database.QueryRow("SELECT COUNT(*) FROM people WHERE id = ? AND deleted_at IS NULL", id).Scan(&existsCheck)
 	if err != nil || existsCheck == 0 {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Person"))
 		return
 	}
 
-	_, err = database.Exec("DELETE FROM people WHERE id = ?", id)
+	_, err = database.Exec("UPDATE people SET deleted_at = ? WHERE id = ?", trashTimestamp(), id)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("person"))
 		return
 	}
 
-	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Person deleted successfully"}))
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Person moved to trash"}))
 }
@@ -45,6 +45,8 @@ type PomodoroSettings struct {
 	AutoStartWork          bool   `json:"auto_start_work"`
 	NotificationsEnabled   bool   `json:"notifications_enabled"`
 	DailyGoal              int    `json:"daily_goal"`
+	LogTimeEntries         bool   `json:"log_time_entries"` // log completed work sessions on a task as time entries
+	LogInterrupted         bool   `json:"log_interrupted"`  // and stopped ones too
 	CreatedAt              string `json:"created_at"`
 	UpdatedAt              string `json:"updated_at"`
 }
@@ -92,6 +94,8 @@ type UpdatePomodoroSettingsRequest struct {
 	AutoStartWork          *bool  `json:"auto_start_work"`
 	NotificationsEnabled   *bool  `json:"notifications_enabled"`
 	DailyGoal              *int   `json:"daily_goal"`
+	LogTimeEntries         *bool  `json:"log_time_entries"`
+	LogInterrupted         *bool  `json:"log_interrupted"`
 }
 
 // StartPomodoroRequest represents the request body for starting a session
@@ -165,13 +169,15 @@ func getOrCreateSettings(database *db.Database) (*PomodoroSettings, error) {
 	var settings PomodoroSettings
 	err := database.QueryRow(`
 		SELECT id, work_duration_us, short_break_us, long_break_us, sessions_until_long_break,
-		       auto_start_breaks, auto_start_work, notifications_enabled, daily_goal, created_at, updated_at
+		       auto_start_breaks, auto_start_work, notifications_enabled, daily_goal,
+		       log_time_entries, log_interrupted, created_at, updated_at
 		FROM pomodoro_settings
 		WHERE id = 'default'
 	`).Scan(
 		&settings.ID, &settings.WorkDurationUs, &settings.ShortBreakUs, &settings.LongBreakUs,
 		&settings.SessionsUntilLongBreak, &settings.AutoStartBreaks, &settings.AutoStartWork,
-		&settings.NotificationsEnabled, &settings.DailyGoal, &settings.CreatedAt, &settings.UpdatedAt,
+		&settings.NotificationsEnabled, &settings.DailyGoal, &settings.LogTimeEntries, &settings.LogInterrupted,
+		&settings.CreatedAt, &settings.UpdatedAt,
 	)
 
 	if err == sql.ErrNoRows {
@@ -356,6 +362,32 @@ func UpdatePomodoroSettings(c *gin.Context) {
 		hasUpdates = true
 	}
 
+	if req.LogTimeEntries != nil {
+		if hasUpdates {
+			query += ", "
+		}
+		query += "log_time_entries = ?"
+		if *req.LogTimeEntries {
+			args = append(args, 1)
+		} else {
+			args = append(args, 0)
+		}
+		hasUpdates = true
+	}
+
+	if req.LogInterrupted != nil {
+		if hasUpdates {
+			query += ", "
+		}
+		query += "log_interrupted = ?"
+		if *req.LogInterrupted {
+			args = append(args, 1)
+		} else {
+			args = append(args, 0)
+		}
+		hasUpdates = true
+	}
+
 	if !hasUpdates {
 		c.JSON(http.StatusBadRequest, middleware.NewValidationError("No fields provided to update"))
 		return
@@ -665,16 +697,8 @@ func StopPomodoro(c *gin.Context) {
 		finalElapsed = currentSession.ElapsedUs + calculateElapsedUs(currentSession.StartedAt.String, "")
 	}
 
-	_, err = database.Exec(`
-		UPDATE pomodoro_sessions
-		SET timer_state = 'idle',
-		    elapsed_us = ?,
-		    ended_at = ?,
-		    interrupted = 1,
-		    updated_at = CURRENT_TIMESTAMP
-		WHERE id = ?
-	`, finalElapsed, now, currentSession.ID)
-	if err != nil {
+	// Interrupted work sessions are logged as time entries when the settings ask for it
+	if err := endSession(database, currentSession, finalElapsed, now, false); err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("session"))
 		return
 	}
@@ -727,16 +751,8 @@ func CompletePomodoro(c *gin.Context) {
 		finalElapsed = currentSession.ElapsedUs + calculateElapsedUs(currentSession.StartedAt.String, "")
 	}
 
-	_, err = database.Exec(`
-		UPDATE pomodoro_sessions
-		SET timer_state = 'idle',
-		    elapsed_us = ?,
-		    ended_at = ?,
-		    completed = 1,
-		    updated_at = CURRENT_TIMESTAMP
-		WHERE id = ?
-	`, finalElapsed, now, currentSession.ID)
-	if err != nil {
+	// Completed work sessions are logged as time entries when the settings ask for it
+	if err := endSession(database, currentSession, finalElapsed, now, true); err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("session"))
 		return
 	}
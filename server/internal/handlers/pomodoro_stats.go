@@ -0,0 +1,325 @@
+package handlers
+
+import (
+	"database/sql"
+	"fmt"
+	"net/http"
+	"sort"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+)
+
+// Focus analytics sum finished work sessions over a range of days in the viewer's time
+// zone. A session counts toward the day and hour it was started (created_at, as
+// started_at moves on resume). Break sessions and running sessions are left out.
+
+// PomodoroDayStats is the focus of one day
+type PomodoroDayStats struct {
+	Date                    string `json:"date"`
+	WorkSessionsCompleted   int    `json:"work_sessions_completed"`
+	WorkSessionsInterrupted int    `json:"work_sessions_interrupted"`
+	WorkTimeUs              int64  `json:"work_time_us"`
+	GoalMet                 bool   `json:"goal_met"`
+}
+
+// PomodoroHourStats is the focus of sessions started in one hour of the day
+type PomodoroHourStats struct {
+	Hour                    int   `json:"hour"` // 0 to 23
+	WorkSessionsCompleted   int   `json:"work_sessions_completed"`
+	WorkSessionsInterrupted int   `json:"work_sessions_interrupted"`
+	WorkTimeUs              int64 `json:"work_time_us"`
+}
+
+// PomodoroFocusTotal is the focus on one task or project
+type PomodoroFocusTotal struct {
+	ID                    *int64 `json:"id"` // null for sessions without a task, or on tasks without a project
+	Name                  string `json:"name"`
+	ProjectName           string `json:"project_name,omitempty"` // for tasks
+	WorkSessionsCompleted int    `json:"work_sessions_completed"`
+	WorkTimeUs            int64  `json:"work_time_us"`
+}
+
+// PomodoroRangeStats sums focus over a range of days
+type PomodoroRangeStats struct {
+	From                    string               `json:"from"`
+	To                      string               `json:"to"`
+	DailyGoal               int                  `json:"daily_goal"`
+	Days                    []PomodoroDayStats   `json:"days"` // every day of the range
+	WorkSessionsCompleted   int                  `json:"work_sessions_completed"`
+	WorkSessionsInterrupted int                  `json:"work_sessions_interrupted"`
+	WorkTimeUs              int64                `json:"work_time_us"`
+	InterruptionRate        float64              `json:"interruption_rate"` // share of finished work sessions that were stopped, 0 to 1
+	DaysGoalMet             int                  `json:"days_goal_met"`
+	Hours                   []PomodoroHourStats  `json:"hours"`    // all 24
+	Tasks                   []PomodoroFocusTotal `json:"tasks"`    // most focus first
+	Projects                []PomodoroFocusTotal `json:"projects"` // most focus first
+}
+
+// PomodoroStreaks counts the days in a row the daily goal was met
+type PomodoroStreaks struct {
+	Today            string  `json:"today"`
+	DailyGoal        int     `json:"daily_goal"`
+	CurrentStreak    int     `json:"current_streak"` // up to today, or yesterday while today's goal isn't met yet
+	LongestStreak    int     `json:"longest_streak"`
+	LongestStreakEnd *string `json:"longest_streak_end"` // last day of the longest streak
+}
+
+// focusSession is a finished work session with its task and the day and hour it started
+type focusSession struct {
+	TaskID      sql.NullInt64
+	TaskTitle   sql.NullString
+	ProjectID   sql.NullInt64
+	ProjectName sql.NullString
+	Completed   bool
+	ElapsedUs   int64
+	Day         string
+	Hour        int
+}
+
+// loadFocusSessions lists the finished work sessions started on the days of the range
+func loadFocusSessions(database *db.Database, r reportRange) ([]focusSession, error) {
+	// Sessions are stored in UTC, so the stored day can be a day off either way
+	from, _ := time.Parse(dateLayout, r.From)
+	to, _ := time.Parse(dateLayout, r.To)
+	rows, err := database.Query(`
+		SELECT t.id, t.title, pr.id, pr.name, s.completed, s.elapsed_us, s.created_at
+		FROM pomodoro_sessions s
+		LEFT JOIN tasks t ON t.id = s.task_id AND t.deleted_at IS NULL
+		LEFT JOIN projects pr ON pr.id = t.project_id AND pr.deleted_at IS NULL
+		WHERE s.session_type = 'work' AND s.timer_state = 'idle'
+		  AND (s.completed = 1 OR s.interrupted = 1)
+		  AND substr(s.created_at, 1, 10) BETWEEN ? AND ?
+		ORDER BY s.created_at
+	`, from.AddDate(0, 0, -1).Format(dateLayout), to.AddDate(0, 0, 1).Format(dateLayout))
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	var sessions []focusSession
+	for rows.Next() {
+		var s focusSession
+		var createdAt time.Time
+		if err := rows.Scan(&s.TaskID, &s.TaskTitle, &s.ProjectID, &s.ProjectName, &s.Completed, &s.ElapsedUs, &createdAt); err != nil {
+			return nil, err
+		}
+		started := createdAt.In(r.Location)
+		s.Day = started.Format(dateLayout)
+		if s.Day < r.From || s.Day > r.To {
+			continue
+		}
+		s.Hour = started.Hour()
+		sessions = append(sessions, s)
+	}
+	return sessions, rows.Err()
+}
+
+// addFocus adds a session to a task or project total, creating it on first use
+func addFocus(totals map[string]*PomodoroFocusTotal, key string, total PomodoroFocusTotal, s focusSession) {
+	t, ok := totals[key]
+	if !ok {
+		t = &total
+		totals[key] = t
+	}
+	if s.Completed {
+		t.WorkSessionsCompleted++
+	}
+	t.WorkTimeUs += s.ElapsedUs
+}
+
+// sortedFocus lists totals with the most focus first
+func sortedFocus(totals map[string]*PomodoroFocusTotal) []PomodoroFocusTotal {
+	list := make([]PomodoroFocusTotal, 0, len(totals))
+	for _, t := range totals {
+		list = append(list, *t)
+	}
+	sort.Slice(list, func(i, j int) bool {
+		if list[i].WorkTimeUs != list[j].WorkTimeUs {
+			return list[i].WorkTimeUs > list[j].WorkTimeUs
+		}
+		return strings.ToLower(list[i].Name) < strings.ToLower(list[j].Name)
+	})
+	return list
+}
+
+func buildPomodoroRangeStats(sessions []focusSession, r reportRange, dailyGoal int) PomodoroRangeStats {
+	stats := PomodoroRangeStats{From: r.From, To: r.To, DailyGoal: dailyGoal, Hours: make([]PomodoroHourStats, 24)}
+	for hour := range stats.Hours {
+		stats.Hours[hour].Hour = hour
+	}
+	days := map[string]*PomodoroDayStats{}
+	for _, day := range r.reportDays() {
+		stats.Days = append(stats.Days, PomodoroDayStats{Date: day})
+	}
+	for i := range stats.Days {
+		days[stats.Days[i].Date] = &stats.Days[i]
+	}
+
+	tasks := map[string]*PomodoroFocusTotal{}
+	projects := map[string]*PomodoroFocusTotal{}
+	for _, s := range sessions {
+		day := days[s.Day]
+		hour := &stats.Hours[s.Hour]
+		if s.Completed {
+			stats.WorkSessionsCompleted++
+			day.WorkSessionsCompleted++
+			hour.WorkSessionsCompleted++
+		} else {
+			stats.WorkSessionsInterrupted++
+			day.WorkSessionsInterrupted++
+			hour.WorkSessionsInterrupted++
+		}
+		stats.WorkTimeUs += s.ElapsedUs
+		day.WorkTimeUs += s.ElapsedUs
+		hour.WorkTimeUs += s.ElapsedUs
+
+		taskKey, task := "none", PomodoroFocusTotal{Name: "No task"}
+		if s.TaskID.Valid {
+			id := s.TaskID.Int64
+			taskKey = strconv.FormatInt(id, 10)
+			task = PomodoroFocusTotal{ID: &id, Name: s.TaskTitle.String, ProjectName: s.ProjectName.String}
+		}
+		addFocus(tasks, taskKey, task, s)
+
+		projectKey, project := "none", PomodoroFocusTotal{Name: "No project"}
+		if s.ProjectID.Valid {
+			id := s.ProjectID.Int64
+			projectKey = strconv.FormatInt(id, 10)
+			project = PomodoroFocusTotal{ID: &id, Name: s.ProjectName.String}
+		}
+		addFocus(projects, projectKey, project, s)
+	}
+
+	for i := range stats.Days {
+		stats.Days[i].GoalMet = dailyGoal > 0 && stats.Days[i].WorkSessionsCompleted >= dailyGoal
+		if stats.Days[i].GoalMet {
+			stats.DaysGoalMet++
+		}
+	}
+	if finished := stats.WorkSessionsCompleted + stats.WorkSessionsInterrupted; finished > 0 {
+		stats.InterruptionRate = float64(stats.WorkSessionsInterrupted) / float64(finished)
+	}
+	stats.Tasks = sortedFocus(tasks)
+	stats.Projects = sortedFocus(projects)
+	return stats
+}
+
+// GetPomodoroRangeStats handles GET /api/pomodoro/stats/range. It takes ?from=, ?to=
+// and ?tz= as the time reports do.
+func GetPomodoroRangeStats(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	r, msg := parseReportRange(c)
+	if msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+
+	settings, err := getOrCreateSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("pomodoro settings"))
+		return
+	}
+	sessions, err := loadFocusSessions(database, r)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("pomodoro stats"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(buildPomodoroRangeStats(sessions, r, settings.DailyGoal)))
+}
+
+// GetPomodoroStreaks handles GET /api/pomodoro/stats/streaks. Days are counted in ?tz=,
+// UTC without it, against the current daily goal.
+func GetPomodoroStreaks(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	loc := time.UTC
+	if tz := c.Query("tz"); tz != "" {
+		var err error
+		if loc, err = time.LoadLocation(tz); err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Unknown time zone %q", tz)))
+			return
+		}
+	}
+
+	settings, err := getOrCreateSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("pomodoro settings"))
+		return
+	}
+
+	today := time.Now().In(loc).Format(dateLayout)
+	streaks := PomodoroStreaks{Today: today, DailyGoal: settings.DailyGoal}
+	if settings.DailyGoal <= 0 {
+		c.JSON(http.StatusOK, middleware.NewSuccessResponse(streaks))
+		return
+	}
+
+	rows, err := database.Query(`
+		SELECT created_at FROM pomodoro_sessions
+		WHERE session_type = 'work' AND completed = 1
+	`)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("pomodoro stats"))
+		return
+	}
+	defer rows.Close()
+
+	completed := map[string]int{}
+	for rows.Next() {
+		var createdAt time.Time
+		if err := rows.Scan(&createdAt); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("pomodoro stats"))
+			return
+		}
+		completed[createdAt.In(loc).Format(dateLayout)]++
+	}
+	if err := rows.Err(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("pomodoro stats"))
+		return
+	}
+
+	var goalDays []string
+	for day, count := range completed {
+		if count >= settings.DailyGoal {
+			goalDays = append(goalDays, day)
+		}
+	}
+	sort.Strings(goalDays)
+
+	// Longest run of consecutive days
+	run := 0
+	var previous time.Time
+	for _, day := range goalDays {
+		d, _ := time.Parse(dateLayout, day)
+		if run > 0 && d.Equal(previous.AddDate(0, 0, 1)) {
+			run++
+		} else {
+			run = 1
+		}
+		previous = d
+		if run > streaks.LongestStreak {
+			streaks.LongestStreak = run
+			end := day
+			streaks.LongestStreakEnd = &end
+		}
+	}
+
+	// Current streak, counting back from today; today doesn't break it before its goal is met
+	d, _ := time.Parse(dateLayout, today)
+	if completed[today] < settings.DailyGoal {
+		d = d.AddDate(0, 0, -1)
+	}
+	for completed[d.Format(dateLayout)] >= settings.DailyGoal {
+		streaks.CurrentStreak++
+		d = d.AddDate(0, 0, -1)
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(streaks))
+}
@@ -0,0 +1,328 @@
+package handlers
+
+import (
+	"database/sql"
+	"encoding/json"
+	"net/http"
+	"strconv"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Finished work sessions on a task can be logged as time entries on it, which keeps
+// pomodoro focus time in the task's time summary and in time reports. The entry is
+// linked through time_entries.pomodoro_session_id and follows the session: editing
+// the session's task or time moves the entry, and deleting the session deletes it.
+// Pomodoro entries have no person and are not rounded.
+
+// UpdatePomodoroSessionRequest represents the request body for editing a finished session
+type UpdatePomodoroSessionRequest struct {
+	// TaskID is raw so an explicit null (no task) can be told apart from an omitted field
+	TaskID    json.RawMessage `json:"task_id"`
+	ElapsedUs *int64          `json:"elapsed_us"`
+}
+
+// ==================== HELPERS ====================
+
+// logsSession tells whether the settings log a finished work session as a time entry
+func logsSession(settings *PomodoroSettings, session *PomodoroSession) bool {
+	if !settings.LogTimeEntries {
+		return false
+	}
+	return session.Completed || (session.Interrupted && settings.LogInterrupted)
+}
+
+// getPomodoroSession retrieves a session by ID, or nil when there is none
+func getPomodoroSession(database *db.Database, id string) (*PomodoroSession, error) {
+	var session PomodoroSession
+	err := database.QueryRow(`
+		SELECT id, task_id, session_type, timer_state, duration_us, elapsed_us,
+		       started_at, paused_at, ended_at, completed, interrupted, created_at, updated_at
+		FROM pomodoro_sessions WHERE id = ?
+	`, id).Scan(
+		&session.ID, &session.TaskID, &session.SessionType, &session.TimerState,
+		&session.DurationUs, &session.ElapsedUs, &session.StartedAt, &session.PausedAt,
+		&session.EndedAt, &session.Completed, &session.Interrupted, &session.CreatedAt, &session.UpdatedAt,
+	)
+	if err == sql.ErrNoRows {
+		return nil, nil
+	}
+	if err != nil {
+		return nil, err
+	}
+	return &session, nil
+}
+
+// sessionTimeEntry retrieves the time entry logged for a session, or nil when there is none
+func sessionTimeEntry(database *db.Database, sessionID string) (*TimeEntry, error) {
+	var entryID string
+	err := database.QueryRow("SELECT id FROM time_entries WHERE pomodoro_session_id = ?", sessionID).Scan(&entryID)
+	if err == sql.ErrNoRows {
+		return nil, nil
+	}
+	if err != nil {
+		return nil, err
+	}
+	return getTimeEntryByID(database, entryID)
+}
+
+// rejectPomodoroEntry answers 409 for a time entry logged by a pomodoro session, which
+// follows its session and is changed through it, and reports whether it did
+func rejectPomodoroEntry(c *gin.Context, entry *TimeEntry) bool {
+	if entry.PomodoroSessionID == nil {
+		return false
+	}
+	c.JSON(http.StatusConflict, middleware.NewErrorResponse("ENTRY_FROM_POMODORO",
+		"This time entry was logged by a pomodoro session; edit or delete the session instead"))
+	return true
+}
+
+// syncSessionTimeEntry makes the time entry of a finished session match it. A session
+// without an entry gets one when the settings log it; an existing entry is moved to the
+// session's task and time, and deleted once the session has no task or time left.
+func syncSessionTimeEntry(tx *sql.Tx, settings *PomodoroSettings, session *PomodoroSession) error {
+	var entryID string
+	err := tx.QueryRow("SELECT id FROM time_entries WHERE pomodoro_session_id = ?", session.ID).Scan(&entryID)
+	if err != nil && err != sql.ErrNoRows {
+		return err
+	}
+	hasEntry := err == nil
+
+	end, endErr := parseTime(session.EndedAt.String)
+	if session.SessionType != string(SessionTypeWork) || !session.TaskID.Valid || session.ElapsedUs <= 0 || endErr != nil {
+		if hasEntry {
+			_, err = tx.Exec("DELETE FROM time_entries WHERE id = ?", entryID)
+			return err
+		}
+		return nil
+	}
+
+	start := end.Add(-time.Duration(session.ElapsedUs) * time.Microsecond)
+	taskID := strconv.FormatInt(session.TaskID.Int64, 10)
+	if hasEntry {
+		_, err = tx.Exec(`
+			UPDATE time_entries
+			SET entity_type = 'task', entity_id = ?, start_time = ?, end_time = ?, duration_us = ?, updated_at = ?
+			WHERE id = ?
+		`, taskID, start.Format(time.RFC3339Nano), end.Format(time.RFC3339Nano), session.ElapsedUs,
+			time.Now().Format(time.RFC3339Nano), entryID)
+		return err
+	}
+	if !logsSession(settings, session) {
+		return nil
+	}
+
+	description := "Pomodoro"
+	if !session.Completed {
+		description = "Pomodoro (interrupted)"
+	}
+	_, err = tx.Exec(`
+		INSERT INTO time_entries (id, entity_type, entity_id, description, start_time, end_time, duration_us, is_running, pomodoro_session_id)
+		VALUES (?, 'task', ?, ?, ?, ?, ?, 0, ?)
+	`, uuid.New().String(), taskID, description, start.Format(time.RFC3339Nano), end.Format(time.RFC3339Nano),
+		session.ElapsedUs, session.ID)
+	return err
+}
+
+// endSession finishes the active session as completed or interrupted, and logs its time
+// entry when the settings ask for it
+func endSession(database *db.Database, session *PomodoroSession, elapsedUs int64, endedAt string, completed bool) error {
+	settings, err := getOrCreateSettings(database)
+	if err != nil {
+		return err
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		return err
+	}
+	defer tx.Rollback()
+
+	column := "interrupted"
+	if completed {
+		column = "completed"
+	}
+	if _, err := tx.Exec(`
+		UPDATE pomodoro_sessions
+		SET timer_state = 'idle',
+		    elapsed_us = ?,
+		    ended_at = ?,
+		    `+column+` = 1,
+		    updated_at = CURRENT_TIMESTAMP
+		WHERE id = ?
+	`, elapsedUs, endedAt, session.ID); err != nil {
+		return err
+	}
+
+	ended := *session
+	ended.TimerState = string(TimerStateIdle)
+	ended.ElapsedUs = elapsedUs
+	ended.EndedAt = sql.NullString{String: endedAt, Valid: true}
+	ended.Completed = ended.Completed || completed
+	ended.Interrupted = ended.Interrupted || !completed
+	if err := syncSessionTimeEntry(tx, settings, &ended); err != nil {
+		return err
+	}
+	return tx.Commit()
+}
+
+// ==================== SESSION EDIT HANDLERS ====================
+
+// UpdatePomodoroSession handles PUT /api/pomodoro/sessions/:id. It changes the task or
+// elapsed time of a finished session, and its time entry with it.
+func UpdatePomodoroSession(c *gin.Context) {
+	database, err := getDatabase(c)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewInternalError(err.Error()))
+		return
+	}
+
+	var req UpdatePomodoroSessionRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid request body"))
+		return
+	}
+
+	session, err := getPomodoroSession(database, c.Param("id"))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("session"))
+		return
+	}
+	if session == nil {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Session"))
+		return
+	}
+	if session.TimerState != string(TimerStateIdle) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Stop or complete the session before editing it"))
+		return
+	}
+
+	if len(req.TaskID) > 0 {
+		if string(req.TaskID) == "null" {
+			session.TaskID = sql.NullInt64{}
+		} else {
+			var taskID int64
+			if err := json.Unmarshal(req.TaskID, &taskID); err != nil {
+				c.JSON(http.StatusBadRequest, middleware.NewValidationError("task_id must be a task ID or null"))
+				return
+			}
+			var exists int
+			if err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists); err != nil {
+				c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
+				return
+			}
+			session.TaskID = sql.NullInt64{Int64: taskID, Valid: true}
+		}
+	}
+	if req.ElapsedUs != nil {
+		if *req.ElapsedUs <= 0 {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("elapsed_us must be positive"))
+			return
+		}
+		session.ElapsedUs = *req.ElapsedUs
+	}
+
+	entry, err := sessionTimeEntry(database, session.ID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entry"))
+		return
+	}
+	if entry != nil && rejectInvoicedEntry(c, database, entry) {
+		return
+	}
+
+	settings, err := getOrCreateSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("pomodoro settings"))
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("session"))
+		return
+	}
+	defer tx.Rollback()
+
+	if _, err := tx.Exec(`
+		UPDATE pomodoro_sessions SET task_id = ?, elapsed_us = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+	`, session.TaskID, session.ElapsedUs, session.ID); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("session"))
+		return
+	}
+	if err := syncSessionTimeEntry(tx, settings, session); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time entry"))
+		return
+	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("session"))
+		return
+	}
+
+	updated, err := getPomodoroSession(database, session.ID)
+	if err != nil || updated == nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("session"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(updated))
+}
+
+// DeletePomodoroSession handles DELETE /api/pomodoro/sessions/:id. The session's time
+// entry is deleted with it.
+func DeletePomodoroSession(c *gin.Context) {
+	database, err := getDatabase(c)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewInternalError(err.Error()))
+		return
+	}
+
+	session, err := getPomodoroSession(database, c.Param("id"))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("session"))
+		return
+	}
+	if session == nil {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Session"))
+		return
+	}
+	if session.TimerState != string(TimerStateIdle) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Stop the session before deleting it"))
+		return
+	}
+
+	entry, err := sessionTimeEntry(database, session.ID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entry"))
+		return
+	}
+	if entry != nil && rejectInvoicedEntry(c, database, entry) {
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("session"))
+		return
+	}
+	defer tx.Rollback()
+
+	if _, err := tx.Exec("DELETE FROM time_entries WHERE pomodoro_session_id = ?", session.ID); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("time entry"))
+		return
+	}
+	if _, err := tx.Exec("DELETE FROM pomodoro_sessions WHERE id = ?", session.ID); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("session"))
+		return
+	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("session"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Session deleted"}))
+}
@@ -31,6 +31,7 @@ type Project struct {
 	OwnerID         sql.NullString `json:"owner_id"`
 	CreatedAt       string         `json:"created_at"`
 	UpdatedAt       string         `json:"updated_at"`
+	DeletedAt       sql.NullString `json:"deleted_at"`
 }
 
 // ProjectWithOwner includes owner information
@@ -104,7 +105,7 @@ func GetProjects(c *gin.Context) {
 		return
 	}
 
-	rows, err := database.Query("SELECT * FROM projects ORDER BY created_at DESC")
+	rows, err := database.Query("SELECT * FROM projects WHERE deleted_at IS NULL ORDER BY created_at DESC")
 	if err != nil {
 		panic(middleware.NewFetchError("projects"))
 	}
@@ -113,7 +114,7 @@ func GetProjects(c *gin.Context) {
 	var projects []Project
 	for rows.Next() {
 		var p Project
-		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt)
+		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt, &p.DeletedAt)
 		if err != nil {
 			panic(middleware.NewFetchError("projects"))
 		}
@@ -133,7 +134,7 @@ func GetRootProjects(c *gin.Context) {
 
 	rows, err := database.Query(`
 		SELECT * FROM projects 
-		WHERE parent_project_id IS NULL 
+		WHERE parent_project_id IS NULL AND deleted_at IS NULL
 		ORDER BY created_at DESC
 	`)
 	if err != nil {
@@ -144,7 +145,7 @@ func GetRootProjects(c *gin.Context) {
 	var projects []Project
 	for rows.Next() {
 		var p Project
-		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt)
+		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt, &p.DeletedAt)
 		if err != nil {
 			panic(middleware.NewFetchError("root projects"))
 		}
@@ -177,7 +178,7 @@ func CreateProject(c *gin.Context) {
 	var parentID any
 	if req.ParentProjectID != nil {
 		var parentProject Project
-		err := database.QueryRow("SELECT id FROM projects WHERE id = ?", *req.ParentProjectID).Scan(&parentProject.ID)
+		err := database.QueryRow("SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL", *req.ParentProjectID).Scan(&parentProject.ID)
 		if err == sql.ErrNoRows {
 			panic(middleware.NewValidationError("Parent project not found"))
 		}
@@ -206,16 +207,23 @@ func CreateProject(c *gin.Context) {
 		panic(middleware.NewCreateError("project"))
 	}
 
+	// New projects start with the default workflow statuses
+	if err := db.SeedDefaultStatuses(database); err != nil {
+		panic(middleware.NewCreateError("project statuses"))
+	}
+
 	lastID, _ := result.LastInsertId()
 	var newProject Project
-	err = database.QueryRow("SELECT * FROM projects WHERE id = ?", lastID).Scan(
+	err = database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", lastID).Scan(
 		&newProject.ID, &newProject.Name, &newProject.Description, &newProject.Color,
-		&newProject.ParentProjectID, &newProject.OwnerID, &newProject.CreatedAt, &newProject.UpdatedAt,
+		&newProject.ParentProjectID, &newProject.OwnerID, &newProject.CreatedAt, &newProject.UpdatedAt, &newProject.DeletedAt,
 	)
 	if err != nil {
 		panic(middleware.NewFetchError("project"))
 	}
 
+	logActivity(database, "project", newProject.ID, newProject.Name, newProject.ID, "created", nil)
+
 	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(newProject))
 }
 
@@ -229,9 +237,9 @@ func GetProject(c *gin.Context) {
 
 	id := c.Param("id")
 	var project Project
-	err := database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err := database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&project.ID, &project.Name, &project.Description, &project.Color,
-		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt,
+		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt, &project.DeletedAt,
 	)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
@@ -255,9 +263,9 @@ func UpdateProject(c *gin.Context) {
 
 	// Check if project exists
 	var existingProject Project
-	err := database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err := database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&existingProject.ID, &existingProject.Name, &existingProject.Description, &existingProject.Color,
-		&existingProject.ParentProjectID, &existingProject.OwnerID, &existingProject.CreatedAt, &existingProject.UpdatedAt,
+		&existingProject.ParentProjectID, &existingProject.OwnerID, &existingProject.CreatedAt, &existingProject.UpdatedAt, &existingProject.DeletedAt,
 	)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
@@ -287,7 +295,7 @@ func UpdateProject(c *gin.Context) {
 			}
 			// Check if parent exists
 			var parentProject Project
-			err := database.QueryRow("SELECT id FROM projects WHERE id = ?", newParent).Scan(&parentProject.ID)
+			err := database.QueryRow("SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL", newParent).Scan(&parentProject.ID)
 			if err == sql.ErrNoRows {
 				panic(middleware.NewValidationError("Parent project not found"))
 			}
@@ -349,18 +357,20 @@ func UpdateProject(c *gin.Context) {
 	}
 
 	var updatedProject Project
-	err = database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err = database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&updatedProject.ID, &updatedProject.Name, &updatedProject.Description, &updatedProject.Color,
-		&updatedProject.ParentProjectID, &updatedProject.OwnerID, &updatedProject.CreatedAt, &updatedProject.UpdatedAt,
+		&updatedProject.ParentProjectID, &updatedProject.OwnerID, &updatedProject.CreatedAt, &updatedProject.UpdatedAt, &updatedProject.DeletedAt,
 	)
 	if err != nil {
 		panic(middleware.NewFetchError("project"))
 	}
 
+	logChanges(database, "project", updatedProject.ID, updatedProject.Name, updatedProject.ID, projectChanges(database, existingProject, updatedProject))
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(updatedProject))
 }
 
-// DeleteProject deletes a project
+// DeleteProject moves a project, its subprojects and their tasks to the trash
 func DeleteProject(c *gin.Context) {
 	database, ok := c.MustGet("database").(*db.Database)
 	if !ok {
@@ -372,7 +382,7 @@ func DeleteProject(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT id FROM projects WHERE id = ?", id).Scan(&project.ID)
+	err := database.QueryRow("SELECT id, name FROM projects WHERE id = ?", id).Scan(&project.ID, &project.Name)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
 	}
@@ -380,12 +390,13 @@ func DeleteProject(c *gin.Context) {
 		panic(middleware.NewFetchError("project"))
 	}
 
-	_, err = database.Exec("DELETE FROM projects WHERE id = ?", id)
-	if err != nil {
+	if err := trashProject(database, project.ID); err != nil {
 		panic(middleware.NewDeleteError("project"))
 	}
 
-	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Project deleted successfully"}))
+	logActivity(database, "project", project.ID, project.Name, project.ID, "deleted", nil)
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Project moved to trash"}))
 }
 
 // GetProjectChildren returns direct children of a project
@@ -400,7 +411,7 @@ func GetProjectChildren(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT id FROM projects WHERE id = ?", id).Scan(&project.ID)
+	err := database.QueryRow("SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(&project.ID)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
 	}
@@ -410,7 +421,7 @@ func GetProjectChildren(c *gin.Context) {
 
 	rows, err := database.Query(`
 		SELECT * FROM projects 
-		WHERE parent_project_id = ? 
+		WHERE parent_project_id = ? AND deleted_at IS NULL
 		ORDER BY created_at DESC
 	`, id)
 	if err != nil {
@@ -421,7 +432,7 @@ func GetProjectChildren(c *gin.Context) {
 	var children []Project
 	for rows.Next() {
 		var p Project
-		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt)
+		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt, &p.DeletedAt)
 		if err != nil {
 			panic(middleware.NewFetchError("project children"))
 		}
@@ -443,7 +454,7 @@ func GetProjectDescendants(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT id FROM projects WHERE id = ?", id).Scan(&project.ID)
+	err := database.QueryRow("SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(&project.ID)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
 	}
@@ -453,10 +464,11 @@ func GetProjectDescendants(c *gin.Context) {
 
 	rows, err := database.Query(`
 		WITH RECURSIVE descendants AS (
-			SELECT * FROM projects WHERE parent_project_id = ?
+			SELECT * FROM projects WHERE parent_project_id = ? AND deleted_at IS NULL
 			UNION ALL
 			SELECT p.* FROM projects p
 			INNER JOIN descendants d ON p.parent_project_id = d.id
+			WHERE p.deleted_at IS NULL
 		)
 		SELECT * FROM descendants ORDER BY created_at DESC
 	`, id)
@@ -468,7 +480,7 @@ func GetProjectDescendants(c *gin.Context) {
 	var descendants []Project
 	for rows.Next() {
 		var p Project
-		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt)
+		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt, &p.DeletedAt)
 		if err != nil {
 			panic(middleware.NewFetchError("project descendants"))
 		}
@@ -490,9 +502,9 @@ func GetProjectAncestors(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err := database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&project.ID, &project.Name, &project.Description, &project.Color,
-		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt,
+		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt, &project.DeletedAt,
 	)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
@@ -518,7 +530,7 @@ func GetProjectAncestors(c *gin.Context) {
 	var ancestors []Project
 	for rows.Next() {
 		var p Project
-		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt)
+		err := rows.Scan(&p.ID, &p.Name, &p.Description, &p.Color, &p.ParentProjectID, &p.OwnerID, &p.CreatedAt, &p.UpdatedAt, &p.DeletedAt)
 		if err != nil {
 			panic(middleware.NewFetchError("project ancestors"))
 		}
@@ -540,9 +552,9 @@ func GetProjectTree(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err := database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&project.ID, &project.Name, &project.Description, &project.Color,
-		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt,
+		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt, &project.DeletedAt,
 	)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
@@ -559,16 +571,16 @@ func GetProjectTree(c *gin.Context) {
 
 func buildProjectTree(database *db.Database, projectID string) ProjectTree {
 	var project Project
-	err := database.QueryRow("SELECT * FROM projects WHERE id = ?", projectID).Scan(
+	err := database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", projectID).Scan(
 		&project.ID, &project.Name, &project.Description, &project.Color,
-		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt,
+		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt, &project.DeletedAt,
 	)
 	if err != nil {
 		return ProjectTree{}
 	}
 
 	rows, err := database.Query(`
-		SELECT * FROM projects WHERE parent_project_id = ? ORDER BY created_at DESC
+		SELECT * FROM projects WHERE parent_project_id = ? AND deleted_at IS NULL ORDER BY created_at DESC
 	`, projectID)
 	if err != nil {
 		return ProjectTree{Project: project}
@@ -578,7 +590,7 @@ func buildProjectTree(database *db.Database, projectID string) ProjectTree {
 	var children []ProjectTree
 	for rows.Next() {
 		var child Project
-		err := rows.Scan(&child.ID, &child.Name, &child.Description, &child.Color, &child.ParentProjectID, &child.OwnerID, &child.CreatedAt, &child.UpdatedAt)
+		err := rows.Scan(&child.ID, &child.Name, &child.Description, &child.Color, &child.ParentProjectID, &child.OwnerID, &child.CreatedAt, &child.UpdatedAt, &child.DeletedAt)
 		if err != nil {
 			continue
 		}
@@ -603,9 +615,9 @@ func MoveProject(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err := database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&project.ID, &project.Name, &project.Description, &project.Color,
-		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt,
+		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt, &project.DeletedAt,
 	)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
@@ -629,7 +641,7 @@ func MoveProject(c *gin.Context) {
 
 		// Check if parent exists
 		var parentProject Project
-		err := database.QueryRow("SELECT id FROM projects WHERE id = ?", parentID).Scan(&parentProject.ID)
+		err := database.QueryRow("SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL", parentID).Scan(&parentProject.ID)
 		if err == sql.ErrNoRows {
 			panic(middleware.NewNotFoundError("Parent project"))
 		}
@@ -681,14 +693,16 @@ func MoveProject(c *gin.Context) {
 	}
 
 	var updatedProject Project
-	err = database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err = database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&updatedProject.ID, &updatedProject.Name, &updatedProject.Description, &updatedProject.Color,
-		&updatedProject.ParentProjectID, &updatedProject.OwnerID, &updatedProject.CreatedAt, &updatedProject.UpdatedAt,
+		&updatedProject.ParentProjectID, &updatedProject.OwnerID, &updatedProject.CreatedAt, &updatedProject.UpdatedAt, &updatedProject.DeletedAt,
 	)
 	if err != nil {
 		panic(middleware.NewFetchError("project"))
 	}
 
+	logChanges(database, "project", updatedProject.ID, updatedProject.Name, updatedProject.ID, projectChanges(database, project, updatedProject))
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(updatedProject))
 }
 
@@ -704,9 +718,9 @@ func SetProjectOwner(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT * FROM projects WHERE id = ?", id).Scan(
+	err := database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(
 		&project.ID, &project.Name, &project.Description, &project.Color,
-		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt,
+		&project.ParentProjectID, &project.OwnerID, &project.CreatedAt, &project.UpdatedAt, &project.DeletedAt,
 	)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
@@ -725,7 +739,7 @@ func SetProjectOwner(c *gin.Context) {
 		var person struct {
 			ID string
 		}
-		err := database.QueryRow("SELECT id FROM people WHERE id = ?", *req.PersonID).Scan(&person.ID)
+		err := database.QueryRow("SELECT id FROM people WHERE id = ? AND deleted_at IS NULL", *req.PersonID).Scan(&person.ID)
 		if err == sql.ErrNoRows {
 			panic(middleware.NewNotFoundError("Person"))
 		}
@@ -749,6 +763,10 @@ func SetProjectOwner(c *gin.Context) {
 		panic(middleware.NewUpdateError("project owner"))
 	}
 
+	if after, err := scanProjectRow(database.QueryRow("SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL", id)); err == nil {
+		logChanges(database, "project", after.ID, after.Name, after.ID, projectChanges(database, project, after))
+	}
+
 	// Get updated project with owner info
 	var updatedProject ProjectWithOwner
 	err = database.QueryRow(`
@@ -784,7 +802,7 @@ func GetProjectAssignees(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT id FROM projects WHERE id = ?", id).Scan(&project.ID)
+	err := database.QueryRow("SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(&project.ID)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
 	}
@@ -793,10 +811,11 @@ func GetProjectAssignees(c *gin.Context) {
 	}
 
 	rows, err := database.Query(`
-		SELECT p.*, pa.role, pa.id as assignment_id, pa.created_at as assigned_at
+		SELECT p.id, p.name, p.email, p.company, p.designation, p.project_id, p.created_at, p.updated_at,
+			pa.role, pa.id as assignment_id, pa.created_at as assigned_at
 		FROM people p 
 		JOIN project_assignees pa ON p.id = pa.person_id 
-		WHERE pa.project_id = ?
+		WHERE pa.project_id = ? AND p.deleted_at IS NULL
 		ORDER BY pa.created_at ASC
 	`, id)
 	if err != nil {
@@ -837,7 +856,7 @@ func AddProjectAssignee(c *gin.Context) {
 
 	// Check if project exists
 	var project Project
-	err := database.QueryRow("SELECT id FROM projects WHERE id = ?", id).Scan(&project.ID)
+	err := database.QueryRow("SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL", id).Scan(&project.ID)
 	if err == sql.ErrNoRows {
 		panic(middleware.NewNotFoundError("Project"))
 	}
@@ -853,7 +872,7 @@ func AddProjectAssignee(c *gin.Context) {
 		Company     sql.NullString
 		Designation sql.NullString
 	}
-	err = database.QueryRow("SELECT * FROM people WHERE id = ?", req.PersonID).Scan(
+	err = database.QueryRow("SELECT id, name, email, company, designation FROM people WHERE id = ? AND deleted_at IS NULL", req.PersonID).Scan(
 		&person.ID, &person.Name, &person.Email, &person.Company, &person.Designation,
 	)
 	if err == sql.ErrNoRows {
@@ -0,0 +1,293 @@
+package handlers
+
+import (
+	"database/sql"
+	"database/sql/driver"
+	"encoding/json"
+	"fmt"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/google/uuid"
+)
+
+// Valid recurrence frequencies
+var ValidRecurrenceFrequencies = []string{"daily", "weekly", "monthly", "after_completion"}
+
+// dateLayout is the format of task date columns
+const dateLayout = "2006-01-02"
+
+// TaskRecurrence describes how a task repeats. It is stored as JSON in tasks.recurrence.
+//   - daily: every Interval days
+//   - weekly: every Interval weeks, on Weekdays (0 = Sunday) or the same weekday
+//   - monthly: every Interval months, on MonthDay or the same day of month
+//   - after_completion: Interval days after the task is marked done
+type TaskRecurrence struct {
+	Frequency string `json:"frequency"`
+	Interval  int    `json:"interval"`
+	Weekdays  []int  `json:"weekdays,omitempty"`
+	MonthDay  int    `json:"month_day,omitempty"`
+	EndDate   string `json:"end_date,omitempty"`
+}
+
+// Scan implements sql.Scanner for the JSON recurrence column
+func (r *TaskRecurrence) Scan(value interface{}) error {
+	switch v := value.(type) {
+	case string:
+		return json.Unmarshal([]byte(v), r)
+	case []byte:
+		return json.Unmarshal(v, r)
+	default:
+		return fmt.Errorf("unsupported recurrence value %T", value)
+	}
+}
+
+// Value implements driver.Valuer for the JSON recurrence column
+func (r TaskRecurrence) Value() (driver.Value, error) {
+	data, err := json.Marshal(r)
+	if err != nil {
+		return nil, err
+	}
+	return string(data), nil
+}
+
+// isValidRecurrenceFrequency checks if the recurrence frequency is valid
+func isValidRecurrenceFrequency(frequency string) bool {
+	for _, f := range ValidRecurrenceFrequencies {
+		if f == frequency {
+			return true
+		}
+	}
+	return false
+}
+
+// validateRecurrence normalises a recurrence rule and returns a validation message, or "" if valid
+func validateRecurrence(r *TaskRecurrence) string {
+	if !isValidRecurrenceFrequency(r.Frequency) {
+		return fmt.Sprintf("Invalid recurrence frequency. Must be one of: %s", strings.Join(ValidRecurrenceFrequencies, ", "))
+	}
+	if r.Interval == 0 {
+		r.Interval = 1
+	}
+	if r.Interval < 1 || r.Interval > 365 {
+		return "Recurrence interval must be between 1 and 365"
+	}
+	for _, day := range r.Weekdays {
+		if day < 0 || day > 6 {
+			return "Recurrence weekdays must be between 0 (Sunday) and 6 (Saturday)"
+		}
+	}
+	if r.MonthDay < 0 || r.MonthDay > 31 {
+		return "Recurrence month_day must be between 1 and 31"
+	}
+	if r.EndDate != "" {
+		if _, err := time.Parse(dateLayout, r.EndDate); err != nil {
+			return "Recurrence end_date must be a date (YYYY-MM-DD)"
+		}
+	}
+	if r.Frequency != "weekly" {
+		r.Weekdays = nil
+	}
+	if r.Frequency != "monthly" {
+		r.MonthDay = 0
+	}
+	return ""
+}
+
+// parseTaskDate reads a task date column, which may hold a date or a full timestamp
+func parseTaskDate(value sql.NullString) (time.Time, bool) {
+	if !value.Valid || len(value.String) < len(dateLayout) {
+		return time.Time{}, false
+	}
+	date, err := time.Parse(dateLayout, value.String[:len(dateLayout)])
+	return date, err == nil
+}
+
+// addMonthsClamped moves a date by whole months, clamping the day to the target month's length
+func addMonthsClamped(date time.Time, months, day int) time.Time {
+	first := time.Date(date.Year(), date.Month()+time.Month(months), 1, 0, 0, 0, 0, time.UTC)
+	lastDay := first.AddDate(0, 1, -1).Day()
+	if day > lastDay {
+		day = lastDay
+	}
+	return time.Date(first.Year(), first.Month(), day, 0, 0, 0, 0, time.UTC)
+}
+
+// nextRecurrenceDate returns the date of the occurrence after `from`.
+// `completed` is the day the current occurrence was finished (used by after_completion).
+func nextRecurrenceDate(r TaskRecurrence, from, completed time.Time) time.Time {
+	interval := r.Interval
+	if interval < 1 {
+		interval = 1
+	}
+
+	switch r.Frequency {
+	case "daily":
+		return from.AddDate(0, 0, interval)
+	case "weekly":
+		if len(r.Weekdays) == 0 {
+			return from.AddDate(0, 0, 7*interval)
+		}
+		weekdays := make(map[int]bool, len(r.Weekdays))
+		for _, d := range r.Weekdays {
+			weekdays[d] = true
+		}
+		// Walk forward day by day; only weeks that are a multiple of Interval after `from` count
+		weekStart := from.AddDate(0, 0, -int(from.Weekday()))
+		for i := 1; i <= 7*interval+7; i++ {
+			candidate := from.AddDate(0, 0, i)
+			weeks := int(candidate.Sub(weekStart).Hours()/24) / 7
+			if weekdays[int(candidate.Weekday())] && weeks%interval == 0 {
+				return candidate
+			}
+		}
+		return from.AddDate(0, 0, 7*interval)
+	case "monthly":
+		day := r.MonthDay
+		if day == 0 {
+			day = from.Day()
+		}
+		return addMonthsClamped(from, interval, day)
+	default: // after_completion
+		return completed.AddDate(0, 0, interval)
+	}
+}
+
+// createNextOccurrence creates the follow-up task for a recurring task that was just moved to a done status.
+// The recurrence rule moves to the new task so re-completing the old one doesn't spawn duplicates.
+// Returns nil when the task isn't recurring or the series has ended.
+func createNextOccurrence(database *db.Database, taskID interface{}) (*Task, error) {
+	task, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ?", taskID))
+	if err != nil {
+		return nil, err
+	}
+	if task.Recurrence == nil || !isDoneStatus(database, task.ProjectID, task.Status) {
+		return nil, nil
+	}
+	rule := *task.Recurrence
+
+	status, err := defaultTaskStatus(database, task.ProjectID)
+	if err != nil {
+		return nil, err
+	}
+
+	today := time.Now().UTC().Truncate(24 * time.Hour)
+	dueDate, hasDue := parseTaskDate(task.DueDate)
+	startDate, hasStart := parseTaskDate(task.StartDate)
+
+	// Anchor on the due date, then the start date, then today
+	anchor := today
+	if hasDue {
+		anchor = dueDate
+	} else if hasStart {
+		anchor = startDate
+	}
+
+	next := nextRecurrenceDate(rule, anchor, today)
+	if rule.EndDate != "" {
+		if endDate, err := time.Parse(dateLayout, rule.EndDate); err == nil && next.After(endDate) {
+			_, err := database.Exec("UPDATE tasks SET recurrence = NULL WHERE id = ?", task.ID)
+			return nil, err
+		}
+	}
+
+	// Keep the same start-to-due span on the new occurrence
+	var nextDue, nextStart sql.NullString
+	switch {
+	case hasDue && hasStart:
+		nextDue = nullString(next.Format(dateLayout))
+		nextStart = nullString(next.Add(startDate.Sub(dueDate)).Format(dateLayout))
+	case hasDue || !hasStart:
+		nextDue = nullString(next.Format(dateLayout))
+	default:
+		nextStart = nullString(next.Format(dateLayout))
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		return nil, err
+	}
+	defer tx.Rollback()
+
+	result, err := tx.Exec(`
+		INSERT INTO tasks (
+			project_id, title, description, status, priority,
+			due_date, start_date, assignee_id, parent_task_id,
+			progress_percent, estimated_duration_minutes, recurrence, rank
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, `+nextRankSQL+`)`,
+		task.ProjectID,
+		task.Title,
+		task.Description,
+		status,
+		task.Priority,
+		nextDue,
+		nextStart,
+		task.AssigneeID,
+		task.ParentTaskID,
+		task.EstimatedDurationMinutes,
+		rule,
+		task.ProjectID,
+		status,
+	)
+	if err != nil {
+		return nil, err
+	}
+	nextID, _ := result.LastInsertId()
+
+	// Carry tags and co-assignees over to the new occurrence
+	tagRows, err := tx.Query("SELECT tag_id FROM task_tags WHERE task_id = ?", task.ID)
+	if err != nil {
+		return nil, err
+	}
+	var tagIDs []string
+	for tagRows.Next() {
+		var tagID string
+		if err := tagRows.Scan(&tagID); err != nil {
+			tagRows.Close()
+			return nil, err
+		}
+		tagIDs = append(tagIDs, tagID)
+	}
+	tagRows.Close()
+	for _, tagID := range tagIDs {
+		if _, err := tx.Exec("INSERT INTO task_tags (id, task_id, tag_id) VALUES (?, ?, ?)", uuid.New().String(), nextID, tagID); err != nil {
+			return nil, err
+		}
+	}
+
+	assigneeRows, err := tx.Query("SELECT person_id, role FROM task_assignees WHERE task_id = ?", task.ID)
+	if err != nil {
+		return nil, err
+	}
+	var assignees [][2]string
+	for assigneeRows.Next() {
+		var personID, role string
+		if err := assigneeRows.Scan(&personID, &role); err != nil {
+			assigneeRows.Close()
+			return nil, err
+		}
+		assignees = append(assignees, [2]string{personID, role})
+	}
+	assigneeRows.Close()
+	for _, a := range assignees {
+		if _, err := tx.Exec("INSERT INTO task_assignees (id, task_id, person_id, role) VALUES (?, ?, ?, ?)", uuid.New().String(), nextID, a[0], a[1]); err != nil {
+			return nil, err
+		}
+	}
+
+	if _, err := tx.Exec("UPDATE tasks SET recurrence = NULL WHERE id = ?", task.ID); err != nil {
+		return nil, err
+	}
+
+	if err := tx.Commit(); err != nil {
+		return nil, err
+	}
+
+	nextTask, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ?", nextID))
+	if err != nil {
+		return nil, err
+	}
+	logActivity(database, "task", nextTask.ID, nextTask.Title, nextTask.ProjectID, "created", nil)
+	return &nextTask, nil
+}
@@ -27,6 +27,7 @@ type SavedView struct {
 	IsDefault   int            `json:"is_default"`
 	CreatedAt   string         `json:"created_at"`
 	UpdatedAt   string         `json:"updated_at"`
+	Settings    sql.NullString `json:"settings"`
 	ProjectName sql.NullString `json:"project_name"`
 }
 
@@ -38,6 +39,7 @@ type SavedViewResponse struct {
 	ProjectID   *int64                 `json:"project_id"`
 	ProjectName *string                `json:"project_name"`
 	Filters     map[string]interface{} `json:"filters"`
+	Settings    map[string]interface{} `json:"settings"`
 	SortBy      *string                `json:"sort_by"`
 	SortOrder   string                 `json:"sort_order"`
 	IsDefault   bool                   `json:"is_default"`
@@ -54,6 +56,7 @@ type CreateSavedViewRequest struct {
 	SortBy    *string                `json:"sort_by"`
 	SortOrder *string                `json:"sort_order"`
 	IsDefault *bool                  `json:"is_default"`
+	Settings  map[string]interface{} `json:"settings"` // view-specific options, e.g. Kanban WIP limits and swimlanes
 }
 
 // UpdateSavedViewRequest is the request body for updating a saved view
@@ -65,6 +68,7 @@ type UpdateSavedViewRequest struct {
 	SortBy    *string                `json:"sort_by"`
 	SortOrder *string                `json:"sort_order"`
 	IsDefault *bool                  `json:"is_default"`
+	Settings  map[string]interface{} `json:"settings"` // view-specific options, e.g. Kanban WIP limits and swimlanes
 }
 
 // isValidViewType checks if the view type is valid
@@ -84,6 +88,7 @@ func parseSavedView(row *SavedView) (SavedViewResponse, error) {
 		Name:      row.Name,
 		ViewType:  row.ViewType,
 		Filters:   make(map[string]interface{}),
+		Settings:  make(map[string]interface{}),
 		SortOrder: "asc",
 		IsDefault: row.IsDefault == 1,
 		CreatedAt: row.CreatedAt,
@@ -104,6 +109,12 @@ func parseSavedView(row *SavedView) (SavedViewResponse, error) {
 		}
 	}
 
+	if row.Settings.Valid && row.Settings.String != "" {
+		if err := json.Unmarshal([]byte(row.Settings.String), &response.Settings); err != nil {
+			return response, err
+		}
+	}
+
 	if row.SortBy.Valid {
 		response.SortBy = &row.SortBy.String
 	}
@@ -167,6 +178,7 @@ func GetSavedViews(c *gin.Context) {
 			&view.IsDefault,
 			&view.CreatedAt,
 			&view.UpdatedAt,
+			&view.Settings,
 			&view.ProjectName,
 		)
 		if err != nil {
@@ -213,6 +225,7 @@ func GetSavedView(c *gin.Context) {
 		&view.IsDefault,
 		&view.CreatedAt,
 		&view.UpdatedAt,
+		&view.Settings,
 		&view.ProjectName,
 	)
 
@@ -254,10 +267,17 @@ func CreateSavedView(c *gin.Context) {
 
 	filtersJSON := "{}"
 	if req.Filters != nil {
+		db.NormalizeViewFilters(req.Filters)
 		filtersBytes, _ := json.Marshal(req.Filters)
 		filtersJSON = string(filtersBytes)
 	}
 
+	var settingsJSON interface{}
+	if req.Settings != nil {
+		settingsBytes, _ := json.Marshal(req.Settings)
+		settingsJSON = string(settingsBytes)
+	}
+
 	sortOrder := "asc"
 	if req.SortOrder != nil {
 		sortOrder = *req.SortOrder
@@ -295,9 +315,9 @@ func CreateSavedView(c *gin.Context) {
 	}
 
 	_, txInsertErr := tx.Exec(`
-		INSERT INTO saved_views (id, name, view_type, project_id, filters, sort_by, sort_order, is_default, created_at, updated_at)
-		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-	`, id, req.Name, req.ViewType, projectID, filtersJSON, req.SortBy, sortOrder, isDefault, now, now)
+		INSERT INTO saved_views (id, name, view_type, project_id, filters, sort_by, sort_order, is_default, created_at, updated_at, settings)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+	`, id, req.Name, req.ViewType, projectID, filtersJSON, req.SortBy, sortOrder, isDefault, now, now, settingsJSON)
 	if txInsertErr != nil {
 		tx.Rollback()
 		panic(middleware.NewCreateError("saved view"))
@@ -325,6 +345,7 @@ func CreateSavedView(c *gin.Context) {
 		&view.IsDefault,
 		&view.CreatedAt,
 		&view.UpdatedAt,
+		&view.Settings,
 		&view.ProjectName,
 	)
 
@@ -367,6 +388,7 @@ func UpdateSavedView(c *gin.Context) {
 		&existingView.IsDefault,
 		&existingView.CreatedAt,
 		&existingView.UpdatedAt,
+		&existingView.Settings,
 	)
 
 	if err == sql.ErrNoRows {
@@ -403,10 +425,19 @@ func UpdateSavedView(c *gin.Context) {
 
 	filtersJSON := existingView.Filters
 	if req.Filters != nil {
+		db.NormalizeViewFilters(req.Filters)
 		filtersBytes, _ := json.Marshal(req.Filters)
 		filtersJSON = string(filtersBytes)
 	}
 
+	var settingsJSON interface{}
+	if req.Settings != nil {
+		settingsBytes, _ := json.Marshal(req.Settings)
+		settingsJSON = string(settingsBytes)
+	} else if existingView.Settings.Valid {
+		settingsJSON = existingView.Settings.String
+	}
+
 	var sortBy interface{}
 	if req.SortBy != nil {
 		sortBy = *req.SortBy
@@ -452,9 +483,9 @@ func UpdateSavedView(c *gin.Context) {
 
 	_, err = tx.Exec(`
 		UPDATE saved_views 
-		SET name = ?, view_type = ?, project_id = ?, filters = ?, sort_by = ?, sort_order = ?, is_default = ?, updated_at = ?
+		SET name = ?, view_type = ?, project_id = ?, filters = ?, settings = ?, sort_by = ?, sort_order = ?, is_default = ?, updated_at = ?
 		WHERE id = ?
-	`, name, viewType, projectID, filtersJSON, sortBy, sortOrder, isDefault, now, id)
+	`, name, viewType, projectID, filtersJSON, settingsJSON, sortBy, sortOrder, isDefault, now, id)
 
 	if err != nil {
 		tx.Rollback()
@@ -483,6 +514,7 @@ func UpdateSavedView(c *gin.Context) {
 		&view.IsDefault,
 		&view.CreatedAt,
 		&view.UpdatedAt,
+		&view.Settings,
 		&view.ProjectName,
 	)
 
@@ -520,6 +552,7 @@ func DeleteSavedView(c *gin.Context) {
 		&existingView.IsDefault,
 		&existingView.CreatedAt,
 		&existingView.UpdatedAt,
+		&existingView.Settings,
 	)
 
 	if err == sql.ErrNoRows {
@@ -564,6 +597,7 @@ func SetDefaultView(c *gin.Context) {
 		&existingView.IsDefault,
 		&existingView.CreatedAt,
 		&existingView.UpdatedAt,
+		&existingView.Settings,
 	)
 
 	if err == sql.ErrNoRows {
@@ -620,6 +654,7 @@ func SetDefaultView(c *gin.Context) {
 		&view.IsDefault,
 		&view.CreatedAt,
 		&view.UpdatedAt,
+		&view.Settings,
 		&view.ProjectName,
 	)
 
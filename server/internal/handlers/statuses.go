@@ -0,0 +1,528 @@
+package handlers
+
+import (
+	"database/sql"
+	"fmt"
+	"net/http"
+	"regexp"
+	"strings"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Valid status categories; dashboards and progress treat "done" statuses as complete
+var ValidStatusCategories = []string{"not_started", "active", "done"}
+
+// ProjectStatus is one step of a project's workflow. Tasks store the status key.
+type ProjectStatus struct {
+	ID        string `json:"id"`
+	ProjectID int    `json:"project_id"`
+	Key       string `json:"key"`
+	Name      string `json:"name"`
+	Color     string `json:"color"`
+	Category  string `json:"category"`
+	Position  int    `json:"position"`
+	CreatedAt string `json:"created_at"`
+	UpdatedAt string `json:"updated_at"`
+}
+
+// CreateProjectStatusRequest represents the request body for adding a status to a project
+type CreateProjectStatusRequest struct {
+	Name     string `json:"name" binding:"required"`
+	Color    string `json:"color"`
+	Category string `json:"category"`
+}
+
+// UpdateProjectStatusRequest represents the request body for updating a status.
+// The key is fixed at creation so renaming a status doesn't touch its tasks.
+type UpdateProjectStatusRequest struct {
+	Name     *string `json:"name"`
+	Color    *string `json:"color"`
+	Category *string `json:"category"`
+}
+
+// ReorderProjectStatusesRequest lists every status of the project in its new order
+type ReorderProjectStatusesRequest struct {
+	StatusIDs []string `json:"statusIds" binding:"required"`
+}
+
+const projectStatusColumns = "id, project_id, key, name, color, category, position, created_at, updated_at"
+
+var statusKeyInvalidChars = regexp.MustCompile(`[^a-z0-9]+`)
+
+// isValidStatusCategory checks if the status category is valid
+func isValidStatusCategory(category string) bool {
+	for _, c := range ValidStatusCategories {
+		if c == category {
+			return true
+		}
+	}
+	return false
+}
+
+// scanProjectStatus reads a status selected with projectStatusColumns
+func scanProjectStatus(row *sql.Row) (ProjectStatus, error) {
+	var s ProjectStatus
+	err := row.Scan(&s.ID, &s.ProjectID, &s.Key, &s.Name, &s.Color, &s.Category, &s.Position, &s.CreatedAt, &s.UpdatedAt)
+	return s, err
+}
+
+// loadProjectStatuses returns a project's statuses in workflow order
+func loadProjectStatuses(database *db.Database, projectID interface{}) ([]ProjectStatus, error) {
+	rows, err := database.Query(
+		"SELECT "+projectStatusColumns+" FROM project_statuses WHERE project_id = ? ORDER BY position ASC, created_at ASC",
+		projectID,
+	)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	statuses := []ProjectStatus{}
+	for rows.Next() {
+		var s ProjectStatus
+		if err := rows.Scan(&s.ID, &s.ProjectID, &s.Key, &s.Name, &s.Color, &s.Category, &s.Position, &s.CreatedAt, &s.UpdatedAt); err != nil {
+			return nil, err
+		}
+		statuses = append(statuses, s)
+	}
+	return statuses, rows.Err()
+}
+
+// validateTaskStatus returns an error message when status is not one of the project's statuses
+func validateTaskStatus(database *db.Database, projectID interface{}, status string) string {
+	statuses, err := loadProjectStatuses(database, projectID)
+	if err != nil {
+		return "Could not load the project's statuses"
+	}
+	keys := make([]string, len(statuses))
+	for i, s := range statuses {
+		if s.Key == status {
+			return ""
+		}
+		keys[i] = s.Key
+	}
+	return fmt.Sprintf("Invalid status. Must be one of: %s", strings.Join(keys, ", "))
+}
+
+// defaultTaskStatus is the status new tasks get: "todo" when the project has it, otherwise its first status
+func defaultTaskStatus(database *db.Database, projectID interface{}) (string, error) {
+	var key string
+	err := database.QueryRow(`
+		SELECT key FROM project_statuses WHERE project_id = ?
+		ORDER BY key = 'todo' DESC, position ASC, created_at ASC LIMIT 1
+	`, projectID).Scan(&key)
+	return key, err
+}
+
+// isDoneStatus reports whether a status belongs to the project's "done" category
+func isDoneStatus(database *db.Database, projectID interface{}, status string) bool {
+	var done bool
+	err := database.QueryRow(
+		"SELECT 1 FROM project_statuses WHERE project_id = ? AND key = ? AND category = 'done'",
+		projectID, status,
+	).Scan(&done)
+	return err == nil && done
+}
+
+// uniqueStatusKey derives a key from the status name that is not yet used in the project
+func uniqueStatusKey(database *db.Database, projectID interface{}, name string) (string, error) {
+	base := strings.Trim(statusKeyInvalidChars.ReplaceAllString(strings.ToLower(name), "_"), "_")
+	if base == "" {
+		base = "status"
+	}
+	key := base
+	for i := 2; ; i++ {
+		var exists bool
+		err := database.QueryRow("SELECT 1 FROM project_statuses WHERE project_id = ? AND key = ?", projectID, key).Scan(&exists)
+		if err == sql.ErrNoRows {
+			return key, nil
+		}
+		if err != nil {
+			return "", err
+		}
+		key = fmt.Sprintf("%s_%d", base, i)
+	}
+}
+
+// countDoneStatuses counts the project's statuses in the "done" category
+func countDoneStatuses(database *db.Database, projectID interface{}) (int, error) {
+	var count int
+	err := database.QueryRow("SELECT COUNT(*) FROM project_statuses WHERE project_id = ? AND category = 'done'", projectID).Scan(&count)
+	return count, err
+}
+
+// findProjectStatus loads a status by ID, making sure it belongs to the project in the URL
+func findProjectStatus(c *gin.Context, database *db.Database) (ProjectStatus, bool) {
+	status, err := scanProjectStatus(database.QueryRow(`
+		SELECT `+projectStatusColumns+` FROM project_statuses
+		WHERE id = ? AND project_id = ? AND project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
+	`, c.Param("statusId"), c.Param("id")))
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Status"))
+		return status, false
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("status"))
+		return status, false
+	}
+	return status, true
+}
+
+// projectExists checks that a project is present and not in the trash
+func projectExists(database *db.Database, projectID string) bool {
+	var exists bool
+	err := database.QueryRow("SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL", projectID).Scan(&exists)
+	return err == nil && exists
+}
+
+// GetProjectStatuses handles GET /api/projects/:id/statuses - List a project's workflow statuses in order
+func GetProjectStatuses(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	statuses, err := loadProjectStatuses(database, projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("statuses"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(statuses))
+}
+
+// CreateProjectStatus handles POST /api/projects/:id/statuses - Add a status at the end of the workflow
+func CreateProjectStatus(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	var req CreateProjectStatusRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	name := strings.TrimSpace(req.Name)
+	if name == "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Status name is required"))
+		return
+	}
+
+	category := "active"
+	if req.Category != "" {
+		if !isValidStatusCategory(req.Category) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid category. Must be one of: %s", strings.Join(ValidStatusCategories, ", "))))
+			return
+		}
+		category = req.Category
+	}
+
+	color := "#6b7280"
+	if req.Color != "" {
+		color = req.Color
+	}
+
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	key, err := uniqueStatusKey(database, projectID, name)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("status"))
+		return
+	}
+
+	id := uuid.New().String()
+	_, err = database.Exec(`
+		INSERT INTO project_statuses (id, project_id, key, name, color, category, position)
+		VALUES (?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM project_statuses WHERE project_id = ?))
+	`, id, projectID, key, name, color, category, projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("status"))
+		return
+	}
+
+	status, err := scanProjectStatus(database.QueryRow("SELECT "+projectStatusColumns+" FROM project_statuses WHERE id = ?", id))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("status"))
+		return
+	}
+
+	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(status))
+}
+
+// UpdateProjectStatus handles PUT /api/projects/:id/statuses/:statusId - Rename, recolor or recategorize a status
+func UpdateProjectStatus(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var req UpdateProjectStatusRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	status, ok := findProjectStatus(c, database)
+	if !ok {
+		return
+	}
+
+	setClauses := []string{"updated_at = CURRENT_TIMESTAMP"}
+	var params []interface{}
+
+	if req.Name != nil {
+		name := strings.TrimSpace(*req.Name)
+		if name == "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Status name is required"))
+			return
+		}
+		setClauses = append(setClauses, "name = ?")
+		params = append(params, name)
+	}
+
+	if req.Color != nil && *req.Color != "" {
+		setClauses = append(setClauses, "color = ?")
+		params = append(params, *req.Color)
+	}
+
+	if req.Category != nil {
+		if !isValidStatusCategory(*req.Category) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid category. Must be one of: %s", strings.Join(ValidStatusCategories, ", "))))
+			return
+		}
+		// Progress and dashboards need to know what counts as complete
+		if status.Category == "done" && *req.Category != "done" {
+			doneCount, err := countDoneStatuses(database, status.ProjectID)
+			if err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewFetchError("statuses"))
+				return
+			}
+			if doneCount <= 1 {
+				c.JSON(http.StatusBadRequest, middleware.NewValidationError("A project needs at least one status in the done category"))
+				return
+			}
+		}
+		setClauses = append(setClauses, "category = ?")
+		params = append(params, *req.Category)
+	}
+
+	params = append(params, status.ID)
+	if _, err := database.Exec("UPDATE project_statuses SET "+strings.Join(setClauses, ", ")+" WHERE id = ?", params...); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("status"))
+		return
+	}
+
+	updated, err := scanProjectStatus(database.QueryRow("SELECT "+projectStatusColumns+" FROM project_statuses WHERE id = ?", status.ID))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("status"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(updated))
+}
+
+// ReorderProjectStatuses handles PUT /api/projects/:id/statuses/reorder - Set the workflow order
+func ReorderProjectStatuses(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Param("id")
+
+	var req ReorderProjectStatusesRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	if !projectExists(database, projectID) {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
+		return
+	}
+
+	statuses, err := loadProjectStatuses(database, projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("statuses"))
+		return
+	}
+
+	// The new order must name every status of the project exactly once
+	remaining := make(map[string]bool, len(statuses))
+	for _, s := range statuses {
+		remaining[s.ID] = true
+	}
+	for _, id := range req.StatusIDs {
+		if !remaining[id] {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("statusIds must list each of the project's statuses exactly once"))
+			return
+		}
+		delete(remaining, id)
+	}
+	if len(remaining) > 0 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("statusIds must list each of the project's statuses exactly once"))
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("statuses"))
+		return
+	}
+	defer tx.Rollback()
+
+	for position, id := range req.StatusIDs {
+		if _, err := tx.Exec("UPDATE project_statuses SET position = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?", position, id); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("statuses"))
+			return
+		}
+	}
+
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("statuses"))
+		return
+	}
+
+	statuses, err = loadProjectStatuses(database, projectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("statuses"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(statuses))
+}
+
+// DeleteProjectStatus handles DELETE /api/projects/:id/statuses/:statusId?move_to=key - Remove a status.
+// Tasks in the status (including those in the trash) move to the move_to status, which is required when there are any.
+func DeleteProjectStatus(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	moveTo := c.Query("move_to")
+
+	status, ok := findProjectStatus(c, database)
+	if !ok {
+		return
+	}
+
+	statuses, err := loadProjectStatuses(database, status.ProjectID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("statuses"))
+		return
+	}
+	if len(statuses) <= 1 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("A project needs at least one status"))
+		return
+	}
+	if status.Category == "done" {
+		doneCount, err := countDoneStatuses(database, status.ProjectID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("statuses"))
+			return
+		}
+		if doneCount <= 1 {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("A project needs at least one status in the done category"))
+			return
+		}
+	}
+
+	var taskCount int
+	err = database.QueryRow("SELECT COUNT(*) FROM tasks WHERE project_id = ? AND status = ?", status.ProjectID, status.Key).Scan(&taskCount)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+
+	if taskCount > 0 {
+		if moveTo == "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("%d task(s) use this status. Pass move_to with the status to move them to", taskCount)))
+			return
+		}
+		if moveTo == status.Key {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("move_to must be a different status"))
+			return
+		}
+		if msg := validateTaskStatus(database, status.ProjectID, moveTo); msg != "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+			return
+		}
+	}
+
+	// Keep the current versions of live tasks for the activity log
+	var liveIDs []int
+	if taskCount > 0 {
+		rows, err := database.Query("SELECT id FROM tasks WHERE project_id = ? AND status = ? AND deleted_at IS NULL", status.ProjectID, status.Key)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+			return
+		}
+		for rows.Next() {
+			var id int
+			if err := rows.Scan(&id); err != nil {
+				rows.Close()
+				c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+				return
+			}
+			liveIDs = append(liveIDs, id)
+		}
+		rows.Close()
+	}
+	before := map[int]Task{}
+	if len(liveIDs) > 0 {
+		before, err = loadTasksByID(database, liveIDs)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+			return
+		}
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("status"))
+		return
+	}
+	defer tx.Rollback()
+
+	if taskCount > 0 {
+		// The tasks go to the end of the new column, in the order they had
+		rows, err := tx.Query("SELECT id FROM tasks WHERE project_id = ? AND status = ? ORDER BY rank, id", status.ProjectID, status.Key)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+			return
+		}
+		var movedIDs []int
+		for rows.Next() {
+			var id int
+			if err := rows.Scan(&id); err != nil {
+				rows.Close()
+				c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+				return
+			}
+			movedIDs = append(movedIDs, id)
+		}
+		rows.Close()
+		for _, id := range movedIDs {
+			if err := moveToStatus(tx, id, status.ProjectID, moveTo); err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("tasks"))
+				return
+			}
+		}
+	}
+	if _, err := tx.Exec("DELETE FROM project_statuses WHERE id = ?", status.ID); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("status"))
+		return
+	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("status"))
+		return
+	}
+
+	for _, id := range liveIDs {
+		if task, ok := before[id]; ok {
+			logTaskChanges(database, task)
+		}
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Status deleted", "moved_tasks": taskCount}))
+}
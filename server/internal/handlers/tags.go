@@ -169,6 +169,8 @@ func CreateTag(c *gin.Context) {
 		return
 	}
 
+	logActivity(database, "tag", tag.ID, tag.Name, tag.ProjectID, "created", nil)
+
 	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(tag))
 }
 
@@ -248,7 +250,22 @@ func UpdateTag(c *gin.Context) {
 	query += ", updated_at = CURRENT_TIMESTAMP WHERE id = ?"
 	args = append(args, id)
 
-	_, err := database.Exec(query, args...)
+	// Keep the current version for the activity log
+	before, err := scanTagRow(database.QueryRow(`
+		SELECT id, name, color, project_id, created_at, updated_at 
+		FROM tags 
+		WHERE id = ?
+	`, id))
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Tag"))
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tag"))
+		return
+	}
+
+	_, err = database.Exec(query, args...)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("tag"))
 		return
@@ -271,6 +288,8 @@ func UpdateTag(c *gin.Context) {
 		return
 	}
 
+	logChanges(database, "tag", tag.ID, tag.Name, tag.ProjectID, tagChanges(database, before, tag))
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(tag))
 }
 
@@ -285,6 +304,13 @@ func DeleteTag(c *gin.Context) {
 	database := databaseIface.(*db.Database)
 	id := c.Param("id")
 
+	// Keep the tag's name for the activity log
+	tag, _ := scanTagRow(database.QueryRow(`
+		SELECT id, name, color, project_id, created_at, updated_at 
+		FROM tags 
+		WHERE id = ?
+	`, id))
+
 	result, err := database.Exec("DELETE FROM tags WHERE id = ?", id)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("tag"))
@@ -302,5 +328,7 @@ func DeleteTag(c *gin.Context) {
 		return
 	}
 
+	logActivity(database, "tag", id, tag.Name, tag.ProjectID, "deleted", nil)
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Tag deleted successfully"}))
 }
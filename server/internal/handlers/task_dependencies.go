@@ -0,0 +1,285 @@
+package handlers
+
+import (
+	"database/sql"
+	"fmt"
+	"net/http"
+	"strconv"
+	"strings"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Valid dependency types
+var ValidDependencyTypes = []string{"finish_to_start", "start_to_start"}
+
+// TaskDependency represents a link where the blocking task gates the blocked task
+type TaskDependency struct {
+	ID             string `json:"id"`
+	BlockingTaskID int    `json:"blocking_task_id"`
+	BlockedTaskID  int    `json:"blocked_task_id"`
+	DependencyType string `json:"dependency_type"`
+	CreatedAt      string `json:"created_at"`
+}
+
+// CreateTaskDependencyRequest represents the request body for adding a dependency.
+// Exactly one of BlockingTaskID / BlockedTaskID must be set; the other side is the task in the URL.
+type CreateTaskDependencyRequest struct {
+	BlockingTaskID *int   `json:"blocking_task_id"`
+	BlockedTaskID  *int   `json:"blocked_task_id"`
+	DependencyType string `json:"dependency_type"`
+}
+
+// isValidDependencyType checks if the dependency type is valid
+func isValidDependencyType(dependencyType string) bool {
+	for _, t := range ValidDependencyTypes {
+		if t == dependencyType {
+			return true
+		}
+	}
+	return false
+}
+
+// scanTaskDependencies reads all dependency rows from a query result
+func scanTaskDependencies(rows *sql.Rows) ([]TaskDependency, error) {
+	var dependencies []TaskDependency
+	for rows.Next() {
+		var d TaskDependency
+		if err := rows.Scan(&d.ID, &d.BlockingTaskID, &d.BlockedTaskID, &d.DependencyType, &d.CreatedAt); err != nil {
+			return nil, err
+		}
+		dependencies = append(dependencies, d)
+	}
+	if dependencies == nil {
+		dependencies = []TaskDependency{}
+	}
+	return dependencies, rows.Err()
+}
+
+// liveDependencyCondition matches links (aliased td) whose tasks are both not deleted
+const liveDependencyCondition = `td.blocking_task_id IN (SELECT id FROM tasks WHERE deleted_at IS NULL)
+		  AND td.blocked_task_id IN (SELECT id FROM tasks WHERE deleted_at IS NULL)`
+
+// dependencyCreatesCycle reports whether blockedTaskID already (transitively) blocks blockingTaskID
+func dependencyCreatesCycle(database *db.Database, blockingTaskID, blockedTaskID int) (bool, error) {
+	var found int
+	err := database.QueryRow(`
+		WITH RECURSIVE downstream(id) AS (
+			SELECT blocked_task_id FROM task_dependencies WHERE blocking_task_id = ?
+			UNION
+			SELECT td.blocked_task_id FROM task_dependencies td
+			INNER JOIN downstream ds ON td.blocking_task_id = ds.id
+		)
+		SELECT 1 FROM downstream WHERE id = ? LIMIT 1
+	`, blockedTaskID, blockingTaskID).Scan(&found)
+	if err == sql.ErrNoRows {
+		return false, nil
+	}
+	if err != nil {
+		return false, err
+	}
+	return true, nil
+}
+
+// GetAllTaskDependencies handles GET /api/tasks/dependencies - List dependencies, optionally scoped to a project
+func GetAllTaskDependencies(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	projectID := c.Query("projectId")
+
+	// Links to deleted tasks are kept so they come back on restore, but are not listed
+	query := `
+		SELECT td.id, td.blocking_task_id, td.blocked_task_id, td.dependency_type, td.created_at
+		FROM task_dependencies td
+		WHERE ` + liveDependencyCondition
+	var params []interface{}
+
+	if projectID != "" {
+		query += `
+		  AND (td.blocking_task_id IN (SELECT id FROM tasks WHERE project_id = ?)
+		   OR td.blocked_task_id IN (SELECT id FROM tasks WHERE project_id = ?))`
+		params = append(params, projectID, projectID)
+	}
+
+	query += " ORDER BY td.created_at ASC"
+
+	rows, err := database.Query(query, params...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("dependencies"))
+		return
+	}
+	defer rows.Close()
+
+	dependencies, err := scanTaskDependencies(rows)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("dependencies"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(dependencies))
+}
+
+// GetTaskDependencies handles GET /api/tasks/:id/dependencies - Get dependencies in both directions
+func GetTaskDependencies(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	taskID := c.Param("id")
+
+	// Check task exists
+	var exists bool
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
+	if err != nil || !exists {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
+		return
+	}
+
+	rows, err := database.Query(`
+		SELECT td.id, td.blocking_task_id, td.blocked_task_id, td.dependency_type, td.created_at
+		FROM task_dependencies td
+		WHERE (td.blocking_task_id = ? OR td.blocked_task_id = ?) AND `+liveDependencyCondition+`
+		ORDER BY td.created_at ASC`, taskID, taskID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("dependencies"))
+		return
+	}
+	defer rows.Close()
+
+	dependencies, err := scanTaskDependencies(rows)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("dependencies"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(dependencies))
+}
+
+// AddTaskDependency handles POST /api/tasks/:id/dependencies - Add a blocking or blocked-by link
+func AddTaskDependency(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	taskID, err := strconv.Atoi(c.Param("id"))
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid task ID"))
+		return
+	}
+
+	var req CreateTaskDependencyRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	if (req.BlockingTaskID == nil) == (req.BlockedTaskID == nil) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Provide exactly one of blocking_task_id or blocked_task_id"))
+		return
+	}
+
+	blockingTaskID, blockedTaskID := taskID, taskID
+	if req.BlockingTaskID != nil {
+		blockingTaskID = *req.BlockingTaskID
+	} else {
+		blockedTaskID = *req.BlockedTaskID
+	}
+
+	dependencyType := "finish_to_start"
+	if req.DependencyType != "" {
+		if !isValidDependencyType(req.DependencyType) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid dependency type. Must be one of: %s", strings.Join(ValidDependencyTypes, ", "))))
+			return
+		}
+		dependencyType = req.DependencyType
+	}
+
+	if blockingTaskID == blockedTaskID {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Task cannot depend on itself"))
+		return
+	}
+
+	// Check task exists
+	var exists bool
+	err = database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
+	if err != nil || !exists {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
+		return
+	}
+
+	// Check the other task exists
+	otherTaskID := blockingTaskID
+	if otherTaskID == taskID {
+		otherTaskID = blockedTaskID
+	}
+	var otherExists bool
+	err = database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", otherTaskID).Scan(&otherExists)
+	if err != nil || !otherExists {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Dependent task not found"))
+		return
+	}
+
+	// Check if the link already exists
+	var existingID string
+	err = database.QueryRow("SELECT id FROM task_dependencies WHERE blocking_task_id = ? AND blocked_task_id = ?", blockingTaskID, blockedTaskID).Scan(&existingID)
+	if err == nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Dependency already exists"))
+		return
+	}
+	if err != sql.ErrNoRows {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("dependency"))
+		return
+	}
+
+	// Check for cycles: the blocked task must not already block the blocking task
+	hasCycle, err := dependencyCreatesCycle(database, blockingTaskID, blockedTaskID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("dependencies"))
+		return
+	}
+	if hasCycle {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Dependency would create a cycle"))
+		return
+	}
+
+	dependencyID := uuid.New().String()
+
+	_, err = database.Exec(`
+		INSERT INTO task_dependencies (id, blocking_task_id, blocked_task_id, dependency_type)
+		VALUES (?, ?, ?, ?)`, dependencyID, blockingTaskID, blockedTaskID, dependencyType)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("dependency"))
+		return
+	}
+
+	var dependency TaskDependency
+	err = database.QueryRow(`
+		SELECT id, blocking_task_id, blocked_task_id, dependency_type, created_at
+		FROM task_dependencies WHERE id = ?`, dependencyID).Scan(
+		&dependency.ID, &dependency.BlockingTaskID, &dependency.BlockedTaskID, &dependency.DependencyType, &dependency.CreatedAt)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("dependency"))
+		return
+	}
+
+	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(dependency))
+}
+
+// RemoveTaskDependency handles DELETE /api/tasks/:id/dependencies/:depId - Remove a dependency link
+func RemoveTaskDependency(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	taskID := c.Param("id")
+	dependencyID := c.Param("depId")
+
+	result, err := database.Exec(`
+		DELETE FROM task_dependencies
+		WHERE id = ? AND (blocking_task_id = ? OR blocked_task_id = ?)`, dependencyID, taskID, taskID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("dependency"))
+		return
+	}
+
+	rowsAffected, _ := result.RowsAffected()
+	if rowsAffected == 0 {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Dependency"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Dependency removed"}))
+}
@@ -0,0 +1,512 @@
+package handlers
+
+import (
+	"fmt"
+	"regexp"
+	"strconv"
+	"strings"
+	"time"
+	"unicode"
+)
+
+// Task queries filter GET /api/tasks with a line of text, e.g.
+//
+//	status:in_progress priority>=high assignee:me due<+7d cf."Customer"="Acme" has:subtasks
+//
+// Terms are separated by spaces and must all match. A term is field, operator and value;
+// the value may be quoted and may list several values separated by commas, any of which
+// may match. A leading "-" negates a term. Words that aren't terms, including those whose
+// name isn't a field ("Bug: login", "10:30"), search the title and description.
+
+// queryFields are the fields a term can filter on, besides cf.<name>
+var queryFields = []string{
+	"status", "priority", "assignee", "tag", "project", "title",
+	"due", "start", "created", "updated", "estimate", "progress", "has",
+}
+
+// queryHasValues are the values of has:, besides cf.<name>
+var queryHasValues = []string{"subtasks", "parent", "tags", "assignee", "due", "start", "estimate", "recurrence", "notes"}
+
+// priorityWeights order priorities for <, <=, > and >=
+var priorityWeights = map[string]int{"low": 1, "medium": 2, "high": 3, "urgent": 4}
+
+// queryOperators in the order they are matched, so "<=" wins over "<"
+var queryOperators = []string{"!=", "<=", ">=", ":", "=", "<", ">"}
+
+// relativeDatePattern matches dates relative to today: +7d, -2w, +1m, -1y
+var relativeDatePattern = regexp.MustCompile(`^([+-])(\d+)([dwmy])$`)
+
+// estimatePattern matches durations: 90, 90m, 2h, 1h30m, 1d (one workday)
+var estimatePattern = regexp.MustCompile(`^(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m?)?$`)
+
+// queryDateColumns are the columns of the date fields
+var queryDateColumns = map[string]string{"due": "t.due_date", "start": "t.start_date", "created": "t.created_at", "updated": "t.updated_at"}
+
+// queryNullableColumns are the columns of fields a task may not have a value for. A
+// negated term matches tasks without one, so -due<today keeps tasks without a due date.
+var queryNullableColumns = map[string]string{"due": "t.due_date", "start": "t.start_date", "estimate": "t.estimated_duration_minutes"}
+
+// workdayMinutes is the length of the "d" unit in estimates
+const workdayMinutes = 8 * 60
+
+// queryTerm is one term of a task query. Field is empty for a text search.
+type queryTerm struct {
+	Negated bool
+	Field   string
+	Op      string
+	Values  []string
+	Pos     int
+}
+
+// QueryError is a task query that can't be understood. Pos is the offset of the
+// offending term in the query.
+type QueryError struct {
+	Pos     int
+	Message string
+}
+
+// Error implements the error interface for QueryError
+func (e *QueryError) Error() string {
+	return e.Message
+}
+
+// taskQueryContext holds what compiling a query needs besides the query itself
+type taskQueryContext struct {
+	Me    string    // the person "me" refers to
+	Today time.Time // relative dates count from here
+}
+
+// isQueryField tells whether a name before an operator is a field of a term
+func isQueryField(name string) bool {
+	lower := strings.ToLower(name)
+	for _, field := range queryFields {
+		if lower == field {
+			return true
+		}
+	}
+	return strings.HasPrefix(lower, "cf.")
+}
+
+// parseTaskQuery splits a query into terms
+func parseTaskQuery(query string) ([]queryTerm, error) {
+	runes := []rune(query)
+	var terms []queryTerm
+	i := 0
+
+	// readValue reads a quoted string, or text up to a space, a comma or one of stop.
+	// Quotes inside the text (has:cf."Due by") keep their spaces and are kept as is.
+	readValue := func(stop string) (string, error) {
+		if i < len(runes) && runes[i] == '"' {
+			start := i
+			i++
+			var b strings.Builder
+			for i < len(runes) && runes[i] != '"' {
+				if runes[i] == '\\' && i+1 < len(runes) {
+					i++
+				}
+				b.WriteRune(runes[i])
+				i++
+			}
+			if i >= len(runes) {
+				return "", &QueryError{Pos: start, Message: "Missing closing quote"}
+			}
+			i++
+			return b.String(), nil
+		}
+		start := i
+		inQuote := false
+		for i < len(runes) && (inQuote || !unicode.IsSpace(runes[i]) && runes[i] != ',' && !strings.ContainsRune(stop, runes[i])) {
+			if runes[i] == '"' {
+				inQuote = !inQuote
+			}
+			i++
+		}
+		if inQuote {
+			return "", &QueryError{Pos: start, Message: "Missing closing quote"}
+		}
+		return string(runes[start:i]), nil
+	}
+
+	for i < len(runes) {
+		if unicode.IsSpace(runes[i]) {
+			i++
+			continue
+		}
+
+		term := queryTerm{Pos: i}
+		if runes[i] == '-' && i+1 < len(runes) && !unicode.IsSpace(runes[i+1]) {
+			term.Negated = true
+			i++
+		}
+
+		// Field name, with a quoted name after "cf."
+		fieldStart := i
+		field, err := readValue(":=!<>\"")
+		if err != nil {
+			return nil, err
+		}
+		if strings.EqualFold(field, "cf.") && i < len(runes) && runes[i] == '"' {
+			name, err := readValue(":=!<>")
+			if err != nil {
+				return nil, err
+			}
+			field = "cf." + name
+		}
+
+		op := ""
+		rest := string(runes[i:])
+		for _, candidate := range queryOperators {
+			if strings.HasPrefix(rest, candidate) {
+				op = candidate
+				break
+			}
+		}
+		if op == "" || !isQueryField(field) {
+			// Not a term: search for the word, or the quoted phrase, itself
+			i = fieldStart
+			var word string
+			if runes[i] == '"' {
+				if word, err = readValue(""); err != nil {
+					return nil, err
+				}
+			}
+			for i < len(runes) && !unicode.IsSpace(runes[i]) {
+				i++
+			}
+			if word == "" {
+				word = string(runes[fieldStart:i])
+			}
+			term.Values = []string{word}
+			terms = append(terms, term)
+			continue
+		}
+		i += len([]rune(op))
+
+		term.Field = strings.ToLower(field)
+		if strings.HasPrefix(term.Field, "cf.") {
+			term.Field = "cf." + field[3:]
+		}
+		term.Op = op
+		for {
+			value, err := readValue("")
+			if err != nil {
+				return nil, err
+			}
+			if value != "" {
+				term.Values = append(term.Values, value)
+			}
+			if i < len(runes) && runes[i] == ',' {
+				i++
+				continue
+			}
+			break
+		}
+		if i < len(runes) && !unicode.IsSpace(runes[i]) {
+			return nil, &QueryError{Pos: i, Message: fmt.Sprintf("Unexpected %q after %s", runes[i], field)}
+		}
+		if len(term.Values) == 0 {
+			return nil, &QueryError{Pos: term.Pos, Message: fmt.Sprintf("%s%s needs a value", field, op)}
+		}
+		terms = append(terms, term)
+	}
+	return terms, nil
+}
+
+// compileTaskQuery turns a query into a SQL condition on the tasks table (aliased t)
+// and its parameters. An empty query matches every task.
+func compileTaskQuery(query string, ctx taskQueryContext) (string, []interface{}, error) {
+	terms, err := parseTaskQuery(query)
+	if err != nil {
+		return "", nil, err
+	}
+
+	var conditions []string
+	var params []interface{}
+	for _, term := range terms {
+		negated := term.Negated
+		if term.Op == "!=" {
+			negated = !negated
+			term.Op = "="
+		}
+
+		// Several values match when any of them does
+		var alternatives []string
+		for _, value := range term.Values {
+			condition, valueParams, err := compileQueryValue(term, value, ctx)
+			if err != nil {
+				return "", nil, err
+			}
+			alternatives = append(alternatives, condition)
+			params = append(params, valueParams...)
+		}
+		condition := "(" + strings.Join(alternatives, " OR ") + ")"
+		if negated {
+			condition = "NOT " + condition
+			if column, ok := queryNullableColumns[term.Field]; ok {
+				condition = "(" + column + " IS NULL OR " + condition + ")"
+			}
+		}
+		conditions = append(conditions, condition)
+	}
+
+	if len(conditions) == 0 {
+		return "1 = 1", nil, nil
+	}
+	return strings.Join(conditions, " AND "), params, nil
+}
+
+// compileQueryValue compiles a term for one of its values
+func compileQueryValue(term queryTerm, value string, ctx taskQueryContext) (string, []interface{}, error) {
+	fail := func(format string, args ...interface{}) (string, []interface{}, error) {
+		return "", nil, &QueryError{Pos: term.Pos, Message: fmt.Sprintf(format, args...)}
+	}
+	isEquality := term.Op == ":" || term.Op == "="
+	lower := strings.ToLower(value)
+
+	if term.Field == "" {
+		like := "%" + escapeLike(value) + "%"
+		return `(t.title LIKE ? ESCAPE '\' OR COALESCE(t.description, '') LIKE ? ESCAPE '\')`, []interface{}{like, like}, nil
+	}
+
+	if strings.HasPrefix(term.Field, "cf.") {
+		return compileCustomFieldValue(term, value, ctx)
+	}
+
+	switch term.Field {
+	case "status":
+		if !isEquality {
+			return fail("status only supports : and !=")
+		}
+		return "t.status = ?", []interface{}{lower}, nil
+
+	case "priority":
+		weight, ok := priorityWeights[lower]
+		if !ok {
+			return fail("Unknown priority %q (use low, medium, high or urgent)", value)
+		}
+		if isEquality {
+			return "t.priority = ?", []interface{}{lower}, nil
+		}
+		return "(CASE t.priority WHEN 'low' THEN 1 WHEN 'medium' THEN 2 WHEN 'high' THEN 3 WHEN 'urgent' THEN 4 END) " + term.Op + " ?",
+			[]interface{}{weight}, nil
+
+	case "assignee":
+		if !isEquality {
+			return fail("assignee only supports : and !=")
+		}
+		// The assignee or a co-assignee, as with the assignee_id filter
+		assigned := func(condition string) string {
+			return `EXISTS (
+				SELECT 1 FROM people p
+				WHERE (p.id = t.assignee_id OR p.id IN (SELECT ta.person_id FROM task_assignees ta WHERE ta.task_id = t.id))
+				AND ` + condition + `
+			)`
+		}
+		switch lower {
+		case "none":
+			return "(t.assignee_id IS NULL AND NOT EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id))", nil, nil
+		case "me":
+			if ctx.Me == "" {
+				return fail("Choose who you are on the People page to use assignee:me")
+			}
+			return assigned("p.id = ?"), []interface{}{ctx.Me}, nil
+		}
+		// Full name, first name or the part of the email before the @
+		return assigned(`(LOWER(p.name) = ? OR LOWER(p.name) LIKE ? ESCAPE '\' OR LOWER(COALESCE(p.email, '')) LIKE ? ESCAPE '\')`),
+			[]interface{}{lower, escapeLike(lower) + " %", escapeLike(lower) + "@%"}, nil
+
+	case "tag":
+		if !isEquality {
+			return fail("tag only supports : and !=")
+		}
+		return `EXISTS (
+			SELECT 1 FROM task_tags tt JOIN tags g ON g.id = tt.tag_id
+			WHERE tt.task_id = t.id AND LOWER(g.name) = ?
+		)`, []interface{}{lower}, nil
+
+	case "project":
+		if !isEquality {
+			return fail("project only supports : and !=")
+		}
+		return "EXISTS (SELECT 1 FROM projects p WHERE p.id = t.project_id AND (LOWER(p.name) = ? OR CAST(p.id AS TEXT) = ?))",
+			[]interface{}{lower, lower}, nil
+
+	case "title":
+		if !isEquality {
+			return fail("title only supports : and !=")
+		}
+		return `t.title LIKE ? ESCAPE '\'`, []interface{}{"%" + escapeLike(value) + "%"}, nil
+
+	case "due", "start", "created", "updated":
+		column := queryDateColumns[term.Field]
+		date, ok := resolveQueryDate(value, ctx.Today)
+		if !ok {
+			return fail("Unknown date %q (use YYYY-MM-DD, today, tomorrow, yesterday or +7d, -2w, +1m)", value)
+		}
+		op := term.Op
+		if isEquality {
+			op = "="
+		}
+		return "date(" + column + ") " + op + " ?", []interface{}{date}, nil
+
+	case "estimate":
+		minutes, ok := parseQueryMinutes(lower)
+		if !ok {
+			return fail("Unknown estimate %q (use minutes or 2h, 1h30m, 1d)", value)
+		}
+		op := term.Op
+		if isEquality {
+			op = "="
+		}
+		return "t.estimated_duration_minutes " + op + " ?", []interface{}{minutes}, nil
+
+	case "progress":
+		percent, err := strconv.Atoi(strings.TrimSuffix(lower, "%"))
+		if err != nil {
+			return fail("progress takes a percentage, not %q", value)
+		}
+		op := term.Op
+		if isEquality {
+			op = "="
+		}
+		return "COALESCE(t.progress_percent, 0) " + op + " ?", []interface{}{percent}, nil
+
+	case "has":
+		if !isEquality {
+			return fail("has only supports :")
+		}
+		if strings.HasPrefix(lower, "cf.") {
+			return `EXISTS (
+				SELECT 1 FROM custom_field_values v JOIN custom_fields f ON f.id = v.custom_field_id
+				WHERE v.task_id = t.id AND LOWER(f.name) = ? AND COALESCE(v.value, '') NOT IN ('', '[]', 'false')
+			)`, []interface{}{strings.Trim(lower[3:], `"`)}, nil
+		}
+		switch lower {
+		case "subtasks":
+			return "EXISTS (SELECT 1 FROM tasks st WHERE st.parent_task_id = t.id AND st.deleted_at IS NULL)", nil, nil
+		case "parent":
+			return "t.parent_task_id IS NOT NULL", nil, nil
+		case "tags":
+			return "EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id)", nil, nil
+		case "assignee":
+			return "(t.assignee_id IS NOT NULL OR EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id))", nil, nil
+		case "due":
+			return "t.due_date IS NOT NULL", nil, nil
+		case "start":
+			return "t.start_date IS NOT NULL", nil, nil
+		case "estimate":
+			return "COALESCE(t.estimated_duration_minutes, 0) > 0", nil, nil
+		case "recurrence":
+			return "t.recurrence IS NOT NULL", nil, nil
+		case "notes":
+			return "EXISTS (SELECT 1 FROM notes n WHERE n.entity_type = 'task' AND n.entity_id = CAST(t.id AS TEXT) AND n.deleted_at IS NULL)", nil, nil
+		}
+		return fail("Unknown has:%s (use %s or cf.<field>)", value, strings.Join(queryHasValues, ", "))
+	}
+
+	return fail("Unknown field %q (use %s or cf.<field>)", term.Field, strings.Join(queryFields, ", "))
+}
+
+// compileCustomFieldValue compiles a cf.<name> term. The field is matched by name, so
+// a query works across projects that each define a field of that name. Comparisons
+// follow the field type: numbers, currencies and ratings compare as numbers, dates accept
+// relative dates, multiselect fields match when any chosen option does, person fields
+// match the person's name, relation fields match a related task ID, and text is
+// case-insensitive. Formula fields aren't stored, so they never match.
+func compileCustomFieldValue(term queryTerm, value string, ctx taskQueryContext) (string, []interface{}, error) {
+	name := strings.ToLower(term.Field[3:])
+	if name == "" {
+		return "", nil, &QueryError{Pos: term.Pos, Message: "cf. needs a field name, e.g. cf.\"Customer\""}
+	}
+
+	date := value
+	if resolved, ok := resolveQueryDate(value, ctx.Today); ok {
+		date = resolved
+	}
+
+	var comparison string
+	var params []interface{}
+	if term.Op == ":" || term.Op == "=" {
+		checkbox := "false"
+		switch strings.ToLower(value) {
+		case "true", "yes", "1":
+			checkbox = "true"
+		}
+		comparison = `CASE
+			WHEN f.field_type IN ('number', 'currency', 'rating') THEN CAST(v.value AS REAL) = CAST(? AS REAL)
+			WHEN f.field_type = 'date' THEN date(v.value) = ?
+			WHEN f.field_type = 'checkbox' THEN v.value = ?
+			WHEN f.field_type = 'multiselect' THEN json_valid(v.value) AND EXISTS (SELECT 1 FROM json_each(v.value) j WHERE LOWER(j.value) = LOWER(?))
+			WHEN f.field_type = 'person' THEN EXISTS (SELECT 1 FROM people p WHERE p.id = v.value AND (LOWER(p.name) = LOWER(?) OR p.id = ?))
+			WHEN f.field_type = 'relation' THEN json_valid(v.value) AND EXISTS (SELECT 1 FROM json_each(v.value) j WHERE CAST(j.value AS TEXT) = ?)
+			ELSE LOWER(v.value) = LOWER(?)
+		END`
+		params = []interface{}{value, date, checkbox, value, value, value, value, value}
+	} else {
+		comparison = `CASE
+			WHEN f.field_type IN ('number', 'currency', 'rating') THEN CAST(v.value AS REAL) ` + term.Op + ` CAST(? AS REAL)
+			WHEN f.field_type = 'date' THEN date(v.value) ` + term.Op + ` ?
+			ELSE LOWER(v.value) ` + term.Op + ` LOWER(?)
+		END`
+		params = []interface{}{value, date, value}
+	}
+
+	return `EXISTS (
+		SELECT 1 FROM custom_field_values v JOIN custom_fields f ON f.id = v.custom_field_id
+		WHERE v.task_id = t.id AND LOWER(f.name) = ? AND v.value IS NOT NULL AND ` + comparison + `
+	)`, append([]interface{}{name}, params...), nil
+}
+
+// escapeLike escapes the wildcards of LIKE in text to match as is, with ESCAPE '\'
+func escapeLike(text string) string {
+	return strings.NewReplacer(`\`, `\\`, "%", `\%`, "_", `\_`).Replace(text)
+}
+
+// resolveQueryDate turns a query date into YYYY-MM-DD
+func resolveQueryDate(value string, today time.Time) (string, bool) {
+	lower := strings.ToLower(value)
+	switch lower {
+	case "today":
+		return today.Format(dateLayout), true
+	case "tomorrow":
+		return today.AddDate(0, 0, 1).Format(dateLayout), true
+	case "yesterday":
+		return today.AddDate(0, 0, -1).Format(dateLayout), true
+	}
+	if m := relativeDatePattern.FindStringSubmatch(lower); m != nil {
+		n, _ := strconv.Atoi(m[2])
+		if m[1] == "-" {
+			n = -n
+		}
+		switch m[3] {
+		case "d":
+			return today.AddDate(0, 0, n).Format(dateLayout), true
+		case "w":
+			return today.AddDate(0, 0, 7*n).Format(dateLayout), true
+		case "m":
+			return today.AddDate(0, n, 0).Format(dateLayout), true
+		case "y":
+			return today.AddDate(n, 0, 0).Format(dateLayout), true
+		}
+	}
+	if date, err := time.Parse(dateLayout, value); err == nil {
+		return date.Format(dateLayout), true
+	}
+	return "", false
+}
+
+// parseQueryMinutes reads an estimate into minutes
+func parseQueryMinutes(value string) (int, bool) {
+	m := estimatePattern.FindStringSubmatch(value)
+	if m == nil || value == "" {
+		return 0, false
+	}
+	minutes := 0
+	for i, unit := range []int{workdayMinutes, 60, 1} {
+		if m[i+1] != "" {
+			n, _ := strconv.Atoi(m[i+1])
+			minutes += n * unit
+		}
+	}
+	return minutes, true
+}
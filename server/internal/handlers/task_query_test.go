@@ -0,0 +1,63 @@
+package handlers
+
+import (
+	"reflect"
+	"testing"
+)
+
+func TestParseTaskQueryTextWithOperators(t *testing.T) {
+	// Words whose name isn't a field stay text, even with an operator in them
+	cases := []struct {
+		query string
+		words []string
+	}{
+		{"Bug: login", []string{"Bug:", "login"}},
+		{"fix 10:30 standup", []string{"fix", "10:30", "standup"}},
+		{"http://example.com", []string{"http://example.com"}},
+		{"a<b x=y", []string{"a<b", "x=y"}},
+	}
+	for _, tc := range cases {
+		terms, err := parseTaskQuery(tc.query)
+		if err != nil {
+			t.Errorf("parseTaskQuery(%q): %v", tc.query, err)
+			continue
+		}
+		var words []string
+		for _, term := range terms {
+			if term.Field != "" {
+				t.Errorf("parseTaskQuery(%q): %q read as a field", tc.query, term.Field)
+			}
+			words = append(words, term.Values...)
+		}
+		if !reflect.DeepEqual(words, tc.words) {
+			t.Errorf("parseTaskQuery(%q) = %q, want %q", tc.query, words, tc.words)
+		}
+	}
+}
+
+func TestParseTaskQueryFields(t *testing.T) {
+	cases := []struct {
+		query string
+		field string
+		op    string
+	}{
+		{"status:todo", "status", ":"},
+		{"Priority>=high", "priority", ">="},
+		{`cf."Customer"=Acme`, "cf.Customer", "="},
+		{"-due<today", "due", "<"},
+	}
+	for _, tc := range cases {
+		terms, err := parseTaskQuery(tc.query)
+		if err != nil {
+			t.Errorf("parseTaskQuery(%q): %v", tc.query, err)
+			continue
+		}
+		if len(terms) != 1 || terms[0].Field != tc.field || terms[0].Op != tc.op {
+			t.Errorf("parseTaskQuery(%q) = %+v, want field %q with %q", tc.query, terms, tc.field, tc.op)
+		}
+	}
+
+	if _, err := parseTaskQuery("status:"); err == nil {
+		t.Error(`parseTaskQuery("status:") should need a value`)
+	}
+}
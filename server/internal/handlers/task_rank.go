@@ -0,0 +1,197 @@
+package handlers
+
+import (
+	"database/sql"
+	"fmt"
+	"net/http"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+)
+
+// Tasks are ordered by a fractional rank shared by all tasks of a project with the same
+// status. Subtasks use the same ranks, so siblings keep their relative order as well.
+// Moving a task only rewrites its own rank (halfway between its new neighbours); the
+// column is renumbered only once the gap between two neighbours has been split too often.
+
+// nextRankSQL ranks a new task after every other task of its project and status.
+// Its parameters are the project ID and the status.
+var nextRankSQL = fmt.Sprintf("(SELECT COALESCE(MAX(rank), 0) + %g FROM tasks WHERE project_id = ? AND status = ?)", db.RankStep)
+
+// moveToStatus gives a task a new status and ranks it after every other task of its
+// project with that status. Tasks moved one after another keep the order they were moved in.
+func moveToStatus(q execer, taskID, projectID int, status string) error {
+	_, err := q.Exec("UPDATE tasks SET status = ?, rank = "+nextRankSQL+", updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+		status, projectID, status, taskID)
+	return err
+}
+
+// minRankGap is the smallest gap between two neighbours that can still be split
+const minRankGap = 1e-6
+
+// ReorderTaskRequest represents the request body for moving a task within its column.
+// Omit previous_task_id to move to the top, next_task_id to move to the bottom.
+type ReorderTaskRequest struct {
+	PreviousTaskID *int `json:"previous_task_id"`
+	NextTaskID     *int `json:"next_task_id"`
+}
+
+// TaskRank is the new rank of a task whose column was renumbered
+type TaskRank struct {
+	ID   int     `json:"id"`
+	Rank float64 `json:"rank"`
+}
+
+// ReorderTaskResponse is the moved task plus any other tasks whose rank changed
+type ReorderTaskResponse struct {
+	Task       Task       `json:"task"`
+	Renumbered []TaskRank `json:"renumbered,omitempty"`
+}
+
+// ReorderTask handles PUT /api/tasks/:id/rank - Move a task between two neighbours
+func ReorderTask(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	taskID := c.Param("id")
+
+	var req ReorderTaskRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
+	task, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID))
+	if err != nil {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
+		return
+	}
+	if (req.PreviousTaskID != nil && *req.PreviousTaskID == task.ID) || (req.NextTaskID != nil && *req.NextTaskID == task.ID) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("A task cannot be its own neighbour"))
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("task order"))
+		return
+	}
+	defer tx.Rollback()
+
+	// Neighbours must sit in the same column, otherwise their ranks aren't comparable
+	neighbourRank := func(id *int) (*float64, error) {
+		if id == nil {
+			return nil, nil
+		}
+		var rank float64
+		err := tx.QueryRow(
+			"SELECT rank FROM tasks WHERE id = ? AND project_id = ? AND status = ? AND deleted_at IS NULL",
+			*id, task.ProjectID, task.Status,
+		).Scan(&rank)
+		return &rank, err
+	}
+	loadNeighbours := func() (*float64, *float64, error) {
+		prev, err := neighbourRank(req.PreviousTaskID)
+		if err != nil {
+			return nil, nil, err
+		}
+		next, err := neighbourRank(req.NextTaskID)
+		return prev, next, err
+	}
+
+	prev, next, err := loadNeighbours()
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Neighbouring tasks must be in the same project and status as the task"))
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+	if prev != nil && next != nil && *prev >= *next {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("The previous task must come before the next task"))
+		return
+	}
+
+	var renumbered []TaskRank
+	rank, ok := rankBetween(prev, next)
+	if !ok {
+		if renumbered, err = renumberTaskRanks(tx, task); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("task order"))
+			return
+		}
+		if prev, next, err = loadNeighbours(); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+			return
+		}
+		rank, _ = rankBetween(prev, next)
+	}
+	if prev == nil && next == nil {
+		// No neighbours: move to the end of the column
+		err = tx.QueryRow(
+			fmt.Sprintf("SELECT COALESCE(MAX(rank), 0) + %g FROM tasks WHERE project_id = ? AND status = ? AND id != ? AND deleted_at IS NULL", db.RankStep),
+			task.ProjectID, task.Status, task.ID,
+		).Scan(&rank)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+			return
+		}
+	}
+
+	if _, err := tx.Exec("UPDATE tasks SET rank = ? WHERE id = ?", rank, task.ID); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("task order"))
+		return
+	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("task order"))
+		return
+	}
+
+	task.Rank = rank
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(ReorderTaskResponse{Task: task, Renumbered: renumbered}))
+}
+
+// rankBetween returns the rank halfway between two neighbours, or one step past the
+// only neighbour given. It reports false when the neighbours are too close to split.
+func rankBetween(prev, next *float64) (float64, bool) {
+	switch {
+	case prev != nil && next != nil:
+		return (*prev + *next) / 2, *next-*prev > minRankGap
+	case prev != nil:
+		return *prev + db.RankStep, true
+	case next != nil:
+		return *next - db.RankStep, true
+	}
+	return 0, true
+}
+
+// renumberTaskRanks spaces out the ranks of every other task in the task's column,
+// keeping their order, and returns the new ranks
+func renumberTaskRanks(tx *sql.Tx, task Task) ([]TaskRank, error) {
+	rows, err := tx.Query(`
+		SELECT id FROM tasks
+		WHERE project_id = ? AND status = ? AND id != ? AND deleted_at IS NULL
+		ORDER BY rank ASC, id ASC`, task.ProjectID, task.Status, task.ID)
+	if err != nil {
+		return nil, err
+	}
+	var ranks []TaskRank
+	for rows.Next() {
+		var id int
+		if err := rows.Scan(&id); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		ranks = append(ranks, TaskRank{ID: id, Rank: float64(len(ranks)+1) * db.RankStep})
+	}
+	rows.Close()
+	if err := rows.Err(); err != nil {
+		return nil, err
+	}
+
+	for _, r := range ranks {
+		if _, err := tx.Exec("UPDATE tasks SET rank = ? WHERE id = ?", r.Rank, r.ID); err != nil {
+			return nil, err
+		}
+	}
+	return ranks, nil
+}
@@ -5,8 +5,10 @@ import (
 	"encoding/json"
 	"fmt"
 	"net/http"
+	"sort"
 	"strconv"
 	"strings"
+	"time"
 
 	"github.com/celestask/server/internal/db"
 	"github.com/celestask/server/internal/middleware"
@@ -14,30 +16,36 @@ import (
 	"github.com/google/uuid"
 )
 
-// Valid status and priority values
-var (
-	ValidStatuses   = []string{"backlog", "todo", "in_progress", "review", "done"}
-	ValidPriorities = []string{"low", "medium", "high", "urgent"}
-)
+// Valid priority values (statuses are configured per project, see statuses.go)
+var ValidPriorities = []string{"low", "medium", "high", "urgent"}
 
 // Task represents a task in the database
 type Task struct {
-	ID                       int            `json:"id"`
-	ProjectID                int            `json:"project_id"`
-	ParentTaskID             sql.NullInt64  `json:"parent_task_id"`
-	Title                    string         `json:"title"`
-	Description              sql.NullString `json:"description"`
-	Status                   string         `json:"status"`
-	Priority                 string         `json:"priority"`
-	AssigneeID               sql.NullString `json:"assignee_id"`
-	DueDate                  sql.NullString `json:"due_date"`
-	StartDate                sql.NullString `json:"start_date"`
-	EndDate                  sql.NullString `json:"end_date"`
-	ProgressPercent          int            `json:"progress_percent"`
-	EstimatedDurationMinutes sql.NullInt64  `json:"estimated_duration_minutes"`
-	ActualDurationMinutes    sql.NullInt64  `json:"actual_duration_minutes"`
-	CreatedAt                string         `json:"created_at"`
-	UpdatedAt                string         `json:"updated_at"`
+	ID                       int             `json:"id"`
+	ProjectID                int             `json:"project_id"`
+	ParentTaskID             sql.NullInt64   `json:"parent_task_id"`
+	Title                    string          `json:"title"`
+	Description              sql.NullString  `json:"description"`
+	Status                   string          `json:"status"`
+	Priority                 string          `json:"priority"`
+	AssigneeID               sql.NullString  `json:"assignee_id"`
+	DueDate                  sql.NullString  `json:"due_date"`
+	StartDate                sql.NullString  `json:"start_date"`
+	EndDate                  sql.NullString  `json:"end_date"`
+	ProgressPercent          int             `json:"progress_percent"`
+	EstimatedDurationMinutes sql.NullInt64   `json:"estimated_duration_minutes"`
+	ActualDurationMinutes    sql.NullInt64   `json:"actual_duration_minutes"`
+	CreatedAt                string          `json:"created_at"`
+	UpdatedAt                string          `json:"updated_at"`
+	Recurrence               *TaskRecurrence `json:"recurrence"`
+	DeletedAt                sql.NullString  `json:"deleted_at"`
+	Rank                     float64         `json:"rank"` // manual order within the task's status, see task_rank.go
+}
+
+// TaskWithNextOccurrence is returned when completing a recurring task created its next occurrence
+type TaskWithNextOccurrence struct {
+	Task
+	NextOccurrence *Task `json:"next_occurrence,omitempty"`
 }
 
 // TaskWithRelations represents a task with its related data
@@ -84,30 +92,31 @@ type ChildProgress struct {
 
 // TaskCustomFieldValue represents a custom field value for a task
 type TaskCustomFieldValue struct {
-	ID            string         `json:"id"`
-	TaskID        int            `json:"task_id"`
-	CustomFieldID string         `json:"custom_field_id"`
-	Value         sql.NullString `json:"value"`
-	CreatedAt     string         `json:"created_at"`
-	UpdatedAt     string         `json:"updated_at"`
-	CustomField   CustomField    `json:"custom_field"`
+	ID            string      `json:"id"`
+	TaskID        int         `json:"task_id"`
+	CustomFieldID string      `json:"custom_field_id"`
+	Value         *string     `json:"value"`
+	CreatedAt     string      `json:"created_at"`
+	UpdatedAt     string      `json:"updated_at"`
+	CustomField   CustomField `json:"custom_field"`
 }
 
 // CreateTaskRequest represents the request body for creating a task
 type CreateTaskRequest struct {
-	ProjectID                int    `json:"project_id" binding:"required"`
-	Title                    string `json:"title" binding:"required"`
-	Description              string `json:"description"`
-	Status                   string `json:"status"`
-	Priority                 string `json:"priority"`
-	DueDate                  string `json:"due_date"`
-	StartDate                string `json:"start_date"`
-	EndDate                  string `json:"end_date"`
-	AssigneeID               string `json:"assignee_id"`
-	ParentTaskID             *int   `json:"parent_task_id"`
-	ProgressPercent          int    `json:"progress_percent"`
-	EstimatedDurationMinutes int    `json:"estimated_duration_minutes"`
-	ActualDurationMinutes    int    `json:"actual_duration_minutes"`
+	ProjectID                int             `json:"project_id" binding:"required"`
+	Title                    string          `json:"title" binding:"required"`
+	Description              string          `json:"description"`
+	Status                   string          `json:"status"`
+	Priority                 string          `json:"priority"`
+	DueDate                  string          `json:"due_date"`
+	StartDate                string          `json:"start_date"`
+	EndDate                  string          `json:"end_date"`
+	AssigneeID               string          `json:"assignee_id"`
+	ParentTaskID             *int            `json:"parent_task_id"`
+	ProgressPercent          int             `json:"progress_percent"`
+	EstimatedDurationMinutes int             `json:"estimated_duration_minutes"`
+	ActualDurationMinutes    int             `json:"actual_duration_minutes"`
+	Recurrence               *TaskRecurrence `json:"recurrence"`
 }
 
 // UpdateTaskRequest represents the request body for updating a task
@@ -125,11 +134,13 @@ type UpdateTaskRequest struct {
 	ProgressPercent          *int    `json:"progress_percent"`
 	EstimatedDurationMinutes *int    `json:"estimated_duration_minutes"`
 	ActualDurationMinutes    *int    `json:"actual_duration_minutes"`
+	// Recurrence is raw so an explicit null (stop repeating) can be told apart from an omitted field
+	Recurrence json.RawMessage `json:"recurrence"`
 }
 
 // BulkUpdateRequest represents the request body for bulk updates
 type BulkUpdateRequest struct {
-	TaskIDs []int `json:"task_ids" binding:"required"`
+	TaskIDs []int `json:"taskIds" binding:"required"`
 	Updates struct {
 		Status     string `json:"status"`
 		Priority   string `json:"priority"`
@@ -153,16 +164,6 @@ type SetCustomFieldRequest struct {
 	Value interface{} `json:"value"`
 }
 
-// isValidStatus checks if the status is valid
-func isValidStatus(status string) bool {
-	for _, s := range ValidStatuses {
-		if s == status {
-			return true
-		}
-	}
-	return false
-}
-
 // isValidPriority checks if the priority is valid
 func isValidPriority(priority string) bool {
 	for _, p := range ValidPriorities {
@@ -193,6 +194,9 @@ func scanTask(rows *sql.Rows) (Task, error) {
 		&t.ActualDurationMinutes,
 		&t.CreatedAt,
 		&t.UpdatedAt,
+		&t.Recurrence,
+		&t.DeletedAt,
+		&t.Rank,
 	)
 	return t, err
 }
@@ -217,23 +221,52 @@ func scanTaskRow(row *sql.Row) (Task, error) {
 		&t.ActualDurationMinutes,
 		&t.CreatedAt,
 		&t.UpdatedAt,
+		&t.Recurrence,
+		&t.DeletedAt,
+		&t.Rank,
 	)
 	return t, err
 }
 
-// GetTasks handles GET /api/tasks - List all tasks with optional filters
-func GetTasks(c *gin.Context) {
-	database := c.MustGet("database").(*db.Database)
+// queryList returns every value of a repeatable query parameter (?status=todo&status=done).
+// Comma-separated values (?status=todo,done) are accepted too.
+func queryList(c *gin.Context, key string) []string {
+	var values []string
+	for _, raw := range c.QueryArray(key) {
+		for _, v := range strings.Split(raw, ",") {
+			if v = strings.TrimSpace(v); v != "" {
+				values = append(values, v)
+			}
+		}
+	}
+	return values
+}
+
+// sqlInList returns "(?, ?, ...)" with one placeholder per value, and the values as parameters
+func sqlInList(values []string) (string, []interface{}) {
+	placeholders := make([]string, len(values))
+	params := make([]interface{}, len(values))
+	for i, v := range values {
+		placeholders[i] = "?"
+		params[i] = v
+	}
+	return "(" + strings.Join(placeholders, ", ") + ")", params
+}
 
-	projectID := c.Query("projectId")
-	status := c.Query("status")
-	priority := c.Query("priority")
+// taskListQuery builds the query listing the tasks that match the filters of GET
+// /api/tasks, without an order. Only a task query that doesn't compile, or the unknown
+// ?tz= its dates count in, is an error.
+func taskListQuery(c *gin.Context) (string, []interface{}, error) {
+	projectID := c.Query("project_id")
+	if projectID == "" {
+		projectID = c.Query("projectId") // older clients
+	}
 	search := c.Query("search")
-	assigneeID := c.Query("assignee_id")
-	tagID := c.Query("tag_id")
+	dueDateFrom := c.Query("due_date_from")
+	dueDateTo := c.Query("due_date_to")
 	parentTaskID := c.Query("parent_task_id")
 
-	query := "SELECT DISTINCT t.* FROM tasks t WHERE 1=1"
+	query := "SELECT DISTINCT t.* FROM tasks t WHERE t.deleted_at IS NULL"
 	var params []interface{}
 
 	if projectID != "" {
@@ -241,14 +274,26 @@ func GetTasks(c *gin.Context) {
 		params = append(params, projectID)
 	}
 
-	if status != "" {
-		query += " AND t.status = ?"
-		params = append(params, status)
+	if statuses := queryList(c, "status"); len(statuses) > 0 {
+		in, inParams := sqlInList(statuses)
+		query += " AND t.status IN " + in
+		params = append(params, inParams...)
+	}
+	if statuses := queryList(c, "not_status"); len(statuses) > 0 {
+		in, inParams := sqlInList(statuses)
+		query += " AND COALESCE(t.status, '') NOT IN " + in
+		params = append(params, inParams...)
 	}
 
-	if priority != "" {
-		query += " AND t.priority = ?"
-		params = append(params, priority)
+	if priorities := queryList(c, "priority"); len(priorities) > 0 {
+		in, inParams := sqlInList(priorities)
+		query += " AND t.priority IN " + in
+		params = append(params, inParams...)
+	}
+	if priorities := queryList(c, "not_priority"); len(priorities) > 0 {
+		in, inParams := sqlInList(priorities)
+		query += " AND COALESCE(t.priority, '') NOT IN " + in
+		params = append(params, inParams...)
 	}
 
 	if search != "" {
@@ -257,18 +302,65 @@ func GetTasks(c *gin.Context) {
 		params = append(params, searchTerm, searchTerm)
 	}
 
-	if assigneeID != "" {
-		query += ` AND (t.assignee_id = ? OR EXISTS (
-			SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id AND ta.person_id = ?
+	if dueDateFrom != "" {
+		query += " AND t.due_date >= ?"
+		params = append(params, dueDateFrom)
+	}
+	if dueDateTo != "" {
+		query += " AND t.due_date <= ?"
+		params = append(params, dueDateTo)
+	}
+
+	// A task belongs to a person when they are its assignee or a co-assignee
+	assignedTo := func(in string) string {
+		return `(COALESCE(t.assignee_id, '') IN ` + in + ` OR EXISTS (
+			SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id AND ta.person_id IN ` + in + `
 		))`
-		params = append(params, assigneeID, assigneeID)
+	}
+	if assigneeIDs := queryList(c, "assignee_id"); len(assigneeIDs) > 0 {
+		in, inParams := sqlInList(assigneeIDs)
+		query += " AND " + assignedTo(in)
+		params = append(params, inParams...)
+		params = append(params, inParams...)
+	}
+	if assigneeIDs := queryList(c, "not_assignee_id"); len(assigneeIDs) > 0 {
+		in, inParams := sqlInList(assigneeIDs)
+		query += " AND NOT " + assignedTo(in)
+		params = append(params, inParams...)
+		params = append(params, inParams...)
 	}
 
-	if tagID != "" {
+	if tagIDs := queryList(c, "tag_id"); len(tagIDs) > 0 {
+		in, inParams := sqlInList(tagIDs)
 		query += ` AND EXISTS (
-			SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag_id = ?
+			SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag_id IN ` + in + `
+		)`
+		params = append(params, inParams...)
+	}
+	if tagIDs := queryList(c, "not_tag_id"); len(tagIDs) > 0 {
+		in, inParams := sqlInList(tagIDs)
+		query += ` AND NOT EXISTS (
+			SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag_id IN ` + in + `
 		)`
-		params = append(params, tagID)
+		params = append(params, inParams...)
+	}
+
+	if q := strings.TrimSpace(c.Query("q")); q != "" {
+		// today and relative dates are days in the viewer's time zone
+		now := time.Now()
+		if tz := c.Query("tz"); tz != "" {
+			loc, err := time.LoadLocation(tz)
+			if err != nil {
+				return "", nil, fmt.Errorf("Unknown time zone %q", tz)
+			}
+			now = now.In(loc)
+		}
+		condition, queryParams, err := compileTaskQuery(q, taskQueryContext{Me: c.Query("me"), Today: now})
+		if err != nil {
+			return "", nil, err
+		}
+		query += " AND " + condition
+		params = append(params, queryParams...)
 	}
 
 	if parentTaskID != "" {
@@ -280,6 +372,22 @@ func GetTasks(c *gin.Context) {
 		}
 	}
 
+	return query, params, nil
+}
+
+// GetTasks handles GET /api/tasks - List all tasks with optional filters.
+// status, priority, assignee_id and tag_id take several values and match any of them;
+// their not_ counterparts leave out tasks matching any of theirs. q takes a task query
+// (see task_query.go), with me naming the person assignee:me refers to.
+func GetTasks(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	query, params, err := taskListQuery(c)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+
 	query += " ORDER BY t.created_at DESC"
 
 	rows, err := database.Query(query, params...)
@@ -316,8 +424,8 @@ func GetTask(c *gin.Context) {
 	err := database.QueryRow(`
 		SELECT id, project_id, parent_task_id, title, description, status, priority,
 		       assignee_id, due_date, start_date, end_date, progress_percent,
-		       estimated_duration_minutes, actual_duration_minutes, created_at, updated_at
-		FROM tasks WHERE id = ?`, taskID).Scan(
+		       estimated_duration_minutes, actual_duration_minutes, created_at, updated_at, recurrence, deleted_at, rank
+		FROM tasks WHERE id = ? AND deleted_at IS NULL`, taskID).Scan(
 		&task.ID,
 		&task.ProjectID,
 		&task.ParentTaskID,
@@ -334,6 +442,9 @@ func GetTask(c *gin.Context) {
 		&task.ActualDurationMinutes,
 		&task.CreatedAt,
 		&task.UpdatedAt,
+		&task.Recurrence,
+		&task.DeletedAt,
+		&task.Rank,
 	)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
@@ -350,7 +461,7 @@ func GetTask(c *gin.Context) {
 		var p Person
 		err := database.QueryRow(`
 			SELECT id, name, email, company, designation, project_id, created_at, updated_at
-			FROM people WHERE id = ?`, task.AssigneeID.String).Scan(
+			FROM people WHERE id = ? AND deleted_at IS NULL`, task.AssigneeID.String).Scan(
 			&p.ID, &p.Name, &p.Email, &p.Company, &p.Designation, &p.ProjectID, &p.CreatedAt, &p.UpdatedAt,
 		)
 		if err == nil {
@@ -363,7 +474,7 @@ func GetTask(c *gin.Context) {
 		SELECT p.id, p.name, p.email, p.company, p.designation, p.project_id, p.created_at, p.updated_at, ta.role, ta.id
 		FROM people p 
 		JOIN task_assignees ta ON p.id = ta.person_id 
-		WHERE ta.task_id = ?`, taskID)
+		WHERE ta.task_id = ? AND p.deleted_at IS NULL`, taskID)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("task assignees"))
 		return
@@ -437,16 +548,6 @@ func CreateTask(c *gin.Context) {
 		return
 	}
 
-	// Validate status
-	status := "todo"
-	if req.Status != "" {
-		if !isValidStatus(req.Status) {
-			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid status. Must be one of: %s", strings.Join(ValidStatuses, ", "))))
-			return
-		}
-		status = req.Status
-	}
-
 	// Validate priority
 	priority := "medium"
 	if req.Priority != "" {
@@ -474,18 +575,39 @@ func CreateTask(c *gin.Context) {
 		return
 	}
 
+	// Validate recurrence if provided
+	if req.Recurrence != nil {
+		if msg := validateRecurrence(req.Recurrence); msg != "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+			return
+		}
+	}
+
 	// Check project exists
 	var projectExists bool
-	err := database.QueryRow("SELECT 1 FROM projects WHERE id = ?", req.ProjectID).Scan(&projectExists)
+	err := database.QueryRow("SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL", req.ProjectID).Scan(&projectExists)
 	if err != nil || !projectExists {
 		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Project not found"))
 		return
 	}
 
+	// Validate status against the project's workflow
+	status := req.Status
+	if status == "" {
+		status, err = defaultTaskStatus(database, req.ProjectID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("project statuses"))
+			return
+		}
+	} else if msg := validateTaskStatus(database, req.ProjectID, status); msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+
 	// Check assignee exists if provided
 	if req.AssigneeID != "" {
 		var personExists bool
-		err := database.QueryRow("SELECT 1 FROM people WHERE id = ?", req.AssigneeID).Scan(&personExists)
+		err := database.QueryRow("SELECT 1 FROM people WHERE id = ? AND deleted_at IS NULL", req.AssigneeID).Scan(&personExists)
 		if err != nil || !personExists {
 			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Assignee not found"))
 			return
@@ -496,7 +618,7 @@ func CreateTask(c *gin.Context) {
 	var parentTaskID interface{}
 	if req.ParentTaskID != nil {
 		var parentTaskExists bool
-		err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", *req.ParentTaskID).Scan(&parentTaskExists)
+		err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", *req.ParentTaskID).Scan(&parentTaskExists)
 		if err != nil || !parentTaskExists {
 			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Parent task not found"))
 			return
@@ -508,8 +630,8 @@ func CreateTask(c *gin.Context) {
 		INSERT INTO tasks (
 			project_id, title, description, status, priority, 
 			due_date, start_date, end_date, assignee_id, parent_task_id,
-			progress_percent, estimated_duration_minutes, actual_duration_minutes
-		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			progress_percent, estimated_duration_minutes, actual_duration_minutes, recurrence, rank
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, `+nextRankSQL+`)`,
 		req.ProjectID,
 		strings.TrimSpace(req.Title),
 		nullString(req.Description),
@@ -523,6 +645,9 @@ func CreateTask(c *gin.Context) {
 		progress,
 		nullInt(req.EstimatedDurationMinutes),
 		nullInt(req.ActualDurationMinutes),
+		req.Recurrence,
+		req.ProjectID,
+		status,
 	)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("task"))
@@ -538,6 +663,8 @@ func CreateTask(c *gin.Context) {
 		return
 	}
 
+	logActivity(database, "task", task.ID, task.Title, task.ProjectID, "created", nil)
+
 	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(task))
 }
 
@@ -552,18 +679,30 @@ func UpdateTask(c *gin.Context) {
 		return
 	}
 
-	// Check task exists
-	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
-	if err != nil || !exists {
+	// Check task exists, keeping the current version for the activity log
+	before, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID))
+	if err != nil {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
 	}
 
 	// Validate status if provided
-	if req.Status != "" && !isValidStatus(req.Status) {
-		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid status. Must be one of: %s", strings.Join(ValidStatuses, ", "))))
-		return
+	if req.Status != "" {
+		if msg := validateTaskStatus(database, before.ProjectID, req.Status); msg != "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+			return
+		}
+		if req.Status != before.Status {
+			msg, err := checkRequiredFields(database, before.ID, before.ProjectID, req.Status)
+			if err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom fields"))
+				return
+			}
+			if msg != "" {
+				c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+				return
+			}
+		}
 	}
 
 	// Validate priority if provided
@@ -581,7 +720,7 @@ func UpdateTask(c *gin.Context) {
 				return
 			}
 			var parentExists bool
-			err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", *req.ParentTaskID).Scan(&parentExists)
+			err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", *req.ParentTaskID).Scan(&parentExists)
 			if err != nil || !parentExists {
 				c.JSON(http.StatusBadRequest, middleware.NewValidationError("Parent task not found"))
 				return
@@ -632,6 +771,21 @@ func UpdateTask(c *gin.Context) {
 		return
 	}
 
+	// Validate recurrence if provided (null clears it)
+	var recurrence *TaskRecurrence
+	if len(req.Recurrence) > 0 {
+		if err := json.Unmarshal(req.Recurrence, &recurrence); err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid recurrence"))
+			return
+		}
+		if recurrence != nil {
+			if msg := validateRecurrence(recurrence); msg != "" {
+				c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+				return
+			}
+		}
+	}
+
 	// Build update query dynamically
 	setClauses := []string{"updated_at = CURRENT_TIMESTAMP"}
 	var params []interface{}
@@ -649,6 +803,11 @@ func UpdateTask(c *gin.Context) {
 	if req.Status != "" {
 		setClauses = append(setClauses, "status = ?")
 		params = append(params, req.Status)
+		// Ranks only compare within a status, so a task changing status goes to the end of its new column
+		if req.Status != before.Status {
+			setClauses = append(setClauses, "rank = "+nextRankSQL)
+			params = append(params, before.ProjectID, req.Status)
+		}
 	}
 
 	if req.Priority != "" {
@@ -708,6 +867,11 @@ func UpdateTask(c *gin.Context) {
 		}
 	}
 
+	if len(req.Recurrence) > 0 {
+		setClauses = append(setClauses, "recurrence = ?")
+		params = append(params, recurrence)
+	}
+
 	params = append(params, taskID)
 
 	query := "UPDATE tasks SET " + strings.Join(setClauses, ", ") + " WHERE id = ?"
@@ -717,35 +881,262 @@ func UpdateTask(c *gin.Context) {
 		return
 	}
 
+	logTaskChanges(database, before)
+
+	// Completing a recurring task creates its next occurrence
+	var nextOccurrence *Task
+	if req.Status != "" {
+		nextOccurrence, err = createNextOccurrence(database, taskID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewCreateError("next occurrence"))
+			return
+		}
+	}
+
 	task, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ?", taskID))
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("task"))
 		return
 	}
 
-	c.JSON(http.StatusOK, middleware.NewSuccessResponse(task))
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(TaskWithNextOccurrence{Task: task, NextOccurrence: nextOccurrence}))
 }
 
-// DeleteTask handles DELETE /api/tasks/:id - Delete task
+// DeleteTask handles DELETE /api/tasks/:id - Delete task (and its subtasks) so it can be restored
 func DeleteTask(c *gin.Context) {
 	database := c.MustGet("database").(*db.Database)
 	taskID := c.Param("id")
 
-	result, err := database.Exec("DELETE FROM tasks WHERE id = ?", taskID)
+	task, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID))
+	if err == sql.ErrNoRows {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
+		return
+	}
 	if err != nil {
-		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("task"))
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("task"))
 		return
 	}
 
-	rowsAffected, _ := result.RowsAffected()
-	if rowsAffected == 0 {
-		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
+	if err := softDeleteTasks(database, []Task{task}); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("task"))
 		return
 	}
 
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Task deleted successfully"}))
 }
 
+// BulkDeleteTasks handles DELETE /api/tasks/bulk?taskIds=1,2,3 - Delete multiple tasks so they can be restored
+func BulkDeleteTasks(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	taskIDs, err := parseTaskIDList(c.Query("taskIds"))
+	if err != nil || len(taskIDs) == 0 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("taskIds must be a comma-separated list of task IDs"))
+		return
+	}
+
+	found, err := loadTasksByID(database, taskIDs)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+
+	var tasks []Task
+	for _, id := range taskIDs {
+		if task, ok := found[id]; ok && !task.DeletedAt.Valid {
+			tasks = append(tasks, task)
+		}
+	}
+
+	if len(tasks) > 0 {
+		if err := softDeleteTasks(database, tasks); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("tasks"))
+			return
+		}
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"deleted": len(tasks)}))
+}
+
+// RestoreTask handles POST /api/tasks/:id/restore - Restore a deleted task with the subtasks deleted along with it
+func RestoreTask(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	taskID, err := strconv.Atoi(c.Param("id"))
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid task ID"))
+		return
+	}
+
+	var deleted bool
+	err = database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NOT NULL", taskID).Scan(&deleted)
+	if err != nil || !deleted {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Deleted task"))
+		return
+	}
+	if taskProjectInTrash(database, taskID) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("The task's project is in the trash. Restore the project first."))
+		return
+	}
+
+	restored, err := restoreTasks(database, []int{taskID})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("task"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(restored))
+}
+
+// BulkRestoreTasks handles POST /api/tasks/bulk/restore - Restore multiple deleted tasks
+func BulkRestoreTasks(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var req struct {
+		TaskIDs []int `json:"taskIds" binding:"required"`
+	}
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+		return
+	}
+	if len(req.TaskIDs) == 0 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("taskIds must be a non-empty array"))
+		return
+	}
+
+	restored, err := restoreTasks(database, req.TaskIDs)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("tasks"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(restored))
+}
+
+// parseTaskIDList parses a comma-separated list of task IDs, dropping duplicates
+func parseTaskIDList(value string) ([]int, error) {
+	seen := make(map[int]bool)
+	var ids []int
+	for _, part := range strings.Split(value, ",") {
+		part = strings.TrimSpace(part)
+		if part == "" {
+			continue
+		}
+		id, err := strconv.Atoi(part)
+		if err != nil {
+			return nil, err
+		}
+		if !seen[id] {
+			seen[id] = true
+			ids = append(ids, id)
+		}
+	}
+	return ids, nil
+}
+
+// softDeleteTasks marks tasks and their subtasks as deleted. Everything deleted in one call shares
+// the same deleted_at, which is how restoreTasks finds the subtasks that belong to a deletion.
+func softDeleteTasks(database *db.Database, tasks []Task) error {
+	ids := make([]int, len(tasks))
+	placeholders := make([]string, len(tasks))
+	for i, task := range tasks {
+		ids[i] = task.ID
+		placeholders[i] = "?"
+	}
+
+	args := append(intSliceToInterfaceSlice(ids), trashTimestamp())
+
+	_, err := database.Exec(`
+		WITH RECURSIVE deleting(id) AS (
+			SELECT id FROM tasks WHERE id IN (`+strings.Join(placeholders, ",")+`) AND deleted_at IS NULL
+			UNION
+			SELECT t.id FROM tasks t
+			INNER JOIN deleting d ON t.parent_task_id = d.id
+			WHERE t.deleted_at IS NULL
+		)
+		UPDATE tasks SET deleted_at = ? WHERE id IN (SELECT id FROM deleting)`, args...)
+	if err != nil {
+		return err
+	}
+
+	for _, task := range tasks {
+		logActivity(database, "task", task.ID, task.Title, task.ProjectID, "deleted", nil)
+	}
+	return nil
+}
+
+// restoreTasks restores deleted tasks together with the subtasks deleted along with them and
+// returns every restored task. Tasks whose parent is still deleted are moved to the top level;
+// tasks whose project is in the trash stay deleted until the project is restored.
+func restoreTasks(database *db.Database, ids []int) ([]Task, error) {
+	placeholders := make([]string, len(ids))
+	for i := range ids {
+		placeholders[i] = "?"
+	}
+
+	rows, err := database.Query(`
+		WITH RECURSIVE restoring(id, deleted_at) AS (
+			SELECT id, deleted_at FROM tasks WHERE id IN (`+strings.Join(placeholders, ",")+`) AND deleted_at IS NOT NULL
+				AND project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
+			UNION
+			SELECT t.id, t.deleted_at FROM tasks t
+			INNER JOIN restoring r ON t.parent_task_id = r.id
+			WHERE t.deleted_at = r.deleted_at
+		)
+		SELECT id FROM restoring`, intSliceToInterfaceSlice(ids)...)
+	if err != nil {
+		return nil, err
+	}
+	var restoredIDs []int
+	for rows.Next() {
+		var id int
+		if err := rows.Scan(&id); err != nil {
+			rows.Close()
+			return nil, err
+		}
+		restoredIDs = append(restoredIDs, id)
+	}
+	rows.Close()
+
+	if len(restoredIDs) == 0 {
+		return []Task{}, nil
+	}
+
+	restoredPlaceholders := make([]string, len(restoredIDs))
+	for i := range restoredIDs {
+		restoredPlaceholders[i] = "?"
+	}
+	inClause := "(" + strings.Join(restoredPlaceholders, ",") + ")"
+	args := intSliceToInterfaceSlice(restoredIDs)
+
+	if _, err := database.Exec("UPDATE tasks SET deleted_at = NULL WHERE id IN "+inClause, args...); err != nil {
+		return nil, err
+	}
+	if _, err := database.Exec(
+		"UPDATE tasks SET parent_task_id = NULL WHERE id IN "+inClause+" AND parent_task_id IN (SELECT id FROM tasks WHERE deleted_at IS NOT NULL)",
+		args...,
+	); err != nil {
+		return nil, err
+	}
+
+	found, err := loadTasksByID(database, restoredIDs)
+	if err != nil {
+		return nil, err
+	}
+
+	restored := make([]Task, 0, len(restoredIDs))
+	for _, id := range restoredIDs {
+		if task, ok := found[id]; ok {
+			restored = append(restored, task)
+		}
+	}
+	for _, id := range ids {
+		if task, ok := found[id]; ok {
+			logActivity(database, "task", task.ID, task.Title, task.ProjectID, "restored", nil)
+		}
+	}
+	return restored, nil
+}
+
 // UpdateTaskStatus handles PATCH /api/tasks/:id/status - Quick status update (for Kanban)
 func UpdateTaskStatus(c *gin.Context) {
 	database := c.MustGet("database").(*db.Database)
@@ -759,33 +1150,59 @@ func UpdateTaskStatus(c *gin.Context) {
 		return
 	}
 
-	// Validate status
-	if !isValidStatus(req.Status) {
-		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid status. Must be one of: %s", strings.Join(ValidStatuses, ", "))))
+	// Check if task exists
+	before, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID))
+	if err != nil {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
 	}
 
-	// Check if task exists
-	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
-	if err != nil || !exists {
-		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
+	// Validate status against the task's project
+	if msg := validateTaskStatus(database, before.ProjectID, req.Status); msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
 		return
 	}
+	if req.Status != before.Status {
+		msg, err := checkRequiredFields(database, before.ID, before.ProjectID, req.Status)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom fields"))
+			return
+		}
+		if msg != "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+			return
+		}
+	}
 
-	_, err = database.Exec("UPDATE tasks SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?", req.Status, taskID)
+	if req.Status != before.Status {
+		err = moveToStatus(database, before.ID, before.ProjectID, req.Status)
+	} else {
+		_, err = database.Exec("UPDATE tasks SET updated_at = CURRENT_TIMESTAMP WHERE id = ?", taskID)
+	}
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("task status"))
 		return
 	}
 
+	logTaskChanges(database, before)
+
+	// Completing a recurring task creates its next occurrence
+	var nextOccurrence *Task
+	if req.Status != "" {
+		nextOccurrence, err = createNextOccurrence(database, taskID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewCreateError("next occurrence"))
+			return
+		}
+	}
+
 	task, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ?", taskID))
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("task"))
 		return
 	}
 
-	c.JSON(http.StatusOK, middleware.NewSuccessResponse(task))
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(TaskWithNextOccurrence{Task: task, NextOccurrence: nextOccurrence}))
 }
 
 // BulkUpdateTasks handles PUT /api/tasks/bulk - Bulk update tasks
@@ -804,10 +1221,36 @@ func BulkUpdateTasks(c *gin.Context) {
 		return
 	}
 
-	// Validate status if provided
-	if req.Updates.Status != "" && !isValidStatus(req.Updates.Status) {
-		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid status. Must be one of: %s", strings.Join(ValidStatuses, ", "))))
-		return
+	// Validate status if provided; it must exist in the project of every selected task
+	if req.Updates.Status != "" {
+		placeholders := make([]string, len(req.TaskIDs))
+		for i := range req.TaskIDs {
+			placeholders[i] = "?"
+		}
+		var missing int
+		err := database.QueryRow(`
+			SELECT COUNT(*) FROM tasks t
+			WHERE t.id IN (`+strings.Join(placeholders, ",")+`) AND t.deleted_at IS NULL
+			  AND NOT EXISTS (SELECT 1 FROM project_statuses ps WHERE ps.project_id = t.project_id AND ps.key = ?)
+		`, append(intSliceToInterfaceSlice(req.TaskIDs), req.Updates.Status)...).Scan(&missing)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("project statuses"))
+			return
+		}
+		if missing > 0 {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid status. %q is not a status of every selected task's project", req.Updates.Status)))
+			return
+		}
+
+		msg, err := checkRequiredFieldsForTasks(database, req.TaskIDs, req.Updates.Status)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom fields"))
+			return
+		}
+		if msg != "" {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+			return
+		}
 	}
 
 	// Validate priority if provided
@@ -819,7 +1262,7 @@ func BulkUpdateTasks(c *gin.Context) {
 	// Validate assignee_id if provided
 	if req.Updates.AssigneeID != "" {
 		var personExists bool
-		err := database.QueryRow("SELECT 1 FROM people WHERE id = ?", req.Updates.AssigneeID).Scan(&personExists)
+		err := database.QueryRow("SELECT 1 FROM people WHERE id = ? AND deleted_at IS NULL", req.Updates.AssigneeID).Scan(&personExists)
 		if err != nil || !personExists {
 			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Assignee not found"))
 			return
@@ -855,17 +1298,81 @@ func BulkUpdateTasks(c *gin.Context) {
 	for i := range req.TaskIDs {
 		placeholders[i] = "?"
 	}
-	updateQuery := "UPDATE tasks SET " + strings.Join(setClauses, ", ") + " WHERE id IN (" + strings.Join(placeholders, ",") + ")"
+	updateQuery := "UPDATE tasks SET " + strings.Join(setClauses, ", ") + " WHERE id IN (" + strings.Join(placeholders, ",") + ") AND deleted_at IS NULL"
 
 	// Combine params with taskIds
 	allParams := append(params, intSliceToInterfaceSlice(req.TaskIDs)...)
 
+	// Keep the current versions for the activity log
+	before, err := loadTasksByID(database, req.TaskIDs)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("tasks"))
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("tasks"))
+		return
+	}
+	defer tx.Rollback()
+
+	// Tasks changing status go to the end of their new column, in the order they had
+	if req.Updates.Status != "" {
+		moved := make([]Task, 0, len(before))
+		for _, task := range before {
+			if !task.DeletedAt.Valid && task.Status != req.Updates.Status {
+				moved = append(moved, task)
+			}
+		}
+		sort.Slice(moved, func(i, j int) bool {
+			if moved[i].Rank != moved[j].Rank {
+				return moved[i].Rank < moved[j].Rank
+			}
+			return moved[i].ID < moved[j].ID
+		})
+		for _, task := range moved {
+			if err := moveToStatus(tx, task.ID, task.ProjectID, req.Updates.Status); err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("tasks"))
+				return
+			}
+		}
+	}
+
 	// Execute the bulk update
-	result, err := database.Exec(updateQuery, allParams...)
+	result, err := tx.Exec(updateQuery, allParams...)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("tasks"))
 		return
 	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("tasks"))
+		return
+	}
+
+	for _, id := range req.TaskIDs {
+		if task, ok := before[id]; ok {
+			logTaskChanges(database, task)
+		}
+	}
+
+	// Completing recurring tasks creates their next occurrences
+	createdTasks := []Task{}
+	if req.Updates.Status != "" {
+		for _, id := range req.TaskIDs {
+			nextOccurrence, err := createNextOccurrence(database, id)
+			if err == sql.ErrNoRows {
+				continue
+			}
+			if err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewCreateError("next occurrence"))
+				return
+			}
+			if nextOccurrence != nil {
+				createdTasks = append(createdTasks, *nextOccurrence)
+			}
+		}
+	}
 
 	// Fetch the updated tasks
 	fetchPlaceholders := make([]string, len(req.TaskIDs))
@@ -893,8 +1400,9 @@ func BulkUpdateTasks(c *gin.Context) {
 	rowsAffected, _ := result.RowsAffected()
 
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{
-		"updated": rowsAffected,
-		"tasks":   updatedTasks,
+		"updated":       rowsAffected,
+		"tasks":         updatedTasks,
+		"created_tasks": createdTasks,
 	}))
 }
 
@@ -905,7 +1413,7 @@ func GetTaskChildren(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -913,8 +1421,8 @@ func GetTaskChildren(c *gin.Context) {
 
 	rows, err := database.Query(`
 		SELECT * FROM tasks 
-		WHERE parent_task_id = ? 
-		ORDER BY created_at DESC`, taskID)
+		WHERE parent_task_id = ? AND deleted_at IS NULL
+		ORDER BY rank ASC, id ASC`, taskID)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("children"))
 		return
@@ -945,7 +1453,7 @@ func GetTaskDescendants(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -953,10 +1461,11 @@ func GetTaskDescendants(c *gin.Context) {
 
 	rows, err := database.Query(`
 		WITH RECURSIVE descendants AS (
-			SELECT * FROM tasks WHERE parent_task_id = ?
+			SELECT * FROM tasks WHERE parent_task_id = ? AND deleted_at IS NULL
 			UNION ALL
 			SELECT t.* FROM tasks t
 			INNER JOIN descendants d ON t.parent_task_id = d.id
+			WHERE t.deleted_at IS NULL
 		)
 		SELECT * FROM descendants ORDER BY created_at DESC`, taskID)
 	if err != nil {
@@ -989,7 +1498,7 @@ func GetTaskAncestors(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -1033,7 +1542,7 @@ func GetTaskProgress(c *gin.Context) {
 
 	var progress TaskProgress
 	err := database.QueryRow(`
-		SELECT id, progress_percent FROM tasks WHERE id = ?`, taskID).Scan(
+		SELECT id, progress_percent FROM tasks WHERE id = ? AND deleted_at IS NULL`, taskID).Scan(
 		&progress.TaskID, &progress.ProgressPercent)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
@@ -1045,7 +1554,7 @@ func GetTaskProgress(c *gin.Context) {
 	}
 
 	// Get children count
-	database.QueryRow("SELECT COUNT(*) FROM tasks WHERE parent_task_id = ?", taskID).Scan(&progress.ChildrenCount)
+	database.QueryRow("SELECT COUNT(*) FROM tasks WHERE parent_task_id = ? AND deleted_at IS NULL", taskID).Scan(&progress.ChildrenCount)
 
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(progress))
 }
@@ -1066,9 +1575,8 @@ func UpdateTaskProgress(c *gin.Context) {
 	}
 
 	// Check task exists
-	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
-	if err != nil || !exists {
+	before, err := scanTaskRow(database.QueryRow("SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID))
+	if err != nil {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
 	}
@@ -1121,6 +1629,8 @@ func UpdateTaskProgress(c *gin.Context) {
 		return
 	}
 
+	logChanges(database, "task", task.ID, task.Title, task.ProjectID, taskChanges(database, before, task))
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(task))
 }
 
@@ -1132,7 +1642,7 @@ func GetTaskProgressRollup(c *gin.Context) {
 	// Get the task
 	var task Task
 	err := database.QueryRow(`
-		SELECT id, progress_percent FROM tasks WHERE id = ?`, taskID).Scan(
+		SELECT id, progress_percent FROM tasks WHERE id = ? AND deleted_at IS NULL`, taskID).Scan(
 		&task.ID, &task.ProgressPercent)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
@@ -1146,10 +1656,11 @@ func GetTaskProgressRollup(c *gin.Context) {
 	// Get all descendants
 	descendantsRows, err := database.Query(`
 		WITH RECURSIVE descendants AS (
-			SELECT * FROM tasks WHERE parent_task_id = ?
+			SELECT * FROM tasks WHERE parent_task_id = ? AND deleted_at IS NULL
 			UNION ALL
 			SELECT t.* FROM tasks t
 			INNER JOIN descendants d ON t.parent_task_id = d.id
+			WHERE t.deleted_at IS NULL
 		)
 		SELECT * FROM descendants`, taskID)
 	if err != nil {
@@ -1221,7 +1732,7 @@ func GetTaskAssignees(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -1231,7 +1742,7 @@ func GetTaskAssignees(c *gin.Context) {
 		SELECT p.id, p.name, p.email, p.company, p.designation, p.project_id, p.created_at, p.updated_at, ta.role, ta.id
 		FROM people p 
 		JOIN task_assignees ta ON p.id = ta.person_id 
-		WHERE ta.task_id = ?`, taskID)
+		WHERE ta.task_id = ? AND p.deleted_at IS NULL`, taskID)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("assignees"))
 		return
@@ -1277,7 +1788,7 @@ func AddTaskAssignee(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -1287,7 +1798,7 @@ func AddTaskAssignee(c *gin.Context) {
 	var person Person
 	err = database.QueryRow(`
 		SELECT id, name, email, company, designation, project_id, created_at, updated_at
-		FROM people WHERE id = ?`, req.PersonID).Scan(
+		FROM people WHERE id = ? AND deleted_at IS NULL`, req.PersonID).Scan(
 		&person.ID, &person.Name, &person.Email, &person.Company, &person.Designation, &person.ProjectID, &person.CreatedAt, &person.UpdatedAt)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Person"))
@@ -1324,6 +1835,8 @@ func AddTaskAssignee(c *gin.Context) {
 		return
 	}
 
+	logTaskChange(database, taskID, activityChange{Field: "co_assignees", NewValue: activityValue(person.Name)})
+
 	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(gin.H{
 		"id":            person.ID,
 		"name":          person.Name,
@@ -1343,6 +1856,7 @@ func RemoveTaskAssignee(c *gin.Context) {
 	database := c.MustGet("database").(*db.Database)
 	taskID := c.Param("id")
 	personID := c.Param("personId")
+	personName := lookupName(database, "SELECT name FROM people WHERE id = ?", &personID)
 
 	result, err := database.Exec("DELETE FROM task_assignees WHERE task_id = ? AND person_id = ?", taskID, personID)
 	if err != nil {
@@ -1356,6 +1870,8 @@ func RemoveTaskAssignee(c *gin.Context) {
 		return
 	}
 
+	logTaskChange(database, taskID, activityChange{Field: "co_assignees", OldValue: personName})
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Assignee removed from task"}))
 }
 
@@ -1366,7 +1882,7 @@ func GetTaskTags(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -1419,7 +1935,7 @@ func AddTaskTag(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -1462,6 +1978,8 @@ func AddTaskTag(c *gin.Context) {
 		return
 	}
 
+	logTaskChange(database, taskID, activityChange{Field: "tags", NewValue: activityValue(tag.Name)})
+
 	c.JSON(http.StatusCreated, middleware.NewSuccessResponse(gin.H{
 		"id":          tag.ID,
 		"name":        tag.Name,
@@ -1478,6 +1996,7 @@ func RemoveTaskTag(c *gin.Context) {
 	database := c.MustGet("database").(*db.Database)
 	taskID := c.Param("id")
 	tagID := c.Param("tagId")
+	tagName := lookupName(database, "SELECT name FROM tags WHERE id = ?", &tagID)
 
 	result, err := database.Exec("DELETE FROM task_tags WHERE task_id = ? AND tag_id = ?", taskID, tagID)
 	if err != nil {
@@ -1491,6 +2010,8 @@ func RemoveTaskTag(c *gin.Context) {
 		return
 	}
 
+	logTaskChange(database, taskID, activityChange{Field: "tags", OldValue: tagName})
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Tag removed from task"}))
 }
 
@@ -1501,7 +2022,7 @@ func GetTaskCustomFields(c *gin.Context) {
 
 	// Check task exists
 	var exists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&exists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&exists)
 	if err != nil || !exists {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -1511,7 +2032,7 @@ func GetTaskCustomFields(c *gin.Context) {
 		SELECT cfv.id, cfv.task_id, cfv.custom_field_id, cfv.value, 
 		       cfv.created_at, cfv.updated_at,
 		       cf.id, cf.name, cf.field_type, cf.project_id,
-		       cf.options, cf.required, cf.sort_order
+		       cf.options, cf.validation, cf.required, cf.sort_order
 		FROM custom_field_values cfv
 		JOIN custom_fields cf ON cfv.custom_field_id = cf.id
 		WHERE cfv.task_id = ?
@@ -1528,12 +2049,13 @@ func GetTaskCustomFields(c *gin.Context) {
 		var cf CustomField
 		var projectID *int
 		var options json.RawMessage
+		var validation []byte
 
 		err := rows.Scan(
 			&fv.ID, &fv.TaskID, &fv.CustomFieldID, &fv.Value,
 			&fv.CreatedAt, &fv.UpdatedAt,
 			&cf.ID, &cf.Name, &cf.FieldType, &projectID,
-			&options, &cf.Required, &cf.SortOrder,
+			&options, &validation, &cf.Required, &cf.SortOrder,
 		)
 		if err != nil {
 			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field values"))
@@ -1541,6 +2063,7 @@ func GetTaskCustomFields(c *gin.Context) {
 		}
 
 		cf.Options = options
+		cf.Validation = validation
 		cf.ProjectID = projectID
 		cf.CreatedAt = fv.CreatedAt
 		cf.UpdatedAt = fv.UpdatedAt
@@ -1548,6 +2071,15 @@ func GetTaskCustomFields(c *gin.Context) {
 		fv.CustomField = cf
 		fieldValues = append(fieldValues, fv)
 	}
+	rows.Close()
+
+	// Formula fields of the task's project are calculated, not stored
+	formulaValues, err := taskFormulaValues(database.DB, taskID)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field values"))
+		return
+	}
+	fieldValues = append(fieldValues, formulaValues...)
 
 	if fieldValues == nil {
 		fieldValues = []TaskCustomFieldValue{}
@@ -1568,9 +2100,10 @@ func SetTaskCustomField(c *gin.Context) {
 		return
 	}
 
-	// Check task exists and get its project_id
+	// Check task exists and get its project_id and status
 	var taskProjectID int
-	err := database.QueryRow("SELECT project_id FROM tasks WHERE id = ?", taskID).Scan(&taskProjectID)
+	var taskStatus string
+	err := database.QueryRow("SELECT project_id, status FROM tasks WHERE id = ?", taskID).Scan(&taskProjectID, &taskStatus)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -1582,10 +2115,11 @@ func SetTaskCustomField(c *gin.Context) {
 
 	// Check if custom field exists
 	var customField CustomField
+	var validation []byte
 	err = database.QueryRow(`
-		SELECT id, name, field_type, project_id, options, required, sort_order
+		SELECT id, name, field_type, project_id, options, validation, required, sort_order
 		FROM custom_fields WHERE id = ?`, fieldID).Scan(
-		&customField.ID, &customField.Name, &customField.FieldType, &customField.ProjectID, &customField.Options, &customField.Required, &customField.SortOrder)
+		&customField.ID, &customField.Name, &customField.FieldType, &customField.ProjectID, &customField.Options, &validation, &customField.Required, &customField.SortOrder)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Custom field"))
 		return
@@ -1594,6 +2128,7 @@ func SetTaskCustomField(c *gin.Context) {
 		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field"))
 		return
 	}
+	customField.Validation = validation
 
 	// Check if field is global or belongs to the task's project
 	if customField.ProjectID != nil && *customField.ProjectID != taskProjectID {
@@ -1601,8 +2136,17 @@ func SetTaskCustomField(c *gin.Context) {
 		return
 	}
 
+	if customField.FieldType == "formula" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Formula fields are calculated and can't be set"))
+		return
+	}
+
 	// Validate value based on field type
 	if req.Value != nil {
+		if err := validateTypedFieldValue(database.DB, customField.FieldType, taskID, req.Value); err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+			return
+		}
 		switch customField.FieldType {
 		case "number":
 			if _, ok := req.Value.(float64); !ok {
@@ -1663,6 +2207,16 @@ func SetTaskCustomField(c *gin.Context) {
 				return
 			}
 		}
+
+		// Then the field's own rules
+		if err := checkFieldValueRules(customField, req.Value); err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(err.Error()))
+			return
+		}
+	}
+	if isEmptyFieldValue(req.Value) && isFieldRequiredAt(database, customField, taskProjectID, taskStatus) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("%s is required while the task is %s", customField.Name, taskStatus)))
+		return
 	}
 
 	// Serialize value for storage
@@ -1693,8 +2247,9 @@ func SetTaskCustomField(c *gin.Context) {
 
 	// Check if value already exists
 	var existingID string
+	var previousValue sql.NullString
 	err = database.QueryRow(`
-		SELECT id FROM custom_field_values WHERE task_id = ? AND custom_field_id = ?`, taskID, fieldID).Scan(&existingID)
+		SELECT id, value FROM custom_field_values WHERE task_id = ? AND custom_field_id = ?`, taskID, fieldID).Scan(&existingID, &previousValue)
 
 	if err == nil {
 		// Update existing value
@@ -1734,9 +2289,17 @@ func SetTaskCustomField(c *gin.Context) {
 		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("custom field value"))
 		return
 	}
-	fv.Value = valueStr
+	if valueStr.Valid {
+		fv.Value = &valueStr.String
+	}
 	fv.CustomField = customField
 
+	logTaskChange(database, taskID, activityChange{
+		Field:    customFieldActivityPrefix + customField.Name,
+		OldValue: nullStringValue(previousValue),
+		NewValue: nullStringValue(valueStr),
+	})
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(fv))
 }
 
@@ -1746,6 +2309,27 @@ func RemoveTaskCustomField(c *gin.Context) {
 	taskID := c.Param("id")
 	fieldID := c.Param("fieldId")
 
+	// Read the value being removed for the activity log
+	var field CustomField
+	var validation []byte
+	var previousValue sql.NullString
+	var taskProjectID int
+	var taskStatus string
+	database.QueryRow(`
+		SELECT cf.name, cf.field_type, cf.validation, cf.required, cfv.value, t.project_id, t.status
+		FROM custom_field_values cfv
+		JOIN custom_fields cf ON cfv.custom_field_id = cf.id
+		JOIN tasks t ON cfv.task_id = t.id
+		WHERE cfv.task_id = ? AND cfv.custom_field_id = ?`, taskID, fieldID).Scan(
+		&field.Name, &field.FieldType, &validation, &field.Required, &previousValue, &taskProjectID, &taskStatus)
+	field.Validation = validation
+	fieldName := field.Name
+
+	if previousValue.Valid && !isEmptyStoredValue(previousValue.String) && isFieldRequiredAt(database, field, taskProjectID, taskStatus) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("%s is required while the task is %s", field.Name, taskStatus)))
+		return
+	}
+
 	result, err := database.Exec(`
 		DELETE FROM custom_field_values WHERE task_id = ? AND custom_field_id = ?`, taskID, fieldID)
 	if err != nil {
@@ -1759,6 +2343,8 @@ func RemoveTaskCustomField(c *gin.Context) {
 		return
 	}
 
+	logTaskChange(database, taskID, activityChange{Field: customFieldActivityPrefix + fieldName, OldValue: nullStringValue(previousValue)})
+
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Custom field value removed from task"}))
 }
 
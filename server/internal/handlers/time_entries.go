@@ -14,19 +14,22 @@ import (
 
 // TimeEntry represents a time entry record from the database
 type TimeEntry struct {
-	ID          string     `json:"id"`
-	EntityType  string     `json:"entity_type"`
-	EntityID    string     `json:"entity_id"`
-	PersonID    *string    `json:"person_id"`
-	Description *string    `json:"description"`
-	StartTime   time.Time  `json:"start_time"`
-	EndTime     *time.Time `json:"end_time"`
-	DurationUs  *int64     `json:"duration_us"`
-	IsRunning   int        `json:"is_running"`
-	CreatedAt   time.Time  `json:"created_at"`
-	UpdatedAt   time.Time  `json:"updated_at"`
-	PersonName  *string    `json:"person_name"`
-	PersonEmail *string    `json:"person_email"`
+	ID                string     `json:"id"`
+	EntityType        string     `json:"entity_type"`
+	EntityID          string     `json:"entity_id"`
+	PersonID          *string    `json:"person_id"`
+	Description       *string    `json:"description"`
+	StartTime         time.Time  `json:"start_time"`
+	EndTime           *time.Time `json:"end_time"`
+	DurationUs        *int64     `json:"duration_us"`
+	IsRunning         int        `json:"is_running"`
+	CreatedAt         time.Time  `json:"created_at"`
+	UpdatedAt         time.Time  `json:"updated_at"`
+	Billable          bool       `json:"billable"`
+	InvoiceID         *string    `json:"invoice_id"`          // set once the entry is invoiced, which locks it
+	PomodoroSessionID *string    `json:"pomodoro_session_id"` // set on entries logged by a pomodoro work session
+	PersonName        *string    `json:"person_name"`
+	PersonEmail       *string    `json:"person_email"`
 }
 
 // CreateTimeEntryRequest represents the request body for creating a time entry
@@ -37,6 +40,8 @@ type CreateTimeEntryRequest struct {
 	EndTime         *string `json:"end_time"`
 	DurationUs      *int64  `json:"duration_us"`
 	DurationMinutes *int64  `json:"duration_minutes"`
+	Billable        *bool   `json:"billable"`   // true when left out
+	OnOverlap       string  `json:"on_overlap"` // allow or split; the overlap setting when left out
 }
 
 // UpdateTimeEntryRequest represents the request body for updating a time entry
@@ -47,12 +52,14 @@ type UpdateTimeEntryRequest struct {
 	EndTime         *string `json:"end_time"`
 	DurationUs      *int64  `json:"duration_us"`
 	DurationMinutes *int64  `json:"duration_minutes"`
+	Billable        *bool   `json:"billable"`
 }
 
 // TaskTimeSummary represents a time summary for a task
 type TaskTimeSummary struct {
 	TaskID                string               `json:"task_id"`
 	DirectTimeUs          int64                `json:"direct_time_us"`
+	PomodoroTimeUs        int64                `json:"pomodoro_time_us"` // the part of the direct time logged by pomodoro sessions
 	ChildrenTimeUs        int64                `json:"children_time_us"`
 	TotalTimeUs           int64                `json:"total_time_us"`
 	CurrentSessionUs      int64                `json:"current_session_us"`
@@ -82,7 +89,7 @@ func parseTime(timeStr string) (time.Time, error) {
 }
 
 // rowToTimeEntry converts a database row to a TimeEntry struct.
-// The row must have been selected with the 13-column join that includes
+// The row must have been selected with the 16-column join that includes
 // person_name and person_email (see getTimeEntryByID).
 func rowToTimeEntry(row *sql.Row) (*TimeEntry, error) {
 	var entry TimeEntry
@@ -98,6 +105,9 @@ func rowToTimeEntry(row *sql.Row) (*TimeEntry, error) {
 		&entry.IsRunning,
 		&entry.CreatedAt,
 		&entry.UpdatedAt,
+		&entry.Billable,
+		&entry.InvoiceID,
+		&entry.PomodoroSessionID,
 		&entry.PersonName,
 		&entry.PersonEmail,
 	)
@@ -111,7 +121,7 @@ func rowToTimeEntry(row *sql.Row) (*TimeEntry, error) {
 }
 
 // rowsToTimeEntries converts multiple database rows to TimeEntry structs.
-// Each row is expected to have the 13 base columns (no extra joined columns).
+// Each row is expected to have the 16 base columns (no extra joined columns).
 func rowsToTimeEntries(rows *sql.Rows) ([]TimeEntry, error) {
 	defer rows.Close()
 
@@ -130,6 +140,9 @@ func rowsToTimeEntries(rows *sql.Rows) ([]TimeEntry, error) {
 			&entry.IsRunning,
 			&entry.CreatedAt,
 			&entry.UpdatedAt,
+			&entry.Billable,
+			&entry.InvoiceID,
+			&entry.PomodoroSessionID,
 			&entry.PersonName,
 			&entry.PersonEmail,
 		)
@@ -147,7 +160,7 @@ func getTimeEntryByID(database *db.Database, id string) (*TimeEntry, error) {
 	row := database.QueryRow(`
 		SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
 		       te.start_time, te.end_time, te.duration_us, te.is_running,
-		       te.created_at, te.updated_at,
+		       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
 		       p.name as person_name, p.email as person_email
 		FROM time_entries te
 		LEFT JOIN people p ON te.person_id = p.id
@@ -177,7 +190,7 @@ func GetTaskTimeEntries(c *gin.Context) {
 	rows, err := database.Query(`
 		SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
 		       te.start_time, te.end_time, te.duration_us, te.is_running,
-		       te.created_at, te.updated_at,
+		       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
 		       p.name as person_name, p.email as person_email
 		FROM time_entries te
 		LEFT JOIN people p ON te.person_id = p.id
@@ -221,6 +234,9 @@ func scanTimeEntries(rows *sql.Rows) ([]TimeEntry, error) {
 			&entry.IsRunning,
 			&entry.CreatedAt,
 			&entry.UpdatedAt,
+			&entry.Billable,
+			&entry.InvoiceID,
+			&entry.PomodoroSessionID,
 			&entry.PersonName,
 			&entry.PersonEmail,
 		)
@@ -252,7 +268,7 @@ func GetTaskTimeSummary(c *gin.Context) {
 	rows, err := database.Query(`
 		SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
 		       te.start_time, te.end_time, te.duration_us, te.is_running,
-		       te.created_at, te.updated_at,
+		       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
 		       p.name as person_name, p.email as person_email
 		FROM time_entries te
 		LEFT JOIN people p ON te.person_id = p.id
@@ -272,12 +288,16 @@ func GetTaskTimeSummary(c *gin.Context) {
 
 	// Calculate direct total
 	var directTotalUs int64
+	var pomodoroTotalUs int64
 	var hasRunningTimer bool
 	var runningTimer *TimeEntry
 
 	for _, e := range entries {
 		if e.DurationUs != nil {
 			directTotalUs += *e.DurationUs
+			if e.PomodoroSessionID != nil {
+				pomodoroTotalUs += *e.DurationUs
+			}
 		}
 		if e.IsRunning == 1 {
 			hasRunningTimer = true
@@ -294,10 +314,11 @@ func GetTaskTimeSummary(c *gin.Context) {
 	// Get descendant tasks (recursive)
 	descendantRows, err := database.Query(`
 		WITH RECURSIVE descendants AS (
-			SELECT id FROM tasks WHERE parent_task_id = ?
+			SELECT id FROM tasks WHERE parent_task_id = ? AND deleted_at IS NULL
 			UNION ALL
 			SELECT t.id FROM tasks t
 			INNER JOIN descendants d ON t.parent_task_id = d.id
+			WHERE t.deleted_at IS NULL
 		)
 		SELECT id FROM descendants
 	`, taskID)
@@ -325,7 +346,7 @@ func GetTaskTimeSummary(c *gin.Context) {
 		childRows, err := database.Query(`
 			SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
 			       te.start_time, te.end_time, te.duration_us, te.is_running,
-			       te.created_at, te.updated_at,
+			       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
 			       p.name as person_name, p.email as person_email
 			FROM time_entries te
 			LEFT JOIN people p ON te.person_id = p.id
@@ -376,6 +397,7 @@ func GetTaskTimeSummary(c *gin.Context) {
 	summary := TaskTimeSummary{
 		TaskID:                taskID,
 		DirectTimeUs:          directTotalUs,
+		PomodoroTimeUs:        pomodoroTotalUs,
 		ChildrenTimeUs:        childrenTotalUs,
 		TotalTimeUs:           directTotalUs + childrenTotalUs,
 		CurrentSessionUs:      currentSessionUs,
@@ -405,7 +427,7 @@ func StartTaskTimer(c *gin.Context) {
 
 	// Check if task exists
 	var taskExists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&taskExists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&taskExists)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -419,14 +441,25 @@ func StartTaskTimer(c *gin.Context) {
 	var req struct {
 		PersonID    *string `json:"person_id"`
 		Description *string `json:"description"`
+		OnOverlap   string  `json:"on_overlap"`
 	}
 	if err := c.ShouldBindJSON(&req); err != nil && err.Error() != "EOF" {
 		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid request body"))
 		return
 	}
 
+	settings, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+	overlaps, ok := runningOverlaps(c, database, settings, "task", taskID, req.PersonID, req.OnOverlap)
+	if !ok {
+		return
+	}
+
 	// Atomically stop existing timers and start a new one
-	id, err := startTimerAtomically(database, "task", taskID, req.PersonID, req.Description)
+	id, err := startTimerAtomically(database, settings, "task", taskID, req.PersonID, req.Description, overlaps)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
 		return
@@ -480,16 +513,14 @@ func StopTaskTimer(c *gin.Context) {
 		return
 	}
 
-	// Update the entry
-	now := time.Now()
-	duration := calculateDurationUs(entry.StartTime, now)
-
-	_, err = database.Exec(`
-		UPDATE time_entries 
-		SET end_time = ?, duration_us = ?, is_running = 0, updated_at = ?
-		WHERE id = ?
-	`, now.Format(time.RFC3339Nano), duration, now.Format(time.RFC3339Nano), entryID)
+	settings, err := loadTimeTrackingSettings(database)
 	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+
+	// Update the entry, rounding its duration
+	if err := stopTimer(database, settings, entryID, entry.StartTime, time.Now()); err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time entry"))
 		return
 	}
@@ -521,7 +552,7 @@ func CreateTaskTimeEntry(c *gin.Context) {
 
 	// Check if task exists
 	var taskExists bool
-	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ?", taskID).Scan(&taskExists)
+	err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL", taskID).Scan(&taskExists)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Task"))
 		return
@@ -561,14 +592,9 @@ func CreateTaskTimeEntry(c *gin.Context) {
 		}
 	}
 
-	id := uuid.New().String()
-
-	_, err = database.Exec(`
-		INSERT INTO time_entries (id, entity_type, entity_id, person_id, description, start_time, end_time, duration_us, is_running)
-		VALUES (?, 'task', ?, ?, ?, ?, ?, ?, 0)
-	`, id, taskID, req.PersonID, req.Description, req.StartTime, req.EndTime, durationUs)
-	if err != nil {
-		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+	// Store it, checking it against the person's other time
+	id, ok := insertManualEntry(c, database, "task", taskID, req, durationUs)
+	if !ok {
 		return
 	}
 
@@ -602,7 +628,7 @@ func GetProjectTimeEntries(c *gin.Context) {
 	rows, err := database.Query(`
 		SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
 		       te.start_time, te.end_time, te.duration_us, te.is_running,
-		       te.created_at, te.updated_at,
+		       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
 		       p.name as person_name, p.email as person_email
 		FROM time_entries te
 		LEFT JOIN people p ON te.person_id = p.id
@@ -644,7 +670,7 @@ func StartProjectTimer(c *gin.Context) {
 
 	// Check if project exists
 	var projectExists bool
-	err := database.QueryRow("SELECT 1 FROM projects WHERE id = ?", projectID).Scan(&projectExists)
+	err := database.QueryRow("SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL", projectID).Scan(&projectExists)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
 		return
@@ -658,14 +684,25 @@ func StartProjectTimer(c *gin.Context) {
 	var req struct {
 		PersonID    *string `json:"person_id"`
 		Description *string `json:"description"`
+		OnOverlap   string  `json:"on_overlap"`
 	}
 	if err := c.ShouldBindJSON(&req); err != nil && err.Error() != "EOF" {
 		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid request body"))
 		return
 	}
 
+	settings, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+	overlaps, ok := runningOverlaps(c, database, settings, "project", projectID, req.PersonID, req.OnOverlap)
+	if !ok {
+		return
+	}
+
 	// Atomically stop existing timers and start a new one
-	id, err := startTimerAtomically(database, "project", projectID, req.PersonID, req.Description)
+	id, err := startTimerAtomically(database, settings, "project", projectID, req.PersonID, req.Description, overlaps)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
 		return
@@ -719,16 +756,14 @@ func StopProjectTimer(c *gin.Context) {
 		return
 	}
 
-	// Update the entry
-	now := time.Now()
-	duration := calculateDurationUs(entry.StartTime, now)
-
-	_, err = database.Exec(`
-		UPDATE time_entries 
-		SET end_time = ?, duration_us = ?, is_running = 0, updated_at = ?
-		WHERE id = ?
-	`, now.Format(time.RFC3339Nano), duration, now.Format(time.RFC3339Nano), entryID)
+	settings, err := loadTimeTrackingSettings(database)
 	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+
+	// Update the entry, rounding its duration
+	if err := stopTimer(database, settings, entryID, entry.StartTime, time.Now()); err != nil {
 		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time entry"))
 		return
 	}
@@ -760,7 +795,7 @@ func CreateProjectTimeEntry(c *gin.Context) {
 
 	// Check if project exists
 	var projectExists bool
-	err := database.QueryRow("SELECT 1 FROM projects WHERE id = ?", projectID).Scan(&projectExists)
+	err := database.QueryRow("SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL", projectID).Scan(&projectExists)
 	if err == sql.ErrNoRows {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Project"))
 		return
@@ -800,14 +835,9 @@ func CreateProjectTimeEntry(c *gin.Context) {
 		}
 	}
 
-	id := uuid.New().String()
-
-	_, err = database.Exec(`
-		INSERT INTO time_entries (id, entity_type, entity_id, person_id, description, start_time, end_time, duration_us, is_running)
-		VALUES (?, 'project', ?, ?, ?, ?, ?, ?, 0)
-	`, id, projectID, req.PersonID, req.Description, req.StartTime, req.EndTime, durationUs)
-	if err != nil {
-		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+	// Store it, checking it against the person's other time
+	id, ok := insertManualEntry(c, database, "project", projectID, req, durationUs)
+	if !ok {
 		return
 	}
 
@@ -848,6 +878,9 @@ func UpdateTimeEntry(c *gin.Context) {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Time entry"))
 		return
 	}
+	if rejectInvoicedEntry(c, database, existing) {
+		return
+	}
 
 	// Parse request body
 	var req UpdateTimeEntryRequest
@@ -855,6 +888,11 @@ func UpdateTimeEntry(c *gin.Context) {
 		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid request body"))
 		return
 	}
+	// Whether a pomodoro entry is billable is its own; its time and task follow the session
+	if (req.PersonID != nil || req.Description != nil || req.StartTime != nil || req.EndTime != nil ||
+		req.DurationUs != nil || req.DurationMinutes != nil) && rejectPomodoroEntry(c, existing) {
+		return
+	}
 
 	// Determine values to update
 	personID := req.PersonID
@@ -906,6 +944,10 @@ func UpdateTimeEntry(c *gin.Context) {
 		query += "duration_us = ?, "
 		args = append(args, *durationUs)
 	}
+	if req.Billable != nil {
+		query += "billable = ?, "
+		args = append(args, *req.Billable)
+	}
 
 	query += "updated_at = ? WHERE id = ?"
 	args = append(args, now.Format(time.RFC3339Nano), entryID)
@@ -951,6 +993,9 @@ func DeleteTimeEntry(c *gin.Context) {
 		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Time entry"))
 		return
 	}
+	if rejectInvoicedEntry(c, database, existing) || rejectPomodoroEntry(c, existing) {
+		return
+	}
 
 	// Delete the entry
 	_, err = database.Exec("DELETE FROM time_entries WHERE id = ?", entryID)
@@ -962,9 +1007,10 @@ func DeleteTimeEntry(c *gin.Context) {
 	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Time entry deleted"}))
 }
 
-// startTimerAtomically stops any running timers for the entity and inserts
-// a new running entry, all in a single transaction.
-func startTimerAtomically(database *db.Database, entityType, entityID string, personID, description *string) (string, error) {
+// startTimerAtomically stops any running timers for the entity, and the overlapping
+// timers of other entities it is given, and inserts a new running entry, all in a
+// single transaction.
+func startTimerAtomically(database *db.Database, settings TimeTrackingSettings, entityType, entityID string, personID, description *string, overlaps []OverlappingEntry) (string, error) {
 	tx, err := database.Begin()
 	if err != nil {
 		return "", err
@@ -997,13 +1043,14 @@ func startTimerAtomically(database *db.Database, entityType, entityID string, pe
 	}
 	rows.Close()
 
+	for _, e := range overlaps {
+		if e.IsRunning == 1 {
+			running = append(running, runningEntry{e.ID, e.StartTime})
+		}
+	}
+
 	for _, e := range running {
-		durationUs := now.Sub(e.startTime).Microseconds()
-		if _, err := tx.Exec(`
-			UPDATE time_entries 
-			SET is_running = 0, end_time = ?, duration_us = ?, updated_at = ?
-			WHERE id = ?
-		`, now.Format(time.RFC3339Nano), durationUs, now.Format(time.RFC3339Nano), e.id); err != nil {
+		if err := stopTimer(tx, settings, e.id, e.startTime, now); err != nil {
 			tx.Rollback()
 			return "", err
 		}
@@ -1027,6 +1074,11 @@ func startTimerAtomically(database *db.Database, entityType, entityID string, pe
 // stopRunningTimers stops all running timers for an entity, optionally excluding one
 func stopRunningTimers(database *db.Database, entityType, entityID, excludeID string) {
 	now := time.Now()
+	settings, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		fmt.Printf("Error loading time tracking settings: %v\n", err)
+		return
+	}
 
 	var query string
 	var args []interface{}
@@ -1059,13 +1111,7 @@ func stopRunningTimers(database *db.Database, entityType, entityID, excludeID st
 			continue
 		}
 
-		duration := calculateDurationUs(startTime, now)
-		_, err = database.Exec(`
-			UPDATE time_entries 
-			SET end_time = ?, duration_us = ?, is_running = 0, updated_at = ?
-			WHERE id = ?
-		`, now.Format(time.RFC3339Nano), duration, now.Format(time.RFC3339Nano), id)
-		if err != nil {
+		if err := stopTimer(database, settings, id, startTime, now); err != nil {
 			fmt.Printf("Error stopping timer %s: %v\n", id, err)
 		}
 	}
@@ -1089,7 +1135,7 @@ database := databaseIface.(*db.Database)
 rows, err := database.Query(`
 SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
        te.start_time, te.end_time, te.duration_us, te.is_running,
-       te.created_at, te.updated_at,
+       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
        p.name as person_name, p.email as person_email
 FROM time_entries te
 LEFT JOIN people p ON te.person_id = p.id
@@ -1125,6 +1171,12 @@ if runningTimer != nil {
 currentSessionUs = calculateDurationUs(runningTimer.StartTime, time.Now())
 }
 
+billing, err := loadProjectBillingSummary(database, projectID)
+if err != nil {
+c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time summary"))
+return
+}
+
 c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{
 "project_id":         projectID,
 "total_time_us":      totalUs,
@@ -1132,6 +1184,7 @@ c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{
 "has_running_timer":  hasRunningTimer,
 "running_timer":      runningTimer,
 "entries":            entries,
+"billing":            billing,
 }))
 }
 
@@ -1147,7 +1200,7 @@ database := databaseIface.(*db.Database)
 rows, err := database.Query(`
 SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
        te.start_time, te.end_time, te.duration_us, te.is_running,
-       te.created_at, te.updated_at,
+       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
        p.name as person_name, p.email as person_email
 FROM time_entries te
 LEFT JOIN people p ON te.person_id = p.id
@@ -1181,6 +1234,12 @@ return
 }
 database := databaseIface.(*db.Database)
 
+settings, err := loadTimeTrackingSettings(database)
+if err != nil {
+c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+return
+}
+
 // Find all running entries
 rows, err := database.Query(`
 SELECT id, start_time FROM time_entries WHERE is_running = 1
@@ -1202,13 +1261,7 @@ continue
 }
 stoppedIDs = append(stoppedIDs, id)
 
-duration := calculateDurationUs(startTime, now)
-_, err = database.Exec(`
-UPDATE time_entries
-SET end_time = ?, duration_us = ?, is_running = 0, updated_at = ?
-WHERE id = ?
-`, now.Format(time.RFC3339Nano), duration, now.Format(time.RFC3339Nano), id)
-if err != nil {
+if err := stopTimer(database, settings, id, startTime, now); err != nil {
 fmt.Printf("Error stopping timer %s: %v\n", id, err)
 }
 }
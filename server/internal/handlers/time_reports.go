@@ -0,0 +1,464 @@
+package handlers
+
+import (
+	"bytes"
+	"database/sql"
+	"fmt"
+	"net/http"
+	"sort"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+)
+
+// Time reports and the timesheet sum time entries by day in the viewer's time zone,
+// so both load entries through loadReportEntries. Running timers count the time so
+// far. Entries on trashed tasks or projects are left out.
+
+// reportEntry is a time entry with what it was logged on and the day it started
+type reportEntry struct {
+	ID          string
+	PersonID    sql.NullString
+	PersonName  sql.NullString
+	EntityType  string
+	EntityID    string
+	TaskID      sql.NullInt64
+	TaskTitle   sql.NullString
+	ProjectID   sql.NullInt64
+	ProjectName sql.NullString
+	Description sql.NullString
+	StartTime   time.Time
+	EndTime     sql.NullTime
+	DurationUs  int64
+	IsRunning   bool
+	Billable    bool
+	InvoiceID   sql.NullString
+	SessionID   sql.NullString // the pomodoro session that logged the entry
+	Day         string         // start day in the report's time zone
+	Tags        []string
+}
+
+// reportRange is the days a report covers, both included, and the time zone they are in
+type reportRange struct {
+	From     string
+	To       string
+	Location *time.Location
+}
+
+// reportFilters narrow the entries of a report; empty lists match everything
+type reportFilters struct {
+	PersonIDs  []string // "none" matches entries without a person
+	ProjectIDs []string
+	TagIDs     []string
+	Sources    []string // "pomodoro" or "manual"
+}
+
+// parseReportRange reads ?from=, ?to= (YYYY-MM-DD) and ?tz= (an IANA zone, UTC
+// without it). It returns the message for a value that can't be read, or "".
+func parseReportRange(c *gin.Context) (reportRange, string) {
+	return newReportRange(c.Query("from"), c.Query("to"), c.Query("tz"))
+}
+
+// newReportRange checks the days and time zone of a range, as parseReportRange
+func newReportRange(fromDay, toDay, tz string) (reportRange, string) {
+	r := reportRange{From: fromDay, To: toDay, Location: time.UTC}
+	from, err := time.Parse(dateLayout, r.From)
+	if err != nil {
+		return r, "from must be a date (YYYY-MM-DD)"
+	}
+	to, err := time.Parse(dateLayout, r.To)
+	if err != nil {
+		return r, "to must be a date (YYYY-MM-DD)"
+	}
+	if to.Before(from) {
+		return r, "to must not be before from"
+	}
+	if to.Sub(from) > 366*24*time.Hour {
+		return r, "A report covers at most a year"
+	}
+	if tz != "" {
+		loc, err := time.LoadLocation(tz)
+		if err != nil {
+			return r, fmt.Sprintf("Unknown time zone %q", tz)
+		}
+		r.Location = loc
+	}
+	return r, ""
+}
+
+// reportDays lists the days of the range in order
+func (r reportRange) reportDays() []string {
+	from, _ := time.Parse(dateLayout, r.From)
+	to, _ := time.Parse(dateLayout, r.To)
+	var days []string
+	for d := from; !d.After(to); d = d.AddDate(0, 0, 1) {
+		days = append(days, d.Format(dateLayout))
+	}
+	return days
+}
+
+// entryDurationUs is the logged duration, or the time so far of a running timer
+func entryDurationUs(duration sql.NullInt64, start time.Time, end sql.NullTime, running bool, now time.Time) int64 {
+	switch {
+	case running:
+		return calculateDurationUs(start, now)
+	case duration.Valid:
+		return duration.Int64
+	case end.Valid:
+		return calculateDurationUs(start, end.Time)
+	}
+	return 0
+}
+
+func loadReportEntries(database *db.Database, r reportRange, filters reportFilters) ([]reportEntry, error) {
+	// Entries are stored with the offset they were logged in, so the stored day can be
+	// a day off either way; the exact day is worked out below
+	from, _ := time.Parse(dateLayout, r.From)
+	to, _ := time.Parse(dateLayout, r.To)
+	query := `
+		SELECT te.id, te.person_id, p.name, te.entity_type, te.entity_id, te.description,
+		       te.start_time, te.end_time, te.duration_us, te.is_running, te.billable, te.invoice_id,
+		       te.pomodoro_session_id, t.id, t.title, COALESCE(t.project_id, pr.id), COALESCE(tp.name, pr.name)
+		FROM time_entries te
+		LEFT JOIN people p ON p.id = te.person_id
+		LEFT JOIN tasks t ON te.entity_type = 'task' AND CAST(t.id AS TEXT) = te.entity_id AND t.deleted_at IS NULL
+		LEFT JOIN projects tp ON tp.id = t.project_id AND tp.deleted_at IS NULL
+		LEFT JOIN projects pr ON te.entity_type = 'project' AND CAST(pr.id AS TEXT) = te.entity_id AND pr.deleted_at IS NULL
+		WHERE substr(te.start_time, 1, 10) BETWEEN ? AND ?
+		  AND (tp.id IS NOT NULL OR pr.id IS NOT NULL)`
+	params := []interface{}{from.AddDate(0, 0, -1).Format(dateLayout), to.AddDate(0, 0, 1).Format(dateLayout)}
+
+	if len(filters.PersonIDs) > 0 {
+		var ids []string
+		withoutPerson := false
+		for _, id := range filters.PersonIDs {
+			if id == "none" {
+				withoutPerson = true
+			} else {
+				ids = append(ids, id)
+			}
+		}
+		var conditions []string
+		if len(ids) > 0 {
+			in, inParams := sqlInList(ids)
+			conditions = append(conditions, "te.person_id IN "+in)
+			params = append(params, inParams...)
+		}
+		if withoutPerson {
+			conditions = append(conditions, "te.person_id IS NULL")
+		}
+		query += " AND (" + strings.Join(conditions, " OR ") + ")"
+	}
+	if len(filters.ProjectIDs) > 0 {
+		in, inParams := sqlInList(filters.ProjectIDs)
+		query += " AND COALESCE(t.project_id, pr.id) IN " + in
+		params = append(params, inParams...)
+	}
+	if len(filters.TagIDs) > 0 {
+		in, inParams := sqlInList(filters.TagIDs)
+		query += " AND t.id IN (SELECT task_id FROM task_tags WHERE tag_id IN " + in + ")"
+		params = append(params, inParams...)
+	}
+	if len(filters.Sources) > 0 {
+		var conditions []string
+		for _, source := range filters.Sources {
+			switch source {
+			case "pomodoro":
+				conditions = append(conditions, "te.pomodoro_session_id IS NOT NULL")
+			case "manual":
+				conditions = append(conditions, "te.pomodoro_session_id IS NULL")
+			}
+		}
+		if len(conditions) > 0 {
+			query += " AND (" + strings.Join(conditions, " OR ") + ")"
+		}
+	}
+
+	rows, err := database.Query(query+" ORDER BY te.start_time", params...)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	now := time.Now()
+	var entries []reportEntry
+	taskIDs := map[int64]bool{}
+	for rows.Next() {
+		var e reportEntry
+		var duration sql.NullInt64
+		var running int
+		if err := rows.Scan(&e.ID, &e.PersonID, &e.PersonName, &e.EntityType, &e.EntityID, &e.Description,
+			&e.StartTime, &e.EndTime, &duration, &running, &e.Billable, &e.InvoiceID,
+			&e.SessionID, &e.TaskID, &e.TaskTitle, &e.ProjectID, &e.ProjectName); err != nil {
+			return nil, err
+		}
+		e.Day = e.StartTime.In(r.Location).Format(dateLayout)
+		if e.Day < r.From || e.Day > r.To {
+			continue
+		}
+		e.IsRunning = running == 1
+		e.DurationUs = entryDurationUs(duration, e.StartTime, e.EndTime, e.IsRunning, now)
+		if e.TaskID.Valid {
+			taskIDs[e.TaskID.Int64] = true
+		}
+		entries = append(entries, e)
+	}
+	if err := rows.Err(); err != nil {
+		return nil, err
+	}
+	if len(taskIDs) == 0 {
+		return entries, nil
+	}
+
+	tags := map[int64][]string{}
+	tagRows, err := database.Query(`
+		SELECT tt.task_id, tg.name FROM task_tags tt
+		JOIN tags tg ON tg.id = tt.tag_id ORDER BY tg.name`)
+	if err != nil {
+		return nil, err
+	}
+	defer tagRows.Close()
+	for tagRows.Next() {
+		var taskID int64
+		var name string
+		if err := tagRows.Scan(&taskID, &name); err != nil {
+			return nil, err
+		}
+		if taskIDs[taskID] {
+			tags[taskID] = append(tags[taskID], name)
+		}
+	}
+	for i := range entries {
+		if entries[i].TaskID.Valid {
+			entries[i].Tags = tags[entries[i].TaskID.Int64]
+		}
+	}
+	return entries, tagRows.Err()
+}
+
+func reportFiltersFromQuery(c *gin.Context) reportFilters {
+	return reportFilters{
+		PersonIDs:  queryList(c, "person_id"),
+		ProjectIDs: queryList(c, "project_id"),
+		TagIDs:     queryList(c, "tag_id"),
+		Sources:    queryList(c, "source"),
+	}
+}
+
+// Ways a time report can group entries
+var timeReportGroupings = []string{"project", "task", "person", "tag", "source"}
+
+// TimeReportGroup is the time of one project, task, person, tag or source
+type TimeReportGroup struct {
+	Key         string           `json:"key"`
+	Label       string           `json:"label"`
+	ProjectID   *int64           `json:"project_id,omitempty"`
+	ProjectName string           `json:"project_name,omitempty"`
+	TotalUs     int64            `json:"total_us"`
+	PomodoroUs  int64            `json:"pomodoro_us"` // the part of the time logged by pomodoro sessions
+	EntryCount  int              `json:"entry_count"`
+	Days        map[string]int64 `json:"days"` // by day, days without time left out
+}
+
+// TimeReport sums time entries over a range of days
+type TimeReport struct {
+	From       string            `json:"from"`
+	To         string            `json:"to"`
+	GroupBy    string            `json:"group_by"`
+	Days       []string          `json:"days"`
+	TotalUs    int64             `json:"total_us"`
+	PomodoroUs int64             `json:"pomodoro_us"`
+	EntryCount int               `json:"entry_count"`
+	Groups     []TimeReportGroup `json:"groups"` // most time first
+}
+
+// groupKeys returns the groups an entry counts toward: one, or one per tag of its task
+func groupKeys(e reportEntry, groupBy string) []TimeReportGroup {
+	switch groupBy {
+	case "task":
+		if e.TaskID.Valid {
+			return []TimeReportGroup{{Key: "task:" + strconv.FormatInt(e.TaskID.Int64, 10), Label: e.TaskTitle.String}}
+		}
+		// Time logged on the project itself
+		return []TimeReportGroup{{Key: "project:" + e.EntityID, Label: "No task"}}
+	case "person":
+		if e.PersonID.Valid {
+			return []TimeReportGroup{{Key: e.PersonID.String, Label: e.PersonName.String}}
+		}
+		return []TimeReportGroup{{Key: "none", Label: "No person"}}
+	case "tag":
+		if len(e.Tags) == 0 {
+			return []TimeReportGroup{{Key: "none", Label: "No tag"}}
+		}
+		groups := make([]TimeReportGroup, len(e.Tags))
+		for i, tag := range e.Tags {
+			groups[i] = TimeReportGroup{Key: "tag:" + tag, Label: tag}
+		}
+		return groups
+	case "source":
+		if e.SessionID.Valid {
+			return []TimeReportGroup{{Key: "pomodoro", Label: "Pomodoro"}}
+		}
+		return []TimeReportGroup{{Key: "manual", Label: "Manual"}}
+	}
+	return []TimeReportGroup{{Key: strconv.FormatInt(e.ProjectID.Int64, 10), Label: e.ProjectName.String}}
+}
+
+func buildTimeReport(entries []reportEntry, r reportRange, groupBy string) TimeReport {
+	report := TimeReport{From: r.From, To: r.To, GroupBy: groupBy, Days: r.reportDays(), Groups: []TimeReportGroup{}}
+	index := map[string]int{}
+	for _, e := range entries {
+		report.TotalUs += e.DurationUs
+		if e.SessionID.Valid {
+			report.PomodoroUs += e.DurationUs
+		}
+		report.EntryCount++
+		for _, group := range groupKeys(e, groupBy) {
+			i, ok := index[group.Key]
+			if !ok {
+				if groupBy == "task" {
+					projectID := e.ProjectID.Int64
+					group.ProjectID = &projectID
+					group.ProjectName = e.ProjectName.String
+				}
+				group.Days = map[string]int64{}
+				report.Groups = append(report.Groups, group)
+				i = len(report.Groups) - 1
+				index[group.Key] = i
+			}
+			report.Groups[i].TotalUs += e.DurationUs
+			if e.SessionID.Valid {
+				report.Groups[i].PomodoroUs += e.DurationUs
+			}
+			report.Groups[i].EntryCount++
+			report.Groups[i].Days[e.Day] += e.DurationUs
+		}
+	}
+	sort.SliceStable(report.Groups, func(i, j int) bool {
+		if report.Groups[i].TotalUs != report.Groups[j].TotalUs {
+			return report.Groups[i].TotalUs > report.Groups[j].TotalUs
+		}
+		return strings.ToLower(report.Groups[i].Label) < strings.ToLower(report.Groups[j].Label)
+	})
+	return report
+}
+
+// loadTimeReport reads the range, grouping and filters of a report request. It
+// returns the message for a bad parameter, or "".
+func loadTimeReport(c *gin.Context, database *db.Database) (TimeReport, []reportEntry, string, error) {
+	r, msg := parseReportRange(c)
+	if msg != "" {
+		return TimeReport{}, nil, msg, nil
+	}
+	groupBy := c.DefaultQuery("group_by", "project")
+	valid := false
+	for _, g := range timeReportGroupings {
+		valid = valid || g == groupBy
+	}
+	if !valid {
+		return TimeReport{}, nil, "group_by must be one of " + strings.Join(timeReportGroupings, ", "), nil
+	}
+
+	entries, err := loadReportEntries(database, r, reportFiltersFromQuery(c))
+	if err != nil {
+		return TimeReport{}, nil, "", err
+	}
+	return buildTimeReport(entries, r, groupBy), entries, "", nil
+}
+
+// GetTimeReport handles GET /api/reports/time
+func GetTimeReport(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	report, _, msg, err := loadTimeReport(c, database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time report"))
+		return
+	}
+	if msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(report))
+}
+
+// Reports up to this many days long are exported with a column per day
+const maxReportDayColumns = 31
+
+// hoursCell writes a duration as hours with two decimals, as spreadsheets sum them
+func hoursCell(us int64) string {
+	return strconv.FormatFloat(float64(us)/float64(time.Hour/time.Microsecond), 'f', 2, 64)
+}
+
+// ExportTimeReport handles GET /api/reports/time/export. It downloads the report's
+// groups as CSV, or its entries one per line with ?detail=entries.
+func ExportTimeReport(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	report, entries, msg, err := loadTimeReport(c, database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time report"))
+		return
+	}
+	if msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+
+	var table [][]interface{}
+	if c.Query("detail") == "entries" {
+		r, _ := parseReportRange(c)
+		table = append(table, []interface{}{"Date", "Person", "Project", "Task", "Tags", "Description", "Source", "Start", "End", "Hours"})
+		for _, e := range entries {
+			end := ""
+			if e.EndTime.Valid && !e.IsRunning {
+				end = e.EndTime.Time.In(r.Location).Format("15:04")
+			}
+			source := "Manual"
+			if e.SessionID.Valid {
+				source = "Pomodoro"
+			}
+			table = append(table, []interface{}{
+				e.Day, e.PersonName.String, e.ProjectName.String, e.TaskTitle.String, strings.Join(e.Tags, ", "),
+				e.Description.String, source, e.StartTime.In(r.Location).Format("15:04"), end, hoursCell(e.DurationUs),
+			})
+		}
+	} else {
+		header := []interface{}{strings.ToUpper(report.GroupBy[:1]) + report.GroupBy[1:]}
+		if report.GroupBy == "task" {
+			header = append(header, "Project")
+		}
+		days := report.Days
+		if len(days) > maxReportDayColumns {
+			days = nil
+		}
+		for _, day := range days {
+			header = append(header, day)
+		}
+		header = append(header, "Total hours", "Entries")
+		table = append(table, header)
+		for _, group := range report.Groups {
+			row := []interface{}{group.Label}
+			if report.GroupBy == "task" {
+				row = append(row, group.ProjectName)
+			}
+			for _, day := range days {
+				row = append(row, hoursCell(group.Days[day]))
+			}
+			table = append(table, append(row, hoursCell(group.TotalUs), group.EntryCount))
+		}
+	}
+
+	var buf bytes.Buffer
+	if err := writeExportCSV(&buf, table); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewInternalError("Failed to write the export"))
+		return
+	}
+	filename := fmt.Sprintf("celestask-time-%s-to-%s.csv", report.From, report.To)
+	c.Header("Content-Disposition", fmt.Sprintf("attachment; filename=\"%s\"", filename))
+	c.Data(http.StatusOK, "text/csv; charset=utf-8", buf.Bytes())
+}
@@ -0,0 +1,599 @@
+package handlers
+
+import (
+	"database/sql"
+	"fmt"
+	"net/http"
+	"sort"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Time tracking settings: timers are rounded when they stop, and time a person logs is
+// checked against the other time they logged. Entries without a person count as one
+// person's. Idle time is noticed by the client, which asks what to do with it.
+
+// Rounding of timers when they stop
+const (
+	roundingNearest = "nearest"
+	roundingUp      = "up"
+	roundingDown    = "down"
+)
+
+// What happens when new time overlaps a person's other time
+const (
+	overlapAllow = "allow" // keep both
+	overlapWarn  = "warn"  // refuse unless the request says allow or split
+	overlapSplit = "split" // stop the person's other timers, or log a manual entry around the other time
+)
+
+// Longest rounding step and idle threshold, in minutes
+const (
+	maxRoundingMinutes = 60
+	maxIdleMinutes     = 240
+)
+
+// TimeTrackingSettings is how timers are rounded, how overlaps are handled and when the
+// client asks about idle time
+type TimeTrackingSettings struct {
+	ID              string `json:"id"`
+	RoundingMinutes int    `json:"rounding_minutes"` // 0 keeps durations as tracked
+	RoundingMode    string `json:"rounding_mode"`
+	OverlapMode     string `json:"overlap_mode"`
+	IdleMinutes     int    `json:"idle_minutes"` // 0 turns idle detection off
+	CreatedAt       string `json:"created_at"`
+	UpdatedAt       string `json:"updated_at"`
+}
+
+// UpdateTimeTrackingSettingsRequest changes the settings it names
+type UpdateTimeTrackingSettingsRequest struct {
+	RoundingMinutes *int    `json:"rounding_minutes"`
+	RoundingMode    *string `json:"rounding_mode"`
+	OverlapMode     *string `json:"overlap_mode"`
+	IdleMinutes     *int    `json:"idle_minutes"`
+}
+
+// OverlappingEntry is time a person logged that new time would overlap
+type OverlappingEntry struct {
+	TimeEntry
+	EntityName *string `json:"entity_name"`
+}
+
+// ResolveIdleTimeRequest takes idle time off a running timer
+type ResolveIdleTimeRequest struct {
+	IdleSince string `json:"idle_since" binding:"required"`
+	Action    string `json:"action" binding:"required"` // discard or split
+}
+
+// execer runs statements on the database or in a transaction
+type execer interface {
+	Exec(query string, args ...interface{}) (sql.Result, error)
+}
+
+// ==================== HELPERS ====================
+
+// loadTimeTrackingSettings reads the settings, creating them when they are missing
+func loadTimeTrackingSettings(database *db.Database) (TimeTrackingSettings, error) {
+	var s TimeTrackingSettings
+	err := database.QueryRow(`
+		SELECT id, rounding_minutes, rounding_mode, overlap_mode, idle_minutes, created_at, updated_at
+		FROM time_tracking_settings
+		WHERE id = 'default'
+	`).Scan(&s.ID, &s.RoundingMinutes, &s.RoundingMode, &s.OverlapMode, &s.IdleMinutes, &s.CreatedAt, &s.UpdatedAt)
+	if err == sql.ErrNoRows {
+		if _, err := database.Exec(`INSERT INTO time_tracking_settings (id) VALUES ('default')`); err != nil {
+			return s, err
+		}
+		return loadTimeTrackingSettings(database)
+	}
+	return s, err
+}
+
+// roundUs rounds a tracked duration to the rounding step
+func (s TimeTrackingSettings) roundUs(durationUs int64) int64 {
+	if s.RoundingMinutes <= 0 || durationUs <= 0 {
+		return durationUs
+	}
+	step := int64(s.RoundingMinutes) * time.Minute.Microseconds()
+	switch s.RoundingMode {
+	case roundingUp:
+		return (durationUs + step - 1) / step * step
+	case roundingDown:
+		return durationUs / step * step
+	}
+	return (durationUs + step/2) / step * step
+}
+
+// stopTimer ends a running entry. The end time is when it stopped; the duration is
+// rounded.
+func stopTimer(q execer, settings TimeTrackingSettings, id string, start, end time.Time) error {
+	_, err := q.Exec(`
+		UPDATE time_entries
+		SET end_time = ?, duration_us = ?, is_running = 0, updated_at = ?
+		WHERE id = ?
+	`, end.Format(time.RFC3339Nano), settings.roundUs(calculateDurationUs(start, end)), time.Now().Format(time.RFC3339Nano), id)
+	return err
+}
+
+// overlapMode is the overlap handling a request asks for, else the setting
+func overlapMode(settings TimeTrackingSettings, requested string) (string, bool) {
+	switch requested {
+	case "":
+		return settings.OverlapMode, true
+	case overlapAllow, overlapSplit:
+		return requested, true
+	}
+	return "", false
+}
+
+// loadOverlaps lists the person's entries that overlap from start to end, and running
+// timers, which overlap anything after they started. Without an end, as for a new
+// timer, only running timers count. The entry with excludeID, such as one being changed,
+// is left out.
+func loadOverlaps(database *db.Database, personID *string, start time.Time, end *time.Time, excludeID string) ([]OverlappingEntry, error) {
+	// Times are stored with the offset they were logged in, so they are compared
+	// through julianday; entrySpan below has the final say
+	span := "te.is_running = 1"
+	params := []interface{}{personID, excludeID}
+	if end != nil {
+		span = `julianday(te.start_time) < julianday(?) AND (te.is_running = 1 OR
+			COALESCE(julianday(te.end_time), julianday(te.start_time) + te.duration_us / 86400000000.0) > julianday(?))`
+		params = append(params, end.UTC().Format(time.RFC3339Nano), start.UTC().Format(time.RFC3339Nano))
+	}
+	rows, err := database.Query(`
+		SELECT te.id, te.entity_type, te.entity_id, te.person_id, te.description,
+		       te.start_time, te.end_time, te.duration_us, te.is_running,
+		       te.created_at, te.updated_at, te.billable, te.invoice_id, te.pomodoro_session_id,
+		       p.name as person_name, p.email as person_email,
+		       COALESCE(t.title, pr.name)
+		FROM time_entries te
+		LEFT JOIN people p ON te.person_id = p.id
+		LEFT JOIN tasks t ON te.entity_type = 'task' AND CAST(t.id AS TEXT) = te.entity_id
+		LEFT JOIN projects pr ON te.entity_type = 'project' AND CAST(pr.id AS TEXT) = te.entity_id
+		WHERE te.person_id IS ?
+		  AND te.id != ?
+		  AND `+span+`
+		ORDER BY te.start_time
+	`, params...)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	now := time.Now()
+	var overlaps []OverlappingEntry
+	for rows.Next() {
+		var e OverlappingEntry
+		if err := rows.Scan(
+			&e.ID, &e.EntityType, &e.EntityID, &e.PersonID, &e.Description,
+			&e.StartTime, &e.EndTime, &e.DurationUs, &e.IsRunning,
+			&e.CreatedAt, &e.UpdatedAt, &e.Billable, &e.InvoiceID, &e.PomodoroSessionID,
+			&e.PersonName, &e.PersonEmail, &e.EntityName,
+		); err != nil {
+			return nil, err
+		}
+		entryStart, entryEnd := entrySpan(e.TimeEntry, now)
+		switch {
+		case e.IsRunning == 1:
+			if end != nil && !entryStart.Before(*end) {
+				continue
+			}
+		case end == nil || !entryStart.Before(*end) || !entryEnd.After(start):
+			continue
+		}
+		overlaps = append(overlaps, e)
+	}
+	return overlaps, rows.Err()
+}
+
+// withoutTimersOn drops the timers running on an entity, which starting a timer on it
+// stops anyway
+func withoutTimersOn(overlaps []OverlappingEntry, entityType, entityID string) []OverlappingEntry {
+	kept := overlaps[:0]
+	for _, e := range overlaps {
+		if e.IsRunning == 1 && e.EntityType == entityType && e.EntityID == entityID {
+			continue
+		}
+		kept = append(kept, e)
+	}
+	return kept
+}
+
+// entrySpan is when an entry started and ended, or now for a running timer
+func entrySpan(e TimeEntry, now time.Time) (time.Time, time.Time) {
+	switch {
+	case e.IsRunning == 1:
+		return e.StartTime, now
+	case e.EndTime != nil:
+		return e.StartTime, *e.EndTime
+	case e.DurationUs != nil:
+		return e.StartTime, e.StartTime.Add(time.Duration(*e.DurationUs) * time.Microsecond)
+	}
+	return e.StartTime, e.StartTime
+}
+
+// timeSpan is a stretch of time from start to end
+type timeSpan struct {
+	start, end time.Time
+}
+
+// gapsAround is what is left of start to end once the overlapping entries are taken out
+func gapsAround(start, end time.Time, overlaps []OverlappingEntry) []timeSpan {
+	now := time.Now()
+	taken := make([]timeSpan, 0, len(overlaps))
+	for _, e := range overlaps {
+		s, t := entrySpan(e.TimeEntry, now)
+		taken = append(taken, timeSpan{s, t})
+	}
+	sort.Slice(taken, func(i, j int) bool { return taken[i].start.Before(taken[j].start) })
+
+	var gaps []timeSpan
+	cursor := start
+	for _, t := range taken {
+		if t.start.After(cursor) {
+			gapEnd := t.start
+			if gapEnd.After(end) {
+				gapEnd = end
+			}
+			if gapEnd.After(cursor) {
+				gaps = append(gaps, timeSpan{cursor, gapEnd})
+			}
+		}
+		if t.end.After(cursor) {
+			cursor = t.end
+		}
+		if !cursor.Before(end) {
+			break
+		}
+	}
+	if cursor.Before(end) {
+		gaps = append(gaps, timeSpan{cursor, end})
+	}
+	return gaps
+}
+
+// overlapMessage names the time new time overlaps
+func overlapMessage(overlaps []OverlappingEntry) string {
+	first := "another entry"
+	if overlaps[0].EntityName != nil {
+		first = fmt.Sprintf("time on %q", *overlaps[0].EntityName)
+	}
+	if len(overlaps) == 1 {
+		return fmt.Sprintf("Overlaps %s; send on_overlap as allow or split", first)
+	}
+	return fmt.Sprintf("Overlaps %s and %d more; send on_overlap as allow or split", first, len(overlaps)-1)
+}
+
+// runningOverlaps finds the person's timers running on other tasks and projects when a
+// timer starts, and answers the request itself when it should not start. Timers to stop
+// first are returned.
+func runningOverlaps(c *gin.Context, database *db.Database, settings TimeTrackingSettings, entityType, entityID string, personID *string, onOverlap string) ([]OverlappingEntry, bool) {
+	mode, ok := overlapMode(settings, onOverlap)
+	if !ok {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("on_overlap must be allow or split"))
+		return nil, false
+	}
+	if mode == overlapAllow {
+		return nil, true
+	}
+	overlaps, err := loadOverlaps(database, personID, time.Now(), nil, "")
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+		return nil, false
+	}
+	overlaps = withoutTimersOn(overlaps, entityType, entityID)
+	if len(overlaps) > 0 && mode == overlapWarn {
+		c.JSON(http.StatusConflict, middleware.NewErrorResponse("TIME_ENTRY_OVERLAP", overlapMessage(overlaps)))
+		return nil, false
+	}
+	return overlaps, true
+}
+
+// insertManualEntry stores a manual time entry after checking it against the person's
+// other time, and answers the request itself when it can't. Split around other time,
+// the entry becomes one entry per gap; the first one's id is returned.
+func insertManualEntry(c *gin.Context, database *db.Database, entityType, entityID string, req CreateTimeEntryRequest, durationUs *int64) (string, bool) {
+	if req.OnOverlap != "" && req.OnOverlap != overlapAllow && req.OnOverlap != overlapSplit {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("on_overlap must be allow or split"))
+		return "", false
+	}
+	billable := req.Billable == nil || *req.Billable
+
+	// Entries with a start and an end or a duration are checked
+	start, end, spanned := manualEntrySpan(req, durationUs)
+	if spanned && req.OnOverlap != overlapAllow {
+		settings, err := loadTimeTrackingSettings(database)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+			return "", false
+		}
+		mode, _ := overlapMode(settings, req.OnOverlap)
+		if mode != overlapAllow {
+			overlaps, err := loadOverlaps(database, req.PersonID, start, &end, "")
+			if err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+				return "", false
+			}
+			if len(overlaps) > 0 && mode == overlapWarn {
+				c.JSON(http.StatusConflict, middleware.NewErrorResponse("TIME_ENTRY_OVERLAP", overlapMessage(overlaps)))
+				return "", false
+			}
+			if len(overlaps) > 0 {
+				return insertEntryGaps(c, database, entityType, entityID, req, billable, gapsAround(start, end, overlaps))
+			}
+		}
+	}
+
+	id := uuid.New().String()
+	if _, err := database.Exec(`
+		INSERT INTO time_entries (id, entity_type, entity_id, person_id, description, start_time, end_time, duration_us, is_running, billable)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?)
+	`, id, entityType, entityID, req.PersonID, req.Description, req.StartTime, req.EndTime, durationUs, billable); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+		return "", false
+	}
+	return id, true
+}
+
+// manualEntrySpan is when a manual entry starts and ends, if it says
+func manualEntrySpan(req CreateTimeEntryRequest, durationUs *int64) (time.Time, time.Time, bool) {
+	start, err := parseTime(req.StartTime)
+	if err != nil {
+		return start, start, false
+	}
+	var end time.Time
+	switch {
+	case req.EndTime != nil:
+		if end, err = parseTime(*req.EndTime); err != nil {
+			return start, start, false
+		}
+	case durationUs != nil:
+		end = start.Add(time.Duration(*durationUs) * time.Microsecond)
+	default:
+		return start, start, false
+	}
+	return start, end, end.After(start)
+}
+
+// insertEntryGaps stores a manual entry split into the gaps left by other time
+func insertEntryGaps(c *gin.Context, database *db.Database, entityType, entityID string, req CreateTimeEntryRequest, billable bool, gaps []timeSpan) (string, bool) {
+	if len(gaps) == 0 {
+		c.JSON(http.StatusConflict, middleware.NewErrorResponse("TIME_ENTRY_OVERLAP", "Other time already covers all of this entry"))
+		return "", false
+	}
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+		return "", false
+	}
+	var firstID string
+	for _, gap := range gaps {
+		id := uuid.New().String()
+		if _, err := tx.Exec(`
+			INSERT INTO time_entries (id, entity_type, entity_id, person_id, description, start_time, end_time, duration_us, is_running, billable)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?)
+		`, id, entityType, entityID, req.PersonID, req.Description, gap.start.Format(time.RFC3339Nano),
+			gap.end.Format(time.RFC3339Nano), calculateDurationUs(gap.start, gap.end), billable); err != nil {
+			tx.Rollback()
+			c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+			return "", false
+		}
+		if firstID == "" {
+			firstID = id
+		}
+	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+		return "", false
+	}
+	return firstID, true
+}
+
+// ==================== HANDLERS ====================
+
+// GetTimeTrackingSettings handles GET /api/time-entries/settings
+func GetTimeTrackingSettings(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	settings, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(settings))
+}
+
+// UpdateTimeTrackingSettings handles PUT /api/time-entries/settings
+func UpdateTimeTrackingSettings(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var req UpdateTimeTrackingSettingsRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid request body"))
+		return
+	}
+	if req.RoundingMinutes != nil && (*req.RoundingMinutes < 0 || *req.RoundingMinutes > maxRoundingMinutes) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("rounding_minutes must be from 0 to %d", maxRoundingMinutes)))
+		return
+	}
+	if req.RoundingMode != nil && *req.RoundingMode != roundingNearest && *req.RoundingMode != roundingUp && *req.RoundingMode != roundingDown {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("rounding_mode must be nearest, up or down"))
+		return
+	}
+	if req.OverlapMode != nil && *req.OverlapMode != overlapAllow && *req.OverlapMode != overlapWarn && *req.OverlapMode != overlapSplit {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("overlap_mode must be allow, warn or split"))
+		return
+	}
+	if req.IdleMinutes != nil && (*req.IdleMinutes < 0 || *req.IdleMinutes > maxIdleMinutes) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("idle_minutes must be from 0 to %d", maxIdleMinutes)))
+		return
+	}
+
+	current, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+	if req.RoundingMinutes != nil {
+		current.RoundingMinutes = *req.RoundingMinutes
+	}
+	if req.RoundingMode != nil {
+		current.RoundingMode = *req.RoundingMode
+	}
+	if req.OverlapMode != nil {
+		current.OverlapMode = *req.OverlapMode
+	}
+	if req.IdleMinutes != nil {
+		current.IdleMinutes = *req.IdleMinutes
+	}
+
+	if _, err := database.Exec(`
+		UPDATE time_tracking_settings
+		SET rounding_minutes = ?, rounding_mode = ?, overlap_mode = ?, idle_minutes = ?, updated_at = ?
+		WHERE id = 'default'
+	`, current.RoundingMinutes, current.RoundingMode, current.OverlapMode, current.IdleMinutes, getCurrentTimestamp()); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time tracking settings"))
+		return
+	}
+
+	settings, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(settings))
+}
+
+// GetTimeEntryOverlaps handles GET /api/time-entries/overlaps - The time of ?person_id=
+// (none for time without a person) that ?start= to ?end= would overlap, leaving out the
+// entry ?exclude_id=. Without an end, the person's running timers on other than
+// ?entity_type= and ?entity_id=.
+func GetTimeEntryOverlaps(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var personID *string
+	if id := c.Query("person_id"); id != "" && id != "none" {
+		personID = &id
+	}
+	start, err := parseTime(c.Query("start"))
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("start must be a date and time"))
+		return
+	}
+	var end *time.Time
+	if c.Query("end") != "" {
+		t, err := parseTime(c.Query("end"))
+		if err != nil || !t.After(start) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("end must be a date and time after start"))
+			return
+		}
+		end = &t
+	}
+
+	overlaps, err := loadOverlaps(database, personID, start, end, c.Query("exclude_id"))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+		return
+	}
+	if end == nil {
+		overlaps = withoutTimersOn(overlaps, c.Query("entity_type"), c.Query("entity_id"))
+	}
+	if overlaps == nil {
+		overlaps = []OverlappingEntry{}
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(overlaps))
+}
+
+// ResolveIdleTime handles POST /api/time-entries/:id/idle - End a running timer when its
+// person went idle and carry on with a new timer from now. Discarded, the idle time is
+// dropped; split, it is kept as an entry of its own.
+func ResolveIdleTime(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var req ResolveIdleTimeRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("idle_since and action are required"))
+		return
+	}
+	if req.Action != "discard" && req.Action != "split" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("action must be discard or split"))
+		return
+	}
+	idleSince, err := parseTime(req.IdleSince)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("idle_since must be a date and time"))
+		return
+	}
+
+	entry, err := getTimeEntryByID(database, c.Param("id"))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entry"))
+		return
+	}
+	if entry == nil {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Time entry"))
+		return
+	}
+	now := time.Now()
+	if entry.IsRunning != 1 {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("The timer isn't running"))
+		return
+	}
+	if !idleSince.After(entry.StartTime) || !idleSince.Before(now) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("idle_since must be between the timer's start and now"))
+		return
+	}
+
+	settings, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time entry"))
+		return
+	}
+	if err := stopTimer(tx, settings, entry.ID, entry.StartTime, idleSince); err != nil {
+		tx.Rollback()
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time entry"))
+		return
+	}
+	if req.Action == "split" {
+		if _, err := tx.Exec(`
+			INSERT INTO time_entries (id, entity_type, entity_id, person_id, description, start_time, end_time, duration_us, is_running, billable)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?)
+		`, uuid.New().String(), entry.EntityType, entry.EntityID, entry.PersonID, "Idle time",
+			idleSince.Format(time.RFC3339Nano), now.Format(time.RFC3339Nano),
+			settings.roundUs(calculateDurationUs(idleSince, now)), entry.Billable); err != nil {
+			tx.Rollback()
+			c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+			return
+		}
+	}
+	id := uuid.New().String()
+	if _, err := tx.Exec(`
+		INSERT INTO time_entries (id, entity_type, entity_id, person_id, description, start_time, is_running, billable)
+		VALUES (?, ?, ?, ?, ?, ?, 1, ?)
+	`, id, entry.EntityType, entry.EntityID, entry.PersonID, entry.Description, now.Format(time.RFC3339Nano), entry.Billable); err != nil {
+		tx.Rollback()
+		c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+		return
+	}
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time entry"))
+		return
+	}
+
+	running, err := getTimeEntryByID(database, id)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entry"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(running))
+}
@@ -0,0 +1,457 @@
+package handlers
+
+import (
+	"database/sql"
+	"net/http"
+	"sort"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// TimesheetRow is the time a person logged on one task or project, by day
+type TimesheetRow struct {
+	EntityType  string           `json:"entity_type"`
+	EntityID    string           `json:"entity_id"`
+	TaskID      *int64           `json:"task_id"`
+	Title       string           `json:"title"` // task title, or the project name for time on the project
+	ProjectID   int64            `json:"project_id"`
+	ProjectName string           `json:"project_name"`
+	Days        map[string]int64 `json:"days"`
+	TotalUs     int64            `json:"total_us"`
+	RunningDays []string         `json:"running_days"` // days with a running timer, which can't be edited
+}
+
+// TimesheetPerson is a row of the grid: what a person logged by day, and on what
+type TimesheetPerson struct {
+	PersonID   *string          `json:"person_id"` // nil for entries without a person
+	PersonName string           `json:"person_name"`
+	Days       map[string]int64 `json:"days"`
+	TotalUs    int64            `json:"total_us"`
+	Rows       []TimesheetRow   `json:"rows"`
+}
+
+// Timesheet is the person × day grid of logged time
+type Timesheet struct {
+	From      string            `json:"from"`
+	To        string            `json:"to"`
+	Days      []string          `json:"days"`
+	People    []TimesheetPerson `json:"people"`
+	DayTotals map[string]int64  `json:"day_totals"`
+	TotalUs   int64             `json:"total_us"`
+}
+
+// UpdateTimesheetCellRequest sets the time a person logged on a task or project on a day
+type UpdateTimesheetCellRequest struct {
+	PersonID   *string `json:"person_id"`
+	EntityType string  `json:"entity_type" binding:"required"`
+	EntityID   string  `json:"entity_id" binding:"required"`
+	Date       string  `json:"date" binding:"required"`
+	DurationUs int64   `json:"duration_us"`
+	TZ         string  `json:"tz"`
+	OnOverlap  string  `json:"on_overlap"` // allow or split, overriding the overlap_mode setting
+}
+
+// Time added in the timesheet to a day without entries starts at this hour
+const timesheetDayStartHour = 9
+
+// GetTimesheet handles GET /api/timesheet. Everyone is listed, with or without time,
+// unless ?person_id= picks people; ?project_id= and ?tag_id= narrow the entries.
+func GetTimesheet(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	r, msg := parseReportRange(c)
+	if msg != "" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(msg))
+		return
+	}
+	filters := reportFiltersFromQuery(c)
+	entries, err := loadReportEntries(database, r, filters)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("timesheet"))
+		return
+	}
+
+	sheet := Timesheet{From: r.From, To: r.To, Days: r.reportDays(), People: []TimesheetPerson{}, DayTotals: map[string]int64{}}
+	people := map[string]*TimesheetPerson{} // by person ID, "" for no person
+	person := func(id sql.NullString, name string) *TimesheetPerson {
+		if p, ok := people[id.String]; ok {
+			return p
+		}
+		p := &TimesheetPerson{PersonName: name, Days: map[string]int64{}, Rows: []TimesheetRow{}}
+		if id.Valid {
+			personID := id.String
+			p.PersonID = &personID
+		}
+		people[id.String] = p
+		return p
+	}
+
+	// Everyone gets a line to log time on, not only those who logged some
+	personRows, err := database.Query("SELECT id, name FROM people WHERE deleted_at IS NULL")
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("people"))
+		return
+	}
+	for personRows.Next() {
+		var id, name string
+		if err := personRows.Scan(&id, &name); err != nil {
+			personRows.Close()
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("people"))
+			return
+		}
+		if len(filters.PersonIDs) == 0 || containsString(filters.PersonIDs, id) {
+			person(sql.NullString{String: id, Valid: true}, name)
+		}
+	}
+	personRows.Close()
+
+	rowIndex := map[*TimesheetPerson]map[string]int{}
+	for _, e := range entries {
+		name := e.PersonName.String
+		if !e.PersonID.Valid {
+			name = "No person"
+		}
+		p := person(e.PersonID, name)
+		if rowIndex[p] == nil {
+			rowIndex[p] = map[string]int{}
+		}
+		key := e.EntityType + ":" + e.EntityID
+		i, ok := rowIndex[p][key]
+		if !ok {
+			row := TimesheetRow{
+				EntityType:  e.EntityType,
+				EntityID:    e.EntityID,
+				Title:       e.ProjectName.String,
+				ProjectID:   e.ProjectID.Int64,
+				ProjectName: e.ProjectName.String,
+				Days:        map[string]int64{},
+				RunningDays: []string{},
+			}
+			if e.TaskID.Valid {
+				taskID := e.TaskID.Int64
+				row.TaskID = &taskID
+				row.Title = e.TaskTitle.String
+			}
+			p.Rows = append(p.Rows, row)
+			i = len(p.Rows) - 1
+			rowIndex[p][key] = i
+		}
+		row := &p.Rows[i]
+		row.Days[e.Day] += e.DurationUs
+		row.TotalUs += e.DurationUs
+		if e.IsRunning && !containsString(row.RunningDays, e.Day) {
+			row.RunningDays = append(row.RunningDays, e.Day)
+		}
+		p.Days[e.Day] += e.DurationUs
+		p.TotalUs += e.DurationUs
+		sheet.DayTotals[e.Day] += e.DurationUs
+		sheet.TotalUs += e.DurationUs
+	}
+
+	for _, p := range people {
+		sort.SliceStable(p.Rows, func(i, j int) bool {
+			if p.Rows[i].ProjectName != p.Rows[j].ProjectName {
+				return strings.ToLower(p.Rows[i].ProjectName) < strings.ToLower(p.Rows[j].ProjectName)
+			}
+			return strings.ToLower(p.Rows[i].Title) < strings.ToLower(p.Rows[j].Title)
+		})
+		sheet.People = append(sheet.People, *p)
+	}
+	// People by name, with time logged without a person last
+	sort.SliceStable(sheet.People, func(i, j int) bool {
+		a, b := sheet.People[i], sheet.People[j]
+		if (a.PersonID == nil) != (b.PersonID == nil) {
+			return b.PersonID == nil
+		}
+		return strings.ToLower(a.PersonName) < strings.ToLower(b.PersonName)
+	})
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(sheet))
+}
+
+// freeSpans places length of new time in the free spans of a day, from start on and then
+// before it, and reports whether the day has room for all of it
+func freeSpans(gaps []timeSpan, start time.Time, length time.Duration) ([]timeSpan, bool) {
+	var later, earlier []timeSpan
+	for _, gap := range gaps {
+		switch {
+		case !gap.end.After(start):
+			earlier = append(earlier, gap)
+		case gap.start.Before(start):
+			earlier = append(earlier, timeSpan{gap.start, start})
+			later = append(later, timeSpan{start, gap.end})
+		default:
+			later = append(later, gap)
+		}
+	}
+	var spans []timeSpan
+	for _, gap := range append(later, earlier...) {
+		if length <= 0 {
+			break
+		}
+		if gap.end.Sub(gap.start) > length {
+			gap.end = gap.start.Add(length)
+		}
+		spans = append(spans, gap)
+		length -= gap.end.Sub(gap.start)
+	}
+	return spans, length <= 0
+}
+
+func containsString(values []string, value string) bool {
+	for _, v := range values {
+		if v == value {
+			return true
+		}
+	}
+	return false
+}
+
+// UpdateTimesheetCell handles PUT /api/timesheet/cell. It makes the time a person
+// logged on a task or project on a day add up to duration_us: more time is added as a
+// new entry after the day's last one, and less is taken off the latest entries first,
+// removing those that reach zero. Invoiced entries are locked and left as they are.
+// Unless overlaps are allowed, added time goes where the person has no other time that
+// day, in as many entries as it takes, as manual entries are split around other time.
+func UpdateTimesheetCell(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	var req UpdateTimesheetCellRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid request body"))
+		return
+	}
+	if req.EntityType != "task" && req.EntityType != "project" {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("entity_type must be task or project"))
+		return
+	}
+	if req.DurationUs < 0 || req.DurationUs > int64(24*time.Hour/time.Microsecond) {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("duration_us must be between 0 and 24 hours"))
+		return
+	}
+	loc := time.UTC
+	if req.TZ != "" {
+		var err error
+		if loc, err = time.LoadLocation(req.TZ); err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Unknown time zone "+strconv.Quote(req.TZ)))
+			return
+		}
+	}
+	day, err := time.ParseInLocation(dateLayout, req.Date, loc)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("date must be a date (YYYY-MM-DD)"))
+		return
+	}
+
+	var exists bool
+	entityQuery := "SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL"
+	if req.EntityType == "project" {
+		entityQuery = "SELECT 1 FROM projects WHERE id = ? AND deleted_at IS NULL"
+	}
+	err = database.QueryRow(entityQuery, req.EntityID).Scan(&exists)
+	if err == sql.ErrNoRows {
+		entity := "Task"
+		if req.EntityType == "project" {
+			entity = "Project"
+		}
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError(entity))
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError(req.EntityType))
+		return
+	}
+	if req.PersonID != nil {
+		err = database.QueryRow("SELECT 1 FROM people WHERE id = ? AND deleted_at IS NULL", *req.PersonID).Scan(&exists)
+		if err == sql.ErrNoRows {
+			c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Person"))
+			return
+		}
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("person"))
+			return
+		}
+	}
+
+	if req.OnOverlap != "" && req.OnOverlap != overlapAllow && req.OnOverlap != overlapSplit {
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError("on_overlap must be allow or split"))
+		return
+	}
+	settings, err := loadTimeTrackingSettings(database)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time tracking settings"))
+		return
+	}
+	mode, _ := overlapMode(settings, req.OnOverlap)
+	dayEnd := day.AddDate(0, 0, 1)
+	var overlaps []OverlappingEntry
+	if mode != overlapAllow {
+		if overlaps, err = loadOverlaps(database, req.PersonID, day, &dayEnd, ""); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+			return
+		}
+	}
+
+	tx, err := database.Begin()
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("timesheet"))
+		return
+	}
+	defer tx.Rollback()
+
+	// The day's entries; the stored day can be a day off, see loadReportEntries
+	query := `
+		SELECT id, start_time, end_time, duration_us, is_running, invoice_id, pomodoro_session_id FROM time_entries
+		WHERE entity_type = ? AND entity_id = ? AND substr(start_time, 1, 10) BETWEEN ? AND ?`
+	params := []interface{}{req.EntityType, req.EntityID, day.AddDate(0, 0, -1).Format(dateLayout), day.AddDate(0, 0, 1).Format(dateLayout)}
+	if req.PersonID != nil {
+		query += " AND person_id = ?"
+		params = append(params, *req.PersonID)
+	} else {
+		query += " AND person_id IS NULL"
+	}
+	rows, err := tx.Query(query+" ORDER BY start_time", params...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+		return
+	}
+	type dayEntry struct {
+		id         string
+		start      time.Time
+		end        sql.NullTime
+		durationUs int64
+		invoiced   bool
+		pomodoro   bool // logged by a pomodoro session, which it follows
+	}
+	var dayEntries []dayEntry
+	var currentUs, invoicedUs, pomodoroUs int64
+	now := time.Now()
+	for rows.Next() {
+		var e dayEntry
+		var duration sql.NullInt64
+		var running int
+		var invoiceID, sessionID sql.NullString
+		if err := rows.Scan(&e.id, &e.start, &e.end, &duration, &running, &invoiceID, &sessionID); err != nil {
+			rows.Close()
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("time entries"))
+			return
+		}
+		if e.start.In(loc).Format(dateLayout) != req.Date {
+			continue
+		}
+		if running == 1 {
+			rows.Close()
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Stop the running timer before changing this day"))
+			return
+		}
+		e.durationUs = entryDurationUs(duration, e.start, e.end, false, now)
+		e.invoiced = invoiceID.Valid
+		currentUs += e.durationUs
+		e.pomodoro = sessionID.Valid
+		switch {
+		case e.invoiced:
+			invoicedUs += e.durationUs
+		case e.pomodoro:
+			pomodoroUs += e.durationUs
+		}
+		dayEntries = append(dayEntries, e)
+	}
+	rows.Close()
+	if req.DurationUs < invoicedUs {
+		c.JSON(http.StatusConflict, middleware.NewErrorResponse("ENTRY_INVOICED",
+			"Some of this day's time is invoiced; void the invoice to take it off"))
+		return
+	}
+	if req.DurationUs < invoicedUs+pomodoroUs {
+		c.JSON(http.StatusConflict, middleware.NewErrorResponse("ENTRY_FROM_POMODORO",
+			"Some of this day's time was logged by pomodoro sessions; edit or delete the sessions to take it off"))
+		return
+	}
+
+	stamp := now.Format(time.RFC3339Nano)
+	switch delta := req.DurationUs - currentUs; {
+	case delta > 0:
+		length := time.Duration(delta) * time.Microsecond
+		start := day.Add(timesheetDayStartHour * time.Hour)
+		for _, e := range dayEntries {
+			end := e.start.Add(time.Duration(e.durationUs) * time.Microsecond)
+			if e.end.Valid {
+				end = e.end.Time
+			}
+			if end.After(start) {
+				start = end
+			}
+		}
+		// Keep the new entry within the day
+		if start.Add(length).After(dayEnd) {
+			start = dayEnd.Add(-length)
+		}
+		spans := []timeSpan{{start, start.Add(length)}}
+		if mode != overlapAllow {
+			var fits bool
+			if spans, fits = freeSpans(gapsAround(day, dayEnd, overlaps), start, length); !fits {
+				c.JSON(http.StatusConflict, middleware.NewErrorResponse("TIME_ENTRY_OVERLAP",
+					"Other time leaves too little of this day free; send on_overlap as allow"))
+				return
+			}
+		}
+		remainingUs := delta
+		for i, span := range spans {
+			durationUs := calculateDurationUs(span.start, span.end)
+			if i == len(spans)-1 {
+				durationUs = remainingUs
+			}
+			remainingUs -= durationUs
+			if _, err := tx.Exec(`
+				INSERT INTO time_entries (id, entity_type, entity_id, person_id, description, start_time, end_time, duration_us, is_running)
+				VALUES (?, ?, ?, ?, NULL, ?, ?, ?, 0)
+			`, uuid.New().String(), req.EntityType, req.EntityID, req.PersonID, span.start.In(loc).Format(time.RFC3339Nano),
+				span.end.In(loc).Format(time.RFC3339Nano), durationUs); err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewCreateError("time entry"))
+				return
+			}
+		}
+	case delta < 0:
+		remaining := -delta
+		for i := len(dayEntries) - 1; i >= 0 && remaining > 0; i-- {
+			e := dayEntries[i]
+			if e.invoiced || e.pomodoro {
+				continue
+			}
+			if e.durationUs <= remaining {
+				if _, err := tx.Exec("DELETE FROM time_entries WHERE id = ?", e.id); err != nil {
+					c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("time entry"))
+					return
+				}
+				remaining -= e.durationUs
+				continue
+			}
+			left := e.durationUs - remaining
+			end := e.start.In(loc).Add(time.Duration(left) * time.Microsecond)
+			if _, err := tx.Exec("UPDATE time_entries SET end_time = ?, duration_us = ?, updated_at = ? WHERE id = ?",
+				end.Format(time.RFC3339Nano), left, stamp, e.id); err != nil {
+				c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("time entry"))
+				return
+			}
+			remaining = 0
+		}
+	}
+
+	if err := tx.Commit(); err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("timesheet"))
+		return
+	}
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{
+		"person_id":   req.PersonID,
+		"entity_type": req.EntityType,
+		"entity_id":   req.EntityID,
+		"date":        req.Date,
+		"duration_us": req.DurationUs,
+	}))
+}
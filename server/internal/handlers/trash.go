@@ -0,0 +1,460 @@
+package handlers
+
+import (
+	"database/sql"
+	"fmt"
+	"log"
+	"net/http"
+	"os"
+	"sort"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/celestask/server/internal/db"
+	"github.com/celestask/server/internal/middleware"
+	"github.com/gin-gonic/gin"
+)
+
+// Valid trash entity types
+var ValidTrashEntityTypes = []string{"project", "task", "note", "person"}
+
+// defaultTrashRetentionDays is used when TRASH_RETENTION_DAYS is not set
+const defaultTrashRetentionDays = 30
+
+// trashTimeLayout is how deleted_at is stored. Millisecond precision keeps separate deletions
+// apart, so everything trashed by one delete shares a timestamp and is restored together.
+const trashTimeLayout = "2006-01-02 15:04:05.000"
+
+// trashPurgeInterval is how often expired trash is purged while the server runs
+const trashPurgeInterval = time.Hour
+
+// trashNoteNameLength is how much of a note's first line is used as its name in the trash
+const trashNoteNameLength = 80
+
+// TrashItem is a deleted project, task, note or person that can still be restored.
+// Items deleted along with a parent (subprojects, a project's tasks, subtasks) are not
+// listed separately; they come back when the parent is restored.
+type TrashItem struct {
+	EntityType string  `json:"entity_type"`
+	ID         string  `json:"id"`
+	Name       string  `json:"name"`
+	ParentName *string `json:"parent_name"` // project of a task or person, parent of a project, owner of a note
+	DeletedAt  string  `json:"deleted_at"`
+}
+
+// TrashList is the trash contents, most recently deleted first
+type TrashList struct {
+	Items         []TrashItem `json:"items"`
+	RetentionDays int         `json:"retention_days"` // 0 means items are kept until deleted by hand
+}
+
+// isValidTrashEntityType checks if the trash entity type is valid
+func isValidTrashEntityType(entityType string) bool {
+	for _, t := range ValidTrashEntityTypes {
+		if t == entityType {
+			return true
+		}
+	}
+	return false
+}
+
+// trashTimestamp returns the deleted_at value for a deletion happening now
+func trashTimestamp() string {
+	return time.Now().UTC().Format(trashTimeLayout)
+}
+
+// TrashRetentionDays returns how many days trashed items are kept (TRASH_RETENTION_DAYS, default 30).
+// 0 disables the automatic purge.
+func TrashRetentionDays() int {
+	value := os.Getenv("TRASH_RETENTION_DAYS")
+	if value == "" {
+		return defaultTrashRetentionDays
+	}
+	days, err := strconv.Atoi(value)
+	if err != nil || days < 0 {
+		log.Printf("Invalid TRASH_RETENTION_DAYS %q, using %d days", value, defaultTrashRetentionDays)
+		return defaultTrashRetentionDays
+	}
+	return days
+}
+
+// trashProject moves a project, its subprojects and all of their tasks to the trash
+func trashProject(database *db.Database, projectID int) error {
+	deletedAt := trashTimestamp()
+
+	_, err := database.Exec(`
+		WITH RECURSIVE trashing(id) AS (
+			SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL
+			UNION
+			SELECT p.id FROM projects p
+			INNER JOIN trashing t ON p.parent_project_id = t.id
+			WHERE p.deleted_at IS NULL
+		)
+		UPDATE projects SET deleted_at = ? WHERE id IN (SELECT id FROM trashing)`, projectID, deletedAt)
+	if err != nil {
+		return err
+	}
+
+	_, err = database.Exec(`
+		UPDATE tasks SET deleted_at = ?
+		WHERE deleted_at IS NULL AND project_id IN (SELECT id FROM projects WHERE deleted_at = ?)`, deletedAt, deletedAt)
+	return err
+}
+
+// restoreProject restores a trashed project with the subprojects and tasks trashed along with it.
+// A project whose parent is still in the trash is moved to the top level.
+func restoreProject(database *db.Database, projectID int) error {
+	var deletedAt string
+	if err := database.QueryRow("SELECT deleted_at FROM projects WHERE id = ? AND deleted_at IS NOT NULL", projectID).Scan(&deletedAt); err != nil {
+		return err
+	}
+
+	const subtree = `
+		WITH RECURSIVE restoring(id) AS (
+			SELECT id FROM projects WHERE id = ?
+			UNION
+			SELECT p.id FROM projects p
+			INNER JOIN restoring r ON p.parent_project_id = r.id
+			WHERE p.deleted_at = ?
+		)
+		SELECT id FROM restoring`
+
+	if _, err := database.Exec(
+		"UPDATE tasks SET deleted_at = NULL WHERE deleted_at = ? AND project_id IN ("+subtree+")",
+		deletedAt, projectID, deletedAt,
+	); err != nil {
+		return err
+	}
+	if _, err := database.Exec(
+		"UPDATE projects SET deleted_at = NULL WHERE id IN ("+subtree+")",
+		projectID, deletedAt,
+	); err != nil {
+		return err
+	}
+	_, err := database.Exec(`
+		UPDATE projects SET parent_project_id = NULL
+		WHERE id = ? AND parent_project_id IN (SELECT id FROM projects WHERE deleted_at IS NOT NULL)`, projectID)
+	return err
+}
+
+// taskProjectInTrash reports whether a task belongs to a project that is in the trash
+func taskProjectInTrash(database *db.Database, taskID int) bool {
+	var inTrash bool
+	err := database.QueryRow(`
+		SELECT 1 FROM tasks t
+		INNER JOIN projects p ON p.id = t.project_id
+		WHERE t.id = ? AND p.deleted_at IS NOT NULL`, taskID).Scan(&inTrash)
+	return err == nil && inTrash
+}
+
+// purgeTrash permanently deletes trashed items deleted before the given time ("" purges everything)
+// and returns how many rows were removed. Tasks of deleted projects go with them via ON DELETE CASCADE.
+// Projects with invoices are kept, since their invoices would be deleted with them.
+func purgeTrash(database *db.Database, before string) (int64, error) {
+	condition := "deleted_at IS NOT NULL"
+	var args []interface{}
+	if before != "" {
+		condition += " AND deleted_at < ?"
+		args = append(args, before)
+	}
+
+	var purged int64
+	for _, table := range []string{"tasks", "projects", "notes", "people"} {
+		where := condition
+		if table == "projects" {
+			where += " AND id NOT IN (SELECT project_id FROM invoices)"
+		}
+		result, err := database.Exec("DELETE FROM "+table+" WHERE "+where, args...)
+		if err != nil {
+			return purged, fmt.Errorf("failed to purge %s: %w", table, err)
+		}
+		n, _ := result.RowsAffected()
+		purged += n
+	}
+	return purged, nil
+}
+
+// PurgeExpiredTrash permanently deletes items that have been in the trash longer than the retention period
+func PurgeExpiredTrash(database *db.Database, retentionDays int) (int64, error) {
+	cutoff := time.Now().UTC().AddDate(0, 0, -retentionDays).Format(trashTimeLayout)
+	return purgeTrash(database, cutoff)
+}
+
+// StartTrashPurge purges expired trash now and then periodically for as long as the server runs
+func StartTrashPurge(database *db.Database) {
+	retentionDays := TrashRetentionDays()
+	if retentionDays == 0 {
+		log.Printf("Trash purge disabled (TRASH_RETENTION_DAYS=0)")
+		return
+	}
+
+	purge := func() {
+		purged, err := PurgeExpiredTrash(database, retentionDays)
+		if err != nil {
+			log.Printf("Failed to purge expired trash: %v", err)
+			return
+		}
+		if purged > 0 {
+			log.Printf("Purged %d expired trash items", purged)
+		}
+	}
+
+	purge()
+	go func() {
+		ticker := time.NewTicker(trashPurgeInterval)
+		defer ticker.Stop()
+		for range ticker.C {
+			purge()
+		}
+	}()
+}
+
+// trashNoteName returns the first line of a note, shortened for display
+func trashNoteName(content string) string {
+	name := strings.TrimSpace(strings.SplitN(strings.TrimSpace(content), "\n", 2)[0])
+	name = strings.TrimLeft(name, "# ")
+	if runes := []rune(name); len(runes) > trashNoteNameLength {
+		name = string(runes[:trashNoteNameLength]) + "…"
+	}
+	if name == "" {
+		return "Empty note"
+	}
+	return name
+}
+
+// listTrashedItems returns the trashed items of one entity type
+func listTrashedItems(database *db.Database, entityType string) ([]TrashItem, error) {
+	var query string
+	switch entityType {
+	case "project":
+		// Subprojects trashed with their parent share its deleted_at and are not listed
+		query = `
+			SELECT p.id, p.name, pp.name, p.deleted_at
+			FROM projects p
+			LEFT JOIN projects pp ON pp.id = p.parent_project_id
+			WHERE p.deleted_at IS NOT NULL
+				AND (pp.deleted_at IS NULL OR pp.deleted_at != p.deleted_at)`
+	case "task":
+		// Tasks trashed with their project or parent task are not listed
+		query = `
+			SELECT t.id, t.title, p.name, t.deleted_at
+			FROM tasks t
+			INNER JOIN projects p ON p.id = t.project_id
+			LEFT JOIN tasks pt ON pt.id = t.parent_task_id
+			WHERE t.deleted_at IS NOT NULL
+				AND (p.deleted_at IS NULL OR p.deleted_at != t.deleted_at)
+				AND (pt.deleted_at IS NULL OR pt.deleted_at != t.deleted_at)`
+	case "note":
+		query = `
+			SELECT n.id, n.content,
+				CASE n.entity_type
+					WHEN 'task' THEN (SELECT title FROM tasks WHERE CAST(id AS TEXT) = n.entity_id)
+					WHEN 'project' THEN (SELECT name FROM projects WHERE CAST(id AS TEXT) = n.entity_id)
+					WHEN 'person' THEN (SELECT name FROM people WHERE id = n.entity_id)
+				END,
+				n.deleted_at
+			FROM notes n
+			WHERE n.deleted_at IS NOT NULL`
+	case "person":
+		query = `
+			SELECT pe.id, pe.name, pr.name, pe.deleted_at
+			FROM people pe
+			LEFT JOIN projects pr ON pr.id = pe.project_id
+			WHERE pe.deleted_at IS NOT NULL`
+	}
+
+	rows, err := database.Query(query)
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	var items []TrashItem
+	for rows.Next() {
+		item := TrashItem{EntityType: entityType}
+		if err := rows.Scan(&item.ID, &item.Name, &item.ParentName, &item.DeletedAt); err != nil {
+			return nil, err
+		}
+		if entityType == "note" {
+			item.Name = trashNoteName(item.Name)
+		}
+		items = append(items, item)
+	}
+	return items, rows.Err()
+}
+
+// GetTrash handles GET /api/trash - List trashed items, optionally filtered by ?entity_type=
+func GetTrash(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	entityTypes := ValidTrashEntityTypes
+	if entityType := c.Query("entity_type"); entityType != "" {
+		if !isValidTrashEntityType(entityType) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid entity_type. Must be one of: %s", strings.Join(ValidTrashEntityTypes, ", "))))
+			return
+		}
+		entityTypes = []string{entityType}
+	}
+
+	items := []TrashItem{}
+	for _, entityType := range entityTypes {
+		trashed, err := listTrashedItems(database, entityType)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewFetchError("trash"))
+			return
+		}
+		items = append(items, trashed...)
+	}
+	sort.SliceStable(items, func(i, j int) bool {
+		return items[i].DeletedAt > items[j].DeletedAt
+	})
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(TrashList{Items: items, RetentionDays: TrashRetentionDays()}))
+}
+
+// RestoreTrashItem handles POST /api/trash/:entityType/:id/restore - Restore a trashed item
+// with everything that was trashed along with it
+func RestoreTrashItem(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	entityType := c.Param("entityType")
+	id := c.Param("id")
+
+	switch entityType {
+	case "project":
+		projectID, err := strconv.Atoi(id)
+		if err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid project ID"))
+			return
+		}
+		if err := restoreProject(database, projectID); err != nil {
+			if err == sql.ErrNoRows {
+				c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Trashed project"))
+				return
+			}
+			c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("project"))
+			return
+		}
+		var name string
+		if err := database.QueryRow("SELECT name FROM projects WHERE id = ?", projectID).Scan(&name); err == nil {
+			logActivity(database, "project", projectID, name, projectID, "restored", nil)
+		}
+
+	case "task":
+		taskID, err := strconv.Atoi(id)
+		if err != nil {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("Invalid task ID"))
+			return
+		}
+		var trashed bool
+		if err := database.QueryRow("SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NOT NULL", taskID).Scan(&trashed); err != nil {
+			c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Trashed task"))
+			return
+		}
+		if taskProjectInTrash(database, taskID) {
+			c.JSON(http.StatusBadRequest, middleware.NewValidationError("The task's project is in the trash. Restore the project first."))
+			return
+		}
+		if _, err := restoreTasks(database, []int{taskID}); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewUpdateError("task"))
+			return
+		}
+
+	case "note", "person":
+		table := entityTables[entityType]
+		result, err := database.Exec("UPDATE "+table+" SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL", id)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewUpdateError(entityType))
+			return
+		}
+		if n, _ := result.RowsAffected(); n == 0 {
+			c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Trashed "+entityType))
+			return
+		}
+
+	default:
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid entity type. Must be one of: %s", strings.Join(ValidTrashEntityTypes, ", "))))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Item restored"}))
+}
+
+// DeleteTrashItem handles DELETE /api/trash/:entityType/:id - Permanently delete a trashed item
+// with everything that was trashed along with it
+func DeleteTrashItem(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+	entityType := c.Param("entityType")
+	id := c.Param("id")
+
+	var query string
+	var args []interface{}
+	switch entityType {
+	case "project":
+		// Tasks go with their projects via ON DELETE CASCADE, and so would invoices,
+		// so a project with invoices (or with a subproject that has them) is kept
+		subtree := `
+			WITH RECURSIVE deleting(id, deleted_at) AS (
+				SELECT id, deleted_at FROM projects WHERE id = ? AND deleted_at IS NOT NULL
+				UNION
+				SELECT p.id, p.deleted_at FROM projects p
+				INNER JOIN deleting d ON p.parent_project_id = d.id
+				WHERE p.deleted_at = d.deleted_at
+			)`
+		var invoices int
+		if err := database.QueryRow(subtree+" SELECT COUNT(*) FROM invoices WHERE project_id IN (SELECT id FROM deleting)", id).
+			Scan(&invoices); err != nil {
+			c.JSON(http.StatusInternalServerError, middleware.NewDeleteError(entityType))
+			return
+		}
+		if invoices > 0 {
+			c.JSON(http.StatusConflict, middleware.NewErrorResponse("PROJECT_HAS_INVOICES",
+				"This project has invoices, so it can't be deleted permanently. It can stay in the Trash or be restored."))
+			return
+		}
+		query = subtree + " DELETE FROM projects WHERE id IN (SELECT id FROM deleting)"
+		args = []interface{}{id}
+	case "task":
+		query = `
+			WITH RECURSIVE deleting(id, deleted_at) AS (
+				SELECT id, deleted_at FROM tasks WHERE id = ? AND deleted_at IS NOT NULL
+				UNION
+				SELECT t.id, t.deleted_at FROM tasks t
+				INNER JOIN deleting d ON t.parent_task_id = d.id
+				WHERE t.deleted_at = d.deleted_at
+			)
+			DELETE FROM tasks WHERE id IN (SELECT id FROM deleting)`
+		args = []interface{}{id}
+	case "note", "person":
+		query = "DELETE FROM " + entityTables[entityType] + " WHERE id = ? AND deleted_at IS NOT NULL"
+		args = []interface{}{id}
+	default:
+		c.JSON(http.StatusBadRequest, middleware.NewValidationError(fmt.Sprintf("Invalid entity type. Must be one of: %s", strings.Join(ValidTrashEntityTypes, ", "))))
+		return
+	}
+
+	result, err := database.Exec(query, args...)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError(entityType))
+		return
+	}
+	if n, _ := result.RowsAffected(); n == 0 {
+		c.JSON(http.StatusNotFound, middleware.NewNotFoundError("Trashed "+entityType))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"message": "Item permanently deleted"}))
+}
+
+// EmptyTrash handles DELETE /api/trash - Permanently delete everything in the trash
+func EmptyTrash(c *gin.Context) {
+	database := c.MustGet("database").(*db.Database)
+
+	purged, err := purgeTrash(database, "")
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, middleware.NewDeleteError("trash"))
+		return
+	}
+
+	c.JSON(http.StatusOK, middleware.NewSuccessResponse(gin.H{"deleted": purged}))
+}
@@ -25,6 +25,9 @@ func main() {
 		log.Fatalf("Failed to create schema: %v", err)
 	}
 
+	// Permanently delete trashed items older than the retention period, now and periodically
+	handlers.StartTrashPurge(database)
+
 	// Set up Gin router
 	router := gin.New()
 	router.Use(gin.Logger())
@@ -159,6 +162,11 @@ func setupRoutes(router *gin.Engine) {
 			timeEntries.GET("/running", handlers.GetRunningTimers)
 			timeEntries.POST("/stop-all", handlers.StopAllTimers)
 
+			// Rounding, overlap and idle settings, and the time new time would overlap
+			timeEntries.GET("/settings", handlers.GetTimeTrackingSettings)
+			timeEntries.PUT("/settings", handlers.UpdateTimeTrackingSettings)
+			timeEntries.GET("/overlaps", handlers.GetTimeEntryOverlaps)
+
 			// Task time entries
 			timeEntries.GET("/task/:taskId", handlers.GetTaskTimeEntries)
 			timeEntries.POST("/task/:taskId", handlers.CreateTaskTimeEntry)
@@ -176,15 +184,43 @@ func setupRoutes(router *gin.Engine) {
 			// Generic time entry operations
 			timeEntries.PUT("/:id", handlers.UpdateTimeEntry)
 			timeEntries.DELETE("/:id", handlers.DeleteTimeEntry)
+			timeEntries.POST("/:id/idle", handlers.ResolveIdleTime)
 		}
 
+		// Timesheet and time reports, summed by day in the viewer's time zone
+		api.GET("/timesheet", handlers.GetTimesheet)
+		api.PUT("/timesheet/cell", handlers.UpdateTimesheetCell)
+		api.GET("/reports/time", handlers.GetTimeReport)
+		api.GET("/reports/time/export", handlers.ExportTimeReport)
+
+		// Billing rates and invoices; an invoice locks the time entries it bills
+		api.GET("/billing/rates", handlers.GetBillingRates)
+		api.PUT("/billing/rates", handlers.SetBillingRate)
+		api.GET("/invoices/:id", handlers.GetInvoice)
+		api.GET("/invoices/:id/print", handlers.PrintInvoice)
+		api.GET("/invoices/:id/export", handlers.ExportInvoice)
+		api.DELETE("/invoices/:id", handlers.VoidInvoice)
+
 		// Import/Export routes
 		api.GET("/export", handlers.GetExport)
 		api.GET("/export/status", handlers.GetExportStatus)
 		api.GET("/export/sqlite", handlers.GetExportSQLite)
+		api.GET("/export/tasks", handlers.ExportTasks)
+		api.GET("/calendar/projects/:id/tasks.ics", handlers.GetProjectCalendarFeed)
+		api.GET("/calendar/people/:id/tasks.ics", handlers.GetPersonCalendarFeed)
 		api.POST("/import", handlers.PostImport)
+		api.POST("/import/tasks", handlers.PostImportTasks)
 		api.GET("/import/status", handlers.GetImportStatus)
 
+		// Trash routes
+		trash := api.Group("/trash")
+		{
+			trash.GET("", handlers.GetTrash)
+			trash.DELETE("", handlers.EmptyTrash)
+			trash.POST("/:entityType/:id/restore", handlers.RestoreTrashItem)
+			trash.DELETE("/:entityType/:id", handlers.DeleteTrashItem)
+		}
+
 		// Saved views routes
 		api.GET("/saved-views", handlers.GetSavedViews)
 		api.POST("/saved-views", handlers.CreateSavedView)
@@ -218,6 +254,17 @@ func setupRoutes(router *gin.Engine) {
 			projects.GET("/:id/assignees", handlers.GetProjectAssignees)
 			projects.POST("/:id/assignees", handlers.AddProjectAssignee)
 			projects.DELETE("/:id/assignees/:personId", handlers.RemoveProjectAssignee)
+			projects.GET("/:id/activity", handlers.GetProjectActivity)
+			projects.GET("/:id/statuses", handlers.GetProjectStatuses)
+			projects.POST("/:id/statuses", handlers.CreateProjectStatus)
+			projects.PUT("/:id/statuses/reorder", handlers.ReorderProjectStatuses)
+			projects.PUT("/:id/statuses/:statusId", handlers.UpdateProjectStatus)
+			projects.DELETE("/:id/statuses/:statusId", handlers.DeleteProjectStatus)
+			projects.GET("/:id/billing", handlers.GetProjectBilling)
+			projects.PUT("/:id/billing", handlers.UpdateProjectBilling)
+			projects.GET("/:id/invoices", handlers.GetProjectInvoices)
+			projects.GET("/:id/invoices/preview", handlers.PreviewProjectInvoice)
+			projects.POST("/:id/invoices", handlers.CreateProjectInvoice)
 		}
 
 		// Tasks routes
@@ -226,10 +273,15 @@ func setupRoutes(router *gin.Engine) {
 			tasks.GET("", handlers.GetTasks)
 			tasks.POST("", handlers.CreateTask)
 			tasks.PUT("/bulk", handlers.BulkUpdateTasks)
+			tasks.DELETE("/bulk", handlers.BulkDeleteTasks)
+			tasks.POST("/bulk/restore", handlers.BulkRestoreTasks)
+			tasks.GET("/dependencies", handlers.GetAllTaskDependencies)
 			tasks.GET("/:id", handlers.GetTask)
 			tasks.PUT("/:id", handlers.UpdateTask)
 			tasks.DELETE("/:id", handlers.DeleteTask)
 			tasks.PATCH("/:id/status", handlers.UpdateTaskStatus)
+			tasks.PUT("/:id/rank", handlers.ReorderTask)
+			tasks.POST("/:id/restore", handlers.RestoreTask)
 
 			// Hierarchy
 			tasks.GET("/:id/children", handlers.GetTaskChildren)
@@ -251,12 +303,23 @@ func setupRoutes(router *gin.Engine) {
 			tasks.POST("/:id/tags", handlers.AddTaskTag)
 			tasks.DELETE("/:id/tags/:tagId", handlers.RemoveTaskTag)
 
+			// Dependencies
+			tasks.GET("/:id/dependencies", handlers.GetTaskDependencies)
+			tasks.POST("/:id/dependencies", handlers.AddTaskDependency)
+			tasks.DELETE("/:id/dependencies/:depId", handlers.RemoveTaskDependency)
+
 			// Custom fields
 			tasks.GET("/:id/custom-fields", handlers.GetTaskCustomFields)
 			tasks.PUT("/:id/custom-fields/:fieldId", handlers.SetTaskCustomField)
 			tasks.DELETE("/:id/custom-fields/:fieldId", handlers.RemoveTaskCustomField)
+
+			// Activity
+			tasks.GET("/:id/activity", handlers.GetTaskActivity)
 		}
 
+		// Activity log routes
+		api.GET("/activity", handlers.GetActivity)
+
 		// Tags routes
 		api.GET("/tags", handlers.GetTags)
 		api.POST("/tags", handlers.CreateTag)
@@ -268,6 +331,7 @@ func setupRoutes(router *gin.Engine) {
 		api.GET("/custom-fields", handlers.GetCustomFields)
 		api.POST("/custom-fields", handlers.CreateCustomField)
 		api.GET("/custom-fields/:id", handlers.GetCustomField)
+		api.GET("/custom-fields/:id/values", handlers.GetCustomFieldValues)
 		api.PUT("/custom-fields/:id", handlers.UpdateCustomField)
 		api.DELETE("/custom-fields/:id", handlers.DeleteCustomField)
 
@@ -289,11 +353,15 @@ func setupRoutes(router *gin.Engine) {
 			pomodoro.POST("/complete", handlers.CompletePomodoro)
 			pomodoro.POST("/skip", handlers.SkipPomodoro)
 
-			// Sessions list
+			// Sessions list and edits
 			pomodoro.GET("/sessions", handlers.GetPomodoroSessions)
+			pomodoro.PUT("/sessions/:id", handlers.UpdatePomodoroSession)
+			pomodoro.DELETE("/sessions/:id", handlers.DeletePomodoroSession)
 
 			// Stats
 			pomodoro.GET("/stats", handlers.GetPomodoroStats)
+			pomodoro.GET("/stats/range", handlers.GetPomodoroRangeStats)
+			pomodoro.GET("/stats/streaks", handlers.GetPomodoroStreaks)
 		}
 	}
 }